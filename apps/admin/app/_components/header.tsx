@@ -37,8 +37,18 @@ export default function Header() {
             <NavLink href="/students" label="学生" />
             <NavLink href="/teachers" label="老师" />
             <NavLink href="/rates" label="费率" />
+            <NavLink href="/packages" label="课时包" />
             <NavLink href="/sessions" label="排课" />
             <NavLink href="/change-requests" label="审批" />
+            <NavLink href="/invoices" label="账单" />
+            <NavLink href="/payments" label="收款" />
+            <NavLink href="/payroll" label="工资汇总" />
+            <NavLink href="/payroll-runs" label="工资结算" />
+            <NavLink href="/reports" label="报表" />
+            <NavLink href="/exchange-rates" label="汇率" />
+            <NavLink href="/settings" label="设置" />
+            <NavLink href="/security" label="安全" />
+            <NavLink href="/account" label="账号" />
           </div>
           <button
             className="btnSecondary btnSm"
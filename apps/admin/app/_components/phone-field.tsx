@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useApi } from '../_lib/api';
+
+/** Shows a user's phone number, which they can sign in with, and lets the admin change or remove it. */
+export default function PhoneField({ userId, phone }: { userId: string; phone: string | null }) {
+  const { apiFetchJson } = useApi();
+
+  const [saved, setSaved] = useState(phone);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(phone ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!editing) {
+    return (
+      <span className="row" style={{ gap: 8 }}>
+        <span className="muted">手机号：{saved ?? '—'}</span>
+        <button
+          className="btnSecondary btnSm"
+          type="button"
+          data-testid="phone-edit"
+          onClick={() => {
+            setDraft(saved ?? '');
+            setError(null);
+            setEditing(true);
+          }}
+        >
+          修改
+        </button>
+      </span>
+    );
+  }
+
+  return (
+    <form
+      className="row"
+      style={{ gap: 8, flexWrap: 'wrap' }}
+      onSubmit={async (event) => {
+        event.preventDefault();
+        setError(null);
+        setSaving(true);
+        try {
+          const result = await apiFetchJson<{ phone: string | null }>(`/admin/users/${userId}/phone`, {
+            method: 'PUT',
+            headers: { 'content-type': 'application/json' },
+            body: JSON.stringify({ phone: draft.trim() || null }),
+          });
+          setSaved(result.phone);
+          setEditing(false);
+        } catch (err) {
+          setError(err instanceof Error ? err.message : '保存失败');
+        } finally {
+          setSaving(false);
+        }
+      }}
+    >
+      <input
+        data-testid="phone-input"
+        type="tel"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        placeholder="留空则移除手机号"
+      />
+      <button className="btn btnSm" type="submit" disabled={saving}>
+        {saving ? '保存中…' : '保存'}
+      </button>
+      <button className="btnSecondary btnSm" type="button" disabled={saving} onClick={() => setEditing(false)}>
+        取消
+      </button>
+      {error ? <span className="error">{error}</span> : null}
+    </form>
+  );
+}
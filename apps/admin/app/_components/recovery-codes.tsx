@@ -0,0 +1,36 @@
+'use client';
+
+import { useState } from 'react';
+
+/** Freshly generated recovery codes; they are only ever shown once, so the user is asked to keep them now. */
+export default function RecoveryCodes({ codes }: { codes: string[] }) {
+  const [copied, setCopied] = useState(false);
+
+  return (
+    <div className="stack" style={{ gap: 8 }}>
+      <div className="success">
+        请保存以下恢复码。手机丢失时可用恢复码代替验证码登录，每个只能使用一次，且不会再次显示。
+      </div>
+      <div
+        data-testid="recovery-codes"
+        style={{ display: 'grid', gridTemplateColumns: 'repeat(2, max-content)', gap: '4px 24px' }}
+      >
+        {codes.map((code) => (
+          <code key={code}>{code}</code>
+        ))}
+      </div>
+      <div className="row">
+        <button
+          className="btnSecondary btnSm"
+          type="button"
+          onClick={async () => {
+            await navigator.clipboard.writeText(codes.join('\n'));
+            setCopied(true);
+          }}
+        >
+          {copied ? '已复制' : '复制'}
+        </button>
+      </div>
+    </div>
+  );
+}
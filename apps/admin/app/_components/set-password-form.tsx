@@ -0,0 +1,115 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+
+/**
+ * Sets a password with the single-use token from a mailed link (`?token=`): an invitation for new accounts, or a
+ * password reset.
+ */
+export default function SetPasswordForm({
+  endpoint,
+  title,
+  intro,
+}: {
+  endpoint: '/auth/accept-invitation' | '/auth/reset-password';
+  title: string;
+  intro: string;
+}) {
+  const [token, setToken] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+
+  useEffect(() => {
+    setToken(new URLSearchParams(window.location.search).get('token') ?? '');
+  }, []);
+
+  return (
+    <main>
+      <h1 style={{ marginTop: 0 }}>{title}</h1>
+
+      <div className="card stack" style={{ maxWidth: 420 }}>
+        {done ? (
+          <>
+            <div className="success">密码已设置，请用新密码登录。</div>
+            <Link href="/login">去登录</Link>
+          </>
+        ) : token === '' ? (
+          <div className="error">链接无效：缺少令牌。请使用邮件中的完整链接。</div>
+        ) : (
+          <form
+            className="stack"
+            onSubmit={async (event) => {
+              event.preventDefault();
+              setError(null);
+              if (password.length < 8) {
+                setError('密码至少 8 位');
+                return;
+              }
+              if (password !== confirmation) {
+                setError('两次输入的密码不一致');
+                return;
+              }
+
+              setLoading(true);
+              try {
+                const res = await fetch(endpoint, {
+                  method: 'POST',
+                  headers: { 'content-type': 'application/json' },
+                  body: JSON.stringify({ token, password }),
+                });
+                if (!res.ok) {
+                  setError(res.status === 400 ? '链接已失效或已被使用，请重新获取' : '设置失败，请稍后再试');
+                  return;
+                }
+                setDone(true);
+              } catch (err) {
+                setError(err instanceof Error ? err.message : '设置失败');
+              } finally {
+                setLoading(false);
+              }
+            }}
+          >
+            <div className="muted">{intro}</div>
+
+            <label className="field">
+              <span className="muted">新密码</span>
+              <input
+                data-testid="new-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="至少 8 位"
+              />
+            </label>
+
+            <label className="field">
+              <span className="muted">确认新密码</span>
+              <input
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+            </label>
+
+            {error ? <div className="error">{error}</div> : null}
+
+            <button
+              className="btn"
+              type="submit"
+              disabled={loading || token === null}
+              data-testid="set-password-submit"
+            >
+              {loading ? '提交中…' : '设置密码'}
+            </button>
+          </form>
+        )}
+      </div>
+    </main>
+  );
+}
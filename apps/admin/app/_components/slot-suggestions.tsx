@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useApi } from '../_lib/api';
+
+export type SlotSuggestion = {
+  startAtUtc: string;
+  endAtUtc: string;
+  teacherLocalStart: string;
+  studentLocalStart: string;
+  score: number;
+};
+
+type SuggestionsResponse = {
+  durationMinutes: number;
+  teacherTimeZone: string | null;
+  studentTimeZone: string | null;
+  slots: SlotSuggestion[];
+};
+
+const SEARCH_DAYS = 14;
+
+export default function SlotSuggestions({
+  teacherId,
+  studentId,
+  durationMinutes,
+  excludeSessionId,
+  onPick,
+}: {
+  teacherId: string;
+  studentId: string;
+  durationMinutes: number;
+  excludeSessionId?: string | null;
+  onPick?: (slot: SlotSuggestion) => void;
+}) {
+  const { apiFetchJson } = useApi();
+
+  const [data, setData] = useState<SuggestionsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      const from = new Date();
+      const to = new Date(from.getTime() + SEARCH_DAYS * 24 * 60 * 60 * 1000);
+      const params = new URLSearchParams({
+        teacherId,
+        studentId,
+        durationMinutes: String(durationMinutes),
+        from: from.toISOString(),
+        to: to.toISOString(),
+      });
+      if (excludeSessionId) params.set('excludeSessionId', excludeSessionId);
+      setData(await apiFetchJson<SuggestionsResponse>(`/admin/scheduling/suggestions?${params.toString()}`));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '加载失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="stack" data-testid="slot-suggestions">
+      <div className="row" style={{ flexWrap: 'wrap' }}>
+        <button
+          className="btnSecondary btnSm"
+          type="button"
+          disabled={loading || !teacherId || !studentId || durationMinutes <= 0}
+          onClick={() => void load()}
+        >
+          {loading ? '查找中…' : `推荐空闲时间（未来 ${SEARCH_DAYS} 天）`}
+        </button>
+        {data ? (
+          <span className="muted" style={{ fontSize: 12 }}>
+            老师时区：{data.teacherTimeZone ?? '—'} · 学生时区：{data.studentTimeZone ?? '—'}
+          </span>
+        ) : null}
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+
+      {data && data.slots.length === 0 ? <div className="muted">没有找到合适的时间</div> : null}
+
+      {data?.slots.map((slot) => (
+        <div key={slot.startAtUtc} className="row" style={{ justifyContent: 'space-between', flexWrap: 'wrap' }}>
+          <span style={{ fontSize: 13 }}>
+            老师 {slot.teacherLocalStart} · 学生 {slot.studentLocalStart}
+          </span>
+          {onPick ? (
+            <button className="btnSecondary btnSm" type="button" onClick={() => onPick(slot)}>
+              使用
+            </button>
+          ) : null}
+        </div>
+      ))}
+    </div>
+  );
+}
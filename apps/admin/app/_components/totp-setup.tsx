@@ -0,0 +1,20 @@
+'use client';
+
+/** The secret to add to an authenticator app, shown in groups of four so it is easier to type in. */
+export default function TotpSetup({ secret, otpauthUrl }: { secret: string; otpauthUrl: string }) {
+  return (
+    <div className="stack" style={{ gap: 8 }}>
+      <div className="muted" style={{ fontSize: 13 }}>
+        在身份验证器应用（如 Google Authenticator、Microsoft
+        Authenticator）中添加账号，手动输入下面的密钥；在手机上也可以直接
+        <a href={otpauthUrl}>用应用打开</a>。
+      </div>
+      <code data-testid="totp-secret" style={{ fontSize: 16, letterSpacing: 1, wordBreak: 'break-all' }}>
+        {secret.match(/.{1,4}/g)?.join(' ') ?? secret}
+      </code>
+      <div className="muted" style={{ fontSize: 13 }}>
+        添加后输入应用显示的 6 位验证码完成设置。
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,36 @@ import { useCallback } from 'react';
 
 import { useAuth } from './auth';
 
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly body: unknown,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+async function responseError(res: Response): Promise<ApiError> {
+  const text = await res.text().catch(() => '');
+  const contentType = res.headers.get('content-type') ?? '';
+
+  if (contentType.includes('application/json') && text) {
+    let parsed: unknown = null;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      parsed = null;
+    }
+    if (parsed && typeof parsed === 'object' && 'message' in parsed && typeof parsed.message === 'string') {
+      return new ApiError(parsed.message, res.status, parsed);
+    }
+  }
+
+  return new ApiError(text || `Request failed: ${res.status}`, res.status, null);
+}
+
 export function useApi() {
   const { accessToken, refreshAccessToken } = useAuth();
 
@@ -28,27 +58,27 @@ export function useApi() {
   const apiFetchJson = useCallback(
     async <T,>(input: RequestInfo | URL, init?: RequestInit): Promise<T> => {
       const res = await apiFetch(input, init);
-      if (!res.ok) {
-        const text = await res.text().catch(() => '');
-        const contentType = res.headers.get('content-type') ?? '';
-
-        if (contentType.includes('application/json') && text) {
-          try {
-            const parsed: unknown = JSON.parse(text);
-            if (parsed && typeof parsed === 'object' && 'message' in parsed && typeof parsed.message === 'string') {
-              throw new Error(parsed.message);
-            }
-          } catch (error) {
-            if (error instanceof Error && error.message !== text) throw error;
-          }
-        }
-
-        throw new Error(text || `Request failed: ${res.status}`);
-      }
+      if (!res.ok) throw await responseError(res);
       return (await res.json()) as T;
     },
     [apiFetch],
   );
 
-  return { apiFetch, apiFetchJson };
+  /** Fetches a file with the current session and hands it to the browser as a download. */
+  const apiDownload = useCallback(
+    async (input: RequestInfo | URL, filename: string): Promise<void> => {
+      const res = await apiFetch(input);
+      if (!res.ok) throw await responseError(res);
+
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+    },
+    [apiFetch],
+  );
+
+  return { apiFetch, apiFetchJson, apiDownload };
 }
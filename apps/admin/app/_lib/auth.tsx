@@ -3,7 +3,7 @@
 import type { ReactNode } from 'react';
 
 import { useRouter } from 'next/navigation';
-import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
 
 type UserRole = 'STUDENT' | 'TEACHER' | 'ADMIN';
 
@@ -64,25 +64,34 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
-  const refreshAccessToken = useCallback(async () => {
-    try {
-      const res = await fetch('/auth/refresh', { method: 'POST' });
-      if (!res.ok) {
-        setAccessToken(null);
-        return null;
-      }
-
-      const data = (await res.json()) as { accessToken?: string };
-      if (!data.accessToken) {
-        setAccessToken(null);
+  // Each refresh rotates the refresh cookie, so concurrent 401s must share one request: a second request with the
+  // already-rotated cookie would look like a stolen token.
+  const refreshInFlight = useRef<Promise<string | null> | null>(null);
+
+  const refreshAccessToken = useCallback(() => {
+    refreshInFlight.current ??= (async () => {
+      try {
+        const res = await fetch('/auth/refresh', { method: 'POST' });
+        if (!res.ok) {
+          setAccessToken(null);
+          return null;
+        }
+
+        const data = (await res.json()) as { accessToken?: string };
+        if (!data.accessToken) {
+          setAccessToken(null);
+          return null;
+        }
+
+        setAccessToken(data.accessToken);
+        return data.accessToken;
+      } catch {
         return null;
+      } finally {
+        refreshInFlight.current = null;
       }
-
-      setAccessToken(data.accessToken);
-      return data.accessToken;
-    } catch {
-      return null;
-    }
+    })();
+    return refreshInFlight.current;
   }, [setAccessToken]);
 
   const logout = useCallback(async () => {
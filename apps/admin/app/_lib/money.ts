@@ -0,0 +1,30 @@
+export type Currency = 'AUD' | 'CNY' | 'USD';
+
+/** Parses a positive decimal amount with up to two fraction digits into cents; returns null for anything else. */
+export function parseAmountToCents(value: string): number | null {
+  const raw = value.trim();
+  if (!raw) return null;
+  const match = /^(\d+)(?:\.(\d{0,2}))?$/.exec(raw);
+  if (!match) return null;
+
+  const integerRaw = match[1];
+  if (!integerRaw) return null;
+  const integerPart = BigInt(integerRaw);
+
+  const fractionalPart = (match[2] ?? '').padEnd(2, '0');
+  const fractionalValue = BigInt(fractionalPart);
+
+  const cents = integerPart * 100n + fractionalValue;
+  if (cents <= 0n) return null;
+  if (cents > BigInt(Number.MAX_SAFE_INTEGER)) return null;
+  return Number(cents);
+}
+
+export function formatCurrencyFromCents(cents: number, currency: string): string {
+  const amount = cents / 100;
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
@@ -0,0 +1,411 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+
+import RecoveryCodes from '../_components/recovery-codes';
+import TotpSetup from '../_components/totp-setup';
+import { useApi } from '../_lib/api';
+import { useAuth, useRequireAdmin } from '../_lib/auth';
+
+type AuthSessionItem = {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+};
+
+type TwoFactorStatus = {
+  enabled: boolean;
+  pending: boolean;
+  recoveryCodesRemaining: number;
+  /** The organization requires admins to keep 2FA on, so it cannot be turned off here. */
+  required: boolean;
+};
+
+function formatDateTime(value: string): string {
+  return new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(value));
+}
+
+function SessionsCard() {
+  const router = useRouter();
+  const { logout } = useAuth();
+  const { apiFetchJson } = useApi();
+
+  const [sessions, setSessions] = useState<AuthSessionItem[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const data = await apiFetchJson<AuthSessionItem[]>('/me/sessions');
+    setSessions(data);
+  }, [apiFetchJson]);
+
+  useEffect(() => {
+    refresh().catch((err: unknown) => setError(err instanceof Error ? err.message : '加载失败'));
+  }, [refresh]);
+
+  const signOutHere = async () => {
+    await logout();
+    router.replace('/login');
+  };
+
+  return (
+    <div className="card stack" style={{ maxWidth: 640 }}>
+      <div className="row" style={{ justifyContent: 'space-between' }}>
+        <strong>登录设备</strong>
+        <button
+          className="btnDanger btnSm"
+          type="button"
+          disabled={busy}
+          data-testid="sessions-revoke-all"
+          onClick={async () => {
+            if (!window.confirm('确认退出所有设备吗？（包括当前设备）')) return;
+            setError(null);
+            setBusy(true);
+            try {
+              await apiFetchJson('/me/sessions/revoke-all', { method: 'POST' });
+              await signOutHere();
+            } catch (err) {
+              setError(err instanceof Error ? err.message : '操作失败');
+              setBusy(false);
+            }
+          }}
+        >
+          退出所有设备
+        </button>
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+
+      {sessions === null ? (
+        <div className="muted">加载中…</div>
+      ) : (
+        <div className="list" data-testid="session-list">
+          {sessions.map((session) => (
+            <div key={session.id} className="listItem">
+              <div className="listItemMain">
+                <div className="row" style={{ justifyContent: 'space-between' }}>
+                  <span className="listItemTitle">
+                    {session.userAgent ?? '未知设备'}
+                    {session.current ? (
+                      <span className="statusBadge statusBadgeScheduled" style={{ marginLeft: 8 }}>
+                        当前设备
+                      </span>
+                    ) : null}
+                  </span>
+                </div>
+                <div className="listItemMeta">
+                  IP {session.ipAddress ?? '—'} · 登录于 {formatDateTime(session.createdAt)} · 最近活动{' '}
+                  {formatDateTime(session.lastUsedAt)}
+                </div>
+              </div>
+
+              <button
+                className="btnSecondary btnSm"
+                type="button"
+                disabled={busy}
+                onClick={async () => {
+                  setError(null);
+                  setBusy(true);
+                  try {
+                    await apiFetchJson(`/me/sessions/${session.id}`, { method: 'DELETE' });
+                    if (session.current) {
+                      await signOutHere();
+                      return;
+                    }
+                    await refresh();
+                  } catch (err) {
+                    setError(err instanceof Error ? err.message : '操作失败');
+                  } finally {
+                    setBusy(false);
+                  }
+                }}
+              >
+                退出
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TwoFactorCard() {
+  const { apiFetchJson } = useApi();
+
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setStatus(await apiFetchJson<TwoFactorStatus>('/me/2fa'));
+  }, [apiFetchJson]);
+
+  useEffect(() => {
+    refresh().catch((err: unknown) => setError(err instanceof Error ? err.message : '加载失败'));
+  }, [refresh]);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setSuccess(null);
+    setBusy(true);
+    try {
+      await action();
+      setCode('');
+      setPassword('');
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '操作失败');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const postJson = <T,>(path: string, body?: unknown) =>
+    apiFetchJson<T>(path, {
+      method: 'POST',
+      ...(body === undefined ? {} : { headers: { 'content-type': 'application/json' }, body: JSON.stringify(body) }),
+    });
+
+  const codeInput = (
+    <label className="field">
+      <span className="muted">身份验证器应用中的验证码</span>
+      <input
+        data-testid="two-factor-code"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        maxLength={6}
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder="6 位数字"
+      />
+    </label>
+  );
+
+  return (
+    <div className="card stack" style={{ maxWidth: 420 }}>
+      <div className="row" style={{ justifyContent: 'space-between' }}>
+        <strong>两步验证</strong>
+        {status ? (
+          <span className={status.enabled ? 'statusBadge' : 'statusBadge statusBadgeWarning'}>
+            {status.enabled ? '已启用' : '未启用'}
+          </span>
+        ) : null}
+      </div>
+      <div className="muted" style={{ fontSize: 13 }}>
+        启用后，登录时除密码或登录验证码外，还需输入身份验证器应用中的验证码。
+      </div>
+
+      {recoveryCodes ? <RecoveryCodes codes={recoveryCodes} /> : null}
+
+      {status === null ? (
+        <div className="muted">加载中…</div>
+      ) : !status.enabled ? (
+        setup ? (
+          <>
+            <TotpSetup secret={setup.secret} otpauthUrl={setup.otpauthUrl} />
+            {codeInput}
+            <button
+              className="btn"
+              type="button"
+              disabled={busy || !code.trim()}
+              data-testid="two-factor-confirm"
+              onClick={() =>
+                run(async () => {
+                  const data = await postJson<{ recoveryCodes: string[] }>('/me/2fa/confirm', { code: code.trim() });
+                  setSetup(null);
+                  setRecoveryCodes(data.recoveryCodes);
+                  setSuccess('两步验证已启用');
+                })
+              }
+            >
+              确认启用
+            </button>
+          </>
+        ) : (
+          <button
+            className="btn"
+            type="button"
+            disabled={busy}
+            data-testid="two-factor-setup"
+            onClick={() =>
+              run(async () => {
+                setRecoveryCodes(null);
+                setSetup(await postJson<{ secret: string; otpauthUrl: string }>('/me/2fa/setup'));
+              })
+            }
+          >
+            启用两步验证
+          </button>
+        )
+      ) : (
+        <>
+          <div className="muted" style={{ fontSize: 13 }}>剩余恢复码：{status.recoveryCodesRemaining} 个</div>
+          {codeInput}
+          <div className="row" style={{ gap: 8 }}>
+            <button
+              className="btnSecondary"
+              type="button"
+              disabled={busy || !code.trim()}
+              onClick={() =>
+                run(async () => {
+                  const data = await postJson<{ recoveryCodes: string[] }>('/me/2fa/recovery-codes', {
+                    code: code.trim(),
+                  });
+                  setRecoveryCodes(data.recoveryCodes);
+                  setSuccess('已生成新的恢复码，旧恢复码已失效');
+                })
+              }
+            >
+              重新生成恢复码
+            </button>
+          </div>
+
+          {status.required ? (
+            <div className="muted" style={{ fontSize: 13 }}>机构要求管理员启用两步验证，无法关闭。</div>
+          ) : (
+            <>
+              <label className="field">
+                <span className="muted">当前密码（关闭两步验证时需要）</span>
+                <input
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </label>
+              <div className="row">
+                <button
+                  className="btnDanger"
+                  type="button"
+                  disabled={busy || !code.trim() || !password}
+                  onClick={() =>
+                    run(async () => {
+                      await postJson('/me/2fa/disable', { password, code: code.trim() });
+                      setRecoveryCodes(null);
+                      setSuccess('两步验证已关闭');
+                    })
+                  }
+                >
+                  关闭两步验证
+                </button>
+              </div>
+            </>
+          )}
+        </>
+      )}
+
+      {error ? <div className="error">{error}</div> : null}
+      {success ? <div className="success">{success}</div> : null}
+    </div>
+  );
+}
+
+export default function AccountPage() {
+  const { hydrated, accessToken } = useRequireAdmin();
+  const { apiFetchJson } = useApi();
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  if (!hydrated || !accessToken) return <main className="muted">加载中…</main>;
+
+  return (
+    <main className="stack">
+      <h1 style={{ margin: 0 }}>账号</h1>
+
+      <form
+        className="card stack"
+        style={{ maxWidth: 420 }}
+        onSubmit={async (event) => {
+          event.preventDefault();
+          setError(null);
+          setSuccess(null);
+          if (newPassword.length < 8) {
+            setError('新密码至少 8 位');
+            return;
+          }
+          if (newPassword !== confirmation) {
+            setError('两次输入的新密码不一致');
+            return;
+          }
+
+          setSaving(true);
+          try {
+            await apiFetchJson('/me/password', {
+              method: 'POST',
+              headers: { 'content-type': 'application/json' },
+              body: JSON.stringify({ currentPassword, newPassword }),
+            });
+            setCurrentPassword('');
+            setNewPassword('');
+            setConfirmation('');
+            setSuccess('密码已修改');
+          } catch (err) {
+            setError(err instanceof Error ? err.message : '修改失败');
+          } finally {
+            setSaving(false);
+          }
+        }}
+      >
+        <strong>修改密码</strong>
+
+        <label className="field">
+          <span className="muted">当前密码</span>
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+          />
+        </label>
+
+        <label className="field">
+          <span className="muted">新密码</span>
+          <input
+            data-testid="account-new-password"
+            type="password"
+            autoComplete="new-password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            placeholder="至少 8 位"
+          />
+        </label>
+
+        <label className="field">
+          <span className="muted">确认新密码</span>
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+          />
+        </label>
+
+        {error ? <div className="error">{error}</div> : null}
+        {success ? <div className="success">{success}</div> : null}
+
+        <button className="btn" type="submit" disabled={saving || !currentPassword} data-testid="account-save-password">
+          {saving ? '保存中…' : '保存'}
+        </button>
+      </form>
+
+      <TwoFactorCard />
+
+      <SessionsCard />
+    </main>
+  );
+}
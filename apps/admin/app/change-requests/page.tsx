@@ -2,7 +2,8 @@
 
 import { useEffect, useState } from 'react';
 
-import { useApi } from '../_lib/api';
+import SlotSuggestions from '../_components/slot-suggestions';
+import { ApiError, useApi } from '../_lib/api';
 import { useRequireAdmin } from '../_lib/auth';
 
 type ChangeRequestItem = {
@@ -13,8 +14,12 @@ type ChangeRequestItem = {
   proposedStartAtUtc: string | null;
   proposedEndAtUtc: string | null;
   proposedTimeZone: string | null;
+  requestedByRole: 'STUDENT' | 'TEACHER' | 'ADMIN';
+  requestedByName: string | null;
   createdAt: string;
   session: {
+    teacherId: string;
+    studentId: string;
     startAtUtc: string;
     endAtUtc: string;
     classTimeZone: string;
@@ -23,19 +28,69 @@ type ChangeRequestItem = {
   };
 };
 
+const REQUESTER_ROLE_LABELS: Record<ChangeRequestItem['requestedByRole'], string> = {
+  STUDENT: '学生',
+  TEACHER: '老师',
+  ADMIN: '管理员',
+};
+
+type ApproveResponse = {
+  id: string;
+  status: string;
+  lateCancel: { charge: 'FULL' | 'HALF' | 'NONE'; chargedUnits: number; teacherPaid: boolean } | null;
+};
+
+type ConflictItem = {
+  sessionId: string;
+  startAtUtc: string;
+  endAtUtc: string;
+  parties: ('TEACHER' | 'STUDENT')[];
+};
+
 export default function ChangeRequestsPage() {
   const { hydrated, accessToken } = useRequireAdmin();
   const { apiFetchJson } = useApi();
 
   const [items, setItems] = useState<ChangeRequestItem[] | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
   const [busyId, setBusyId] = useState<string | null>(null);
+  const [conflictsById, setConflictsById] = useState<Record<string, ConflictItem[]>>({});
 
   const refresh = async () => {
     const data = await apiFetchJson<ChangeRequestItem[]>('/admin/change-requests?status=PENDING');
     setItems(data);
   };
 
+  const approve = async (id: string, overrideConflicts: boolean) => {
+    setError(null);
+    setSuccess(null);
+    setBusyId(id);
+    try {
+      const data = await apiFetchJson<ApproveResponse>(`/admin/change-requests/${id}/approve`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ overrideConflicts }),
+      });
+      if (data.lateCancel) {
+        setSuccess(
+          `已按迟取消规则处理：扣除 ${data.lateCancel.chargedUnits} 课时，${data.lateCancel.teacherPaid ? '老师照常计薪' : '老师不计薪'}`,
+        );
+      }
+      setConflictsById(({ [id]: _removed, ...rest }) => rest);
+      await refresh();
+    } catch (err) {
+      const body = err instanceof ApiError && err.status === 409 ? (err.body as { conflicts?: ConflictItem[] }) : null;
+      if (body?.conflicts) {
+        const conflicts = body.conflicts;
+        setConflictsById((prev) => ({ ...prev, [id]: conflicts }));
+      }
+      setError(err instanceof Error ? err.message : '审批失败');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
   useEffect(() => {
     if (!hydrated || !accessToken) return;
     void refresh().catch((err) => setError(err instanceof Error ? err.message : '加载失败'));
@@ -52,6 +107,7 @@ export default function ChangeRequestsPage() {
       </div>
 
       {error ? <div className="error">{error}</div> : null}
+      {success ? <div className="success">{success}</div> : null}
 
       {items === null ? (
         <div className="card muted">加载中…</div>
@@ -70,6 +126,15 @@ export default function ChangeRequestsPage() {
                 </span>
               </div>
 
+              <div className="row" style={{ fontSize: 13, flexWrap: 'wrap' }}>
+                <span
+                  className={`statusBadge ${item.requestedByRole === 'TEACHER' ? 'statusBadgeScheduled' : 'statusBadgeCancelled'}`}
+                >
+                  {REQUESTER_ROLE_LABELS[item.requestedByRole]}发起
+                </span>
+                <span>{item.requestedByName ?? '—'}</span>
+              </div>
+
               <div className="muted" style={{ fontSize: 13 }}>
                 Session: {item.sessionId}
               </div>
@@ -88,27 +153,45 @@ export default function ChangeRequestsPage() {
                 </div>
               ) : null}
 
+              {item.type === 'RESCHEDULE' ? (
+                <SlotSuggestions
+                  teacherId={item.session.teacherId}
+                  studentId={item.session.studentId}
+                  durationMinutes={Math.round(
+                    (new Date(item.session.endAtUtc).getTime() - new Date(item.session.startAtUtc).getTime()) / 60_000,
+                  )}
+                  excludeSessionId={item.sessionId}
+                />
+              ) : null}
+
+              {conflictsById[item.id] ? (
+                <div className="stack" style={{ gap: 4 }}>
+                  <div className="error">新时间与以下课程冲突：</div>
+                  {conflictsById[item.id]!.map((conflict) => (
+                    <div key={conflict.sessionId} className="muted" style={{ fontSize: 13 }}>
+                      {conflict.parties.map((party) => (party === 'TEACHER' ? '老师' : '学生')).join('、')}冲突 ·{' '}
+                      {conflict.startAtUtc} → {conflict.endAtUtc} · Session：{conflict.sessionId}
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+
               <div className="row" style={{ flexWrap: 'wrap' }}>
-                <button
-                  className="btn"
-                  type="button"
-                  disabled={busyId === item.id}
-                  onClick={async () => {
-                    setError(null);
-                    setBusyId(item.id);
-                    try {
-                      await apiFetchJson(`/admin/change-requests/${item.id}/approve`, { method: 'POST' });
-                      await refresh();
-                    } catch (err) {
-                      setError(err instanceof Error ? err.message : '审批失败');
-                    } finally {
-                      setBusyId(null);
-                    }
-                  }}
-                >
+                <button className="btn" type="button" disabled={busyId === item.id} onClick={() => void approve(item.id, false)}>
                   通过
                 </button>
 
+                {conflictsById[item.id] ? (
+                  <button
+                    className="btnDanger"
+                    type="button"
+                    disabled={busyId === item.id}
+                    onClick={() => void approve(item.id, true)}
+                  >
+                    强制通过
+                  </button>
+                ) : null}
+
                 <button
                   className="btnDanger"
                   type="button"
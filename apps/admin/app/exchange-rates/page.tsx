@@ -0,0 +1,258 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { ApiError, useApi } from '../_lib/api';
+import { useRequireAdmin } from '../_lib/auth';
+import type { Currency } from '../_lib/money';
+
+type ExchangeRateItem = {
+  id: string;
+  fromCurrency: Currency;
+  toCurrency: Currency;
+  effectiveDate: string;
+  rate: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type ExchangeRatesResponse = {
+  baseCurrency: Currency;
+  rates: ExchangeRateItem[];
+};
+
+const CURRENCIES: Currency[] = ['AUD', 'CNY', 'USD'];
+
+function todayLocal(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+/** Drops the trailing zeros of the API's fixed 8-place rates. */
+function formatRate(rate: string): string {
+  return rate.replace(/\.?0+$/, '');
+}
+
+export default function ExchangeRatesPage() {
+  const { hydrated, accessToken } = useRequireAdmin();
+  const { apiFetchJson } = useApi();
+
+  const [data, setData] = useState<ExchangeRatesResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [fromCurrency, setFromCurrency] = useState<Currency>('USD');
+  const [toCurrency, setToCurrency] = useState<Currency>('AUD');
+  const [effectiveDate, setEffectiveDate] = useState(todayLocal);
+  const [rate, setRate] = useState('');
+
+  const refresh = async () => {
+    const res = await apiFetchJson<ExchangeRatesResponse>('/admin/exchange-rates');
+    setData(res);
+  };
+
+  useEffect(() => {
+    if (!hydrated || !accessToken) return;
+    void refresh().catch((err) => setError(err instanceof Error ? err.message : '加载失败'));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [accessToken, hydrated]);
+
+  /** Runs an update, then shows the message it resolves to and reloads the list. */
+  const run = async (action: () => Promise<string>) => {
+    setError(null);
+    setImportErrors([]);
+    setSuccess(null);
+    setBusy(true);
+    try {
+      setSuccess(await action());
+      await refresh();
+    } catch (err) {
+      if (err instanceof ApiError && Array.isArray((err.body as { errors?: unknown } | null)?.errors)) {
+        setImportErrors((err.body as { errors: string[] }).errors);
+      }
+      setError(err instanceof Error ? err.message : '操作失败');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <main className="stack">
+      <h1 style={{ margin: 0 }}>汇率</h1>
+
+      {error ? <div className="error">{error}</div> : null}
+      {importErrors.length > 0 ? (
+        <div className="error">
+          {importErrors.map((line) => (
+            <div key={line}>{line}</div>
+          ))}
+        </div>
+      ) : null}
+      {success ? <div className="success">{success}</div> : null}
+
+      {data === null ? (
+        <div className="card muted">加载中…</div>
+      ) : (
+        <>
+          <div className="card stack">
+            <strong>本位币</strong>
+            <div className="muted" style={{ fontSize: 12 }}>
+              两种币种之间没有直接汇率时，通过本位币交叉折算。
+            </div>
+            <div className="row" style={{ flexWrap: 'wrap', alignItems: 'flex-end' }}>
+              <label className="field">
+                <span className="muted">本位币</span>
+                <select
+                  data-testid="base-currency"
+                  value={data.baseCurrency}
+                  disabled={busy}
+                  onChange={(e) => {
+                    const baseCurrency = e.target.value as Currency;
+                    void run(async () => {
+                      await apiFetchJson('/admin/exchange-rates/base-currency', {
+                        method: 'PUT',
+                        headers: { 'content-type': 'application/json' },
+                        body: JSON.stringify({ baseCurrency }),
+                      });
+                      return '已保存';
+                    });
+                  }}
+                >
+                  {CURRENCIES.map((currency) => (
+                    <option key={currency} value={currency}>
+                      {currency}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </div>
+
+          <form
+            className="card stack"
+            onSubmit={(event) => {
+              event.preventDefault();
+              void run(async () => {
+                await apiFetchJson('/admin/exchange-rates', {
+                  method: 'PUT',
+                  headers: { 'content-type': 'application/json' },
+                  body: JSON.stringify({ fromCurrency, toCurrency, effectiveDate, rate: rate.trim() }),
+                });
+                setRate('');
+                return '已保存';
+              });
+            }}
+          >
+            <strong>录入汇率</strong>
+            <div className="muted" style={{ fontSize: 12 }}>
+              1 单位源币种 = 汇率 × 目标币种；自生效日起使用，直到该币种对的下一条汇率生效。同一天重复录入会覆盖。
+            </div>
+            <div className="row" style={{ flexWrap: 'wrap', alignItems: 'flex-end' }}>
+              <label className="field">
+                <span className="muted">生效日期</span>
+                <input type="date" value={effectiveDate} onChange={(e) => setEffectiveDate(e.target.value)} />
+              </label>
+              <label className="field">
+                <span className="muted">源币种</span>
+                <select value={fromCurrency} onChange={(e) => setFromCurrency(e.target.value as Currency)}>
+                  {CURRENCIES.map((currency) => (
+                    <option key={currency} value={currency}>
+                      {currency}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="field">
+                <span className="muted">目标币种</span>
+                <select value={toCurrency} onChange={(e) => setToCurrency(e.target.value as Currency)}>
+                  {CURRENCIES.map((currency) => (
+                    <option key={currency} value={currency}>
+                      {currency}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="field">
+                <span className="muted">汇率</span>
+                <input
+                  data-testid="exchange-rate-value"
+                  inputMode="decimal"
+                  placeholder="例如 0.65"
+                  value={rate}
+                  onChange={(e) => setRate(e.target.value)}
+                />
+              </label>
+              <button className="btn" type="submit" disabled={busy || !rate.trim() || fromCurrency === toCurrency}>
+                保存
+              </button>
+            </div>
+          </form>
+
+          <div className="card stack">
+            <strong>导入 CSV</strong>
+            <div className="muted" style={{ fontSize: 12 }}>
+              表头：effective_date,from_currency,to_currency,rate。任一行有误时整份文件都不会导入。
+            </div>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              disabled={busy}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (!file) return;
+                void run(async () => {
+                  const csv = await file.text();
+                  const res = await apiFetchJson<{ imported: number }>('/admin/exchange-rates/import', {
+                    method: 'POST',
+                    headers: { 'content-type': 'application/json' },
+                    body: JSON.stringify({ csv }),
+                  });
+                  return `已导入 ${res.imported} 条汇率`;
+                });
+              }}
+            />
+          </div>
+
+          <div className="card stack">
+            <strong>汇率记录</strong>
+            {data.rates.length === 0 ? (
+              <div className="muted">暂无汇率</div>
+            ) : (
+              <div className="stack" style={{ gap: 6 }} data-testid="exchange-rate-list">
+                {data.rates.map((item) => (
+                  <div
+                    key={item.id}
+                    className="row"
+                    style={{ justifyContent: 'space-between', borderTop: '1px solid #f3f4f6', paddingTop: 6 }}
+                  >
+                    <span>
+                      <span className="muted">{item.effectiveDate} · </span>1 {item.fromCurrency} ={' '}
+                      {formatRate(item.rate)} {item.toCurrency}
+                    </span>
+                    <button
+                      className="btnDanger btnSm"
+                      type="button"
+                      disabled={busy}
+                      onClick={() => {
+                        if (!window.confirm('确认删除这条汇率吗？')) return;
+                        void run(async () => {
+                          await apiFetchJson(`/admin/exchange-rates/${item.id}`, { method: 'DELETE' });
+                          return '已删除';
+                        });
+                      }}
+                    >
+                      删除
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </main>
+  );
+}
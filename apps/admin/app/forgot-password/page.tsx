@@ -0,0 +1,67 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sent, setSent] = useState(false);
+
+  return (
+    <main>
+      <h1 style={{ marginTop: 0 }}>忘记密码</h1>
+
+      <div className="card stack" style={{ maxWidth: 420 }}>
+        {sent ? (
+          <div className="success">如果该邮箱已注册，我们已发送重置链接，请查收邮件。</div>
+        ) : (
+          <form
+            className="stack"
+            onSubmit={async (event) => {
+              event.preventDefault();
+              setError(null);
+              setLoading(true);
+              try {
+                const res = await fetch('/auth/forgot-password', {
+                  method: 'POST',
+                  headers: { 'content-type': 'application/json' },
+                  body: JSON.stringify({ email }),
+                });
+                if (!res.ok) {
+                  setError(res.status === 429 ? '请求过于频繁，请稍后再试' : '发送失败，请稍后再试');
+                  return;
+                }
+                setSent(true);
+              } catch (err) {
+                setError(err instanceof Error ? err.message : '发送失败');
+              } finally {
+                setLoading(false);
+              }
+            }}
+          >
+            <label className="field">
+              <span className="muted">邮箱</span>
+              <input
+                data-testid="forgot-email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="请输入注册邮箱"
+              />
+            </label>
+
+            {error ? <div className="error">{error}</div> : null}
+
+            <button className="btn" type="submit" disabled={loading || !email} data-testid="forgot-submit">
+              {loading ? '发送中…' : '发送重置链接'}
+            </button>
+          </form>
+        )}
+        <Link href="/login">返回登录</Link>
+      </div>
+    </main>
+  );
+}
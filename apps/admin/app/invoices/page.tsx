@@ -0,0 +1,311 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { useApi } from '../_lib/api';
+import { useRequireAdmin } from '../_lib/auth';
+import { formatCurrencyFromCents, type Currency } from '../_lib/money';
+
+type StudentOption = {
+  id: string;
+  email: string | null;
+  displayName: string | null;
+};
+
+type InvoiceStatus = 'DRAFT' | 'ISSUED' | 'PAID' | 'VOID';
+
+type InvoiceItem = {
+  id: string;
+  studentId: string;
+  studentName: string | null;
+  number: string | null;
+  currency: Currency;
+  billingMode: 'PER_SESSION' | 'PREPAID';
+  status: InvoiceStatus;
+  periodStartLocal: string;
+  periodEndLocal: string;
+  totalCents: number;
+  issuedAt: string | null;
+  paidAt: string | null;
+  voidedAt: string | null;
+  createdAt: string;
+  lines: {
+    id: string;
+    kind: 'SESSION' | 'PURCHASE';
+    description: string;
+    quantity: number;
+    unitAmountCents: number;
+    amountCents: number;
+  }[];
+};
+
+const STATUS_LABELS: Record<InvoiceStatus, string> = {
+  DRAFT: '草稿',
+  ISSUED: '已开具',
+  PAID: '已付款',
+  VOID: '已作废',
+};
+
+const STATUS_BADGE_CLASSES: Record<InvoiceStatus, string> = {
+  DRAFT: 'statusBadge',
+  ISSUED: 'statusBadge statusBadgeScheduled',
+  PAID: 'statusBadge statusBadgeCompleted',
+  VOID: 'statusBadge statusBadgeCancelled',
+};
+
+function monthStartLocal(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-01`;
+}
+
+function todayLocal(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+function quantityLabel(line: InvoiceItem['lines'][number]): string {
+  return line.kind === 'SESSION' ? `${line.quantity} 分钟` : `${line.quantity} 课时`;
+}
+
+export default function InvoicesPage() {
+  const { hydrated, accessToken } = useRequireAdmin();
+  const { apiFetchJson } = useApi();
+
+  const [students, setStudents] = useState<StudentOption[] | null>(null);
+  const [invoices, setInvoices] = useState<InvoiceItem[] | null>(null);
+  const [statusFilter, setStatusFilter] = useState<InvoiceStatus | 'ALL'>('ALL');
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const [studentId, setStudentId] = useState('');
+  const [periodStart, setPeriodStart] = useState(monthStartLocal);
+  const [periodEnd, setPeriodEnd] = useState(todayLocal);
+  const [generating, setGenerating] = useState(false);
+
+  const refresh = async () => {
+    const query = statusFilter === 'ALL' ? '' : `?status=${statusFilter}`;
+    const data = await apiFetchJson<InvoiceItem[]>(`/admin/invoices${query}`);
+    setInvoices(data);
+  };
+
+  useEffect(() => {
+    if (!hydrated || !accessToken) return;
+    void apiFetchJson<StudentOption[]>('/admin/students')
+      .then(setStudents)
+      .catch((err) => setError(err instanceof Error ? err.message : '加载失败'));
+  }, [accessToken, apiFetchJson, hydrated]);
+
+  useEffect(() => {
+    if (!hydrated || !accessToken) return;
+    void refresh().catch((err) => setError(err instanceof Error ? err.message : '加载失败'));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [accessToken, hydrated, statusFilter]);
+
+  const runAction = async (invoice: InvoiceItem, action: 'issue' | 'mark-paid' | 'void', successMessage: string) => {
+    setError(null);
+    setSuccess(null);
+    setBusyId(invoice.id);
+    try {
+      await apiFetchJson<InvoiceItem>(`/admin/invoices/${invoice.id}/${action}`, { method: 'POST' });
+      setSuccess(successMessage);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '操作失败');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <main className="stack">
+      <div className="row" style={{ justifyContent: 'space-between' }}>
+        <h1 style={{ margin: 0 }}>账单</h1>
+        <button className="btnSecondary" type="button" onClick={() => void refresh()} disabled={invoices === null}>
+          刷新
+        </button>
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+      {success ? <div className="success">{success}</div> : null}
+
+      <div className="card stack">
+        <strong>生成账单</strong>
+        <form
+          className="row"
+          style={{ flexWrap: 'wrap', alignItems: 'flex-end' }}
+          onSubmit={async (event) => {
+            event.preventDefault();
+            setError(null);
+            setSuccess(null);
+            if (!studentId) {
+              setError('请选择学生');
+              return;
+            }
+
+            setGenerating(true);
+            try {
+              const created = await apiFetchJson<InvoiceItem[]>('/admin/invoices/generate', {
+                method: 'POST',
+                headers: { 'content-type': 'application/json' },
+                body: JSON.stringify({ studentId, periodStart, periodEnd }),
+              });
+              setSuccess(`已生成 ${created.length} 张草稿账单（每个币种一张）`);
+              await refresh();
+            } catch (err) {
+              setError(err instanceof Error ? err.message : '生成失败');
+            } finally {
+              setGenerating(false);
+            }
+          }}
+        >
+          <label className="field" style={{ minWidth: 260 }}>
+            <span className="muted">学生</span>
+            <select value={studentId} onChange={(e) => setStudentId(e.target.value)} disabled={students === null}>
+              <option value="">请选择</option>
+              {(students ?? []).map((student) => (
+                <option key={student.id} value={student.id}>
+                  {student.displayName ?? '—'} ({student.email ?? 'no-email'})
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="field">
+            <span className="muted">开始日期</span>
+            <input type="date" value={periodStart} onChange={(e) => setPeriodStart(e.target.value)} />
+          </label>
+
+          <label className="field">
+            <span className="muted">结束日期（含）</span>
+            <input type="date" value={periodEnd} onChange={(e) => setPeriodEnd(e.target.value)} />
+          </label>
+
+          <button className="btn" type="submit" disabled={generating}>
+            {generating ? '生成中…' : '生成'}
+          </button>
+        </form>
+        <div className="muted" style={{ fontSize: 12 }}>
+          日期按学生时区计算。按课结算的学生汇总期间内已完成的课程；预付学生汇总期间内填写了金额的购买记录。已出账的项目不会重复出账。
+        </div>
+      </div>
+
+      <div className="row" style={{ flexWrap: 'wrap' }}>
+        <label className="field" style={{ minWidth: 180 }}>
+          <span className="muted">状态</span>
+          <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}>
+            <option value="ALL">全部</option>
+            {(Object.keys(STATUS_LABELS) as InvoiceStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {invoices === null ? (
+        <div className="card muted">加载中…</div>
+      ) : invoices.length === 0 ? (
+        <div className="card muted">暂无账单</div>
+      ) : (
+        <div className="stack" data-testid="invoice-list">
+          {invoices.map((invoice) => (
+            <div key={invoice.id} className="card stack">
+              <div className="row" style={{ justifyContent: 'space-between', flexWrap: 'wrap' }}>
+                <div className="row" style={{ flexWrap: 'wrap' }}>
+                  <strong>{invoice.number ?? '（未编号）'}</strong>
+                  <span className={STATUS_BADGE_CLASSES[invoice.status]}>{STATUS_LABELS[invoice.status]}</span>
+                </div>
+                <strong>{formatCurrencyFromCents(invoice.totalCents, invoice.currency)}</strong>
+              </div>
+
+              <div style={{ fontSize: 13 }}>
+                学生：{invoice.studentName ?? invoice.studentId} · 期间：{invoice.periodStartLocal} ~ {invoice.periodEndLocal} ·{' '}
+                {invoice.billingMode === 'PREPAID' ? '预付' : '按课结算'}
+              </div>
+
+              <div className="muted" style={{ fontSize: 12 }}>
+                创建：{invoice.createdAt.slice(0, 19).replace('T', ' ')}
+                {invoice.issuedAt ? ` · 开具：${invoice.issuedAt.slice(0, 10)}` : ''}
+                {invoice.paidAt ? ` · 付款：${invoice.paidAt.slice(0, 10)}` : ''}
+                {invoice.voidedAt ? ` · 作废：${invoice.voidedAt.slice(0, 10)}` : ''}
+              </div>
+
+              <div className="row" style={{ flexWrap: 'wrap' }}>
+                <button
+                  className="btnSecondary btnSm"
+                  type="button"
+                  onClick={() => setExpandedId(expandedId === invoice.id ? null : invoice.id)}
+                >
+                  {expandedId === invoice.id ? '收起明细' : `明细（${invoice.lines.length}）`}
+                </button>
+
+                {invoice.status === 'DRAFT' ? (
+                  <button
+                    className="btn btnSm"
+                    type="button"
+                    disabled={busyId === invoice.id}
+                    onClick={() => void runAction(invoice, 'issue', '已开具账单')}
+                  >
+                    开具
+                  </button>
+                ) : null}
+
+                {invoice.status === 'ISSUED' ? (
+                  <button
+                    className="btn btnSm"
+                    type="button"
+                    disabled={busyId === invoice.id}
+                    onClick={() => void runAction(invoice, 'mark-paid', '已标记为已付款')}
+                  >
+                    标记已付款
+                  </button>
+                ) : null}
+
+                {invoice.status === 'DRAFT' || invoice.status === 'ISSUED' ? (
+                  <button
+                    className="btnDanger btnSm"
+                    type="button"
+                    disabled={busyId === invoice.id}
+                    onClick={() => {
+                      if (!window.confirm('确认作废该账单吗？作废后其中的项目可重新出账。')) return;
+                      void runAction(invoice, 'void', '已作废账单');
+                    }}
+                  >
+                    作废
+                  </button>
+                ) : null}
+              </div>
+
+              {expandedId === invoice.id ? (
+                <div className="stack" style={{ gap: 6 }}>
+                  {invoice.lines.map((line) => (
+                    <div
+                      key={line.id}
+                      className="row"
+                      style={{ justifyContent: 'space-between', borderTop: '1px solid #f3f4f6', paddingTop: 6, fontSize: 13 }}
+                    >
+                      <span>
+                        {line.description}
+                        <span className="muted">
+                          {' '}
+                          · {quantityLabel(line)} · 单价 {formatCurrencyFromCents(line.unitAmountCents, invoice.currency)}
+                          {line.kind === 'SESSION' ? '/小时' : ''}
+                        </span>
+                      </span>
+                      <span style={{ fontVariantNumeric: 'tabular-nums' }}>
+                        {formatCurrencyFromCents(line.amountCents, invoice.currency)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      )}
+    </main>
+  );
+}
@@ -1,70 +1,300 @@
 'use client';
 
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 
+import RecoveryCodes from '../_components/recovery-codes';
+import TotpSetup from '../_components/totp-setup';
 import { useAuth } from '../_lib/auth';
 
+const CODE_RESEND_SECONDS = 60;
+
+/** Returned instead of an access token when the account needs a second step: a code, or setting 2FA up first. */
+type TwoFactorChallenge = {
+  twoFactor: 'required' | 'setup';
+  challengeToken: string;
+};
+
+type LoginResponse = Partial<TwoFactorChallenge> & { accessToken?: string };
+
+/** Email addresses contain `@`; anything else is taken as a phone number. */
+function identifierBody(identifier: string): { email: string } | { phone: string } {
+  const value = identifier.trim();
+  return value.includes('@') ? { email: value } : { phone: value };
+}
+
+async function postJson<T>(
+  path: string,
+  body: unknown,
+): Promise<{ ok: true; data: T } | { ok: false; message: string }> {
+  const res = await fetch(path, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (res.ok) return { ok: true, data: (await res.json()) as T };
+  const data = (await res.json().catch(() => null)) as { message?: string } | null;
+  return { ok: false, message: data?.message ?? '' };
+}
+
+function twoFactorError(message: string): string {
+  if (message === 'Invalid or expired challenge') return '登录已过期，请返回重新登录';
+  if (message === 'Invalid code') return '验证码错误';
+  if (message === 'Too many failed attempts, try again later') return '尝试次数过多，请稍后再试';
+  return message || '验证失败';
+}
+
+/**
+ * The second sign-in step: a code from the authenticator app or a recovery code, or, when the organization requires
+ * 2FA and it is not set up yet, setting it up right here.
+ */
+function TwoFactorStep({
+  challenge,
+  onSignedIn,
+  onCancel,
+}: {
+  challenge: TwoFactorChallenge;
+  onSignedIn: (accessToken: string) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [setup, setSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<{
+    accessToken: string;
+    recoveryCodes?: string[];
+    recoveryCodesRemaining?: number;
+  } | null>(null);
+
+  useEffect(() => {
+    if (challenge.twoFactor !== 'setup') return;
+    postJson<{ secret: string; otpauthUrl: string }>('/auth/2fa/setup', {
+      challengeToken: challenge.challengeToken,
+    })
+      .then((result) => (result.ok ? setSetup(result.data) : setError(twoFactorError(result.message))))
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : '加载失败'));
+  }, [challenge]);
+
+  if (done) {
+    return (
+      <div className="stack">
+        {done.recoveryCodes ? <RecoveryCodes codes={done.recoveryCodes} /> : null}
+        {done.recoveryCodesRemaining !== undefined ? (
+          <div className="success">
+            已用恢复码登录，还剩 {done.recoveryCodesRemaining} 个。如手机已丢失，请在「账号」页重新设置两步验证。
+          </div>
+        ) : null}
+        <button className="btn" type="button" onClick={() => onSignedIn(done.accessToken)}>
+          继续
+        </button>
+      </div>
+    );
+  }
+
+  const isSetup = challenge.twoFactor === 'setup';
+
+  return (
+    <form
+      className="stack"
+      onSubmit={async (event) => {
+        event.preventDefault();
+        setError(null);
+        setLoading(true);
+        try {
+          const { challengeToken } = challenge;
+          const value = code.trim();
+          if (isSetup) {
+            const result = await postJson<{ accessToken: string; recoveryCodes: string[] }>('/auth/2fa/setup/confirm', {
+              challengeToken,
+              code: value,
+            });
+            if (!result.ok) setError(twoFactorError(result.message));
+            else setDone(result.data);
+            return;
+          }
+
+          const result = await postJson<{ accessToken: string; recoveryCodesRemaining?: number }>(
+            '/auth/2fa/verify',
+            useRecoveryCode ? { challengeToken, recoveryCode: value } : { challengeToken, code: value },
+          );
+          if (!result.ok) setError(twoFactorError(result.message));
+          else if (result.data.recoveryCodesRemaining !== undefined) setDone(result.data);
+          else await onSignedIn(result.data.accessToken);
+        } catch (err) {
+          setError(err instanceof Error ? err.message : '验证失败');
+        } finally {
+          setLoading(false);
+        }
+      }}
+    >
+      <strong>两步验证</strong>
+
+      {isSetup ? (
+        <>
+          <div className="muted" style={{ fontSize: 13 }}>
+            机构要求管理员启用两步验证，请先完成设置。
+          </div>
+          {setup ? <TotpSetup secret={setup.secret} otpauthUrl={setup.otpauthUrl} /> : null}
+        </>
+      ) : null}
+
+      <label className="field">
+        <span className="muted">{useRecoveryCode ? '恢复码' : '身份验证器应用中的验证码'}</span>
+        <input
+          data-testid="two-factor-code"
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '6 位数字'}
+        />
+      </label>
+
+      {error ? (
+        <div className="error" data-testid="login-error">
+          {error}
+        </div>
+      ) : null}
+
+      <button className="btn" type="submit" disabled={loading || !code.trim()} data-testid="two-factor-submit">
+        {loading ? '验证中…' : '验证'}
+      </button>
+
+      <div className="row" style={{ gap: 12, fontSize: 13 }}>
+        {isSetup ? null : (
+          <button
+            className="btnSecondary btnSm"
+            type="button"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setCode('');
+              setError(null);
+            }}
+          >
+            {useRecoveryCode ? '使用验证码' : '使用恢复码'}
+          </button>
+        )}
+        <button className="btnSecondary btnSm" type="button" onClick={onCancel}>
+          返回
+        </button>
+      </div>
+    </form>
+  );
+}
+
 export default function LoginPage() {
   const router = useRouter();
   const { hydrated, accessToken, setAccessToken } = useAuth();
 
-  const [email, setEmail] = useState('');
+  const [mode, setMode] = useState<'password' | 'code'>('password');
+  const [identifier, setIdentifier] = useState('');
   const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
   const [loading, setLoading] = useState(false);
+  const [sendingCode, setSendingCode] = useState(false);
+  const [resendIn, setResendIn] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = window.setTimeout(() => setResendIn((value) => value - 1), 1000);
+    return () => window.clearTimeout(timer);
+  }, [resendIn]);
 
   useEffect(() => {
     if (!hydrated) return;
     if (accessToken) router.replace('/students');
   }, [accessToken, hydrated, router]);
 
+  /** Admin-only app: other roles are signed straight out again. Returns an error message, or null once signed in. */
+  const completeLogin = async (token: string): Promise<string | null> => {
+    const meRes = await fetch('/me', { headers: { authorization: `Bearer ${token}` } });
+    if (!meRes.ok) return '登录失败：无法获取用户信息';
+
+    const me = (await meRes.json()) as { role?: string };
+    if (me.role !== 'ADMIN') {
+      await fetch('/auth/logout', { method: 'POST' }).catch(() => undefined);
+      setAccessToken(null);
+      return '无管理员权限';
+    }
+
+    setAccessToken(token);
+    router.replace('/students');
+    return null;
+  };
+
+  if (challenge) {
+    return (
+      <main>
+        <h1 style={{ marginTop: 0 }}>管理员登录</h1>
+
+        <div className="card stack" style={{ maxWidth: 420 }}>
+          <TwoFactorStep
+            challenge={challenge}
+            onSignedIn={async (token) => {
+              const failure = await completeLogin(token);
+              if (failure) {
+                setChallenge(null);
+                setError(failure);
+              }
+            }}
+            onCancel={() => setChallenge(null)}
+          />
+        </div>
+      </main>
+    );
+  }
+
   return (
     <main>
       <h1 style={{ marginTop: 0 }}>管理员登录</h1>
 
-      <div className="card" style={{ maxWidth: 420 }}>
+      <div className="card stack" style={{ maxWidth: 420 }}>
         <form
           className="stack"
           onSubmit={async (event) => {
             event.preventDefault();
             setError(null);
+            setNotice(null);
             setLoading(true);
 
             try {
-              const res = await fetch('/auth/login', {
+              const res = await fetch(mode === 'password' ? '/auth/login' : '/auth/login-code/verify', {
                 method: 'POST',
                 headers: { 'content-type': 'application/json' },
-                body: JSON.stringify({ email, password }),
+                body: JSON.stringify(
+                  mode === 'password'
+                    ? { ...identifierBody(identifier), password }
+                    : { ...identifierBody(identifier), code: code.trim() },
+                ),
               });
 
-              if (!res.ok) {
-                setError('邮箱或密码错误');
+              if (res.status === 429) {
+                setError('尝试次数过多，请稍后再试');
                 return;
               }
-
-              const data = (await res.json()) as { accessToken?: string };
-              if (!data.accessToken) {
-                setError('登录失败：缺少 accessToken');
+              if (!res.ok) {
+                setError(mode === 'password' ? '账号或密码错误' : '验证码错误或已过期');
                 return;
               }
 
-              const meRes = await fetch('/me', { headers: { authorization: `Bearer ${data.accessToken}` } });
-              if (!meRes.ok) {
-                setError('登录失败：无法获取用户信息');
+              const data = (await res.json()) as LoginResponse;
+              if (data.twoFactor && data.challengeToken) {
+                setChallenge({ twoFactor: data.twoFactor, challengeToken: data.challengeToken });
                 return;
               }
-
-              const me = (await meRes.json()) as { role?: string };
-              if (me.role !== 'ADMIN') {
-                await fetch('/auth/logout', { method: 'POST' }).catch(() => undefined);
-                setAccessToken(null);
-                setError('无管理员权限');
+              if (!data.accessToken) {
+                setError('登录失败：缺少 accessToken');
                 return;
               }
 
-              setAccessToken(data.accessToken);
-              router.replace('/students');
+              const failure = await completeLogin(data.accessToken);
+              if (failure) setError(failure);
             } catch (err) {
               setError(err instanceof Error ? err.message : '登录失败');
             } finally {
@@ -72,29 +302,101 @@ export default function LoginPage() {
             }
           }}
         >
+          <div className="row" style={{ gap: 8 }}>
+            {(
+              [
+                ['password', '密码登录'],
+                ['code', '验证码登录'],
+              ] as const
+            ).map(([value, label]) => (
+              <button
+                key={value}
+                className={mode === value ? 'btn btnSm' : 'btnSecondary btnSm'}
+                type="button"
+                aria-pressed={mode === value}
+                onClick={() => {
+                  setMode(value);
+                  setError(null);
+                  setNotice(null);
+                }}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
           <label className="field">
-            <span className="muted">邮箱</span>
+            <span className="muted">邮箱或手机号</span>
             <input
               data-testid="email"
-              type="email"
-              autoComplete="email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              placeholder="请输入邮箱"
+              type="text"
+              autoComplete="username"
+              value={identifier}
+              onChange={(e) => setIdentifier(e.target.value)}
+              placeholder="请输入邮箱或手机号"
             />
           </label>
 
-          <label className="field">
-            <span className="muted">密码</span>
-            <input
-              data-testid="password"
-              type="password"
-              autoComplete="current-password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              placeholder="••••••••"
-            />
-          </label>
+          {mode === 'password' ? (
+            <label className="field">
+              <span className="muted">密码</span>
+              <input
+                data-testid="password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="••••••••"
+              />
+            </label>
+          ) : (
+            <div className="row" style={{ gap: 8, alignItems: 'flex-end' }}>
+              <label className="field" style={{ flex: 1 }}>
+                <span className="muted">验证码</span>
+                <input
+                  data-testid="login-code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="6 位数字"
+                />
+              </label>
+              <button
+                className="btnSecondary"
+                type="button"
+                disabled={sendingCode || resendIn > 0 || !identifier.trim()}
+                data-testid="login-code-send"
+                onClick={async () => {
+                  setError(null);
+                  setNotice(null);
+                  setSendingCode(true);
+                  try {
+                    const res = await fetch('/auth/login-code', {
+                      method: 'POST',
+                      headers: { 'content-type': 'application/json' },
+                      body: JSON.stringify(identifierBody(identifier)),
+                    });
+                    if (!res.ok) {
+                      setError(res.status === 429 ? '请求过于频繁，请稍后再试' : '请输入正确的邮箱或手机号');
+                      return;
+                    }
+                    setResendIn(CODE_RESEND_SECONDS);
+                    setNotice('如果账号存在，验证码已发送');
+                  } catch (err) {
+                    setError(err instanceof Error ? err.message : '发送失败');
+                  } finally {
+                    setSendingCode(false);
+                  }
+                }}
+              >
+                {resendIn > 0 ? `${resendIn} 秒后重发` : '获取验证码'}
+              </button>
+            </div>
+          )}
+
+          {notice ? <div className="success">{notice}</div> : null}
 
           {error ? (
             <div className="error" data-testid="login-error">
@@ -106,6 +408,9 @@ export default function LoginPage() {
             {loading ? '登录中…' : '登录'}
           </button>
         </form>
+        <Link href="/forgot-password" className="muted" style={{ fontSize: 13 }}>
+          忘记密码？
+        </Link>
       </div>
     </main>
   );
@@ -0,0 +1,256 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { useApi } from '../_lib/api';
+import { useRequireAdmin } from '../_lib/auth';
+import { formatCurrencyFromCents, parseAmountToCents, type Currency } from '../_lib/money';
+
+type Subject =
+  | 'GENERAL'
+  | 'ENGLISH'
+  | 'CHINESE'
+  | 'MATHEMATICS'
+  | 'CHEMISTRY'
+  | 'PHYSICS'
+  | 'BIOLOGY'
+  | 'ECONOMICS'
+  | 'BUSINESS_STUDIES'
+  | 'LEGAL_STUDIES'
+  | 'MODERN_HISTORY'
+  | 'ANCIENT_HISTORY'
+  | 'GEOGRAPHY';
+
+type HourPackage = {
+  id: string;
+  name: string;
+  subject: Subject | null;
+  units: number;
+  priceCents: number;
+  currency: Currency;
+  validityMonths: number | null;
+  active: boolean;
+};
+
+const SUBJECT_OPTIONS: { value: Subject; label: string }[] = [
+  { value: 'GENERAL', label: '通用' },
+  { value: 'ENGLISH', label: 'English（英语）' },
+  { value: 'MATHEMATICS', label: 'Mathematics（数学）' },
+  { value: 'CHINESE', label: 'Chinese（中文）' },
+  { value: 'CHEMISTRY', label: 'Chemistry（化学）' },
+  { value: 'PHYSICS', label: 'Physics（物理）' },
+  { value: 'BIOLOGY', label: 'Biology（生物）' },
+  { value: 'ECONOMICS', label: 'Economics（经济）' },
+  { value: 'BUSINESS_STUDIES', label: 'Business Studies（商科）' },
+  { value: 'LEGAL_STUDIES', label: 'Legal Studies（法律）' },
+  { value: 'MODERN_HISTORY', label: 'Modern History（现代史）' },
+  { value: 'ANCIENT_HISTORY', label: 'Ancient History（古代史）' },
+  { value: 'GEOGRAPHY', label: 'Geography（地理）' },
+];
+
+const CURRENCIES: Currency[] = ['AUD', 'CNY', 'USD'];
+
+function subjectLabel(subject: Subject | null): string {
+  if (subject === null) return '不限科目';
+  return SUBJECT_OPTIONS.find((option) => option.value === subject)?.label ?? subject;
+}
+
+export default function PackagesPage() {
+  const { hydrated, accessToken } = useRequireAdmin();
+  const { apiFetchJson } = useApi();
+
+  const [packages, setPackages] = useState<HourPackage[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [name, setName] = useState('');
+  const [subject, setSubject] = useState<Subject | ''>('');
+  const [units, setUnits] = useState(20);
+  const [price, setPrice] = useState('');
+  const [currency, setCurrency] = useState<Currency>('AUD');
+  const [validityMonths, setValidityMonths] = useState('6');
+
+  const refresh = async () => {
+    const res = await apiFetchJson<HourPackage[]>('/admin/packages');
+    setPackages(res);
+  };
+
+  useEffect(() => {
+    if (!hydrated || !accessToken) return;
+    void refresh().catch((err) => setError(err instanceof Error ? err.message : '加载失败'));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [accessToken, hydrated]);
+
+  const setActive = async (item: HourPackage, active: boolean) => {
+    setError(null);
+    setSuccess(null);
+    setBusy(true);
+    try {
+      await apiFetchJson(`/admin/packages/${item.id}`, {
+        method: 'PUT',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ active }),
+      });
+      setSuccess(active ? `已重新上架「${item.name}」` : `已下架「${item.name}」`);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '保存失败');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <main className="stack">
+      <h1 style={{ margin: 0 }}>课时包</h1>
+
+      {error ? <div className="error">{error}</div> : null}
+      {success ? <div className="success">{success}</div> : null}
+
+      <form
+        className="card stack"
+        onSubmit={async (event) => {
+          event.preventDefault();
+          setError(null);
+          setSuccess(null);
+
+          const priceCents = parseAmountToCents(price);
+          if (priceCents === null) {
+            setError('请输入有效的价格（最多两位小数）');
+            return;
+          }
+          if (!Number.isInteger(units) || units <= 0) {
+            setError('课时数量必须为正整数');
+            return;
+          }
+          const months = validityMonths.trim() ? Number(validityMonths) : null;
+          if (months !== null && (!Number.isInteger(months) || months <= 0)) {
+            setError('有效期必须为正整数月，留空表示长期有效');
+            return;
+          }
+
+          setBusy(true);
+          try {
+            await apiFetchJson('/admin/packages', {
+              method: 'POST',
+              headers: { 'content-type': 'application/json' },
+              body: JSON.stringify({
+                name: name.trim(),
+                subject: subject || null,
+                units,
+                priceCents,
+                currency,
+                validityMonths: months,
+              }),
+            });
+            setSuccess('已创建课时包');
+            setName('');
+            setPrice('');
+            await refresh();
+          } catch (err) {
+            setError(err instanceof Error ? err.message : '保存失败');
+          } finally {
+            setBusy(false);
+          }
+        }}
+      >
+        <strong>新建课时包</strong>
+        <div className="muted" style={{ fontSize: 12 }}>
+          已售出的课时包保留售出时的课时数、价格和有效期，修改或下架不影响已售出部分。
+        </div>
+        <div className="row" style={{ flexWrap: 'wrap', alignItems: 'flex-end' }}>
+          <label className="field" style={{ minWidth: 200 }}>
+            <span className="muted">名称</span>
+            <input
+              data-testid="package-name"
+              placeholder="例如 20 小时数学"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </label>
+          <label className="field">
+            <span className="muted">限定科目</span>
+            <select value={subject} onChange={(e) => setSubject(e.target.value as Subject | '')}>
+              <option value="">不限科目</option>
+              {SUBJECT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field" style={{ maxWidth: 120 }}>
+            <span className="muted">课时</span>
+            <input type="number" min={1} step={1} value={units} onChange={(e) => setUnits(Number(e.target.value))} />
+          </label>
+          <label className="field" style={{ maxWidth: 140 }}>
+            <span className="muted">价格</span>
+            <input inputMode="decimal" placeholder="例如 1800.00" value={price} onChange={(e) => setPrice(e.target.value)} />
+          </label>
+          <label className="field">
+            <span className="muted">币种</span>
+            <select value={currency} onChange={(e) => setCurrency(e.target.value as Currency)}>
+              {CURRENCIES.map((item) => (
+                <option key={item} value={item}>
+                  {item}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field" style={{ maxWidth: 160 }}>
+            <span className="muted">有效期（月，留空长期）</span>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={validityMonths}
+              onChange={(e) => setValidityMonths(e.target.value)}
+            />
+          </label>
+          <button className="btn" type="submit" disabled={busy || !name.trim() || !price.trim()}>
+            创建
+          </button>
+        </div>
+      </form>
+
+      <div className="card stack">
+        <strong>课时包目录</strong>
+        {packages === null ? (
+          <div className="muted">加载中…</div>
+        ) : packages.length === 0 ? (
+          <div className="muted">暂无课时包</div>
+        ) : (
+          <div className="stack" style={{ gap: 6 }} data-testid="package-list">
+            {packages.map((item) => (
+              <div
+                key={item.id}
+                className="row"
+                style={{ justifyContent: 'space-between', borderTop: '1px solid #f3f4f6', paddingTop: 6 }}
+              >
+                <span>
+                  <strong>{item.name}</strong>
+                  <span className="muted">
+                    {' '}
+                    · {item.units} 课时 · {formatCurrencyFromCents(item.priceCents, item.currency)} ·{' '}
+                    {subjectLabel(item.subject)} ·{' '}
+                    {item.validityMonths ? `${item.validityMonths} 个月有效` : '长期有效'}
+                    {item.active ? '' : ' · 已下架'}
+                  </span>
+                </span>
+                <button
+                  className="btnSecondary btnSm"
+                  type="button"
+                  disabled={busy}
+                  onClick={() => void setActive(item, !item.active)}
+                >
+                  {item.active ? '下架' : '重新上架'}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
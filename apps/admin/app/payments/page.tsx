@@ -0,0 +1,480 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { ApiError, useApi } from '../_lib/api';
+import { useRequireAdmin } from '../_lib/auth';
+import { formatCurrencyFromCents, parseAmountToCents, type Currency } from '../_lib/money';
+
+type StudentOption = {
+  id: string;
+  email: string | null;
+  displayName: string | null;
+};
+
+type PaymentMethod = 'BANK_TRANSFER' | 'WECHAT' | 'ALIPAY' | 'CASH' | 'CARD';
+
+type PaymentItem = {
+  id: string;
+  studentId: string;
+  studentName: string | null;
+  amountCents: number;
+  currency: Currency;
+  method: PaymentMethod;
+  reference: string | null;
+  receivedDate: string;
+  note: string | null;
+  invoiceId: string | null;
+  invoiceNumber: string | null;
+  ledgerEntryId: string | null;
+  createdAt: string;
+};
+
+type Reconciliation = {
+  unpaidInvoices: {
+    invoiceId: string;
+    number: string | null;
+    studentId: string;
+    studentName: string | null;
+    currency: Currency;
+    totalCents: number;
+    paidCents: number;
+    outstandingCents: number;
+    issuedAt: string | null;
+  }[];
+  unpaidPurchases: {
+    ledgerEntryId: string;
+    studentId: string;
+    studentName: string | null;
+    currency: Currency;
+    amountCents: number;
+    paidCents: number;
+    outstandingCents: number;
+    purchasedAt: string;
+  }[];
+  overpayments: {
+    kind: 'INVOICE' | 'PURCHASE';
+    id: string;
+    invoiceNumber: string | null;
+    studentId: string;
+    studentName: string | null;
+    currency: Currency;
+    dueCents: number;
+    paidCents: number;
+    overpaidCents: number;
+  }[];
+  unallocatedPayments: PaymentItem[];
+};
+
+type UnmatchedReason = 'NO_REFERENCE' | 'NO_INVOICE' | 'INVOICE_NOT_PAYABLE' | 'CURRENCY_MISMATCH';
+
+type ImportResult = {
+  matched: { line: number; paymentId: string; invoiceId: string; invoiceNumber: string; settled: boolean }[];
+  duplicates: { line: number; reference: string }[];
+  unmatched: {
+    line: number;
+    receivedDate: string;
+    amountCents: number;
+    currency: Currency;
+    reference: string;
+    reason: UnmatchedReason;
+  }[];
+};
+
+const CURRENCIES: Currency[] = ['AUD', 'CNY', 'USD'];
+
+const METHOD_LABELS: Record<PaymentMethod, string> = {
+  BANK_TRANSFER: '银行转账',
+  WECHAT: '微信',
+  ALIPAY: '支付宝',
+  CASH: '现金',
+  CARD: '刷卡',
+};
+
+const UNMATCHED_REASON_LABELS: Record<UnmatchedReason, string> = {
+  NO_REFERENCE: '没有附言',
+  NO_INVOICE: '附言中没有可识别的账单号',
+  INVOICE_NOT_PAYABLE: '账单未开具或已作废',
+  CURRENCY_MISMATCH: '币种与账单不一致',
+};
+
+function todayLocal(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+function paymentTarget(payment: PaymentItem): string {
+  if (payment.invoiceId) return `账单 ${payment.invoiceNumber ?? payment.invoiceId}`;
+  if (payment.ledgerEntryId) return `购买 ${payment.ledgerEntryId}`;
+  return '未分配';
+}
+
+export default function PaymentsPage() {
+  const { hydrated, accessToken } = useRequireAdmin();
+  const { apiFetchJson } = useApi();
+
+  const [students, setStudents] = useState<StudentOption[] | null>(null);
+  const [payments, setPayments] = useState<PaymentItem[] | null>(null);
+  const [reconciliation, setReconciliation] = useState<Reconciliation | null>(null);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [studentId, setStudentId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState<Currency>('AUD');
+  const [method, setMethod] = useState<PaymentMethod>('BANK_TRANSFER');
+  const [reference, setReference] = useState('');
+  const [receivedDate, setReceivedDate] = useState(todayLocal);
+  const [target, setTarget] = useState('');
+
+  const refresh = async () => {
+    const [paymentList, summary] = await Promise.all([
+      apiFetchJson<PaymentItem[]>('/admin/payments'),
+      apiFetchJson<Reconciliation>('/admin/payments/reconciliation'),
+    ]);
+    setPayments(paymentList);
+    setReconciliation(summary);
+  };
+
+  useEffect(() => {
+    if (!hydrated || !accessToken) return;
+    void apiFetchJson<StudentOption[]>('/admin/students')
+      .then(setStudents)
+      .catch((err) => setError(err instanceof Error ? err.message : '加载失败'));
+    void refresh().catch((err) => setError(err instanceof Error ? err.message : '加载失败'));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [accessToken, hydrated]);
+
+  /** Runs an update, then shows the message it resolves to and reloads the lists. */
+  const run = async (action: () => Promise<string>) => {
+    setError(null);
+    setImportErrors([]);
+    setSuccess(null);
+    setBusy(true);
+    try {
+      setSuccess(await action());
+      await refresh();
+    } catch (err) {
+      if (err instanceof ApiError && Array.isArray((err.body as { errors?: unknown } | null)?.errors)) {
+        setImportErrors((err.body as { errors: string[] }).errors);
+      }
+      setError(err instanceof Error ? err.message : '操作失败');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // What the payment can be recorded against: the selected student's open invoices and unpaid purchases.
+  const openInvoices = (reconciliation?.unpaidInvoices ?? []).filter((item) => item.studentId === studentId);
+  const openPurchases = (reconciliation?.unpaidPurchases ?? []).filter((item) => item.studentId === studentId);
+  const targetCurrencies = new Map<string, Currency>([
+    ...openInvoices.map((item) => [`invoice:${item.invoiceId}`, item.currency] as const),
+    ...openPurchases.map((item) => [`purchase:${item.ledgerEntryId}`, item.currency] as const),
+  ]);
+
+  return (
+    <main className="stack">
+      <div className="row" style={{ justifyContent: 'space-between' }}>
+        <h1 style={{ margin: 0 }}>收款</h1>
+        <button className="btnSecondary" type="button" onClick={() => void run(async () => '已刷新')} disabled={busy}>
+          刷新
+        </button>
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+      {importErrors.length > 0 ? (
+        <div className="error">
+          {importErrors.map((line) => (
+            <div key={line}>{line}</div>
+          ))}
+        </div>
+      ) : null}
+      {success ? <div className="success">{success}</div> : null}
+
+      <form
+        className="card stack"
+        onSubmit={(event) => {
+          event.preventDefault();
+          const amountCents = parseAmountToCents(amount);
+          if (!studentId) {
+            setError('请选择学生');
+            return;
+          }
+          if (amountCents === null) {
+            setError('请输入有效的金额（最多两位小数）');
+            return;
+          }
+
+          const [targetKind, targetId] = target.split(':');
+          void run(async () => {
+            await apiFetchJson('/admin/payments', {
+              method: 'POST',
+              headers: { 'content-type': 'application/json' },
+              body: JSON.stringify({
+                studentId,
+                amountCents,
+                currency,
+                method,
+                receivedDate,
+                ...(reference.trim() ? { reference: reference.trim() } : {}),
+                ...(targetKind === 'invoice' ? { invoiceId: targetId } : {}),
+                ...(targetKind === 'purchase' ? { ledgerEntryId: targetId } : {}),
+              }),
+            });
+            setAmount('');
+            setReference('');
+            setTarget('');
+            return '已记录收款';
+          });
+        }}
+      >
+        <strong>记录收款</strong>
+        <div className="row" style={{ flexWrap: 'wrap', alignItems: 'flex-end' }}>
+          <label className="field" style={{ minWidth: 240 }}>
+            <span className="muted">学生</span>
+            <select
+              data-testid="payment-student"
+              value={studentId}
+              onChange={(e) => {
+                setStudentId(e.target.value);
+                setTarget('');
+              }}
+              disabled={students === null}
+            >
+              <option value="">请选择</option>
+              {(students ?? []).map((student) => (
+                <option key={student.id} value={student.id}>
+                  {student.displayName ?? '—'} ({student.email ?? 'no-email'})
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field" style={{ minWidth: 260 }}>
+            <span className="muted">对应</span>
+            <select
+              data-testid="payment-target"
+              value={target}
+              onChange={(e) => {
+                setTarget(e.target.value);
+                const targetCurrency = targetCurrencies.get(e.target.value);
+                if (targetCurrency) setCurrency(targetCurrency);
+              }}
+              disabled={!studentId}
+            >
+              <option value="">不指定（记为预收款）</option>
+              {openInvoices.map((item) => (
+                <option key={item.invoiceId} value={`invoice:${item.invoiceId}`}>
+                  账单 {item.number ?? item.invoiceId} · 待收{' '}
+                  {formatCurrencyFromCents(item.outstandingCents, item.currency)}
+                </option>
+              ))}
+              {openPurchases.map((item) => (
+                <option key={item.ledgerEntryId} value={`purchase:${item.ledgerEntryId}`}>
+                  购买 {item.purchasedAt.slice(0, 10)} · 待收{' '}
+                  {formatCurrencyFromCents(item.outstandingCents, item.currency)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field">
+            <span className="muted">金额</span>
+            <input
+              data-testid="payment-amount"
+              inputMode="decimal"
+              placeholder="例如 300.00"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </label>
+          <label className="field">
+            <span className="muted">币种</span>
+            <select value={currency} onChange={(e) => setCurrency(e.target.value as Currency)}>
+              {CURRENCIES.map((item) => (
+                <option key={item} value={item}>
+                  {item}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field">
+            <span className="muted">方式</span>
+            <select value={method} onChange={(e) => setMethod(e.target.value as PaymentMethod)}>
+              {(Object.keys(METHOD_LABELS) as PaymentMethod[]).map((item) => (
+                <option key={item} value={item}>
+                  {METHOD_LABELS[item]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field">
+            <span className="muted">流水号 / 附言</span>
+            <input value={reference} onChange={(e) => setReference(e.target.value)} />
+          </label>
+          <label className="field">
+            <span className="muted">到账日期</span>
+            <input type="date" value={receivedDate} onChange={(e) => setReceivedDate(e.target.value)} />
+          </label>
+          <button className="btn" type="submit" disabled={busy || !amount.trim()}>
+            保存
+          </button>
+        </div>
+        <div className="muted" style={{ fontSize: 12 }}>
+          账单收齐后自动标记为已付款。
+        </div>
+      </form>
+
+      <div className="card stack">
+        <strong>导入银行流水</strong>
+        <div className="muted" style={{ fontSize: 12 }}>
+          表头需包含：date,amount,currency,reference（其余列忽略）。附言中含账单号（如 INV-000123）的入账会记到该账单；
+          已记录过的流水号会跳过，支出行不导入。任一行格式有误时整份文件都不会导入。
+        </div>
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          disabled={busy}
+          data-testid="payment-import"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (!file) return;
+            setImportResult(null);
+            void run(async () => {
+              const csv = await file.text();
+              const res = await apiFetchJson<ImportResult>('/admin/payments/import', {
+                method: 'POST',
+                headers: { 'content-type': 'application/json' },
+                body: JSON.stringify({ csv }),
+              });
+              setImportResult(res);
+              return `已匹配 ${res.matched.length} 笔，重复 ${res.duplicates.length} 笔，未匹配 ${res.unmatched.length} 笔`;
+            });
+          }}
+        />
+        {importResult && importResult.unmatched.length > 0 ? (
+          <div className="stack" style={{ gap: 6 }} data-testid="payment-import-unmatched">
+            <span className="muted" style={{ fontSize: 12 }}>
+              以下入账未能匹配，请核对后手动记录：
+            </span>
+            {importResult.unmatched.map((row) => (
+              <div key={row.line} className="row" style={{ borderTop: '1px solid #f3f4f6', paddingTop: 6 }}>
+                <span className="muted">第 {row.line} 行</span>
+                <span>{row.receivedDate}</span>
+                <span>{formatCurrencyFromCents(row.amountCents, row.currency)}</span>
+                <span>{row.reference || '—'}</span>
+                <span className="muted">{UNMATCHED_REASON_LABELS[row.reason]}</span>
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </div>
+
+      {reconciliation === null ? (
+        <div className="card muted">加载中…</div>
+      ) : (
+        <div className="card stack" data-testid="payment-reconciliation">
+          <strong>对账</strong>
+
+          <span className="muted">未收齐的账单</span>
+          {reconciliation.unpaidInvoices.length === 0 ? (
+            <div className="muted">暂无</div>
+          ) : (
+            reconciliation.unpaidInvoices.map((item) => (
+              <div key={item.invoiceId} className="row" style={{ justifyContent: 'space-between' }}>
+                <span>
+                  {item.number ?? item.invoiceId} · {item.studentName ?? item.studentId}
+                </span>
+                <span>
+                  已收 {formatCurrencyFromCents(item.paidCents, item.currency)} / 共{' '}
+                  {formatCurrencyFromCents(item.totalCents, item.currency)} · 待收{' '}
+                  <strong>{formatCurrencyFromCents(item.outstandingCents, item.currency)}</strong>
+                </span>
+              </div>
+            ))
+          )}
+
+          <span className="muted">未付款的购买（未出账单）</span>
+          {reconciliation.unpaidPurchases.length === 0 ? (
+            <div className="muted">暂无</div>
+          ) : (
+            reconciliation.unpaidPurchases.map((item) => (
+              <div key={item.ledgerEntryId} className="row" style={{ justifyContent: 'space-between' }}>
+                <span>
+                  {item.purchasedAt.slice(0, 10)} · {item.studentName ?? item.studentId}
+                </span>
+                <span>
+                  已收 {formatCurrencyFromCents(item.paidCents, item.currency)} / 共{' '}
+                  {formatCurrencyFromCents(item.amountCents, item.currency)} · 待收{' '}
+                  <strong>{formatCurrencyFromCents(item.outstandingCents, item.currency)}</strong>
+                </span>
+              </div>
+            ))
+          )}
+
+          <span className="muted">多收</span>
+          {reconciliation.overpayments.length === 0 ? (
+            <div className="muted">暂无</div>
+          ) : (
+            reconciliation.overpayments.map((item) => (
+              <div key={item.id} className="row" style={{ justifyContent: 'space-between' }}>
+                <span>
+                  {item.kind === 'INVOICE' ? `账单 ${item.invoiceNumber ?? item.id}` : '购买'} ·{' '}
+                  {item.studentName ?? item.studentId}
+                </span>
+                <span className="statusBadge statusBadgeWarning">
+                  多收 {formatCurrencyFromCents(item.overpaidCents, item.currency)}
+                </span>
+              </div>
+            ))
+          )}
+
+          <span className="muted">未分配的收款</span>
+          {reconciliation.unallocatedPayments.length === 0 ? (
+            <div className="muted">暂无</div>
+          ) : (
+            reconciliation.unallocatedPayments.map((item) => (
+              <div key={item.id} className="row" style={{ justifyContent: 'space-between' }}>
+                <span>
+                  {item.receivedDate} · {item.studentName ?? item.studentId} · {METHOD_LABELS[item.method]}
+                </span>
+                <span>{formatCurrencyFromCents(item.amountCents, item.currency)}</span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      <div className="card stack">
+        <strong>收款记录（最近 200 笔）</strong>
+        {payments === null ? (
+          <div className="muted">加载中…</div>
+        ) : payments.length === 0 ? (
+          <div className="muted">暂无</div>
+        ) : (
+          <div className="stack" style={{ gap: 6 }} data-testid="payment-list">
+            {payments.map((item) => (
+              <div
+                key={item.id}
+                className="row"
+                style={{ justifyContent: 'space-between', borderTop: '1px solid #f3f4f6', paddingTop: 6 }}
+              >
+                <span>
+                  <span className="muted">{item.receivedDate} · </span>
+                  {item.studentName ?? item.studentId} · {METHOD_LABELS[item.method]}
+                  {item.reference ? <span className="muted"> · {item.reference}</span> : null}
+                </span>
+                <span>
+                  {formatCurrencyFromCents(item.amountCents, item.currency)}
+                  <span className="muted"> · {paymentTarget(item)}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,259 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { useApi } from '../_lib/api';
+import { useRequireAdmin } from '../_lib/auth';
+import { formatCurrencyFromCents, type Currency } from '../_lib/money';
+
+type PayrollRunStatus = 'CLOSED' | 'APPROVED' | 'PAID';
+
+type PayrollRunItem = {
+  id: string;
+  periodStartLocal: string;
+  periodEndLocal: string;
+  timeZone: string;
+  status: PayrollRunStatus;
+  closedAt: string;
+  approvedAt: string | null;
+  paidAt: string | null;
+  totals: { currency: Currency; amountCents: number; unpaidCents: number }[];
+  lines: {
+    id: string;
+    teacherId: string;
+    teacherName: string | null;
+    kind: 'REGULAR' | 'ADJUSTMENT';
+    currency: Currency;
+    sessionsCount: number;
+    payableMinutes: number;
+    amountCents: number;
+    reason: string | null;
+    paidAt: string | null;
+    createdAt: string;
+  }[];
+};
+
+const STATUS_LABELS: Record<PayrollRunStatus, string> = {
+  CLOSED: '已关账',
+  APPROVED: '已审批',
+  PAID: '已发放',
+};
+
+const STATUS_BADGE_CLASSES: Record<PayrollRunStatus, string> = {
+  CLOSED: 'statusBadge',
+  APPROVED: 'statusBadge statusBadgeScheduled',
+  PAID: 'statusBadge statusBadgeCompleted',
+};
+
+function lastWeekLocal(): string {
+  const date = new Date();
+  date.setDate(date.getDate() - 7);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export default function PayrollRunsPage() {
+  const { hydrated, accessToken } = useRequireAdmin();
+  const { apiFetchJson } = useApi();
+
+  const [runs, setRuns] = useState<PayrollRunItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const [anchorDate, setAnchorDate] = useState(lastWeekLocal);
+  const [closing, setClosing] = useState(false);
+
+  const refresh = async () => {
+    const data = await apiFetchJson<PayrollRunItem[]>('/admin/payroll-runs');
+    setRuns(data);
+  };
+
+  useEffect(() => {
+    if (!hydrated || !accessToken) return;
+    void refresh().catch((err) => setError(err instanceof Error ? err.message : '加载失败'));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [accessToken, hydrated]);
+
+  const runAction = async (run: PayrollRunItem, action: 'approve' | 'mark-paid', successMessage: string) => {
+    setError(null);
+    setSuccess(null);
+    setBusyId(run.id);
+    try {
+      await apiFetchJson<PayrollRunItem>(`/admin/payroll-runs/${run.id}/${action}`, { method: 'POST' });
+      setSuccess(successMessage);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '操作失败');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <main className="stack">
+      <div className="row" style={{ justifyContent: 'space-between' }}>
+        <h1 style={{ margin: 0 }}>工资结算</h1>
+        <button className="btnSecondary" type="button" onClick={() => void refresh()} disabled={runs === null}>
+          刷新
+        </button>
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+      {success ? <div className="success">{success}</div> : null}
+
+      <div className="card stack">
+        <strong>关账</strong>
+        <form
+          className="row"
+          style={{ flexWrap: 'wrap', alignItems: 'flex-end' }}
+          onSubmit={async (event) => {
+            event.preventDefault();
+            setError(null);
+            setSuccess(null);
+            if (!window.confirm(`确认关闭 ${anchorDate} 所在的工资周期吗？关账后该周期的工资将被冻结。`)) return;
+
+            setClosing(true);
+            try {
+              await apiFetchJson<PayrollRunItem>('/admin/payroll-runs', {
+                method: 'POST',
+                headers: { 'content-type': 'application/json' },
+                body: JSON.stringify({ date: anchorDate }),
+              });
+              setSuccess('已关账');
+              await refresh();
+            } catch (err) {
+              setError(err instanceof Error ? err.message : '关账失败');
+            } finally {
+              setClosing(false);
+            }
+          }}
+        >
+          <label className="field">
+            <span className="muted">选择日期（按所在工资周期）</span>
+            <input
+              type="date"
+              value={anchorDate}
+              onChange={(e) => {
+                if (e.target.value) setAnchorDate(e.target.value);
+              }}
+            />
+          </label>
+
+          <button className="btn" type="submit" disabled={closing} data-testid="payroll-run-close">
+            {closing ? '关账中…' : '关账'}
+          </button>
+        </form>
+        <div className="muted" style={{ fontSize: 12 }}>
+          工资周期按「设置」中的工资周期规则计算，只能关闭已结束的周期。关账后按老师、币种冻结工资明细；之后再完成或变更的课程会以“调整”行记入该周期，不会改写原有明细。
+        </div>
+      </div>
+
+      {runs === null ? (
+        <div className="card muted">加载中…</div>
+      ) : runs.length === 0 ? (
+        <div className="card muted">暂无结算记录</div>
+      ) : (
+        <div className="stack" data-testid="payroll-run-list">
+          {runs.map((run) => {
+            const hasUnpaid = run.totals.some((total) => total.unpaidCents !== 0);
+
+            return (
+              <div key={run.id} className="card stack">
+                <div className="row" style={{ justifyContent: 'space-between', flexWrap: 'wrap' }}>
+                  <div className="row" style={{ flexWrap: 'wrap' }}>
+                    <strong>
+                      {run.periodStartLocal} ~ {run.periodEndLocal}
+                    </strong>
+                    <span className={STATUS_BADGE_CLASSES[run.status]}>{STATUS_LABELS[run.status]}</span>
+                  </div>
+                  <div className="stack" style={{ gap: 2, alignItems: 'flex-end' }}>
+                    {run.totals.length === 0 ? <span className="muted">无工资</span> : null}
+                    {run.totals.map((total) => (
+                      <span key={total.currency}>
+                        <strong>{formatCurrencyFromCents(total.amountCents, total.currency)}</strong>
+                        {run.status === 'PAID' && total.unpaidCents !== 0 ? (
+                          <span className="error" style={{ fontSize: 12 }}>
+                            {' '}
+                            待补发 {formatCurrencyFromCents(total.unpaidCents, total.currency)}
+                          </span>
+                        ) : null}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="muted" style={{ fontSize: 12 }}>
+                  时区：{run.timeZone} · 关账：{run.closedAt.slice(0, 10)}
+                  {run.approvedAt ? ` · 审批：${run.approvedAt.slice(0, 10)}` : ''}
+                  {run.paidAt ? ` · 发放：${run.paidAt.slice(0, 10)}` : ''}
+                </div>
+
+                <div className="row" style={{ flexWrap: 'wrap' }}>
+                  <button
+                    className="btnSecondary btnSm"
+                    type="button"
+                    onClick={() => setExpandedId(expandedId === run.id ? null : run.id)}
+                  >
+                    {expandedId === run.id ? '收起明细' : `明细（${run.lines.length}）`}
+                  </button>
+
+                  {run.status === 'CLOSED' ? (
+                    <button
+                      className="btn btnSm"
+                      type="button"
+                      disabled={busyId === run.id}
+                      onClick={() => void runAction(run, 'approve', '已审批')}
+                    >
+                      审批
+                    </button>
+                  ) : null}
+
+                  {run.status === 'APPROVED' || (run.status === 'PAID' && hasUnpaid) ? (
+                    <button
+                      className="btn btnSm"
+                      type="button"
+                      disabled={busyId === run.id}
+                      onClick={() =>
+                        void runAction(run, 'mark-paid', run.status === 'PAID' ? '已标记调整为已发放' : '已标记为已发放')
+                      }
+                    >
+                      {run.status === 'PAID' ? '标记调整已发放' : '标记已发放'}
+                    </button>
+                  ) : null}
+                </div>
+
+                {expandedId === run.id ? (
+                  <div className="stack" style={{ gap: 6 }}>
+                    {run.lines.map((line) => (
+                      <div
+                        key={line.id}
+                        className="row"
+                        style={{ justifyContent: 'space-between', borderTop: '1px solid #f3f4f6', paddingTop: 6, fontSize: 13 }}
+                      >
+                        <span>
+                          {line.teacherName ?? line.teacherId}
+                          {line.kind === 'ADJUSTMENT' ? <span className="statusBadge"> 调整</span> : null}
+                          <span className="muted">
+                            {' '}
+                            · {line.sessionsCount} 节课 · {(line.payableMinutes / 60).toFixed(2)} 小时
+                            {line.reason ? ` · ${line.reason}` : ''}
+                            {line.kind === 'ADJUSTMENT' ? ` · ${line.createdAt.slice(0, 10)}` : ''}
+                            {line.paidAt ? '' : ' · 未发放'}
+                          </span>
+                        </span>
+                        <span style={{ fontVariantNumeric: 'tabular-nums' }}>
+                          {formatCurrencyFromCents(line.amountCents, line.currency)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,351 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { useApi } from '../_lib/api';
+import { useRequireAdmin } from '../_lib/auth';
+import { formatCurrencyFromCents, type Currency } from '../_lib/money';
+
+type PayrollTotal = {
+  currency: Currency;
+  totalCents: number;
+  totalHours: number;
+  sessionsCount: number;
+};
+
+/** Present only when a reporting currency was picked; every session converted at its own date. */
+type ConvertedTotal = { currency: Currency; totalCents: number };
+
+type PayrollRunStatus = 'CLOSED' | 'APPROVED' | 'PAID';
+
+type PayrollCadence = 'WEEKLY' | 'FORTNIGHTLY' | 'SEMI_MONTHLY' | 'MONTHLY';
+
+type TeacherPayroll = {
+  teacherId: string;
+  teacherName: string | null;
+  totals: PayrollTotal[];
+  converted?: ConvertedTotal;
+  byStudent: { studentId: string; studentName: string | null; totals: PayrollTotal[]; converted?: ConvertedTotal }[];
+};
+
+type OrgPayrollResponse = {
+  periodStartLocal: string;
+  periodEndLocal: string;
+  timeZone: string;
+  cadence: PayrollCadence;
+  run: { id: string; status: PayrollRunStatus } | null;
+  totals: PayrollTotal[];
+  converted?: ConvertedTotal;
+  teachers: TeacherPayroll[];
+};
+
+type PayrollSessionLine = {
+  sessionId: string;
+  teacherId: string;
+  studentId: string;
+  studentName: string | null;
+  status: 'SCHEDULED' | 'PENDING_CONFIRMATION' | 'CANCELLED' | 'COMPLETED';
+  startAtUtc: string;
+  endAtUtc: string;
+  currency: Currency;
+  payableMinutes: number;
+  teacherHourlyWageCentsSnapshot: number;
+  amountCents: number;
+};
+
+const CURRENCIES: Currency[] = ['AUD', 'CNY', 'USD'];
+
+const CADENCE_LABELS: Record<PayrollCadence, string> = {
+  WEEKLY: '每周',
+  FORTNIGHTLY: '每两周',
+  SEMI_MONTHLY: '每半月',
+  MONTHLY: '每月',
+};
+
+const RUN_STATUS_LABELS: Record<PayrollRunStatus, string> = {
+  CLOSED: '已关账',
+  APPROVED: '已审批',
+  PAID: '已发放',
+};
+
+function addDaysIsoDate(isoDate: string, deltaDays: number): string {
+  const date = new Date(`${isoDate}T12:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + deltaDays);
+  return date.toISOString().slice(0, 10);
+}
+
+function todayLocal(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+function formatDateTimeInTimeZone(value: string, timeZone: string): string {
+  return new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'short', timeZone }).format(new Date(value));
+}
+
+export default function PayrollPage() {
+  const { hydrated, accessToken } = useRequireAdmin();
+  const { apiFetchJson, apiDownload } = useApi();
+
+  const [anchorDate, setAnchorDate] = useState(todayLocal);
+  const [reportingCurrency, setReportingCurrency] = useState<Currency | ''>('');
+  const [data, setData] = useState<OrgPayrollResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const [expandedTeacherId, setExpandedTeacherId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<PayrollSessionLine[] | null>(null);
+
+  useEffect(() => {
+    if (!hydrated || !accessToken) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        setError(null);
+        setExpandedTeacherId(null);
+        const params = new URLSearchParams({ date: anchorDate });
+        if (reportingCurrency) params.set('reportingCurrency', reportingCurrency);
+        const res = await apiFetchJson<OrgPayrollResponse>(`/admin/payroll?${params.toString()}`);
+        if (!cancelled) setData(res);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : '加载失败');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken, anchorDate, apiFetchJson, hydrated, reportingCurrency]);
+
+  const toggleTeacher = async (teacherId: string) => {
+    if (!data) return;
+    if (expandedTeacherId === teacherId) {
+      setExpandedTeacherId(null);
+      return;
+    }
+
+    setExpandedTeacherId(teacherId);
+    setSessions(null);
+    try {
+      const res = await apiFetchJson<{ sessions: PayrollSessionLine[] }>(
+        `/admin/payroll/sessions?periodStart=${data.periodStartLocal}&teacherId=${encodeURIComponent(teacherId)}`,
+      );
+      setSessions(res.sessions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '加载失败');
+      setExpandedTeacherId(null);
+    }
+  };
+
+  const exportCsv = async () => {
+    if (!data) return;
+    setExporting(true);
+    setError(null);
+    try {
+      await apiDownload(
+        `/admin/payroll.csv?periodStart=${data.periodStartLocal}`,
+        `payroll-${data.periodStartLocal}.csv`,
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '导出失败');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <main className="stack">
+      <div className="row" style={{ justifyContent: 'space-between' }}>
+        <h1 style={{ margin: 0 }}>工资汇总</h1>
+        {data ? (
+          <span className="muted" style={{ fontSize: 12 }}>
+            ⓘ 统计口径：{data.timeZone}（{CADENCE_LABELS[data.cadence]}结算）
+          </span>
+        ) : null}
+      </div>
+
+      <div className="card stack">
+        <div className="row" style={{ flexWrap: 'wrap', alignItems: 'flex-end' }}>
+          <label className="field">
+            <span className="muted">选择日期（按所在工资周期）</span>
+            <input
+              type="date"
+              value={anchorDate}
+              onChange={(e) => {
+                if (e.target.value) setAnchorDate(e.target.value);
+              }}
+            />
+          </label>
+          <button
+            className="btnSecondary"
+            type="button"
+            disabled={data === null}
+            onClick={() => data && setAnchorDate(addDaysIsoDate(data.periodStartLocal, -1))}
+          >
+            上一周期
+          </button>
+          <button
+            className="btnSecondary"
+            type="button"
+            disabled={data === null}
+            onClick={() => data && setAnchorDate(addDaysIsoDate(data.periodEndLocal, 1))}
+          >
+            下一周期
+          </button>
+          <label className="field">
+            <span className="muted">折算币种</span>
+            <select
+              data-testid="payroll-reporting-currency"
+              value={reportingCurrency}
+              onChange={(e) => setReportingCurrency(e.target.value as Currency | '')}
+            >
+              <option value="">不折算</option>
+              {CURRENCIES.map((currency) => (
+                <option key={currency} value={currency}>
+                  {currency}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            className="btn"
+            type="button"
+            data-testid="payroll-export-csv"
+            disabled={exporting || data === null}
+            onClick={() => void exportCsv()}
+          >
+            {exporting ? '导出中…' : '导出 CSV'}
+          </button>
+        </div>
+
+        {data ? (
+          <div className="row" style={{ flexWrap: 'wrap' }}>
+            <strong>
+              {data.periodStartLocal} ~ {data.periodEndLocal}
+            </strong>
+            <span className="muted" style={{ fontSize: 12 }}>
+              {data.run ? RUN_STATUS_LABELS[data.run.status] : '未关账（实时计算）'}
+            </span>
+          </div>
+        ) : null}
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+
+      {data === null ? (
+        <div className="card muted">加载中…</div>
+      ) : data.teachers.length === 0 ? (
+        <div className="card muted">本周期暂无应付工资</div>
+      ) : (
+        <>
+          <div className="card stack" data-testid="payroll-totals">
+            <strong>合计</strong>
+            {data.totals.map((total) => (
+              <div key={total.currency} className="row" style={{ justifyContent: 'space-between' }}>
+                <span className="muted">
+                  {total.currency} · {total.sessionsCount} 节课 · {total.totalHours.toFixed(2)} 小时
+                </span>
+                <strong>{formatCurrencyFromCents(total.totalCents, total.currency)}</strong>
+              </div>
+            ))}
+            {data.converted ? (
+              <div className="row" style={{ justifyContent: 'space-between' }} data-testid="payroll-converted-total">
+                <span className="muted">折合 {data.converted.currency}（按各课程结束日汇率）</span>
+                <strong>{formatCurrencyFromCents(data.converted.totalCents, data.converted.currency)}</strong>
+              </div>
+            ) : null}
+          </div>
+
+          <div className="stack" data-testid="payroll-teachers">
+            {data.teachers.map((teacher) => (
+              <div key={teacher.teacherId} className="card stack">
+                <div className="row" style={{ justifyContent: 'space-between', flexWrap: 'wrap' }}>
+                  <strong>{teacher.teacherName ?? teacher.teacherId}</strong>
+                  <div className="stack" style={{ gap: 2, alignItems: 'flex-end' }}>
+                    {teacher.totals.map((total) => (
+                      <span key={total.currency}>
+                        <span className="muted" style={{ fontSize: 12 }}>
+                          {total.sessionsCount} 节课 · {total.totalHours.toFixed(2)} 小时{' '}
+                        </span>
+                        <strong>{formatCurrencyFromCents(total.totalCents, total.currency)}</strong>
+                      </span>
+                    ))}
+                    {teacher.converted ? (
+                      <span className="muted" style={{ fontSize: 12 }}>
+                        折合 {formatCurrencyFromCents(teacher.converted.totalCents, teacher.converted.currency)}
+                      </span>
+                    ) : null}
+                  </div>
+                </div>
+
+                {teacher.byStudent.map((student) => (
+                  <div
+                    key={student.studentId}
+                    className="row"
+                    style={{ justifyContent: 'space-between', fontSize: 13, flexWrap: 'wrap' }}
+                  >
+                    <span className="muted">{student.studentName ?? student.studentId}</span>
+                    <span>
+                      {student.totals
+                        .map((total) => formatCurrencyFromCents(total.totalCents, total.currency))
+                        .join(' · ')}
+                      {student.converted
+                        ? `（折合 ${formatCurrencyFromCents(student.converted.totalCents, student.converted.currency)}）`
+                        : ''}
+                    </span>
+                  </div>
+                ))}
+
+                <div className="row">
+                  <button
+                    className="btnSecondary btnSm"
+                    type="button"
+                    onClick={() => void toggleTeacher(teacher.teacherId)}
+                  >
+                    {expandedTeacherId === teacher.teacherId ? '收起课程' : '课程明细'}
+                  </button>
+                </div>
+
+                {expandedTeacherId === teacher.teacherId ? (
+                  sessions === null ? (
+                    <div className="muted">加载中…</div>
+                  ) : (
+                    <div className="stack" style={{ gap: 6 }} data-testid="payroll-sessions">
+                      {sessions.map((line) => (
+                        <div
+                          key={`${line.sessionId}:${line.currency}`}
+                          className="row"
+                          style={{
+                            justifyContent: 'space-between',
+                            borderTop: '1px solid #f3f4f6',
+                            paddingTop: 6,
+                            fontSize: 13,
+                          }}
+                        >
+                          <span>
+                            {formatDateTimeInTimeZone(line.startAtUtc, data.timeZone)} ·{' '}
+                            {line.studentName ?? line.studentId}
+                            <span className="muted">
+                              {' '}
+                              · {(line.payableMinutes / 60).toFixed(2)} 小时 ×{' '}
+                              {formatCurrencyFromCents(line.teacherHourlyWageCentsSnapshot, line.currency)}/小时
+                              {line.status === 'CANCELLED' ? ' · 迟取消（计薪）' : ''}
+                            </span>
+                          </span>
+                          <span style={{ fontVariantNumeric: 'tabular-nums' }}>
+                            {formatCurrencyFromCents(line.amountCents, line.currency)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )
+                ) : null}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </main>
+  );
+}
@@ -4,6 +4,7 @@ import { useCallback, useEffect, useMemo, useState } from 'react';
 
 import { useApi } from '../_lib/api';
 import { useRequireAdmin } from '../_lib/auth';
+import { formatCurrencyFromCents, parseAmountToCents, type Currency } from '../_lib/money';
 
 type UserOption = {
   id: string;
@@ -11,7 +12,6 @@ type UserOption = {
   displayName: string | null;
 };
 
-type Currency = 'AUD' | 'CNY' | 'USD';
 type Subject =
   | 'GENERAL'
   | 'ENGLISH'
@@ -58,34 +58,6 @@ const SUBJECT_OPTIONS: { value: Subject; label: string }[] = [
   { value: 'GEOGRAPHY', label: 'Geography（地理）' },
 ];
 
-function parseHourlyRateToCents(value: string): number | null {
-  const raw = value.trim();
-  if (!raw) return null;
-  const match = /^(\d+)(?:\.(\d{0,2}))?$/.exec(raw);
-  if (!match) return null;
-
-  const integerRaw = match[1];
-  if (!integerRaw) return null;
-  const integerPart = BigInt(integerRaw);
-
-  const fractionalPart = (match[2] ?? '').padEnd(2, '0');
-  const fractionalValue = BigInt(fractionalPart);
-
-  const cents = integerPart * 100n + fractionalValue;
-  if (cents <= 0n) return null;
-  if (cents > BigInt(Number.MAX_SAFE_INTEGER)) return null;
-  return Number(cents);
-}
-
-function formatCurrencyFromCents(cents: number, currency: string): string {
-  const amount = cents / 100;
-  try {
-    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
-  } catch {
-    return `${currency} ${amount.toFixed(2)}`;
-  }
-}
-
 export default function RatesPage() {
   const { hydrated, accessToken } = useRequireAdmin();
   const { apiFetchJson } = useApi();
@@ -180,13 +152,13 @@ export default function RatesPage() {
                   return;
                 }
 
-                const studentHourlyRateCents = parseHourlyRateToCents(studentHourlyRate);
+                const studentHourlyRateCents = parseAmountToCents(studentHourlyRate);
                 if (studentHourlyRateCents === null) {
                   setError('学生收费必须为正数（最多两位小数，单位：元/刀/小时）');
                   return;
                 }
 
-                const teacherHourlyWageCents = parseHourlyRateToCents(teacherHourlyWage);
+                const teacherHourlyWageCents = parseAmountToCents(teacherHourlyWage);
                 if (teacherHourlyWageCents === null) {
                   setError('老师工资必须为正数（最多两位小数，单位：元/刀/小时）');
                   return;
@@ -0,0 +1,362 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { useApi } from '../_lib/api';
+import { useRequireAdmin } from '../_lib/auth';
+import { formatCurrencyFromCents, type Currency } from '../_lib/money';
+
+type Subject =
+  | 'GENERAL'
+  | 'ENGLISH'
+  | 'CHINESE'
+  | 'MATHEMATICS'
+  | 'CHEMISTRY'
+  | 'PHYSICS'
+  | 'BIOLOGY'
+  | 'ECONOMICS'
+  | 'BUSINESS_STUDIES'
+  | 'LEGAL_STUDIES'
+  | 'MODERN_HISTORY'
+  | 'ANCIENT_HISTORY'
+  | 'GEOGRAPHY';
+
+type Granularity = 'DAY' | 'WEEK' | 'MONTH';
+
+type ReportFigures = {
+  currency: Currency;
+  sessionsCount: number;
+  revenueCents: number;
+  wageCostCents: number;
+  marginCents: number;
+};
+
+/** `converted` is present only when a reporting currency was picked. */
+type ReportRow = { totals: ReportFigures[]; converted?: ReportFigures };
+
+type RevenueReport = ReportRow & {
+  from: string;
+  to: string;
+  timeZone: string;
+  granularity: Granularity;
+  byPeriod: ({ periodStartLocal: string } & ReportRow)[];
+  byTeacher: ({ teacherId: string; teacherName: string | null } & ReportRow)[];
+  byStudent: ({ studentId: string; studentName: string | null } & ReportRow)[];
+  bySubject: ({ subject: Subject } & ReportRow)[];
+};
+
+const SUBJECT_LABELS: Record<Subject, string> = {
+  GENERAL: '通用',
+  ENGLISH: 'English（英语）',
+  MATHEMATICS: 'Mathematics（数学）',
+  CHINESE: 'Chinese（中文）',
+  CHEMISTRY: 'Chemistry（化学）',
+  PHYSICS: 'Physics（物理）',
+  BIOLOGY: 'Biology（生物）',
+  ECONOMICS: 'Economics（经济）',
+  BUSINESS_STUDIES: 'Business Studies（商科）',
+  LEGAL_STUDIES: 'Legal Studies（法律）',
+  MODERN_HISTORY: 'Modern History（现代史）',
+  ANCIENT_HISTORY: 'Ancient History（古代史）',
+  GEOGRAPHY: 'Geography（地理）',
+};
+
+const GRANULARITY_OPTIONS: { value: Granularity; label: string }[] = [
+  { value: 'DAY', label: '按日' },
+  { value: 'WEEK', label: '按周' },
+  { value: 'MONTH', label: '按月' },
+];
+
+const CURRENCIES: Currency[] = ['AUD', 'CNY', 'USD'];
+
+const REVENUE_COLOR = '#2563EB';
+const WAGE_COLOR = '#F59E0B';
+
+function toIsoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function formatMarginPercent(figures: ReportFigures): string {
+  if (figures.revenueCents === 0) return '—';
+  return `${((figures.marginCents / figures.revenueCents) * 100).toFixed(1)}%`;
+}
+
+/** Revenue and wage cost side by side for each period, in one currency or, with `converted`, the reporting one. */
+function PeriodChart({
+  report,
+  currency,
+  converted = false,
+}: {
+  report: RevenueReport;
+  currency: Currency;
+  converted?: boolean;
+}) {
+  const points = report.byPeriod.map((period) => {
+    const figures = converted ? period.converted : period.totals.find((total) => total.currency === currency);
+    return {
+      label: period.periodStartLocal,
+      revenueCents: figures?.revenueCents ?? 0,
+      wageCostCents: figures?.wageCostCents ?? 0,
+    };
+  });
+  const maxCents = Math.max(1, ...points.map((point) => Math.max(point.revenueCents, point.wageCostCents)));
+
+  const height = 160;
+  const slot = 28;
+  const barWidth = 10;
+  const width = Math.max(points.length * slot, 280);
+  const labelEvery = Math.ceil(points.length / 8);
+
+  return (
+    <div style={{ overflowX: 'auto' }}>
+      <svg width={width} height={height + 20} role="img" aria-label={`${currency} 收入与工资`}>
+        {points.map((point, index) => {
+          const x = index * slot + (slot - barWidth * 2) / 2;
+          const revenueHeight = (point.revenueCents / maxCents) * height;
+          const wageHeight = (point.wageCostCents / maxCents) * height;
+          return (
+            <g key={point.label}>
+              <rect x={x} y={height - revenueHeight} width={barWidth} height={revenueHeight} fill={REVENUE_COLOR}>
+                <title>
+                  {point.label} 收入 {formatCurrencyFromCents(point.revenueCents, currency)}
+                </title>
+              </rect>
+              <rect x={x + barWidth} y={height - wageHeight} width={barWidth} height={wageHeight} fill={WAGE_COLOR}>
+                <title>
+                  {point.label} 工资 {formatCurrencyFromCents(point.wageCostCents, currency)}
+                </title>
+              </rect>
+              {index % labelEvery === 0 ? (
+                <text x={index * slot} y={height + 14} fontSize={10} fill="#6B7280">
+                  {point.label.slice(5)}
+                </text>
+              ) : null}
+            </g>
+          );
+        })}
+        <line x1={0} y1={height} x2={width} y2={height} stroke="#E5E7EB" />
+      </svg>
+    </div>
+  );
+}
+
+function FiguresRow({ label, row }: { label: string; row: ReportRow }) {
+  const totals = row.converted ? [...row.totals, row.converted] : row.totals;
+  return (
+    <div
+      className="row"
+      style={{ justifyContent: 'space-between', borderTop: '1px solid #f3f4f6', paddingTop: 6, fontSize: 13 }}
+    >
+      <span>{label}</span>
+      <span className="stack" style={{ gap: 2, alignItems: 'flex-end' }}>
+        {totals.map((figures) => (
+          <span
+            key={figures === row.converted ? `converted:${figures.currency}` : figures.currency}
+            style={{ fontVariantNumeric: 'tabular-nums' }}
+          >
+            <span className="muted">
+              {figures === row.converted ? '折合 · ' : ''}
+              {figures.sessionsCount} 节 · 收入 {formatCurrencyFromCents(figures.revenueCents, figures.currency)} · 工资{' '}
+              {formatCurrencyFromCents(figures.wageCostCents, figures.currency)} ·{' '}
+            </span>
+            毛利 {formatCurrencyFromCents(figures.marginCents, figures.currency)}（{formatMarginPercent(figures)}）
+          </span>
+        ))}
+      </span>
+    </div>
+  );
+}
+
+export default function ReportsPage() {
+  const { hydrated, accessToken } = useRequireAdmin();
+  const { apiFetchJson } = useApi();
+
+  const [from, setFrom] = useState(() => {
+    const date = new Date();
+    date.setMonth(date.getMonth() - 5, 1);
+    return toIsoDate(date);
+  });
+  const [to, setTo] = useState(() => toIsoDate(new Date()));
+  const [granularity, setGranularity] = useState<Granularity>('MONTH');
+  const [reportingCurrency, setReportingCurrency] = useState<Currency | ''>('');
+
+  const [report, setReport] = useState<RevenueReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!hydrated || !accessToken) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        setError(null);
+        setLoading(true);
+        const params = new URLSearchParams({ from, to, granularity });
+        if (reportingCurrency) params.set('reportingCurrency', reportingCurrency);
+        const res = await apiFetchJson<RevenueReport>(`/admin/reports?${params.toString()}`);
+        if (!cancelled) setReport(res);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : '加载失败');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken, apiFetchJson, from, granularity, hydrated, reportingCurrency, to]);
+
+  return (
+    <main className="stack">
+      <div className="row" style={{ justifyContent: 'space-between' }}>
+        <h1 style={{ margin: 0 }}>经营报表</h1>
+        {report ? (
+          <span className="muted" style={{ fontSize: 12 }}>
+            ⓘ 按课程结束时间统计（{report.timeZone}）
+          </span>
+        ) : null}
+      </div>
+
+      <div className="card row" style={{ flexWrap: 'wrap', alignItems: 'flex-end' }}>
+        <label className="field">
+          <span className="muted">开始日期</span>
+          <input type="date" value={from} onChange={(e) => e.target.value && setFrom(e.target.value)} />
+        </label>
+        <label className="field">
+          <span className="muted">结束日期</span>
+          <input type="date" value={to} onChange={(e) => e.target.value && setTo(e.target.value)} />
+        </label>
+        <label className="field">
+          <span className="muted">周期</span>
+          <select value={granularity} onChange={(e) => setGranularity(e.target.value as Granularity)}>
+            {GRANULARITY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="field">
+          <span className="muted">折算币种</span>
+          <select
+            data-testid="report-reporting-currency"
+            value={reportingCurrency}
+            onChange={(e) => setReportingCurrency(e.target.value as Currency | '')}
+          >
+            <option value="">不折算</option>
+            {CURRENCIES.map((currency) => (
+              <option key={currency} value={currency}>
+                {currency}
+              </option>
+            ))}
+          </select>
+        </label>
+        {loading ? <span className="muted">加载中…</span> : null}
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+
+      {report === null ? (
+        <div className="card muted">加载中…</div>
+      ) : report.totals.length === 0 ? (
+        <div className="card muted">所选区间内暂无已完成课程</div>
+      ) : (
+        <>
+          {report.converted ? (
+            <div className="card stack" data-testid="report-converted">
+              <div className="row" style={{ justifyContent: 'space-between', flexWrap: 'wrap' }}>
+                <strong>折合 {report.converted.currency}</strong>
+                <span className="muted" style={{ fontSize: 12 }}>
+                  按各课程结束日汇率折算 · {report.converted.sessionsCount} 节课
+                </span>
+              </div>
+              <div className="row" style={{ flexWrap: 'wrap', gap: 24 }}>
+                <span>
+                  收入{' '}
+                  <strong style={{ color: REVENUE_COLOR }}>
+                    {formatCurrencyFromCents(report.converted.revenueCents, report.converted.currency)}
+                  </strong>
+                </span>
+                <span>
+                  老师工资{' '}
+                  <strong style={{ color: WAGE_COLOR }}>
+                    {formatCurrencyFromCents(report.converted.wageCostCents, report.converted.currency)}
+                  </strong>
+                </span>
+                <span>
+                  毛利{' '}
+                  <strong>
+                    {formatCurrencyFromCents(report.converted.marginCents, report.converted.currency)}（
+                    {formatMarginPercent(report.converted)}）
+                  </strong>
+                </span>
+              </div>
+              <PeriodChart report={report} currency={report.converted.currency} converted />
+            </div>
+          ) : null}
+
+          {report.totals.map((figures) => (
+            <div key={figures.currency} className="card stack" data-testid={`report-currency-${figures.currency}`}>
+              <div className="row" style={{ justifyContent: 'space-between', flexWrap: 'wrap' }}>
+                <strong>{figures.currency}</strong>
+                <span className="muted" style={{ fontSize: 12 }}>
+                  {figures.sessionsCount} 节课
+                </span>
+              </div>
+              <div className="row" style={{ flexWrap: 'wrap', gap: 24 }}>
+                <div className="stack" style={{ gap: 2 }}>
+                  <span className="muted" style={{ fontSize: 12 }}>
+                    收入
+                  </span>
+                  <strong style={{ color: REVENUE_COLOR }}>
+                    {formatCurrencyFromCents(figures.revenueCents, figures.currency)}
+                  </strong>
+                </div>
+                <div className="stack" style={{ gap: 2 }}>
+                  <span className="muted" style={{ fontSize: 12 }}>
+                    老师工资
+                  </span>
+                  <strong style={{ color: WAGE_COLOR }}>
+                    {formatCurrencyFromCents(figures.wageCostCents, figures.currency)}
+                  </strong>
+                </div>
+                <div className="stack" style={{ gap: 2 }}>
+                  <span className="muted" style={{ fontSize: 12 }}>
+                    毛利（毛利率）
+                  </span>
+                  <strong>
+                    {formatCurrencyFromCents(figures.marginCents, figures.currency)}（{formatMarginPercent(figures)}）
+                  </strong>
+                </div>
+              </div>
+              <PeriodChart report={report} currency={figures.currency} />
+            </div>
+          ))}
+
+          <div className="card stack">
+            <strong>按老师</strong>
+            {report.byTeacher.map((row) => (
+              <FiguresRow key={row.teacherId} label={row.teacherName ?? row.teacherId} row={row} />
+            ))}
+          </div>
+
+          <div className="card stack">
+            <strong>按学生</strong>
+            {report.byStudent.map((row) => (
+              <FiguresRow key={row.studentId} label={row.studentName ?? row.studentId} row={row} />
+            ))}
+          </div>
+
+          <div className="card stack">
+            <strong>按科目</strong>
+            {report.bySubject.map((row) => (
+              <FiguresRow key={row.subject} label={SUBJECT_LABELS[row.subject]} row={row} />
+            ))}
+          </div>
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,314 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { useApi } from '../_lib/api';
+import { useRequireAdmin } from '../_lib/auth';
+
+type UserRole = 'ADMIN' | 'TEACHER' | 'STUDENT';
+
+type LoginMethod = 'PASSWORD' | 'LOGIN_CODE' | 'TWO_FACTOR';
+
+type LoginAttemptOutcome =
+  | 'SUCCESS'
+  | 'TWO_FACTOR_CHALLENGE'
+  | 'INVALID_PASSWORD'
+  | 'INVALID_CODE'
+  | 'UNKNOWN_ACCOUNT'
+  | 'LOCKED';
+
+type Account = {
+  id: string;
+  email: string | null;
+  phone: string | null;
+  role: UserRole;
+};
+
+type LoginAttempt = {
+  id: string;
+  method: LoginMethod;
+  outcome: LoginAttemptOutcome;
+  ipAddress: string;
+  userAgent: string | null;
+  country: string | null;
+  newDevice: boolean;
+  newCountry: boolean;
+  createdAt: string;
+};
+
+type SuspiciousActivity = {
+  since: string;
+  lockedAccounts: (Account & { failedLoginCount: number; lockedUntil: string })[];
+  failingAccounts: { user: Account; failures: number; lastFailedAt: string | null }[];
+  failingIps: { ipAddress: string; failures: number; accounts: number; lastFailedAt: string | null }[];
+  newSignIns: (LoginAttempt & { user: Account | null })[];
+};
+
+type LoginHistory = {
+  failedLoginCount: number;
+  lockedUntil: string | null;
+  attempts: LoginAttempt[];
+};
+
+const ROLE_LABELS: Record<UserRole, string> = { ADMIN: '管理员', TEACHER: '老师', STUDENT: '学生' };
+
+const METHOD_LABELS: Record<LoginMethod, string> = {
+  PASSWORD: '密码',
+  LOGIN_CODE: '验证码',
+  TWO_FACTOR: '两步验证',
+};
+
+const OUTCOME_LABELS: Record<LoginAttemptOutcome, string> = {
+  SUCCESS: '成功',
+  TWO_FACTOR_CHALLENGE: '待两步验证',
+  INVALID_PASSWORD: '密码错误',
+  INVALID_CODE: '验证码错误',
+  UNKNOWN_ACCOUNT: '账号不存在',
+  LOCKED: '已锁定',
+};
+
+const DAY_OPTIONS = [1, 7, 30];
+
+function formatDateTime(value: string | null): string {
+  if (!value) return '—';
+  return new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(value));
+}
+
+function accountLabel(account: Account | null): string {
+  if (!account) return '—';
+  return `${account.email ?? account.phone ?? account.id}（${ROLE_LABELS[account.role]}）`;
+}
+
+function AttemptMeta({ attempt }: { attempt: LoginAttempt }) {
+  return (
+    <div className="listItemMeta">
+      {formatDateTime(attempt.createdAt)} · {METHOD_LABELS[attempt.method]} · IP {attempt.ipAddress}
+      {attempt.country ? ` · ${attempt.country}` : ''} · {attempt.userAgent ?? '未知设备'}
+    </div>
+  );
+}
+
+export default function SecurityPage() {
+  const { hydrated, accessToken } = useRequireAdmin();
+  const { apiFetchJson } = useApi();
+
+  const [days, setDays] = useState(7);
+  const [activity, setActivity] = useState<SuspiciousActivity | null>(null);
+  const [history, setHistory] = useState<{ account: Account; data: LoginHistory } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setActivity(await apiFetchJson<SuspiciousActivity>(`/admin/suspicious-activity?days=${days}`));
+  }, [apiFetchJson, days]);
+
+  useEffect(() => {
+    if (!hydrated || !accessToken) return;
+    refresh().catch((err: unknown) => setError(err instanceof Error ? err.message : '加载失败'));
+  }, [accessToken, hydrated, refresh]);
+
+  const showHistory = async (account: Account) => {
+    setError(null);
+    try {
+      setHistory({ account, data: await apiFetchJson<LoginHistory>(`/admin/users/${account.id}/login-attempts`) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '加载失败');
+    }
+  };
+
+  const historyButton = (account: Account) => (
+    <button className="btnSecondary btnSm" type="button" onClick={() => showHistory(account)}>
+      登录记录
+    </button>
+  );
+
+  return (
+    <main className="stack">
+      <div className="row" style={{ justifyContent: 'space-between' }}>
+        <h1 style={{ margin: 0 }}>登录安全</h1>
+        <label className="row" style={{ gap: 8 }}>
+          <span className="muted">时间范围</span>
+          <select value={days} onChange={(e) => setDays(Number(e.target.value))} data-testid="security-days">
+            {DAY_OPTIONS.map((value) => (
+              <option key={value} value={value}>
+                最近 {value} 天
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+      {success ? <div className="success">{success}</div> : null}
+
+      {activity === null ? (
+        <div className="card muted">加载中…</div>
+      ) : (
+        <>
+          <div className="card stack">
+            <strong>已锁定的账号</strong>
+            <div className="muted" style={{ fontSize: 12 }}>
+              连续多次密码或验证码错误的账号会被暂时锁定，锁定时间随失败次数加倍。确认是本人操作后可提前解锁。
+            </div>
+            {activity.lockedAccounts.length === 0 ? (
+              <div className="muted">暂无</div>
+            ) : (
+              <div className="list" data-testid="locked-accounts">
+                {activity.lockedAccounts.map((account) => (
+                  <div key={account.id} className="listItem">
+                    <div className="listItemMain">
+                      <span className="listItemTitle">{accountLabel(account)}</span>
+                      <div className="listItemMeta">
+                        连续失败 {account.failedLoginCount} 次 · 锁定至 {formatDateTime(account.lockedUntil)}
+                      </div>
+                    </div>
+                    <div className="row" style={{ gap: 8 }}>
+                      {historyButton(account)}
+                      <button
+                        className="btnDanger btnSm"
+                        type="button"
+                        disabled={busy}
+                        onClick={async () => {
+                          setError(null);
+                          setSuccess(null);
+                          setBusy(true);
+                          try {
+                            await apiFetchJson(`/admin/users/${account.id}/unlock`, { method: 'POST' });
+                            await refresh();
+                            setSuccess('已解锁');
+                          } catch (err) {
+                            setError(err instanceof Error ? err.message : '操作失败');
+                          } finally {
+                            setBusy(false);
+                          }
+                        }}
+                      >
+                        解锁
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="card stack">
+            <strong>登录失败较多的账号</strong>
+            {activity.failingAccounts.length === 0 ? (
+              <div className="muted">暂无</div>
+            ) : (
+              <div className="list" data-testid="failing-accounts">
+                {activity.failingAccounts.map((item) => (
+                  <div key={item.user.id} className="listItem">
+                    <div className="listItemMain">
+                      <span className="listItemTitle">{accountLabel(item.user)}</span>
+                      <div className="listItemMeta">
+                        失败 {item.failures} 次 · 最近一次 {formatDateTime(item.lastFailedAt)}
+                      </div>
+                    </div>
+                    {historyButton(item.user)}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="card stack">
+            <strong>登录失败较多的 IP</strong>
+            <div className="muted" style={{ fontSize: 12 }}>
+              同一 IP 对多个账号尝试登录，通常是有人在批量猜测密码。
+            </div>
+            {activity.failingIps.length === 0 ? (
+              <div className="muted">暂无</div>
+            ) : (
+              <div className="list" data-testid="failing-ips">
+                {activity.failingIps.map((item) => (
+                  <div key={item.ipAddress} className="listItem">
+                    <div className="listItemMain">
+                      <span className="listItemTitle">{item.ipAddress}</span>
+                      <div className="listItemMeta">
+                        失败 {item.failures} 次 · 涉及 {item.accounts} 个账号 · 最近一次{' '}
+                        {formatDateTime(item.lastFailedAt)}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="card stack">
+            <strong>新设备或新地区登录</strong>
+            {activity.newSignIns.length === 0 ? (
+              <div className="muted">暂无</div>
+            ) : (
+              <div className="list" data-testid="new-sign-ins">
+                {activity.newSignIns.map((attempt) => (
+                  <div key={attempt.id} className="listItem">
+                    <div className="listItemMain">
+                      <span className="listItemTitle">
+                        {accountLabel(attempt.user)}
+                        {attempt.newDevice ? (
+                          <span className="statusBadge statusBadgeWarning" style={{ marginLeft: 8 }}>
+                            新设备
+                          </span>
+                        ) : null}
+                        {attempt.newCountry ? (
+                          <span className="statusBadge statusBadgeDanger" style={{ marginLeft: 8 }}>
+                            新地区
+                          </span>
+                        ) : null}
+                      </span>
+                      <AttemptMeta attempt={attempt} />
+                    </div>
+                    {attempt.user ? historyButton(attempt.user) : null}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {history ? (
+        <div className="card stack" data-testid="login-history">
+          <div className="row" style={{ justifyContent: 'space-between' }}>
+            <strong>{accountLabel(history.account)} 的登录记录</strong>
+            <button className="btnSecondary btnSm" type="button" onClick={() => setHistory(null)}>
+              关闭
+            </button>
+          </div>
+          <div className="muted" style={{ fontSize: 12 }}>
+            当前连续失败 {history.data.failedLoginCount} 次
+            {history.data.lockedUntil ? ` · 锁定至 ${formatDateTime(history.data.lockedUntil)}` : ''}
+          </div>
+          {history.data.attempts.length === 0 ? (
+            <div className="muted">暂无记录</div>
+          ) : (
+            <div className="list">
+              {history.data.attempts.map((attempt) => (
+                <div key={attempt.id} className="listItem">
+                  <div className="listItemMain">
+                    <span className="listItemTitle">
+                      <span
+                        className={
+                          attempt.outcome === 'SUCCESS' || attempt.outcome === 'TWO_FACTOR_CHALLENGE'
+                            ? 'statusBadge'
+                            : 'statusBadge statusBadgeDanger'
+                        }
+                      >
+                        {OUTCOME_LABELS[attempt.outcome]}
+                      </span>
+                    </span>
+                    <AttemptMeta attempt={attempt} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : null}
+    </main>
+  );
+}
@@ -2,7 +2,8 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
-import { useApi } from '../_lib/api';
+import SlotSuggestions from '../_components/slot-suggestions';
+import { ApiError, useApi } from '../_lib/api';
 import { useRequireAdmin } from '../_lib/auth';
 
 type UserOption = {
@@ -12,7 +13,8 @@ type UserOption = {
 };
 
 type Currency = 'AUD' | 'CNY' | 'USD';
-type SessionStatus = 'SCHEDULED' | 'CANCELLED' | 'COMPLETED';
+type SessionStatus = 'SCHEDULED' | 'PENDING_CONFIRMATION' | 'CANCELLED' | 'COMPLETED';
+type AttendanceOutcome = 'ATTENDED' | 'STUDENT_NO_SHOW' | 'TEACHER_NO_SHOW' | 'PARTIAL';
 type Subject =
   | 'GENERAL'
   | 'ENGLISH'
@@ -45,8 +47,42 @@ type AdminSessionListItem = {
   studentHourlyRateCentsSnapshot: number;
   teacherHourlyWageCentsSnapshot: number;
   currencySnapshot: Currency;
+  seriesId: string | null;
+  seriesOccurrenceDate: string | null;
+  attendance: AttendanceOutcome | null;
+  attendedMinutes: number | null;
 };
 
+const ATTENDANCE_LABELS: Record<AttendanceOutcome, string> = {
+  ATTENDED: '正常上课',
+  PARTIAL: '部分出席',
+  STUDENT_NO_SHOW: '学生缺席',
+  TEACHER_NO_SHOW: '老师缺席',
+};
+
+type SessionNotes = {
+  privateNote: string | null;
+  sharedSummary: string | null;
+  homework: { id: string; title: string; dueDateLocal: string | null; completed: boolean }[];
+};
+
+type ConflictParty = 'TEACHER' | 'STUDENT';
+
+type ConflictItem = {
+  sessionId: string;
+  startAtUtc: string;
+  parties: ConflictParty[];
+  occurrenceDate: string | null;
+};
+
+type AvailabilityIssue = {
+  kind: 'OUTSIDE_WINDOWS' | 'BLACKOUT';
+  dateLocal: string;
+};
+
+type RepeatMode = 'NONE' | 'WEEKLY' | 'FORTNIGHTLY';
+type SeriesScope = 'THIS' | 'THIS_AND_FOLLOWING' | 'ALL';
+
 const SUBJECT_OPTIONS: { value: Subject; label: string }[] = [
   { value: 'GENERAL', label: '通用' },
   { value: 'ENGLISH', label: 'English（英语）' },
@@ -138,6 +174,34 @@ function formatDateTimeInTimeZone(value: string | Date, timeZone: string): strin
   return new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'short', timeZone }).format(date);
 }
 
+function readConflicts(error: unknown): ConflictItem[] | null {
+  if (!(error instanceof ApiError) || error.status !== 409) return null;
+  const body = error.body as { conflicts?: unknown } | null;
+  if (!body || !Array.isArray(body.conflicts)) return null;
+
+  // Single-session conflicts carry `sessionId`; series conflicts name the blocking session `conflictSessionId`.
+  return (body.conflicts as Record<string, unknown>[]).map((item) => ({
+    sessionId: String(item['sessionId'] ?? item['conflictSessionId'] ?? ''),
+    startAtUtc: String(item['startAtUtc'] ?? ''),
+    parties: Array.isArray(item['parties']) ? (item['parties'] as ConflictParty[]) : [],
+    occurrenceDate: typeof item['occurrenceDate'] === 'string' ? item['occurrenceDate'] : null,
+  }));
+}
+
+function readAvailabilityIssues(error: unknown): AvailabilityIssue[] | null {
+  if (!(error instanceof ApiError) || error.status !== 409) return null;
+  const body = error.body as { availabilityIssues?: AvailabilityIssue[] } | null;
+  return body && Array.isArray(body.availabilityIssues) ? body.availabilityIssues : null;
+}
+
+function availabilityIssueLabel(issue: AvailabilityIssue): string {
+  return issue.kind === 'BLACKOUT' ? `${issue.dateLocal} 老师停课` : `${issue.dateLocal} 不在老师可上课时段内`;
+}
+
+function conflictPartiesLabel(parties: ConflictParty[]): string {
+  return parties.map((party) => (party === 'TEACHER' ? '老师' : '学生')).join('、');
+}
+
 function toDateTimeLocalValue(date: Date): string {
   const pad = (value: number) => String(value).padStart(2, '0');
   const year = date.getFullYear();
@@ -203,6 +267,11 @@ function toSlotLabelInTimeZone(value: string | Date, timeZone: string, slotMinut
   return `${pad(hour)}:${pad(bucketMinute)}`;
 }
 
+function toTimeOfDayInTimeZone(value: string | Date, timeZone: string): string {
+  const { hour, minute } = getHourMinuteInTimeZone(value, timeZone);
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
 function startOfLocalMinute(date: Date): Date {
   const next = new Date(date);
   next.setSeconds(0, 0);
@@ -231,8 +300,15 @@ export default function SessionsPage() {
   const [submitting, setSubmitting] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [completingId, setCompletingId] = useState<string | null>(null);
+  const [notesById, setNotesById] = useState<Record<string, SessionNotes>>({});
 
   const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
+  const [editingSeriesId, setEditingSeriesId] = useState<string | null>(null);
+  const [seriesScope, setSeriesScope] = useState<SeriesScope>('THIS');
+  const [conflicts, setConflicts] = useState<ConflictItem[] | null>(null);
+  const [overrideConflicts, setOverrideConflicts] = useState(false);
+  const [availabilityIssues, setAvailabilityIssues] = useState<AvailabilityIssue[] | null>(null);
+  const [overrideAvailability, setOverrideAvailability] = useState(false);
   const [modalOpen, setModalOpen] = useState(false);
   const dialogRef = useRef<HTMLDialogElement | null>(null);
 
@@ -245,6 +321,15 @@ export default function SessionsPage() {
   const [endAtLocal, setEndAtLocal] = useState(() => toDateTimeLocalValue(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000 + 60 * 60 * 1000)));
   const [classTimeZone, setClassTimeZone] = useState('Australia/Sydney');
   const [consumesUnits, setConsumesUnits] = useState(1);
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>('NONE');
+  const [repeatEnd, setRepeatEnd] = useState<'UNTIL' | 'COUNT'>('COUNT');
+  const [repeatUntilLocal, setRepeatUntilLocal] = useState('');
+  const [repeatCount, setRepeatCount] = useState(10);
+
+  const formDurationMinutes = useMemo(() => {
+    const minutes = Math.round((new Date(endAtLocal).getTime() - new Date(startAtLocal).getTime()) / 60_000);
+    return Number.isFinite(minutes) ? minutes : 0;
+  }, [endAtLocal, startAtLocal]);
 
   const gridDays = useMemo(() => buildMonthGrid(viewMonth), [viewMonth]);
   const viewMonthNumber = viewMonth.monthIndex;
@@ -349,6 +434,12 @@ export default function SessionsPage() {
       setError(null);
       setSuccess(null);
       setEditingSessionId(null);
+      setEditingSeriesId(null);
+      setRepeatMode('NONE');
+      setConflicts(null);
+      setOverrideConflicts(false);
+      setAvailabilityIssues(null);
+      setOverrideAvailability(false);
 
       const start = startOfLocalMinute(date);
       const end = new Date(start.getTime() + 60 * 60 * 1000);
@@ -363,6 +454,12 @@ export default function SessionsPage() {
     setError(null);
     setSuccess(null);
     setEditingSessionId(session.id);
+    setEditingSeriesId(session.seriesId);
+    setSeriesScope('THIS');
+    setConflicts(null);
+    setOverrideConflicts(false);
+    setAvailabilityIssues(null);
+    setOverrideAvailability(false);
     setSubject(session.subject);
     setStartAtLocal(toDateTimeLocalValue(new Date(session.startAtUtc)));
     setEndAtLocal(toDateTimeLocalValue(new Date(session.endAtUtc)));
@@ -449,6 +546,7 @@ export default function SessionsPage() {
               >
                 <option value="SCHEDULED">仅显示：SCHEDULED</option>
                 <option value="ALL">显示：全部</option>
+                <option value="PENDING_CONFIRMATION">仅显示：PENDING_CONFIRMATION（待确认出勤）</option>
                 <option value="CANCELLED">仅显示：CANCELLED</option>
                 <option value="COMPLETED">仅显示：COMPLETED</option>
               </select>
@@ -643,6 +741,7 @@ export default function SessionsPage() {
           e.preventDefault();
           setModalOpen(false);
           setEditingSessionId(null);
+          setEditingSeriesId(null);
         }}
       >
         <form
@@ -673,7 +772,24 @@ export default function SessionsPage() {
 
             setSubmitting(true);
             try {
-              if (editingSessionId) {
+              if (editingSessionId && editingSeriesId && seriesScope !== 'THIS') {
+                await apiFetchJson(`/admin/session-series/${editingSeriesId}`, {
+                  method: 'PATCH',
+                  headers: { 'content-type': 'application/json' },
+                  body: JSON.stringify({
+                    scope: seriesScope,
+                    sessionId: editingSessionId,
+                    subject,
+                    startTimeLocal: toTimeOfDayInTimeZone(startAtUtc, classTimeZone),
+                    durationMinutes: Math.round((endAtUtc.getTime() - startAtUtc.getTime()) / 60_000),
+                    consumesUnits,
+                    overrideConflicts,
+                  }),
+                });
+                setSuccess(seriesScope === 'ALL' ? '已修改整个系列' : '已修改此节及以后的课程');
+                setEditingSessionId(null);
+                setEditingSeriesId(null);
+              } else if (editingSessionId) {
                 await apiFetchJson(`/admin/sessions/${editingSessionId}`, {
                   method: 'PATCH',
                   headers: { 'content-type': 'application/json' },
@@ -683,30 +799,81 @@ export default function SessionsPage() {
                     endAtUtc: endAtUtc.toISOString(),
                     classTimeZone,
                     consumesUnits,
+                    overrideConflicts,
                   }),
                 });
                 setSuccess('已保存修改');
                 setEditingSessionId(null);
-              } else {
-                const created = await apiFetchJson<{ id: string }>('/admin/sessions', {
+                setEditingSeriesId(null);
+              } else if (repeatMode !== 'NONE') {
+                if (repeatEnd === 'UNTIL' && !repeatUntilLocal) {
+                  setError('请选择重复截止日期');
+                  return;
+                }
+
+                const created = await apiFetchJson<{ id: string; sessionIds: string[] }>('/admin/session-series', {
                   method: 'POST',
                   headers: { 'content-type': 'application/json' },
                   body: JSON.stringify({
                     teacherId,
                     studentId,
                     subject,
-                    startAtUtc: startAtUtc.toISOString(),
-                    endAtUtc: endAtUtc.toISOString(),
                     classTimeZone,
+                    frequency: repeatMode,
+                    startDateLocal: toDateKeyInTimeZone(startAtUtc, classTimeZone),
+                    startTimeLocal: toTimeOfDayInTimeZone(startAtUtc, classTimeZone),
+                    durationMinutes: Math.round((endAtUtc.getTime() - startAtUtc.getTime()) / 60_000),
+                    ...(repeatEnd === 'UNTIL' ? { untilDateLocal: repeatUntilLocal } : { occurrenceCount: repeatCount }),
                     consumesUnits,
+                    overrideConflicts,
                   }),
                 });
-                setSuccess(`已创建 session：${created.id}`);
+                setSuccess(`已创建重复课程：共 ${created.sessionIds.length} 节`);
+              } else {
+                const created = await apiFetchJson<{ id: string; availabilityWarnings?: AvailabilityIssue[] }>(
+                  '/admin/sessions',
+                  {
+                    method: 'POST',
+                    headers: { 'content-type': 'application/json' },
+                    body: JSON.stringify({
+                      teacherId,
+                      studentId,
+                      subject,
+                      startAtUtc: startAtUtc.toISOString(),
+                      endAtUtc: endAtUtc.toISOString(),
+                      classTimeZone,
+                      consumesUnits,
+                      overrideConflicts,
+                      overrideAvailability,
+                    }),
+                  },
+                );
+                setSuccess(
+                  created.availabilityWarnings?.length
+                    ? `已创建 session：${created.id}（注意：${created.availabilityWarnings.map(availabilityIssueLabel).join('；')}）`
+                    : `已创建 session：${created.id}`,
+                );
               }
 
               await refreshSessions();
+              setConflicts(null);
+              setOverrideConflicts(false);
+              setAvailabilityIssues(null);
+              setOverrideAvailability(false);
               setModalOpen(false);
             } catch (err) {
+              const found = readConflicts(err);
+              if (found) {
+                setConflicts(found);
+                setOverrideConflicts(false);
+                return;
+              }
+              const issues = readAvailabilityIssues(err);
+              if (issues) {
+                setAvailabilityIssues(issues);
+                setOverrideAvailability(false);
+                return;
+              }
               setError(err instanceof Error ? err.message : editingSessionId ? '保存失败' : '创建失败');
             } finally {
               setSubmitting(false);
@@ -721,6 +888,7 @@ export default function SessionsPage() {
               onClick={() => {
                 setModalOpen(false);
                 setEditingSessionId(null);
+                setEditingSeriesId(null);
               }}
             >
               关闭
@@ -791,6 +959,136 @@ export default function SessionsPage() {
             />
           </label>
 
+          {editingSessionId && editingSeriesId ? (
+            <label className="field">
+              <span className="muted">重复课程：修改范围</span>
+              <select
+                data-testid="session-series-scope"
+                value={seriesScope}
+                onChange={(e) => setSeriesScope(e.target.value as SeriesScope)}
+              >
+                <option value="THIS">仅此节</option>
+                <option value="THIS_AND_FOLLOWING">此节及以后</option>
+                <option value="ALL">全部</option>
+              </select>
+              {seriesScope !== 'THIS' ? (
+                <span className="muted" style={{ fontSize: 12 }}>
+                  按课程时区的上课时间与时长应用到每一节，日期保持不变
+                </span>
+              ) : null}
+            </label>
+          ) : null}
+
+          {!editingSessionId ? (
+            <div className="row" style={{ flexWrap: 'wrap' }}>
+              <label className="field" style={{ minWidth: 160 }}>
+                <span className="muted">重复</span>
+                <select
+                  data-testid="session-repeat"
+                  value={repeatMode}
+                  onChange={(e) => setRepeatMode(e.target.value as RepeatMode)}
+                >
+                  <option value="NONE">不重复</option>
+                  <option value="WEEKLY">每周</option>
+                  <option value="FORTNIGHTLY">每两周</option>
+                </select>
+              </label>
+
+              {repeatMode !== 'NONE' ? (
+                <>
+                  <label className="field" style={{ minWidth: 160 }}>
+                    <span className="muted">结束方式</span>
+                    <select value={repeatEnd} onChange={(e) => setRepeatEnd(e.target.value as typeof repeatEnd)}>
+                      <option value="COUNT">按次数</option>
+                      <option value="UNTIL">按日期</option>
+                    </select>
+                  </label>
+
+                  {repeatEnd === 'COUNT' ? (
+                    <label className="field" style={{ minWidth: 160 }}>
+                      <span className="muted">次数</span>
+                      <input
+                        data-testid="session-repeat-count"
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={repeatCount}
+                        onChange={(e) => setRepeatCount(Number(e.target.value))}
+                      />
+                    </label>
+                  ) : (
+                    <label className="field" style={{ minWidth: 200 }}>
+                      <span className="muted">截止日期（课程时区）</span>
+                      <input
+                        data-testid="session-repeat-until"
+                        type="date"
+                        value={repeatUntilLocal}
+                        onChange={(e) => setRepeatUntilLocal(e.target.value)}
+                      />
+                    </label>
+                  )}
+                </>
+              ) : null}
+            </div>
+          ) : null}
+
+          {teacherId && studentId ? (
+            <SlotSuggestions
+              key={`${teacherId}-${studentId}-${editingSessionId ?? ''}`}
+              teacherId={teacherId}
+              studentId={studentId}
+              durationMinutes={formDurationMinutes}
+              excludeSessionId={editingSessionId}
+              onPick={(slot) => {
+                setStartAtLocal(toDateTimeLocalValue(new Date(slot.startAtUtc)));
+                setEndAtLocal(toDateTimeLocalValue(new Date(slot.endAtUtc)));
+                setConflicts(null);
+                setAvailabilityIssues(null);
+              }}
+            />
+          ) : null}
+
+          {conflicts ? (
+            <div className="stack" data-testid="session-conflicts">
+              <div className="error">与以下课程时间冲突：</div>
+              {conflicts.map((conflict) => (
+                <div key={`${conflict.occurrenceDate ?? ''}-${conflict.sessionId}`} className="muted" style={{ fontSize: 13 }}>
+                  {conflict.occurrenceDate ? `${conflict.occurrenceDate}：` : ''}
+                  {conflictPartiesLabel(conflict.parties)}冲突 · {formatDateTimeInTimeZone(conflict.startAtUtc, displayTimeZone)} · Session：
+                  {conflict.sessionId}
+                </div>
+              ))}
+              <label className="row" style={{ gap: 8 }}>
+                <input
+                  type="checkbox"
+                  data-testid="session-override-conflicts"
+                  checked={overrideConflicts}
+                  onChange={(e) => setOverrideConflicts(e.target.checked)}
+                />
+                <span>忽略冲突并继续保存（将记录在审计日志中）</span>
+              </label>
+            </div>
+          ) : null}
+
+          {availabilityIssues ? (
+            <div className="stack" data-testid="session-availability-issues">
+              {availabilityIssues.map((issue) => (
+                <div key={`${issue.kind}-${issue.dateLocal}`} className="error">
+                  {availabilityIssueLabel(issue)}
+                </div>
+              ))}
+              <label className="row" style={{ gap: 8 }}>
+                <input
+                  type="checkbox"
+                  data-testid="session-override-availability"
+                  checked={overrideAvailability}
+                  onChange={(e) => setOverrideAvailability(e.target.checked)}
+                />
+                <span>仍然在该时间排课</span>
+              </label>
+            </div>
+          ) : null}
+
           <div className="row" style={{ justifyContent: 'flex-end', flexWrap: 'wrap' }}>
             <button className="btn" type="submit" disabled={submitting} data-testid="session-submit">
               {submitting ? (editingSessionId ? '保存中…' : '创建中…') : editingSessionId ? '保存修改' : '创建'}
@@ -825,6 +1123,31 @@ export default function SessionsPage() {
               <div className="muted" style={{ fontSize: 13 }}>
                 学生：{session.studentName ?? '—'}（{session.studentEmail ?? '—'}）
               </div>
+              {session.seriesId ? (
+                <div className="muted" style={{ fontSize: 13 }}>
+                  重复课程 · 原定日期：{session.seriesOccurrenceDate ?? '—'}
+                </div>
+              ) : null}
+              {session.attendance ? (
+                <div className="muted" style={{ fontSize: 13 }}>
+                  出勤：{ATTENDANCE_LABELS[session.attendance]}
+                  {session.attendance === 'PARTIAL' && session.attendedMinutes ? `（${session.attendedMinutes} 分钟）` : null}
+                </div>
+              ) : null}
+              {notesById[session.id] ? (
+                <div className="stack" style={{ fontSize: 13 }} data-testid="session-notes">
+                  <div>课堂总结：{notesById[session.id]!.sharedSummary ?? '—'}</div>
+                  <div>内部备注：{notesById[session.id]!.privateNote ?? '—'}</div>
+                  <div>
+                    作业：
+                    {notesById[session.id]!.homework.length === 0
+                      ? '—'
+                      : notesById[session.id]!.homework
+                          .map((h) => `${h.completed ? '✓' : '○'} ${h.title}${h.dueDateLocal ? `（截止 ${h.dueDateLocal}）` : ''}`)
+                          .join('；')}
+                  </div>
+                </div>
+              ) : null}
 
               <div className="row" style={{ justifyContent: 'flex-end', flexWrap: 'wrap' }}>
                 <button
@@ -849,12 +1172,94 @@ export default function SessionsPage() {
                       setCompletingId(null);
                     }
                   }}
-                  disabled={session.status !== 'SCHEDULED' || completingId !== null || deletingId !== null}
+                  disabled={
+                    (session.status !== 'SCHEDULED' && session.status !== 'PENDING_CONFIRMATION') ||
+                    completingId !== null ||
+                    deletingId !== null
+                  }
                   data-testid="session-complete"
                 >
                   {completingId === session.id ? '完成中…' : '标记完成'}
                 </button>
 
+                {session.status === 'COMPLETED'
+                  ? (['SCHEDULED', 'CANCELLED'] as const).map((status) => (
+                      <button
+                        key={status}
+                        className="btnSecondary"
+                        type="button"
+                        onClick={async () => {
+                          setError(null);
+                          setSuccess(null);
+                          const note = window.prompt(
+                            status === 'SCHEDULED'
+                              ? '撤销完成并改期为待上课：将退回已扣课时（写入冲正流水）。请填写原因（可留空）'
+                              : '撤销完成并取消课程：将退回已扣课时（写入冲正流水）。请填写原因（可留空）',
+                          );
+                          if (note === null) return;
+                          let reschedule = {};
+                          if (status === 'SCHEDULED') {
+                            const durationMs = new Date(session.endAtUtc).getTime() - new Date(session.startAtUtc).getTime();
+                            const nextWeek = new Date(new Date(session.startAtUtc).getTime() + 7 * 24 * 60 * 60 * 1000);
+                            const startAtLocalInput = window.prompt(
+                              '已结束的课程需要改到新的上课时间（本地时间，YYYY-MM-DDTHH:mm）',
+                              toDateTimeLocalValue(nextWeek),
+                            );
+                            if (startAtLocalInput === null) return;
+                            const startAtUtc = new Date(startAtLocalInput);
+                            if (!Number.isFinite(startAtUtc.getTime())) {
+                              setError('时间格式不正确');
+                              return;
+                            }
+                            reschedule = {
+                              startAtUtc: startAtUtc.toISOString(),
+                              endAtUtc: new Date(startAtUtc.getTime() + durationMs).toISOString(),
+                            };
+                          }
+                          setCompletingId(session.id);
+                          try {
+                            await apiFetchJson(`/admin/sessions/${session.id}/revert`, {
+                              method: 'POST',
+                              headers: { 'content-type': 'application/json' },
+                              body: JSON.stringify({ status, ...reschedule, ...(note.trim() ? { note: note.trim() } : {}) }),
+                            });
+                            await refreshSessions();
+                            setSuccess(status === 'SCHEDULED' ? '已撤销并改期' : '已撤销并取消');
+                          } catch (err) {
+                            setError(err instanceof Error ? err.message : '撤销失败');
+                          } finally {
+                            setCompletingId(null);
+                          }
+                        }}
+                        disabled={completingId !== null || deletingId !== null}
+                        data-testid={status === 'SCHEDULED' ? 'session-revert-scheduled' : 'session-revert-cancelled'}
+                      >
+                        {status === 'SCHEDULED' ? '撤销完成' : '撤销并取消'}
+                      </button>
+                    ))
+                  : null}
+
+                <button
+                  className="btnSecondary"
+                  type="button"
+                  onClick={async () => {
+                    if (notesById[session.id]) {
+                      setNotesById(({ [session.id]: _removed, ...rest }) => rest);
+                      return;
+                    }
+                    setError(null);
+                    try {
+                      const notes = await apiFetchJson<SessionNotes>(`/admin/sessions/${session.id}/notes`);
+                      setNotesById((prev) => ({ ...prev, [session.id]: notes }));
+                    } catch (err) {
+                      setError(err instanceof Error ? err.message : '加载失败');
+                    }
+                  }}
+                  data-testid="session-notes-toggle"
+                >
+                  {notesById[session.id] ? '收起笔记' : '课堂笔记'}
+                </button>
+
                 <button
                   className="btnSecondary"
                   type="button"
@@ -888,6 +1293,35 @@ export default function SessionsPage() {
                 >
                   {deletingId === session.id ? '删除中…' : '删除'}
                 </button>
+
+                {session.seriesId ? (
+                  <button
+                    className="btnDanger"
+                    type="button"
+                    onClick={async () => {
+                      setError(null);
+                      setSuccess(null);
+                      if (!window.confirm('确认取消此节及以后的所有重复课程吗？')) return;
+                      setDeletingId(session.id);
+                      try {
+                        const params = new URLSearchParams({ scope: 'THIS_AND_FOLLOWING', sessionId: session.id });
+                        await apiFetchJson(`/admin/session-series/${session.seriesId}?${params.toString()}`, {
+                          method: 'DELETE',
+                        });
+                        await refreshSessions();
+                        setSuccess('已取消此节及以后的课程');
+                      } catch (err) {
+                        setError(err instanceof Error ? err.message : '删除失败');
+                      } finally {
+                        setDeletingId(null);
+                      }
+                    }}
+                    disabled={deletingId !== null || session.status !== 'SCHEDULED'}
+                    data-testid="session-series-delete"
+                  >
+                    删除此节及以后
+                  </button>
+                ) : null}
               </div>
             </div>
           ))}
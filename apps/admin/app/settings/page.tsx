@@ -0,0 +1,700 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { useApi } from '../_lib/api';
+import { useRequireAdmin } from '../_lib/auth';
+
+type SessionCharge = 'FULL' | 'HALF' | 'NONE';
+
+type CancellationPolicy = {
+  cutoffHours: number;
+  allowLateCancellation: boolean;
+  lateCancelCharge: SessionCharge;
+  lateCancelTeacherPaid: boolean;
+};
+
+type AttendancePolicy = {
+  confirmationGraceHours: number;
+  studentNoShowCharge: SessionCharge;
+  studentNoShowTeacherPaid: boolean;
+};
+
+type BalancePolicy = {
+  lowBalanceUnits: number;
+  blockScheduling: boolean;
+  overdraftLimitUnits: number;
+};
+
+type SecurityPolicy = {
+  requireAdminTwoFactor: boolean;
+};
+
+type AdminAccount = {
+  id: string;
+  email: string | null;
+  phone: string | null;
+  twoFactorEnabled: boolean;
+  isSelf: boolean;
+};
+
+type DocumentBranding = {
+  headerName: string | null;
+  contactLine: string | null;
+  accentColor: string;
+  footerNote: string | null;
+};
+
+type PayrollCadence = 'WEEKLY' | 'FORTNIGHTLY' | 'SEMI_MONTHLY' | 'MONTHLY';
+
+type PayrollSettings = {
+  timeZone: string;
+  weekStartDay: number;
+  cadence: PayrollCadence;
+  anchorDateLocal: string | null;
+};
+
+const CADENCE_OPTIONS: { value: PayrollCadence; label: string }[] = [
+  { value: 'WEEKLY', label: '每周' },
+  { value: 'FORTNIGHTLY', label: '每两周' },
+  { value: 'SEMI_MONTHLY', label: '每半月（1–15 日、16 日–月底）' },
+  { value: 'MONTHLY', label: '每月' },
+];
+
+const WEEKDAY_LABELS = ['周一', '周二', '周三', '周四', '周五', '周六', '周日'];
+
+const CHARGE_OPTIONS: { value: SessionCharge; label: string }[] = [
+  { value: 'FULL', label: '扣除全部课时' },
+  { value: 'HALF', label: '扣除一半课时（向上取整）' },
+  { value: 'NONE', label: '不扣课时' },
+];
+
+/** Whether admins must use 2FA, and a reset for admins who lost their authenticator app and recovery codes. */
+function SecurityCard() {
+  const { apiFetchJson } = useApi();
+
+  const [policy, setPolicy] = useState<SecurityPolicy | null>(null);
+  const [admins, setAdmins] = useState<AdminAccount[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const [policyData, adminData] = await Promise.all([
+      apiFetchJson<SecurityPolicy>('/admin/security-policy'),
+      apiFetchJson<AdminAccount[]>('/admin/admins'),
+    ]);
+    setPolicy(policyData);
+    setAdmins(adminData);
+  }, [apiFetchJson]);
+
+  useEffect(() => {
+    refresh().catch((err: unknown) => setError(err instanceof Error ? err.message : '加载失败'));
+  }, [refresh]);
+
+  return (
+    <form
+      className="card stack"
+      onSubmit={async (event) => {
+        event.preventDefault();
+        if (!policy) return;
+        setError(null);
+        setSuccess(null);
+        setBusy(true);
+        try {
+          const saved = await apiFetchJson<SecurityPolicy>('/admin/security-policy', {
+            method: 'PUT',
+            headers: { 'content-type': 'application/json' },
+            body: JSON.stringify(policy),
+          });
+          setPolicy(saved);
+          setSuccess('已保存');
+        } catch (err) {
+          setError(err instanceof Error ? err.message : '保存失败');
+        } finally {
+          setBusy(false);
+        }
+      }}
+    >
+      <strong>账号安全</strong>
+
+      {policy === null || admins === null ? (
+        <div className="muted">加载中…</div>
+      ) : (
+        <>
+          <label className="row" style={{ gap: 8 }}>
+            <input
+              type="checkbox"
+              data-testid="security-require-admin-2fa"
+              checked={policy.requireAdminTwoFactor}
+              onChange={(e) => setPolicy({ ...policy, requireAdminTwoFactor: e.target.checked })}
+            />
+            <span>要求管理员启用两步验证</span>
+          </label>
+          <div className="muted" style={{ fontSize: 12 }}>
+            开启后，尚未启用两步验证的管理员下次登录时需先完成设置；已登录的设备不受影响。
+          </div>
+
+          <div className="row">
+            <button className="btn" type="submit" disabled={busy} data-testid="security-policy-submit">
+              {busy ? '保存中…' : '保存'}
+            </button>
+          </div>
+
+          <div className="list" data-testid="admin-list">
+            {admins.map((admin) => (
+              <div key={admin.id} className="listItem">
+                <div className="listItemMain">
+                  <span className="listItemTitle">
+                    {admin.email ?? admin.phone ?? admin.id}
+                    {admin.isSelf ? <span className="muted">（我）</span> : null}
+                  </span>
+                  <div className="listItemMeta">
+                    <span className={admin.twoFactorEnabled ? 'statusBadge' : 'statusBadge statusBadgeWarning'}>
+                      {admin.twoFactorEnabled ? '两步验证已启用' : '未启用两步验证'}
+                    </span>
+                  </div>
+                </div>
+
+                {admin.twoFactorEnabled && !admin.isSelf ? (
+                  <button
+                    className="btnDanger btnSm"
+                    type="button"
+                    disabled={busy}
+                    onClick={async () => {
+                      if (!window.confirm('确认重置该管理员的两步验证吗？对方会在所有设备上退出登录。')) return;
+                      setError(null);
+                      setSuccess(null);
+                      setBusy(true);
+                      try {
+                        await apiFetchJson(`/admin/users/${admin.id}/2fa/reset`, { method: 'POST' });
+                        await refresh();
+                        setSuccess('已重置两步验证');
+                      } catch (err) {
+                        setError(err instanceof Error ? err.message : '操作失败');
+                      } finally {
+                        setBusy(false);
+                      }
+                    }}
+                  >
+                    重置两步验证
+                  </button>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {error ? <div className="error">{error}</div> : null}
+      {success ? <div className="success">{success}</div> : null}
+    </form>
+  );
+}
+
+export default function SettingsPage() {
+  const { hydrated, accessToken } = useRequireAdmin();
+  const { apiFetchJson } = useApi();
+
+  const [policy, setPolicy] = useState<CancellationPolicy | null>(null);
+  const [cutoffHours, setCutoffHours] = useState('24');
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [attendancePolicy, setAttendancePolicy] = useState<AttendancePolicy | null>(null);
+  const [graceHours, setGraceHours] = useState('12');
+  const [savingAttendance, setSavingAttendance] = useState(false);
+
+  const [balancePolicy, setBalancePolicy] = useState<BalancePolicy | null>(null);
+  const [lowBalanceUnits, setLowBalanceUnits] = useState('2');
+  const [overdraftLimitUnits, setOverdraftLimitUnits] = useState('0');
+  const [savingBalance, setSavingBalance] = useState(false);
+
+  const [branding, setBranding] = useState<DocumentBranding | null>(null);
+  const [savingBranding, setSavingBranding] = useState(false);
+
+  const [payrollSettings, setPayrollSettings] = useState<PayrollSettings | null>(null);
+  const [savingPayroll, setSavingPayroll] = useState(false);
+
+  useEffect(() => {
+    if (!hydrated || !accessToken) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        setError(null);
+        const [data, attendance, balance, brandingData, payrollData] = await Promise.all([
+          apiFetchJson<CancellationPolicy>('/admin/cancellation-policy'),
+          apiFetchJson<AttendancePolicy>('/admin/attendance-policy'),
+          apiFetchJson<BalancePolicy>('/admin/balance-policy'),
+          apiFetchJson<DocumentBranding>('/admin/document-branding'),
+          apiFetchJson<PayrollSettings>('/admin/payroll-settings'),
+        ]);
+        if (cancelled) return;
+        setPolicy(data);
+        setCutoffHours(String(data.cutoffHours));
+        setAttendancePolicy(attendance);
+        setGraceHours(String(attendance.confirmationGraceHours));
+        setBalancePolicy(balance);
+        setLowBalanceUnits(String(balance.lowBalanceUnits));
+        setOverdraftLimitUnits(String(balance.overdraftLimitUnits));
+        setBranding(brandingData);
+        setPayrollSettings(payrollData);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : '加载失败');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken, apiFetchJson, hydrated]);
+
+  return (
+    <main className="stack">
+      <h1 style={{ margin: 0 }}>机构设置</h1>
+
+      {error ? <div className="error">{error}</div> : null}
+      {success ? <div className="success">{success}</div> : null}
+
+      {policy === null ||
+      attendancePolicy === null ||
+      balancePolicy === null ||
+      branding === null ||
+      payrollSettings === null ? (
+        <div className="card muted">加载中…</div>
+      ) : (
+        <>
+          <form
+            className="card stack"
+            onSubmit={async (event) => {
+              event.preventDefault();
+              setError(null);
+              setSuccess(null);
+
+              const hours = Number(cutoffHours);
+              if (!Number.isInteger(hours) || hours < 0 || hours > 168) {
+                setError('取消截止时间必须为 0–168 之间的整数小时');
+                return;
+              }
+
+              setSubmitting(true);
+              try {
+                const saved = await apiFetchJson<CancellationPolicy>('/admin/cancellation-policy', {
+                  method: 'PUT',
+                  headers: { 'content-type': 'application/json' },
+                  body: JSON.stringify({ ...policy, cutoffHours: hours }),
+                });
+                setPolicy(saved);
+                setCutoffHours(String(saved.cutoffHours));
+                setSuccess('已保存');
+              } catch (err) {
+                setError(err instanceof Error ? err.message : '保存失败');
+              } finally {
+                setSubmitting(false);
+              }
+            }}
+          >
+            <strong>取消规则</strong>
+            <div className="muted" style={{ fontSize: 12 }}>
+              学生需在开课前截止时间之前申请取消/改期；老师申请不受此规则影响。
+            </div>
+
+            <label className="field">
+              <span className="muted">截止时间（开课前小时数）</span>
+              <input
+                data-testid="policy-cutoff-hours"
+                type="number"
+                min={0}
+                max={168}
+                value={cutoffHours}
+                onChange={(e) => setCutoffHours(e.target.value)}
+              />
+            </label>
+
+            <label className="row" style={{ gap: 8 }}>
+              <input
+                type="checkbox"
+                data-testid="policy-allow-late"
+                checked={policy.allowLateCancellation}
+                onChange={(e) => setPolicy({ ...policy, allowLateCancellation: e.target.checked })}
+              />
+              <span>允许学生在截止时间后申请取消（迟取消）</span>
+            </label>
+
+            <label className="field">
+              <span className="muted">迟取消扣课时</span>
+              <select
+                data-testid="policy-late-charge"
+                value={policy.lateCancelCharge}
+                onChange={(e) => setPolicy({ ...policy, lateCancelCharge: e.target.value as SessionCharge })}
+              >
+                {CHARGE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="row" style={{ gap: 8 }}>
+              <input
+                type="checkbox"
+                data-testid="policy-teacher-paid"
+                checked={policy.lateCancelTeacherPaid}
+                onChange={(e) => setPolicy({ ...policy, lateCancelTeacherPaid: e.target.checked })}
+              />
+              <span>迟取消的课程仍计入老师工资</span>
+            </label>
+
+            <div className="row">
+              <button className="btn" type="submit" disabled={submitting} data-testid="policy-submit">
+                {submitting ? '保存中…' : '保存'}
+              </button>
+            </div>
+          </form>
+
+          <form
+            className="card stack"
+            onSubmit={async (event) => {
+              event.preventDefault();
+              setError(null);
+              setSuccess(null);
+
+              const hours = Number(graceHours);
+              if (!Number.isInteger(hours) || hours < 0 || hours > 168) {
+                setError('出勤确认期限必须为 0–168 之间的整数小时');
+                return;
+              }
+
+              setSavingAttendance(true);
+              try {
+                const saved = await apiFetchJson<AttendancePolicy>('/admin/attendance-policy', {
+                  method: 'PUT',
+                  headers: { 'content-type': 'application/json' },
+                  body: JSON.stringify({ ...attendancePolicy, confirmationGraceHours: hours }),
+                });
+                setAttendancePolicy(saved);
+                setGraceHours(String(saved.confirmationGraceHours));
+                setSuccess('已保存');
+              } catch (err) {
+                setError(err instanceof Error ? err.message : '保存失败');
+              } finally {
+                setSavingAttendance(false);
+              }
+            }}
+          >
+            <strong>出勤规则</strong>
+            <div className="muted" style={{ fontSize: 12 }}>
+              课程结束后进入“待确认”状态，老师可在确认期限内记录出勤；逾期未记录按正常上课扣课时。老师缺席不扣课时、不计工资。
+            </div>
+
+            <label className="field">
+              <span className="muted">出勤确认期限（课程结束后小时数）</span>
+              <input
+                data-testid="attendance-grace-hours"
+                type="number"
+                min={0}
+                max={168}
+                value={graceHours}
+                onChange={(e) => setGraceHours(e.target.value)}
+              />
+            </label>
+
+            <label className="field">
+              <span className="muted">学生缺席扣课时</span>
+              <select
+                data-testid="attendance-no-show-charge"
+                value={attendancePolicy.studentNoShowCharge}
+                onChange={(e) =>
+                  setAttendancePolicy({ ...attendancePolicy, studentNoShowCharge: e.target.value as SessionCharge })
+                }
+              >
+                {CHARGE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="row" style={{ gap: 8 }}>
+              <input
+                type="checkbox"
+                data-testid="attendance-no-show-teacher-paid"
+                checked={attendancePolicy.studentNoShowTeacherPaid}
+                onChange={(e) =>
+                  setAttendancePolicy({ ...attendancePolicy, studentNoShowTeacherPaid: e.target.checked })
+                }
+              />
+              <span>学生缺席的课程仍计入老师工资</span>
+            </label>
+
+            <div className="row">
+              <button className="btn" type="submit" disabled={savingAttendance} data-testid="attendance-policy-submit">
+                {savingAttendance ? '保存中…' : '保存'}
+              </button>
+            </div>
+          </form>
+
+          <form
+            className="card stack"
+            onSubmit={async (event) => {
+              event.preventDefault();
+              setError(null);
+              setSuccess(null);
+
+              const low = Number(lowBalanceUnits);
+              const overdraft = Number(overdraftLimitUnits);
+              if (!Number.isInteger(low) || low < 0 || low > 1000) {
+                setError('余额提醒阈值必须为 0–1000 之间的整数课时');
+                return;
+              }
+              if (!Number.isInteger(overdraft) || overdraft < 0 || overdraft > 1000) {
+                setError('透支上限必须为 0–1000 之间的整数课时');
+                return;
+              }
+
+              setSavingBalance(true);
+              try {
+                const saved = await apiFetchJson<BalancePolicy>('/admin/balance-policy', {
+                  method: 'PUT',
+                  headers: { 'content-type': 'application/json' },
+                  body: JSON.stringify({ ...balancePolicy, lowBalanceUnits: low, overdraftLimitUnits: overdraft }),
+                });
+                setBalancePolicy(saved);
+                setLowBalanceUnits(String(saved.lowBalanceUnits));
+                setOverdraftLimitUnits(String(saved.overdraftLimitUnits));
+                setSuccess('已保存');
+              } catch (err) {
+                setError(err instanceof Error ? err.message : '保存失败');
+              } finally {
+                setSavingBalance(false);
+              }
+            }}
+          >
+            <strong>课时余额</strong>
+            <div className="muted" style={{ fontSize: 12 }}>
+              仅适用于预付课时的学生。可用课时 = 剩余课时 − 已排未上课程的课时；低于提醒阈值时在学生列表和学生端提示。
+            </div>
+
+            <label className="field">
+              <span className="muted">余额提醒阈值（可用课时不超过此数时提醒）</span>
+              <input
+                data-testid="balance-low-units"
+                type="number"
+                min={0}
+                max={1000}
+                value={lowBalanceUnits}
+                onChange={(e) => setLowBalanceUnits(e.target.value)}
+              />
+            </label>
+
+            <label className="row" style={{ gap: 8 }}>
+              <input
+                type="checkbox"
+                data-testid="balance-block-scheduling"
+                checked={balancePolicy.blockScheduling}
+                onChange={(e) => setBalancePolicy({ ...balancePolicy, blockScheduling: e.target.checked })}
+              />
+              <span>课时不足时禁止排课</span>
+            </label>
+
+            <label className="field">
+              <span className="muted">允许透支上限（课时，0 表示用完即停）</span>
+              <input
+                data-testid="balance-overdraft-limit"
+                type="number"
+                min={0}
+                max={1000}
+                disabled={!balancePolicy.blockScheduling}
+                value={overdraftLimitUnits}
+                onChange={(e) => setOverdraftLimitUnits(e.target.value)}
+              />
+            </label>
+
+            <div className="row">
+              <button className="btn" type="submit" disabled={savingBalance} data-testid="balance-policy-submit">
+                {savingBalance ? '保存中…' : '保存'}
+              </button>
+            </div>
+          </form>
+
+          <form
+            className="card stack"
+            onSubmit={async (event) => {
+              event.preventDefault();
+              setError(null);
+              setSuccess(null);
+
+              if (!/^#[0-9A-Fa-f]{6}$/.test(branding.accentColor)) {
+                setError('主题色格式应为 #RRGGBB');
+                return;
+              }
+
+              setSavingBranding(true);
+              try {
+                const saved = await apiFetchJson<DocumentBranding>('/admin/document-branding', {
+                  method: 'PUT',
+                  headers: { 'content-type': 'application/json' },
+                  body: JSON.stringify(branding),
+                });
+                setBranding(saved);
+                setSuccess('已保存');
+              } catch (err) {
+                setError(err instanceof Error ? err.message : '保存失败');
+              } finally {
+                setSavingBranding(false);
+              }
+            }}
+          >
+            <strong>单据抬头</strong>
+            <div className="muted" style={{ fontSize: 12 }}>
+              用于老师工资单与学生对账单 PDF。抬头名称留空时使用机构名称。
+            </div>
+
+            <label className="field">
+              <span className="muted">抬头名称</span>
+              <input
+                data-testid="branding-header-name"
+                maxLength={80}
+                value={branding.headerName ?? ''}
+                onChange={(e) => setBranding({ ...branding, headerName: e.target.value })}
+              />
+            </label>
+
+            <label className="field">
+              <span className="muted">联系方式（地址、电话、邮箱等）</span>
+              <input
+                data-testid="branding-contact-line"
+                maxLength={160}
+                value={branding.contactLine ?? ''}
+                onChange={(e) => setBranding({ ...branding, contactLine: e.target.value })}
+              />
+            </label>
+
+            <label className="field" style={{ maxWidth: 200 }}>
+              <span className="muted">主题色</span>
+              <input
+                data-testid="branding-accent-color"
+                type="color"
+                value={branding.accentColor}
+                onChange={(e) => setBranding({ ...branding, accentColor: e.target.value.toUpperCase() })}
+              />
+            </label>
+
+            <label className="field">
+              <span className="muted">页脚备注</span>
+              <input
+                data-testid="branding-footer-note"
+                maxLength={200}
+                value={branding.footerNote ?? ''}
+                onChange={(e) => setBranding({ ...branding, footerNote: e.target.value })}
+              />
+            </label>
+
+            <div className="row">
+              <button className="btn" type="submit" disabled={savingBranding} data-testid="branding-submit">
+                {savingBranding ? '保存中…' : '保存'}
+              </button>
+            </div>
+          </form>
+
+          <form
+            className="card stack"
+            onSubmit={async (event) => {
+              event.preventDefault();
+              setError(null);
+              setSuccess(null);
+
+              setSavingPayroll(true);
+              try {
+                const saved = await apiFetchJson<PayrollSettings>('/admin/payroll-settings', {
+                  method: 'PUT',
+                  headers: { 'content-type': 'application/json' },
+                  body: JSON.stringify({
+                    ...payrollSettings,
+                    anchorDateLocal: payrollSettings.cadence === 'FORTNIGHTLY' ? payrollSettings.anchorDateLocal : null,
+                  }),
+                });
+                setPayrollSettings(saved);
+                setSuccess('已保存');
+              } catch (err) {
+                setError(err instanceof Error ? err.message : '保存失败');
+              } finally {
+                setSavingPayroll(false);
+              }
+            }}
+          >
+            <strong>工资周期</strong>
+            <div className="muted" style={{ fontSize: 12 }}>
+              决定老师工资的统计区间与关账周期。修改后新的周期不能与已关账的周期重叠。
+            </div>
+
+            <label className="field">
+              <span className="muted">时区（IANA，如 Australia/Sydney）</span>
+              <input
+                data-testid="payroll-time-zone"
+                value={payrollSettings.timeZone}
+                onChange={(e) => setPayrollSettings({ ...payrollSettings, timeZone: e.target.value })}
+              />
+            </label>
+
+            <label className="field">
+              <span className="muted">结算周期</span>
+              <select
+                data-testid="payroll-cadence"
+                value={payrollSettings.cadence}
+                onChange={(e) => setPayrollSettings({ ...payrollSettings, cadence: e.target.value as PayrollCadence })}
+              >
+                {CADENCE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {payrollSettings.cadence === 'WEEKLY' || payrollSettings.cadence === 'FORTNIGHTLY' ? (
+              <label className="field">
+                <span className="muted">每周起始日</span>
+                <select
+                  data-testid="payroll-week-start-day"
+                  value={payrollSettings.weekStartDay}
+                  onChange={(e) => setPayrollSettings({ ...payrollSettings, weekStartDay: Number(e.target.value) })}
+                >
+                  {WEEKDAY_LABELS.map((label, index) => (
+                    <option key={label} value={index + 1}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
+
+            {payrollSettings.cadence === 'FORTNIGHTLY' ? (
+              <label className="field">
+                <span className="muted">任一周期的起始日（留空则按默认对齐）</span>
+                <input
+                  data-testid="payroll-anchor-date"
+                  type="date"
+                  value={payrollSettings.anchorDateLocal ?? ''}
+                  onChange={(e) => setPayrollSettings({ ...payrollSettings, anchorDateLocal: e.target.value || null })}
+                />
+              </label>
+            ) : null}
+
+            <div className="row">
+              <button className="btn" type="submit" disabled={savingPayroll} data-testid="payroll-settings-submit">
+                {savingPayroll ? '保存中…' : '保存'}
+              </button>
+            </div>
+          </form>
+        </>
+      )}
+
+      <SecurityCard />
+    </main>
+  );
+}
@@ -3,8 +3,10 @@
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 
+import PhoneField from '../../_components/phone-field';
 import { useApi } from '../../_lib/api';
 import { useRequireAdmin } from '../../_lib/auth';
+import { formatCurrencyFromCents, parseAmountToCents, type Currency } from '../../_lib/money';
 
 type TeacherOption = {
   id: string;
@@ -20,14 +22,59 @@ function reasonLabel(reason: string): string {
   if (reason === 'PURCHASE') return '购买';
   if (reason === 'ADJUSTMENT') return '手动调整';
   if (reason === 'SESSION_CONSUME') return '上课消耗';
+  if (reason === 'LATE_CANCEL') return '迟取消扣课';
+  if (reason === 'NO_SHOW') return '缺席扣课';
+  if (reason === 'EXPIRY') return '课时包过期';
+  if (reason === 'TRANSFER') return '课时转移';
+  if (reason === 'REVERSAL') return '冲正';
   return reason;
 }
 
+type HourTransferSide = {
+  studentId: string | null;
+  studentName: string | null;
+  teacherId: string | null;
+  teacherName: string | null;
+};
+
+type HourTransfer = {
+  id: string;
+  units: number;
+  note: string | null;
+  createdAt: string;
+  from: HourTransferSide;
+  to: HourTransferSide;
+};
+
+function bucketLabel(side: HourTransferSide): string {
+  return side.teacherName ?? side.teacherId ?? '通用';
+}
+
+/** How a transfer reads from this student's ledger: teacher buckets for internal moves, otherwise the other student. */
+function transferLabel(transfer: HourTransfer, studentId: string): string {
+  if (transfer.from.studentId === transfer.to.studentId) {
+    return `${bucketLabel(transfer.from)} → ${bucketLabel(transfer.to)}（${transfer.units} 课时）`;
+  }
+  if (transfer.from.studentId === studentId) {
+    return `转给 ${transfer.to.studentName ?? transfer.to.studentId ?? '—'}（${bucketLabel(transfer.to)}）`;
+  }
+  return `来自 ${transfer.from.studentName ?? transfer.from.studentId ?? '—'}（${bucketLabel(transfer.from)}）`;
+}
+
+type BillingMode = 'PER_SESSION' | 'PREPAID';
+
+const BILLING_MODE_LABELS: Record<BillingMode, string> = {
+  PER_SESSION: '按课结算（已完成课程出账）',
+  PREPAID: '预付课时（购买时出账）',
+};
+
 type StudentDetail = {
   id: string;
   email: string | null;
+  phone: string | null;
   displayName: string | null;
   timeZone: string | null;
+  billingMode: BillingMode | null;
   createdAt: string;
   remainingUnits: number;
   hoursByTeacher: {
@@ -35,21 +82,628 @@ type StudentDetail = {
     unassignedUnits: number;
     byTeacher: { teacherId: string; teacherName: string | null; remainingUnits: number }[];
   };
-  ledgerEntries: {
-    id: string;
-    deltaUnits: number;
-    reason: string;
-    sessionId: string | null;
-    teacherId: string | null;
-    teacherName: string | null;
-    createdAt: string;
-  }[];
 };
 
+type LedgerItem = {
+  id: string;
+  deltaUnits: number;
+  reason: string;
+  sessionId: string | null;
+  teacherId: string | null;
+  teacherName: string | null;
+  amountCents: number | null;
+  currency: Currency | null;
+  transfer: HourTransfer | null;
+  reversesEntryId: string | null;
+  reversedByEntryId: string | null;
+  balanceUnits: number;
+  createdAt: string;
+};
+
+type LedgerPage = {
+  items: LedgerItem[];
+  page: number;
+  pageSize: number;
+  total: number;
+};
+
+const LEDGER_PAGE_SIZE = 20;
+
+const LEDGER_REASONS = [
+  'PURCHASE',
+  'ADJUSTMENT',
+  'SESSION_CONSUME',
+  'LATE_CANCEL',
+  'NO_SHOW',
+  'EXPIRY',
+  'TRANSFER',
+  'REVERSAL',
+] as const;
+
+type StudentOption = {
+  id: string;
+  email: string | null;
+  displayName: string | null;
+};
+
+type HourPackage = {
+  id: string;
+  name: string;
+  units: number;
+  priceCents: number;
+  currency: Currency;
+  active: boolean;
+};
+
+type HourLotStatus = 'ACTIVE' | 'USED_UP' | 'EXPIRED';
+
+type HourLot = {
+  id: string;
+  packageName: string | null;
+  teacherId: string | null;
+  teacherName: string | null;
+  subject: string | null;
+  units: number;
+  remainingUnits: number;
+  priceCents: number;
+  currency: Currency;
+  purchasedAt: string;
+  expiresAt: string | null;
+  status: HourLotStatus;
+};
+
+const LOT_STATUS_LABELS: Record<HourLotStatus, string> = {
+  ACTIVE: '使用中',
+  USED_UP: '已用完',
+  EXPIRED: '已过期',
+};
+
+/** Sells catalog packages to the student and lists the lots they hold, in the order sessions draw from them. */
+function HourPackagesCard({
+  studentId,
+  teachers,
+  onSold,
+}: {
+  studentId: string;
+  teachers: TeacherOption[] | null;
+  onSold: (message: string) => Promise<void>;
+}) {
+  const { apiFetchJson } = useApi();
+
+  const [packages, setPackages] = useState<HourPackage[] | null>(null);
+  const [lots, setLots] = useState<HourLot[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selling, setSelling] = useState(false);
+
+  const [packageId, setPackageId] = useState('');
+  const [teacherId, setTeacherId] = useState('');
+  const [price, setPrice] = useState('');
+
+  const loadLots = async () => {
+    const res = await apiFetchJson<{ lots: HourLot[] }>(`/admin/students/${studentId}/packages`);
+    setLots(res.lots);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const [catalog, owned] = await Promise.all([
+          apiFetchJson<HourPackage[]>('/admin/packages'),
+          apiFetchJson<{ lots: HourLot[] }>(`/admin/students/${studentId}/packages`),
+        ]);
+        if (cancelled) return;
+        setPackages(catalog.filter((item) => item.active));
+        setLots(owned.lots);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : '加载失败');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiFetchJson, studentId]);
+
+  const selectedPackage = packages?.find((item) => item.id === packageId) ?? null;
+
+  return (
+    <div className="card stack" data-testid="student-hour-packages">
+      <div className="row" style={{ justifyContent: 'space-between', flexWrap: 'wrap', gap: 10 }}>
+        <strong>课时包</strong>
+        <span className="muted" style={{ fontSize: 12 }}>
+          上课按购买先后从仍在有效期内、老师和科目匹配的课时包中扣除
+        </span>
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+
+      <form
+        className="row"
+        style={{ flexWrap: 'wrap', alignItems: 'flex-end' }}
+        onSubmit={async (event) => {
+          event.preventDefault();
+          if (!selectedPackage) return;
+          setError(null);
+
+          const priceCents = price.trim() ? parseAmountToCents(price) : null;
+          if (price.trim() && priceCents === null) {
+            setError('请输入有效的金额（最多两位小数）');
+            return;
+          }
+
+          setSelling(true);
+          try {
+            await apiFetchJson(`/admin/students/${studentId}/packages`, {
+              method: 'POST',
+              headers: { 'content-type': 'application/json' },
+              body: JSON.stringify({
+                packageId: selectedPackage.id,
+                ...(teacherId ? { teacherId } : {}),
+                ...(priceCents !== null ? { priceCents } : {}),
+              }),
+            });
+            setPrice('');
+            await loadLots();
+            await onSold(`已售出「${selectedPackage.name}」`);
+          } catch (err) {
+            setError(err instanceof Error ? err.message : '提交失败');
+          } finally {
+            setSelling(false);
+          }
+        }}
+      >
+        <label className="field" style={{ minWidth: 220 }}>
+          <span className="muted">课时包</span>
+          <select
+            data-testid="sell-package-select"
+            value={packageId}
+            onChange={(e) => setPackageId(e.target.value)}
+            disabled={packages === null}
+          >
+            <option value="">请选择</option>
+            {(packages ?? []).map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name}（{item.units} 课时 · {formatCurrencyFromCents(item.priceCents, item.currency)}）
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="field" style={{ minWidth: 160 }}>
+          <span className="muted">实收金额（可选）</span>
+          <input
+            inputMode="decimal"
+            placeholder={selectedPackage ? (selectedPackage.priceCents / 100).toFixed(2) : '默认按标价'}
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+          />
+        </label>
+
+        <label className="field" style={{ minWidth: 240 }}>
+          <span className="muted">限定老师（可选）</span>
+          <select value={teacherId} onChange={(e) => setTeacherId(e.target.value)} disabled={teachers === null}>
+            <option value="">不限老师</option>
+            {(teachers ?? []).map((teacher) => (
+              <option key={teacher.id} value={teacher.id}>
+                {teacher.displayName ?? '—'} ({teacher.email ?? 'no-email'})
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <button className="btn" type="submit" disabled={selling || !selectedPackage} data-testid="sell-package-submit">
+          {selling ? '提交中…' : '售出'}
+        </button>
+      </form>
+
+      {lots === null ? (
+        <div className="muted">加载中…</div>
+      ) : lots.length === 0 ? (
+        <div className="muted">暂无课时包</div>
+      ) : (
+        <div className="stack" style={{ gap: 6 }} data-testid="student-hour-lots">
+          {lots.map((lot) => (
+            <div
+              key={lot.id}
+              className="row"
+              style={{ justifyContent: 'space-between', borderTop: '1px solid #f3f4f6', paddingTop: 6, fontSize: 13 }}
+            >
+              <span>
+                <strong>{lot.packageName ?? '课时包'}</strong>
+                <span className="muted">
+                  {' '}
+                  · {formatDateTime(lot.purchasedAt).slice(0, 10)} 购买 ·{' '}
+                  {formatCurrencyFromCents(lot.priceCents, lot.currency)}
+                  {lot.teacherId ? ` · 限 ${lot.teacherName ?? lot.teacherId}` : ''}
+                  {lot.subject ? ` · 限 ${lot.subject}` : ''}
+                  {lot.expiresAt ? ` · ${formatDateTime(lot.expiresAt).slice(0, 10)} 到期` : ' · 长期有效'}
+                </span>
+              </span>
+              <span style={{ fontVariantNumeric: 'tabular-nums' }}>
+                {lot.remainingUnits}/{lot.units} 课时 · {LOT_STATUS_LABELS[lot.status]}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Moves units out of one of the student's buckets in a single step, either to another teacher's bucket or to another
+ * student such as a sibling.
+ */
+function HourTransferCard({
+  student,
+  teachers,
+  onTransferred,
+}: {
+  student: StudentDetail;
+  teachers: TeacherOption[] | null;
+  onTransferred: (message: string) => Promise<void>;
+}) {
+  const { apiFetchJson } = useApi();
+
+  const [students, setStudents] = useState<StudentOption[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [fromTeacherId, setFromTeacherId] = useState('');
+  const [toStudentId, setToStudentId] = useState('');
+  const [toTeacherId, setToTeacherId] = useState('');
+  const [units, setUnits] = useState(1);
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiFetchJson<StudentOption[]>('/admin/students')
+      .then((data) => {
+        if (!cancelled) setStudents(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : '加载失败');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiFetchJson]);
+
+  const sourceUnits = fromTeacherId
+    ? student.hoursByTeacher.byTeacher.find((item) => item.teacherId === fromTeacherId)?.remainingUnits ?? 0
+    : student.hoursByTeacher.unassignedUnits;
+  const sameBucket = (!toStudentId || toStudentId === student.id) && fromTeacherId === toTeacherId;
+
+  return (
+    <div className="card stack" data-testid="student-hour-transfer">
+      <div className="row" style={{ justifyContent: 'space-between', flexWrap: 'wrap', gap: 10 }}>
+        <strong>课时转移</strong>
+        <span className="muted" style={{ fontSize: 12 }}>
+          转出与转入同时记账，流水中显示为一条转移记录
+        </span>
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+
+      <form
+        className="row"
+        style={{ flexWrap: 'wrap', alignItems: 'flex-end' }}
+        onSubmit={async (event) => {
+          event.preventDefault();
+          setError(null);
+
+          if (!Number.isInteger(units) || units <= 0) {
+            setError('课时数量必须为正整数');
+            return;
+          }
+          if (units > sourceUnits) {
+            setError(`转出课时不足（当前 ${sourceUnits} 课时）`);
+            return;
+          }
+
+          setSaving(true);
+          try {
+            await apiFetchJson(`/admin/students/${student.id}/hours/transfers`, {
+              method: 'POST',
+              headers: { 'content-type': 'application/json' },
+              body: JSON.stringify({
+                fromTeacherId: fromTeacherId || null,
+                ...(toStudentId ? { toStudentId } : {}),
+                toTeacherId: toTeacherId || null,
+                units,
+                ...(note.trim() ? { note: note.trim() } : {}),
+              }),
+            });
+            setNote('');
+            await onTransferred(`已转移 ${units} 课时`);
+          } catch (err) {
+            setError(err instanceof Error ? err.message : '提交失败');
+          } finally {
+            setSaving(false);
+          }
+        }}
+      >
+        <label className="field" style={{ minWidth: 220 }}>
+          <span className="muted">转出</span>
+          <select
+            data-testid="transfer-from-teacher"
+            value={fromTeacherId}
+            onChange={(e) => setFromTeacherId(e.target.value)}
+          >
+            <option value="">通用（{student.hoursByTeacher.unassignedUnits} 课时）</option>
+            {student.hoursByTeacher.byTeacher.map((item) => (
+              <option key={item.teacherId} value={item.teacherId}>
+                {item.teacherName ?? item.teacherId}（{item.remainingUnits} 课时）
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="field" style={{ minWidth: 200 }}>
+          <span className="muted">转入学生</span>
+          <select
+            data-testid="transfer-to-student"
+            value={toStudentId}
+            onChange={(e) => setToStudentId(e.target.value)}
+            disabled={students === null}
+          >
+            <option value="">本学生</option>
+            {(students ?? [])
+              .filter((item) => item.id !== student.id)
+              .map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.displayName ?? '—'} ({item.email ?? 'no-email'})
+                </option>
+              ))}
+          </select>
+        </label>
+
+        <label className="field" style={{ minWidth: 220 }}>
+          <span className="muted">转入归属</span>
+          <select
+            data-testid="transfer-to-teacher"
+            value={toTeacherId}
+            onChange={(e) => setToTeacherId(e.target.value)}
+            disabled={teachers === null}
+          >
+            <option value="">通用（不指定老师）</option>
+            {(teachers ?? []).map((teacher) => (
+              <option key={teacher.id} value={teacher.id}>
+                {teacher.displayName ?? '—'} ({teacher.email ?? 'no-email'})
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="field" style={{ maxWidth: 120 }}>
+          <span className="muted">课时</span>
+          <input
+            data-testid="transfer-units"
+            type="number"
+            min={1}
+            step={1}
+            value={units}
+            onChange={(e) => setUnits(Number(e.target.value))}
+          />
+        </label>
+
+        <label className="field" style={{ minWidth: 200 }}>
+          <span className="muted">备注（可选）</span>
+          <input value={note} onChange={(e) => setNote(e.target.value)} placeholder="例如 更换老师" />
+        </label>
+
+        <button className="btn" type="submit" disabled={saving || sameBucket} data-testid="transfer-submit">
+          {saving ? '提交中…' : '转移'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+/** Full ledger history, a page at a time, with the balance after each row. */
+function StudentLedgerCard({ student, version }: { student: StudentDetail; version: number }) {
+  const { apiFetchJson } = useApi();
+
+  const [ledger, setLedger] = useState<LedgerPage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [teacherFilter, setTeacherFilter] = useState<'ALL' | 'UNASSIGNED' | string>('ALL');
+  const [reasonFilter, setReasonFilter] = useState<'ALL' | (typeof LEDGER_REASONS)[number]>('ALL');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const query = new URLSearchParams({ page: String(page), pageSize: String(LEDGER_PAGE_SIZE) });
+    if (teacherFilter !== 'ALL') query.set('teacherId', teacherFilter);
+    if (reasonFilter !== 'ALL') query.set('reason', reasonFilter);
+
+    apiFetchJson<LedgerPage>(`/admin/students/${student.id}/ledger?${query.toString()}`)
+      .then((data) => {
+        if (cancelled) return;
+        setLedger(data);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : '加载失败');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiFetchJson, page, reasonFilter, student.id, teacherFilter, version]);
+
+  const pageCount = ledger ? Math.max(1, Math.ceil(ledger.total / ledger.pageSize)) : 1;
+
+  return (
+    <div className="card stack" data-testid="student-ledger">
+      <div className="row" style={{ justifyContent: 'space-between', flexWrap: 'wrap', gap: 12 }}>
+        <strong>课时流水</strong>
+        <div className="row" style={{ flexWrap: 'wrap', gap: 12 }}>
+          <label className="field" style={{ minWidth: 200 }}>
+            <span className="muted">筛选类型</span>
+            <select
+              data-testid="student-ledger-reason-filter"
+              value={reasonFilter}
+              onChange={(e) => {
+                setReasonFilter(e.target.value as typeof reasonFilter);
+                setPage(1);
+              }}
+            >
+              <option value="ALL">全部</option>
+              {LEDGER_REASONS.map((reason) => (
+                <option key={reason} value={reason}>
+                  {reasonLabel(reason)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field" style={{ minWidth: 260 }}>
+            <span className="muted">筛选老师</span>
+            <select
+              data-testid="student-ledger-teacher-filter"
+              value={teacherFilter}
+              onChange={(e) => {
+                setTeacherFilter(e.target.value as typeof teacherFilter);
+                setPage(1);
+              }}
+            >
+              <option value="ALL">全部</option>
+              <option value="UNASSIGNED">通用（不指定老师）</option>
+              {student.hoursByTeacher.byTeacher.map((t) => (
+                <option key={t.teacherId} value={t.teacherId}>
+                  {t.teacherName ?? t.teacherId}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      <div className="muted" style={{ fontSize: 12 }}>
+        {teacherFilter === 'ALL' ? '余额为学生总课时。' : '余额为所选归属下的课时。'}
+        流水只增不改：撤销已完成的课程会写入一条冲正记录。
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+
+      {ledger === null ? (
+        <div className="muted">加载中…</div>
+      ) : ledger.items.length === 0 ? (
+        <div className="muted">暂无</div>
+      ) : (
+        <div className="stack" style={{ gap: 8 }}>
+          <div
+            style={{
+              display: 'grid',
+              gridTemplateColumns: '80px 1fr 80px auto',
+              gap: 10,
+              alignItems: 'center',
+            }}
+            className="muted"
+          >
+            <div style={{ fontSize: 12 }}>变动</div>
+            <div style={{ fontSize: 12 }}>说明</div>
+            <div style={{ fontSize: 12, textAlign: 'right' }}>余额</div>
+            <div style={{ fontSize: 12, textAlign: 'right' }}>时间</div>
+          </div>
+
+          {ledger.items.map((entry) => {
+            const deltaColor = entry.deltaUnits > 0 ? '#16a34a' : entry.deltaUnits < 0 ? '#ef4444' : '#6b7280';
+            const teacherLabel = entry.teacherName ?? (entry.teacherId ? entry.teacherId : '通用（不指定老师）');
+
+            return (
+              <div
+                key={entry.id}
+                data-testid="student-ledger-row"
+                style={{
+                  display: 'grid',
+                  gridTemplateColumns: '80px 1fr 80px auto',
+                  gap: 10,
+                  alignItems: 'center',
+                  borderTop: '1px solid #f3f4f6',
+                  paddingTop: 10,
+                }}
+              >
+                <div style={{ fontVariantNumeric: 'tabular-nums', fontWeight: 800, color: deltaColor }}>
+                  {entry.deltaUnits > 0 ? '+' : ''}
+                  {entry.deltaUnits}
+                </div>
+
+                <div className="stack" style={{ gap: 2 }}>
+                  <div style={{ fontWeight: 600 }}>
+                    {reasonLabel(entry.reason)} ·{' '}
+                    {entry.transfer ? transferLabel(entry.transfer, student.id) : teacherLabel}
+                    {entry.reversedByEntryId ? <span className="muted">（已冲正）</span> : null}
+                  </div>
+                  {entry.transfer?.note ? (
+                    <div className="muted" style={{ fontSize: 12 }}>
+                      备注：{entry.transfer.note}
+                    </div>
+                  ) : null}
+                  {entry.sessionId ? (
+                    <div className="muted" style={{ fontSize: 12 }}>
+                      关联课程：{entry.sessionId}
+                    </div>
+                  ) : null}
+                  {entry.reversesEntryId ? (
+                    <div className="muted" style={{ fontSize: 12 }}>
+                      冲正流水：{entry.reversesEntryId}
+                    </div>
+                  ) : null}
+                  {entry.amountCents !== null && entry.currency ? (
+                    <div className="muted" style={{ fontSize: 12 }}>
+                      金额：{formatCurrencyFromCents(entry.amountCents, entry.currency)}
+                    </div>
+                  ) : null}
+                </div>
+
+                <div style={{ fontVariantNumeric: 'tabular-nums', textAlign: 'right' }}>{entry.balanceUnits}</div>
+
+                <div className="muted" style={{ fontSize: 12, textAlign: 'right' }}>
+                  {formatDateTime(entry.createdAt)}
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="row" style={{ justifyContent: 'space-between', alignItems: 'center' }}>
+            <span className="muted" style={{ fontSize: 12 }}>
+              共 {ledger.total} 条 · 第 {ledger.page}/{pageCount} 页
+            </span>
+            <div className="row" style={{ gap: 8 }}>
+              <button
+                className="btnSecondary btnSm"
+                type="button"
+                disabled={page <= 1}
+                onClick={() => setPage((current) => current - 1)}
+              >
+                上一页
+              </button>
+              <button
+                className="btnSecondary btnSm"
+                type="button"
+                disabled={page >= pageCount}
+                onClick={() => setPage((current) => current + 1)}
+                data-testid="student-ledger-next"
+              >
+                下一页
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function StudentDetailPage({ params }: { params: { id: string } }) {
   const router = useRouter();
   const { hydrated, accessToken } = useRequireAdmin();
-  const { apiFetchJson } = useApi();
+  const { apiFetchJson, apiDownload } = useApi();
 
   const [student, setStudent] = useState<StudentDetail | null>(null);
   const [teachers, setTeachers] = useState<TeacherOption[] | null>(null);
@@ -57,17 +711,25 @@ export default function StudentDetailPage({ params }: { params: { id: string } }
   const [loading, setLoading] = useState(false);
   const [success, setSuccess] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [revokingSessions, setRevokingSessions] = useState(false);
 
   const [hoursAction, setHoursAction] = useState<'ADD' | 'DEDUCT'>('ADD');
   const [deltaUnits, setDeltaUnits] = useState(5);
   const [reason, setReason] = useState<'PURCHASE' | 'ADJUSTMENT'>('PURCHASE');
   const [teacherId, setTeacherId] = useState<string>('');
+  const [purchasePrice, setPurchasePrice] = useState('');
+  const [purchaseCurrency, setPurchaseCurrency] = useState<Currency>('AUD');
+  const [savingBillingMode, setSavingBillingMode] = useState(false);
+  const [statementTo, setStatementTo] = useState(() => new Date().toISOString().slice(0, 10));
+  const [statementFrom, setStatementFrom] = useState(() => `${new Date().toISOString().slice(0, 7)}-01`);
+  const [downloadingStatement, setDownloadingStatement] = useState(false);
 
-  const [ledgerTeacherFilter, setLedgerTeacherFilter] = useState<'ALL' | 'UNASSIGNED' | string>('ALL');
+  const [ledgerVersion, setLedgerVersion] = useState(0);
 
   const refresh = async () => {
     const data = await apiFetchJson<StudentDetail>(`/admin/students/${params.id}`);
     setStudent(data);
+    setLedgerVersion((version) => version + 1);
   };
 
   useEffect(() => {
@@ -106,13 +768,6 @@ export default function StudentDetailPage({ params }: { params: { id: string } }
     (student?.hoursByTeacher.byTeacher ?? []).reduce((acc, item) => acc + item.remainingUnits, 0),
   );
 
-  const filteredLedgerEntries =
-    student?.ledgerEntries.filter((entry) => {
-      if (ledgerTeacherFilter === 'ALL') return true;
-      if (ledgerTeacherFilter === 'UNASSIGNED') return entry.teacherId === null;
-      return entry.teacherId === ledgerTeacherFilter;
-    }) ?? [];
-
   const hoursActionLabel = hoursAction === 'DEDUCT' ? '扣除' : '增加';
   const signedDeltaUnits = hoursAction === 'DEDUCT' ? -Math.abs(deltaUnits) : Math.abs(deltaUnits);
 
@@ -145,6 +800,9 @@ export default function StudentDetailPage({ params }: { params: { id: string } }
                 <span className="muted" style={{ fontSize: 13 }}>
                   {student.email ?? '—'}
                 </span>
+                <span style={{ fontSize: 13 }}>
+                  <PhoneField userId={student.id} phone={student.phone} />
+                </span>
               </div>
 
               <div className="stack" style={{ gap: 4, alignItems: 'flex-end' }}>
@@ -163,6 +821,45 @@ export default function StudentDetailPage({ params }: { params: { id: string } }
                 时区：{student.timeZone ?? '—'}
               </span>
             </div>
+
+            <div className="row" style={{ flexWrap: 'wrap', alignItems: 'flex-end', gap: 12 }}>
+              <label className="field" style={{ minWidth: 260 }}>
+                <span className="muted">出账方式</span>
+                <select
+                  data-testid="student-billing-mode"
+                  value={student.billingMode ?? 'PER_SESSION'}
+                  disabled={savingBillingMode || student.billingMode === null}
+                  onChange={async (e) => {
+                    const billingMode = e.target.value as BillingMode;
+                    setError(null);
+                    setSuccess(null);
+                    setSavingBillingMode(true);
+                    try {
+                      await apiFetchJson(`/admin/students/${student.id}/billing-mode`, {
+                        method: 'PUT',
+                        headers: { 'content-type': 'application/json' },
+                        body: JSON.stringify({ billingMode }),
+                      });
+                      setSuccess('已更新出账方式');
+                      await refresh();
+                    } catch (err) {
+                      setError(err instanceof Error ? err.message : '保存失败');
+                    } finally {
+                      setSavingBillingMode(false);
+                    }
+                  }}
+                >
+                  {(Object.keys(BILLING_MODE_LABELS) as BillingMode[]).map((mode) => (
+                    <option key={mode} value={mode}>
+                      {BILLING_MODE_LABELS[mode]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <span className="muted" style={{ fontSize: 12 }}>
+                预付模式下仅填写了金额的购买记录会出账。
+              </span>
+            </div>
           </div>
 
           <div className="card stack">
@@ -283,6 +980,24 @@ export default function StudentDetailPage({ params }: { params: { id: string } }
             </div>
           </div>
 
+          <HourPackagesCard
+            studentId={student.id}
+            teachers={teachers}
+            onSold={async (message) => {
+              setSuccess(message);
+              await refresh();
+            }}
+          />
+
+          <HourTransferCard
+            student={student}
+            teachers={teachers}
+            onTransferred={async (message) => {
+              setSuccess(message);
+              await refresh();
+            }}
+          />
+
           <div className="card stack">
             <div className="row" style={{ justifyContent: 'space-between', flexWrap: 'wrap', gap: 10 }}>
               <strong>课时调整</strong>
@@ -304,13 +1019,30 @@ export default function StudentDetailPage({ params }: { params: { id: string } }
                   return;
                 }
 
+                const priced = reason === 'PURCHASE' && purchasePrice.trim() !== '';
+                const amountCents = priced ? parseAmountToCents(purchasePrice) : null;
+                if (priced && amountCents === null) {
+                  setError('请输入有效的金额（最多两位小数）');
+                  return;
+                }
+
                 setLoading(true);
                 try {
-                  const payload: { deltaUnits: number; reason: typeof reason; teacherId?: string } = {
+                  const payload: {
+                    deltaUnits: number;
+                    reason: typeof reason;
+                    teacherId?: string;
+                    amountCents?: number;
+                    currency?: Currency;
+                  } = {
                     deltaUnits: signedDeltaUnits,
                     reason,
                   };
                   if (teacherId) payload.teacherId = teacherId;
+                  if (amountCents !== null) {
+                    payload.amountCents = amountCents;
+                    payload.currency = purchaseCurrency;
+                  }
 
                   await apiFetchJson<{ id: string }>(`/admin/students/${student.id}/hours`, {
                     method: 'POST',
@@ -318,6 +1050,7 @@ export default function StudentDetailPage({ params }: { params: { id: string } }
                     body: JSON.stringify(payload),
                   });
                   setSuccess(hoursAction === 'DEDUCT' ? '已扣除课时' : '已增加课时');
+                  setPurchasePrice('');
                   await refresh();
                 } catch (err) {
                   setError(err instanceof Error ? err.message : '提交失败');
@@ -363,6 +1096,30 @@ export default function StudentDetailPage({ params }: { params: { id: string } }
                 </select>
               </label>
 
+              {reason === 'PURCHASE' ? (
+                <>
+                  <label className="field" style={{ minWidth: 160 }}>
+                    <span className="muted">购买金额（可选，用于出账）</span>
+                    <input
+                      data-testid="add-hours-price"
+                      inputMode="decimal"
+                      placeholder="例如 950.00"
+                      value={purchasePrice}
+                      onChange={(e) => setPurchasePrice(e.target.value)}
+                    />
+                  </label>
+
+                  <label className="field" style={{ minWidth: 120 }}>
+                    <span className="muted">币种</span>
+                    <select value={purchaseCurrency} onChange={(e) => setPurchaseCurrency(e.target.value as Currency)}>
+                      <option value="AUD">AUD</option>
+                      <option value="CNY">CNY</option>
+                      <option value="USD">USD</option>
+                    </select>
+                  </label>
+                </>
+              ) : null}
+
               <label className="field" style={{ minWidth: 280 }}>
                 <span className="muted">归属老师（可选）</span>
                 <select value={teacherId} onChange={(e) => setTeacherId(e.target.value)} disabled={teachers === null}>
@@ -385,85 +1142,45 @@ export default function StudentDetailPage({ params }: { params: { id: string } }
             </div>
           </div>
 
-          <div className="card stack">
-            <div className="row" style={{ justifyContent: 'space-between', flexWrap: 'wrap', gap: 12 }}>
-              <strong>课时流水（最近 50 条）</strong>
-              <label className="field" style={{ minWidth: 260 }}>
-                <span className="muted">筛选老师</span>
-                <select
-                  data-testid="student-ledger-teacher-filter"
-                  value={ledgerTeacherFilter}
-                  onChange={(e) => setLedgerTeacherFilter(e.target.value as typeof ledgerTeacherFilter)}
-                >
-                  <option value="ALL">全部</option>
-                  <option value="UNASSIGNED">通用（不指定老师）</option>
-                  {student.hoursByTeacher.byTeacher.map((t) => (
-                    <option key={t.teacherId} value={t.teacherId}>
-                      {t.teacherName ?? t.teacherId}
-                    </option>
-                  ))}
-                </select>
+          <StudentLedgerCard student={student} version={ledgerVersion} />
+
+          <div className="card stack" data-testid="student-statement">
+            <strong>对账单</strong>
+            <div className="row" style={{ gap: 8, alignItems: 'flex-end', flexWrap: 'wrap' }}>
+              <label className="field">
+                <span className="muted">开始日期</span>
+                <input type="date" value={statementFrom} onChange={(e) => setStatementFrom(e.target.value)} />
               </label>
+              <label className="field">
+                <span className="muted">结束日期</span>
+                <input type="date" value={statementTo} onChange={(e) => setStatementTo(e.target.value)} />
+              </label>
+              <button
+                className="btnSecondary"
+                type="button"
+                disabled={downloadingStatement || !statementFrom || !statementTo}
+                data-testid="student-statement-download"
+                onClick={async () => {
+                  setError(null);
+                  setDownloadingStatement(true);
+                  try {
+                    await apiDownload(
+                      `/admin/students/${student.id}/statement.pdf?from=${statementFrom}&to=${statementTo}`,
+                      `statement-${statementFrom}-${statementTo}.pdf`,
+                    );
+                  } catch (err) {
+                    setError(err instanceof Error ? err.message : '下载失败');
+                  } finally {
+                    setDownloadingStatement(false);
+                  }
+                }}
+              >
+                {downloadingStatement ? '生成中…' : '下载 PDF'}
+              </button>
+            </div>
+            <div className="muted" style={{ fontSize: 12 }}>
+              按学生时区统计，包含期初余额、课时变动与期末余额。
             </div>
-
-            {filteredLedgerEntries.length === 0 ? (
-              <div className="muted">暂无</div>
-            ) : (
-              <div className="stack" style={{ gap: 8 }}>
-                <div
-                  style={{
-                    display: 'grid',
-                    gridTemplateColumns: '120px 1fr auto',
-                    gap: 10,
-                    alignItems: 'center',
-                  }}
-                  className="muted"
-                >
-                  <div style={{ fontSize: 12 }}>变动</div>
-                  <div style={{ fontSize: 12 }}>说明</div>
-                  <div style={{ fontSize: 12, textAlign: 'right' }}>时间</div>
-                </div>
-
-                {filteredLedgerEntries.map((entry) => {
-                  const deltaColor = entry.deltaUnits > 0 ? '#16a34a' : entry.deltaUnits < 0 ? '#ef4444' : '#6b7280';
-                  const teacherLabel = entry.teacherName ?? (entry.teacherId ? entry.teacherId : '通用（不指定老师）');
-
-                  return (
-                    <div
-                      key={entry.id}
-                      style={{
-                        display: 'grid',
-                        gridTemplateColumns: '120px 1fr auto',
-                        gap: 10,
-                        alignItems: 'center',
-                        borderTop: '1px solid #f3f4f6',
-                        paddingTop: 10,
-                      }}
-                    >
-                      <div style={{ fontVariantNumeric: 'tabular-nums', fontWeight: 800, color: deltaColor }}>
-                        {entry.deltaUnits > 0 ? '+' : ''}
-                        {entry.deltaUnits}
-                      </div>
-
-                      <div className="stack" style={{ gap: 2 }}>
-                        <div style={{ fontWeight: 600 }}>
-                          {reasonLabel(entry.reason)} · {teacherLabel}
-                        </div>
-                        {entry.sessionId ? (
-                          <div className="muted" style={{ fontSize: 12 }}>
-                            关联课程：{entry.sessionId}
-                          </div>
-                        ) : null}
-                      </div>
-
-                      <div className="muted" style={{ fontSize: 12, textAlign: 'right' }}>
-                        {formatDateTime(entry.createdAt)}
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
-            )}
           </div>
 
           <div className="card stack">
@@ -473,6 +1190,31 @@ export default function StudentDetailPage({ params }: { params: { id: string } }
             </div>
 
             <div className="row" style={{ justifyContent: 'flex-end' }}>
+              <button
+                className="btnSecondary"
+                type="button"
+                disabled={revokingSessions}
+                data-testid="student-revoke-sessions"
+                onClick={async () => {
+                  setError(null);
+                  setSuccess(null);
+                  if (!window.confirm('确认让该账号在所有设备上退出登录吗？')) return;
+                  setRevokingSessions(true);
+                  try {
+                    const result = await apiFetchJson<{ revoked: number }>(
+                      `/admin/users/${student.id}/sessions/revoke`,
+                      { method: 'POST' },
+                    );
+                    setSuccess(`已强制下线（${result.revoked} 个设备）`);
+                  } catch (err) {
+                    setError(err instanceof Error ? err.message : '操作失败');
+                  } finally {
+                    setRevokingSessions(false);
+                  }
+                }}
+              >
+                {revokingSessions ? '处理中…' : '强制下线'}
+              </button>
               <button
                 className="btnDanger"
                 type="button"
@@ -7,12 +7,23 @@ import { useEffect, useState } from 'react';
 import { useApi } from '../_lib/api';
 import { useRequireAdmin } from '../_lib/auth';
 
+type BalanceStatus = 'OK' | 'LOW' | 'EMPTY' | 'OVERDRAWN';
+
 type StudentListItem = {
   id: string;
   email: string | null;
+  phone: string | null;
   displayName: string | null;
   timeZone: string | null;
   createdAt: string;
+  invitationPending: boolean;
+  balance: { balanceUnits: number; scheduledUnits: number; availableUnits: number; status: BalanceStatus } | null;
+};
+
+const BALANCE_BADGES: Record<Exclude<BalanceStatus, 'OK'>, { label: string; className: string }> = {
+  LOW: { label: '课时不足', className: 'statusBadge statusBadgeWarning' },
+  EMPTY: { label: '课时用完', className: 'statusBadge statusBadgeDanger' },
+  OVERDRAWN: { label: '已透支', className: 'statusBadge statusBadgeDanger' },
 };
 
 const TIME_ZONE_OPTIONS: { value: string; label: string }[] = [
@@ -35,11 +46,13 @@ export default function StudentsPage() {
   const [students, setStudents] = useState<StudentListItem[] | null>(null);
   const [loading, setLoading] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [invitingId, setInvitingId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
 
   const [email, setEmail] = useState('');
-  const [password, setPassword] = useState('password123');
+  const [phone, setPhone] = useState('');
+  const [password, setPassword] = useState('');
   const [displayName, setDisplayName] = useState('');
   const [timeZone, setTimeZone] = useState('Asia/Shanghai');
 
@@ -76,8 +89,8 @@ export default function StudentsPage() {
               setError(null);
               setSuccess(null);
 
-              if (!email || !displayName || !timeZone || password.length < 8) {
-                setError('请填写完整信息（密码至少 8 位）');
+              if ((!email && !phone) || !displayName || !timeZone || (password && password.length < 8)) {
+                setError('请填写完整信息（邮箱或手机号至少填一项，密码至少 8 位）');
                 return;
               }
 
@@ -86,9 +99,17 @@ export default function StudentsPage() {
                 const created = await apiFetchJson<{ id: string }>('/admin/students', {
                   method: 'POST',
                   headers: { 'content-type': 'application/json' },
-                  body: JSON.stringify({ email, password, displayName, timeZone }),
+                  body: JSON.stringify({
+                    email: email || undefined,
+                    phone: phone || undefined,
+                    password: password || undefined,
+                    displayName,
+                    timeZone,
+                  }),
                 });
                 setEmail('');
+                setPhone('');
+                setPassword('');
                 setDisplayName('');
                 router.push(`/students/${created.id}`);
               } catch (err) {
@@ -104,10 +125,22 @@ export default function StudentsPage() {
             </label>
 
             <label className="field">
-              <span className="muted">初始密码（至少 8 位）</span>
+              <span className="muted">手机号（可用于短信验证码登录）</span>
+              <input
+                data-testid="student-create-phone"
+                type="tel"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                placeholder="如 13800138000"
+              />
+            </label>
+
+            <label className="field">
+              <span className="muted">初始密码（至少 8 位；留空时有邮箱则发送邀请邮件）</span>
               <input
                 data-testid="student-create-password"
                 type="password"
+                autoComplete="new-password"
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
               />
@@ -163,10 +196,52 @@ export default function StudentsPage() {
                           {student.createdAt.slice(0, 10)}
                         </span>
                       </div>
-                      <div className="listItemMeta">{student.email ?? '—'}</div>
+                      <div className="row" style={{ justifyContent: 'space-between' }}>
+                        <span className="listItemMeta">
+                          {[student.email, student.phone].filter(Boolean).join(' · ') || '—'}
+                          {student.invitationPending ? (
+                            <span className="statusBadge statusBadgeScheduled" style={{ marginLeft: 8 }}>
+                              待激活
+                            </span>
+                          ) : null}
+                        </span>
+                        {student.balance && student.balance.status !== 'OK' ? (
+                          <span
+                            className={BALANCE_BADGES[student.balance.status].className}
+                            title={`可用 ${student.balance.availableUnits} 课时（已排 ${student.balance.scheduledUnits} 课时）`}
+                            data-testid="student-balance-badge"
+                          >
+                            {BALANCE_BADGES[student.balance.status].label}
+                          </span>
+                        ) : null}
+                      </div>
                     </Link>
                   </div>
 
+                  {student.invitationPending ? (
+                    <button
+                      className="btnSecondary btnSm"
+                      type="button"
+                      disabled={invitingId !== null}
+                      data-testid="student-resend-invitation"
+                      onClick={async () => {
+                        setError(null);
+                        setSuccess(null);
+                        setInvitingId(student.id);
+                        try {
+                          await apiFetchJson(`/admin/users/${student.id}/invitation`, { method: 'POST' });
+                          setSuccess('已重新发送邀请邮件');
+                        } catch (err) {
+                          setError(err instanceof Error ? err.message : '发送失败');
+                        } finally {
+                          setInvitingId(null);
+                        }
+                      }}
+                    >
+                      {invitingId === student.id ? '发送中…' : '重发邀请'}
+                    </button>
+                  ) : null}
+
                   <button
                     className="btnDanger btnSm"
                     type="button"
@@ -3,26 +3,40 @@
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 
+import PhoneField from '../../_components/phone-field';
 import { useApi } from '../../_lib/api';
 import { useRequireAdmin } from '../../_lib/auth';
 
 type TeacherDetail = {
   id: string;
   email: string | null;
+  phone: string | null;
   displayName: string | null;
   timeZone: string | null;
   createdAt: string;
 };
 
+type TeacherAvailability = {
+  timeZone: string | null;
+  windows: { id: string; weekday: number; startTimeLocal: string; endTimeLocal: string }[];
+  blackoutDates: { id: string; dateLocal: string; reason: string | null }[];
+};
+
+const WEEKDAY_LABELS = ['', '周一', '周二', '周三', '周四', '周五', '周六', '周日'];
+
 export default function TeacherDetailPage({ params }: { params: { id: string } }) {
   const router = useRouter();
   const { hydrated, accessToken } = useRequireAdmin();
-  const { apiFetchJson } = useApi();
+  const { apiFetchJson, apiDownload } = useApi();
 
   const [teacher, setTeacher] = useState<TeacherDetail | null>(null);
+  const [availability, setAvailability] = useState<TeacherAvailability | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [revokingSessions, setRevokingSessions] = useState(false);
+  const [payslipDate, setPayslipDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [downloading, setDownloading] = useState(false);
 
   useEffect(() => {
     if (!hydrated || !accessToken) return;
@@ -31,8 +45,13 @@ export default function TeacherDetailPage({ params }: { params: { id: string } }
     (async () => {
       try {
         setError(null);
-        const data = await apiFetchJson<TeacherDetail>(`/admin/teachers/${params.id}`);
-        if (!cancelled) setTeacher(data);
+        const [data, availabilityData] = await Promise.all([
+          apiFetchJson<TeacherDetail>(`/admin/teachers/${params.id}`),
+          apiFetchJson<TeacherAvailability>(`/admin/teachers/${params.id}/availability`),
+        ]);
+        if (cancelled) return;
+        setTeacher(data);
+        setAvailability(availabilityData);
       } catch (err) {
         if (!cancelled) setError(err instanceof Error ? err.message : '加载失败');
       }
@@ -62,9 +81,98 @@ export default function TeacherDetailPage({ params }: { params: { id: string } }
           </div>
 
           <div className="muted">邮箱：{teacher.email ?? '—'}</div>
+          <PhoneField userId={teacher.id} phone={teacher.phone} />
           <div className="muted">时区：{teacher.timeZone ?? '—'}</div>
 
+          {availability ? (
+            <div className="stack" data-testid="teacher-availability">
+              <strong>可上课时间（{availability.timeZone ?? '—'}）</strong>
+              {availability.windows.length === 0 ? (
+                <div className="muted">未设置（视为全天可排课）</div>
+              ) : (
+                availability.windows.map((window) => (
+                  <div key={window.id} className="muted">
+                    {WEEKDAY_LABELS[window.weekday] ?? window.weekday} {window.startTimeLocal}–{window.endTimeLocal}
+                  </div>
+                ))
+              )}
+              <strong>停课日期</strong>
+              {availability.blackoutDates.length === 0 ? (
+                <div className="muted">无</div>
+              ) : (
+                availability.blackoutDates.map((blackout) => (
+                  <div key={blackout.id} className="muted">
+                    {blackout.dateLocal}
+                    {blackout.reason ? `（${blackout.reason}）` : ''}
+                  </div>
+                ))
+              )}
+            </div>
+          ) : null}
+
+          <div className="stack" data-testid="teacher-payslip">
+            <strong>工资单</strong>
+            <div className="row" style={{ gap: 8, alignItems: 'flex-end' }}>
+              <label className="field" style={{ maxWidth: 220 }}>
+                <span className="muted">选择日期（按所在工资周期）</span>
+                <input
+                  type="date"
+                  value={payslipDate}
+                  onChange={(e) => {
+                    if (e.target.value) setPayslipDate(e.target.value);
+                  }}
+                />
+              </label>
+              <button
+                className="btnSecondary"
+                type="button"
+                disabled={downloading}
+                data-testid="teacher-payslip-download"
+                onClick={async () => {
+                  setError(null);
+                  setDownloading(true);
+                  try {
+                    await apiDownload(
+                      `/admin/teachers/${teacher.id}/payslip.pdf?date=${payslipDate}`,
+                      `payslip-${payslipDate}.pdf`,
+                    );
+                  } catch (err) {
+                    setError(err instanceof Error ? err.message : '下载失败');
+                  } finally {
+                    setDownloading(false);
+                  }
+                }}
+              >
+                {downloading ? '生成中…' : '下载 PDF'}
+              </button>
+            </div>
+          </div>
+
           <div className="row" style={{ justifyContent: 'flex-end' }}>
+            <button
+              className="btnSecondary"
+              type="button"
+              disabled={revokingSessions}
+              data-testid="teacher-revoke-sessions"
+              onClick={async () => {
+                setError(null);
+                setSuccess(null);
+                if (!window.confirm('确认让该账号在所有设备上退出登录吗？')) return;
+                setRevokingSessions(true);
+                try {
+                  const result = await apiFetchJson<{ revoked: number }>(`/admin/users/${teacher.id}/sessions/revoke`, {
+                    method: 'POST',
+                  });
+                  setSuccess(`已强制下线（${result.revoked} 个设备）`);
+                } catch (err) {
+                  setError(err instanceof Error ? err.message : '操作失败');
+                } finally {
+                  setRevokingSessions(false);
+                }
+              }}
+            >
+              {revokingSessions ? '处理中…' : '强制下线'}
+            </button>
             <button
               className="btnDanger"
               type="button"
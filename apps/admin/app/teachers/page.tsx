@@ -10,9 +10,11 @@ import { useRequireAdmin } from '../_lib/auth';
 type TeacherListItem = {
   id: string;
   email: string | null;
+  phone: string | null;
   displayName: string | null;
   timeZone: string | null;
   createdAt: string;
+  invitationPending: boolean;
 };
 
 const TIME_ZONE_OPTIONS: { value: string; label: string }[] = [
@@ -35,11 +37,13 @@ export default function TeachersPage() {
   const [teachers, setTeachers] = useState<TeacherListItem[] | null>(null);
   const [loading, setLoading] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [invitingId, setInvitingId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
 
   const [email, setEmail] = useState('');
-  const [password, setPassword] = useState('password123');
+  const [phone, setPhone] = useState('');
+  const [password, setPassword] = useState('');
   const [displayName, setDisplayName] = useState('');
   const [timeZone, setTimeZone] = useState('Australia/Sydney');
 
@@ -71,7 +75,7 @@ export default function TeachersPage() {
               setError(null);
               setSuccess(null);
 
-              if (!email || !displayName || !timeZone || password.length < 8) {
+              if (!email || !displayName || !timeZone || (password && password.length < 8)) {
                 setError('请填写完整信息（密码至少 8 位）');
                 return;
               }
@@ -81,9 +85,17 @@ export default function TeachersPage() {
                 const created = await apiFetchJson<{ id: string }>('/admin/teachers', {
                   method: 'POST',
                   headers: { 'content-type': 'application/json' },
-                  body: JSON.stringify({ email, password, displayName, timeZone }),
+                  body: JSON.stringify({
+                    email,
+                    phone: phone || undefined,
+                    password: password || undefined,
+                    displayName,
+                    timeZone,
+                  }),
                 });
                 setEmail('');
+                setPhone('');
+                setPassword('');
                 setDisplayName('');
                 router.push(`/teachers/${created.id}`);
               } catch (err) {
@@ -99,8 +111,18 @@ export default function TeachersPage() {
             </label>
 
             <label className="field">
-              <span className="muted">初始密码（至少 8 位）</span>
-              <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+              <span className="muted">手机号（选填）</span>
+              <input type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} />
+            </label>
+
+            <label className="field">
+              <span className="muted">初始密码（至少 8 位，留空则发送邀请邮件）</span>
+              <input
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
             </label>
 
             <label className="field">
@@ -149,10 +171,40 @@ export default function TeachersPage() {
                           {teacher.createdAt.slice(0, 10)}
                         </span>
                       </div>
-                      <div className="listItemMeta">{teacher.email ?? '—'}</div>
+                      <div className="listItemMeta">
+                        {[teacher.email, teacher.phone].filter(Boolean).join(' · ') || '—'}
+                        {teacher.invitationPending ? (
+                          <span className="statusBadge statusBadgeScheduled" style={{ marginLeft: 8 }}>
+                            待激活
+                          </span>
+                        ) : null}
+                      </div>
                     </Link>
                   </div>
 
+                  {teacher.invitationPending ? (
+                    <button
+                      className="btnSecondary btnSm"
+                      type="button"
+                      disabled={invitingId !== null}
+                      onClick={async () => {
+                        setError(null);
+                        setSuccess(null);
+                        setInvitingId(teacher.id);
+                        try {
+                          await apiFetchJson(`/admin/users/${teacher.id}/invitation`, { method: 'POST' });
+                          setSuccess('已重新发送邀请邮件');
+                        } catch (err) {
+                          setError(err instanceof Error ? err.message : '发送失败');
+                        } finally {
+                          setInvitingId(null);
+                        }
+                      }}
+                    >
+                      {invitingId === teacher.id ? '发送中…' : '重发邀请'}
+                    </button>
+                  ) : null}
+
                   <button
                     className="btnDanger btnSm"
                     type="button"
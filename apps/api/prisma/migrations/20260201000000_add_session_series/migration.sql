@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceFrequency" AS ENUM ('WEEKLY', 'FORTNIGHTLY');
+
+-- CreateTable
+CREATE TABLE "SessionSeries" (
+    "id" TEXT NOT NULL,
+    "teacherId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "subject" "Subject" NOT NULL DEFAULT 'GENERAL',
+    "classTimeZone" TEXT NOT NULL,
+    "frequency" "RecurrenceFrequency" NOT NULL,
+    "startDateLocal" TEXT NOT NULL,
+    "startTimeLocal" TEXT NOT NULL,
+    "durationMinutes" INTEGER NOT NULL,
+    "untilDateLocal" TEXT,
+    "occurrenceCount" INTEGER,
+    "exceptionDates" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "consumesUnits" INTEGER NOT NULL DEFAULT 1,
+    "createdByAdminId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SessionSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "seriesId" TEXT,
+ADD COLUMN "seriesOccurrenceDate" TEXT;
+
+-- CreateIndex
+CREATE INDEX "SessionSeries_teacherId_idx" ON "SessionSeries"("teacherId");
+
+-- CreateIndex
+CREATE INDEX "SessionSeries_studentId_idx" ON "SessionSeries"("studentId");
+
+-- CreateIndex
+CREATE INDEX "SessionSeries_createdByAdminId_idx" ON "SessionSeries"("createdByAdminId");
+
+-- CreateIndex
+CREATE INDEX "Session_seriesId_idx" ON "Session"("seriesId");
+
+-- AddForeignKey
+ALTER TABLE "Session" ADD CONSTRAINT "Session_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "SessionSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SessionSeries" ADD CONSTRAINT "SessionSeries_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SessionSeries" ADD CONSTRAINT "SessionSeries_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SessionSeries" ADD CONSTRAINT "SessionSeries_createdByAdminId_fkey" FOREIGN KEY ("createdByAdminId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "TeacherAvailabilityWindow" (
+    "id" TEXT NOT NULL,
+    "teacherId" TEXT NOT NULL,
+    "weekday" INTEGER NOT NULL,
+    "startTimeLocal" TEXT NOT NULL,
+    "endTimeLocal" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TeacherAvailabilityWindow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TeacherBlackoutDate" (
+    "id" TEXT NOT NULL,
+    "teacherId" TEXT NOT NULL,
+    "dateLocal" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TeacherBlackoutDate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TeacherAvailabilityWindow_teacherId_weekday_idx" ON "TeacherAvailabilityWindow"("teacherId", "weekday");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TeacherBlackoutDate_teacherId_dateLocal_key" ON "TeacherBlackoutDate"("teacherId", "dateLocal");
+
+-- AddForeignKey
+ALTER TABLE "TeacherAvailabilityWindow" ADD CONSTRAINT "TeacherAvailabilityWindow_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TeacherBlackoutDate" ADD CONSTRAINT "TeacherBlackoutDate_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "LateCancelCharge" AS ENUM ('FULL', 'HALF', 'NONE');
+
+-- AlterEnum
+ALTER TYPE "HourLedgerReason" ADD VALUE 'LATE_CANCEL';
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "lateCancelCharge" "LateCancelCharge",
+ADD COLUMN "teacherPaidOnCancel" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "CancellationPolicy" (
+    "orgId" TEXT NOT NULL,
+    "cutoffHours" INTEGER NOT NULL DEFAULT 24,
+    "allowLateCancellation" BOOLEAN NOT NULL DEFAULT false,
+    "lateCancelCharge" "LateCancelCharge" NOT NULL DEFAULT 'FULL',
+    "lateCancelTeacherPaid" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CancellationPolicy_pkey" PRIMARY KEY ("orgId")
+);
+
+-- AddForeignKey
+ALTER TABLE "CancellationPolicy" ADD CONSTRAINT "CancellationPolicy_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- AlterEnum
+ALTER TYPE "SessionStatus" ADD VALUE 'PENDING_CONFIRMATION' AFTER 'SCHEDULED';
+
+-- AlterEnum
+ALTER TYPE "HourLedgerReason" ADD VALUE 'NO_SHOW';
+
+-- AlterEnum
+ALTER TYPE "LateCancelCharge" RENAME TO "SessionCharge";
+
+-- CreateEnum
+CREATE TYPE "AttendanceOutcome" AS ENUM ('ATTENDED', 'STUDENT_NO_SHOW', 'TEACHER_NO_SHOW', 'PARTIAL');
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "attendance" "AttendanceOutcome",
+ADD COLUMN "attendedMinutes" INTEGER,
+ADD COLUMN "payableMinutes" INTEGER,
+ADD COLUMN "attendanceRecordedAt" TIMESTAMP(3),
+ADD COLUMN "attendanceRecordedByUserId" TEXT;
+
+-- CreateTable
+CREATE TABLE "AttendancePolicy" (
+    "orgId" TEXT NOT NULL,
+    "confirmationGraceHours" INTEGER NOT NULL DEFAULT 12,
+    "studentNoShowCharge" "SessionCharge" NOT NULL DEFAULT 'FULL',
+    "studentNoShowTeacherPaid" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AttendancePolicy_pkey" PRIMARY KEY ("orgId")
+);
+
+-- AddForeignKey
+ALTER TABLE "Session" ADD CONSTRAINT "Session_attendanceRecordedByUserId_fkey" FOREIGN KEY ("attendanceRecordedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AttendancePolicy" ADD CONSTRAINT "AttendancePolicy_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
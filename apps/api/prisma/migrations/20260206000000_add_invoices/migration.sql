@@ -0,0 +1,95 @@
+-- CreateEnum
+CREATE TYPE "BillingMode" AS ENUM ('PER_SESSION', 'PREPAID');
+
+-- CreateEnum
+CREATE TYPE "InvoiceStatus" AS ENUM ('DRAFT', 'ISSUED', 'PAID', 'VOID');
+
+-- CreateEnum
+CREATE TYPE "InvoiceLineKind" AS ENUM ('SESSION', 'PURCHASE');
+
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN "nextInvoiceNumber" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "StudentProfile" ADD COLUMN "billingMode" "BillingMode" NOT NULL DEFAULT 'PER_SESSION';
+
+-- AlterTable
+ALTER TABLE "HourLedgerEntry" ADD COLUMN "amountCents" INTEGER,
+ADD COLUMN "currency" "Currency";
+
+-- CreateTable
+CREATE TABLE "Invoice" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "number" TEXT,
+    "currency" "Currency" NOT NULL,
+    "billingMode" "BillingMode" NOT NULL,
+    "status" "InvoiceStatus" NOT NULL DEFAULT 'DRAFT',
+    "periodStartLocal" TEXT NOT NULL,
+    "periodEndLocal" TEXT NOT NULL,
+    "totalCents" INTEGER NOT NULL,
+    "createdByAdminId" TEXT NOT NULL,
+    "issuedAt" TIMESTAMP(3),
+    "paidAt" TIMESTAMP(3),
+    "voidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Invoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InvoiceLine" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "kind" "InvoiceLineKind" NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unitAmountCents" INTEGER NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "sessionId" TEXT,
+    "ledgerEntryId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InvoiceLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_orgId_number_key" ON "Invoice"("orgId", "number");
+
+-- CreateIndex
+CREATE INDEX "Invoice_orgId_status_idx" ON "Invoice"("orgId", "status");
+
+-- CreateIndex
+CREATE INDEX "Invoice_studentId_idx" ON "Invoice"("studentId");
+
+-- CreateIndex
+CREATE INDEX "Invoice_createdByAdminId_idx" ON "Invoice"("createdByAdminId");
+
+-- CreateIndex
+CREATE INDEX "InvoiceLine_invoiceId_idx" ON "InvoiceLine"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "InvoiceLine_sessionId_idx" ON "InvoiceLine"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "InvoiceLine_ledgerEntryId_idx" ON "InvoiceLine"("ledgerEntryId");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_createdByAdminId_fkey" FOREIGN KEY ("createdByAdminId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceLine" ADD CONSTRAINT "InvoiceLine_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceLine" ADD CONSTRAINT "InvoiceLine_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceLine" ADD CONSTRAINT "InvoiceLine_ledgerEntryId_fkey" FOREIGN KEY ("ledgerEntryId") REFERENCES "HourLedgerEntry"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "DocumentBranding" (
+    "orgId" TEXT NOT NULL,
+    "headerName" TEXT,
+    "contactLine" TEXT,
+    "accentColor" TEXT NOT NULL DEFAULT '#1F2937',
+    "footerNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DocumentBranding_pkey" PRIMARY KEY ("orgId")
+);
+
+-- AddForeignKey
+ALTER TABLE "DocumentBranding" ADD CONSTRAINT "DocumentBranding_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,113 @@
+-- CreateEnum
+CREATE TYPE "PayrollRunStatus" AS ENUM ('CLOSED', 'APPROVED', 'PAID');
+
+-- CreateEnum
+CREATE TYPE "PayrollLineKind" AS ENUM ('REGULAR', 'ADJUSTMENT');
+
+-- CreateTable
+CREATE TABLE "PayrollRun" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "periodStartLocal" TEXT NOT NULL,
+    "periodEndLocal" TEXT NOT NULL,
+    "timeZone" TEXT NOT NULL,
+    "periodStartUtc" TIMESTAMP(3) NOT NULL,
+    "periodEndUtc" TIMESTAMP(3) NOT NULL,
+    "status" "PayrollRunStatus" NOT NULL DEFAULT 'CLOSED',
+    "closedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedByAdminId" TEXT NOT NULL,
+    "approvedAt" TIMESTAMP(3),
+    "approvedByAdminId" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "paidByAdminId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PayrollLine" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "teacherId" TEXT NOT NULL,
+    "kind" "PayrollLineKind" NOT NULL,
+    "currency" "Currency" NOT NULL,
+    "sessionsCount" INTEGER NOT NULL,
+    "payableMinutes" INTEGER NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "reason" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PayrollLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PayrollLineItem" (
+    "id" TEXT NOT NULL,
+    "lineId" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "payableMinutes" INTEGER NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+
+    CONSTRAINT "PayrollLineItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayrollRun_orgId_periodStartLocal_key" ON "PayrollRun"("orgId", "periodStartLocal");
+
+-- CreateIndex
+CREATE INDEX "PayrollRun_orgId_periodStartUtc_idx" ON "PayrollRun"("orgId", "periodStartUtc");
+
+-- CreateIndex
+CREATE INDEX "PayrollRun_closedByAdminId_idx" ON "PayrollRun"("closedByAdminId");
+
+-- CreateIndex
+CREATE INDEX "PayrollRun_approvedByAdminId_idx" ON "PayrollRun"("approvedByAdminId");
+
+-- CreateIndex
+CREATE INDEX "PayrollRun_paidByAdminId_idx" ON "PayrollRun"("paidByAdminId");
+
+-- CreateIndex
+CREATE INDEX "PayrollLine_runId_idx" ON "PayrollLine"("runId");
+
+-- CreateIndex
+CREATE INDEX "PayrollLine_teacherId_idx" ON "PayrollLine"("teacherId");
+
+-- CreateIndex
+CREATE INDEX "PayrollLineItem_lineId_idx" ON "PayrollLineItem"("lineId");
+
+-- CreateIndex
+CREATE INDEX "PayrollLineItem_sessionId_idx" ON "PayrollLineItem"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "PayrollLineItem_studentId_idx" ON "PayrollLineItem"("studentId");
+
+-- AddForeignKey
+ALTER TABLE "PayrollRun" ADD CONSTRAINT "PayrollRun_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayrollRun" ADD CONSTRAINT "PayrollRun_closedByAdminId_fkey" FOREIGN KEY ("closedByAdminId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayrollRun" ADD CONSTRAINT "PayrollRun_approvedByAdminId_fkey" FOREIGN KEY ("approvedByAdminId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayrollRun" ADD CONSTRAINT "PayrollRun_paidByAdminId_fkey" FOREIGN KEY ("paidByAdminId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayrollLine" ADD CONSTRAINT "PayrollLine_runId_fkey" FOREIGN KEY ("runId") REFERENCES "PayrollRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayrollLine" ADD CONSTRAINT "PayrollLine_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayrollLineItem" ADD CONSTRAINT "PayrollLineItem_lineId_fkey" FOREIGN KEY ("lineId") REFERENCES "PayrollLine"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayrollLineItem" ADD CONSTRAINT "PayrollLineItem_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayrollLineItem" ADD CONSTRAINT "PayrollLineItem_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
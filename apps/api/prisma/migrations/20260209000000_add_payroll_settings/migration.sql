@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "PayrollCadence" AS ENUM ('WEEKLY', 'FORTNIGHTLY', 'SEMI_MONTHLY', 'MONTHLY');
+
+-- CreateTable
+CREATE TABLE "PayrollSettings" (
+    "orgId" TEXT NOT NULL,
+    "timeZone" TEXT NOT NULL DEFAULT 'Australia/Sydney',
+    "weekStartDay" INTEGER NOT NULL DEFAULT 1,
+    "cadence" "PayrollCadence" NOT NULL DEFAULT 'WEEKLY',
+    "anchorDateLocal" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollSettings_pkey" PRIMARY KEY ("orgId")
+);
+
+-- AddForeignKey
+ALTER TABLE "PayrollSettings" ADD CONSTRAINT "PayrollSettings_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
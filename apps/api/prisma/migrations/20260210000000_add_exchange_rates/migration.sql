@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN     "baseCurrency" "Currency" NOT NULL DEFAULT 'AUD';
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "fromCurrency" "Currency" NOT NULL,
+    "toCurrency" "Currency" NOT NULL,
+    "effectiveDate" TEXT NOT NULL,
+    "rate" DECIMAL(18,8) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeRate_orgId_fromCurrency_toCurrency_effectiveDate_key" ON "ExchangeRate"("orgId", "fromCurrency", "toCurrency", "effectiveDate");
+
+-- CreateIndex
+CREATE INDEX "ExchangeRate_orgId_effectiveDate_idx" ON "ExchangeRate"("orgId", "effectiveDate");
+
+-- AddForeignKey
+ALTER TABLE "ExchangeRate" ADD CONSTRAINT "ExchangeRate_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
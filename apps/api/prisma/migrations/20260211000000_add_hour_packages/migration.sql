@@ -0,0 +1,90 @@
+-- AlterEnum
+ALTER TYPE "HourLedgerReason" ADD VALUE 'EXPIRY';
+
+-- CreateTable
+CREATE TABLE "HourPackage" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "subject" "Subject",
+    "units" INTEGER NOT NULL,
+    "priceCents" INTEGER NOT NULL,
+    "currency" "Currency" NOT NULL,
+    "validityMonths" INTEGER,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "HourPackage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "HourLot" (
+    "id" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "packageId" TEXT,
+    "teacherId" TEXT,
+    "subject" "Subject",
+    "units" INTEGER NOT NULL,
+    "remainingUnits" INTEGER NOT NULL,
+    "priceCents" INTEGER NOT NULL,
+    "currency" "Currency" NOT NULL,
+    "purchasedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3),
+    "expiredAt" TIMESTAMP(3),
+    "purchaseEntryId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "HourLot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "HourLotAllocation" (
+    "id" TEXT NOT NULL,
+    "lotId" TEXT NOT NULL,
+    "ledgerEntryId" TEXT NOT NULL,
+    "units" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HourLotAllocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "HourPackage_orgId_idx" ON "HourPackage"("orgId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HourLot_purchaseEntryId_key" ON "HourLot"("purchaseEntryId");
+
+-- CreateIndex
+CREATE INDEX "HourLot_studentId_purchasedAt_idx" ON "HourLot"("studentId", "purchasedAt");
+
+-- CreateIndex
+CREATE INDEX "HourLot_expiresAt_idx" ON "HourLot"("expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HourLotAllocation_lotId_ledgerEntryId_key" ON "HourLotAllocation"("lotId", "ledgerEntryId");
+
+-- CreateIndex
+CREATE INDEX "HourLotAllocation_ledgerEntryId_idx" ON "HourLotAllocation"("ledgerEntryId");
+
+-- AddForeignKey
+ALTER TABLE "HourPackage" ADD CONSTRAINT "HourPackage_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HourLot" ADD CONSTRAINT "HourLot_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HourLot" ADD CONSTRAINT "HourLot_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HourLot" ADD CONSTRAINT "HourLot_packageId_fkey" FOREIGN KEY ("packageId") REFERENCES "HourPackage"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HourLot" ADD CONSTRAINT "HourLot_purchaseEntryId_fkey" FOREIGN KEY ("purchaseEntryId") REFERENCES "HourLedgerEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HourLotAllocation" ADD CONSTRAINT "HourLotAllocation_lotId_fkey" FOREIGN KEY ("lotId") REFERENCES "HourLot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HourLotAllocation" ADD CONSTRAINT "HourLotAllocation_ledgerEntryId_fkey" FOREIGN KEY ("ledgerEntryId") REFERENCES "HourLedgerEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
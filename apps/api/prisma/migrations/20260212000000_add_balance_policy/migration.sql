@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "BalancePolicy" (
+    "orgId" TEXT NOT NULL,
+    "lowBalanceUnits" INTEGER NOT NULL DEFAULT 2,
+    "blockScheduling" BOOLEAN NOT NULL DEFAULT false,
+    "overdraftLimitUnits" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BalancePolicy_pkey" PRIMARY KEY ("orgId")
+);
+
+-- AddForeignKey
+ALTER TABLE "BalancePolicy" ADD CONSTRAINT "BalancePolicy_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterEnum
+ALTER TYPE "HourLedgerReason" ADD VALUE 'TRANSFER';
+
+-- AlterTable
+ALTER TABLE "HourLedgerEntry" ADD COLUMN "transferId" TEXT;
+
+-- CreateTable
+CREATE TABLE "HourTransfer" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "units" INTEGER NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HourTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "HourLedgerEntry_transferId_idx" ON "HourLedgerEntry"("transferId");
+
+-- CreateIndex
+CREATE INDEX "HourTransfer_orgId_createdAt_idx" ON "HourTransfer"("orgId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "HourLedgerEntry" ADD CONSTRAINT "HourLedgerEntry_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "HourTransfer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HourTransfer" ADD CONSTRAINT "HourTransfer_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
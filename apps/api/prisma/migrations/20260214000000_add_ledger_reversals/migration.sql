@@ -0,0 +1,23 @@
+-- AlterEnum
+ALTER TYPE "HourLedgerReason" ADD VALUE 'REVERSAL';
+
+-- DropIndex
+DROP INDEX "HourLedgerEntry_sessionId_key";
+
+-- DropIndex
+DROP INDEX "HourLedgerEntry_studentId_idx";
+
+-- AlterTable
+ALTER TABLE "HourLedgerEntry" ADD COLUMN "reversesEntryId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HourLedgerEntry_reversesEntryId_key" ON "HourLedgerEntry"("reversesEntryId");
+
+-- CreateIndex
+CREATE INDEX "HourLedgerEntry_studentId_createdAt_idx" ON "HourLedgerEntry"("studentId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "HourLedgerEntry_sessionId_idx" ON "HourLedgerEntry"("sessionId");
+
+-- AddForeignKey
+ALTER TABLE "HourLedgerEntry" ADD CONSTRAINT "HourLedgerEntry_reversesEntryId_fkey" FOREIGN KEY ("reversesEntryId") REFERENCES "HourLedgerEntry"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
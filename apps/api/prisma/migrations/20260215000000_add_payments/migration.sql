@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "PaymentMethod" AS ENUM ('BANK_TRANSFER', 'WECHAT', 'ALIPAY', 'CASH', 'CARD');
+
+-- CreateTable
+CREATE TABLE "Payment" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "currency" "Currency" NOT NULL,
+    "method" "PaymentMethod" NOT NULL,
+    "reference" TEXT,
+    "receivedDate" TEXT NOT NULL,
+    "note" TEXT,
+    "invoiceId" TEXT,
+    "ledgerEntryId" TEXT,
+    "recordedByUserId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Payment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Payment_orgId_receivedDate_idx" ON "Payment"("orgId", "receivedDate");
+
+-- CreateIndex
+CREATE INDEX "Payment_orgId_reference_idx" ON "Payment"("orgId", "reference");
+
+-- CreateIndex
+CREATE INDEX "Payment_studentId_idx" ON "Payment"("studentId");
+
+-- CreateIndex
+CREATE INDEX "Payment_invoiceId_idx" ON "Payment"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "Payment_ledgerEntryId_idx" ON "Payment"("ledgerEntryId");
+
+-- CreateIndex
+CREATE INDEX "Payment_recordedByUserId_idx" ON "Payment"("recordedByUserId");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_ledgerEntryId_fkey" FOREIGN KEY ("ledgerEntryId") REFERENCES "HourLedgerEntry"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_recordedByUserId_fkey" FOREIGN KEY ("recordedByUserId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
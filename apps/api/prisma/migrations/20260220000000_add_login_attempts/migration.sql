@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "LoginMethod" AS ENUM ('PASSWORD', 'LOGIN_CODE', 'TWO_FACTOR');
+
+-- CreateEnum
+CREATE TYPE "LoginAttemptOutcome" AS ENUM ('SUCCESS', 'TWO_FACTOR_CHALLENGE', 'INVALID_PASSWORD', 'INVALID_CODE', 'UNKNOWN_ACCOUNT', 'LOCKED');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "failedLoginCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lockedUntil" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "LoginAttempt" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT,
+    "userId" TEXT,
+    "identifier" TEXT NOT NULL,
+    "method" "LoginMethod" NOT NULL,
+    "outcome" "LoginAttemptOutcome" NOT NULL,
+    "ipAddress" TEXT NOT NULL,
+    "userAgent" TEXT,
+    "country" TEXT,
+    "newDevice" BOOLEAN NOT NULL DEFAULT false,
+    "newCountry" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LoginAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LoginAttempt_orgId_createdAt_idx" ON "LoginAttempt"("orgId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LoginAttempt_userId_createdAt_idx" ON "LoginAttempt"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LoginAttempt_ipAddress_createdAt_idx" ON "LoginAttempt"("ipAddress", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "LoginAttempt" ADD CONSTRAINT "LoginAttempt_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoginAttempt" ADD CONSTRAINT "LoginAttempt_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
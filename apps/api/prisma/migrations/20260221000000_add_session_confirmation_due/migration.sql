@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "confirmationDueAtUtc" TIMESTAMP(3);
+
+-- Backfill sessions already waiting for confirmation from their org's grace period (12 hours by default)
+UPDATE "Session" AS s
+SET "confirmationDueAtUtc" = s."endAtUtc" + make_interval(hours => COALESCE(
+  (SELECT p."confirmationGraceHours" FROM "AttendancePolicy" p JOIN "User" u ON u."orgId" = p."orgId" WHERE u."id" = s."studentId"),
+  12
+))
+WHERE s."status" = 'PENDING_CONFIRMATION';
+
+-- CreateIndex
+CREATE INDEX "Session_status_confirmationDueAtUtc_idx" ON "Session"("status", "confirmationDueAtUtc");
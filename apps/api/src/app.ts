@@ -4,8 +4,13 @@ import net from 'node:net';
 
 import rateLimit from '@fastify/rate-limit';
 
+import { clientIp } from './lib/clientIp.js';
+import type { MailTransport } from './lib/mail.js';
+import type { SmsTransport } from './lib/sms.js';
 import authPlugin from './plugins/auth.js';
+import mailPlugin from './plugins/mail.js';
 import prismaPlugin from './plugins/prisma.js';
+import smsPlugin from './plugins/sms.js';
 import adminRoutes from './routes/admin.js';
 import authRoutes from './routes/auth.js';
 import meRoutes from './routes/me.js';
@@ -85,7 +90,7 @@ async function pingRedis(redisUrl: string, timeoutMs: number): Promise<void> {
   });
 }
 
-export function buildApp(options?: { logger?: boolean }) {
+export function buildApp(options?: { logger?: boolean; mailTransport?: MailTransport; smsTransport?: SmsTransport }) {
   const loggerEnabled = options?.logger ?? true;
   const logLevel = process.env['LOG_LEVEL'] ?? 'info';
 
@@ -144,16 +149,13 @@ export function buildApp(options?: { logger?: boolean }) {
 
   app.register(rateLimit, {
     global: false,
-    keyGenerator(request) {
-      const header = request.headers['x-forwarded-for'];
-      if (typeof header === 'string' && header.length > 0) return header.split(',')[0]?.trim() || request.ip;
-      if (Array.isArray(header) && header[0]) return header[0].split(',')[0]?.trim() || request.ip;
-      return request.ip;
-    },
+    keyGenerator: clientIp,
   });
 
   app.register(prismaPlugin);
   app.register(authPlugin);
+  app.register(mailPlugin, options?.mailTransport ? { transport: options.mailTransport } : {});
+  app.register(smsPlugin, options?.smsTransport ? { transport: options.smsTransport } : {});
 
   app.get('/health', async () => ({ status: 'ok' }));
   app.get('/ready', async (request, reply) => {
@@ -1,10 +1,24 @@
-import { HourLedgerReason, SessionStatus, type PrismaClient } from '@prisma/client';
+import { SessionStatus, type PrismaClient } from '@prisma/client';
+
+import {
+  confirmationGraceMs,
+  finalizableSessionSelect,
+  finalizeSession,
+  getAttendancePolicy,
+  OPEN_SESSION_STATUSES,
+  type AttendancePolicySettings,
+} from '../lib/attendance.js';
 
 type CompleteEndedSessionsOptions = {
   now?: Date;
   batchSize?: number;
 };
 
+/**
+ * Ended sessions wait in PENDING_CONFIRMATION until the teacher records attendance or the org's grace period runs
+ * out; only then are they completed and their hours consumed. Sessions still inside their grace period are left out
+ * of the batch so they cannot crowd out newly ended ones.
+ */
 export async function completeEndedSessions(
   prisma: PrismaClient,
   options: CompleteEndedSessionsOptions = {},
@@ -14,41 +28,50 @@ export async function completeEndedSessions(
 
   const sessions = await prisma.session.findMany({
     where: {
-      status: SessionStatus.SCHEDULED,
-      endAtUtc: { lte: now },
+      OR: [
+        { status: SessionStatus.SCHEDULED, endAtUtc: { lte: now } },
+        { status: SessionStatus.PENDING_CONFIRMATION, confirmationDueAtUtc: { lte: now } },
+      ],
     },
-    select: { id: true },
+    select: { id: true, student: { select: { orgId: true } } },
     orderBy: { endAtUtc: 'asc' },
     take: batchSize,
   });
 
+  const policiesByOrgId = new Map<string, AttendancePolicySettings>();
+
   for (const session of sessions) {
+    const orgId = session.student.orgId;
+    let policy = policiesByOrgId.get(orgId);
+    if (!policy) {
+      policy = await getAttendancePolicy(prisma, orgId);
+      policiesByOrgId.set(orgId, policy);
+    }
+    const graceMs = confirmationGraceMs(policy);
+
     await prisma.$transaction(async (tx) => {
       const current = await tx.session.findUnique({
         where: { id: session.id },
-        select: { id: true, status: true, endAtUtc: true, studentId: true, teacherId: true, consumesUnits: true },
+        select: { ...finalizableSessionSelect, confirmationDueAtUtc: true },
       });
 
       if (!current) return;
       if (current.endAtUtc > now) return;
-      if (current.status === SessionStatus.CANCELLED) return;
+      if (!OPEN_SESSION_STATUSES.includes(current.status)) return;
 
-      await tx.session.updateMany({
-        where: { id: current.id, status: SessionStatus.SCHEDULED },
-        data: { status: SessionStatus.COMPLETED },
-      });
+      const graceEndsAtUtc =
+        current.status === SessionStatus.PENDING_CONFIRMATION && current.confirmationDueAtUtc
+          ? current.confirmationDueAtUtc
+          : new Date(current.endAtUtc.getTime() + graceMs);
+      if (current.attendance === null && graceEndsAtUtc > now) {
+        await tx.session.updateMany({
+          where: { id: current.id, status: SessionStatus.SCHEDULED },
+          data: { status: SessionStatus.PENDING_CONFIRMATION, confirmationDueAtUtc: graceEndsAtUtc },
+        });
+        return;
+      }
 
-      await tx.hourLedgerEntry.upsert({
-        where: { sessionId: current.id },
-        create: {
-          studentId: current.studentId,
-          teacherId: current.teacherId,
-          deltaUnits: -current.consumesUnits,
-          reason: HourLedgerReason.SESSION_CONSUME,
-          sessionId: current.id,
-        },
-        update: {},
-      });
+      await finalizeSession(tx, current, policy);
     });
   }
 
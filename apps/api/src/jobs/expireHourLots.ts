@@ -0,0 +1,35 @@
+import { type PrismaClient } from '@prisma/client';
+
+import { expireHourLot } from '../lib/hourPackages.js';
+
+type ExpireHourLotsOptions = {
+  now?: Date;
+  batchSize?: number;
+};
+
+/**
+ * Closes purchased package lots whose validity has run out; any units left on them are written off with an EXPIRY
+ * ledger entry so the student's balance drops by exactly what expired.
+ */
+export async function expireHourLots(
+  prisma: PrismaClient,
+  options: ExpireHourLotsOptions = {},
+): Promise<{ processed: number; expiredUnits: number }> {
+  const now = options.now ?? new Date();
+  const batchSize = options.batchSize ?? 100;
+
+  const lots = await prisma.hourLot.findMany({
+    where: { expiredAt: null, expiresAt: { lte: now } },
+    select: { id: true },
+    orderBy: { expiresAt: 'asc' },
+    take: batchSize,
+  });
+
+  let expiredUnits = 0;
+  for (const lot of lots) {
+    const units = await prisma.$transaction((tx) => expireHourLot(tx, lot.id, now));
+    expiredUnits += units ?? 0;
+  }
+
+  return { processed: lots.length, expiredUnits };
+}
@@ -0,0 +1,128 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+import { AccountTokenPurpose, UserRole, type Prisma } from '@prisma/client';
+
+import type { MailMessage } from './mail.js';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+function readIntEnv(varName: string, fallback: number): number {
+  const raw = process.env[varName];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+export function accountTokenTtlMs(purpose: AccountTokenPurpose): number {
+  return purpose === AccountTokenPurpose.INVITATION
+    ? readIntEnv('INVITATION_TTL_HOURS', 7 * 24) * 60 * MS_PER_MINUTE
+    : readIntEnv('PASSWORD_RESET_TTL_MINUTES', 60) * MS_PER_MINUTE;
+}
+
+/** Only this hash is stored, so a leaked table cannot be used to take over accounts. */
+function hashAccountToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Creates a single-use token for the user and returns it in plain text, for the link in the mail. Earlier unused
+ * tokens with the same purpose are dropped, so only the latest link works.
+ */
+export async function issueAccountToken(
+  tx: Prisma.TransactionClient,
+  params: { userId: string; purpose: AccountTokenPurpose; now: Date },
+): Promise<{ token: string; expiresAt: Date }> {
+  await tx.accountToken.deleteMany({ where: { userId: params.userId, purpose: params.purpose, usedAt: null } });
+
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(params.now.getTime() + accountTokenTtlMs(params.purpose));
+  await tx.accountToken.create({
+    data: { userId: params.userId, purpose: params.purpose, tokenHash: hashAccountToken(token), expiresAt },
+  });
+
+  return { token, expiresAt };
+}
+
+/**
+ * Marks the token used and returns its user, or null when it is unknown, for another purpose, expired or already
+ * used. The guarded update lets only one of two concurrent requests through.
+ */
+export async function consumeAccountToken(
+  tx: Prisma.TransactionClient,
+  params: { token: string; purpose: AccountTokenPurpose; now: Date },
+): Promise<string | null> {
+  const tokenHash = hashAccountToken(params.token);
+  const existing = await tx.accountToken.findUnique({ where: { tokenHash }, select: { id: true, userId: true } });
+  if (!existing) return null;
+
+  const updated = await tx.accountToken.updateMany({
+    where: { id: existing.id, purpose: params.purpose, usedAt: null, expiresAt: { gt: params.now } },
+    data: { usedAt: params.now },
+  });
+  return updated.count > 0 ? existing.userId : null;
+}
+
+/** The user's invitations, for `isInvitationPending`; use as `accountTokens: invitationTokensSelect`. */
+export const invitationTokensSelect = {
+  where: { purpose: AccountTokenPurpose.INVITATION },
+  select: { usedAt: true },
+} as const;
+
+/** Whether the user was invited and has not set a password through the invitation yet. */
+export function isInvitationPending(invitations: { usedAt: Date | null }[]): boolean {
+  return invitations.length > 0 && invitations.every((invitation) => invitation.usedAt === null);
+}
+
+const DEFAULT_APP_URLS: Record<UserRole, string> = {
+  [UserRole.ADMIN]: 'http://localhost:3003',
+  [UserRole.TEACHER]: 'http://localhost:3002',
+  [UserRole.STUDENT]: 'http://localhost:3000',
+};
+
+/** A page of the web app the user signs in to, e.g. the student app for students. */
+export function appLink(role: UserRole, pathname: string, token: string): string {
+  const base = process.env[`${role}_APP_URL`] ?? DEFAULT_APP_URLS[role];
+  const url = new URL(pathname, base);
+  url.searchParams.set('token', token);
+  return url.toString();
+}
+
+function formatExpiry(expiresAt: Date): string {
+  return `${expiresAt.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+export function invitationMail(params: {
+  to: string;
+  displayName: string | null;
+  orgName: string;
+  link: string;
+  expiresAt: Date;
+}): MailMessage {
+  return {
+    to: params.to,
+    subject: `${params.orgName} 邀请你设置账号密码`,
+    text: [
+      `${params.displayName ?? params.to}，你好：`,
+      '',
+      `${params.orgName} 为你创建了账号。请打开下面的链接设置密码，之后用邮箱 ${params.to} 登录：`,
+      params.link,
+      '',
+      `链接在 ${formatExpiry(params.expiresAt)} 前有效，只能使用一次。`,
+    ].join('\n'),
+  };
+}
+
+export function passwordResetMail(params: { to: string; link: string; expiresAt: Date }): MailMessage {
+  return {
+    to: params.to,
+    subject: '重置密码',
+    text: [
+      '我们收到了重置你账号密码的请求。请打开下面的链接设置新密码：',
+      params.link,
+      '',
+      `链接在 ${formatExpiry(params.expiresAt)} 前有效，只能使用一次。如果不是你本人操作，请忽略这封邮件，密码不会改变。`,
+    ].join('\n'),
+  };
+}
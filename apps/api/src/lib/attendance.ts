@@ -0,0 +1,133 @@
+import {
+  AttendanceOutcome,
+  HourLedgerReason,
+  SessionCharge,
+  SessionStatus,
+  type Prisma,
+  type PrismaClient,
+} from '@prisma/client';
+
+import { chargedUnits } from './cancellationPolicy.js';
+import { recordSessionCharge } from './ledger.js';
+import { recordPayrollAdjustments } from './payroll.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+export type AttendancePolicySettings = {
+  confirmationGraceHours: number;
+  studentNoShowCharge: SessionCharge;
+  studentNoShowTeacherPaid: boolean;
+};
+
+export const DEFAULT_ATTENDANCE_POLICY: AttendancePolicySettings = {
+  confirmationGraceHours: 12,
+  studentNoShowCharge: SessionCharge.FULL,
+  studentNoShowTeacherPaid: true,
+};
+
+/** Sessions that have not been finalised yet; only these accept attendance from the teacher. */
+export const OPEN_SESSION_STATUSES: SessionStatus[] = [SessionStatus.SCHEDULED, SessionStatus.PENDING_CONFIRMATION];
+
+export async function getAttendancePolicy(db: DbClient, orgId: string): Promise<AttendancePolicySettings> {
+  const policy = await db.attendancePolicy.findUnique({
+    where: { orgId },
+    select: { confirmationGraceHours: true, studentNoShowCharge: true, studentNoShowTeacherPaid: true },
+  });
+  return policy ?? DEFAULT_ATTENDANCE_POLICY;
+}
+
+export function confirmationGraceMs(policy: Pick<AttendancePolicySettings, 'confirmationGraceHours'>): number {
+  return policy.confirmationGraceHours * MS_PER_HOUR;
+}
+
+export type AttendanceEffects = {
+  deltaUnits: number;
+  reason: HourLedgerReason;
+  payableMinutes: number;
+};
+
+/**
+ * Ledger and payroll effects of an attendance outcome. Partial attendance still consumes the booked units but only
+ * the attended minutes are paid; a teacher no-show is never charged or paid. Student no-shows follow the org policy.
+ */
+export function attendanceEffects(
+  outcome: AttendanceOutcome,
+  session: { consumesUnits: number; startAtUtc: Date; endAtUtc: Date; attendedMinutes: number | null },
+  policy: AttendancePolicySettings,
+): AttendanceEffects {
+  const scheduledMinutes = Math.round((session.endAtUtc.getTime() - session.startAtUtc.getTime()) / MS_PER_MINUTE);
+
+  if (outcome === AttendanceOutcome.STUDENT_NO_SHOW) {
+    return {
+      deltaUnits: -chargedUnits(policy.studentNoShowCharge, session.consumesUnits),
+      reason: HourLedgerReason.NO_SHOW,
+      payableMinutes: policy.studentNoShowTeacherPaid ? scheduledMinutes : 0,
+    };
+  }
+  if (outcome === AttendanceOutcome.TEACHER_NO_SHOW) {
+    return { deltaUnits: 0, reason: HourLedgerReason.NO_SHOW, payableMinutes: 0 };
+  }
+  if (outcome === AttendanceOutcome.PARTIAL) {
+    return {
+      deltaUnits: -session.consumesUnits,
+      reason: HourLedgerReason.SESSION_CONSUME,
+      payableMinutes: Math.min(session.attendedMinutes ?? scheduledMinutes, scheduledMinutes),
+    };
+  }
+  return { deltaUnits: -session.consumesUnits, reason: HourLedgerReason.SESSION_CONSUME, payableMinutes: scheduledMinutes };
+}
+
+export type FinalizableSession = {
+  id: string;
+  status: SessionStatus;
+  studentId: string;
+  teacherId: string;
+  consumesUnits: number;
+  startAtUtc: Date;
+  endAtUtc: Date;
+  attendance: AttendanceOutcome | null;
+  attendedMinutes: number | null;
+};
+
+export const finalizableSessionSelect = {
+  id: true,
+  status: true,
+  studentId: true,
+  teacherId: true,
+  consumesUnits: true,
+  startAtUtc: true,
+  endAtUtc: true,
+  attendance: true,
+  attendedMinutes: true,
+} as const;
+
+/**
+ * Completes an ended session and writes its ledger entry, drawn from the student's package lots where possible.
+ * Sessions nobody confirmed within the grace period are assumed attended. Returns false when another writer already
+ * moved the session on.
+ */
+export async function finalizeSession(
+  tx: Prisma.TransactionClient,
+  session: FinalizableSession,
+  policy: AttendancePolicySettings,
+): Promise<boolean> {
+  const outcome = session.attendance ?? AttendanceOutcome.ATTENDED;
+  const effects = attendanceEffects(outcome, session, policy);
+
+  const updated = await tx.session.updateMany({
+    where: { id: session.id, status: session.status },
+    data: { status: SessionStatus.COMPLETED, attendance: outcome, payableMinutes: effects.payableMinutes },
+  });
+  if (updated.count === 0) return false;
+
+  await recordPayrollAdjustments(tx, [session.id], 'Session completed after the payroll period was closed');
+
+  if (effects.deltaUnits !== 0) {
+    await recordSessionCharge(tx, session, { deltaUnits: effects.deltaUnits, reason: effects.reason });
+  }
+
+  return true;
+}
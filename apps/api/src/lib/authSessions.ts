@@ -0,0 +1,155 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+import { AuthSessionRevokeReason, type Prisma, type PrismaClient } from '@prisma/client';
+import type { FastifyRequest } from 'fastify';
+
+import { clientIp } from './clientIp.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const USER_AGENT_MAX_LENGTH = 500;
+
+function readIntEnv(varName: string, fallback: number): number {
+  const raw = process.env[varName];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+/** Only this hash is stored, so a leaked table cannot be used to sign in. */
+function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function newRefreshToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export type SessionClient = {
+  userAgent: string | null;
+  ipAddress: string;
+};
+
+/** What the device list shows about the browser or app behind a request. */
+export function sessionClient(request: FastifyRequest): SessionClient {
+  const userAgent = request.headers['user-agent'];
+  return { userAgent: userAgent ? userAgent.slice(0, USER_AGENT_MAX_LENGTH) : null, ipAddress: clientIp(request) };
+}
+
+/**
+ * Starts a signed-in session (one device or browser) and returns its first refresh token. Every refresh rotates the
+ * token; all tokens of a session form one family, so presenting a rotated token revokes the whole session.
+ */
+export async function createAuthSession(
+  db: DbClient,
+  params: { userId: string; client: SessionClient; ttlSeconds: number; now: Date },
+): Promise<{ sessionId: string; refreshToken: string }> {
+  const refreshToken = newRefreshToken();
+  const session = await db.authSession.create({
+    data: {
+      userId: params.userId,
+      userAgent: params.client.userAgent,
+      ipAddress: params.client.ipAddress,
+      lastUsedAt: params.now,
+      expiresAt: new Date(params.now.getTime() + params.ttlSeconds * 1000),
+      refreshTokens: { create: { tokenHash: hashRefreshToken(refreshToken) } },
+    },
+    select: { id: true },
+  });
+  return { sessionId: session.id, refreshToken };
+}
+
+export type RotateRefreshTokenResult =
+  | { status: 'rotated'; sessionId: string; userId: string; refreshToken: string }
+  | { status: 'grace'; sessionId: string; userId: string }
+  | { status: 'reused'; sessionId: string; userId: string }
+  | { status: 'invalid' };
+
+/**
+ * Swaps a refresh token for a new one of the same session. A token that was already rotated means it was copied:
+ * the session is revoked so neither the thief nor the owner can keep using it. The exception is a token rotated
+ * moments ago (`REFRESH_TOKEN_REUSE_GRACE_SECONDS`), which is what two tabs refreshing at once look like; that
+ * caller gets access for the session without a new token, since the other response already set one.
+ */
+export async function rotateRefreshToken(
+  prisma: PrismaClient,
+  params: { token: string; client: SessionClient; ttlSeconds: number; now: Date },
+): Promise<RotateRefreshTokenResult> {
+  const { now } = params;
+  const graceMs = readIntEnv('REFRESH_TOKEN_REUSE_GRACE_SECONDS', 10) * 1000;
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.refreshToken.findUnique({
+      where: { tokenHash: hashRefreshToken(params.token) },
+      select: {
+        id: true,
+        rotatedAt: true,
+        session: { select: { id: true, userId: true, revokedAt: true, expiresAt: true } },
+      },
+    });
+    if (!existing) return { status: 'invalid' };
+
+    const { session } = existing;
+    if (session.revokedAt || session.expiresAt <= now) return { status: 'invalid' };
+
+    const reused = async (): Promise<RotateRefreshTokenResult> => {
+      await revokeAuthSessions(tx, { where: { id: session.id }, reason: AuthSessionRevokeReason.TOKEN_REUSE, now });
+      return { status: 'reused', sessionId: session.id, userId: session.userId };
+    };
+
+    if (existing.rotatedAt) {
+      if (now.getTime() - existing.rotatedAt.getTime() > graceMs) return reused();
+      return { status: 'grace', sessionId: session.id, userId: session.userId };
+    }
+
+    // Guarded: a request racing with the same token waits here and finds it rotated a moment ago.
+    const claimed = await tx.refreshToken.updateMany({
+      where: { id: existing.id, rotatedAt: null },
+      data: { rotatedAt: now },
+    });
+    if (claimed.count === 0) {
+      if (graceMs <= 0) return reused();
+      return { status: 'grace', sessionId: session.id, userId: session.userId };
+    }
+
+    const refreshToken = newRefreshToken();
+    await tx.refreshToken.create({ data: { sessionId: session.id, tokenHash: hashRefreshToken(refreshToken) } });
+    await tx.authSession.update({
+      where: { id: session.id },
+      data: {
+        userAgent: params.client.userAgent,
+        ipAddress: params.client.ipAddress,
+        lastUsedAt: now,
+        expiresAt: new Date(now.getTime() + params.ttlSeconds * 1000),
+      },
+    });
+
+    return { status: 'rotated', sessionId: session.id, userId: session.userId, refreshToken };
+  });
+}
+
+/** The session a refresh token belongs to, whether or not it is still usable. */
+export async function findSessionIdByRefreshToken(db: DbClient, token: string): Promise<string | null> {
+  const existing = await db.refreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(token) },
+    select: { sessionId: true },
+  });
+  return existing?.sessionId ?? null;
+}
+
+/** Revokes the matching sessions that are still live and returns how many there were. */
+export async function revokeAuthSessions(
+  db: DbClient,
+  params: { where: Prisma.AuthSessionWhereInput; reason: AuthSessionRevokeReason; now: Date },
+): Promise<number> {
+  const revoked = await db.authSession.updateMany({
+    where: { ...params.where, revokedAt: null },
+    data: { revokedAt: params.now, revokedReason: params.reason },
+  });
+  return revoked.count;
+}
+
+/** Live sessions only: not revoked and not past their refresh expiry. */
+export function activeAuthSessionWhere(now: Date): Prisma.AuthSessionWhereInput {
+  return { revokedAt: null, expiresAt: { gt: now } };
+}
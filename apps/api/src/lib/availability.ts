@@ -0,0 +1,174 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+import { isoDateAddDays, utcToLocalDateMinutes } from './timezone.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export type AvailabilityIssueKind = 'OUTSIDE_WINDOWS' | 'BLACKOUT';
+
+export type AvailabilityIssue = {
+  kind: AvailabilityIssueKind;
+  dateLocal: string;
+};
+
+export type AvailabilityWindowInput = {
+  weekday: number;
+  startTimeLocal: string;
+  endTimeLocal: string;
+};
+
+/** Minutes since local midnight. Unlike a time of day, `24:00` is allowed so a window can run to the end of the day. */
+export function parseWindowMinutes(timeStr: string): number {
+  const match = /^(\d{2}):(\d{2})$/.exec(timeStr);
+  if (!match) throw new Error('Invalid window time');
+
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  if (minute > 59 || hour > 24 || (hour === 24 && minute !== 0)) throw new Error('Invalid window time');
+
+  return hour * 60 + minute;
+}
+
+export function isValidWindowTime(timeStr: string): boolean {
+  try {
+    parseWindowMinutes(timeStr);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Returns the index of the first window that overlaps an earlier window on the same weekday, or -1. */
+export function findOverlappingWindow(windows: AvailabilityWindowInput[]): number {
+  for (let index = 0; index < windows.length; index += 1) {
+    const current = windows[index]!;
+    const start = parseWindowMinutes(current.startTimeLocal);
+    const end = parseWindowMinutes(current.endTimeLocal);
+
+    for (let other = 0; other < index; other += 1) {
+      const previous = windows[other]!;
+      if (previous.weekday !== current.weekday) continue;
+      if (start < parseWindowMinutes(previous.endTimeLocal) && end > parseWindowMinutes(previous.startTimeLocal)) {
+        return index;
+      }
+    }
+  }
+  return -1;
+}
+
+/** ISO weekday of a YYYY-MM-DD date: 1 = Monday … 7 = Sunday. */
+export function isoWeekday(dateLocal: string): number {
+  const day = new Date(`${dateLocal}T00:00:00.000Z`).getUTCDay();
+  return day === 0 ? 7 : day;
+}
+
+function isCovered(windows: { start: number; end: number }[], start: number, end: number): boolean {
+  // Windows are non-overlapping, so walking them in order and extending the covered edge merges adjacent ones.
+  let coveredUntil = start;
+  for (const window of windows) {
+    if (window.start > coveredUntil) break;
+    if (window.end > coveredUntil) coveredUntil = window.end;
+    if (coveredUntil >= end) return true;
+  }
+  return coveredUntil >= end;
+}
+
+export type AvailabilityRules = {
+  timeZone: string;
+  hasWindows: boolean;
+  windowsByWeekday: Map<number, { start: number; end: number }[]>;
+  blackoutDates: Set<string>;
+};
+
+/** Loads a teacher's windows and blackout dates once so many candidate times can be checked without extra queries. */
+export async function loadAvailabilityRules(db: DbClient, teacherId: string): Promise<AvailabilityRules | null> {
+  const [profile, windows, blackouts] = await Promise.all([
+    db.teacherProfile.findUnique({ where: { userId: teacherId }, select: { timeZone: true } }),
+    db.teacherAvailabilityWindow.findMany({
+      where: { teacherId },
+      select: { weekday: true, startTimeLocal: true, endTimeLocal: true },
+    }),
+    db.teacherBlackoutDate.findMany({ where: { teacherId }, select: { dateLocal: true } }),
+  ]);
+  if (!profile) return null;
+
+  const windowsByWeekday = new Map<number, { start: number; end: number }[]>();
+  for (const window of windows) {
+    const list = windowsByWeekday.get(window.weekday) ?? [];
+    list.push({ start: parseWindowMinutes(window.startTimeLocal), end: parseWindowMinutes(window.endTimeLocal) });
+    windowsByWeekday.set(window.weekday, list);
+  }
+  for (const list of windowsByWeekday.values()) list.sort((a, b) => a.start - b.start);
+
+  return {
+    timeZone: profile.timeZone,
+    hasWindows: windows.length > 0,
+    windowsByWeekday,
+    blackoutDates: new Set(blackouts.map((blackout) => blackout.dateLocal)),
+  };
+}
+
+/**
+ * Checks a time range against the teacher's weekly windows and blackout dates, both read in the teacher's own
+ * time zone. A teacher with no windows configured is treated as available at any time.
+ */
+export function checkAvailability(rules: AvailabilityRules, startAtUtc: Date, endAtUtc: Date): AvailabilityIssue[] {
+  const start = utcToLocalDateMinutes(startAtUtc, rules.timeZone);
+  const end = utcToLocalDateMinutes(endAtUtc, rules.timeZone);
+
+  const issues: AvailabilityIssue[] = [];
+  for (let dateLocal = start.dateLocal; dateLocal <= end.dateLocal; dateLocal = isoDateAddDays(dateLocal, 1)) {
+    const segmentStart = dateLocal === start.dateLocal ? start.minutes : 0;
+    const segmentEnd = dateLocal === end.dateLocal ? end.minutes : MINUTES_PER_DAY;
+    if (segmentEnd <= segmentStart) continue;
+
+    if (rules.blackoutDates.has(dateLocal)) {
+      issues.push({ kind: 'BLACKOUT', dateLocal });
+      continue;
+    }
+
+    const windows = rules.windowsByWeekday.get(isoWeekday(dateLocal)) ?? [];
+    if (rules.hasWindows && !isCovered(windows, segmentStart, segmentEnd)) {
+      issues.push({ kind: 'OUTSIDE_WINDOWS', dateLocal });
+    }
+  }
+
+  return issues;
+}
+
+export async function findAvailabilityIssues(
+  db: DbClient,
+  params: { teacherId: string; startAtUtc: Date; endAtUtc: Date },
+): Promise<AvailabilityIssue[]> {
+  const rules = await loadAvailabilityRules(db, params.teacherId);
+  if (!rules) return [];
+  return checkAvailability(rules, params.startAtUtc, params.endAtUtc);
+}
+
+export async function loadTeacherAvailability(db: DbClient, teacherId: string) {
+  const [profile, windows, blackoutDates] = await Promise.all([
+    db.teacherProfile.findUnique({ where: { userId: teacherId }, select: { timeZone: true } }),
+    db.teacherAvailabilityWindow.findMany({
+      where: { teacherId },
+      orderBy: [{ weekday: 'asc' }, { startTimeLocal: 'asc' }],
+      select: { id: true, weekday: true, startTimeLocal: true, endTimeLocal: true },
+    }),
+    db.teacherBlackoutDate.findMany({
+      where: { teacherId },
+      orderBy: { dateLocal: 'asc' },
+      select: { id: true, dateLocal: true, reason: true },
+    }),
+  ]);
+
+  return {
+    timeZone: profile?.timeZone ?? null,
+    windows,
+    blackoutDates: blackoutDates.map((blackout) => ({
+      id: blackout.id,
+      dateLocal: blackout.dateLocal,
+      reason: blackout.reason ?? null,
+    })),
+  };
+}
@@ -0,0 +1,137 @@
+import { BillingMode, type Prisma, type PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+
+import { OPEN_SESSION_STATUSES } from './attendance.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export type BalancePolicySettings = {
+  /** Prepaid students at or below this many available units are flagged as running low. */
+  lowBalanceUnits: number;
+  /** When on, sessions cannot be booked past the overdraft limit. */
+  blockScheduling: boolean;
+  /** How far below zero available units may go before booking is blocked; 0 blocks at zero. */
+  overdraftLimitUnits: number;
+};
+
+/** Used until an org saves its own policy; warns but never blocks, as scheduling always behaved. */
+export const DEFAULT_BALANCE_POLICY: BalancePolicySettings = {
+  lowBalanceUnits: 2,
+  blockScheduling: false,
+  overdraftLimitUnits: 0,
+};
+
+export const updateBalancePolicyBodySchema = z.object({
+  lowBalanceUnits: z.number().int().min(0).max(1000),
+  blockScheduling: z.boolean(),
+  overdraftLimitUnits: z.number().int().min(0).max(1000),
+});
+
+export async function getBalancePolicy(db: DbClient, orgId: string): Promise<BalancePolicySettings> {
+  const policy = await db.balancePolicy.findUnique({
+    where: { orgId },
+    select: { lowBalanceUnits: true, blockScheduling: true, overdraftLimitUnits: true },
+  });
+  return policy ?? DEFAULT_BALANCE_POLICY;
+}
+
+export type BalanceStatus = 'OK' | 'LOW' | 'EMPTY' | 'OVERDRAWN';
+
+export type StudentBalance = {
+  /** Sum of the student's ledger entries. */
+  balanceUnits: number;
+  /** Units that booked sessions not yet completed will consume. */
+  scheduledUnits: number;
+  /** What is left once booked sessions are paid for; thresholds apply to this. */
+  availableUnits: number;
+  /** Always OK for students billed per session, who are not expected to hold hours. */
+  status: BalanceStatus;
+};
+
+export function balanceStatus(availableUnits: number, policy: BalancePolicySettings): BalanceStatus {
+  if (availableUnits < 0) return 'OVERDRAWN';
+  if (availableUnits === 0) return 'EMPTY';
+  if (availableUnits <= policy.lowBalanceUnits) return 'LOW';
+  return 'OK';
+}
+
+/** Balances for several students of one org, keyed by student id. */
+export async function loadStudentBalances(
+  db: DbClient,
+  params: { studentIds: string[]; policy: BalancePolicySettings },
+): Promise<Map<string, StudentBalance>> {
+  const balances = new Map<string, StudentBalance>();
+  if (params.studentIds.length === 0) return balances;
+
+  const [ledger, booked, profiles] = await Promise.all([
+    db.hourLedgerEntry.groupBy({
+      by: ['studentId'],
+      where: { studentId: { in: params.studentIds } },
+      _sum: { deltaUnits: true },
+    }),
+    db.session.groupBy({
+      by: ['studentId'],
+      where: { studentId: { in: params.studentIds }, status: { in: OPEN_SESSION_STATUSES } },
+      _sum: { consumesUnits: true },
+    }),
+    db.studentProfile.findMany({
+      where: { userId: { in: params.studentIds } },
+      select: { userId: true, billingMode: true },
+    }),
+  ]);
+
+  const ledgerById = new Map(ledger.map((row) => [row.studentId, row._sum.deltaUnits ?? 0]));
+  const bookedById = new Map(booked.map((row) => [row.studentId, row._sum.consumesUnits ?? 0]));
+  const prepaidIds = new Set(
+    profiles.filter((profile) => profile.billingMode === BillingMode.PREPAID).map((profile) => profile.userId),
+  );
+
+  for (const studentId of params.studentIds) {
+    const balanceUnits = ledgerById.get(studentId) ?? 0;
+    const scheduledUnits = bookedById.get(studentId) ?? 0;
+    const availableUnits = balanceUnits - scheduledUnits;
+    balances.set(studentId, {
+      balanceUnits,
+      scheduledUnits,
+      availableUnits,
+      status: prepaidIds.has(studentId) ? balanceStatus(availableUnits, params.policy) : 'OK',
+    });
+  }
+
+  return balances;
+}
+
+export async function loadStudentBalance(
+  db: DbClient,
+  params: { studentId: string; policy: BalancePolicySettings },
+): Promise<StudentBalance> {
+  const balances = await loadStudentBalances(db, { studentIds: [params.studentId], policy: params.policy });
+  return balances.get(params.studentId)!;
+}
+
+/**
+ * Why booking `consumesUnits` more for a prepaid student breaks the org's policy, or null when it may go ahead.
+ * Students billed per session are never blocked.
+ */
+export async function findSchedulingBalanceIssue(
+  db: DbClient,
+  params: { orgId: string; studentId: string; consumesUnits: number },
+): Promise<{ message: string; balance: StudentBalance; overdraftLimitUnits: number } | null> {
+  const policy = await getBalancePolicy(db, params.orgId);
+  if (!policy.blockScheduling) return null;
+
+  const profile = await db.studentProfile.findUnique({
+    where: { userId: params.studentId },
+    select: { billingMode: true },
+  });
+  if (profile?.billingMode !== BillingMode.PREPAID) return null;
+
+  const balance = await loadStudentBalance(db, { studentId: params.studentId, policy });
+  if (balance.availableUnits - params.consumesUnits >= -policy.overdraftLimitUnits) return null;
+
+  const message =
+    policy.overdraftLimitUnits > 0
+      ? `Insufficient hours: booking would exceed the overdraft limit of ${policy.overdraftLimitUnits} unit(s)`
+      : 'Insufficient hours: the student has no units left for this session';
+  return { message, balance, overdraftLimitUnits: policy.overdraftLimitUnits };
+}
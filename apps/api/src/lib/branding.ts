@@ -0,0 +1,28 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export type DocumentBrandingSettings = {
+  headerName: string | null;
+  contactLine: string | null;
+  accentColor: string;
+  footerNote: string | null;
+};
+
+/** Used until an org saves its own branding; documents then carry the org name on a neutral dark band. */
+export const DEFAULT_DOCUMENT_BRANDING: DocumentBrandingSettings = {
+  headerName: null,
+  contactLine: null,
+  accentColor: '#1F2937',
+  footerNote: null,
+};
+
+export const ACCENT_COLOR_PATTERN = /^#[0-9A-Fa-f]{6}$/;
+
+export async function getDocumentBranding(db: DbClient, orgId: string): Promise<DocumentBrandingSettings> {
+  const branding = await db.documentBranding.findUnique({
+    where: { orgId },
+    select: { headerName: true, contactLine: true, accentColor: true, footerNote: true },
+  });
+  return branding ?? DEFAULT_DOCUMENT_BRANDING;
+}
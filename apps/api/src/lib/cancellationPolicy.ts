@@ -0,0 +1,42 @@
+import { SessionCharge, type Prisma, type PrismaClient } from '@prisma/client';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+export type CancellationPolicySettings = {
+  cutoffHours: number;
+  allowLateCancellation: boolean;
+  lateCancelCharge: SessionCharge;
+  lateCancelTeacherPaid: boolean;
+};
+
+/** Used until an org saves its own policy; matches the original fixed 24-hour rule with no late cancellations. */
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicySettings = {
+  cutoffHours: 24,
+  allowLateCancellation: false,
+  lateCancelCharge: SessionCharge.FULL,
+  lateCancelTeacherPaid: true,
+};
+
+export async function getCancellationPolicy(db: DbClient, orgId: string): Promise<CancellationPolicySettings> {
+  const policy = await db.cancellationPolicy.findUnique({
+    where: { orgId },
+    select: { cutoffHours: true, allowLateCancellation: true, lateCancelCharge: true, lateCancelTeacherPaid: true },
+  });
+  return policy ?? DEFAULT_CANCELLATION_POLICY;
+}
+
+export function cancellationCutoffMs(policy: Pick<CancellationPolicySettings, 'cutoffHours'>): number {
+  return policy.cutoffHours * MS_PER_HOUR;
+}
+
+/**
+ * Units deducted for a charged late cancellation or no-show. Ledger units are whole numbers, so a half charge rounds
+ * up: a one-unit session still costs one unit.
+ */
+export function chargedUnits(charge: SessionCharge, consumesUnits: number): number {
+  if (charge === SessionCharge.FULL) return consumesUnits;
+  if (charge === SessionCharge.HALF) return Math.ceil(consumesUnits / 2);
+  return 0;
+}
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Teachers get a short fixed cutoff so they can report sudden illness on the day; anything later has to go through
+ * an admin directly. Student cutoffs come from the org's cancellation policy.
+ */
+export const TEACHER_CHANGE_REQUEST_CUTOFF_MS = 2 * MS_PER_HOUR;
+
+export function isPastCutoff(startAtUtc: Date, cutoffMs: number, nowUtc: Date): boolean {
+  const cutoffUtc = new Date(startAtUtc.getTime() - cutoffMs);
+  return nowUtc > cutoffUtc;
+}
+
+export const createChangeRequestBodySchema = z
+  .union([
+    z.object({ type: z.literal('CANCEL') }),
+    z.object({
+      type: z.literal('RESCHEDULE'),
+      proposedStartAtUtc: z.coerce.date(),
+      proposedEndAtUtc: z.coerce.date(),
+      proposedTimeZone: z.string().min(1),
+    }),
+  ])
+  .superRefine((data, ctx) => {
+    if (data.type !== 'RESCHEDULE') return;
+    if (data.proposedEndAtUtc <= data.proposedStartAtUtc) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['proposedEndAtUtc'],
+        message: '`proposedEndAtUtc` must be after `proposedStartAtUtc`',
+      });
+    }
+  });
@@ -0,0 +1,20 @@
+import type { FastifyRequest } from 'fastify';
+
+/** The caller's address: the first `x-forwarded-for` hop when behind the proxy, otherwise the socket address. */
+export function clientIp(request: FastifyRequest): string {
+  const header = request.headers['x-forwarded-for'];
+  if (typeof header === 'string' && header.length > 0) return header.split(',')[0]?.trim() || request.ip;
+  if (Array.isArray(header) && header[0]) return header[0].split(',')[0]?.trim() || request.ip;
+  return request.ip;
+}
+
+/**
+ * The caller's country as an ISO 3166 code, when the proxy or CDN in front of the API adds one (Cloudflare's
+ * `cf-ipcountry` by default; set `CLIENT_COUNTRY_HEADER` for another). Null when unknown.
+ */
+export function clientCountry(request: FastifyRequest): string | null {
+  const header = request.headers[(process.env['CLIENT_COUNTRY_HEADER'] ?? 'cf-ipcountry').toLowerCase()];
+  const value = (Array.isArray(header) ? header[0] : header)?.trim().toUpperCase();
+  // Cloudflare sends XX for unknown and T1 for Tor.
+  return value && /^[A-Z][A-Z0-9]$/.test(value) && value !== 'XX' ? value : null;
+}
@@ -0,0 +1,447 @@
+import { HourLedgerReason, type Currency, type Prisma, type PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+
+import type { DocumentBrandingSettings } from './branding.js';
+import {
+  collapseTransferPairs,
+  hourTransferSelect,
+  serializeHourTransfer,
+  type SerializedHourTransfer,
+} from './hourTransfers.js';
+import { billingPeriodToUtcRange, INVOICE_PERIOD_MAX_DAYS, periodDateSchema } from './invoices.js';
+import { prorateCents, scaleCents } from './money.js';
+import type { TeacherPayroll } from './payroll.js';
+import { A4_HEIGHT, A4_WIDTH, parseHexColor, PdfDocument, textWidth, type RgbColor } from './pdf.js';
+import { isoDateAddDays, utcToLocalDateMinutes } from './timezone.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const MARGIN = 40;
+const CONTENT_RIGHT = A4_WIDTH - MARGIN;
+const FOOTER_TOP = A4_HEIGHT - 36;
+const ROW_HEIGHT = 16;
+const GRAY: RgbColor = [0.42, 0.45, 0.5];
+const RULE: RgbColor = [0.85, 0.87, 0.9];
+
+export const statementQuerySchema = z
+  .object({
+    from: periodDateSchema,
+    to: periodDateSchema,
+  })
+  .superRefine((data, ctx) => {
+    if (data.to < data.from) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['to'], message: '`to` must not be before `from`' });
+      return;
+    }
+    if (isoDateAddDays(data.from, INVOICE_PERIOD_MAX_DAYS) <= data.to) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['to'],
+        message: `Statement period cannot exceed ${INVOICE_PERIOD_MAX_DAYS} days`,
+      });
+    }
+  });
+
+const REASON_LABELS: Record<HourLedgerReason, string> = {
+  PURCHASE: '购买 Purchase',
+  ADJUSTMENT: '调整 Adjustment',
+  SESSION_CONSUME: '上课 Lesson',
+  LATE_CANCEL: '迟取消 Late cancel',
+  NO_SHOW: '缺席 No-show',
+  EXPIRY: '过期 Expired',
+  TRANSFER: '转移 Transfer',
+  REVERSAL: '冲正 Reversal',
+};
+
+function formatMoney(cents: number, currency: string): string {
+  const sign = cents < 0 ? '-' : '';
+  const amount = new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(
+    Math.abs(cents) / 100,
+  );
+  return `${sign}${currency} ${amount}`;
+}
+
+function formatLocalDateTime(date: Date, timeZone: string): string {
+  const { dateLocal, minutes } = utcToLocalDateMinutes(date, timeZone);
+  return `${dateLocal} ${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function fitText(text: string, size: number, maxWidth: number): string {
+  if (textWidth(text, size) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}…`, size) > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted}…`;
+}
+
+type Column = { label: string; x: number; align?: 'left' | 'right'; width?: number };
+
+/**
+ * Shared letterhead, tables and footers so every generated document carries the same org branding. `y` is the
+ * running cursor; tables start a new page (with the letterhead repeated) when they run out of room.
+ */
+function createBrandedDocument(params: {
+  title: { zh: string; en: string };
+  orgName: string;
+  branding: DocumentBrandingSettings;
+}) {
+  const doc = new PdfDocument(`${params.title.en} - ${params.branding.headerName ?? params.orgName}`);
+  const accent = parseHexColor(params.branding.accentColor);
+  let y = 0;
+
+  const drawLetterhead = () => {
+    doc.rect(0, 0, A4_WIDTH, 8, accent);
+    doc.text(params.branding.headerName ?? params.orgName, MARGIN, 28, { size: 18, bold: true, color: accent });
+    if (params.branding.contactLine) {
+      doc.text(fitText(params.branding.contactLine, 9, 300), MARGIN, 52, { size: 9, color: GRAY });
+    }
+    doc.text(params.title.zh, CONTENT_RIGHT, 26, { size: 16, bold: true, align: 'right' });
+    doc.text(params.title.en, CONTENT_RIGHT, 46, { size: 10, color: GRAY, align: 'right' });
+    doc.line(MARGIN, 72, CONTENT_RIGHT, 72, { color: accent, width: 1 });
+    y = 86;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= FOOTER_TOP - 8) return;
+    doc.addPage();
+    drawLetterhead();
+  };
+
+  drawLetterhead();
+
+  return {
+    field(label: string, value: string) {
+      ensureSpace(ROW_HEIGHT);
+      doc.text(label, MARGIN, y, { size: 9, color: GRAY });
+      doc.text(value, MARGIN + 130, y, { size: 10 });
+      y += ROW_HEIGHT;
+    },
+    heading(text: string) {
+      ensureSpace(ROW_HEIGHT * 3);
+      y += 10;
+      doc.text(text, MARGIN, y, { size: 12, bold: true, color: accent });
+      y += 20;
+    },
+    note(text: string) {
+      ensureSpace(ROW_HEIGHT);
+      doc.text(text, MARGIN, y, { size: 9, color: GRAY });
+      y += ROW_HEIGHT;
+    },
+    table(columns: Column[], rows: string[][]) {
+      const drawHeader = () => {
+        doc.rect(MARGIN, y - 3, CONTENT_RIGHT - MARGIN, ROW_HEIGHT, [0.95, 0.96, 0.97]);
+        for (const column of columns) {
+          doc.text(column.label, column.x, y, { size: 8, color: GRAY, align: column.align ?? 'left' });
+        }
+        y += ROW_HEIGHT + 2;
+      };
+
+      ensureSpace(ROW_HEIGHT * 2);
+      drawHeader();
+      for (const row of rows) {
+        if (y + ROW_HEIGHT > FOOTER_TOP - 8) {
+          doc.addPage();
+          drawLetterhead();
+          drawHeader();
+        }
+        columns.forEach((column, index) => {
+          const value = row[index] ?? '';
+          const text = column.width ? fitText(value, 8, column.width) : value;
+          doc.text(text, column.x, y, { size: 8, align: column.align ?? 'left' });
+        });
+        doc.line(MARGIN, y + ROW_HEIGHT - 4, CONTENT_RIGHT, y + ROW_HEIGHT - 4, { color: RULE });
+        y += ROW_HEIGHT;
+      }
+    },
+    finish(generatedAt: Date): Buffer {
+      const total = doc.pageCount;
+      for (let index = 0; index < total; index += 1) {
+        doc.goToPage(index);
+        if (params.branding.footerNote) {
+          doc.text(fitText(params.branding.footerNote, 8, 330), MARGIN, FOOTER_TOP, { size: 8, color: GRAY });
+        }
+        doc.text(`生成于 Generated ${generatedAt.toISOString().slice(0, 10)}`, MARGIN, FOOTER_TOP + 12, {
+          size: 8,
+          color: GRAY,
+        });
+        doc.text(`第 ${index + 1} / ${total} 页  Page ${index + 1} of ${total}`, CONTENT_RIGHT, FOOTER_TOP + 12, {
+          size: 8,
+          color: GRAY,
+          align: 'right',
+        });
+      }
+      return doc.toBuffer();
+    },
+  };
+}
+
+export function renderPayslipPdf(params: {
+  orgName: string;
+  branding: DocumentBrandingSettings;
+  teacherName: string;
+  payroll: TeacherPayroll;
+  generatedAt?: Date;
+}): Buffer {
+  const { payroll } = params;
+  const layout = createBrandedDocument({
+    title: { zh: '工资单', en: 'Payslip' },
+    orgName: params.orgName,
+    branding: params.branding,
+  });
+
+  layout.field('老师 Teacher', params.teacherName);
+  layout.field('周期 Pay period', `${payroll.periodStartLocal} ~ ${payroll.periodEndLocal} (${payroll.timeZone})`);
+
+  layout.heading('汇总 Summary');
+  if (payroll.totals.length === 0) {
+    layout.note('本周期无计薪课程 No payable sessions in this period');
+  } else {
+    layout.table(
+      [
+        { label: '币种 Currency', x: MARGIN },
+        { label: '课次 Sessions', x: 300, align: 'right' },
+        { label: '课时 Hours', x: 400, align: 'right' },
+        { label: '金额 Amount', x: CONTENT_RIGHT, align: 'right' },
+      ],
+      payroll.totals.map((total) => [
+        total.currency,
+        String(total.sessionsCount),
+        total.totalHours.toFixed(2),
+        formatMoney(total.totalCents, total.currency),
+      ]),
+    );
+
+    layout.heading('按学生 By student');
+    layout.table(
+      [
+        { label: '学生 Student', x: MARGIN, width: 200 },
+        { label: '币种 Currency', x: 250 },
+        { label: '课次 Sessions', x: 340, align: 'right' },
+        { label: '课时 Hours', x: 420, align: 'right' },
+        { label: '金额 Amount', x: CONTENT_RIGHT, align: 'right' },
+      ],
+      payroll.byStudent.flatMap((student) =>
+        student.totals.map((total) => [
+          student.studentName ?? student.studentId,
+          total.currency,
+          String(total.sessionsCount),
+          total.totalHours.toFixed(2),
+          formatMoney(total.totalCents, total.currency),
+        ]),
+      ),
+    );
+  }
+
+  return layout.finish(params.generatedAt ?? new Date());
+}
+
+export type StudentStatement = {
+  fromLocal: string;
+  toLocal: string;
+  timeZone: string;
+  openingUnits: number;
+  closingUnits: number;
+  rows: {
+    id: string;
+    createdAt: Date;
+    reason: HourLedgerReason;
+    deltaUnits: number;
+    balanceUnits: number;
+    teacherName: string | null;
+    sessionStartAtUtc: Date | null;
+    transfer: SerializedHourTransfer | null;
+    hourlyRateCents: number | null;
+    currency: Currency | null;
+    amountCents: number | null;
+  }[];
+  totals: { currency: Currency; sessionCents: number; purchaseCents: number }[];
+};
+
+/**
+ * Ledger history for a period with a running balance. Session entries are valued from the session's rate snapshot
+ * (scaled to the units actually deducted); purchases carry the price recorded when the hours were added.
+ */
+export async function loadStudentStatement(
+  db: DbClient,
+  params: { studentId: string; timeZone: string; fromLocal: string; toLocal: string },
+): Promise<StudentStatement> {
+  const { rangeStartUtc, rangeEndUtcExclusive } = billingPeriodToUtcRange(
+    params.fromLocal,
+    params.toLocal,
+    params.timeZone,
+  );
+
+  const [opening, entries] = await Promise.all([
+    db.hourLedgerEntry.aggregate({
+      where: { studentId: params.studentId, createdAt: { lt: rangeStartUtc } },
+      _sum: { deltaUnits: true },
+    }),
+    db.hourLedgerEntry.findMany({
+      where: { studentId: params.studentId, createdAt: { gte: rangeStartUtc, lt: rangeEndUtcExclusive } },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      select: {
+        id: true,
+        deltaUnits: true,
+        reason: true,
+        amountCents: true,
+        currency: true,
+        createdAt: true,
+        teacher: { select: { teacherProfile: { select: { displayName: true } } } },
+        transfer: { select: hourTransferSelect },
+        session: {
+          select: {
+            startAtUtc: true,
+            endAtUtc: true,
+            consumesUnits: true,
+            studentHourlyRateCentsSnapshot: true,
+            currencySnapshot: true,
+          },
+        },
+      },
+    }),
+  ]);
+
+  const openingUnits = opening._sum.deltaUnits ?? 0;
+  let balance = openingUnits;
+  const totalsByCurrency = new Map<Currency, { currency: Currency; sessionCents: number; purchaseCents: number }>();
+
+  const rows = collapseTransferPairs(entries).map((entry) => {
+    balance += entry.deltaUnits;
+
+    let hourlyRateCents: number | null = null;
+    let currency: Currency | null = entry.currency ?? null;
+    let amountCents: number | null = entry.amountCents ?? null;
+
+    const session = entry.session;
+    if (session) {
+      hourlyRateCents = session.studentHourlyRateCentsSnapshot;
+      currency = session.currencySnapshot;
+      amountCents = null;
+      if (entry.deltaUnits < 0 && session.consumesUnits > 0) {
+        const fullCents = prorateCents(
+          session.endAtUtc.getTime() - session.startAtUtc.getTime(),
+          session.studentHourlyRateCentsSnapshot,
+        );
+        amountCents = scaleCents(fullCents, Math.min(-entry.deltaUnits, session.consumesUnits), session.consumesUnits);
+      }
+    }
+
+    if (currency && amountCents !== null) {
+      const totals = totalsByCurrency.get(currency) ?? { currency, sessionCents: 0, purchaseCents: 0 };
+      if (session) totals.sessionCents += amountCents;
+      else if (entry.reason === HourLedgerReason.PURCHASE) totals.purchaseCents += amountCents;
+      totalsByCurrency.set(currency, totals);
+    }
+
+    return {
+      id: entry.id,
+      createdAt: entry.createdAt,
+      reason: entry.reason,
+      deltaUnits: entry.deltaUnits,
+      balanceUnits: balance,
+      teacherName: entry.teacher?.teacherProfile?.displayName ?? null,
+      sessionStartAtUtc: session?.startAtUtc ?? null,
+      transfer: entry.transfer ? serializeHourTransfer(entry.transfer) : null,
+      hourlyRateCents,
+      currency,
+      amountCents,
+    };
+  });
+
+  return {
+    fromLocal: params.fromLocal,
+    toLocal: params.toLocal,
+    timeZone: params.timeZone,
+    openingUnits,
+    closingUnits: balance,
+    rows,
+    totals: Array.from(totalsByCurrency.values()).sort((a, b) => a.currency.localeCompare(b.currency)),
+  };
+}
+
+function transferBucketLabel(side: SerializedHourTransfer['from']): string {
+  return side.teacherName ?? side.teacherId ?? '通用 General';
+}
+
+/** Teacher buckets for moves within the student's own hours, otherwise the other student. */
+function transferDetails(transfer: SerializedHourTransfer, deltaUnits: number): string {
+  if (transfer.from.studentId === transfer.to.studentId) {
+    return `${transferBucketLabel(transfer.from)} → ${transferBucketLabel(transfer.to)} (${transfer.units})`;
+  }
+  const other = deltaUnits < 0 ? transfer.to : transfer.from;
+  const otherName = other.studentName ?? other.studentId ?? '—';
+  return deltaUnits < 0 ? `转给 To ${otherName}` : `来自 From ${otherName}`;
+}
+
+export function renderStudentStatementPdf(params: {
+  orgName: string;
+  branding: DocumentBrandingSettings;
+  studentName: string;
+  statement: StudentStatement;
+  generatedAt?: Date;
+}): Buffer {
+  const { statement } = params;
+  const layout = createBrandedDocument({
+    title: { zh: '学生对账单', en: 'Student statement' },
+    orgName: params.orgName,
+    branding: params.branding,
+  });
+
+  layout.field('学生 Student', params.studentName);
+  layout.field('期间 Period', `${statement.fromLocal} ~ ${statement.toLocal} (${statement.timeZone})`);
+  layout.field('期初课时 Opening units', String(statement.openingUnits));
+  layout.field('期末课时 Closing units', String(statement.closingUnits));
+
+  layout.heading('课时明细 Ledger');
+  if (statement.rows.length === 0) {
+    layout.note('本期间无课时变动 No ledger activity in this period');
+  } else {
+    layout.table(
+      [
+        { label: '日期 Date', x: MARGIN },
+        { label: '类型 Type', x: 100, width: 80 },
+        { label: '说明 Details', x: 185, width: 160 },
+        { label: '课时 Units', x: 385, align: 'right' },
+        { label: '余额 Balance', x: 430, align: 'right' },
+        { label: '费率 Rate/h', x: 488, align: 'right' },
+        { label: '金额 Amount', x: CONTENT_RIGHT, align: 'right' },
+      ],
+      statement.rows.map((row) => {
+        const details = row.transfer
+          ? transferDetails(row.transfer, row.deltaUnits)
+          : [
+              row.sessionStartAtUtc ? formatLocalDateTime(row.sessionStartAtUtc, statement.timeZone) : null,
+              row.teacherName,
+            ]
+              .filter(Boolean)
+              .join(' · ');
+        return [
+          utcToLocalDateMinutes(row.createdAt, statement.timeZone).dateLocal,
+          REASON_LABELS[row.reason],
+          details || '—',
+          row.deltaUnits > 0 ? `+${row.deltaUnits}` : String(row.deltaUnits),
+          String(row.balanceUnits),
+          row.hourlyRateCents !== null && row.currency ? formatMoney(row.hourlyRateCents, row.currency) : '',
+          row.amountCents !== null && row.currency ? formatMoney(row.amountCents, row.currency) : '',
+        ];
+      }),
+    );
+  }
+
+  if (statement.totals.length > 0) {
+    layout.heading('金额汇总 Totals');
+    layout.table(
+      [
+        { label: '币种 Currency', x: MARGIN },
+        { label: '课程费用 Lessons', x: 330, align: 'right' },
+        { label: '购买金额 Purchases', x: CONTENT_RIGHT, align: 'right' },
+      ],
+      statement.totals.map((total) => [
+        total.currency,
+        formatMoney(total.sessionCents, total.currency),
+        formatMoney(total.purchaseCents, total.currency),
+      ]),
+    );
+  }
+
+  return layout.finish(params.generatedAt ?? new Date());
+}
@@ -0,0 +1,208 @@
+import { Currency, type Prisma, type PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+
+import { parseCsv } from './csv.js';
+import { periodDateSchema } from './invoices.js';
+import { utcToLocalDateMinutes } from './timezone.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/** Rates are stored with 8 decimal places; conversions work on them as integers scaled by this. */
+const RATE_SCALE = 100_000_000n;
+const RATE_DECIMALS = 8;
+
+export const exchangeRateSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{1,10}(\.\d{1,8})?$/, { message: 'Rate must be a positive decimal with up to 8 decimal places' })
+  .refine((value) => parseScaledRate(value) > 0n, { message: 'Rate must be greater than zero' });
+
+/** "1.2345" -> 123450000n (the rate times 10^8). Only call with strings that passed `exchangeRateSchema`. */
+export function parseScaledRate(value: string): bigint {
+  const [integerPart = '0', fractionPart = ''] = value.trim().split('.');
+  return BigInt(integerPart) * RATE_SCALE + BigInt(fractionPart.padEnd(RATE_DECIMALS, '0'));
+}
+
+/** A stored rate as a fixed 8-place string, e.g. "0.65000000". */
+export function formatRate(rate: Prisma.Decimal): string {
+  return rate.toFixed(RATE_DECIMALS);
+}
+
+export const upsertExchangeRateBodySchema = z
+  .object({
+    fromCurrency: z.nativeEnum(Currency),
+    toCurrency: z.nativeEnum(Currency),
+    effectiveDate: periodDateSchema,
+    rate: exchangeRateSchema,
+  })
+  .refine((data) => data.fromCurrency !== data.toCurrency, {
+    path: ['toCurrency'],
+    message: '`toCurrency` must differ from `fromCurrency`',
+  });
+
+export type ExchangeRateInput = z.infer<typeof upsertExchangeRateBodySchema>;
+
+export const EXCHANGE_RATE_CSV_HEADER = ['effective_date', 'from_currency', 'to_currency', 'rate'];
+
+/**
+ * Parses an imported rate sheet with the `EXCHANGE_RATE_CSV_HEADER` columns, in any order. Either every row is valid
+ * or nothing is returned but the errors, each naming its 1-based line.
+ */
+export function parseExchangeRateCsv(
+  text: string,
+): { rates: ExchangeRateInput[]; errors: [] } | { rates: []; errors: string[] } {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { rates: [], errors: ['CSV file is empty'] };
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const missing = EXCHANGE_RATE_CSV_HEADER.filter((name) => !columns.includes(name));
+  if (missing.length > 0) return { rates: [], errors: [`Missing column(s): ${missing.join(', ')}`] };
+
+  const rates: ExchangeRateInput[] = [];
+  const errors: string[] = [];
+  rows.forEach((row, index) => {
+    const value = (name: string) => (row[columns.indexOf(name)] ?? '').trim();
+    const parsed = upsertExchangeRateBodySchema.safeParse({
+      effectiveDate: value('effective_date'),
+      fromCurrency: value('from_currency').toUpperCase(),
+      toCurrency: value('to_currency').toUpperCase(),
+      rate: value('rate'),
+    });
+    if (parsed.success) {
+      rates.push(parsed.data);
+    } else {
+      errors.push(`Line ${index + 2}: ${parsed.error.issues.map((issue) => issue.message).join('; ')}`);
+    }
+  });
+
+  return errors.length > 0 ? { rates: [], errors } : { rates, errors: [] };
+}
+
+export async function getBaseCurrency(db: DbClient, orgId: string): Promise<Currency> {
+  const org = await db.organization.findUniqueOrThrow({ where: { id: orgId }, select: { baseCurrency: true } });
+  return org.baseCurrency;
+}
+
+export const reportingCurrencyQuerySchema = z.object({
+  reportingCurrency: z.nativeEnum(Currency).optional(),
+});
+
+/** An exact rate as a fraction, so inverse and cross rates need no rounding until the final amount. */
+type RateFraction = { numerator: bigint; denominator: bigint };
+
+export type FxConverter = {
+  currency: Currency;
+  /**
+   * `amountCents` of `from` in the reporting currency, at the rate effective on the local date of `at`; rounded
+   * half away from zero so refunds and adjustments mirror charges. Records the pair and returns 0 when no rate exists.
+   */
+  convert: (amountCents: number, from: Currency, at: Date) => number;
+  /** Every pair and date that had no rate, e.g. "USD→AUD on 2030-06-03". */
+  missingRates: () => string[];
+};
+
+/**
+ * Converts into `currency` with the org's stored rates. A pair uses its own latest rate on or before the date, else
+ * the inverse of the reverse pair, else a cross rate through the org's base currency.
+ */
+export async function loadFxConverter(
+  db: DbClient,
+  params: { orgId: string; currency: Currency; timeZone: string },
+): Promise<FxConverter> {
+  const [baseCurrency, rows] = await Promise.all([
+    getBaseCurrency(db, params.orgId),
+    db.exchangeRate.findMany({
+      where: { orgId: params.orgId },
+      orderBy: { effectiveDate: 'asc' },
+      select: { fromCurrency: true, toCurrency: true, effectiveDate: true, rate: true },
+    }),
+  ]);
+
+  const ratesByPair = new Map<string, { effectiveDate: string; scaled: bigint }[]>();
+  for (const row of rows) {
+    const key = `${row.fromCurrency}:${row.toCurrency}`;
+    const rates = ratesByPair.get(key) ?? [];
+    rates.push({ effectiveDate: row.effectiveDate, scaled: parseScaledRate(formatRate(row.rate)) });
+    ratesByPair.set(key, rates);
+  }
+
+  const storedRate = (from: Currency, to: Currency, dateLocal: string): bigint | null => {
+    const rates = ratesByPair.get(`${from}:${to}`) ?? [];
+    let found: bigint | null = null;
+    for (const rate of rates) {
+      if (rate.effectiveDate > dateLocal) break;
+      found = rate.scaled;
+    }
+    return found;
+  };
+
+  const pairRate = (from: Currency, to: Currency, dateLocal: string): RateFraction | null => {
+    if (from === to) return { numerator: 1n, denominator: 1n };
+    const direct = storedRate(from, to, dateLocal);
+    if (direct !== null) return { numerator: direct, denominator: RATE_SCALE };
+    const inverse = storedRate(to, from, dateLocal);
+    if (inverse !== null) return { numerator: RATE_SCALE, denominator: inverse };
+    return null;
+  };
+
+  const resolveRate = (from: Currency, dateLocal: string): RateFraction | null => {
+    const direct = pairRate(from, params.currency, dateLocal);
+    if (direct) return direct;
+    const toBase = pairRate(from, baseCurrency, dateLocal);
+    const fromBase = pairRate(baseCurrency, params.currency, dateLocal);
+    if (!toBase || !fromBase) return null;
+    return {
+      numerator: toBase.numerator * fromBase.numerator,
+      denominator: toBase.denominator * fromBase.denominator,
+    };
+  };
+
+  const missing = new Set<string>();
+
+  return {
+    currency: params.currency,
+    convert: (amountCents, from, at) => {
+      if (from === params.currency || amountCents === 0) return amountCents;
+
+      const { dateLocal } = utcToLocalDateMinutes(at, params.timeZone);
+      const rate = resolveRate(from, dateLocal);
+      if (!rate) {
+        missing.add(`${from}→${params.currency} on ${dateLocal}`);
+        return 0;
+      }
+
+      const magnitude = BigInt(Math.abs(amountCents)) * rate.numerator;
+      const converted = Number((magnitude + rate.denominator / 2n) / rate.denominator);
+      return amountCents < 0 ? -converted : converted;
+    },
+    missingRates: () => Array.from(missing).sort(),
+  };
+}
+
+export function missingRatesMessage(missingRates: string[]): string {
+  return `No exchange rate for ${missingRates.join(', ')}`;
+}
+
+export const exchangeRateSelect = {
+  id: true,
+  fromCurrency: true,
+  toCurrency: true,
+  effectiveDate: true,
+  rate: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+type ExchangeRateRow = Prisma.ExchangeRateGetPayload<{ select: typeof exchangeRateSelect }>;
+
+export function serializeExchangeRate(row: ExchangeRateRow) {
+  return {
+    id: row.id,
+    fromCurrency: row.fromCurrency,
+    toCurrency: row.toCurrency,
+    effectiveDate: row.effectiveDate,
+    rate: formatRate(row.rate),
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
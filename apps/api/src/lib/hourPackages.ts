@@ -0,0 +1,290 @@
+import { Currency, HourLedgerReason, Subject, type Prisma, type PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export const MAX_PACKAGE_VALIDITY_MONTHS = 60;
+
+export const createHourPackageBodySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  /** Lots bought from a package with a subject only pay for sessions of that subject. */
+  subject: z.nativeEnum(Subject).nullable().optional(),
+  units: z.number().int().positive().max(1000),
+  priceCents: z.number().int().min(0),
+  currency: z.nativeEnum(Currency),
+  /** Null or omitted means lots never expire. */
+  validityMonths: z.number().int().min(1).max(MAX_PACKAGE_VALIDITY_MONTHS).nullable().optional(),
+});
+
+export const updateHourPackageBodySchema = createHourPackageBodySchema
+  .partial()
+  .extend({ active: z.boolean().optional() })
+  .refine((data) => Object.keys(data).length > 0, { message: 'Nothing to update' });
+
+export const hourPackageSelect = {
+  id: true,
+  name: true,
+  subject: true,
+  units: true,
+  priceCents: true,
+  currency: true,
+  validityMonths: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+type HourPackageRow = Prisma.HourPackageGetPayload<{ select: typeof hourPackageSelect }>;
+
+export function serializeHourPackage(row: HourPackageRow) {
+  return {
+    id: row.id,
+    name: row.name,
+    subject: row.subject,
+    units: row.units,
+    priceCents: row.priceCents,
+    currency: row.currency,
+    validityMonths: row.validityMonths,
+    active: row.active,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export const purchaseHourPackageBodySchema = z.object({
+  packageId: z.string().min(1),
+  /** Restricts the lot to one teacher's sessions; omitted lots pay for any teacher. */
+  teacherId: z.string().min(1).optional(),
+  /** What the student actually paid when it differs from the list price, e.g. after a discount. */
+  priceCents: z.number().int().min(0).optional(),
+});
+
+/** Same day-of-month `months` later, clamped to the end of shorter months (31 Aug + 6 months = 28/29 Feb). */
+export function addMonthsUtc(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+export const hourLotSelect = {
+  id: true,
+  packageId: true,
+  teacherId: true,
+  subject: true,
+  units: true,
+  remainingUnits: true,
+  priceCents: true,
+  currency: true,
+  purchasedAt: true,
+  expiresAt: true,
+  expiredAt: true,
+  package: { select: { name: true } },
+  teacher: { select: { teacherProfile: { select: { displayName: true } } } },
+} as const;
+
+/**
+ * Sells a package to a student: a priced PURCHASE ledger entry (so prepaid invoices pick it up) and the lot that
+ * later sessions draw from. The lot copies the package's terms, so editing the catalog never changes what was sold.
+ */
+export async function purchaseHourPackage(
+  tx: Prisma.TransactionClient,
+  params: {
+    studentId: string;
+    teacherId: string | null;
+    hourPackage: {
+      id: string;
+      subject: Subject | null;
+      units: number;
+      currency: Currency;
+      validityMonths: number | null;
+    };
+    priceCents: number;
+    purchasedAt: Date;
+  },
+) {
+  const { hourPackage } = params;
+
+  const entry = await tx.hourLedgerEntry.create({
+    data: {
+      studentId: params.studentId,
+      teacherId: params.teacherId,
+      deltaUnits: hourPackage.units,
+      reason: HourLedgerReason.PURCHASE,
+      amountCents: params.priceCents,
+      currency: hourPackage.currency,
+      createdAt: params.purchasedAt,
+    },
+    select: { id: true },
+  });
+
+  return tx.hourLot.create({
+    data: {
+      studentId: params.studentId,
+      packageId: hourPackage.id,
+      teacherId: params.teacherId,
+      subject: hourPackage.subject,
+      units: hourPackage.units,
+      remainingUnits: hourPackage.units,
+      priceCents: params.priceCents,
+      currency: hourPackage.currency,
+      purchasedAt: params.purchasedAt,
+      expiresAt: hourPackage.validityMonths ? addMonthsUtc(params.purchasedAt, hourPackage.validityMonths) : null,
+      purchaseEntryId: entry.id,
+    },
+    select: hourLotSelect,
+  });
+}
+
+type HourLotRow = Prisma.HourLotGetPayload<{ select: typeof hourLotSelect }>;
+
+export type HourLotStatus = 'ACTIVE' | 'USED_UP' | 'EXPIRED';
+
+export function hourLotStatus(lot: Pick<HourLotRow, 'remainingUnits' | 'expiredAt'>): HourLotStatus {
+  if (lot.expiredAt) return 'EXPIRED';
+  return lot.remainingUnits > 0 ? 'ACTIVE' : 'USED_UP';
+}
+
+export function serializeHourLot(lot: HourLotRow) {
+  return {
+    id: lot.id,
+    packageId: lot.packageId,
+    packageName: lot.package?.name ?? null,
+    teacherId: lot.teacherId,
+    teacherName: lot.teacher?.teacherProfile?.displayName ?? null,
+    subject: lot.subject,
+    units: lot.units,
+    remainingUnits: lot.remainingUnits,
+    priceCents: lot.priceCents,
+    currency: lot.currency,
+    purchasedAt: lot.purchasedAt.toISOString(),
+    expiresAt: lot.expiresAt?.toISOString() ?? null,
+    expiredAt: lot.expiredAt?.toISOString() ?? null,
+    status: hourLotStatus(lot),
+  };
+}
+
+/** Oldest first, so lots are used in the order they were bought. */
+export async function listStudentHourLots(db: DbClient, studentId: string) {
+  const lots = await db.hourLot.findMany({
+    where: { studentId },
+    orderBy: [{ purchasedAt: 'asc' }, { id: 'asc' }],
+    select: hourLotSelect,
+  });
+  return lots.map(serializeHourLot);
+}
+
+/**
+ * Draws a session's charge (a negative ledger entry with a session) from the student's lots, oldest purchase first.
+ * A lot qualifies while it has units left, had not expired by the time the session ended, and its teacher and
+ * subject scope, if any, match the session. Whatever the lots cannot cover stays on the plain ledger balance, as it
+ * did before packages existed. Safe to call again for the same entry.
+ */
+export async function consumeHourLots(tx: Prisma.TransactionClient, ledgerEntryId: string): Promise<void> {
+  const entry = await tx.hourLedgerEntry.findUnique({
+    where: { id: ledgerEntryId },
+    select: {
+      id: true,
+      studentId: true,
+      deltaUnits: true,
+      session: { select: { teacherId: true, subject: true, endAtUtc: true } },
+      _count: { select: { lotAllocations: true } },
+    },
+  });
+  if (!entry || !entry.session || entry.deltaUnits >= 0 || entry._count.lotAllocations > 0) return;
+
+  const { session } = entry;
+  const lots = await tx.hourLot.findMany({
+    where: {
+      studentId: entry.studentId,
+      remainingUnits: { gt: 0 },
+      expiredAt: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: session.endAtUtc } }],
+      AND: [
+        { OR: [{ teacherId: null }, { teacherId: session.teacherId }] },
+        { OR: [{ subject: null }, { subject: session.subject }] },
+      ],
+    },
+    orderBy: [{ purchasedAt: 'asc' }, { id: 'asc' }],
+    select: { id: true, remainingUnits: true },
+  });
+
+  let outstanding = -entry.deltaUnits;
+  for (const lot of lots) {
+    if (outstanding === 0) break;
+    const units = Math.min(outstanding, lot.remainingUnits);
+
+    // Guarded so a concurrent consumer or the expiry job cannot drive a lot below zero.
+    const updated = await tx.hourLot.updateMany({
+      where: { id: lot.id, expiredAt: null, remainingUnits: { gte: units } },
+      data: { remainingUnits: { decrement: units } },
+    });
+    if (updated.count === 0) continue;
+
+    await tx.hourLotAllocation.create({ data: { lotId: lot.id, ledgerEntryId: entry.id, units } });
+    outstanding -= units;
+  }
+}
+
+/**
+ * Gives the units a reversed charge took from lots back to those lots, recorded as negative allocations of the
+ * reversal entry. Lots that have expired since keep their write-off; those units stay on the plain ledger balance.
+ */
+export async function restoreHourLots(
+  tx: Prisma.TransactionClient,
+  reversedEntryId: string,
+  reversalEntryId: string,
+): Promise<void> {
+  const allocations = await tx.hourLotAllocation.findMany({
+    where: { ledgerEntryId: reversedEntryId, units: { gt: 0 } },
+    select: { lotId: true, units: true },
+  });
+
+  for (const allocation of allocations) {
+    const updated = await tx.hourLot.updateMany({
+      where: { id: allocation.lotId, expiredAt: null },
+      data: { remainingUnits: { increment: allocation.units } },
+    });
+    if (updated.count === 0) continue;
+
+    await tx.hourLotAllocation.create({
+      data: { lotId: allocation.lotId, ledgerEntryId: reversalEntryId, units: -allocation.units },
+    });
+  }
+}
+
+/**
+ * Closes a lot whose validity has passed and writes off its unused units with an EXPIRY ledger entry. Returns the
+ * units written off, or null when the lot was not due or was already closed.
+ */
+export async function expireHourLot(tx: Prisma.TransactionClient, lotId: string, now: Date): Promise<number | null> {
+  const lot = await tx.hourLot.findUnique({
+    where: { id: lotId },
+    select: { id: true, studentId: true, teacherId: true, remainingUnits: true, expiresAt: true, expiredAt: true },
+  });
+  if (!lot || lot.expiredAt || !lot.expiresAt || lot.expiresAt > now) return null;
+
+  const updated = await tx.hourLot.updateMany({
+    where: { id: lot.id, expiredAt: null, remainingUnits: lot.remainingUnits },
+    data: { expiredAt: now, remainingUnits: 0 },
+  });
+  if (updated.count === 0) return null;
+
+  if (lot.remainingUnits > 0) {
+    const entry = await tx.hourLedgerEntry.create({
+      data: {
+        studentId: lot.studentId,
+        teacherId: lot.teacherId,
+        deltaUnits: -lot.remainingUnits,
+        reason: HourLedgerReason.EXPIRY,
+      },
+      select: { id: true },
+    });
+    await tx.hourLotAllocation.create({ data: { lotId: lot.id, ledgerEntryId: entry.id, units: lot.remainingUnits } });
+  }
+
+  return lot.remainingUnits;
+}
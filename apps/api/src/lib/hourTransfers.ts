@@ -0,0 +1,134 @@
+import { HourLedgerReason, type Prisma, type PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export const createHourTransferBodySchema = z.object({
+  /** Bucket the units leave; null or omitted is the student's general (unassigned) hours. */
+  fromTeacherId: z.string().min(1).nullable().optional(),
+  /** Another student of the org, e.g. a sibling; omitted moves units between the student's own buckets. */
+  toStudentId: z.string().min(1).optional(),
+  toTeacherId: z.string().min(1).nullable().optional(),
+  units: z.number().int().positive().max(1000),
+  note: z.string().trim().min(1).max(500).optional(),
+});
+
+export type HourBucket = { studentId: string; teacherId: string | null };
+
+/** Units currently held in one student's bucket, i.e. what a transfer out of it may move. */
+export async function hourBucketUnits(db: DbClient, bucket: HourBucket): Promise<number> {
+  const summary = await db.hourLedgerEntry.aggregate({
+    where: { studentId: bucket.studentId, teacherId: bucket.teacherId },
+    _sum: { deltaUnits: true },
+  });
+  return summary._sum.deltaUnits ?? 0;
+}
+
+/**
+ * Like `hourBucketUnits`, but locks the student first, so transfers out of the same student are checked and written
+ * one after the other and two of them cannot both spend the same units. Call it in the transaction that transfers.
+ */
+export async function lockHourBucketUnits(tx: Prisma.TransactionClient, bucket: HourBucket): Promise<number> {
+  await tx.$queryRaw`SELECT "id" FROM "User" WHERE "id" = ${bucket.studentId} FOR UPDATE`;
+  return hourBucketUnits(tx, bucket);
+}
+
+export const hourTransferSelect = {
+  id: true,
+  units: true,
+  note: true,
+  createdAt: true,
+  entries: {
+    select: {
+      id: true,
+      studentId: true,
+      teacherId: true,
+      deltaUnits: true,
+      student: { select: { studentProfile: { select: { displayName: true } } } },
+      teacher: { select: { teacherProfile: { select: { displayName: true } } } },
+    },
+  },
+} as const;
+
+type HourTransferRow = Prisma.HourTransferGetPayload<{ select: typeof hourTransferSelect }>;
+
+/**
+ * Moves units between two buckets in one go: a TRANSFER entry taking them out of the source and a TRANSFER entry
+ * putting them into the destination, linked by the transfer record so ledger views can show them as one row. Both
+ * entries share a timestamp, so statements never fall between them. Package lots are not touched; they keep paying
+ * for the donor's sessions until used up or expired.
+ */
+export async function transferHours(
+  tx: Prisma.TransactionClient,
+  params: { orgId: string; from: HourBucket; to: HourBucket; units: number; note: string | null; now: Date },
+): Promise<HourTransferRow> {
+  const transfer = await tx.hourTransfer.create({
+    data: { orgId: params.orgId, units: params.units, note: params.note, createdAt: params.now },
+    select: { id: true },
+  });
+
+  await tx.hourLedgerEntry.createMany({
+    data: [
+      {
+        studentId: params.from.studentId,
+        teacherId: params.from.teacherId,
+        deltaUnits: -params.units,
+        reason: HourLedgerReason.TRANSFER,
+        transferId: transfer.id,
+        createdAt: params.now,
+      },
+      {
+        studentId: params.to.studentId,
+        teacherId: params.to.teacherId,
+        deltaUnits: params.units,
+        reason: HourLedgerReason.TRANSFER,
+        transferId: transfer.id,
+        createdAt: params.now,
+      },
+    ],
+  });
+
+  return tx.hourTransfer.findUniqueOrThrow({ where: { id: transfer.id }, select: hourTransferSelect });
+}
+
+function serializeSide(entry: HourTransferRow['entries'][number] | undefined) {
+  return {
+    studentId: entry?.studentId ?? null,
+    studentName: entry?.student.studentProfile?.displayName ?? null,
+    teacherId: entry?.teacherId ?? null,
+    teacherName: entry?.teacher?.teacherProfile?.displayName ?? null,
+  };
+}
+
+export function serializeHourTransfer(transfer: HourTransferRow) {
+  return {
+    id: transfer.id,
+    units: transfer.units,
+    note: transfer.note,
+    createdAt: transfer.createdAt.toISOString(),
+    from: serializeSide(transfer.entries.find((entry) => entry.deltaUnits < 0)),
+    to: serializeSide(transfer.entries.find((entry) => entry.deltaUnits > 0)),
+  };
+}
+
+export type SerializedHourTransfer = ReturnType<typeof serializeHourTransfer>;
+
+/** Whether both halves of the transfer belong to the same student, i.e. it only moved units between teachers. */
+export function isInternalTransfer(transfer: HourTransferRow): boolean {
+  const [first, second] = transfer.entries;
+  return first !== undefined && second !== undefined && first.studentId === second.studentId;
+}
+
+/**
+ * One student's ledger with each transfer between their own buckets folded into a single row: the outgoing half is
+ * kept with a net change of zero and the incoming half is dropped. Transfers to or from another student already show
+ * as one row per student and pass through unchanged.
+ */
+export function collapseTransferPairs<T extends { deltaUnits: number; transfer: HourTransferRow | null }>(
+  entries: T[],
+): T[] {
+  return entries.flatMap((entry) => {
+    if (!entry.transfer || !isInternalTransfer(entry.transfer)) return [entry];
+    return entry.deltaUnits < 0 ? [{ ...entry, deltaUnits: 0 }] : [];
+  });
+}
@@ -0,0 +1,315 @@
+import {
+  AttendanceOutcome,
+  BillingMode,
+  HourLedgerReason,
+  InvoiceLineKind,
+  InvoiceStatus,
+  SessionStatus,
+  type Currency,
+  type Prisma,
+  type PrismaClient,
+} from '@prisma/client';
+import { z } from 'zod';
+
+import { activeSessionChargeWhere } from './ledger.js';
+import { prorateCents, scaleCents } from './money.js';
+import { isoDateAddDays, parseIsoDate, utcToLocalDateMinutes, zonedTimeToUtc } from './timezone.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+export const INVOICE_PERIOD_MAX_DAYS = 366;
+
+export const periodDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .refine(
+    (value) => {
+      try {
+        parseIsoDate(value);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: 'Invalid date' },
+  );
+
+export const generateInvoicesBodySchema = z
+  .object({
+    studentId: z.string().min(1),
+    periodStart: periodDateSchema,
+    periodEnd: periodDateSchema,
+  })
+  .superRefine((data, ctx) => {
+    if (data.periodEnd < data.periodStart) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['periodEnd'],
+        message: '`periodEnd` must not be before `periodStart`',
+      });
+      return;
+    }
+    if (isoDateAddDays(data.periodStart, INVOICE_PERIOD_MAX_DAYS) <= data.periodEnd) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['periodEnd'],
+        message: `Billing period cannot exceed ${INVOICE_PERIOD_MAX_DAYS} days`,
+      });
+    }
+  });
+
+/** Inclusive local dates in the student's time zone, as a half-open UTC range. */
+export function billingPeriodToUtcRange(
+  periodStartLocal: string,
+  periodEndLocal: string,
+  timeZone: string,
+): { rangeStartUtc: Date; rangeEndUtcExclusive: Date } {
+  const start = parseIsoDate(periodStartLocal);
+  const nextDay = parseIsoDate(isoDateAddDays(periodEndLocal, 1));
+  return {
+    rangeStartUtc: zonedTimeToUtc(start, timeZone),
+    rangeEndUtcExclusive: zonedTimeToUtc(nextDay, timeZone),
+  };
+}
+
+export function formatInvoiceNumber(sequence: number): string {
+  return `INV-${String(sequence).padStart(6, '0')}`;
+}
+
+export type DraftInvoiceLine = {
+  kind: InvoiceLineKind;
+  description: string;
+  quantity: number;
+  unitAmountCents: number;
+  amountCents: number;
+  sessionId: string | null;
+  ledgerEntryId: string | null;
+};
+
+/** Anything already on a draft, issued or paid invoice is skipped; voiding an invoice frees its items again. */
+const notYetInvoiced = { invoiceLines: { none: { invoice: { status: { not: InvoiceStatus.VOID } } } } };
+
+function formatLocalDateTime(date: Date, timeZone: string): string {
+  const { dateLocal, minutes } = utcToLocalDateMinutes(date, timeZone);
+  const hh = String(Math.floor(minutes / 60)).padStart(2, '0');
+  const mm = String(minutes % 60).padStart(2, '0');
+  return `${dateLocal} ${hh}:${mm}`;
+}
+
+export const sessionChargeSelect = {
+  status: true,
+  startAtUtc: true,
+  endAtUtc: true,
+  consumesUnits: true,
+  attendance: true,
+  studentHourlyRateCentsSnapshot: true,
+  hourLedgerEntries: { where: activeSessionChargeWhere, select: { deltaUnits: true, reason: true }, take: 1 },
+} as const;
+
+type SessionChargeSource = Prisma.SessionGetPayload<{ select: typeof sessionChargeSelect }>;
+
+export type SessionChargeKind = 'LESSON' | 'LATE_CANCEL' | 'NO_SHOW';
+
+/**
+ * What a completed or cancelled session bills its student, or null when it bills nothing. Lessons bill the booked
+ * time at the session's rate snapshot. Charged late cancellations and student no-shows bill the share of the session
+ * that the ledger actually deducted, so a half charge is half the price; teacher no-shows and free cancellations bill
+ * nothing.
+ */
+export function sessionCharge(
+  session: SessionChargeSource,
+): { kind: SessionChargeKind; durationMs: number; amountCents: number } | null {
+  const durationMs = session.endAtUtc.getTime() - session.startAtUtc.getTime();
+  if (durationMs <= 0) return null;
+
+  const fullCents = prorateCents(durationMs, session.studentHourlyRateCentsSnapshot);
+
+  if (session.status === SessionStatus.CANCELLED || session.attendance === AttendanceOutcome.STUDENT_NO_SHOW) {
+    const entry = session.hourLedgerEntries[0];
+    const isCharge =
+      entry !== undefined &&
+      (entry.reason === HourLedgerReason.LATE_CANCEL || entry.reason === HourLedgerReason.NO_SHOW);
+    if (!isCharge || entry.deltaUnits >= 0 || session.consumesUnits <= 0) return null;
+
+    return {
+      kind: entry.reason === HourLedgerReason.LATE_CANCEL ? 'LATE_CANCEL' : 'NO_SHOW',
+      durationMs,
+      amountCents: scaleCents(fullCents, Math.min(-entry.deltaUnits, session.consumesUnits), session.consumesUnits),
+    };
+  }
+
+  if (session.status !== SessionStatus.COMPLETED || session.attendance === AttendanceOutcome.TEACHER_NO_SHOW) {
+    return null;
+  }
+  return { kind: 'LESSON', durationMs, amountCents: fullCents };
+}
+
+const SESSION_LINE_LABELS: Record<SessionChargeKind, string> = {
+  LESSON: 'Lesson',
+  LATE_CANCEL: 'Late cancellation',
+  NO_SHOW: 'No-show',
+};
+
+/** Session lines carry the booked minutes as quantity and the hourly rate as unit amount; see `sessionCharge`. */
+async function collectSessionLines(
+  db: DbClient,
+  studentId: string,
+  timeZone: string,
+  range: { rangeStartUtc: Date; rangeEndUtcExclusive: Date },
+): Promise<Map<Currency, DraftInvoiceLine[]>> {
+  const sessions = await db.session.findMany({
+    where: {
+      studentId,
+      status: { in: [SessionStatus.COMPLETED, SessionStatus.CANCELLED] },
+      endAtUtc: { gte: range.rangeStartUtc, lt: range.rangeEndUtcExclusive },
+      ...notYetInvoiced,
+    },
+    orderBy: { startAtUtc: 'asc' },
+    select: { ...sessionChargeSelect, id: true, subject: true, currencySnapshot: true },
+  });
+
+  const linesByCurrency = new Map<Currency, DraftInvoiceLine[]>();
+
+  for (const session of sessions) {
+    const charge = sessionCharge(session);
+    if (!charge) continue;
+
+    const lines = linesByCurrency.get(session.currencySnapshot) ?? [];
+    lines.push({
+      kind: InvoiceLineKind.SESSION,
+      description: `${SESSION_LINE_LABELS[charge.kind]} ${formatLocalDateTime(session.startAtUtc, timeZone)} (${session.subject})`,
+      quantity: Math.round(charge.durationMs / MS_PER_MINUTE),
+      unitAmountCents: session.studentHourlyRateCentsSnapshot,
+      amountCents: charge.amountCents,
+      sessionId: session.id,
+      ledgerEntryId: null,
+    });
+    linesByCurrency.set(session.currencySnapshot, lines);
+  }
+
+  return linesByCurrency;
+}
+
+/** Purchase lines come from priced PURCHASE ledger entries; quantity is the units bought. */
+async function collectPurchaseLines(
+  db: DbClient,
+  studentId: string,
+  range: { rangeStartUtc: Date; rangeEndUtcExclusive: Date },
+): Promise<Map<Currency, DraftInvoiceLine[]>> {
+  const entries = await db.hourLedgerEntry.findMany({
+    where: {
+      studentId,
+      reason: HourLedgerReason.PURCHASE,
+      amountCents: { not: null },
+      currency: { not: null },
+      createdAt: { gte: range.rangeStartUtc, lt: range.rangeEndUtcExclusive },
+      ...notYetInvoiced,
+    },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, deltaUnits: true, amountCents: true, currency: true },
+  });
+
+  const linesByCurrency = new Map<Currency, DraftInvoiceLine[]>();
+
+  for (const entry of entries) {
+    if (entry.amountCents === null || entry.currency === null || entry.deltaUnits <= 0) continue;
+
+    const lines = linesByCurrency.get(entry.currency) ?? [];
+    lines.push({
+      kind: InvoiceLineKind.PURCHASE,
+      description: `Purchase of ${entry.deltaUnits} units`,
+      quantity: entry.deltaUnits,
+      unitAmountCents: Math.round(entry.amountCents / entry.deltaUnits),
+      amountCents: entry.amountCents,
+      sessionId: null,
+      ledgerEntryId: entry.id,
+    });
+    linesByCurrency.set(entry.currency, lines);
+  }
+
+  return linesByCurrency;
+}
+
+/** Billable, not-yet-invoiced lines for a student's period, grouped by currency (one invoice per currency). */
+export async function collectInvoiceLines(
+  db: DbClient,
+  params: {
+    studentId: string;
+    billingMode: BillingMode;
+    timeZone: string;
+    periodStartLocal: string;
+    periodEndLocal: string;
+  },
+): Promise<Map<Currency, DraftInvoiceLine[]>> {
+  const range = billingPeriodToUtcRange(params.periodStartLocal, params.periodEndLocal, params.timeZone);
+
+  if (params.billingMode === BillingMode.PREPAID) {
+    return collectPurchaseLines(db, params.studentId, range);
+  }
+  return collectSessionLines(db, params.studentId, params.timeZone, range);
+}
+
+export const invoiceSelect = {
+  id: true,
+  studentId: true,
+  number: true,
+  currency: true,
+  billingMode: true,
+  status: true,
+  periodStartLocal: true,
+  periodEndLocal: true,
+  totalCents: true,
+  issuedAt: true,
+  paidAt: true,
+  voidedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  student: { select: { studentProfile: { select: { displayName: true } } } },
+  lines: {
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      kind: true,
+      description: true,
+      quantity: true,
+      unitAmountCents: true,
+      amountCents: true,
+      sessionId: true,
+      ledgerEntryId: true,
+    },
+  },
+} as const;
+
+type InvoiceRow = Prisma.InvoiceGetPayload<{ select: typeof invoiceSelect }>;
+
+export function serializeInvoice(invoice: InvoiceRow) {
+  return {
+    id: invoice.id,
+    studentId: invoice.studentId,
+    studentName: invoice.student.studentProfile?.displayName ?? null,
+    number: invoice.number ?? null,
+    currency: invoice.currency,
+    billingMode: invoice.billingMode,
+    status: invoice.status,
+    periodStartLocal: invoice.periodStartLocal,
+    periodEndLocal: invoice.periodEndLocal,
+    totalCents: invoice.totalCents,
+    issuedAt: invoice.issuedAt?.toISOString() ?? null,
+    paidAt: invoice.paidAt?.toISOString() ?? null,
+    voidedAt: invoice.voidedAt?.toISOString() ?? null,
+    createdAt: invoice.createdAt.toISOString(),
+    updatedAt: invoice.updatedAt.toISOString(),
+    lines: invoice.lines.map((line) => ({
+      id: line.id,
+      kind: line.kind,
+      description: line.description,
+      quantity: line.quantity,
+      unitAmountCents: line.unitAmountCents,
+      amountCents: line.amountCents,
+      sessionId: line.sessionId ?? null,
+      ledgerEntryId: line.ledgerEntryId ?? null,
+    })),
+  };
+}
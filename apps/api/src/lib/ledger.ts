@@ -0,0 +1,223 @@
+import { HourLedgerReason, type Prisma, type PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+
+import { consumeHourLots, restoreHourLots } from './hourPackages.js';
+import { collapseTransferPairs, hourTransferSelect, serializeHourTransfer } from './hourTransfers.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Entries that still count as a session's charge: written for the session and neither a reversal nor reversed. A
+ * session has at most one; reverting a completed session reverses it, and completing it again writes a fresh one.
+ */
+export const activeSessionChargeWhere = {
+  reason: { not: HourLedgerReason.REVERSAL },
+  reversal: { is: null },
+} satisfies Prisma.HourLedgerEntryWhereInput;
+
+/**
+ * Writes a session's charge unless it already has one, then draws it from the student's package lots. Callers hold
+ * the session's status transition, so only one of them gets here per completion.
+ */
+export async function recordSessionCharge(
+  tx: Prisma.TransactionClient,
+  session: { id: string; studentId: string; teacherId: string },
+  charge: { deltaUnits: number; reason: HourLedgerReason },
+): Promise<void> {
+  const existing = await tx.hourLedgerEntry.findFirst({
+    where: { sessionId: session.id, ...activeSessionChargeWhere },
+    select: { id: true },
+  });
+  const entry =
+    existing ??
+    (await tx.hourLedgerEntry.create({
+      data: {
+        studentId: session.studentId,
+        teacherId: session.teacherId,
+        deltaUnits: charge.deltaUnits,
+        reason: charge.reason,
+        sessionId: session.id,
+      },
+      select: { id: true },
+    }));
+  await consumeHourLots(tx, entry.id);
+}
+
+/**
+ * Cancels out an entry with a REVERSAL entry of the opposite amount in the same bucket, linked to the original, and
+ * gives any package units it used back to lots that have not expired since. The original is left untouched. Returns
+ * null when the entry was already reversed.
+ */
+export async function reverseLedgerEntry(
+  tx: Prisma.TransactionClient,
+  entryId: string,
+  now: Date,
+): Promise<{ id: string; deltaUnits: number } | null> {
+  const original = await tx.hourLedgerEntry.findUnique({
+    where: { id: entryId },
+    select: {
+      id: true,
+      studentId: true,
+      teacherId: true,
+      deltaUnits: true,
+      reason: true,
+      sessionId: true,
+      reversal: { select: { id: true } },
+    },
+  });
+  if (!original || original.reversal || original.reason === HourLedgerReason.REVERSAL) return null;
+
+  const reversal = await tx.hourLedgerEntry.create({
+    data: {
+      studentId: original.studentId,
+      teacherId: original.teacherId,
+      deltaUnits: -original.deltaUnits,
+      reason: HourLedgerReason.REVERSAL,
+      sessionId: original.sessionId,
+      reversesEntryId: original.id,
+      createdAt: now,
+    },
+    select: { id: true, deltaUnits: true },
+  });
+  await restoreHourLots(tx, original.id, reversal.id);
+
+  return reversal;
+}
+
+/** Reverses the session's current charge, if it has one; returns the reversal entry. */
+export async function reverseSessionCharge(
+  tx: Prisma.TransactionClient,
+  sessionId: string,
+  now: Date,
+): Promise<{ id: string; deltaUnits: number } | null> {
+  const charge = await tx.hourLedgerEntry.findFirst({
+    where: { sessionId, ...activeSessionChargeWhere },
+    select: { id: true },
+  });
+  return charge ? reverseLedgerEntry(tx, charge.id, now) : null;
+}
+
+export const LEDGER_PAGE_SIZE_MAX = 200;
+
+/** The general bucket, for `teacherId` filters. */
+export const UNASSIGNED_TEACHER = 'UNASSIGNED';
+
+export const ledgerQuerySchema = z
+  .object({
+    page: z.coerce.number().int().min(1).default(1),
+    pageSize: z.coerce.number().int().min(1).max(LEDGER_PAGE_SIZE_MAX).default(50),
+    reason: z.nativeEnum(HourLedgerReason).optional(),
+    /** A teacher's bucket, or `UNASSIGNED` for the general one; the running balance is then that bucket's. */
+    teacherId: z.string().min(1).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.to > data.from, {
+    path: ['to'],
+    message: '`to` must be after `from`',
+  });
+
+export type LedgerQuery = z.infer<typeof ledgerQuerySchema>;
+
+const ledgerEntrySelect = {
+  id: true,
+  deltaUnits: true,
+  reason: true,
+  sessionId: true,
+  teacherId: true,
+  amountCents: true,
+  currency: true,
+  reversesEntryId: true,
+  createdAt: true,
+  teacher: { select: { teacherProfile: { select: { displayName: true } } } },
+  transfer: { select: hourTransferSelect },
+  reversal: { select: { id: true } },
+} as const;
+
+/**
+ * A page of a student's ledger, newest first, with the balance after each row. Without a teacher filter, transfers
+ * between the student's own buckets show as one row (see collapseTransferPairs) and leave the balance unchanged.
+ */
+export async function loadStudentLedger(db: DbClient, studentId: string, query: LedgerQuery) {
+  const bucket =
+    query.teacherId === undefined
+      ? {}
+      : { teacherId: query.teacherId === UNASSIGNED_TEACHER ? null : query.teacherId };
+  const scope: Prisma.HourLedgerEntryWhereInput = { studentId, ...bucket };
+  const where: Prisma.HourLedgerEntryWhereInput = {
+    ...scope,
+    ...(query.reason ? { reason: query.reason } : {}),
+    ...(query.from || query.to
+      ? { createdAt: { ...(query.from ? { gte: query.from } : {}), ...(query.to ? { lt: query.to } : {}) } }
+      : {}),
+    // The incoming half of an internal transfer is folded into the outgoing row.
+    ...(query.teacherId === undefined
+      ? {
+          NOT: {
+            reason: HourLedgerReason.TRANSFER,
+            deltaUnits: { gt: 0 },
+            transfer: { entries: { some: { studentId, deltaUnits: { lt: 0 } } } },
+          },
+        }
+      : {}),
+  };
+
+  const [total, rows] = await Promise.all([
+    db.hourLedgerEntry.count({ where }),
+    db.hourLedgerEntry.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      skip: (query.page - 1) * query.pageSize,
+      take: query.pageSize,
+      select: ledgerEntrySelect,
+    }),
+  ]);
+
+  const newest = rows[0];
+  const oldest = rows[rows.length - 1];
+  const balanceAfter = new Map<string, number>();
+  if (newest && oldest) {
+    // Everything in scope from the oldest row's timestamp up to the newest row's, so balances include entries the
+    // filters hide; both halves of a transfer share a timestamp and always land in the window together.
+    const [opening, window] = await Promise.all([
+      db.hourLedgerEntry.aggregate({
+        where: { ...scope, createdAt: { lt: oldest.createdAt } },
+        _sum: { deltaUnits: true },
+      }),
+      db.hourLedgerEntry.findMany({
+        where: { ...scope, createdAt: { gte: oldest.createdAt, lte: newest.createdAt } },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        select: { id: true, deltaUnits: true, transferId: true },
+      }),
+    ]);
+
+    let balance = opening._sum.deltaUnits ?? 0;
+    for (const entry of window) {
+      balance += entry.deltaUnits;
+      balanceAfter.set(entry.id, balance);
+      // A folded transfer row shows the balance once both halves are in.
+      if (entry.transferId) balanceAfter.set(entry.transferId, balance);
+    }
+  }
+
+  const items = (query.teacherId === undefined ? collapseTransferPairs(rows) : rows).map((row) => ({
+    id: row.id,
+    deltaUnits: row.deltaUnits,
+    reason: row.reason,
+    sessionId: row.sessionId,
+    teacherId: row.teacherId,
+    teacherName: row.teacher?.teacherProfile?.displayName ?? null,
+    amountCents: row.amountCents,
+    currency: row.currency,
+    transfer: row.transfer ? serializeHourTransfer(row.transfer) : null,
+    reversesEntryId: row.reversesEntryId,
+    reversedByEntryId: row.reversal?.id ?? null,
+    balanceUnits:
+      (query.teacherId === undefined && row.transfer ? balanceAfter.get(row.transfer.id) : undefined) ??
+      balanceAfter.get(row.id) ??
+      0,
+    createdAt: row.createdAt.toISOString(),
+  }));
+
+  return { items, page: query.page, pageSize: query.pageSize, total };
+}
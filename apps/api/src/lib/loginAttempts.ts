@@ -0,0 +1,261 @@
+import { LoginAttemptOutcome, type LoginMethod, type Prisma, type PrismaClient } from '@prisma/client';
+import type { FastifyRequest } from 'fastify';
+import { z } from 'zod';
+
+import { sessionClient, type SessionClient } from './authSessions.js';
+import { clientCountry } from './clientIp.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const MS_PER_SECOND = 1000;
+const MS_PER_DAY = 24 * 60 * 60 * MS_PER_SECOND;
+const IDENTIFIER_MAX_LENGTH = 200;
+const NEW_SIGN_INS_LIMIT = 100;
+const RECENT_ATTEMPTS_LIMIT = 50;
+
+/** Outcomes that count as a failed guess: a wrong password or code, or trying while locked. */
+export const FAILED_LOGIN_OUTCOMES: LoginAttemptOutcome[] = [
+  LoginAttemptOutcome.INVALID_PASSWORD,
+  LoginAttemptOutcome.INVALID_CODE,
+  LoginAttemptOutcome.LOCKED,
+];
+
+function readIntEnv(varName: string, fallback: number): number {
+  const raw = process.env[varName];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function loginLockoutLimits() {
+  return {
+    threshold: readIntEnv('LOGIN_LOCKOUT_THRESHOLD', 5),
+    baseSeconds: readIntEnv('LOGIN_LOCKOUT_BASE_SECONDS', 60),
+    maxSeconds: readIntEnv('LOGIN_LOCKOUT_MAX_SECONDS', 60 * 60),
+  };
+}
+
+export type LoginClient = SessionClient & {
+  country: string | null;
+};
+
+/** Where a sign-in attempt came from: the session details plus the country, when the proxy reports one. */
+export function loginClient(request: FastifyRequest): LoginClient {
+  return { ...sessionClient(request), country: clientCountry(request) };
+}
+
+/** Seconds until a locked account may try again; 0 when it is not locked. */
+export function lockoutRemainingSeconds(user: { lockedUntil: Date | null }, now: Date): number {
+  if (!user.lockedUntil || user.lockedUntil <= now) return 0;
+  return Math.ceil((user.lockedUntil.getTime() - now.getTime()) / MS_PER_SECOND);
+}
+
+/** How long the account is locked after this many failures in a row; 0 below the threshold. */
+export function lockoutSeconds(failures: number): number {
+  const limits = loginLockoutLimits();
+  if (failures < limits.threshold) return 0;
+  return Math.min(limits.maxSeconds, limits.baseSeconds * 2 ** (failures - limits.threshold));
+}
+
+/**
+ * Counts a failed attempt against the account. At `LOGIN_LOCKOUT_THRESHOLD` failures in a row it is locked for
+ * `LOGIN_LOCKOUT_BASE_SECONDS`, and each failure after that doubles the lock, up to `LOGIN_LOCKOUT_MAX_SECONDS`.
+ * Returns the end of the new lock, or null when the account stays open.
+ */
+export async function recordLoginFailure(
+  db: DbClient,
+  params: { userId: string; now: Date },
+): Promise<{ failedLoginCount: number; lockedUntil: Date | null }> {
+  // Incremented by the database, so concurrent guesses all count.
+  const { failedLoginCount } = await db.user.update({
+    where: { id: params.userId },
+    data: { failedLoginCount: { increment: 1 } },
+    select: { failedLoginCount: true },
+  });
+
+  const seconds = lockoutSeconds(failedLoginCount);
+  if (seconds === 0) return { failedLoginCount, lockedUntil: null };
+
+  const lockedUntil = new Date(params.now.getTime() + seconds * MS_PER_SECOND);
+  await db.user.update({ where: { id: params.userId }, data: { lockedUntil } });
+  return { failedLoginCount, lockedUntil };
+}
+
+/** Clears the failure count and any lock, after a successful sign in or when an admin unlocks the account. */
+export async function resetLoginFailures(db: DbClient, userId: string): Promise<void> {
+  await db.user.updateMany({
+    where: { id: userId, OR: [{ failedLoginCount: { gt: 0 } }, { lockedUntil: { not: null } }] },
+    data: { failedLoginCount: 0, lockedUntil: null },
+  });
+}
+
+/**
+ * Records one sign-in attempt. A successful one is compared with the user's earlier successful sign-ins and flagged
+ * when the browser or country was not seen before; a user's first sign in is never flagged.
+ */
+export async function recordLoginAttempt(
+  db: DbClient,
+  params: {
+    user: { id: string; orgId: string } | null;
+    identifier: string;
+    method: LoginMethod;
+    outcome: LoginAttemptOutcome;
+    client: LoginClient;
+    now: Date;
+  },
+): Promise<void> {
+  const { user, client } = params;
+
+  let newDevice = false;
+  let newCountry = false;
+  if (user && params.outcome === LoginAttemptOutcome.SUCCESS) {
+    const successWhere = { userId: user.id, outcome: LoginAttemptOutcome.SUCCESS };
+    const [anyBefore, sameDevice, anyCountry, sameCountry] = await Promise.all([
+      db.loginAttempt.findFirst({ where: successWhere, select: { id: true } }),
+      db.loginAttempt.findFirst({ where: { ...successWhere, userAgent: client.userAgent }, select: { id: true } }),
+      db.loginAttempt.findFirst({ where: { ...successWhere, country: { not: null } }, select: { id: true } }),
+      client.country
+        ? db.loginAttempt.findFirst({ where: { ...successWhere, country: client.country }, select: { id: true } })
+        : null,
+    ]);
+    newDevice = anyBefore !== null && sameDevice === null;
+    newCountry = client.country !== null && anyCountry !== null && sameCountry === null;
+  }
+
+  await db.loginAttempt.create({
+    data: {
+      orgId: user?.orgId ?? null,
+      userId: user?.id ?? null,
+      identifier: params.identifier.slice(0, IDENTIFIER_MAX_LENGTH),
+      method: params.method,
+      outcome: params.outcome,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+      country: client.country,
+      newDevice,
+      newCountry,
+      createdAt: params.now,
+    },
+  });
+}
+
+/** Records a wrong password or code and counts it towards locking the account; see `recordLoginFailure`. */
+export async function recordFailedLoginAttempt(
+  db: DbClient,
+  params: {
+    user: { id: string; orgId: string };
+    identifier: string;
+    method: LoginMethod;
+    outcome: LoginAttemptOutcome;
+    client: LoginClient;
+    now: Date;
+  },
+): Promise<{ failedLoginCount: number; lockedUntil: Date | null }> {
+  await recordLoginAttempt(db, params);
+  return recordLoginFailure(db, { userId: params.user.id, now: params.now });
+}
+
+const attemptSelect = {
+  id: true,
+  method: true,
+  outcome: true,
+  ipAddress: true,
+  userAgent: true,
+  country: true,
+  newDevice: true,
+  newCountry: true,
+  createdAt: true,
+} as const;
+
+/** The user's latest sign-in attempts, newest first. */
+export async function loadRecentLoginAttempts(db: DbClient, userId: string) {
+  return db.loginAttempt.findMany({
+    where: { userId },
+    select: attemptSelect,
+    orderBy: { createdAt: 'desc' },
+    take: RECENT_ATTEMPTS_LIMIT,
+  });
+}
+
+export const suspiciousActivityQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(7),
+});
+
+const accountSelect = { id: true, email: true, phone: true, role: true } as const;
+
+/**
+ * What the admin security page lists for an org over the last `days`: locked accounts, accounts and addresses with
+ * at least `LOGIN_LOCKOUT_THRESHOLD` failed attempts (an address failing against several accounts is someone trying
+ * one password everywhere), and sign-ins from a new browser or country.
+ */
+export async function loadSuspiciousActivity(db: DbClient, params: { orgId: string; days: number; now: Date }) {
+  const { orgId, now } = params;
+  const since = new Date(now.getTime() - params.days * MS_PER_DAY);
+  const { threshold } = loginLockoutLimits();
+  const failedWhere = { orgId, createdAt: { gte: since }, outcome: { in: FAILED_LOGIN_OUTCOMES } };
+
+  const [lockedAccounts, failuresByAccount, failuresByIpAndAccount, newSignIns] = await Promise.all([
+    db.user.findMany({
+      where: { orgId, lockedUntil: { gt: now } },
+      select: { ...accountSelect, failedLoginCount: true, lockedUntil: true },
+      orderBy: { lockedUntil: 'desc' },
+    }),
+    db.loginAttempt.groupBy({
+      by: ['userId'],
+      where: failedWhere,
+      _count: { _all: true },
+      _max: { createdAt: true },
+    }),
+    db.loginAttempt.groupBy({
+      by: ['ipAddress', 'userId'],
+      where: failedWhere,
+      _count: { _all: true },
+      _max: { createdAt: true },
+    }),
+    db.loginAttempt.findMany({
+      where: {
+        orgId,
+        createdAt: { gte: since },
+        outcome: LoginAttemptOutcome.SUCCESS,
+        OR: [{ newDevice: true }, { newCountry: true }],
+      },
+      select: { ...attemptSelect, user: { select: accountSelect } },
+      orderBy: { createdAt: 'desc' },
+      take: NEW_SIGN_INS_LIMIT,
+    }),
+  ]);
+
+  const failingAccountRows = failuresByAccount.flatMap((row) =>
+    row.userId && row._count._all >= threshold
+      ? [{ userId: row.userId, failures: row._count._all, lastFailedAt: row._max.createdAt }]
+      : [],
+  );
+  const accounts = await db.user.findMany({
+    where: { id: { in: failingAccountRows.map((row) => row.userId) } },
+    select: accountSelect,
+  });
+  const accountById = new Map(accounts.map((account) => [account.id, account]));
+  // An account deleted since its failures were recorded has nothing left to show.
+  const failingAccounts = failingAccountRows
+    .flatMap(({ userId, ...row }) => {
+      const user = accountById.get(userId);
+      return user ? [{ user, ...row }] : [];
+    })
+    .sort((a, b) => b.failures - a.failures);
+
+  const byIp = new Map<string, { ipAddress: string; failures: number; accounts: number; lastFailedAt: Date | null }>();
+  for (const row of failuresByIpAndAccount) {
+    const entry = byIp.get(row.ipAddress) ?? { ipAddress: row.ipAddress, failures: 0, accounts: 0, lastFailedAt: null };
+    entry.failures += row._count._all;
+    entry.accounts += 1;
+    if (row._max.createdAt && (!entry.lastFailedAt || row._max.createdAt > entry.lastFailedAt)) {
+      entry.lastFailedAt = row._max.createdAt;
+    }
+    byIp.set(row.ipAddress, entry);
+  }
+  const failingIps = [...byIp.values()]
+    .filter((entry) => entry.failures >= threshold)
+    .sort((a, b) => b.failures - a.failures);
+
+  return { since, lockedAccounts, failingAccounts, failingIps, newSignIns };
+}
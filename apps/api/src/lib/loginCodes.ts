@@ -0,0 +1,161 @@
+import { createHash, randomInt, timingSafeEqual } from 'node:crypto';
+
+import { LoginCodeChannel, type Prisma } from '@prisma/client';
+
+import type { MailMessage } from './mail.js';
+import type { SmsMessage } from './sms.js';
+
+const MS_PER_SECOND = 1000;
+const MS_PER_HOUR = 60 * 60 * MS_PER_SECOND;
+
+export const LOGIN_CODE_LENGTH = 6;
+
+function readIntEnv(varName: string, fallback: number): number {
+  const raw = process.env[varName];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function loginCodeLimits() {
+  return {
+    ttlMs: readIntEnv('LOGIN_CODE_TTL_SECONDS', 5 * 60) * MS_PER_SECOND,
+    resendCooldownMs: readIntEnv('LOGIN_CODE_RESEND_SECONDS', 60) * MS_PER_SECOND,
+    maxPerHour: readIntEnv('LOGIN_CODE_MAX_PER_HOUR', 5),
+    maxAttempts: readIntEnv('LOGIN_CODE_MAX_ATTEMPTS', 5),
+  };
+}
+
+/** Salted with the user so equal codes of different users do not share a hash. */
+function hashLoginCode(userId: string, code: string): Buffer {
+  return createHash('sha256').update(`${userId}:${code}`).digest();
+}
+
+export type IssueLoginCodeResult =
+  | { status: 'issued'; code: string; expiresAt: Date }
+  | { status: 'throttled'; retryAfterSeconds: number };
+
+/**
+ * Creates a one-time login code for the user, replacing any earlier unused one for the channel. At most one code per
+ * `LOGIN_CODE_RESEND_SECONDS` and `LOGIN_CODE_MAX_PER_HOUR` per hour are issued per user, so the endpoint cannot be
+ * used to flood someone's phone or inbox.
+ */
+export async function issueLoginCode(
+  tx: Prisma.TransactionClient,
+  params: { userId: string; channel: LoginCodeChannel; destination: string; now: Date },
+): Promise<IssueLoginCodeResult> {
+  const { now } = params;
+  const limits = loginCodeLimits();
+
+  const recent = await tx.loginCode.findMany({
+    where: { userId: params.userId, createdAt: { gt: new Date(now.getTime() - MS_PER_HOUR) } },
+    select: { createdAt: true },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const latest = recent[0];
+  if (latest && now.getTime() - latest.createdAt.getTime() < limits.resendCooldownMs) {
+    const retryAfterMs = limits.resendCooldownMs - (now.getTime() - latest.createdAt.getTime());
+    return { status: 'throttled', retryAfterSeconds: Math.ceil(retryAfterMs / MS_PER_SECOND) };
+  }
+  const oldest = recent.at(-1);
+  if (oldest && recent.length >= limits.maxPerHour) {
+    const retryAfterMs = oldest.createdAt.getTime() + MS_PER_HOUR - now.getTime();
+    return { status: 'throttled', retryAfterSeconds: Math.ceil(retryAfterMs / MS_PER_SECOND) };
+  }
+
+  // Used codes stay behind for the hourly limit; only the pending one is replaced.
+  await tx.loginCode.updateMany({
+    where: { userId: params.userId, channel: params.channel, consumedAt: null, expiresAt: { gt: now } },
+    data: { expiresAt: now },
+  });
+
+  const code = randomInt(0, 10 ** LOGIN_CODE_LENGTH)
+    .toString()
+    .padStart(LOGIN_CODE_LENGTH, '0');
+  const expiresAt = new Date(now.getTime() + limits.ttlMs);
+  await tx.loginCode.create({
+    data: {
+      userId: params.userId,
+      channel: params.channel,
+      destination: params.destination,
+      codeHash: hashLoginCode(params.userId, code).toString('hex'),
+      expiresAt,
+      createdAt: now,
+    },
+  });
+
+  return { status: 'issued', code, expiresAt };
+}
+
+/**
+ * Checks a code against the user's pending code for the channel and uses it up when it matches. Each check counts
+ * as an attempt, even a wrong one, and the code stops working after `LOGIN_CODE_MAX_ATTEMPTS`, so six digits cannot
+ * be guessed.
+ */
+export async function verifyLoginCode(
+  tx: Prisma.TransactionClient,
+  params: { userId: string; channel: LoginCodeChannel; code: string; now: Date },
+): Promise<boolean> {
+  const { now } = params;
+  const { maxAttempts } = loginCodeLimits();
+
+  const pending = await tx.loginCode.findFirst({
+    where: { userId: params.userId, channel: params.channel, consumedAt: null, expiresAt: { gt: now } },
+    select: { id: true, codeHash: true },
+    orderBy: { createdAt: 'desc' },
+  });
+  if (!pending) return false;
+
+  // Guarded, so concurrent guesses cannot get past the attempt limit.
+  const attempt = await tx.loginCode.updateMany({
+    where: { id: pending.id, consumedAt: null, attempts: { lt: maxAttempts } },
+    data: { attempts: { increment: 1 } },
+  });
+  if (attempt.count === 0) return false;
+
+  const expected = Buffer.from(pending.codeHash, 'hex');
+  const actual = hashLoginCode(params.userId, params.code);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return false;
+
+  const consumed = await tx.loginCode.updateMany({
+    where: { id: pending.id, consumedAt: null },
+    data: { consumedAt: now },
+  });
+  return consumed.count > 0;
+}
+
+function ttlMinutes(now: Date, expiresAt: Date): number {
+  return Math.max(1, Math.round((expiresAt.getTime() - now.getTime()) / (60 * MS_PER_SECOND)));
+}
+
+export function loginCodeSms(params: {
+  to: string;
+  orgName: string;
+  code: string;
+  now: Date;
+  expiresAt: Date;
+}): SmsMessage {
+  return {
+    to: params.to,
+    text: `【${params.orgName}】登录验证码 ${params.code}，${ttlMinutes(params.now, params.expiresAt)} 分钟内有效。如非本人操作请忽略。`,
+  };
+}
+
+export function loginCodeMail(params: {
+  to: string;
+  orgName: string;
+  code: string;
+  now: Date;
+  expiresAt: Date;
+}): MailMessage {
+  return {
+    to: params.to,
+    subject: `${params.orgName} 登录验证码 ${params.code}`,
+    text: [
+      `你的登录验证码是 ${params.code}，${ttlMinutes(params.now, params.expiresAt)} 分钟内有效，只能使用一次。`,
+      '',
+      '如果不是你本人操作，请忽略这封邮件。',
+    ].join('\n'),
+  };
+}
@@ -0,0 +1,63 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { FastifyBaseLogger } from 'fastify';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+/** Where outgoing mail goes. Swap the transport to change delivery; callers only ever see `send`. */
+export type MailTransport = {
+  send: (message: MailMessage) => Promise<void>;
+};
+
+/** Keeps every message in memory instead of delivering it; the SMTP stand-in for tests. */
+export function createMemoryMailTransport(): MailTransport & { messages: MailMessage[] } {
+  const messages: MailMessage[] = [];
+  return {
+    messages,
+    send: async (message) => {
+      messages.push(message);
+    },
+  };
+}
+
+/** Writes each message to `dir` as an .eml file, so local setups can open links without a mail server. */
+export function createFileMailTransport(dir: string): MailTransport {
+  return {
+    send: async (message) => {
+      await mkdir(dir, { recursive: true });
+      const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`);
+      const eml = [`To: ${message.to}`, `Subject: ${message.subject}`, 'Content-Type: text/plain; charset=utf-8', ''];
+      await writeFile(file, `${eml.join('\r\n')}\r\n${message.text}\r\n`, 'utf8');
+    },
+  };
+}
+
+/**
+ * Logs messages instead of delivering them. The body, with any sign-in or reset link in it, is only logged when
+ * `includeBody` is set; that is for development, where reading the link from the log is the point.
+ */
+export function createLogMailTransport(log: FastifyBaseLogger, options: { includeBody: boolean }): MailTransport {
+  return {
+    send: async (message) => {
+      const mail = options.includeBody ? message : { to: message.to, subject: message.subject };
+      log.info({ mail }, 'mail not delivered (MAIL_TRANSPORT=log)');
+    },
+  };
+}
+
+/** `MAIL_TRANSPORT=file` writes to `MAIL_FILE_DIR`; anything else logs, without the body in production. */
+export function mailTransportFromEnv(log: FastifyBaseLogger): MailTransport {
+  if (process.env['MAIL_TRANSPORT'] === 'file') {
+    return createFileMailTransport(process.env['MAIL_FILE_DIR'] ?? path.resolve('tmp/mail'));
+  }
+
+  const isProd = process.env['NODE_ENV'] === 'production';
+  if (isProd) log.warn('MAIL_TRANSPORT=log in production: mail is not delivered and bodies are not logged');
+  return createLogMailTransport(log, { includeBody: !isProd });
+}
@@ -0,0 +1,16 @@
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/** Cents for `durationMs` at an hourly rate, rounded half-up. BigInt keeps long sessions at high rates exact. */
+export function prorateCents(durationMs: number, hourlyRateCents: number): number {
+  if (durationMs <= 0) return 0;
+  const numerator = BigInt(durationMs) * BigInt(hourlyRateCents);
+  const denominator = BigInt(MS_PER_HOUR);
+  return Number((numerator + denominator / 2n) / denominator);
+}
+
+/** `cents * numerator / denominator`, rounded half-up; used to charge part of a session. */
+export function scaleCents(cents: number, numerator: number, denominator: number): number {
+  if (denominator <= 0) return 0;
+  const divisor = BigInt(denominator);
+  return Number((BigInt(cents) * BigInt(numerator) + divisor / 2n) / divisor);
+}
@@ -1,3 +1,5 @@
+import { randomBytes } from 'node:crypto';
+
 import bcrypt from 'bcryptjs';
 
 const SALT_ROUNDS = 10;
@@ -10,3 +12,7 @@ export function verifyPassword(plaintext: string, passwordHash: string): boolean
   return bcrypt.compareSync(plaintext, passwordHash);
 }
 
+/** A random password nobody knows, for accounts whose owner sets their own through an invitation. */
+export function unusablePassword(): string {
+  return randomBytes(32).toString('base64url');
+}
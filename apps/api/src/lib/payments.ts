@@ -0,0 +1,406 @@
+import {
+  Currency,
+  HourLedgerReason,
+  InvoiceStatus,
+  PaymentMethod,
+  type Prisma,
+  type PrismaClient,
+} from '@prisma/client';
+import { z } from 'zod';
+
+import { parseCsv } from './csv.js';
+import { periodDateSchema } from './invoices.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/** Invoices that can still take money; paid ones too, so an overpayment is recorded rather than lost. */
+export const PAYABLE_INVOICE_STATUSES: InvoiceStatus[] = [InvoiceStatus.ISSUED, InvoiceStatus.PAID];
+
+export const recordPaymentBodySchema = z
+  .object({
+    studentId: z.string().min(1),
+    amountCents: z.number().int().positive(),
+    currency: z.nativeEnum(Currency),
+    method: z.nativeEnum(PaymentMethod),
+    /** The bank or wallet transaction reference; bank statement imports skip rows whose reference is already here. */
+    reference: z.string().trim().min(1).max(200).optional(),
+    receivedDate: periodDateSchema,
+    note: z.string().trim().min(1).max(500).optional(),
+    invoiceId: z.string().min(1).optional(),
+    /** A PURCHASE ledger entry paid directly, without an invoice. */
+    ledgerEntryId: z.string().min(1).optional(),
+  })
+  .refine((data) => !data.invoiceId || !data.ledgerEntryId, {
+    path: ['ledgerEntryId'],
+    message: 'A payment is for an invoice or a purchase, not both',
+  });
+
+export const paymentSelect = {
+  id: true,
+  studentId: true,
+  amountCents: true,
+  currency: true,
+  method: true,
+  reference: true,
+  receivedDate: true,
+  note: true,
+  invoiceId: true,
+  ledgerEntryId: true,
+  createdAt: true,
+  student: { select: { studentProfile: { select: { displayName: true } } } },
+  invoice: { select: { number: true } },
+} as const;
+
+type PaymentRow = Prisma.PaymentGetPayload<{ select: typeof paymentSelect }>;
+
+export function serializePayment(payment: PaymentRow) {
+  return {
+    id: payment.id,
+    studentId: payment.studentId,
+    studentName: payment.student.studentProfile?.displayName ?? null,
+    amountCents: payment.amountCents,
+    currency: payment.currency,
+    method: payment.method,
+    reference: payment.reference,
+    receivedDate: payment.receivedDate,
+    note: payment.note,
+    invoiceId: payment.invoiceId,
+    invoiceNumber: payment.invoice?.number ?? null,
+    ledgerEntryId: payment.ledgerEntryId,
+    createdAt: payment.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Marks an issued invoice PAID once its payments cover the total. Returns whether this call settled it, so the
+ * caller can audit the status change.
+ */
+export async function settleInvoiceIfPaid(
+  tx: Prisma.TransactionClient,
+  invoiceId: string,
+  now: Date,
+): Promise<boolean> {
+  const invoice = await tx.invoice.findUnique({
+    where: { id: invoiceId },
+    select: { status: true, totalCents: true },
+  });
+  if (!invoice || invoice.status !== InvoiceStatus.ISSUED) return false;
+
+  const paid = await tx.payment.aggregate({ where: { invoiceId }, _sum: { amountCents: true } });
+  if ((paid._sum.amountCents ?? 0) < invoice.totalCents) return false;
+
+  const updated = await tx.invoice.updateMany({
+    where: { id: invoiceId, status: InvoiceStatus.ISSUED },
+    data: { status: InvoiceStatus.PAID, paidAt: now },
+  });
+  return updated.count > 0;
+}
+
+export const BANK_STATEMENT_CSV_HEADER = ['date', 'amount', 'currency', 'reference'];
+
+export type BankStatementRow = {
+  /** 1-based line in the file, header included. */
+  line: number;
+  receivedDate: string;
+  amountCents: number;
+  currency: Currency;
+  reference: string;
+};
+
+/** "1,234.5" -> 123450; null unless it is a plain decimal with at most two places. */
+export function parseAmountCents(value: string): number | null {
+  const text = value.replace(/[,\s]/g, '');
+  const match = /^(-?)(\d{1,9})(?:\.(\d{1,2}))?$/.exec(text);
+  if (!match) return null;
+  const cents = Number(match[2]) * 100 + Number((match[3] ?? '').padEnd(2, '0'));
+  return match[1] === '-' ? -cents : cents;
+}
+
+const bankStatementRowSchema = z.object({
+  receivedDate: periodDateSchema,
+  currency: z.nativeEnum(Currency),
+  reference: z.string().max(200),
+});
+
+/**
+ * Parses a bank statement export with the `BANK_STATEMENT_CSV_HEADER` columns, in any order; other columns are
+ * ignored. Outgoing and zero rows are dropped. Either every row is valid or nothing is returned but the errors, each
+ * naming its 1-based line.
+ */
+export function parseBankStatementCsv(
+  text: string,
+): { rows: BankStatementRow[]; errors: [] } | { rows: []; errors: string[] } {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) return { rows: [], errors: ['CSV file is empty'] };
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const missing = BANK_STATEMENT_CSV_HEADER.filter((name) => !columns.includes(name));
+  if (missing.length > 0) return { rows: [], errors: [`Missing column(s): ${missing.join(', ')}`] };
+
+  const rows: BankStatementRow[] = [];
+  const errors: string[] = [];
+  lines.forEach((row, index) => {
+    const value = (name: string) => (row[columns.indexOf(name)] ?? '').trim();
+    const line = index + 2;
+
+    const amountCents = parseAmountCents(value('amount'));
+    const parsed = bankStatementRowSchema.safeParse({
+      receivedDate: value('date'),
+      currency: value('currency').toUpperCase(),
+      reference: value('reference'),
+    });
+    if (!parsed.success || amountCents === null) {
+      const issues = [
+        ...(amountCents === null ? ['Invalid amount'] : []),
+        ...(parsed.success ? [] : parsed.error.issues.map((issue) => issue.message)),
+      ];
+      errors.push(`Line ${line}: ${issues.join('; ')}`);
+      return;
+    }
+
+    if (amountCents > 0) rows.push({ line, amountCents, ...parsed.data });
+  });
+
+  return errors.length > 0 ? { rows: [], errors } : { rows, errors: [] };
+}
+
+/** The first invoice number (INV-000123) mentioned in a payment reference, upper-cased. */
+export function findInvoiceNumber(reference: string): string | null {
+  const match = /INV-\d{6,}/i.exec(reference);
+  return match ? match[0].toUpperCase() : null;
+}
+
+export type UnmatchedReason = 'NO_REFERENCE' | 'NO_INVOICE' | 'INVOICE_NOT_PAYABLE' | 'CURRENCY_MISMATCH';
+
+export type BankStatementImport = {
+  matched: { line: number; paymentId: string; invoiceId: string; invoiceNumber: string; settled: boolean }[];
+  duplicates: { line: number; reference: string }[];
+  unmatched: (BankStatementRow & { reason: UnmatchedReason })[];
+};
+
+/**
+ * Records the statement rows whose reference names one of the org's payable invoices as bank transfer payments for
+ * that invoice, settling invoices they pay off. Rows whose reference is already recorded, by an earlier import or by
+ * hand, are duplicates; the rest are returned unmatched for an admin to record against the right student.
+ */
+export async function importBankStatement(
+  tx: Prisma.TransactionClient,
+  params: { orgId: string; recordedByUserId: string; rows: BankStatementRow[]; now: Date },
+): Promise<BankStatementImport> {
+  const result: BankStatementImport = { matched: [], duplicates: [], unmatched: [] };
+
+  const references = params.rows.map((row) => row.reference).filter((reference) => reference !== '');
+  const recorded = await tx.payment.findMany({
+    where: { orgId: params.orgId, reference: { in: references } },
+    select: { reference: true },
+  });
+  const seen = new Set(recorded.map((payment) => payment.reference));
+
+  const numbers = Array.from(new Set(references.map(findInvoiceNumber).filter((number) => number !== null)));
+  const invoices = await tx.invoice.findMany({
+    where: { orgId: params.orgId, number: { in: numbers } },
+    select: { id: true, number: true, studentId: true, currency: true, status: true },
+  });
+  const invoicesByNumber = new Map(invoices.map((invoice) => [invoice.number, invoice]));
+
+  for (const row of params.rows) {
+    const { line } = row;
+    if (row.reference === '') {
+      result.unmatched.push({ ...row, reason: 'NO_REFERENCE' });
+      continue;
+    }
+    if (seen.has(row.reference)) {
+      result.duplicates.push({ line, reference: row.reference });
+      continue;
+    }
+
+    const number = findInvoiceNumber(row.reference);
+    const invoice = number ? invoicesByNumber.get(number) : undefined;
+    if (!number || !invoice) {
+      result.unmatched.push({ ...row, reason: 'NO_INVOICE' });
+      continue;
+    }
+    if (!PAYABLE_INVOICE_STATUSES.includes(invoice.status)) {
+      result.unmatched.push({ ...row, reason: 'INVOICE_NOT_PAYABLE' });
+      continue;
+    }
+    if (invoice.currency !== row.currency) {
+      result.unmatched.push({ ...row, reason: 'CURRENCY_MISMATCH' });
+      continue;
+    }
+
+    const payment = await tx.payment.create({
+      data: {
+        orgId: params.orgId,
+        studentId: invoice.studentId,
+        amountCents: row.amountCents,
+        currency: row.currency,
+        method: PaymentMethod.BANK_TRANSFER,
+        reference: row.reference,
+        receivedDate: row.receivedDate,
+        invoiceId: invoice.id,
+        recordedByUserId: params.recordedByUserId,
+      },
+      select: { id: true },
+    });
+    seen.add(row.reference);
+
+    const settled = await settleInvoiceIfPaid(tx, invoice.id, params.now);
+    result.matched.push({ line, paymentId: payment.id, invoiceId: invoice.id, invoiceNumber: number, settled });
+  }
+
+  return result;
+}
+
+export const reconciliationQuerySchema = z.object({
+  studentId: z.string().min(1).optional(),
+});
+
+function studentName(student: { studentProfile: { displayName: string } | null }): string | null {
+  return student.studentProfile?.displayName ?? null;
+}
+
+function sumCents(payments: { amountCents: number }[]): number {
+  return payments.reduce((sum, payment) => sum + payment.amountCents, 0);
+}
+
+/**
+ * What money is still owed and what came in beyond it, per invoice or directly paid purchase, in each item's own
+ * currency. A purchase billed on an invoice is settled through that invoice and only shows here if it was also paid
+ * directly. Payments linked to nothing are listed as unallocated credit.
+ */
+export async function loadReconciliation(db: DbClient, orgId: string, studentId?: string) {
+  const studentScope = studentId ? { studentId } : {};
+
+  const [invoices, purchases, unallocated] = await Promise.all([
+    db.invoice.findMany({
+      where: {
+        orgId,
+        ...studentScope,
+        OR: [{ status: InvoiceStatus.ISSUED }, { payments: { some: {} } }],
+      },
+      orderBy: [{ issuedAt: 'asc' }, { createdAt: 'asc' }],
+      select: {
+        id: true,
+        number: true,
+        studentId: true,
+        currency: true,
+        status: true,
+        totalCents: true,
+        issuedAt: true,
+        student: { select: { studentProfile: { select: { displayName: true } } } },
+        payments: { select: { amountCents: true } },
+      },
+    }),
+    db.hourLedgerEntry.findMany({
+      where: {
+        ...studentScope,
+        student: { orgId },
+        reason: HourLedgerReason.PURCHASE,
+        amountCents: { gt: 0 },
+        currency: { not: null },
+        OR: [
+          { invoiceLines: { none: { invoice: { status: { not: InvoiceStatus.VOID } } } } },
+          { payments: { some: {} } },
+        ],
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      select: {
+        id: true,
+        studentId: true,
+        amountCents: true,
+        currency: true,
+        createdAt: true,
+        student: { select: { studentProfile: { select: { displayName: true } } } },
+        invoiceLines: {
+          where: { invoice: { status: { not: InvoiceStatus.VOID } } },
+          select: { id: true },
+          take: 1,
+        },
+        payments: { select: { amountCents: true } },
+      },
+    }),
+    db.payment.findMany({
+      where: { orgId, ...studentScope, invoiceId: null, ledgerEntryId: null },
+      orderBy: [{ receivedDate: 'asc' }, { createdAt: 'asc' }],
+      select: paymentSelect,
+    }),
+  ]);
+
+  const unpaidInvoices = [];
+  const unpaidPurchases = [];
+  const overpayments = [];
+
+  for (const invoice of invoices) {
+    const dueCents = invoice.status === InvoiceStatus.VOID ? 0 : invoice.totalCents;
+    const paidCents = sumCents(invoice.payments);
+    const base = {
+      studentId: invoice.studentId,
+      studentName: studentName(invoice.student),
+      currency: invoice.currency,
+    };
+
+    if (invoice.status === InvoiceStatus.ISSUED && paidCents < dueCents) {
+      unpaidInvoices.push({
+        invoiceId: invoice.id,
+        number: invoice.number,
+        ...base,
+        totalCents: invoice.totalCents,
+        paidCents,
+        outstandingCents: dueCents - paidCents,
+        issuedAt: invoice.issuedAt?.toISOString() ?? null,
+      });
+    }
+    if (paidCents > dueCents) {
+      overpayments.push({
+        kind: 'INVOICE' as const,
+        id: invoice.id,
+        invoiceNumber: invoice.number,
+        ...base,
+        dueCents,
+        paidCents,
+        overpaidCents: paidCents - dueCents,
+      });
+    }
+  }
+
+  for (const purchase of purchases) {
+    if (purchase.amountCents === null || purchase.currency === null) continue;
+    const dueCents = purchase.invoiceLines.length > 0 ? 0 : purchase.amountCents;
+    const paidCents = sumCents(purchase.payments);
+    const base = {
+      studentId: purchase.studentId,
+      studentName: studentName(purchase.student),
+      currency: purchase.currency,
+    };
+
+    if (paidCents < dueCents) {
+      unpaidPurchases.push({
+        ledgerEntryId: purchase.id,
+        ...base,
+        amountCents: purchase.amountCents,
+        paidCents,
+        outstandingCents: dueCents - paidCents,
+        purchasedAt: purchase.createdAt.toISOString(),
+      });
+    }
+    if (paidCents > dueCents) {
+      overpayments.push({
+        kind: 'PURCHASE' as const,
+        id: purchase.id,
+        invoiceNumber: null,
+        ...base,
+        dueCents,
+        paidCents,
+        overpaidCents: paidCents - dueCents,
+      });
+    }
+  }
+
+  return {
+    unpaidInvoices,
+    unpaidPurchases,
+    overpayments,
+    unallocatedPayments: unallocated.map(serializePayment),
+  };
+}
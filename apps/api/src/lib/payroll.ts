@@ -0,0 +1,696 @@
+import {
+  PayrollLineKind,
+  PayrollRunStatus,
+  SessionStatus,
+  type Currency,
+  type Prisma,
+  type PrismaClient,
+} from '@prisma/client';
+
+import { formatCsvCents, toCsv } from './csv.js';
+import type { FxConverter } from './fx.js';
+import { prorateCents } from './money.js';
+import type { PayrollPeriod } from './payrollSettings.js';
+import { utcToLocalDateMinutes } from './timezone.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+export type PayrollTotal = { currency: Currency; totalCents: number; totalHours: number; sessionsCount: number };
+
+/** Every currency's pay converted into one reporting currency, session by session at each session's date. */
+export type ConvertedTotal = { currency: Currency; totalCents: number };
+
+export type TeacherPayroll = {
+  periodStartLocal: string;
+  periodEndLocal: string;
+  timeZone: string;
+  /** Set once an admin has closed the period; the figures are then read from the frozen run instead of recomputed. */
+  run: { id: string; status: PayrollRunStatus } | null;
+  totals: PayrollTotal[];
+  /** Only when a reporting currency was asked for; `totals` keep the original currencies. */
+  converted?: ConvertedTotal;
+  byStudent: { studentId: string; studentName: string | null; totals: PayrollTotal[]; converted?: ConvertedTotal }[];
+};
+
+export const sessionPaySelect = {
+  id: true,
+  teacherId: true,
+  studentId: true,
+  status: true,
+  teacherPaidOnCancel: true,
+  startAtUtc: true,
+  endAtUtc: true,
+  payableMinutes: true,
+  teacherHourlyWageCentsSnapshot: true,
+  currencySnapshot: true,
+} as const;
+
+type SessionPaySource = Prisma.SessionGetPayload<{ select: typeof sessionPaySelect }>;
+
+type SessionPay = {
+  sessionId: string;
+  teacherId: string;
+  studentId: string;
+  currency: Currency;
+  durationMs: number;
+  amountCents: number;
+};
+
+// Late cancellations stay payable when the org's cancellation policy says so.
+const payableSessionWhere = {
+  OR: [{ status: SessionStatus.COMPLETED }, { status: SessionStatus.CANCELLED, teacherPaidOnCancel: true }],
+};
+
+/** What a session currently earns its teacher, or null when it earns nothing. */
+export function sessionPay(session: SessionPaySource): SessionPay | null {
+  const payable =
+    session.status === SessionStatus.COMPLETED ||
+    (session.status === SessionStatus.CANCELLED && session.teacherPaidOnCancel);
+  if (!payable) return null;
+
+  // Attendance may cut the paid time short (partial attendance, no-shows); otherwise the booked time is paid.
+  const durationMs =
+    session.payableMinutes !== null
+      ? session.payableMinutes * MS_PER_MINUTE
+      : session.endAtUtc.getTime() - session.startAtUtc.getTime();
+  if (durationMs <= 0) return null;
+
+  return {
+    sessionId: session.id,
+    teacherId: session.teacherId,
+    studentId: session.studentId,
+    currency: session.currencySnapshot,
+    durationMs,
+    amountCents: prorateCents(durationMs, session.teacherHourlyWageCentsSnapshot),
+  };
+}
+
+type PayrollEntry = {
+  sessionId: string;
+  teacherId: string;
+  teacherName: string | null;
+  studentId: string;
+  studentName: string | null;
+  currency: Currency;
+  durationMs: number;
+  amountCents: number;
+  /** The session's end, which dates it for currency conversion. */
+  endAtUtc: Date;
+};
+
+function summarizePayroll(
+  entries: PayrollEntry[],
+  fx: FxConverter | undefined,
+): Pick<TeacherPayroll, 'totals' | 'converted' | 'byStudent'> {
+  const totalsByCurrency = new Map<Currency, PayrollTotal>();
+  let convertedCents = 0;
+
+  const totalsByStudent = new Map<
+    string,
+    {
+      studentId: string;
+      studentName: string | null;
+      totalsByCurrency: Map<Currency, PayrollTotal>;
+      convertedCents: number;
+    }
+  >();
+
+  for (const entry of entries) {
+    const { currency, studentId } = entry;
+    const entryConvertedCents = fx ? fx.convert(entry.amountCents, currency, entry.endAtUtc) : 0;
+    convertedCents += entryConvertedCents;
+    const existing = totalsByCurrency.get(currency) ?? {
+      currency,
+      totalCents: 0,
+      totalHours: 0,
+      sessionsCount: 0,
+    };
+
+    existing.totalCents += entry.amountCents;
+    existing.totalHours += entry.durationMs / MS_PER_HOUR;
+    existing.sessionsCount += 1;
+
+    totalsByCurrency.set(currency, existing);
+
+    const studentEntry = totalsByStudent.get(studentId) ?? {
+      studentId,
+      studentName: entry.studentName,
+      totalsByCurrency: new Map(),
+      convertedCents: 0,
+    };
+    studentEntry.convertedCents += entryConvertedCents;
+
+    const studentCurrencyTotal = studentEntry.totalsByCurrency.get(currency) ?? {
+      currency,
+      totalCents: 0,
+      totalHours: 0,
+      sessionsCount: 0,
+    };
+
+    studentCurrencyTotal.totalCents += entry.amountCents;
+    studentCurrencyTotal.totalHours += entry.durationMs / MS_PER_HOUR;
+    studentCurrencyTotal.sessionsCount += 1;
+
+    studentEntry.totalsByCurrency.set(currency, studentCurrencyTotal);
+    totalsByStudent.set(studentId, studentEntry);
+  }
+
+  const totals = Array.from(totalsByCurrency.values()).sort((a, b) => a.currency.localeCompare(b.currency));
+  const byStudent = Array.from(totalsByStudent.values())
+    .map((entry) => ({
+      studentId: entry.studentId,
+      studentName: entry.studentName,
+      totals: Array.from(entry.totalsByCurrency.values()).sort((a, b) => a.currency.localeCompare(b.currency)),
+      ...(fx ? { converted: { currency: fx.currency, totalCents: entry.convertedCents } } : {}),
+    }))
+    .sort((a, b) => (a.studentName ?? a.studentId).localeCompare(b.studentName ?? b.studentId));
+
+  return {
+    totals,
+    ...(fx ? { converted: { currency: fx.currency, totalCents: convertedCents } } : {}),
+    byStudent,
+  };
+}
+
+/** Whose pay to look at: every teacher in the org, or just one. */
+type PayrollScope = { orgId: string; teacherId?: string | undefined };
+
+async function livePayrollEntries(db: DbClient, scope: PayrollScope, period: PayrollPeriod): Promise<PayrollEntry[]> {
+  const sessions = await db.session.findMany({
+    where: {
+      teacher: { orgId: scope.orgId },
+      ...(scope.teacherId !== undefined ? { teacherId: scope.teacherId } : {}),
+      ...payableSessionWhere,
+      endAtUtc: { gte: period.periodStartUtc, lt: period.periodEndUtc },
+    },
+    orderBy: { startAtUtc: 'asc' },
+    select: {
+      ...sessionPaySelect,
+      teacher: { select: { teacherProfile: { select: { displayName: true } } } },
+      student: { select: { studentProfile: { select: { displayName: true } } } },
+    },
+  });
+
+  const entries: PayrollEntry[] = [];
+  for (const session of sessions) {
+    const pay = sessionPay(session);
+    if (!pay) continue;
+    entries.push({
+      ...pay,
+      teacherName: session.teacher.teacherProfile?.displayName ?? null,
+      studentName: session.student.studentProfile?.displayName ?? null,
+      endAtUtc: session.endAtUtc,
+    });
+  }
+  return entries;
+}
+
+/** Net of everything a closed run recorded per session, so a session adjusted after closing still counts once. */
+async function frozenPayrollEntries(db: DbClient, scope: PayrollScope, runId: string): Promise<PayrollEntry[]> {
+  const items = await db.payrollLineItem.findMany({
+    where: { line: { runId, ...(scope.teacherId !== undefined ? { teacherId: scope.teacherId } : {}) } },
+    orderBy: { session: { startAtUtc: 'asc' } },
+    select: {
+      sessionId: true,
+      studentId: true,
+      payableMinutes: true,
+      amountCents: true,
+      line: {
+        select: {
+          teacherId: true,
+          currency: true,
+          teacher: { select: { teacherProfile: { select: { displayName: true } } } },
+        },
+      },
+      student: { select: { studentProfile: { select: { displayName: true } } } },
+      session: { select: { endAtUtc: true } },
+    },
+  });
+
+  const bySession = new Map<string, PayrollEntry>();
+  for (const item of items) {
+    const key = `${item.sessionId}:${item.line.teacherId}:${item.line.currency}`;
+    const entry = bySession.get(key) ?? {
+      sessionId: item.sessionId,
+      teacherId: item.line.teacherId,
+      teacherName: item.line.teacher.teacherProfile?.displayName ?? null,
+      studentId: item.studentId,
+      studentName: item.student.studentProfile?.displayName ?? null,
+      currency: item.line.currency,
+      durationMs: 0,
+      amountCents: 0,
+      endAtUtc: item.session.endAtUtc,
+    };
+    entry.durationMs += item.payableMinutes * MS_PER_MINUTE;
+    entry.amountCents += item.amountCents;
+    bySession.set(key, entry);
+  }
+
+  return Array.from(bySession.values()).filter((entry) => entry.durationMs !== 0 || entry.amountCents !== 0);
+}
+
+/** Open periods are computed live; closed periods come from the payroll run, including any adjustments since. */
+async function loadPayrollEntries(
+  db: DbClient,
+  scope: PayrollScope,
+  period: PayrollPeriod,
+): Promise<{ run: TeacherPayroll['run']; entries: PayrollEntry[] }> {
+  const run = await db.payrollRun.findFirst({
+    where: { orgId: scope.orgId, periodStartUtc: period.periodStartUtc, periodEndUtc: period.periodEndUtc },
+    select: { id: true, status: true },
+  });
+
+  const entries = run ? await frozenPayrollEntries(db, scope, run.id) : await livePayrollEntries(db, scope, period);
+  return { run, entries };
+}
+
+/** One teacher's pay for a pay period, per currency and per student; also in `fx`'s currency when given. */
+export async function computeTeacherPayroll(
+  db: DbClient,
+  params: { orgId: string; teacherId: string; period: PayrollPeriod; fx?: FxConverter | undefined },
+): Promise<TeacherPayroll> {
+  const { period } = params;
+  const { run, entries } = await loadPayrollEntries(db, { orgId: params.orgId, teacherId: params.teacherId }, period);
+
+  return {
+    periodStartLocal: period.periodStartLocal,
+    periodEndLocal: period.periodEndLocal,
+    timeZone: period.timeZone,
+    run,
+    ...summarizePayroll(entries, params.fx),
+  };
+}
+
+export type OrgPayroll = Omit<TeacherPayroll, 'byStudent'> & {
+  teachers: ({ teacherId: string; teacherName: string | null } & Pick<
+    TeacherPayroll,
+    'totals' | 'converted' | 'byStudent'
+  >)[];
+};
+
+/** Every teacher's pay for a pay period, with org-wide totals per currency; also in `fx`'s currency when given. */
+export async function computeOrgPayroll(
+  db: DbClient,
+  params: { orgId: string; period: PayrollPeriod; fx?: FxConverter | undefined },
+): Promise<OrgPayroll> {
+  const { period } = params;
+  const { run, entries } = await loadPayrollEntries(db, { orgId: params.orgId }, period);
+
+  const entriesByTeacher = new Map<string, PayrollEntry[]>();
+  for (const entry of entries) {
+    const teacherEntries = entriesByTeacher.get(entry.teacherId) ?? [];
+    teacherEntries.push(entry);
+    entriesByTeacher.set(entry.teacherId, teacherEntries);
+  }
+
+  const teachers = Array.from(entriesByTeacher.entries())
+    .map(([teacherId, teacherEntries]) => ({
+      teacherId,
+      teacherName: teacherEntries[0]?.teacherName ?? null,
+      ...summarizePayroll(teacherEntries, params.fx),
+    }))
+    .sort((a, b) => (a.teacherName ?? a.teacherId).localeCompare(b.teacherName ?? b.teacherId));
+
+  const { totals, converted } = summarizePayroll(entries, params.fx);
+
+  return {
+    periodStartLocal: period.periodStartLocal,
+    periodEndLocal: period.periodEndLocal,
+    timeZone: period.timeZone,
+    run,
+    totals,
+    ...(converted ? { converted } : {}),
+    teachers,
+  };
+}
+
+export type PayrollSessionLine = {
+  sessionId: string;
+  teacherId: string;
+  teacherName: string | null;
+  studentId: string;
+  studentName: string | null;
+  status: SessionStatus;
+  startAtUtc: Date;
+  endAtUtc: Date;
+  currency: Currency;
+  payableMinutes: number;
+  teacherHourlyWageCentsSnapshot: number;
+  amountCents: number;
+};
+
+/** The sessions behind a period's pay, oldest first; optionally for one teacher. */
+export async function listPayrollSessions(
+  db: DbClient,
+  params: { orgId: string; teacherId?: string | undefined; period: PayrollPeriod },
+): Promise<{ run: TeacherPayroll['run']; sessions: PayrollSessionLine[] }> {
+  const { run, entries } = await loadPayrollEntries(
+    db,
+    { orgId: params.orgId, teacherId: params.teacherId },
+    params.period,
+  );
+
+  const sessions = await db.session.findMany({
+    where: { id: { in: Array.from(new Set(entries.map((entry) => entry.sessionId))) } },
+    select: { id: true, status: true, startAtUtc: true, endAtUtc: true, teacherHourlyWageCentsSnapshot: true },
+  });
+  const sessionsById = new Map(sessions.map((session) => [session.id, session]));
+
+  const lines: PayrollSessionLine[] = [];
+  for (const entry of entries) {
+    const session = sessionsById.get(entry.sessionId);
+    if (!session) continue;
+    lines.push({
+      sessionId: entry.sessionId,
+      teacherId: entry.teacherId,
+      teacherName: entry.teacherName,
+      studentId: entry.studentId,
+      studentName: entry.studentName,
+      status: session.status,
+      startAtUtc: session.startAtUtc,
+      endAtUtc: session.endAtUtc,
+      currency: entry.currency,
+      payableMinutes: Math.round(entry.durationMs / MS_PER_MINUTE),
+      teacherHourlyWageCentsSnapshot: session.teacherHourlyWageCentsSnapshot,
+      amountCents: entry.amountCents,
+    });
+  }
+
+  return { run, sessions: lines };
+}
+
+export function serializePayrollSessionLine(line: PayrollSessionLine) {
+  return {
+    ...line,
+    startAtUtc: line.startAtUtc.toISOString(),
+    endAtUtc: line.endAtUtc.toISOString(),
+  };
+}
+
+function formatLocalDateTime(date: Date, timeZone: string): string {
+  const { dateLocal, minutes } = utcToLocalDateMinutes(date, timeZone);
+  return `${dateLocal} ${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/** One row per paid session, with local start times in the payroll time zone, for spreadsheets and accounting. */
+export function renderPayrollCsv(period: PayrollPeriod, sessions: PayrollSessionLine[]): string {
+  return toCsv(
+    [
+      'teacher_id',
+      'teacher_name',
+      'student_id',
+      'student_name',
+      'session_id',
+      'status',
+      'start_local',
+      'end_local',
+      'currency',
+      'payable_minutes',
+      'hourly_wage',
+      'amount',
+    ],
+    sessions.map((line) => [
+      line.teacherId,
+      line.teacherName,
+      line.studentId,
+      line.studentName,
+      line.sessionId,
+      line.status,
+      formatLocalDateTime(line.startAtUtc, period.timeZone),
+      formatLocalDateTime(line.endAtUtc, period.timeZone),
+      line.currency,
+      line.payableMinutes,
+      formatCsvCents(line.teacherHourlyWageCentsSnapshot),
+      formatCsvCents(line.amountCents),
+    ]),
+  );
+}
+
+type LineItemDraft = {
+  sessionId: string;
+  studentId: string;
+  payableMinutes: number;
+  amountCents: number;
+};
+
+async function createPayrollLine(
+  tx: Prisma.TransactionClient,
+  params: {
+    runId: string;
+    teacherId: string;
+    currency: Currency;
+    kind: PayrollLineKind;
+    reason: string | null;
+    items: LineItemDraft[];
+  },
+): Promise<void> {
+  await tx.payrollLine.create({
+    data: {
+      runId: params.runId,
+      teacherId: params.teacherId,
+      currency: params.currency,
+      kind: params.kind,
+      reason: params.reason,
+      sessionsCount: params.items.length,
+      payableMinutes: params.items.reduce((sum, item) => sum + item.payableMinutes, 0),
+      amountCents: params.items.reduce((sum, item) => sum + item.amountCents, 0),
+      items: { create: params.items },
+    },
+  });
+}
+
+/**
+ * The closed run sharing any day with `period`, if there is one. Periods closed under earlier settings may not line up
+ * with the current cadence, so this compares the days covered rather than the bounds. The org row is locked first, so
+ * admins closing overlapping periods at the same time are served one after the other and the second sees the first
+ * run; call it in the transaction that closes the period.
+ */
+export async function findOverlappingPayrollRun(
+  tx: Prisma.TransactionClient,
+  params: { orgId: string; period: PayrollPeriod },
+): Promise<{ periodStartLocal: string } | null> {
+  await tx.$queryRaw`SELECT "id" FROM "Organization" WHERE "id" = ${params.orgId} FOR UPDATE`;
+  return tx.payrollRun.findFirst({
+    where: {
+      orgId: params.orgId,
+      periodStartUtc: { lt: params.period.periodEndUtc },
+      periodEndUtc: { gt: params.period.periodStartUtc },
+    },
+    select: { periodStartLocal: true },
+  });
+}
+
+/**
+ * Closes a payroll period: freezes one REGULAR line per teacher and currency, with the sessions behind it, from what
+ * the period's sessions earn right now.
+ */
+export async function closePayrollRun(
+  tx: Prisma.TransactionClient,
+  params: { orgId: string; adminId: string; period: PayrollPeriod },
+): Promise<string> {
+  const { period } = params;
+  const run = await tx.payrollRun.create({
+    data: {
+      orgId: params.orgId,
+      periodStartLocal: period.periodStartLocal,
+      periodEndLocal: period.periodEndLocal,
+      timeZone: period.timeZone,
+      periodStartUtc: period.periodStartUtc,
+      periodEndUtc: period.periodEndUtc,
+      closedByAdminId: params.adminId,
+    },
+    select: { id: true },
+  });
+
+  const sessions = await tx.session.findMany({
+    where: {
+      teacher: { orgId: params.orgId },
+      ...payableSessionWhere,
+      endAtUtc: { gte: period.periodStartUtc, lt: period.periodEndUtc },
+    },
+    orderBy: { startAtUtc: 'asc' },
+    select: sessionPaySelect,
+  });
+
+  const groups = new Map<string, { teacherId: string; currency: Currency; items: LineItemDraft[] }>();
+  for (const session of sessions) {
+    const pay = sessionPay(session);
+    if (!pay) continue;
+    const key = `${pay.teacherId}:${pay.currency}`;
+    const group = groups.get(key) ?? { teacherId: pay.teacherId, currency: pay.currency, items: [] };
+    group.items.push({
+      sessionId: pay.sessionId,
+      studentId: pay.studentId,
+      payableMinutes: Math.round(pay.durationMs / MS_PER_MINUTE),
+      amountCents: pay.amountCents,
+    });
+    groups.set(key, group);
+  }
+
+  for (const group of groups.values()) {
+    await createPayrollLine(tx, { runId: run.id, kind: PayrollLineKind.REGULAR, reason: null, ...group });
+  }
+
+  return run.id;
+}
+
+/**
+ * Reconciles changed sessions with closed payroll periods. What each closed run recorded for a session is compared
+ * with what the session earns now (counting only if it still ends inside that run's period), and any difference is
+ * recorded as an ADJUSTMENT line on that run; frozen lines are never rewritten. Call it in the transaction that made
+ * the change.
+ */
+export async function recordPayrollAdjustments(
+  tx: Prisma.TransactionClient,
+  sessionIds: string[],
+  reason: string,
+): Promise<void> {
+  for (const sessionId of sessionIds) {
+    const session = await tx.session.findUnique({
+      where: { id: sessionId },
+      select: { ...sessionPaySelect, teacher: { select: { orgId: true } } },
+    });
+    if (!session) continue;
+
+    const recorded = await tx.payrollLineItem.findMany({
+      where: { sessionId },
+      select: {
+        studentId: true,
+        payableMinutes: true,
+        amountCents: true,
+        line: { select: { runId: true, teacherId: true, currency: true } },
+      },
+    });
+    const currentRun = await tx.payrollRun.findFirst({
+      where: {
+        orgId: session.teacher.orgId,
+        periodStartUtc: { lte: session.endAtUtc },
+        periodEndUtc: { gt: session.endAtUtc },
+      },
+      select: { id: true },
+    });
+    if (!currentRun && recorded.length === 0) continue;
+
+    const pay = sessionPay(session);
+    const runIds = new Set(recorded.map((item) => item.line.runId));
+    if (currentRun) runIds.add(currentRun.id);
+
+    for (const runId of runIds) {
+      const deltas = new Map<string, { teacherId: string; currency: Currency; item: LineItemDraft }>();
+      const addDelta = (
+        teacherId: string,
+        currency: Currency,
+        studentId: string,
+        payableMinutes: number,
+        amountCents: number,
+      ) => {
+        const key = `${teacherId}:${currency}`;
+        const delta = deltas.get(key) ?? {
+          teacherId,
+          currency,
+          item: { sessionId, studentId, payableMinutes: 0, amountCents: 0 },
+        };
+        delta.item.payableMinutes += payableMinutes;
+        delta.item.amountCents += amountCents;
+        deltas.set(key, delta);
+      };
+
+      if (pay && runId === currentRun?.id) {
+        addDelta(
+          pay.teacherId,
+          pay.currency,
+          pay.studentId,
+          Math.round(pay.durationMs / MS_PER_MINUTE),
+          pay.amountCents,
+        );
+      }
+      for (const item of recorded) {
+        if (item.line.runId !== runId) continue;
+        addDelta(item.line.teacherId, item.line.currency, item.studentId, -item.payableMinutes, -item.amountCents);
+      }
+
+      for (const delta of deltas.values()) {
+        if (delta.item.payableMinutes === 0 && delta.item.amountCents === 0) continue;
+        await createPayrollLine(tx, {
+          runId,
+          teacherId: delta.teacherId,
+          currency: delta.currency,
+          kind: PayrollLineKind.ADJUSTMENT,
+          reason,
+          items: [delta.item],
+        });
+      }
+    }
+  }
+}
+
+export const payrollRunSelect = {
+  id: true,
+  periodStartLocal: true,
+  periodEndLocal: true,
+  timeZone: true,
+  status: true,
+  closedAt: true,
+  approvedAt: true,
+  paidAt: true,
+  createdAt: true,
+  updatedAt: true,
+  lines: {
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      teacherId: true,
+      kind: true,
+      currency: true,
+      sessionsCount: true,
+      payableMinutes: true,
+      amountCents: true,
+      reason: true,
+      paidAt: true,
+      createdAt: true,
+      teacher: { select: { teacherProfile: { select: { displayName: true } } } },
+    },
+  },
+} as const;
+
+type PayrollRunRow = Prisma.PayrollRunGetPayload<{ select: typeof payrollRunSelect }>;
+
+export function serializePayrollRun(run: PayrollRunRow) {
+  const totalsByCurrency = new Map<Currency, { currency: Currency; amountCents: number; unpaidCents: number }>();
+  for (const line of run.lines) {
+    const total = totalsByCurrency.get(line.currency) ?? { currency: line.currency, amountCents: 0, unpaidCents: 0 };
+    total.amountCents += line.amountCents;
+    if (line.paidAt === null) total.unpaidCents += line.amountCents;
+    totalsByCurrency.set(line.currency, total);
+  }
+
+  return {
+    id: run.id,
+    periodStartLocal: run.periodStartLocal,
+    periodEndLocal: run.periodEndLocal,
+    timeZone: run.timeZone,
+    status: run.status,
+    closedAt: run.closedAt.toISOString(),
+    approvedAt: run.approvedAt?.toISOString() ?? null,
+    paidAt: run.paidAt?.toISOString() ?? null,
+    createdAt: run.createdAt.toISOString(),
+    updatedAt: run.updatedAt.toISOString(),
+    totals: Array.from(totalsByCurrency.values()).sort((a, b) => a.currency.localeCompare(b.currency)),
+    lines: run.lines.map((line) => ({
+      id: line.id,
+      teacherId: line.teacherId,
+      teacherName: line.teacher.teacherProfile?.displayName ?? null,
+      kind: line.kind,
+      currency: line.currency,
+      sessionsCount: line.sessionsCount,
+      payableMinutes: line.payableMinutes,
+      amountCents: line.amountCents,
+      reason: line.reason ?? null,
+      paidAt: line.paidAt?.toISOString() ?? null,
+      createdAt: line.createdAt.toISOString(),
+    })),
+  };
+}
@@ -0,0 +1,152 @@
+import { PayrollCadence, type Prisma, type PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+
+import { isoDateAddDays, parseIsoDate, zonedTimeToUtc } from './timezone.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export type PayrollSettingsValues = {
+  timeZone: string;
+  /** ISO weekday the pay week starts on, 1 = Monday … 7 = Sunday. Only used by weekly and fortnightly cadences. */
+  weekStartDay: number;
+  cadence: PayrollCadence;
+  /** Any first day of a fortnight; fortnights repeat every 14 days from it. */
+  anchorDateLocal: string | null;
+};
+
+/** Used until an org saves its own settings; matches the original Monday-to-Sunday Sydney week. */
+export const DEFAULT_PAYROLL_SETTINGS: PayrollSettingsValues = {
+  timeZone: 'Australia/Sydney',
+  weekStartDay: 1,
+  cadence: PayrollCadence.WEEKLY,
+  anchorDateLocal: null,
+};
+
+/** Fortnights line up with this week when an org has not picked its own anchor. */
+const DEFAULT_FORTNIGHT_ANCHOR = '2024-01-01';
+
+export async function getPayrollSettings(db: DbClient, orgId: string): Promise<PayrollSettingsValues> {
+  const settings = await db.payrollSettings.findUnique({
+    where: { orgId },
+    select: { timeZone: true, weekStartDay: true, cadence: true, anchorDateLocal: true },
+  });
+  return settings ?? DEFAULT_PAYROLL_SETTINGS;
+}
+
+export type PayrollPeriod = {
+  periodStartLocal: string;
+  /** Inclusive. */
+  periodEndLocal: string;
+  timeZone: string;
+  periodStartUtc: Date;
+  /** Exclusive. */
+  periodEndUtc: Date;
+};
+
+function formatIsoDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+export function isoWeekday(dateLocal: string): number {
+  const { year, month, day } = parseIsoDate(dateLocal);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  return weekday === 0 ? 7 : weekday;
+}
+
+function daysBetween(fromLocal: string, toLocal: string): number {
+  const from = parseIsoDate(fromLocal);
+  const to = parseIsoDate(toLocal);
+  return Math.round(
+    (Date.UTC(to.year, to.month - 1, to.day) - Date.UTC(from.year, from.month - 1, from.day)) / MS_PER_DAY,
+  );
+}
+
+export function weekStartOnOrBefore(dateLocal: string, weekStartDay: number): string {
+  return isoDateAddDays(dateLocal, -((isoWeekday(dateLocal) - weekStartDay + 7) % 7));
+}
+
+function periodBoundsContaining(
+  settings: PayrollSettingsValues,
+  dateLocal: string,
+): { startLocal: string; endLocal: string } {
+  const { year, month, day } = parseIsoDate(dateLocal);
+  const lastDayOfMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+  switch (settings.cadence) {
+    case PayrollCadence.MONTHLY:
+      return { startLocal: formatIsoDate(year, month, 1), endLocal: formatIsoDate(year, month, lastDayOfMonth) };
+    case PayrollCadence.SEMI_MONTHLY:
+      return day <= 15
+        ? { startLocal: formatIsoDate(year, month, 1), endLocal: formatIsoDate(year, month, 15) }
+        : { startLocal: formatIsoDate(year, month, 16), endLocal: formatIsoDate(year, month, lastDayOfMonth) };
+    case PayrollCadence.FORTNIGHTLY: {
+      const weekStart = weekStartOnOrBefore(dateLocal, settings.weekStartDay);
+      const anchor = weekStartOnOrBefore(settings.anchorDateLocal ?? DEFAULT_FORTNIGHT_ANCHOR, settings.weekStartDay);
+      const weeksSinceAnchor = daysBetween(anchor, weekStart) / 7;
+      const startLocal = Math.abs(weeksSinceAnchor % 2) === 1 ? isoDateAddDays(weekStart, -7) : weekStart;
+      return { startLocal, endLocal: isoDateAddDays(startLocal, 13) };
+    }
+    case PayrollCadence.WEEKLY: {
+      const startLocal = weekStartOnOrBefore(dateLocal, settings.weekStartDay);
+      return { startLocal, endLocal: isoDateAddDays(startLocal, 6) };
+    }
+  }
+}
+
+/** The pay period that contains a local date, in the org's payroll time zone. */
+export function payrollPeriodContaining(settings: PayrollSettingsValues, dateLocal: string): PayrollPeriod {
+  const { startLocal, endLocal } = periodBoundsContaining(settings, dateLocal);
+  return {
+    periodStartLocal: startLocal,
+    periodEndLocal: endLocal,
+    timeZone: settings.timeZone,
+    periodStartUtc: zonedTimeToUtc(parseIsoDate(startLocal), settings.timeZone),
+    periodEndUtc: zonedTimeToUtc(parseIsoDate(isoDateAddDays(endLocal, 1)), settings.timeZone),
+  };
+}
+
+const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .refine(
+    (value) => {
+      try {
+        parseIsoDate(value);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: 'Invalid date (YYYY-MM-DD)' },
+  );
+
+/**
+ * Picks a pay period either by its first day (`periodStart`, or the older `weekStart`) or by any `date` inside it.
+ * Used for both query strings and request bodies.
+ */
+export const payrollPeriodQuerySchema = z
+  .object({
+    periodStart: isoDateSchema.optional(),
+    weekStart: isoDateSchema.optional(),
+    date: isoDateSchema.optional(),
+  })
+  .refine(
+    (data) => [data.periodStart, data.weekStart, data.date].filter((value) => value !== undefined).length === 1,
+    { message: 'Provide exactly one of `periodStart` or `date`' },
+  );
+
+export type PayrollPeriodQuery = z.infer<typeof payrollPeriodQuerySchema>;
+
+/** Null when the given `periodStart` is not the first day of a pay period under the org's settings. */
+export function resolvePayrollPeriod(settings: PayrollSettingsValues, query: PayrollPeriodQuery): PayrollPeriod | null {
+  if (query.date !== undefined) return payrollPeriodContaining(settings, query.date);
+
+  const periodStart = query.periodStart ?? query.weekStart;
+  if (periodStart === undefined) return null;
+  const period = payrollPeriodContaining(settings, periodStart);
+  return period.periodStartLocal === periodStart ? period : null;
+}
+
+export const INVALID_PERIOD_START_MESSAGE = '`periodStart` must be the first day of a payroll period';
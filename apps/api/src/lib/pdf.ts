@@ -0,0 +1,196 @@
+import { deflateSync } from 'node:zlib';
+
+/**
+ * A deliberately small PDF writer for our generated documents (invoices, payslips, statements): text, lines and
+ * filled rectangles on A4 pages, nothing more.
+ *
+ * All text uses the standard STSong-Light CJK font, which PDF viewers supply themselves, so Chinese and English render
+ * without embedding a font file. Printable ASCII is declared half-width and everything else full-width, which is what
+ * `textWidth` uses for alignment.
+ */
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+export type RgbColor = readonly [number, number, number];
+
+export const BLACK: RgbColor = [0, 0, 0];
+
+type TextOptions = {
+  size?: number;
+  color?: RgbColor;
+  bold?: boolean;
+  align?: 'left' | 'right' | 'center';
+};
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+function colorOperands(color: RgbColor): string {
+  return color.map((channel) => formatNumber(channel)).join(' ');
+}
+
+function utf16Hex(text: string): string {
+  let hex = '';
+  for (let i = 0; i < text.length; i += 1) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0');
+  }
+  return hex.toUpperCase();
+}
+
+/** `#RRGGBB` to PDF colour operands; falls back to black for anything else. */
+export function parseHexColor(hex: string): RgbColor {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) return BLACK;
+  return [
+    Number.parseInt(match[1] ?? '0', 16) / 255,
+    Number.parseInt(match[2] ?? '0', 16) / 255,
+    Number.parseInt(match[3] ?? '0', 16) / 255,
+  ];
+}
+
+export function textWidth(text: string, size: number): number {
+  let units = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    units += code >= 0x20 && code <= 0x7e ? 500 : 1000;
+  }
+  return (units / 1000) * size;
+}
+
+/** Coordinates are in points from the top-left corner of the page. */
+export class PdfDocument {
+  private readonly pages: string[][] = [];
+  private current: string[] = [];
+
+  constructor(private readonly title: string) {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.current = [];
+    this.pages.push(this.current);
+  }
+
+  /** Switches drawing to an earlier page, e.g. to add "page x of y" footers once the length is known. */
+  goToPage(index: number): void {
+    const page = this.pages[index];
+    if (!page) throw new Error(`Page ${index} does not exist`);
+    this.current = page;
+  }
+
+  text(text: string, x: number, y: number, options: TextOptions = {}): void {
+    if (!text) return;
+    const size = options.size ?? 10;
+    const color = options.color ?? BLACK;
+    const width = textWidth(text, size);
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+    const baseline = A4_HEIGHT - y - size;
+
+    const ops = ['BT', `/F1 ${formatNumber(size)} Tf`, `${colorOperands(color)} rg`];
+    // There is no bold face of the built-in font, so headings are filled and stroked instead.
+    if (options.bold) ops.push(`${colorOperands(color)} RG`, `${formatNumber(size / 30)} w`, '2 Tr');
+    ops.push(`${formatNumber(left)} ${formatNumber(baseline)} Td`, `<${utf16Hex(text)}> Tj`, 'ET');
+    this.current.push(...ops);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: { color?: RgbColor; width?: number } = {}): void {
+    this.current.push(
+      `${colorOperands(options.color ?? BLACK)} RG`,
+      `${formatNumber(options.width ?? 0.5)} w`,
+      `${formatNumber(x1)} ${formatNumber(A4_HEIGHT - y1)} m`,
+      `${formatNumber(x2)} ${formatNumber(A4_HEIGHT - y2)} l`,
+      'S',
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: RgbColor): void {
+    this.current.push(
+      `${colorOperands(fill)} rg`,
+      `${formatNumber(x)} ${formatNumber(A4_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re`,
+      'f',
+    );
+  }
+
+  toBuffer(): Buffer {
+    const objects: Buffer[] = [];
+    const addObject = (body: string | Buffer): number => {
+      objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+      return objects.length;
+    };
+
+    const catalogId = addObject('');
+    const pagesId = addObject('');
+    const descriptorId = addObject(
+      '<< /Type /FontDescriptor /FontName /STSong-Light /Flags 6 /FontBBox [-25 -254 1000 880] ' +
+        '/ItalicAngle 0 /Ascent 752 /Descent -271 /CapHeight 737 /StemV 58 >>',
+    );
+    const cidFontId = addObject(
+      '<< /Type /Font /Subtype /CIDFontType0 /BaseFont /STSong-Light ' +
+        '/CIDSystemInfo << /Registry (Adobe) /Ordering (GB1) /Supplement 2 >> ' +
+        `/FontDescriptor ${descriptorId} 0 R /DW 1000 /W [1 95 500] >>`,
+    );
+    const fontId = addObject(
+      `<< /Type /Font /Subtype /Type0 /BaseFont /STSong-Light /Encoding /UniGB-UTF16-H /DescendantFonts [${cidFontId} 0 R] >>`,
+    );
+
+    const pageIds: number[] = [];
+    for (const ops of this.pages) {
+      const content = deflateSync(Buffer.from(ops.join('\n'), 'latin1'));
+      const contentId = addObject(
+        Buffer.concat([
+          Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+          content,
+          Buffer.from('\nendstream', 'latin1'),
+        ]),
+      );
+      pageIds.push(
+        addObject(
+          `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] ` +
+            `/Resources << /Font << /F1 ${fontId} 0 R >> >> /Contents ${contentId} 0 R >>`,
+        ),
+      );
+    }
+
+    objects[catalogId - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`, 'latin1');
+    objects[pagesId - 1] = Buffer.from(
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+      'latin1',
+    );
+    const infoId = addObject(`<< /Title <FEFF${utf16Hex(this.title)}> /Producer (guiguan) >>`);
+
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n', 'latin1')];
+    let offset = chunks[0]!.length;
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      offsets.push(offset);
+      const chunk = Buffer.concat([
+        Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+        body,
+        Buffer.from('\nendobj\n', 'latin1'),
+      ]);
+      chunks.push(chunk);
+      offset += chunk.length;
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map((value) => `${String(value).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+      'startxref',
+      String(offset),
+      '%%EOF',
+    ].join('\n');
+    chunks.push(Buffer.from(`${xref}\n`, 'latin1'));
+
+    return Buffer.concat(chunks);
+  }
+}
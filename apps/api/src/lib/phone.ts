@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+/**
+ * Brings a phone number into the E.164 form stored on `User.phone`, or returns null when it is not one. Mainland
+ * mobile numbers may be typed without the country code; any other number needs its `+` or `00` prefix.
+ */
+export function normalizePhone(raw: string): string | null {
+  const compact = raw.replace(/[\s().-]/g, '').replace(/^00/, '+');
+  if (/^1\d{10}$/.test(compact)) return `+86${compact}`;
+  if (/^\+[1-9]\d{6,14}$/.test(compact)) return compact;
+  return null;
+}
+
+/** A phone number in any accepted form, parsed into E.164. */
+export const phoneSchema = z.string().transform((value, ctx) => {
+  const phone = normalizePhone(value);
+  if (!phone) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid phone number' });
+    return z.NEVER;
+  }
+  return phone;
+});
@@ -0,0 +1,93 @@
+import { RecurrenceFrequency } from '@prisma/client';
+
+import { isoDateAddDays, parseIsoDate, zonedTimeToUtc } from './timezone.js';
+
+export const MAX_SERIES_OCCURRENCES = 104;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+export type SeriesRule = {
+  frequency: RecurrenceFrequency;
+  classTimeZone: string;
+  startDateLocal: string;
+  startTimeLocal: string;
+  durationMinutes: number;
+  untilDateLocal: string | null;
+  occurrenceCount: number | null;
+  exceptionDates: string[];
+};
+
+export type SeriesOccurrence = {
+  occurrenceDate: string;
+  startAtUtc: Date;
+  endAtUtc: Date;
+};
+
+export function parseTimeOfDay(timeStr: string): { hour: number; minute: number } {
+  const match = /^(\d{2}):(\d{2})$/.exec(timeStr);
+  if (!match) throw new Error('Invalid time of day');
+
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  if (hour > 23 || minute > 59) throw new Error('Invalid time of day');
+
+  return { hour, minute };
+}
+
+export function frequencyIntervalDays(frequency: RecurrenceFrequency): number {
+  return frequency === RecurrenceFrequency.FORTNIGHTLY ? 14 : 7;
+}
+
+export function occurrenceToUtc(
+  occurrenceDate: string,
+  rule: Pick<SeriesRule, 'classTimeZone' | 'startTimeLocal' | 'durationMinutes'>,
+): { startAtUtc: Date; endAtUtc: Date } {
+  const { year, month, day } = parseIsoDate(occurrenceDate);
+  const { hour, minute } = parseTimeOfDay(rule.startTimeLocal);
+
+  // Resolve each occurrence from its own local wall-clock time so it stays put across DST changes.
+  const startAtUtc = zonedTimeToUtc({ year, month, day, hour, minute, second: 0 }, rule.classTimeZone);
+  const endAtUtc = new Date(startAtUtc.getTime() + rule.durationMinutes * MS_PER_MINUTE);
+
+  return { startAtUtc, endAtUtc };
+}
+
+/**
+ * Expands a series into concrete occurrences. Like RRULE COUNT, `occurrenceCount` is applied before
+ * exception dates are removed, so skipping a week shortens the series instead of extending it.
+ */
+export function expandSeriesOccurrences(rule: SeriesRule): SeriesOccurrence[] {
+  if (!rule.untilDateLocal && !rule.occurrenceCount) {
+    throw new Error('Series needs either an until date or an occurrence count');
+  }
+
+  const intervalDays = frequencyIntervalDays(rule.frequency);
+  const exceptions = new Set(rule.exceptionDates);
+  const occurrences: SeriesOccurrence[] = [];
+
+  let occurrenceDate = rule.startDateLocal;
+  for (let index = 0; index < MAX_SERIES_OCCURRENCES; index += 1) {
+    if (rule.occurrenceCount && index >= rule.occurrenceCount) break;
+    if (rule.untilDateLocal && occurrenceDate > rule.untilDateLocal) break;
+
+    if (!exceptions.has(occurrenceDate)) {
+      occurrences.push({ occurrenceDate, ...occurrenceToUtc(occurrenceDate, rule) });
+    }
+
+    occurrenceDate = isoDateAddDays(occurrenceDate, intervalDays);
+  }
+
+  return occurrences;
+}
+
+export function countOccurrencesBefore(rule: SeriesRule, occurrenceDate: string): number {
+  const intervalDays = frequencyIntervalDays(rule.frequency);
+
+  let count = 0;
+  let cursor = rule.startDateLocal;
+  while (cursor < occurrenceDate && count < MAX_SERIES_OCCURRENCES) {
+    count += 1;
+    cursor = isoDateAddDays(cursor, intervalDays);
+  }
+  return count;
+}
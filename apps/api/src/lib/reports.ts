@@ -0,0 +1,229 @@
+import { Currency, SessionStatus, type Prisma, type PrismaClient, type Subject } from '@prisma/client';
+import { z } from 'zod';
+
+import type { FxConverter } from './fx.js';
+import { periodDateSchema, sessionCharge, sessionChargeSelect } from './invoices.js';
+import { sessionPay, sessionPaySelect } from './payroll.js';
+import { getPayrollSettings, weekStartOnOrBefore } from './payrollSettings.js';
+import { isoDateAddDays, parseIsoDate, utcToLocalDateMinutes, zonedTimeToUtc } from './timezone.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export const REPORT_RANGE_MAX_DAYS = 366;
+
+/** Weeks start on the org's payroll week start day. */
+export const reportGranularitySchema = z.enum(['DAY', 'WEEK', 'MONTH']);
+
+export type ReportGranularity = z.infer<typeof reportGranularitySchema>;
+
+export const reportQuerySchema = z
+  .object({
+    from: periodDateSchema,
+    to: periodDateSchema,
+    granularity: reportGranularitySchema.default('MONTH'),
+    reportingCurrency: z.nativeEnum(Currency).optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.to < data.from) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['to'], message: '`to` must not be before `from`' });
+      return;
+    }
+    if (isoDateAddDays(data.from, REPORT_RANGE_MAX_DAYS) <= data.to) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['to'],
+        message: `Report range cannot exceed ${REPORT_RANGE_MAX_DAYS} days`,
+      });
+    }
+  });
+
+export type ReportQuery = z.infer<typeof reportQuerySchema>;
+
+/** Money never mixes across currencies; every breakdown carries one of these per currency. */
+export type ReportFigures = {
+  currency: Currency;
+  sessionsCount: number;
+  revenueCents: number;
+  wageCostCents: number;
+  marginCents: number;
+};
+
+/** `converted` appears only when a reporting currency was asked for; `totals` keep the original currencies. */
+type ReportRow = { totals: ReportFigures[]; converted?: ReportFigures };
+
+export type RevenueReport = {
+  from: string;
+  to: string;
+  timeZone: string;
+  granularity: ReportGranularity;
+  byPeriod: ({ periodStartLocal: string } & ReportRow)[];
+  byTeacher: ({ teacherId: string; teacherName: string | null } & ReportRow)[];
+  byStudent: ({ studentId: string; studentName: string | null } & ReportRow)[];
+  bySubject: ({ subject: Subject } & ReportRow)[];
+} & ReportRow;
+
+function emptyFigures(currency: Currency): ReportFigures {
+  return { currency, sessionsCount: 0, revenueCents: 0, wageCostCents: 0, marginCents: 0 };
+}
+
+function addFigures(figures: ReportFigures, revenueCents: number, wageCostCents: number) {
+  figures.sessionsCount += 1;
+  figures.revenueCents += revenueCents;
+  figures.wageCostCents += wageCostCents;
+  figures.marginCents += revenueCents - wageCostCents;
+}
+
+/** One session's money, in its own currency and, when reporting in one currency, converted at its date. */
+type SessionFigures = {
+  currency: Currency;
+  revenueCents: number;
+  wageCostCents: number;
+  converted: { revenueCents: number; wageCostCents: number } | null;
+};
+
+type FiguresAccumulator = { add: (session: SessionFigures) => void; toRow: () => ReportRow };
+
+function createAccumulator(reportingCurrency: Currency | null): FiguresAccumulator {
+  const byCurrency = new Map<Currency, ReportFigures>();
+  const converted = reportingCurrency ? emptyFigures(reportingCurrency) : null;
+
+  return {
+    add: (session) => {
+      const figures = byCurrency.get(session.currency) ?? emptyFigures(session.currency);
+      addFigures(figures, session.revenueCents, session.wageCostCents);
+      byCurrency.set(session.currency, figures);
+
+      if (converted && session.converted) {
+        addFigures(converted, session.converted.revenueCents, session.converted.wageCostCents);
+      }
+    },
+    toRow: () => {
+      const totals = Array.from(byCurrency.values()).sort((a, b) => a.currency.localeCompare(b.currency));
+      return converted ? { totals, converted } : { totals };
+    },
+  };
+}
+
+function periodBucket(dateLocal: string, granularity: ReportGranularity, weekStartDay: number): string {
+  switch (granularity) {
+    case 'DAY':
+      return dateLocal;
+    case 'WEEK':
+      return weekStartOnOrBefore(dateLocal, weekStartDay);
+    case 'MONTH':
+      return `${dateLocal.slice(0, 8)}01`;
+  }
+}
+
+/**
+ * Revenue, teacher wage cost and gross margin for sessions that ended between `from` and `to` (inclusive local
+ * dates in the org's payroll time zone). Revenue is what each session bills its student and wage cost what it pays
+ * its teacher, both prorated per session exactly as invoices and payroll do, so the report reconciles with them.
+ * With `fx`, each session is also converted at its own date, and margin is converted revenue less converted cost.
+ */
+export async function computeRevenueReport(
+  db: DbClient,
+  params: { orgId: string; fx?: FxConverter | undefined } & ReportQuery,
+): Promise<RevenueReport> {
+  const settings = await getPayrollSettings(db, params.orgId);
+  const { timeZone, weekStartDay } = settings;
+
+  const rangeStartUtc = zonedTimeToUtc(parseIsoDate(params.from), timeZone);
+  const rangeEndUtc = zonedTimeToUtc(parseIsoDate(isoDateAddDays(params.to, 1)), timeZone);
+
+  const sessions = await db.session.findMany({
+    where: {
+      teacher: { orgId: params.orgId },
+      status: { in: [SessionStatus.COMPLETED, SessionStatus.CANCELLED] },
+      endAtUtc: { gte: rangeStartUtc, lt: rangeEndUtc },
+    },
+    orderBy: { startAtUtc: 'asc' },
+    select: {
+      ...sessionChargeSelect,
+      ...sessionPaySelect,
+      subject: true,
+      teacher: { select: { teacherProfile: { select: { displayName: true } } } },
+      student: { select: { studentProfile: { select: { displayName: true } } } },
+    },
+  });
+
+  const reportingCurrency = params.fx?.currency ?? null;
+  const newAccumulator = () => createAccumulator(reportingCurrency);
+
+  // Every bucket in the range is listed, even empty ones, so charts keep an even time axis.
+  const byPeriod = new Map<string, FiguresAccumulator>();
+  for (let date = params.from; date <= params.to; date = isoDateAddDays(date, 1)) {
+    const bucket = periodBucket(date, params.granularity, weekStartDay);
+    if (!byPeriod.has(bucket)) byPeriod.set(bucket, newAccumulator());
+  }
+
+  const totals = newAccumulator();
+  const byTeacher = new Map<string, { teacherName: string | null; figures: FiguresAccumulator }>();
+  const byStudent = new Map<string, { studentName: string | null; figures: FiguresAccumulator }>();
+  const bySubject = new Map<Subject, FiguresAccumulator>();
+
+  for (const session of sessions) {
+    const revenueCents = sessionCharge(session)?.amountCents ?? 0;
+    const wageCostCents = sessionPay(session)?.amountCents ?? 0;
+    if (revenueCents === 0 && wageCostCents === 0) continue;
+
+    const currency = session.currencySnapshot;
+    const { fx } = params;
+    const figures: SessionFigures = {
+      currency,
+      revenueCents,
+      wageCostCents,
+      converted: fx
+        ? {
+            revenueCents: fx.convert(revenueCents, currency, session.endAtUtc),
+            wageCostCents: fx.convert(wageCostCents, currency, session.endAtUtc),
+          }
+        : null,
+    };
+    totals.add(figures);
+
+    const { dateLocal } = utcToLocalDateMinutes(session.endAtUtc, timeZone);
+    const bucket = periodBucket(dateLocal, params.granularity, weekStartDay);
+    const periodFigures = byPeriod.get(bucket) ?? newAccumulator();
+    periodFigures.add(figures);
+    byPeriod.set(bucket, periodFigures);
+
+    const teacher = byTeacher.get(session.teacherId) ?? {
+      teacherName: session.teacher.teacherProfile?.displayName ?? null,
+      figures: newAccumulator(),
+    };
+    teacher.figures.add(figures);
+    byTeacher.set(session.teacherId, teacher);
+
+    const student = byStudent.get(session.studentId) ?? {
+      studentName: session.student.studentProfile?.displayName ?? null,
+      figures: newAccumulator(),
+    };
+    student.figures.add(figures);
+    byStudent.set(session.studentId, student);
+
+    const subjectFigures = bySubject.get(session.subject) ?? newAccumulator();
+    subjectFigures.add(figures);
+    bySubject.set(session.subject, subjectFigures);
+  }
+
+  return {
+    from: params.from,
+    to: params.to,
+    timeZone,
+    granularity: params.granularity,
+    ...totals.toRow(),
+    byPeriod: Array.from(byPeriod.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([periodStartLocal, figures]) => ({ periodStartLocal, ...figures.toRow() })),
+    byTeacher: Array.from(byTeacher.entries())
+      .map(([teacherId, entry]) => ({ teacherId, teacherName: entry.teacherName, ...entry.figures.toRow() }))
+      .sort((a, b) => (a.teacherName ?? a.teacherId).localeCompare(b.teacherName ?? b.teacherId)),
+    byStudent: Array.from(byStudent.entries())
+      .map(([studentId, entry]) => ({ studentId, studentName: entry.studentName, ...entry.figures.toRow() }))
+      .sort((a, b) => (a.studentName ?? a.studentId).localeCompare(b.studentName ?? b.studentId)),
+    bySubject: Array.from(bySubject.entries())
+      .map(([subject, figures]) => ({ subject, ...figures.toRow() }))
+      .sort((a, b) => a.subject.localeCompare(b.subject)),
+  };
+}
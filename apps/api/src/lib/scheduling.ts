@@ -0,0 +1,178 @@
+import { SessionStatus, type Prisma, type PrismaClient } from '@prisma/client';
+
+import { checkAvailability, loadAvailabilityRules } from './availability.js';
+import { utcToLocalDateMinutes } from './timezone.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export type ConflictParty = 'TEACHER' | 'STUDENT';
+
+export type SessionConflict = {
+  sessionId: string;
+  teacherId: string;
+  studentId: string;
+  startAtUtc: string;
+  endAtUtc: string;
+  parties: ConflictParty[];
+};
+
+export async function findSessionConflicts(
+  db: DbClient,
+  params: { teacherId: string; studentId: string; startAtUtc: Date; endAtUtc: Date; excludeSessionIds?: string[] },
+): Promise<SessionConflict[]> {
+  const sessions = await db.session.findMany({
+    where: {
+      ...(params.excludeSessionIds?.length ? { id: { notIn: params.excludeSessionIds } } : {}),
+      status: SessionStatus.SCHEDULED,
+      startAtUtc: { lt: params.endAtUtc },
+      endAtUtc: { gt: params.startAtUtc },
+      OR: [{ teacherId: params.teacherId }, { studentId: params.studentId }],
+    },
+    orderBy: { startAtUtc: 'asc' },
+    select: { id: true, teacherId: true, studentId: true, startAtUtc: true, endAtUtc: true },
+  });
+
+  return sessions.map((session) => {
+    const parties: ConflictParty[] = [];
+    if (session.teacherId === params.teacherId) parties.push('TEACHER');
+    if (session.studentId === params.studentId) parties.push('STUDENT');
+
+    return {
+      sessionId: session.id,
+      teacherId: session.teacherId,
+      studentId: session.studentId,
+      startAtUtc: session.startAtUtc.toISOString(),
+      endAtUtc: session.endAtUtc.toISOString(),
+      parties,
+    };
+  });
+}
+
+export function conflictMessage(conflicts: { parties: ConflictParty[] }[]): string {
+  const teacher = conflicts.some((conflict) => conflict.parties.includes('TEACHER'));
+  const student = conflicts.some((conflict) => conflict.parties.includes('STUDENT'));
+
+  if (teacher && student) return 'Teacher and student time conflict';
+  return teacher ? 'Teacher time conflict' : 'Student time conflict';
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+
+export const SUGGESTION_STEP_MINUTES = 30;
+
+/** Local hours (in each party's own profile time zone) that a suggested slot must fit inside. */
+export const REASONABLE_LOCAL_HOURS = { start: 7 * 60, end: 22 * 60 };
+
+/** Local hours that count as comfortable; slots outside them are still offered but ranked lower. */
+export const PREFERRED_LOCAL_HOURS = { start: 9 * 60, end: 20 * 60 };
+
+export type SlotSuggestion = {
+  startAtUtc: string;
+  endAtUtc: string;
+  teacherLocalStart: string;
+  studentLocalStart: string;
+  score: number;
+};
+
+function formatLocal(local: { dateLocal: string; minutes: number }): string {
+  const hour = String(Math.floor(local.minutes / 60)).padStart(2, '0');
+  const minute = String(local.minutes % 60).padStart(2, '0');
+  return `${local.dateLocal} ${hour}:${minute}`;
+}
+
+function fitsLocalHours(
+  startAtUtc: Date,
+  endAtUtc: Date,
+  timeZone: string,
+  hours: { start: number; end: number },
+): boolean {
+  const start = utcToLocalDateMinutes(startAtUtc, timeZone);
+  const end = utcToLocalDateMinutes(endAtUtc, timeZone);
+  return start.dateLocal === end.dateLocal && start.minutes >= hours.start && end.minutes <= hours.end;
+}
+
+/**
+ * Walks the range in fixed steps and keeps every slot where neither party is booked, the teacher is available and
+ * both local clocks are within reasonable hours. Slots start at 100 points, lose 10 per party outside preferred
+ * hours and gain 10 when they sit directly next to one of the teacher's sessions, so the teacher's day stays
+ * compact. Ties go to the earlier slot.
+ */
+export async function suggestSlots(
+  db: DbClient,
+  params: {
+    teacherId: string;
+    studentId: string;
+    durationMinutes: number;
+    from: Date;
+    to: Date;
+    limit: number;
+    excludeSessionIds?: string[];
+  },
+): Promise<{ teacherTimeZone: string | null; studentTimeZone: string | null; slots: SlotSuggestion[] }> {
+  const [rules, studentProfile, busy] = await Promise.all([
+    loadAvailabilityRules(db, params.teacherId),
+    db.studentProfile.findUnique({ where: { userId: params.studentId }, select: { timeZone: true } }),
+    db.session.findMany({
+      where: {
+        ...(params.excludeSessionIds?.length ? { id: { notIn: params.excludeSessionIds } } : {}),
+        status: SessionStatus.SCHEDULED,
+        startAtUtc: { lt: params.to },
+        endAtUtc: { gt: params.from },
+        OR: [{ teacherId: params.teacherId }, { studentId: params.studentId }],
+      },
+      orderBy: { startAtUtc: 'asc' },
+      select: { teacherId: true, startAtUtc: true, endAtUtc: true },
+    }),
+  ]);
+
+  const teacherTimeZone = rules?.timeZone ?? null;
+  const studentTimeZone = studentProfile?.timeZone ?? null;
+  if (!rules || !studentTimeZone) return { teacherTimeZone, studentTimeZone, slots: [] };
+
+  const stepMs = SUGGESTION_STEP_MINUTES * MS_PER_MINUTE;
+  const durationMs = params.durationMinutes * MS_PER_MINUTE;
+  const teacherEdges = new Set<number>();
+  for (const session of busy) {
+    if (session.teacherId !== params.teacherId) continue;
+    teacherEdges.add(session.startAtUtc.getTime());
+    teacherEdges.add(session.endAtUtc.getTime());
+  }
+
+  const candidates: (SlotSuggestion & { startMs: number })[] = [];
+  for (
+    let startMs = Math.ceil(params.from.getTime() / stepMs) * stepMs;
+    startMs + durationMs <= params.to.getTime();
+    startMs += stepMs
+  ) {
+    const endMs = startMs + durationMs;
+    if (busy.some((session) => session.startAtUtc.getTime() < endMs && session.endAtUtc.getTime() > startMs)) continue;
+
+    const startAtUtc = new Date(startMs);
+    const endAtUtc = new Date(endMs);
+    if (!fitsLocalHours(startAtUtc, endAtUtc, rules.timeZone, REASONABLE_LOCAL_HOURS)) continue;
+    if (!fitsLocalHours(startAtUtc, endAtUtc, studentTimeZone, REASONABLE_LOCAL_HOURS)) continue;
+    if (checkAvailability(rules, startAtUtc, endAtUtc).length > 0) continue;
+
+    let score = 100;
+    if (!fitsLocalHours(startAtUtc, endAtUtc, rules.timeZone, PREFERRED_LOCAL_HOURS)) score -= 10;
+    if (!fitsLocalHours(startAtUtc, endAtUtc, studentTimeZone, PREFERRED_LOCAL_HOURS)) score -= 10;
+    if (teacherEdges.has(startMs) || teacherEdges.has(endMs)) score += 10;
+
+    candidates.push({
+      startMs,
+      startAtUtc: startAtUtc.toISOString(),
+      endAtUtc: endAtUtc.toISOString(),
+      teacherLocalStart: formatLocal(utcToLocalDateMinutes(startAtUtc, rules.timeZone)),
+      studentLocalStart: formatLocal(utcToLocalDateMinutes(startAtUtc, studentTimeZone)),
+      score,
+    });
+  }
+
+  candidates.sort((a, b) => b.score - a.score || a.startMs - b.startMs);
+
+  return {
+    teacherTimeZone,
+    studentTimeZone,
+    slots: candidates.slice(0, params.limit).map(({ startMs: _startMs, ...slot }) => slot),
+  };
+}
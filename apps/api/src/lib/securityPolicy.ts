@@ -0,0 +1,33 @@
+import { UserRole, type Prisma, type PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export type SecurityPolicySettings = {
+  /** When on, admins must set up two-factor authentication before they can sign in. */
+  requireAdminTwoFactor: boolean;
+};
+
+/** Used until an org saves its own policy; two-factor authentication stays optional. */
+export const DEFAULT_SECURITY_POLICY: SecurityPolicySettings = {
+  requireAdminTwoFactor: false,
+};
+
+export const updateSecurityPolicyBodySchema = z.object({
+  requireAdminTwoFactor: z.boolean(),
+});
+
+export async function getSecurityPolicy(db: DbClient, orgId: string): Promise<SecurityPolicySettings> {
+  const policy = await db.securityPolicy.findUnique({
+    where: { orgId },
+    select: { requireAdminTwoFactor: true },
+  });
+  return policy ?? DEFAULT_SECURITY_POLICY;
+}
+
+/** Whether the org's policy makes two-factor authentication mandatory for a user with this role. */
+export async function isTwoFactorRequired(db: DbClient, user: { orgId: string; role: UserRole }): Promise<boolean> {
+  if (user.role !== UserRole.ADMIN) return false;
+  const policy = await getSecurityPolicy(db, user.orgId);
+  return policy.requireAdminTwoFactor;
+}
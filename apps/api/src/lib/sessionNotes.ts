@@ -0,0 +1,80 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+
+import { parseIsoDate } from './timezone.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export const NOTE_MAX_LENGTH = 5000;
+
+export const dueDateLocalSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .refine(
+    (value) => {
+      try {
+        parseIsoDate(value);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: 'Invalid date' },
+  );
+
+export const homeworkItemSelect = {
+  id: true,
+  sessionId: true,
+  title: true,
+  description: true,
+  dueDateLocal: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+type HomeworkItemRow = Prisma.HomeworkItemGetPayload<{ select: typeof homeworkItemSelect }>;
+
+export function serializeHomeworkItem(item: HomeworkItemRow) {
+  return {
+    id: item.id,
+    sessionId: item.sessionId,
+    title: item.title,
+    description: item.description ?? null,
+    dueDateLocal: item.dueDateLocal ?? null,
+    completed: item.completedAt !== null,
+    completedAt: item.completedAt?.toISOString() ?? null,
+    createdAt: item.createdAt.toISOString(),
+    updatedAt: item.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Notes and homework for one session. The private note is for staff only, so callers serving students must leave
+ * `includePrivateNote` off.
+ */
+export async function loadSessionNotes(
+  db: DbClient,
+  sessionId: string,
+  options: { includePrivateNote: boolean },
+) {
+  const [note, homework] = await Promise.all([
+    db.sessionNote.findUnique({
+      where: { sessionId },
+      select: { privateNote: true, sharedSummary: true, updatedAt: true },
+    }),
+    db.homeworkItem.findMany({
+      where: { sessionId },
+      orderBy: { createdAt: 'asc' },
+      select: homeworkItemSelect,
+    }),
+  ]);
+
+  return {
+    sessionId,
+    ...(options.includePrivateNote ? { privateNote: note?.privateNote ?? null } : {}),
+    sharedSummary: note?.sharedSummary ?? null,
+    updatedAt: note?.updatedAt.toISOString() ?? null,
+    homework: homework.map(serializeHomeworkItem),
+  };
+}
@@ -0,0 +1,61 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { FastifyBaseLogger } from 'fastify';
+
+export type SmsMessage = {
+  /** E.164, e.g. `+8613800138000`. */
+  to: string;
+  text: string;
+};
+
+/** Where outgoing text messages go. Swap the transport to change the SMS provider; callers only ever see `send`. */
+export type SmsTransport = {
+  send: (message: SmsMessage) => Promise<void>;
+};
+
+/** Keeps every message in memory instead of delivering it; the provider stand-in for tests. */
+export function createMemorySmsTransport(): SmsTransport & { messages: SmsMessage[] } {
+  const messages: SmsMessage[] = [];
+  return {
+    messages,
+    send: async (message) => {
+      messages.push(message);
+    },
+  };
+}
+
+/** Appends each message to `dir/sms.log` as a JSON line, so local setups can read codes without a provider. */
+export function createFileSmsTransport(dir: string): SmsTransport {
+  return {
+    send: async (message) => {
+      await mkdir(dir, { recursive: true });
+      const line = JSON.stringify({ sentAt: new Date().toISOString(), ...message });
+      await appendFile(path.join(dir, 'sms.log'), `${line}\n`, 'utf8');
+    },
+  };
+}
+
+/**
+ * Logs messages instead of delivering them. The text, with any login code in it, is only logged when `includeText` is
+ * set; that is for development, where reading the code from the log is the point.
+ */
+export function createLogSmsTransport(log: FastifyBaseLogger, options: { includeText: boolean }): SmsTransport {
+  return {
+    send: async (message) => {
+      const sms = options.includeText ? message : { to: message.to };
+      log.info({ sms }, 'sms not delivered (SMS_TRANSPORT=log)');
+    },
+  };
+}
+
+/** `SMS_TRANSPORT=file` writes to `SMS_FILE_DIR`; anything else logs, without the text in production. */
+export function smsTransportFromEnv(log: FastifyBaseLogger): SmsTransport {
+  if (process.env['SMS_TRANSPORT'] === 'file') {
+    return createFileSmsTransport(process.env['SMS_FILE_DIR'] ?? path.resolve('tmp/sms'));
+  }
+
+  const isProd = process.env['NODE_ENV'] === 'production';
+  if (isProd) log.warn('SMS_TRANSPORT=log in production: text messages are not delivered and their text is not logged');
+  return createLogSmsTransport(log, { includeText: !isProd });
+}
@@ -85,3 +85,21 @@ export function zonedTimeToUtc(
   return new Date(utcGuess.getTime() - offset2);
 }
 
+/** Local calendar date and minutes since local midnight for a UTC instant. */
+export function utcToLocalDateMinutes(date: Date, timeZone: string): { dateLocal: string; minutes: number } {
+  const local = new Date(date.getTime() + getTimeZoneOffsetMs(date, timeZone));
+  return {
+    dateLocal: local.toISOString().slice(0, 10),
+    minutes: local.getUTCHours() * 60 + local.getUTCMinutes(),
+  };
+}
+
+/** Whether the runtime knows `timeZone` as an IANA time zone name. */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getTimeZoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,154 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+import { generateTotpSecret, matchTotpStep, totpUri } from './totp.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+/** Dashes and case do not matter when a recovery code is typed back in. */
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+}
+
+/** Salted with the user so equal codes of different users do not share a hash. */
+function hashRecoveryCode(userId: string, code: string): string {
+  return createHash('sha256').update(`${userId}:${normalizeRecoveryCode(code)}`).digest('hex');
+}
+
+function newRecoveryCode(): string {
+  const hex = randomBytes(5).toString('hex');
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+}
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  /** Set up was started but no code has confirmed it yet. */
+  pending: boolean;
+  recoveryCodesRemaining: number;
+};
+
+export async function getTwoFactorStatus(db: DbClient, userId: string): Promise<TwoFactorStatus> {
+  const [credential, recoveryCodesRemaining] = await Promise.all([
+    db.twoFactorCredential.findUnique({ where: { userId }, select: { confirmedAt: true } }),
+    db.recoveryCode.count({ where: { userId, usedAt: null } }),
+  ]);
+  return {
+    enabled: Boolean(credential?.confirmedAt),
+    pending: credential !== null && credential.confirmedAt === null,
+    recoveryCodesRemaining: credential?.confirmedAt ? recoveryCodesRemaining : 0,
+  };
+}
+
+/**
+ * Generates a new secret for the user to add to an authenticator app, replacing an unconfirmed one. Returns null when
+ * two-factor authentication is already on; it has to be turned off or reset first.
+ */
+export async function startTwoFactorEnrollment(
+  tx: Prisma.TransactionClient,
+  userId: string,
+): Promise<{ secret: string } | null> {
+  const existing = await tx.twoFactorCredential.findUnique({ where: { userId }, select: { confirmedAt: true } });
+  if (existing?.confirmedAt) return null;
+
+  const secret = generateTotpSecret();
+  await tx.twoFactorCredential.upsert({
+    where: { userId },
+    create: { userId, secret },
+    update: { secret, lastUsedStep: null },
+  });
+  return { secret };
+}
+
+/** What the set up screen shows: the secret for typing in and the link behind its QR code. */
+export function twoFactorSetupDetails(params: { secret: string; orgName: string; account: string }): {
+  secret: string;
+  otpauthUrl: string;
+} {
+  return {
+    secret: params.secret,
+    otpauthUrl: totpUri({ secret: params.secret, issuer: params.orgName, account: params.account }),
+  };
+}
+
+/** Throws away the user's recovery codes and returns a fresh set in plain text; only hashes are stored. */
+export async function replaceRecoveryCodes(tx: Prisma.TransactionClient, userId: string): Promise<string[]> {
+  await tx.recoveryCode.deleteMany({ where: { userId } });
+
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, newRecoveryCode);
+  await tx.recoveryCode.createMany({
+    data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(userId, code) })),
+  });
+  return codes;
+}
+
+/**
+ * Turns two-factor authentication on once the user proves the app shows the right codes, and returns their first
+ * recovery codes. Returns null when the code is wrong or no set up was started.
+ */
+export async function confirmTwoFactorEnrollment(
+  tx: Prisma.TransactionClient,
+  params: { userId: string; code: string; now: Date },
+): Promise<string[] | null> {
+  const credential = await tx.twoFactorCredential.findUnique({
+    where: { userId: params.userId },
+    select: { secret: true, confirmedAt: true },
+  });
+  if (!credential || credential.confirmedAt) return null;
+
+  const step = matchTotpStep(credential.secret, params.code, params.now);
+  if (step === null) return null;
+
+  const confirmed = await tx.twoFactorCredential.updateMany({
+    where: { userId: params.userId, confirmedAt: null },
+    data: { confirmedAt: params.now, lastUsedStep: step },
+  });
+  if (confirmed.count === 0) return null;
+
+  return replaceRecoveryCodes(tx, params.userId);
+}
+
+/**
+ * Checks a code from the user's authenticator app. A code is accepted once: the guarded update only lets through a
+ * step later than the last one used, so a code seen over someone's shoulder cannot be replayed.
+ */
+export async function verifyTotpCode(
+  db: DbClient,
+  params: { userId: string; code: string; now: Date },
+): Promise<boolean> {
+  const credential = await db.twoFactorCredential.findUnique({
+    where: { userId: params.userId },
+    select: { secret: true, confirmedAt: true },
+  });
+  if (!credential?.confirmedAt) return false;
+
+  const step = matchTotpStep(credential.secret, params.code, params.now);
+  if (step === null) return false;
+
+  const used = await db.twoFactorCredential.updateMany({
+    where: { userId: params.userId, OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }] },
+    data: { lastUsedStep: step },
+  });
+  return used.count > 0;
+}
+
+/** Uses up one of the user's recovery codes; each works once, in place of an app code. */
+export async function useRecoveryCode(
+  db: DbClient,
+  params: { userId: string; code: string; now: Date },
+): Promise<boolean> {
+  const used = await db.recoveryCode.updateMany({
+    where: { userId: params.userId, codeHash: hashRecoveryCode(params.userId, params.code), usedAt: null },
+    data: { usedAt: params.now },
+  });
+  return used.count > 0;
+}
+
+/** Turns two-factor authentication off and drops the recovery codes; returns whether it was on or being set up. */
+export async function removeTwoFactor(tx: Prisma.TransactionClient, userId: string): Promise<boolean> {
+  await tx.recoveryCode.deleteMany({ where: { userId } });
+  const removed = await tx.twoFactorCredential.deleteMany({ where: { userId } });
+  return removed.count > 0;
+}
@@ -1,17 +1,20 @@
 import type { CookieSerializeOptions } from '@fastify/cookie';
-import type { UserRole } from '@prisma/client';
-import type { preHandlerAsyncHookHandler } from 'fastify';
+import { UserStatus, type UserRole } from '@prisma/client';
+import type { FastifyPluginAsync, preHandlerAsyncHookHandler } from 'fastify';
 import fp from 'fastify-plugin';
 
 import cookie from '@fastify/cookie';
 import jwt from '@fastify/jwt';
 
-type TokenType = 'access' | 'refresh';
+/** `two_factor` tokens only prove the password (or login code) step and are swapped at `/auth/2fa/*`. */
+type TokenType = 'access' | 'refresh' | 'two_factor';
 
 type JwtUser = {
   tokenType: TokenType;
   userId: string;
   role: UserRole;
+  /** The `AuthSession` the token was issued for; revoking the session rejects its access tokens too. */
+  sessionId?: string;
 };
 
 declare module '@fastify/jwt' {
@@ -51,7 +54,7 @@ function getJwtSecret(): string {
   return 'dev_jwt_secret_change_me';
 }
 
-const authPlugin = fp(async (fastify) => {
+const authPlugin: FastifyPluginAsync = async (fastify) => {
   const isProd = process.env['NODE_ENV'] === 'production';
   const jwtSecret = getJwtSecret();
 
@@ -92,6 +95,23 @@ const authPlugin = fp(async (fastify) => {
     } catch {
       return reply.code(401).send({ message: 'Unauthorized' });
     }
+
+    const { sessionId, userId } = request.user;
+    if (!sessionId) return reply.code(401).send({ message: 'Unauthorized' });
+
+    const session = await fastify.prisma.authSession.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, revokedAt: true, expiresAt: true, user: { select: { status: true } } },
+    });
+    if (
+      !session ||
+      session.userId !== userId ||
+      session.revokedAt ||
+      session.expiresAt <= new Date() ||
+      session.user.status !== UserStatus.ACTIVE
+    ) {
+      return reply.code(401).send({ message: 'Unauthorized' });
+    }
   });
 
   fastify.decorate('requireRole', (roles: UserRole[]) => {
@@ -105,6 +125,6 @@ const authPlugin = fp(async (fastify) => {
     };
     return preHandler;
   });
-});
+};
 
-export default authPlugin;
+export default fp(authPlugin, { name: 'auth', dependencies: ['prisma'] });
@@ -0,0 +1,22 @@
+import fp from 'fastify-plugin';
+
+import { mailTransportFromEnv, type MailTransport } from '../lib/mail.js';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    mailer: MailTransport;
+  }
+}
+
+type MailPluginOptions = {
+  transport?: MailTransport;
+};
+
+const mailPlugin = fp<MailPluginOptions>(
+  async (fastify, options) => {
+    fastify.decorate('mailer', options.transport ?? mailTransportFromEnv(fastify.log));
+  },
+  { name: 'mail' },
+);
+
+export default mailPlugin;
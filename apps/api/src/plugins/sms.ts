@@ -0,0 +1,22 @@
+import fp from 'fastify-plugin';
+
+import { smsTransportFromEnv, type SmsTransport } from '../lib/sms.js';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    sms: SmsTransport;
+  }
+}
+
+type SmsPluginOptions = {
+  transport?: SmsTransport;
+};
+
+const smsPlugin = fp<SmsPluginOptions>(
+  async (fastify, options) => {
+    fastify.decorate('sms', options.transport ?? smsTransportFromEnv(fastify.log));
+  },
+  { name: 'sms' },
+);
+
+export default smsPlugin;
@@ -1,8 +1,137 @@
-import type { FastifyPluginAsync, FastifyReply } from 'fastify';
-import { ChangeRequestStatus, Currency, HourLedgerReason, SessionStatus, Subject, UserRole, UserStatus } from '@prisma/client';
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import {
+  AccountTokenPurpose,
+  AuthSessionRevokeReason,
+  BillingMode,
+  ChangeRequestStatus,
+  Currency,
+  HourLedgerReason,
+  InvoiceStatus,
+  PayrollCadence,
+  PayrollRunStatus,
+  RecurrenceFrequency,
+  SessionCharge,
+  SessionStatus,
+  Subject,
+  UserRole,
+  UserStatus,
+} from '@prisma/client';
 import { z } from 'zod';
 
-import { hashPassword } from '../lib/password.js';
+import {
+  appLink,
+  invitationMail,
+  invitationTokensSelect,
+  isInvitationPending,
+  issueAccountToken,
+  PASSWORD_MIN_LENGTH,
+} from '../lib/accountTokens.js';
+import { getAttendancePolicy, OPEN_SESSION_STATUSES } from '../lib/attendance.js';
+import { revokeAuthSessions } from '../lib/authSessions.js';
+import { findAvailabilityIssues, loadTeacherAvailability } from '../lib/availability.js';
+import {
+  findSchedulingBalanceIssue,
+  getBalancePolicy,
+  loadStudentBalances,
+  updateBalancePolicyBodySchema,
+} from '../lib/balancePolicy.js';
+import { ACCENT_COLOR_PATTERN, getDocumentBranding } from '../lib/branding.js';
+import { cancellationCutoffMs, chargedUnits, getCancellationPolicy } from '../lib/cancellationPolicy.js';
+import { isPastCutoff } from '../lib/changeRequests.js';
+import {
+  loadStudentStatement,
+  renderPayslipPdf,
+  renderStudentStatementPdf,
+  statementQuerySchema,
+} from '../lib/documents.js';
+import {
+  collectInvoiceLines,
+  formatInvoiceNumber,
+  generateInvoicesBodySchema,
+  invoiceSelect,
+  serializeInvoice,
+} from '../lib/invoices.js';
+import {
+  exchangeRateSelect,
+  getBaseCurrency,
+  loadFxConverter,
+  missingRatesMessage,
+  parseExchangeRateCsv,
+  reportingCurrencyQuerySchema,
+  serializeExchangeRate,
+  upsertExchangeRateBodySchema,
+} from '../lib/fx.js';
+import {
+  consumeHourLots,
+  createHourPackageBodySchema,
+  hourPackageSelect,
+  listStudentHourLots,
+  purchaseHourPackageBodySchema,
+  purchaseHourPackage,
+  serializeHourLot,
+  serializeHourPackage,
+  updateHourPackageBodySchema,
+} from '../lib/hourPackages.js';
+import {
+  collapseTransferPairs,
+  createHourTransferBodySchema,
+  hourTransferSelect,
+  lockHourBucketUnits,
+  serializeHourTransfer,
+  transferHours,
+} from '../lib/hourTransfers.js';
+import { ledgerQuerySchema, loadStudentLedger, recordSessionCharge, reverseSessionCharge } from '../lib/ledger.js';
+import {
+  loadRecentLoginAttempts,
+  loadSuspiciousActivity,
+  resetLoginFailures,
+  suspiciousActivityQuerySchema,
+} from '../lib/loginAttempts.js';
+import { hashPassword, unusablePassword } from '../lib/password.js';
+import {
+  importBankStatement,
+  loadReconciliation,
+  PAYABLE_INVOICE_STATUSES,
+  parseBankStatementCsv,
+  paymentSelect,
+  reconciliationQuerySchema,
+  recordPaymentBodySchema,
+  serializePayment,
+  settleInvoiceIfPaid,
+} from '../lib/payments.js';
+import {
+  closePayrollRun,
+  computeOrgPayroll,
+  computeTeacherPayroll,
+  findOverlappingPayrollRun,
+  listPayrollSessions,
+  payrollRunSelect,
+  recordPayrollAdjustments,
+  renderPayrollCsv,
+  serializePayrollRun,
+  serializePayrollSessionLine,
+} from '../lib/payroll.js';
+import {
+  getPayrollSettings,
+  INVALID_PERIOD_START_MESSAGE,
+  isoWeekday,
+  payrollPeriodQuerySchema,
+  resolvePayrollPeriod,
+} from '../lib/payrollSettings.js';
+import { phoneSchema } from '../lib/phone.js';
+import { computeRevenueReport, reportQuerySchema } from '../lib/reports.js';
+import { getSecurityPolicy, updateSecurityPolicyBodySchema } from '../lib/securityPolicy.js';
+import { loadSessionNotes } from '../lib/sessionNotes.js';
+import {
+  countOccurrencesBefore,
+  expandSeriesOccurrences,
+  MAX_SERIES_OCCURRENCES,
+  occurrenceToUtc,
+  type SeriesRule,
+} from '../lib/recurrence.js';
+import { conflictMessage, findSessionConflicts, suggestSlots, type SessionConflict } from '../lib/scheduling.js';
+import { isoDateAddDays, isValidTimeZone, parseIsoDate } from '../lib/timezone.js';
+import { removeTwoFactor } from '../lib/twoFactor.js';
 
 function zodBadRequest(reply: FastifyReply, error: z.ZodError) {
   return reply.code(400).send({
@@ -36,17 +165,28 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
       select: {
         id: true,
         email: true,
+        phone: true,
         createdAt: true,
         studentProfile: { select: { displayName: true, timeZone: true } },
+        accountTokens: invitationTokensSelect,
       },
     });
 
+    const policy = await getBalancePolicy(fastify.prisma, actor.orgId);
+    const balances = await loadStudentBalances(fastify.prisma, {
+      studentIds: students.map((student) => student.id),
+      policy,
+    });
+
     return students.map((student) => ({
       id: student.id,
       email: student.email,
+      phone: student.phone,
       displayName: student.studentProfile?.displayName ?? null,
       timeZone: student.studentProfile?.timeZone ?? null,
       createdAt: student.createdAt.toISOString(),
+      invitationPending: isInvitationPending(student.accountTokens),
+      balance: balances.get(student.id) ?? null,
     }));
   });
 
@@ -67,8 +207,9 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
       select: {
         id: true,
         email: true,
+        phone: true,
         createdAt: true,
-        studentProfile: { select: { displayName: true, timeZone: true } },
+        studentProfile: { select: { displayName: true, timeZone: true, billingMode: true } },
       },
     });
     if (!student) return reply.code(404).send({ message: 'Student not found' });
@@ -116,7 +257,7 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
 
     const ledgerEntries = await fastify.prisma.hourLedgerEntry.findMany({
       where: { studentId: student.id },
-      orderBy: { createdAt: 'desc' },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
       take: 50,
       select: {
         id: true,
@@ -124,8 +265,11 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
         reason: true,
         sessionId: true,
         teacherId: true,
+        amountCents: true,
+        currency: true,
         createdAt: true,
         teacher: { select: { teacherProfile: { select: { displayName: true } } } },
+        transfer: { select: hourTransferSelect },
       },
     });
 
@@ -134,8 +278,10 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
     return {
       id: student.id,
       email: student.email,
+      phone: student.phone,
       displayName: student.studentProfile?.displayName ?? null,
       timeZone: student.studentProfile?.timeZone ?? null,
+      billingMode: student.studentProfile?.billingMode ?? null,
       createdAt: student.createdAt.toISOString(),
       remainingUnits,
       hoursByTeacher: {
@@ -143,13 +289,16 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
         unassignedUnits,
         byTeacher,
       },
-      ledgerEntries: ledgerEntries.map((entry) => ({
+      ledgerEntries: collapseTransferPairs(ledgerEntries).map((entry) => ({
         id: entry.id,
         deltaUnits: entry.deltaUnits,
         reason: entry.reason,
         sessionId: entry.sessionId ?? null,
         teacherId: entry.teacherId ?? null,
         teacherName: entry.teacher?.teacherProfile?.displayName ?? null,
+        amountCents: entry.amountCents ?? null,
+        currency: entry.currency ?? null,
+        transfer: entry.transfer ? serializeHourTransfer(entry.transfer) : null,
         createdAt: entry.createdAt.toISOString(),
       })),
     };
@@ -168,17 +317,21 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
       select: {
         id: true,
         email: true,
+        phone: true,
         createdAt: true,
         teacherProfile: { select: { displayName: true, timeZone: true } },
+        accountTokens: invitationTokensSelect,
       },
     });
 
     return teachers.map((teacher) => ({
       id: teacher.id,
       email: teacher.email,
+      phone: teacher.phone,
       displayName: teacher.teacherProfile?.displayName ?? null,
       timeZone: teacher.teacherProfile?.timeZone ?? null,
       createdAt: teacher.createdAt.toISOString(),
+      invitationPending: isInvitationPending(teacher.accountTokens),
     }));
   });
 
@@ -199,6 +352,7 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
       select: {
         id: true,
         email: true,
+        phone: true,
         createdAt: true,
         teacherProfile: { select: { displayName: true, timeZone: true } },
       },
@@ -208,18 +362,128 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
     return {
       id: teacher.id,
       email: teacher.email,
+      phone: teacher.phone,
       displayName: teacher.teacherProfile?.displayName ?? null,
       timeZone: teacher.teacherProfile?.timeZone ?? null,
       createdAt: teacher.createdAt.toISOString(),
     };
   });
 
-  const createStudentBodySchema = z.object({
-    email: z.string().email(),
-    password: z.string().min(8),
-    displayName: z.string().min(1),
-    timeZone: z.string().min(1),
-  });
+  fastify.get(
+    '/teachers/:id/payslip.pdf',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = teacherParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const parsedQuery = payrollPeriodQuerySchema.safeParse(request.query);
+      if (!parsedQuery.success) return zodBadRequest(reply, parsedQuery.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true, organization: { select: { name: true } } },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const teacher = await fastify.prisma.user.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId, role: UserRole.TEACHER },
+        select: { id: true, email: true, teacherProfile: { select: { displayName: true } } },
+      });
+      if (!teacher) return reply.code(404).send({ message: 'Teacher not found' });
+
+      const settings = await getPayrollSettings(fastify.prisma, actor.orgId);
+      const period = resolvePayrollPeriod(settings, parsedQuery.data);
+      if (!period) return reply.code(400).send({ message: INVALID_PERIOD_START_MESSAGE });
+
+      const [payroll, branding] = await Promise.all([
+        computeTeacherPayroll(fastify.prisma, { orgId: actor.orgId, teacherId: teacher.id, period }),
+        getDocumentBranding(fastify.prisma, actor.orgId),
+      ]);
+
+      const pdf = renderPayslipPdf({
+        orgName: actor.organization.name,
+        branding,
+        teacherName: teacher.teacherProfile?.displayName ?? teacher.email ?? teacher.id,
+        payroll,
+      });
+
+      return reply
+        .type('application/pdf')
+        .header('content-disposition', `attachment; filename="payslip-${payroll.periodStartLocal}.pdf"`)
+        .send(pdf);
+    },
+  );
+
+  fastify.get(
+    '/teachers/:id/availability',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = teacherParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const teacher = await fastify.prisma.user.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId, role: UserRole.TEACHER },
+        select: { id: true },
+      });
+      if (!teacher) return reply.code(404).send({ message: 'Teacher not found' });
+
+      return loadTeacherAvailability(fastify.prisma, teacher.id);
+    },
+  );
+
+  /**
+   * Issues a fresh invitation for the user and mails them the link. Returns whether the mail went out; when it did
+   * not, the admin can send it again.
+   */
+  const sendInvitation = async (
+    request: FastifyRequest,
+    user: { id: string; email: string; role: UserRole; displayName: string | null; orgId: string },
+  ): Promise<boolean> => {
+    const { token, expiresAt } = await fastify.prisma.$transaction((tx) =>
+      issueAccountToken(tx, { userId: user.id, purpose: AccountTokenPurpose.INVITATION, now: new Date() }),
+    );
+    const org = await fastify.prisma.organization.findUniqueOrThrow({
+      where: { id: user.orgId },
+      select: { name: true },
+    });
+
+    try {
+      await fastify.mailer.send(
+        invitationMail({
+          to: user.email,
+          displayName: user.displayName,
+          orgName: org.name,
+          link: appLink(user.role, '/accept-invitation', token),
+          expiresAt,
+        }),
+      );
+      return true;
+    } catch (error) {
+      request.log.error({ err: error }, 'invitation mail failed');
+      return false;
+    }
+  };
+
+  const createStudentBodySchema = z
+    .object({
+      email: z.string().email().optional(),
+      /** For signing in with a password or a texted code; many families have no email address. */
+      phone: phoneSchema.optional(),
+      /** Omitted: the student is mailed an invitation to set their own password, or signs in with texted codes. */
+      password: z.string().min(PASSWORD_MIN_LENGTH).optional(),
+      displayName: z.string().min(1),
+      timeZone: z.string().min(1),
+    })
+    .refine((body) => body.email !== undefined || body.phone !== undefined, {
+      message: 'Email or phone is required',
+      path: ['email'],
+    });
 
   fastify.post(
     '/students',
@@ -234,11 +498,13 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
       });
       if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
 
+      const { email } = parsedBody.data;
       const student = await fastify.prisma.user.create({
         data: {
           orgId: actor.orgId,
-          email: parsedBody.data.email,
-          passwordHash: hashPassword(parsedBody.data.password),
+          email: email ?? null,
+          phone: parsedBody.data.phone ?? null,
+          passwordHash: hashPassword(parsedBody.data.password ?? unusablePassword()),
           role: UserRole.STUDENT,
           status: UserStatus.ACTIVE,
           studentProfile: {
@@ -257,17 +523,35 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
           action: 'ADMIN_CREATE_STUDENT',
           entityType: 'User',
           entityId: student.id,
-          meta: { email: parsedBody.data.email },
+          meta: {
+            email: email ?? null,
+            phone: parsedBody.data.phone ?? null,
+            invited: parsedBody.data.password === undefined && email !== undefined,
+          },
         },
       });
 
-      return reply.code(201).send({ id: student.id });
+      // Without an email address there is nowhere to send an invitation; such students sign in with texted codes.
+      if (parsedBody.data.password !== undefined || email === undefined) {
+        return reply.code(201).send({ id: student.id });
+      }
+
+      const invitationSent = await sendInvitation(request, {
+        id: student.id,
+        email,
+        role: UserRole.STUDENT,
+        displayName: parsedBody.data.displayName,
+        orgId: actor.orgId,
+      });
+      return reply.code(201).send({ id: student.id, invitationSent });
     },
   );
 
   const createTeacherBodySchema = z.object({
     email: z.string().email(),
-    password: z.string().min(8),
+    phone: phoneSchema.optional(),
+    /** Omitted: the teacher is mailed an invitation to set their own password. */
+    password: z.string().min(PASSWORD_MIN_LENGTH).optional(),
     displayName: z.string().min(1),
     timeZone: z.string().min(1),
   });
@@ -289,7 +573,8 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
         data: {
           orgId: actor.orgId,
           email: parsedBody.data.email,
-          passwordHash: hashPassword(parsedBody.data.password),
+          phone: parsedBody.data.phone ?? null,
+          passwordHash: hashPassword(parsedBody.data.password ?? unusablePassword()),
           role: UserRole.TEACHER,
           status: UserStatus.ACTIVE,
           teacherProfile: {
@@ -308,155 +593,479 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
           action: 'ADMIN_CREATE_TEACHER',
           entityType: 'User',
           entityId: teacher.id,
-          meta: { email: parsedBody.data.email },
+          meta: {
+            email: parsedBody.data.email,
+            phone: parsedBody.data.phone ?? null,
+            invited: parsedBody.data.password === undefined,
+          },
         },
       });
 
-      return reply.code(201).send({ id: teacher.id });
+      if (parsedBody.data.password !== undefined) return reply.code(201).send({ id: teacher.id });
+
+      const invitationSent = await sendInvitation(request, {
+        id: teacher.id,
+        email: parsedBody.data.email,
+        role: UserRole.TEACHER,
+        displayName: parsedBody.data.displayName,
+        orgId: actor.orgId,
+      });
+      return reply.code(201).send({ id: teacher.id, invitationSent });
     },
   );
 
-  const upsertRateBodySchema = z.object({
-    teacherId: z.string().min(1),
-    studentId: z.string().min(1),
-    subject: z.nativeEnum(Subject).optional(),
-    studentHourlyRateCents: z.number().int().positive(),
-    teacherHourlyWageCents: z.number().int().positive(),
-    currency: z.nativeEnum(Currency),
-  });
+  const userParamsSchema = z.object({ id: z.string().min(1) });
 
-  fastify.delete('/rates/:id', { preHandler: fastify.requireRole([UserRole.ADMIN]) }, async (request, reply) => {
-    const parsedParams = z.object({ id: z.string().min(1) }).safeParse(request.params);
-    if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+  fastify.post(
+    '/users/:id/invitation',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = userParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
 
-    const actor = await fastify.prisma.user.findUnique({
-      where: { id: request.user.userId },
-      select: { id: true, orgId: true },
-    });
-    if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
 
-    const existing = await fastify.prisma.teacherStudentRate.findFirst({
-      where: { id: parsedParams.data.id, teacher: { orgId: actor.orgId }, student: { orgId: actor.orgId } },
-      select: { id: true, teacherId: true, studentId: true, subject: true },
-    });
-    if (!existing) return reply.code(404).send({ message: 'Rate not found' });
+      const user = await fastify.prisma.user.findFirst({
+        where: {
+          id: parsedParams.data.id,
+          orgId: actor.orgId,
+          role: { in: [UserRole.STUDENT, UserRole.TEACHER] },
+          status: UserStatus.ACTIVE,
+        },
+        select: {
+          id: true,
+          email: true,
+          role: true,
+          studentProfile: { select: { displayName: true } },
+          teacherProfile: { select: { displayName: true } },
+          accountTokens: invitationTokensSelect,
+        },
+      });
+      if (!user) return reply.code(404).send({ message: 'User not found' });
+      if (!user.email) return reply.code(409).send({ message: 'User has no email address' });
+      if (user.accountTokens.some((invitation) => invitation.usedAt !== null)) {
+        return reply.code(409).send({ message: 'Invitation already accepted' });
+      }
 
-    await fastify.prisma.teacherStudentRate.delete({ where: { id: existing.id } });
+      await fastify.prisma.auditLog.create({
+        data: {
+          orgId: actor.orgId,
+          actorUserId: actor.id,
+          action: 'ADMIN_SEND_INVITATION',
+          entityType: 'User',
+          entityId: user.id,
+          meta: { email: user.email },
+        },
+      });
 
-    await fastify.prisma.auditLog.create({
-      data: {
+      const invitationSent = await sendInvitation(request, {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        displayName: (user.studentProfile ?? user.teacherProfile)?.displayName ?? null,
         orgId: actor.orgId,
-        actorUserId: actor.id,
-        action: 'ADMIN_DELETE_RATE',
-        entityType: 'TeacherStudentRate',
-        entityId: existing.id,
-        meta: { teacherId: existing.teacherId, studentId: existing.studentId, subject: existing.subject },
-      },
-    });
+      });
+      if (!invitationSent) return reply.code(502).send({ message: 'Invitation mail could not be sent' });
 
-    return reply.send({ ok: true });
-  });
+      return reply.send({ ok: true });
+    },
+  );
 
-  fastify.get('/rates', { preHandler: fastify.requireRole([UserRole.ADMIN]) }, async (request, reply) => {
-    const actor = await fastify.prisma.user.findUnique({
-      where: { id: request.user.userId },
-      select: { id: true, orgId: true },
-    });
-    if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+  fastify.post(
+    '/users/:id/sessions/revoke',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = userParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
 
-    const rates = await fastify.prisma.teacherStudentRate.findMany({
-      where: {
-        teacher: { orgId: actor.orgId, role: UserRole.TEACHER },
-        student: { orgId: actor.orgId, role: UserRole.STUDENT },
-      },
-      orderBy: { updatedAt: 'desc' },
-      select: {
-        id: true,
-        teacherId: true,
-        studentId: true,
-        subject: true,
-        studentHourlyRateCents: true,
-        teacherHourlyWageCents: true,
-        currency: true,
-        updatedAt: true,
-        teacher: { select: { email: true, teacherProfile: { select: { displayName: true } } } },
-        student: { select: { email: true, studentProfile: { select: { displayName: true } } } },
-      },
-    });
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
 
-    return rates.map((rate) => ({
-      id: rate.id,
-      teacherId: rate.teacherId,
-      teacherName: rate.teacher.teacherProfile?.displayName ?? null,
-      teacherEmail: rate.teacher.email,
-      studentId: rate.studentId,
-      studentName: rate.student.studentProfile?.displayName ?? null,
-      studentEmail: rate.student.email,
-      subject: rate.subject,
-      studentHourlyRateCents: rate.studentHourlyRateCents,
-      teacherHourlyWageCents: rate.teacherHourlyWageCents,
-      currency: rate.currency,
-      updatedAt: rate.updatedAt.toISOString(),
-    }));
-  });
+      const user = await fastify.prisma.user.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId },
+        select: { id: true, email: true },
+      });
+      if (!user) return reply.code(404).send({ message: 'User not found' });
 
-  fastify.put('/rates', { preHandler: fastify.requireRole([UserRole.ADMIN]) }, async (request, reply) => {
-    const parsedBody = upsertRateBodySchema.safeParse(request.body);
-    if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+      const revoked = await revokeAuthSessions(fastify.prisma, {
+        where: { userId: user.id },
+        reason: AuthSessionRevokeReason.ADMIN_REVOKED,
+        now: new Date(),
+      });
 
-    const actor = await fastify.prisma.user.findUnique({
-      where: { id: request.user.userId },
-      select: { id: true, orgId: true },
-    });
-    if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+      await fastify.prisma.auditLog.create({
+        data: {
+          orgId: actor.orgId,
+          actorUserId: actor.id,
+          action: 'ADMIN_REVOKE_SESSIONS',
+          entityType: 'User',
+          entityId: user.id,
+          meta: { email: user.email, revoked },
+        },
+      });
 
-    const [teacher, student] = await Promise.all([
-      fastify.prisma.user.findUnique({
-        where: { id: parsedBody.data.teacherId },
-        select: { id: true, orgId: true, role: true },
-      }),
-      fastify.prisma.user.findUnique({
-        where: { id: parsedBody.data.studentId },
-        select: { id: true, orgId: true, role: true },
-      }),
-    ]);
+      return reply.send({ revoked });
+    },
+  );
 
-    if (!teacher || teacher.orgId !== actor.orgId || teacher.role !== UserRole.TEACHER) {
-      return reply.code(404).send({ message: 'Teacher not found' });
-    }
-    if (!student || student.orgId !== actor.orgId || student.role !== UserRole.STUDENT) {
-      return reply.code(404).send({ message: 'Student not found' });
-    }
+  fastify.get(
+    '/admins',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
 
-    const subject = parsedBody.data.subject ?? Subject.GENERAL;
+      const admins = await fastify.prisma.user.findMany({
+        where: { orgId: actor.orgId, role: UserRole.ADMIN, status: UserStatus.ACTIVE },
+        select: { id: true, email: true, phone: true, twoFactor: { select: { confirmedAt: true } } },
+        orderBy: { createdAt: 'asc' },
+      });
 
-    const rate = await fastify.prisma.teacherStudentRate.upsert({
-      where: {
-        teacherId_studentId_subject: {
-          teacherId: teacher.id,
-          studentId: student.id,
-          subject,
-        },
-      },
-      create: {
-        teacherId: teacher.id,
-        studentId: student.id,
-        subject,
-        studentHourlyRateCents: parsedBody.data.studentHourlyRateCents,
-        teacherHourlyWageCents: parsedBody.data.teacherHourlyWageCents,
-        currency: parsedBody.data.currency,
-      },
-      update: {
-        subject,
-        studentHourlyRateCents: parsedBody.data.studentHourlyRateCents,
-        teacherHourlyWageCents: parsedBody.data.teacherHourlyWageCents,
-        currency: parsedBody.data.currency,
-      },
-    });
+      return admins.map((admin) => ({
+        id: admin.id,
+        email: admin.email,
+        phone: admin.phone,
+        twoFactorEnabled: Boolean(admin.twoFactor?.confirmedAt),
+        isSelf: admin.id === actor.id,
+      }));
+    },
+  );
 
-    await fastify.prisma.auditLog.create({
-      data: {
-        orgId: actor.orgId,
+  /**
+   * For a user who lost their authenticator app and recovery codes. They are signed out everywhere, since the lost
+   * phone may be in someone else's hands, and set it up again on their next sign in if the org requires it.
+   */
+  fastify.post(
+    '/users/:id/2fa/reset',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = userParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+      // Otherwise one stolen admin session could strip the second factor off its own account.
+      if (parsedParams.data.id === actor.id) {
+        return reply.code(409).send({ message: 'Another admin must reset your two-factor authentication' });
+      }
+
+      const user = await fastify.prisma.user.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId },
+        select: { id: true, email: true },
+      });
+      if (!user) return reply.code(404).send({ message: 'User not found' });
+
+      const revoked = await fastify.prisma.$transaction(async (tx) => {
+        const removed = await removeTwoFactor(tx, user.id);
+        if (!removed) return null;
+
+        const count = await revokeAuthSessions(tx, {
+          where: { userId: user.id },
+          reason: AuthSessionRevokeReason.ADMIN_REVOKED,
+          now: new Date(),
+        });
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_RESET_2FA',
+            entityType: 'User',
+            entityId: user.id,
+            meta: { email: user.email, revoked: count },
+          },
+        });
+        return count;
+      });
+      if (revoked === null) return reply.code(409).send({ message: 'Two-factor authentication is not enabled' });
+
+      return reply.send({ revoked });
+    },
+  );
+
+  fastify.get(
+    '/users/:id/login-attempts',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = userParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const user = await fastify.prisma.user.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId },
+        select: { id: true, failedLoginCount: true, lockedUntil: true },
+      });
+      if (!user) return reply.code(404).send({ message: 'User not found' });
+
+      return {
+        failedLoginCount: user.failedLoginCount,
+        lockedUntil: user.lockedUntil,
+        attempts: await loadRecentLoginAttempts(fastify.prisma, user.id),
+      };
+    },
+  );
+
+  /** Lifts a lockout early, e.g. once the user confirmed it was them mistyping. */
+  fastify.post(
+    '/users/:id/unlock',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = userParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const user = await fastify.prisma.user.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId },
+        select: { id: true, email: true, failedLoginCount: true, lockedUntil: true },
+      });
+      if (!user) return reply.code(404).send({ message: 'User not found' });
+
+      await fastify.prisma.$transaction(async (tx) => {
+        await resetLoginFailures(tx, user.id);
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_UNLOCK_USER',
+            entityType: 'User',
+            entityId: user.id,
+            meta: { email: user.email, failedLoginCount: user.failedLoginCount, lockedUntil: user.lockedUntil },
+          },
+        });
+      });
+
+      return reply.send({ ok: true });
+    },
+  );
+
+  fastify.get(
+    '/suspicious-activity',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedQuery = suspiciousActivityQuerySchema.safeParse(request.query);
+      if (!parsedQuery.success) return zodBadRequest(reply, parsedQuery.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      return loadSuspiciousActivity(fastify.prisma, {
+        orgId: actor.orgId,
+        days: parsedQuery.data.days,
+        now: new Date(),
+      });
+    },
+  );
+
+  const updatePhoneBodySchema = z.object({ phone: phoneSchema.nullable() });
+
+  fastify.put(
+    '/users/:id/phone',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = userParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+      const parsedBody = updatePhoneBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const user = await fastify.prisma.user.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId, status: UserStatus.ACTIVE },
+        select: { id: true, email: true, phone: true },
+      });
+      if (!user) return reply.code(404).send({ message: 'User not found' });
+      if (parsedBody.data.phone === null && !user.email) {
+        return reply.code(409).send({ message: 'User needs an email address or a phone number' });
+      }
+
+      // Taken numbers surface as 409 through the unique constraint.
+      await fastify.prisma.user.update({ where: { id: user.id }, data: { phone: parsedBody.data.phone } });
+
+      await fastify.prisma.auditLog.create({
+        data: {
+          orgId: actor.orgId,
+          actorUserId: actor.id,
+          action: 'ADMIN_UPDATE_PHONE',
+          entityType: 'User',
+          entityId: user.id,
+          meta: { from: user.phone, to: parsedBody.data.phone },
+        },
+      });
+
+      return reply.send({ phone: parsedBody.data.phone });
+    },
+  );
+
+  const upsertRateBodySchema = z.object({
+    teacherId: z.string().min(1),
+    studentId: z.string().min(1),
+    subject: z.nativeEnum(Subject).optional(),
+    studentHourlyRateCents: z.number().int().positive(),
+    teacherHourlyWageCents: z.number().int().positive(),
+    currency: z.nativeEnum(Currency),
+  });
+
+  fastify.delete('/rates/:id', { preHandler: fastify.requireRole([UserRole.ADMIN]) }, async (request, reply) => {
+    const parsedParams = z.object({ id: z.string().min(1) }).safeParse(request.params);
+    if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+    const actor = await fastify.prisma.user.findUnique({
+      where: { id: request.user.userId },
+      select: { id: true, orgId: true },
+    });
+    if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+    const existing = await fastify.prisma.teacherStudentRate.findFirst({
+      where: { id: parsedParams.data.id, teacher: { orgId: actor.orgId }, student: { orgId: actor.orgId } },
+      select: { id: true, teacherId: true, studentId: true, subject: true },
+    });
+    if (!existing) return reply.code(404).send({ message: 'Rate not found' });
+
+    await fastify.prisma.teacherStudentRate.delete({ where: { id: existing.id } });
+
+    await fastify.prisma.auditLog.create({
+      data: {
+        orgId: actor.orgId,
+        actorUserId: actor.id,
+        action: 'ADMIN_DELETE_RATE',
+        entityType: 'TeacherStudentRate',
+        entityId: existing.id,
+        meta: { teacherId: existing.teacherId, studentId: existing.studentId, subject: existing.subject },
+      },
+    });
+
+    return reply.send({ ok: true });
+  });
+
+  fastify.get('/rates', { preHandler: fastify.requireRole([UserRole.ADMIN]) }, async (request, reply) => {
+    const actor = await fastify.prisma.user.findUnique({
+      where: { id: request.user.userId },
+      select: { id: true, orgId: true },
+    });
+    if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+    const rates = await fastify.prisma.teacherStudentRate.findMany({
+      where: {
+        teacher: { orgId: actor.orgId, role: UserRole.TEACHER },
+        student: { orgId: actor.orgId, role: UserRole.STUDENT },
+      },
+      orderBy: { updatedAt: 'desc' },
+      select: {
+        id: true,
+        teacherId: true,
+        studentId: true,
+        subject: true,
+        studentHourlyRateCents: true,
+        teacherHourlyWageCents: true,
+        currency: true,
+        updatedAt: true,
+        teacher: { select: { email: true, teacherProfile: { select: { displayName: true } } } },
+        student: { select: { email: true, studentProfile: { select: { displayName: true } } } },
+      },
+    });
+
+    return rates.map((rate) => ({
+      id: rate.id,
+      teacherId: rate.teacherId,
+      teacherName: rate.teacher.teacherProfile?.displayName ?? null,
+      teacherEmail: rate.teacher.email,
+      studentId: rate.studentId,
+      studentName: rate.student.studentProfile?.displayName ?? null,
+      studentEmail: rate.student.email,
+      subject: rate.subject,
+      studentHourlyRateCents: rate.studentHourlyRateCents,
+      teacherHourlyWageCents: rate.teacherHourlyWageCents,
+      currency: rate.currency,
+      updatedAt: rate.updatedAt.toISOString(),
+    }));
+  });
+
+  fastify.put('/rates', { preHandler: fastify.requireRole([UserRole.ADMIN]) }, async (request, reply) => {
+    const parsedBody = upsertRateBodySchema.safeParse(request.body);
+    if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+    const actor = await fastify.prisma.user.findUnique({
+      where: { id: request.user.userId },
+      select: { id: true, orgId: true },
+    });
+    if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+    const [teacher, student] = await Promise.all([
+      fastify.prisma.user.findUnique({
+        where: { id: parsedBody.data.teacherId },
+        select: { id: true, orgId: true, role: true },
+      }),
+      fastify.prisma.user.findUnique({
+        where: { id: parsedBody.data.studentId },
+        select: { id: true, orgId: true, role: true },
+      }),
+    ]);
+
+    if (!teacher || teacher.orgId !== actor.orgId || teacher.role !== UserRole.TEACHER) {
+      return reply.code(404).send({ message: 'Teacher not found' });
+    }
+    if (!student || student.orgId !== actor.orgId || student.role !== UserRole.STUDENT) {
+      return reply.code(404).send({ message: 'Student not found' });
+    }
+
+    const subject = parsedBody.data.subject ?? Subject.GENERAL;
+
+    const rate = await fastify.prisma.teacherStudentRate.upsert({
+      where: {
+        teacherId_studentId_subject: {
+          teacherId: teacher.id,
+          studentId: student.id,
+          subject,
+        },
+      },
+      create: {
+        teacherId: teacher.id,
+        studentId: student.id,
+        subject,
+        studentHourlyRateCents: parsedBody.data.studentHourlyRateCents,
+        teacherHourlyWageCents: parsedBody.data.teacherHourlyWageCents,
+        currency: parsedBody.data.currency,
+      },
+      update: {
+        subject,
+        studentHourlyRateCents: parsedBody.data.studentHourlyRateCents,
+        teacherHourlyWageCents: parsedBody.data.teacherHourlyWageCents,
+        currency: parsedBody.data.currency,
+      },
+    });
+
+    await fastify.prisma.auditLog.create({
+      data: {
+        orgId: actor.orgId,
         actorUserId: actor.id,
         action: 'ADMIN_UPSERT_RATE',
         entityType: 'TeacherStudentRate',
@@ -488,6 +1097,8 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
     deltaUnits: z.number().int(),
     reason: z.enum([HourLedgerReason.PURCHASE, HourLedgerReason.ADJUSTMENT] as const),
     teacherId: z.string().min(1).optional(),
+    amountCents: z.number().int().min(0).optional(),
+    currency: z.nativeEnum(Currency).optional(),
   })
     .refine((data) => data.deltaUnits !== 0, {
       path: ['deltaUnits'],
@@ -496,6 +1107,14 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
     .refine((data) => data.reason !== HourLedgerReason.PURCHASE || data.deltaUnits > 0, {
       path: ['deltaUnits'],
       message: '`deltaUnits` must be positive for PURCHASE',
+    })
+    .refine((data) => (data.amountCents === undefined) === (data.currency === undefined), {
+      path: ['currency'],
+      message: '`amountCents` and `currency` must be provided together',
+    })
+    .refine((data) => data.amountCents === undefined || data.reason === HourLedgerReason.PURCHASE, {
+      path: ['amountCents'],
+      message: '`amountCents` is only allowed for PURCHASE',
     });
 
   fastify.post(
@@ -540,6 +1159,8 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
           teacherId,
           deltaUnits: parsedBody.data.deltaUnits,
           reason: parsedBody.data.reason,
+          amountCents: parsedBody.data.amountCents ?? null,
+          currency: parsedBody.data.currency ?? null,
         },
       });
 
@@ -555,6 +1176,8 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
             teacherId,
             deltaUnits: entry.deltaUnits,
             reason: entry.reason,
+            amountCents: entry.amountCents,
+            currency: entry.currency,
           },
         },
       });
@@ -563,9 +1186,330 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
     },
   );
 
-  fastify.delete('/students/:id', { preHandler: fastify.requireRole([UserRole.ADMIN]) }, async (request, reply) => {
-    const parsedParams = studentParamsSchema.safeParse(request.params);
-    if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+  fastify.get(
+    '/students/:id/ledger',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = studentParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const parsedQuery = ledgerQuerySchema.safeParse(request.query);
+      if (!parsedQuery.success) return zodBadRequest(reply, parsedQuery.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const student = await fastify.prisma.user.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId, role: UserRole.STUDENT },
+        select: { id: true },
+      });
+      if (!student) return reply.code(404).send({ message: 'Student not found' });
+
+      return loadStudentLedger(fastify.prisma, student.id, parsedQuery.data);
+    },
+  );
+
+  fastify.post(
+    '/students/:id/hours/transfers',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = studentParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const parsedBody = createHourTransferBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const studentIds = [parsedParams.data.id, parsedBody.data.toStudentId ?? parsedParams.data.id];
+      const teacherIds = [parsedBody.data.fromTeacherId, parsedBody.data.toTeacherId].filter(
+        (id): id is string => typeof id === 'string',
+      );
+
+      const [students, teachers] = await Promise.all([
+        fastify.prisma.user.findMany({
+          where: { id: { in: studentIds }, orgId: actor.orgId, role: UserRole.STUDENT },
+          select: { id: true },
+        }),
+        fastify.prisma.user.findMany({
+          where: { id: { in: teacherIds }, orgId: actor.orgId, role: UserRole.TEACHER },
+          select: { id: true },
+        }),
+      ]);
+      if (studentIds.some((id) => !students.some((student) => student.id === id))) {
+        return reply.code(404).send({ message: 'Student not found' });
+      }
+      if (teacherIds.some((id) => !teachers.some((teacher) => teacher.id === id))) {
+        return reply.code(404).send({ message: 'Teacher not found' });
+      }
+
+      const from = { studentId: parsedParams.data.id, teacherId: parsedBody.data.fromTeacherId ?? null };
+      const to = {
+        studentId: parsedBody.data.toStudentId ?? parsedParams.data.id,
+        teacherId: parsedBody.data.toTeacherId ?? null,
+      };
+      if (from.studentId === to.studentId && from.teacherId === to.teacherId) {
+        return reply.code(400).send({ message: 'Source and destination are the same' });
+      }
+
+      const units = parsedBody.data.units;
+      const result = await fastify.prisma.$transaction(async (tx) => {
+        const availableUnits = await lockHourBucketUnits(tx, from);
+        if (availableUnits < units) return { availableUnits, transfer: null };
+
+        const transfer = await transferHours(tx, {
+          orgId: actor.orgId,
+          from,
+          to,
+          units,
+          note: parsedBody.data.note ?? null,
+          now: new Date(),
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_TRANSFER_HOURS',
+            entityType: 'HourTransfer',
+            entityId: transfer.id,
+            meta: {
+              from,
+              to,
+              units,
+              note: transfer.note,
+              ledgerEntryIds: transfer.entries.map((entry) => entry.id),
+            },
+          },
+        });
+
+        return { availableUnits, transfer };
+      });
+
+      if (!result.transfer) {
+        return reply.code(409).send({
+          message: `Not enough hours to transfer: the source holds ${result.availableUnits} unit(s)`,
+          availableUnits: result.availableUnits,
+        });
+      }
+
+      return reply.code(201).send(serializeHourTransfer(result.transfer));
+    },
+  );
+
+  fastify.get(
+    '/students/:id/packages',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = studentParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const student = await fastify.prisma.user.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId, role: UserRole.STUDENT },
+        select: { id: true },
+      });
+      if (!student) return reply.code(404).send({ message: 'Student not found' });
+
+      return { lots: await listStudentHourLots(fastify.prisma, student.id) };
+    },
+  );
+
+  fastify.post(
+    '/students/:id/packages',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = studentParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const parsedBody = purchaseHourPackageBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const student = await fastify.prisma.user.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId, role: UserRole.STUDENT, status: UserStatus.ACTIVE },
+        select: { id: true },
+      });
+      if (!student) return reply.code(404).send({ message: 'Student not found' });
+
+      const hourPackage = await fastify.prisma.hourPackage.findFirst({
+        where: { id: parsedBody.data.packageId, orgId: actor.orgId },
+        select: {
+          id: true,
+          name: true,
+          subject: true,
+          units: true,
+          priceCents: true,
+          currency: true,
+          validityMonths: true,
+          active: true,
+        },
+      });
+      if (!hourPackage) return reply.code(404).send({ message: 'Package not found' });
+      if (!hourPackage.active) return reply.code(409).send({ message: 'Package is no longer on sale' });
+
+      let teacherId: string | null = null;
+      if (parsedBody.data.teacherId) {
+        const teacher = await fastify.prisma.user.findFirst({
+          where: { id: parsedBody.data.teacherId, orgId: actor.orgId, role: UserRole.TEACHER },
+          select: { id: true },
+        });
+        if (!teacher) return reply.code(404).send({ message: 'Teacher not found' });
+        teacherId = teacher.id;
+      }
+
+      const priceCents = parsedBody.data.priceCents ?? hourPackage.priceCents;
+
+      const lot = await fastify.prisma.$transaction(async (tx) => {
+        const created = await purchaseHourPackage(tx, {
+          studentId: student.id,
+          teacherId,
+          hourPackage,
+          priceCents,
+          purchasedAt: new Date(),
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_SELL_HOUR_PACKAGE',
+            entityType: 'HourLot',
+            entityId: created.id,
+            meta: {
+              studentId: student.id,
+              packageId: hourPackage.id,
+              packageName: hourPackage.name,
+              teacherId,
+              units: created.units,
+              priceCents,
+              currency: created.currency,
+              expiresAt: created.expiresAt?.toISOString() ?? null,
+            },
+          },
+        });
+
+        return created;
+      });
+
+      return reply.code(201).send(serializeHourLot(lot));
+    },
+  );
+
+  const updateBillingModeBodySchema = z.object({ billingMode: z.nativeEnum(BillingMode) });
+
+  fastify.put(
+    '/students/:id/billing-mode',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = studentParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const parsedBody = updateBillingModeBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const student = await fastify.prisma.user.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId, role: UserRole.STUDENT, status: UserStatus.ACTIVE },
+        select: { id: true, studentProfile: { select: { billingMode: true } } },
+      });
+      if (!student?.studentProfile) return reply.code(404).send({ message: 'Student not found' });
+
+      const before = student.studentProfile.billingMode;
+
+      await fastify.prisma.$transaction(async (tx) => {
+        await tx.studentProfile.update({
+          where: { userId: student.id },
+          data: { billingMode: parsedBody.data.billingMode },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_UPDATE_BILLING_MODE',
+            entityType: 'StudentProfile',
+            entityId: student.id,
+            meta: { before, after: parsedBody.data.billingMode },
+          },
+        });
+      });
+
+      return reply.send({ id: student.id, billingMode: parsedBody.data.billingMode });
+    },
+  );
+
+  fastify.get(
+    '/students/:id/statement.pdf',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = studentParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const parsedQuery = statementQuerySchema.safeParse(request.query);
+      if (!parsedQuery.success) return zodBadRequest(reply, parsedQuery.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true, organization: { select: { name: true } } },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const student = await fastify.prisma.user.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId, role: UserRole.STUDENT },
+        select: { id: true, studentProfile: { select: { displayName: true, timeZone: true } } },
+      });
+      if (!student?.studentProfile) return reply.code(404).send({ message: 'Student not found' });
+
+      const [statement, branding] = await Promise.all([
+        loadStudentStatement(fastify.prisma, {
+          studentId: student.id,
+          timeZone: student.studentProfile.timeZone,
+          fromLocal: parsedQuery.data.from,
+          toLocal: parsedQuery.data.to,
+        }),
+        getDocumentBranding(fastify.prisma, actor.orgId),
+      ]);
+
+      const pdf = renderStudentStatementPdf({
+        orgName: actor.organization.name,
+        branding,
+        studentName: student.studentProfile.displayName,
+        statement,
+      });
+
+      return reply
+        .type('application/pdf')
+        .header('content-disposition', `attachment; filename="statement-${statement.fromLocal}-${statement.toLocal}.pdf"`)
+        .send(pdf);
+    },
+  );
+
+  fastify.delete('/students/:id', { preHandler: fastify.requireRole([UserRole.ADMIN]) }, async (request, reply) => {
+    const parsedParams = studentParamsSchema.safeParse(request.params);
+    if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
 
     const actor = await fastify.prisma.user.findUnique({
       where: { id: request.user.userId },
@@ -579,7 +1523,14 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
     });
     if (!student) return reply.code(404).send({ message: 'Student not found' });
 
-    await fastify.prisma.user.update({ where: { id: student.id }, data: { status: UserStatus.DISABLED } });
+    await fastify.prisma.$transaction(async (tx) => {
+      await tx.user.update({ where: { id: student.id }, data: { status: UserStatus.DISABLED } });
+      await revokeAuthSessions(tx, {
+        where: { userId: student.id },
+        reason: AuthSessionRevokeReason.USER_DISABLED,
+        now: new Date(),
+      });
+    });
 
     await fastify.prisma.auditLog.create({
       data: {
@@ -611,7 +1562,14 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
     });
     if (!teacher) return reply.code(404).send({ message: 'Teacher not found' });
 
-    await fastify.prisma.user.update({ where: { id: teacher.id }, data: { status: UserStatus.DISABLED } });
+    await fastify.prisma.$transaction(async (tx) => {
+      await tx.user.update({ where: { id: teacher.id }, data: { status: UserStatus.DISABLED } });
+      await revokeAuthSessions(tx, {
+        where: { userId: teacher.id },
+        reason: AuthSessionRevokeReason.USER_DISABLED,
+        now: new Date(),
+      });
+    });
 
     await fastify.prisma.auditLog.create({
       data: {
@@ -636,6 +1594,8 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
       endAtUtc: z.coerce.date(),
       classTimeZone: z.string().min(1),
       consumesUnits: z.number().int().positive().default(1),
+      overrideConflicts: z.boolean().default(false),
+      overrideAvailability: z.boolean().default(false),
     })
     .refine((data) => data.endAtUtc > data.startAtUtc, {
       path: ['endAtUtc'],
@@ -714,6 +1674,10 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
         studentHourlyRateCentsSnapshot: true,
         teacherHourlyWageCentsSnapshot: true,
         currencySnapshot: true,
+        seriesId: true,
+        seriesOccurrenceDate: true,
+        attendance: true,
+        attendedMinutes: true,
         teacher: { select: { email: true, teacherProfile: { select: { displayName: true } } } },
         student: { select: { email: true, studentProfile: { select: { displayName: true } } } },
       },
@@ -736,6 +1700,10 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
       studentHourlyRateCentsSnapshot: session.studentHourlyRateCentsSnapshot,
       teacherHourlyWageCentsSnapshot: session.teacherHourlyWageCentsSnapshot,
       currencySnapshot: session.currencySnapshot,
+      seriesId: session.seriesId ?? null,
+      seriesOccurrenceDate: session.seriesOccurrenceDate ?? null,
+      attendance: session.attendance ?? null,
+      attendedMinutes: session.attendedMinutes ?? null,
     }));
   });
 
@@ -781,18 +1749,41 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
       return reply.code(404).send({ message: 'Rate not found' });
     }
 
-    const conflict = await fastify.prisma.session.findFirst({
-      where: {
-        teacherId: teacher.id,
-        status: SessionStatus.SCHEDULED,
-        startAtUtc: { lt: parsedBody.data.endAtUtc },
-        endAtUtc: { gt: parsedBody.data.startAtUtc },
-      },
-      select: { id: true },
+    const conflicts = await findSessionConflicts(fastify.prisma, {
+      teacherId: teacher.id,
+      studentId: student.id,
+      startAtUtc: parsedBody.data.startAtUtc,
+      endAtUtc: parsedBody.data.endAtUtc,
     });
 
-    if (conflict) {
-      return reply.code(409).send({ message: 'Teacher time conflict', conflictSessionId: conflict.id });
+    if (conflicts.length > 0 && !parsedBody.data.overrideConflicts) {
+      return reply
+        .code(409)
+        .send({ message: conflictMessage(conflicts), conflictSessionId: conflicts[0]?.sessionId, conflicts });
+    }
+
+    // Availability is advisory: the admin can book outside it after acknowledging the warning.
+    const availabilityIssues = await findAvailabilityIssues(fastify.prisma, {
+      teacherId: teacher.id,
+      startAtUtc: parsedBody.data.startAtUtc,
+      endAtUtc: parsedBody.data.endAtUtc,
+    });
+
+    if (availabilityIssues.length > 0 && !parsedBody.data.overrideAvailability) {
+      return reply.code(409).send({ message: 'Outside teacher availability', availabilityIssues });
+    }
+
+    const balanceIssue = await findSchedulingBalanceIssue(fastify.prisma, {
+      orgId: actor.orgId,
+      studentId: student.id,
+      consumesUnits: parsedBody.data.consumesUnits,
+    });
+    if (balanceIssue) {
+      return reply.code(409).send({
+        message: balanceIssue.message,
+        balance: balanceIssue.balance,
+        overdraftLimitUnits: balanceIssue.overdraftLimitUnits,
+      });
     }
 
     const session = await fastify.prisma.session.create({
@@ -829,11 +1820,15 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
           studentHourlyRateCentsSnapshot: session.studentHourlyRateCentsSnapshot,
           teacherHourlyWageCentsSnapshot: session.teacherHourlyWageCentsSnapshot,
           currencySnapshot: session.currencySnapshot,
+          ...(conflicts.length > 0 ? { overrideConflicts: true, overriddenConflicts: conflicts } : {}),
+          ...(availabilityIssues.length > 0 ? { overrideAvailability: true, availabilityIssues } : {}),
         },
       },
     });
 
-    return reply.code(201).send({ id: session.id });
+    return reply
+      .code(201)
+      .send({ id: session.id, ...(availabilityIssues.length > 0 ? { availabilityWarnings: availabilityIssues } : {}) });
   });
 
   const updateSessionBodySchema = z
@@ -844,6 +1839,7 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
       classTimeZone: z.string().min(1).optional(),
       consumesUnits: z.number().int().positive().optional(),
       status: z.nativeEnum(SessionStatus).optional(),
+      overrideConflicts: z.boolean().default(false),
     })
     .refine((data) => !data.startAtUtc || !data.endAtUtc || data.endAtUtc > data.startAtUtc, {
       path: ['endAtUtc'],
@@ -879,7 +1875,7 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
     });
     if (!existing) return reply.code(404).send({ message: 'Session not found' });
 
-    if (existing.status !== SessionStatus.SCHEDULED) {
+    if (!OPEN_SESSION_STATUSES.includes(existing.status)) {
       return reply.code(409).send({ message: 'Only SCHEDULED sessions can be edited' });
     }
 
@@ -892,6 +1888,7 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
 
     const nextStatus = parsedBody.data.status ?? existing.status;
     if (
+      nextStatus !== existing.status &&
       nextStatus !== SessionStatus.SCHEDULED &&
       nextStatus !== SessionStatus.CANCELLED &&
       nextStatus !== SessionStatus.COMPLETED
@@ -899,21 +1896,22 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
       return reply.code(400).send({ message: 'Invalid status transition' });
     }
 
+    let overriddenConflicts: SessionConflict[] = [];
     if (nextStatus === SessionStatus.SCHEDULED) {
-      const conflict = await fastify.prisma.session.findFirst({
-        where: {
-          id: { not: existing.id },
-          teacherId: existing.teacherId,
-          status: SessionStatus.SCHEDULED,
-          startAtUtc: { lt: nextEndAtUtc },
-          endAtUtc: { gt: nextStartAtUtc },
-        },
-        select: { id: true },
+      const conflicts = await findSessionConflicts(fastify.prisma, {
+        teacherId: existing.teacherId,
+        studentId: existing.studentId,
+        startAtUtc: nextStartAtUtc,
+        endAtUtc: nextEndAtUtc,
+        excludeSessionIds: [existing.id],
       });
 
-      if (conflict) {
-        return reply.code(409).send({ message: 'Teacher time conflict', conflictSessionId: conflict.id });
+      if (conflicts.length > 0 && !parsedBody.data.overrideConflicts) {
+        return reply
+          .code(409)
+          .send({ message: conflictMessage(conflicts), conflictSessionId: conflicts[0]?.sessionId, conflicts });
       }
+      overriddenConflicts = conflicts;
     }
 
     let nextStudentHourlyRateCentsSnapshot: number | undefined;
@@ -936,13 +1934,20 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
       nextCurrencySnapshot = rate.currency;
     }
 
+    // Moving a session that is waiting for confirmation starts its confirmation window over from the new end time.
+    const restartConfirmation =
+      nextStatus === SessionStatus.PENDING_CONFIRMATION &&
+      (nextStartAtUtc.getTime() !== existing.startAtUtc.getTime() ||
+        nextEndAtUtc.getTime() !== existing.endAtUtc.getTime());
+
     const updateData = {
       subject: nextSubject,
       startAtUtc: nextStartAtUtc,
       endAtUtc: nextEndAtUtc,
       classTimeZone: nextClassTimeZone,
       consumesUnits: nextConsumesUnits,
-      status: nextStatus,
+      status: restartConfirmation ? SessionStatus.SCHEDULED : nextStatus,
+      ...(restartConfirmation ? { confirmationDueAtUtc: null } : {}),
       ...(nextStudentHourlyRateCentsSnapshot !== undefined
         ? { studentHourlyRateCentsSnapshot: nextStudentHourlyRateCentsSnapshot }
         : {}),
@@ -955,7 +1960,7 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
     if (nextStatus === SessionStatus.COMPLETED) {
       const result = await fastify.prisma.$transaction(async (tx) => {
         const updated = await tx.session.updateMany({
-          where: { id: existing.id, status: SessionStatus.SCHEDULED },
+          where: { id: existing.id, status: existing.status },
           data: updateData,
         });
 
@@ -963,16 +1968,11 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
           return { updated: false };
         }
 
-        await tx.hourLedgerEntry.upsert({
-          where: { sessionId: existing.id },
-          create: {
-            studentId: existing.studentId,
-            teacherId: existing.teacherId,
-            deltaUnits: -nextConsumesUnits,
-            reason: HourLedgerReason.SESSION_CONSUME,
-            sessionId: existing.id,
-          },
-          update: {},
+        await recordPayrollAdjustments(tx, [existing.id], 'Session completed after the payroll period was closed');
+
+        await recordSessionCharge(tx, existing, {
+          deltaUnits: -nextConsumesUnits,
+          reason: HourLedgerReason.SESSION_CONSUME,
         });
 
         return { updated: true };
@@ -1003,6 +2003,7 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
           classTimeZone: nextClassTimeZone,
           consumesUnits: nextConsumesUnits,
           status: nextStatus,
+          ...(overriddenConflicts.length > 0 ? { overrideConflicts: true, overriddenConflicts } : {}),
         },
       },
     });
@@ -1010,53 +2011,2431 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
     return reply.send({ ok: true });
   });
 
-  fastify.delete('/sessions/:id', { preHandler: fastify.requireRole([UserRole.ADMIN]) }, async (request, reply) => {
-    const parsedParams = sessionParamsSchema.safeParse(request.params);
-    if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
-
-    const actor = await fastify.prisma.user.findUnique({
-      where: { id: request.user.userId },
-      select: { id: true, orgId: true },
-    });
-    if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
-
-    const existing = await fastify.prisma.session.findFirst({
-      where: { id: parsedParams.data.id, teacher: { orgId: actor.orgId }, student: { orgId: actor.orgId } },
-      select: { id: true, status: true },
+  // An ended session put back to SCHEDULED would be picked up and charged again by the completion job, so it has to
+  // move to a new time.
+  const revertSessionBodySchema = z
+    .object({
+      status: z.enum([SessionStatus.SCHEDULED, SessionStatus.CANCELLED] as const),
+      startAtUtc: z.coerce.date().optional(),
+      endAtUtc: z.coerce.date().optional(),
+      note: z.string().trim().min(1).max(500).optional(),
+      overrideConflicts: z.boolean().default(false),
+    })
+    .refine((data) => data.status !== SessionStatus.SCHEDULED || (data.startAtUtc && data.endAtUtc), {
+      path: ['startAtUtc'],
+      message: '`startAtUtc` and `endAtUtc` are required to revert a session to SCHEDULED',
+    })
+    .refine((data) => !data.startAtUtc || !data.endAtUtc || data.endAtUtc > data.startAtUtc, {
+      path: ['endAtUtc'],
+      message: '`endAtUtc` must be after `startAtUtc`',
     });
-    if (!existing) return reply.code(404).send({ message: 'Session not found' });
 
-    if (existing.status === SessionStatus.COMPLETED) {
-      return reply.code(409).send({ message: 'Cannot delete COMPLETED session' });
-    }
+  fastify.post(
+    '/sessions/:id/revert',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = sessionParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
 
-    if (existing.status !== SessionStatus.CANCELLED) {
-      await fastify.prisma.session.update({ where: { id: existing.id }, data: { status: SessionStatus.CANCELLED } });
-    }
+      const parsedBody = revertSessionBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
 
-    await fastify.prisma.auditLog.create({
-      data: {
-        orgId: actor.orgId,
-        actorUserId: actor.id,
-        action: 'ADMIN_CANCEL_SESSION',
-        entityType: 'Session',
-        entityId: existing.id,
-        meta: { status: SessionStatus.CANCELLED },
-      },
-    });
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const session = await fastify.prisma.session.findFirst({
+        where: { id: parsedParams.data.id, teacher: { orgId: actor.orgId }, student: { orgId: actor.orgId } },
+        select: { id: true, status: true, attendance: true, teacherId: true, studentId: true },
+      });
+      if (!session) return reply.code(404).send({ message: 'Session not found' });
+      if (session.status !== SessionStatus.COMPLETED) {
+        return reply.code(409).send({ message: 'Only COMPLETED sessions can be reverted' });
+      }
+
+      const nextStatus = parsedBody.data.status;
+      const { startAtUtc, endAtUtc } = parsedBody.data;
+      const rescheduleTo = nextStatus === SessionStatus.SCHEDULED && startAtUtc && endAtUtc ? { startAtUtc, endAtUtc } : null;
+      if (rescheduleTo && rescheduleTo.startAtUtc <= new Date()) {
+        return reply.code(400).send({ message: '`startAtUtc` must be in the future' });
+      }
+
+      let overriddenConflicts: SessionConflict[] = [];
+      if (rescheduleTo) {
+        const conflicts = await findSessionConflicts(fastify.prisma, {
+          teacherId: session.teacherId,
+          studentId: session.studentId,
+          startAtUtc: rescheduleTo.startAtUtc,
+          endAtUtc: rescheduleTo.endAtUtc,
+          excludeSessionIds: [session.id],
+        });
+
+        if (conflicts.length > 0 && !parsedBody.data.overrideConflicts) {
+          return reply
+            .code(409)
+            .send({ message: conflictMessage(conflicts), conflictSessionId: conflicts[0]?.sessionId, conflicts });
+        }
+        overriddenConflicts = conflicts;
+      }
+
+      const invoiced = await fastify.prisma.invoiceLine.findFirst({
+        where: {
+          sessionId: session.id,
+          invoice: { status: { in: [InvoiceStatus.ISSUED, InvoiceStatus.PAID] } },
+        },
+        select: { invoice: { select: { id: true, number: true } } },
+      });
+      if (invoiced) {
+        return reply.code(409).send({
+          message: 'Session is billed on an issued invoice; void the invoice before reverting',
+          invoiceId: invoiced.invoice.id,
+        });
+      }
+
+      const result = await fastify.prisma.$transaction(async (tx) => {
+        const updated = await tx.session.updateMany({
+          where: { id: session.id, status: SessionStatus.COMPLETED },
+          data: {
+            status: nextStatus,
+            ...(rescheduleTo ?? {}),
+            confirmationDueAtUtc: null,
+            attendance: null,
+            attendedMinutes: null,
+            payableMinutes: null,
+            attendanceRecordedAt: null,
+            attendanceRecordedByUserId: null,
+            lateCancelCharge: null,
+            teacherPaidOnCancel: false,
+          },
+        });
+        if (updated.count === 0) return null;
+
+        const reversal = await reverseSessionCharge(tx, session.id, new Date());
+        await recordPayrollAdjustments(tx, [session.id], 'Session reverted after the payroll period was closed');
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_REVERT_SESSION',
+            entityType: 'Session',
+            entityId: session.id,
+            meta: {
+              status: nextStatus,
+              attendance: session.attendance,
+              reversalEntryId: reversal?.id ?? null,
+              restoredUnits: reversal?.deltaUnits ?? 0,
+              ...(rescheduleTo
+                ? { startAtUtc: rescheduleTo.startAtUtc.toISOString(), endAtUtc: rescheduleTo.endAtUtc.toISOString() }
+                : {}),
+              ...(parsedBody.data.note ? { note: parsedBody.data.note } : {}),
+              ...(overriddenConflicts.length > 0 ? { overrideConflicts: true, overriddenConflicts } : {}),
+            },
+          },
+        });
+
+        return { reversal };
+      });
+
+      if (!result) return reply.code(409).send({ message: 'Only COMPLETED sessions can be reverted' });
+
+      return reply.send({ ok: true, reversalEntryId: result.reversal?.id ?? null });
+    },
+  );
+
+  fastify.get(
+    '/sessions/:id/notes',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = sessionParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const session = await fastify.prisma.session.findFirst({
+        where: { id: parsedParams.data.id, teacher: { orgId: actor.orgId }, student: { orgId: actor.orgId } },
+        select: { id: true },
+      });
+      if (!session) return reply.code(404).send({ message: 'Session not found' });
+
+      return loadSessionNotes(fastify.prisma, session.id, { includePrivateNote: true });
+    },
+  );
+
+  fastify.delete('/sessions/:id', { preHandler: fastify.requireRole([UserRole.ADMIN]) }, async (request, reply) => {
+    const parsedParams = sessionParamsSchema.safeParse(request.params);
+    if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+    const actor = await fastify.prisma.user.findUnique({
+      where: { id: request.user.userId },
+      select: { id: true, orgId: true },
+    });
+    if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+    const existing = await fastify.prisma.session.findFirst({
+      where: { id: parsedParams.data.id, teacher: { orgId: actor.orgId }, student: { orgId: actor.orgId } },
+      select: { id: true, status: true },
+    });
+    if (!existing) return reply.code(404).send({ message: 'Session not found' });
+
+    if (existing.status === SessionStatus.COMPLETED) {
+      return reply.code(409).send({ message: 'Cannot delete COMPLETED session' });
+    }
+
+    if (existing.status !== SessionStatus.CANCELLED) {
+      await fastify.prisma.session.update({ where: { id: existing.id }, data: { status: SessionStatus.CANCELLED } });
+    }
+
+    await fastify.prisma.auditLog.create({
+      data: {
+        orgId: actor.orgId,
+        actorUserId: actor.id,
+        action: 'ADMIN_CANCEL_SESSION',
+        entityType: 'Session',
+        entityId: existing.id,
+        meta: { status: SessionStatus.CANCELLED },
+      },
+    });
 
     return reply.send({ ok: true });
   });
 
-  const listChangeRequestsQuerySchema = z.object({
-    status: z.nativeEnum(ChangeRequestStatus).optional(),
+  const isoDateSchema = z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .refine(
+      (value) => {
+        try {
+          parseIsoDate(value);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      { message: 'Invalid date (YYYY-MM-DD)' },
+    );
+  const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Invalid time (HH:mm)');
+  const timeZoneSchema = z.string().min(1).refine(isValidTimeZone, { message: 'Invalid time zone' });
+
+  const createSessionSeriesBodySchema = z
+    .object({
+      teacherId: z.string().min(1),
+      studentId: z.string().min(1),
+      subject: z.nativeEnum(Subject).default(Subject.GENERAL),
+      classTimeZone: timeZoneSchema,
+      frequency: z.nativeEnum(RecurrenceFrequency),
+      startDateLocal: isoDateSchema,
+      startTimeLocal: timeOfDaySchema,
+      durationMinutes: z
+        .number()
+        .int()
+        .positive()
+        .max(24 * 60),
+      untilDateLocal: isoDateSchema.optional(),
+      occurrenceCount: z.number().int().positive().max(MAX_SERIES_OCCURRENCES).optional(),
+      exceptionDates: z.array(isoDateSchema).default([]),
+      consumesUnits: z.number().int().positive().default(1),
+      overrideConflicts: z.boolean().default(false),
+    })
+    .refine((data) => data.untilDateLocal !== undefined || data.occurrenceCount !== undefined, {
+      path: ['untilDateLocal'],
+      message: 'Either `untilDateLocal` or `occurrenceCount` is required',
+    })
+    .refine((data) => !data.untilDateLocal || data.untilDateLocal >= data.startDateLocal, {
+      path: ['untilDateLocal'],
+      message: '`untilDateLocal` must not be before `startDateLocal`',
+    })
+    .refine(
+      (data) =>
+        !data.untilDateLocal ||
+        countOccurrencesBefore(
+          {
+            frequency: data.frequency,
+            classTimeZone: data.classTimeZone,
+            startDateLocal: data.startDateLocal,
+            startTimeLocal: data.startTimeLocal,
+            durationMinutes: data.durationMinutes,
+            untilDateLocal: null,
+            occurrenceCount: null,
+            exceptionDates: [],
+          },
+          isoDateAddDays(data.untilDateLocal, 1),
+        ) <= MAX_SERIES_OCCURRENCES,
+      {
+        path: ['untilDateLocal'],
+        message: `Series cannot have more than ${MAX_SERIES_OCCURRENCES} occurrences`,
+      },
+    );
+
+  const sessionSeriesParamsSchema = z.object({ id: z.string().min(1) });
+
+  const seriesScopeSchema = z.enum(['THIS', 'THIS_AND_FOLLOWING', 'ALL']);
+
+  const updateSessionSeriesBodySchema = z
+    .object({
+      scope: seriesScopeSchema,
+      sessionId: z.string().min(1).optional(),
+      subject: z.nativeEnum(Subject).optional(),
+      startTimeLocal: timeOfDaySchema.optional(),
+      durationMinutes: z
+        .number()
+        .int()
+        .positive()
+        .max(24 * 60)
+        .optional(),
+      consumesUnits: z.number().int().positive().optional(),
+      overrideConflicts: z.boolean().default(false),
+    })
+    .refine((data) => data.scope === 'ALL' || data.sessionId !== undefined, {
+      path: ['sessionId'],
+      message: '`sessionId` is required unless scope is ALL',
+    });
+
+  const cancelSessionSeriesQuerySchema = z
+    .object({
+      scope: seriesScopeSchema,
+      sessionId: z.string().min(1).optional(),
+    })
+    .refine((data) => data.scope === 'ALL' || data.sessionId !== undefined, {
+      path: ['sessionId'],
+      message: '`sessionId` is required unless scope is ALL',
+    });
+
+  type SeriesConflict = {
+    occurrenceDate: string;
+    startAtUtc: string;
+    conflictSessionId: string;
+    parties: SessionConflict['parties'];
+  };
+
+  function toSeriesRule(series: {
+    frequency: RecurrenceFrequency;
+    classTimeZone: string;
+    startDateLocal: string;
+    startTimeLocal: string;
+    durationMinutes: number;
+    untilDateLocal: string | null;
+    occurrenceCount: number | null;
+    exceptionDates: string[];
+  }): SeriesRule {
+    return {
+      frequency: series.frequency,
+      classTimeZone: series.classTimeZone,
+      startDateLocal: series.startDateLocal,
+      startTimeLocal: series.startTimeLocal,
+      durationMinutes: series.durationMinutes,
+      untilDateLocal: series.untilDateLocal,
+      occurrenceCount: series.occurrenceCount,
+      exceptionDates: series.exceptionDates,
+    };
+  }
+
+  fastify.post('/session-series', { preHandler: fastify.requireRole([UserRole.ADMIN]) }, async (request, reply) => {
+    const parsedBody = createSessionSeriesBodySchema.safeParse(request.body);
+    if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+    const actor = await fastify.prisma.user.findUnique({
+      where: { id: request.user.userId },
+      select: { id: true, orgId: true },
+    });
+    if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+    const [teacher, student] = await Promise.all([
+      fastify.prisma.user.findUnique({
+        where: { id: parsedBody.data.teacherId },
+        select: { id: true, orgId: true, role: true },
+      }),
+      fastify.prisma.user.findUnique({
+        where: { id: parsedBody.data.studentId },
+        select: { id: true, orgId: true, role: true },
+      }),
+    ]);
+
+    if (!teacher || teacher.orgId !== actor.orgId || teacher.role !== UserRole.TEACHER) {
+      return reply.code(404).send({ message: 'Teacher not found' });
+    }
+    if (!student || student.orgId !== actor.orgId || student.role !== UserRole.STUDENT) {
+      return reply.code(404).send({ message: 'Student not found' });
+    }
+
+    const rate = await fastify.prisma.teacherStudentRate.findUnique({
+      where: {
+        teacherId_studentId_subject: {
+          teacherId: teacher.id,
+          studentId: student.id,
+          subject: parsedBody.data.subject,
+        },
+      },
+      select: { id: true, studentHourlyRateCents: true, teacherHourlyWageCents: true, currency: true },
+    });
+    if (!rate) {
+      return reply.code(404).send({ message: 'Rate not found' });
+    }
+
+    const rule: SeriesRule = {
+      frequency: parsedBody.data.frequency,
+      classTimeZone: parsedBody.data.classTimeZone,
+      startDateLocal: parsedBody.data.startDateLocal,
+      startTimeLocal: parsedBody.data.startTimeLocal,
+      durationMinutes: parsedBody.data.durationMinutes,
+      untilDateLocal: parsedBody.data.untilDateLocal ?? null,
+      occurrenceCount: parsedBody.data.occurrenceCount ?? null,
+      exceptionDates: Array.from(new Set(parsedBody.data.exceptionDates)).sort(),
+    };
+
+    const occurrences = expandSeriesOccurrences(rule);
+    if (occurrences.length === 0) {
+      return reply.code(400).send({ message: 'Series has no occurrences' });
+    }
+
+    const conflicts: SeriesConflict[] = [];
+    for (const occurrence of occurrences) {
+      const found = await findSessionConflicts(fastify.prisma, {
+        teacherId: teacher.id,
+        studentId: student.id,
+        startAtUtc: occurrence.startAtUtc,
+        endAtUtc: occurrence.endAtUtc,
+      });
+      for (const conflict of found) {
+        conflicts.push({
+          occurrenceDate: occurrence.occurrenceDate,
+          startAtUtc: occurrence.startAtUtc.toISOString(),
+          conflictSessionId: conflict.sessionId,
+          parties: conflict.parties,
+        });
+      }
+    }
+
+    if (conflicts.length > 0 && !parsedBody.data.overrideConflicts) {
+      return reply.code(409).send({ message: conflictMessage(conflicts), conflicts });
+    }
+
+    const created = await fastify.prisma.$transaction(async (tx) => {
+      const series = await tx.sessionSeries.create({
+        data: {
+          teacherId: teacher.id,
+          studentId: student.id,
+          subject: parsedBody.data.subject,
+          classTimeZone: rule.classTimeZone,
+          frequency: rule.frequency,
+          startDateLocal: rule.startDateLocal,
+          startTimeLocal: rule.startTimeLocal,
+          durationMinutes: rule.durationMinutes,
+          untilDateLocal: rule.untilDateLocal,
+          occurrenceCount: rule.occurrenceCount,
+          exceptionDates: rule.exceptionDates,
+          consumesUnits: parsedBody.data.consumesUnits,
+          createdByAdminId: actor.id,
+        },
+      });
+
+      await tx.session.createMany({
+        data: occurrences.map((occurrence) => ({
+          teacherId: teacher.id,
+          studentId: student.id,
+          subject: parsedBody.data.subject,
+          startAtUtc: occurrence.startAtUtc,
+          endAtUtc: occurrence.endAtUtc,
+          classTimeZone: rule.classTimeZone,
+          consumesUnits: parsedBody.data.consumesUnits,
+          studentHourlyRateCentsSnapshot: rate.studentHourlyRateCents,
+          teacherHourlyWageCentsSnapshot: rate.teacherHourlyWageCents,
+          currencySnapshot: rate.currency,
+          createdByAdminId: actor.id,
+          seriesId: series.id,
+          seriesOccurrenceDate: occurrence.occurrenceDate,
+        })),
+      });
+
+      const sessions = await tx.session.findMany({
+        where: { seriesId: series.id },
+        orderBy: { startAtUtc: 'asc' },
+        select: { id: true },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          orgId: actor.orgId,
+          actorUserId: actor.id,
+          action: 'ADMIN_CREATE_SESSION_SERIES',
+          entityType: 'SessionSeries',
+          entityId: series.id,
+          meta: {
+            teacherId: teacher.id,
+            studentId: student.id,
+            subject: series.subject,
+            classTimeZone: series.classTimeZone,
+            frequency: series.frequency,
+            startDateLocal: series.startDateLocal,
+            startTimeLocal: series.startTimeLocal,
+            durationMinutes: series.durationMinutes,
+            untilDateLocal: series.untilDateLocal,
+            occurrenceCount: series.occurrenceCount,
+            exceptionDates: series.exceptionDates,
+            consumesUnits: series.consumesUnits,
+            sessionIds: sessions.map((session) => session.id),
+            ...(conflicts.length > 0 ? { overrideConflicts: true, overriddenConflicts: conflicts } : {}),
+          },
+        },
+      });
+
+      return { series, sessions };
+    });
+
+    return reply.code(201).send({
+      id: created.series.id,
+      sessionIds: created.sessions.map((session) => session.id),
+    });
+  });
+
+  fastify.get('/session-series/:id', { preHandler: fastify.requireRole([UserRole.ADMIN]) }, async (request, reply) => {
+    const parsedParams = sessionSeriesParamsSchema.safeParse(request.params);
+    if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+    const actor = await fastify.prisma.user.findUnique({
+      where: { id: request.user.userId },
+      select: { id: true, orgId: true },
+    });
+    if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+    const series = await fastify.prisma.sessionSeries.findFirst({
+      where: { id: parsedParams.data.id, teacher: { orgId: actor.orgId }, student: { orgId: actor.orgId } },
+      include: {
+        sessions: {
+          orderBy: { startAtUtc: 'asc' },
+          select: { id: true, seriesOccurrenceDate: true, startAtUtc: true, endAtUtc: true, status: true },
+        },
+      },
+    });
+    if (!series) return reply.code(404).send({ message: 'Session series not found' });
+
+    return {
+      id: series.id,
+      teacherId: series.teacherId,
+      studentId: series.studentId,
+      subject: series.subject,
+      classTimeZone: series.classTimeZone,
+      frequency: series.frequency,
+      startDateLocal: series.startDateLocal,
+      startTimeLocal: series.startTimeLocal,
+      durationMinutes: series.durationMinutes,
+      untilDateLocal: series.untilDateLocal ?? null,
+      occurrenceCount: series.occurrenceCount ?? null,
+      exceptionDates: series.exceptionDates,
+      consumesUnits: series.consumesUnits,
+      sessions: series.sessions.map((session) => ({
+        id: session.id,
+        occurrenceDate: session.seriesOccurrenceDate ?? null,
+        startAtUtc: session.startAtUtc.toISOString(),
+        endAtUtc: session.endAtUtc.toISOString(),
+        status: session.status,
+      })),
+    };
+  });
+
+  fastify.patch('/session-series/:id', { preHandler: fastify.requireRole([UserRole.ADMIN]) }, async (request, reply) => {
+    const parsedParams = sessionSeriesParamsSchema.safeParse(request.params);
+    if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+    const parsedBody = updateSessionSeriesBodySchema.safeParse(request.body);
+    if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+    const actor = await fastify.prisma.user.findUnique({
+      where: { id: request.user.userId },
+      select: { id: true, orgId: true },
+    });
+    if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+    const series = await fastify.prisma.sessionSeries.findFirst({
+      where: { id: parsedParams.data.id, teacher: { orgId: actor.orgId }, student: { orgId: actor.orgId } },
+    });
+    if (!series) return reply.code(404).send({ message: 'Session series not found' });
+
+    const { scope, sessionId: anchorSessionId } = parsedBody.data;
+
+    let anchorDate: string | null = null;
+    if (scope !== 'ALL' && anchorSessionId) {
+      const anchor = await fastify.prisma.session.findFirst({
+        where: { id: anchorSessionId, seriesId: series.id },
+        select: { id: true, status: true, seriesOccurrenceDate: true },
+      });
+      if (!anchor || !anchor.seriesOccurrenceDate) return reply.code(404).send({ message: 'Session not found' });
+      if (anchor.status !== SessionStatus.SCHEDULED) {
+        return reply.code(409).send({ message: 'Only SCHEDULED sessions can be edited' });
+      }
+      anchorDate = anchor.seriesOccurrenceDate;
+    }
+
+    const targets = await fastify.prisma.session.findMany({
+      where: {
+        seriesId: series.id,
+        status: SessionStatus.SCHEDULED,
+        ...(scope === 'THIS' && anchorSessionId ? { id: anchorSessionId } : {}),
+        ...(scope === 'THIS_AND_FOLLOWING' && anchorDate ? { seriesOccurrenceDate: { gte: anchorDate } } : {}),
+      },
+      orderBy: { startAtUtc: 'asc' },
+      select: { id: true, seriesOccurrenceDate: true },
+    });
+
+    const nextSubject = parsedBody.data.subject ?? series.subject;
+    const nextStartTimeLocal = parsedBody.data.startTimeLocal ?? series.startTimeLocal;
+    const nextDurationMinutes = parsedBody.data.durationMinutes ?? series.durationMinutes;
+    const nextConsumesUnits = parsedBody.data.consumesUnits ?? series.consumesUnits;
+
+    let rateSnapshot:
+      | { studentHourlyRateCentsSnapshot: number; teacherHourlyWageCentsSnapshot: number; currencySnapshot: Currency }
+      | undefined;
+    if (nextSubject !== series.subject) {
+      const rate = await fastify.prisma.teacherStudentRate.findUnique({
+        where: {
+          teacherId_studentId_subject: {
+            teacherId: series.teacherId,
+            studentId: series.studentId,
+            subject: nextSubject,
+          },
+        },
+        select: { studentHourlyRateCents: true, teacherHourlyWageCents: true, currency: true },
+      });
+      if (!rate) return reply.code(404).send({ message: 'Rate not found' });
+      rateSnapshot = {
+        studentHourlyRateCentsSnapshot: rate.studentHourlyRateCents,
+        teacherHourlyWageCentsSnapshot: rate.teacherHourlyWageCents,
+        currencySnapshot: rate.currency,
+      };
+    }
+
+    const targetIds = targets.map((target) => target.id);
+    const plannedUpdates: { id: string; occurrenceDate: string; startAtUtc: Date; endAtUtc: Date }[] = [];
+    for (const target of targets) {
+      if (!target.seriesOccurrenceDate) continue;
+      const times = occurrenceToUtc(target.seriesOccurrenceDate, {
+        classTimeZone: series.classTimeZone,
+        startTimeLocal: nextStartTimeLocal,
+        durationMinutes: nextDurationMinutes,
+      });
+      plannedUpdates.push({ id: target.id, occurrenceDate: target.seriesOccurrenceDate, ...times });
+    }
+
+    const conflicts: SeriesConflict[] = [];
+    for (const planned of plannedUpdates) {
+      const found = await findSessionConflicts(fastify.prisma, {
+        teacherId: series.teacherId,
+        studentId: series.studentId,
+        startAtUtc: planned.startAtUtc,
+        endAtUtc: planned.endAtUtc,
+        excludeSessionIds: targetIds,
+      });
+      for (const conflict of found) {
+        conflicts.push({
+          occurrenceDate: planned.occurrenceDate,
+          startAtUtc: planned.startAtUtc.toISOString(),
+          conflictSessionId: conflict.sessionId,
+          parties: conflict.parties,
+        });
+      }
+    }
+
+    if (conflicts.length > 0 && !parsedBody.data.overrideConflicts) {
+      return reply.code(409).send({ message: conflictMessage(conflicts), conflicts });
+    }
+
+    const result = await fastify.prisma.$transaction(async (tx) => {
+      let seriesId = series.id;
+
+      const seriesChanges = {
+        subject: nextSubject,
+        startTimeLocal: nextStartTimeLocal,
+        durationMinutes: nextDurationMinutes,
+        consumesUnits: nextConsumesUnits,
+      };
+
+      const splitsSeries = scope === 'THIS_AND_FOLLOWING' && anchorDate !== null && anchorDate > series.startDateLocal;
+
+      if (scope === 'ALL' || (scope === 'THIS_AND_FOLLOWING' && !splitsSeries)) {
+        await tx.sessionSeries.update({ where: { id: series.id }, data: seriesChanges });
+      } else if (splitsSeries && anchorDate) {
+        // Split the series so earlier occurrences keep their original definition.
+        const occurrencesBefore = countOccurrencesBefore(toSeriesRule(series), anchorDate);
+        const followingSeries = await tx.sessionSeries.create({
+          data: {
+            teacherId: series.teacherId,
+            studentId: series.studentId,
+            classTimeZone: series.classTimeZone,
+            frequency: series.frequency,
+            startDateLocal: anchorDate,
+            untilDateLocal: series.untilDateLocal,
+            occurrenceCount: series.occurrenceCount !== null ? series.occurrenceCount - occurrencesBefore : null,
+            exceptionDates: series.exceptionDates.filter((date) => date >= anchorDate!),
+            createdByAdminId: actor.id,
+            ...seriesChanges,
+          },
+        });
+
+        await tx.sessionSeries.update({
+          where: { id: series.id },
+          data: {
+            untilDateLocal: isoDateAddDays(anchorDate, -1),
+            occurrenceCount: null,
+            exceptionDates: series.exceptionDates.filter((date) => date < anchorDate!),
+          },
+        });
+
+        await tx.session.updateMany({
+          where: { seriesId: series.id, seriesOccurrenceDate: { gte: anchorDate } },
+          data: { seriesId: followingSeries.id },
+        });
+
+        seriesId = followingSeries.id;
+      }
+
+      for (const planned of plannedUpdates) {
+        await tx.session.update({
+          where: { id: planned.id },
+          data: {
+            subject: nextSubject,
+            startAtUtc: planned.startAtUtc,
+            endAtUtc: planned.endAtUtc,
+            consumesUnits: nextConsumesUnits,
+            ...(rateSnapshot ?? {}),
+          },
+        });
+      }
+
+      await tx.auditLog.create({
+        data: {
+          orgId: actor.orgId,
+          actorUserId: actor.id,
+          action: 'ADMIN_UPDATE_SESSION_SERIES',
+          entityType: 'SessionSeries',
+          entityId: series.id,
+          meta: {
+            scope,
+            sessionId: anchorSessionId ?? null,
+            seriesId,
+            subject: nextSubject,
+            startTimeLocal: nextStartTimeLocal,
+            durationMinutes: nextDurationMinutes,
+            consumesUnits: nextConsumesUnits,
+            sessionIds: plannedUpdates.map((planned) => planned.id),
+            ...(conflicts.length > 0 ? { overrideConflicts: true, overriddenConflicts: conflicts } : {}),
+          },
+        },
+      });
+
+      return { seriesId };
+    });
+
+    return reply.send({ seriesId: result.seriesId, sessionIds: plannedUpdates.map((planned) => planned.id) });
+  });
+
+  fastify.delete('/session-series/:id', { preHandler: fastify.requireRole([UserRole.ADMIN]) }, async (request, reply) => {
+    const parsedParams = sessionSeriesParamsSchema.safeParse(request.params);
+    if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+    const parsedQuery = cancelSessionSeriesQuerySchema.safeParse(request.query);
+    if (!parsedQuery.success) return zodBadRequest(reply, parsedQuery.error);
+
+    const actor = await fastify.prisma.user.findUnique({
+      where: { id: request.user.userId },
+      select: { id: true, orgId: true },
+    });
+    if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+    const series = await fastify.prisma.sessionSeries.findFirst({
+      where: { id: parsedParams.data.id, teacher: { orgId: actor.orgId }, student: { orgId: actor.orgId } },
+      select: { id: true, exceptionDates: true, startDateLocal: true },
+    });
+    if (!series) return reply.code(404).send({ message: 'Session series not found' });
+
+    const { sessionId: anchorSessionId } = parsedQuery.data;
+    let { scope } = parsedQuery.data;
+
+    let anchorDate: string | null = null;
+    if (scope !== 'ALL' && anchorSessionId) {
+      const anchor = await fastify.prisma.session.findFirst({
+        where: { id: anchorSessionId, seriesId: series.id },
+        select: { id: true, status: true, seriesOccurrenceDate: true },
+      });
+      if (!anchor || !anchor.seriesOccurrenceDate) return reply.code(404).send({ message: 'Session not found' });
+      if (anchor.status === SessionStatus.COMPLETED) {
+        return reply.code(409).send({ message: 'Cannot delete COMPLETED session' });
+      }
+      anchorDate = anchor.seriesOccurrenceDate;
+    }
+
+    // Ending the series before its first occurrence would leave it empty, so that is deleting all of it.
+    if (scope === 'THIS_AND_FOLLOWING' && anchorDate !== null && anchorDate <= series.startDateLocal) {
+      scope = 'ALL';
+      anchorDate = null;
+    }
+
+    const targets = await fastify.prisma.session.findMany({
+      where: {
+        seriesId: series.id,
+        status: SessionStatus.SCHEDULED,
+        ...(scope === 'THIS' && anchorSessionId ? { id: anchorSessionId } : {}),
+        ...(scope === 'THIS_AND_FOLLOWING' && anchorDate ? { seriesOccurrenceDate: { gte: anchorDate } } : {}),
+      },
+      select: { id: true },
+    });
+    const targetIds = targets.map((target) => target.id);
+
+    await fastify.prisma.$transaction(async (tx) => {
+      if (targetIds.length > 0) {
+        await tx.session.updateMany({
+          where: { id: { in: targetIds }, status: SessionStatus.SCHEDULED },
+          data: { status: SessionStatus.CANCELLED },
+        });
+      }
+
+      if (scope === 'THIS' && anchorDate && !series.exceptionDates.includes(anchorDate)) {
+        await tx.sessionSeries.update({
+          where: { id: series.id },
+          data: { exceptionDates: [...series.exceptionDates, anchorDate].sort() },
+        });
+      } else if (scope === 'THIS_AND_FOLLOWING' && anchorDate) {
+        await tx.sessionSeries.update({
+          where: { id: series.id },
+          data: { untilDateLocal: isoDateAddDays(anchorDate, -1), occurrenceCount: null },
+        });
+      }
+
+      await tx.auditLog.create({
+        data: {
+          orgId: actor.orgId,
+          actorUserId: actor.id,
+          action: 'ADMIN_CANCEL_SESSION_SERIES',
+          entityType: 'SessionSeries',
+          entityId: series.id,
+          meta: { scope, sessionId: anchorSessionId ?? null, sessionIds: targetIds },
+        },
+      });
+    });
+
+    return reply.send({ ok: true, cancelledSessionIds: targetIds });
+  });
+
+  const MAX_SUGGESTION_RANGE_MS = 31 * 24 * 60 * 60 * 1000;
+
+  const schedulingSuggestionsQuerySchema = z
+    .object({
+      teacherId: z.string().min(1),
+      studentId: z.string().min(1),
+      durationMinutes: z.coerce.number().int().min(15).max(8 * 60),
+      from: z.coerce.date(),
+      to: z.coerce.date(),
+      limit: z.coerce.number().int().min(1).max(50).default(10),
+      excludeSessionId: z.string().min(1).optional(),
+    })
+    .refine((data) => data.to > data.from, {
+      path: ['to'],
+      message: '`to` must be after `from`',
+    })
+    .refine((data) => data.to.getTime() - data.from.getTime() <= MAX_SUGGESTION_RANGE_MS, {
+      path: ['to'],
+      message: 'Range must not exceed 31 days',
+    });
+
+  fastify.get(
+    '/scheduling/suggestions',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedQuery = schedulingSuggestionsQuerySchema.safeParse(request.query);
+      if (!parsedQuery.success) return zodBadRequest(reply, parsedQuery.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const [teacher, student] = await Promise.all([
+        fastify.prisma.user.findFirst({
+          where: { id: parsedQuery.data.teacherId, orgId: actor.orgId, role: UserRole.TEACHER },
+          select: { id: true },
+        }),
+        fastify.prisma.user.findFirst({
+          where: { id: parsedQuery.data.studentId, orgId: actor.orgId, role: UserRole.STUDENT },
+          select: { id: true },
+        }),
+      ]);
+      if (!teacher) return reply.code(404).send({ message: 'Teacher not found' });
+      if (!student) return reply.code(404).send({ message: 'Student not found' });
+
+      const { durationMinutes, excludeSessionId, limit, to } = parsedQuery.data;
+      // Never propose slots that have already started.
+      const from = new Date(Math.max(parsedQuery.data.from.getTime(), Date.now()));
+
+      const suggestions = await suggestSlots(fastify.prisma, {
+        teacherId: teacher.id,
+        studentId: student.id,
+        durationMinutes,
+        from,
+        to,
+        limit,
+        ...(excludeSessionId ? { excludeSessionIds: [excludeSessionId] } : {}),
+      });
+
+      return { durationMinutes, ...suggestions };
+    },
+  );
+
+  const updateCancellationPolicyBodySchema = z.object({
+    cutoffHours: z.number().int().min(0).max(168),
+    allowLateCancellation: z.boolean(),
+    lateCancelCharge: z.nativeEnum(SessionCharge),
+    lateCancelTeacherPaid: z.boolean(),
+  });
+
+  fastify.get(
+    '/cancellation-policy',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      return getCancellationPolicy(fastify.prisma, actor.orgId);
+    },
+  );
+
+  fastify.put(
+    '/cancellation-policy',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedBody = updateCancellationPolicyBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const before = await getCancellationPolicy(fastify.prisma, actor.orgId);
+
+      const policy = await fastify.prisma.$transaction(async (tx) => {
+        const saved = await tx.cancellationPolicy.upsert({
+          where: { orgId: actor.orgId },
+          create: { orgId: actor.orgId, ...parsedBody.data },
+          update: parsedBody.data,
+          select: { cutoffHours: true, allowLateCancellation: true, lateCancelCharge: true, lateCancelTeacherPaid: true },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_UPDATE_CANCELLATION_POLICY',
+            entityType: 'CancellationPolicy',
+            entityId: actor.orgId,
+            meta: { before, after: saved },
+          },
+        });
+
+        return saved;
+      });
+
+      return reply.send(policy);
+    },
+  );
+
+  const updateAttendancePolicyBodySchema = z.object({
+    confirmationGraceHours: z.number().int().min(0).max(168),
+    studentNoShowCharge: z.nativeEnum(SessionCharge),
+    studentNoShowTeacherPaid: z.boolean(),
+  });
+
+  fastify.get(
+    '/attendance-policy',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      return getAttendancePolicy(fastify.prisma, actor.orgId);
+    },
+  );
+
+  fastify.put(
+    '/attendance-policy',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedBody = updateAttendancePolicyBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const before = await getAttendancePolicy(fastify.prisma, actor.orgId);
+
+      const policy = await fastify.prisma.$transaction(async (tx) => {
+        const saved = await tx.attendancePolicy.upsert({
+          where: { orgId: actor.orgId },
+          create: { orgId: actor.orgId, ...parsedBody.data },
+          update: parsedBody.data,
+          select: { confirmationGraceHours: true, studentNoShowCharge: true, studentNoShowTeacherPaid: true },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_UPDATE_ATTENDANCE_POLICY',
+            entityType: 'AttendancePolicy',
+            entityId: actor.orgId,
+            meta: { before, after: saved },
+          },
+        });
+
+        return saved;
+      });
+
+      return reply.send(policy);
+    },
+  );
+
+  fastify.get(
+    '/balance-policy',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      return getBalancePolicy(fastify.prisma, actor.orgId);
+    },
+  );
+
+  fastify.put(
+    '/balance-policy',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedBody = updateBalancePolicyBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const before = await getBalancePolicy(fastify.prisma, actor.orgId);
+
+      const policy = await fastify.prisma.$transaction(async (tx) => {
+        const saved = await tx.balancePolicy.upsert({
+          where: { orgId: actor.orgId },
+          create: { orgId: actor.orgId, ...parsedBody.data },
+          update: parsedBody.data,
+          select: { lowBalanceUnits: true, blockScheduling: true, overdraftLimitUnits: true },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_UPDATE_BALANCE_POLICY',
+            entityType: 'BalancePolicy',
+            entityId: actor.orgId,
+            meta: { before, after: saved },
+          },
+        });
+
+        return saved;
+      });
+
+      return reply.send(policy);
+    },
+  );
+
+  fastify.get(
+    '/security-policy',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      return getSecurityPolicy(fastify.prisma, actor.orgId);
+    },
+  );
+
+  /** Admins without two-factor authentication stay signed in; they are asked to set it up at their next sign in. */
+  fastify.put(
+    '/security-policy',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedBody = updateSecurityPolicyBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const before = await getSecurityPolicy(fastify.prisma, actor.orgId);
+
+      const policy = await fastify.prisma.$transaction(async (tx) => {
+        const saved = await tx.securityPolicy.upsert({
+          where: { orgId: actor.orgId },
+          create: { orgId: actor.orgId, ...parsedBody.data },
+          update: parsedBody.data,
+          select: { requireAdminTwoFactor: true },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_UPDATE_SECURITY_POLICY',
+            entityType: 'SecurityPolicy',
+            entityId: actor.orgId,
+            meta: { before, after: saved },
+          },
+        });
+
+        return saved;
+      });
+
+      return reply.send(policy);
+    },
+  );
+
+  const optionalBrandingText = (max: number) =>
+    z
+      .string()
+      .trim()
+      .max(max)
+      .nullable()
+      .transform((value) => (value ? value : null));
+
+  const updateDocumentBrandingBodySchema = z.object({
+    headerName: optionalBrandingText(80),
+    contactLine: optionalBrandingText(160),
+    accentColor: z.string().regex(ACCENT_COLOR_PATTERN, 'Expected #RRGGBB'),
+    footerNote: optionalBrandingText(200),
+  });
+
+  fastify.get(
+    '/document-branding',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      return getDocumentBranding(fastify.prisma, actor.orgId);
+    },
+  );
+
+  fastify.put(
+    '/document-branding',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedBody = updateDocumentBrandingBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const before = await getDocumentBranding(fastify.prisma, actor.orgId);
+
+      const branding = await fastify.prisma.$transaction(async (tx) => {
+        const saved = await tx.documentBranding.upsert({
+          where: { orgId: actor.orgId },
+          create: { orgId: actor.orgId, ...parsedBody.data },
+          update: parsedBody.data,
+          select: { headerName: true, contactLine: true, accentColor: true, footerNote: true },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_UPDATE_DOCUMENT_BRANDING',
+            entityType: 'DocumentBranding',
+            entityId: actor.orgId,
+            meta: { before, after: saved },
+          },
+        });
+
+        return saved;
+      });
+
+      return reply.send(branding);
+    },
+  );
+
+  const updatePayrollSettingsBodySchema = z
+    .object({
+      timeZone: timeZoneSchema,
+      weekStartDay: z.number().int().min(1).max(7),
+      cadence: z.nativeEnum(PayrollCadence),
+      anchorDateLocal: isoDateSchema.nullable().default(null),
+    })
+    .refine((data) => data.anchorDateLocal === null || isoWeekday(data.anchorDateLocal) === data.weekStartDay, {
+      path: ['anchorDateLocal'],
+      message: '`anchorDateLocal` must fall on `weekStartDay`',
+    });
+
+  fastify.get(
+    '/payroll-settings',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      return getPayrollSettings(fastify.prisma, actor.orgId);
+    },
+  );
+
+  fastify.put(
+    '/payroll-settings',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedBody = updatePayrollSettingsBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const before = await getPayrollSettings(fastify.prisma, actor.orgId);
+
+      const settings = await fastify.prisma.$transaction(async (tx) => {
+        const saved = await tx.payrollSettings.upsert({
+          where: { orgId: actor.orgId },
+          create: { orgId: actor.orgId, ...parsedBody.data },
+          update: parsedBody.data,
+          select: { timeZone: true, weekStartDay: true, cadence: true, anchorDateLocal: true },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_UPDATE_PAYROLL_SETTINGS',
+            entityType: 'PayrollSettings',
+            entityId: actor.orgId,
+            meta: { before, after: saved },
+          },
+        });
+
+        return saved;
+      });
+
+      return reply.send(settings);
+    },
+  );
+
+  const listChangeRequestsQuerySchema = z.object({
+    status: z.nativeEnum(ChangeRequestStatus).optional(),
+  });
+
+  fastify.get(
+    '/change-requests',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedQuery = listChangeRequestsQuerySchema.safeParse(request.query);
+      if (!parsedQuery.success) return zodBadRequest(reply, parsedQuery.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const status = parsedQuery.data.status ?? ChangeRequestStatus.PENDING;
+
+      const changeRequests = await fastify.prisma.changeRequest.findMany({
+        where: {
+          status,
+          session: { student: { orgId: actor.orgId } },
+        },
+        orderBy: { createdAt: 'asc' },
+        select: {
+          id: true,
+          sessionId: true,
+          type: true,
+          status: true,
+          proposedStartAtUtc: true,
+          proposedEndAtUtc: true,
+          proposedTimeZone: true,
+          requestedByUserId: true,
+          decidedByAdminId: true,
+          createdAt: true,
+          updatedAt: true,
+          requestedByUser: {
+            select: {
+              role: true,
+              studentProfile: { select: { displayName: true } },
+              teacherProfile: { select: { displayName: true } },
+            },
+          },
+          session: {
+            select: {
+              teacherId: true,
+              studentId: true,
+              startAtUtc: true,
+              endAtUtc: true,
+              classTimeZone: true,
+              student: { select: { studentProfile: { select: { displayName: true } } } },
+              teacher: { select: { teacherProfile: { select: { displayName: true } } } },
+            },
+          },
+        },
+      });
+
+      return changeRequests.map((cr) => ({
+        id: cr.id,
+        sessionId: cr.sessionId,
+        type: cr.type,
+        status: cr.status,
+        proposedStartAtUtc: cr.proposedStartAtUtc?.toISOString() ?? null,
+        proposedEndAtUtc: cr.proposedEndAtUtc?.toISOString() ?? null,
+        proposedTimeZone: cr.proposedTimeZone ?? null,
+        requestedByUserId: cr.requestedByUserId,
+        requestedByRole: cr.requestedByUser.role,
+        requestedByName:
+          cr.requestedByUser.teacherProfile?.displayName ?? cr.requestedByUser.studentProfile?.displayName ?? null,
+        decidedByAdminId: cr.decidedByAdminId ?? null,
+        createdAt: cr.createdAt.toISOString(),
+        updatedAt: cr.updatedAt.toISOString(),
+        session: {
+          teacherId: cr.session.teacherId,
+          studentId: cr.session.studentId,
+          startAtUtc: cr.session.startAtUtc.toISOString(),
+          endAtUtc: cr.session.endAtUtc.toISOString(),
+          classTimeZone: cr.session.classTimeZone,
+          studentName: cr.session.student.studentProfile?.displayName ?? null,
+          teacherName: cr.session.teacher.teacherProfile?.displayName ?? null,
+        },
+      }));
+    },
+  );
+
+  const changeRequestParamsSchema = z.object({ id: z.string().min(1) });
+  const approveChangeRequestBodySchema = z.object({ overrideConflicts: z.boolean().default(false) });
+
+  fastify.post(
+    '/change-requests/:id/approve',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = changeRequestParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const parsedBody = approveChangeRequestBodySchema.safeParse(request.body ?? {});
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const changeRequest = await fastify.prisma.changeRequest.findUnique({
+        where: { id: parsedParams.data.id },
+        select: {
+          id: true,
+          type: true,
+          status: true,
+          sessionId: true,
+          proposedStartAtUtc: true,
+          proposedEndAtUtc: true,
+          proposedTimeZone: true,
+          requestedByUserId: true,
+          createdAt: true,
+          requestedByUser: { select: { role: true } },
+          session: {
+            select: {
+              id: true,
+              status: true,
+              startAtUtc: true,
+              endAtUtc: true,
+              classTimeZone: true,
+              teacherId: true,
+              studentId: true,
+              consumesUnits: true,
+              student: { select: { orgId: true } },
+            },
+          },
+        },
+      });
+
+      if (!changeRequest || changeRequest.session.student.orgId !== actor.orgId) {
+        return reply.code(404).send({ message: 'Change request not found' });
+      }
+
+      if (changeRequest.status !== ChangeRequestStatus.PENDING) {
+        return reply.code(409).send({ message: 'Change request is not pending' });
+      }
+
+      if (changeRequest.session.status !== SessionStatus.SCHEDULED) {
+        return reply.code(409).send({ message: 'Session is not schedulable' });
+      }
+
+      if (changeRequest.type === 'RESCHEDULE') {
+        if (!changeRequest.proposedStartAtUtc || !changeRequest.proposedEndAtUtc || !changeRequest.proposedTimeZone) {
+          return reply.code(400).send({ message: 'Missing proposed time fields' });
+        }
+      }
+
+      let overriddenConflicts: SessionConflict[] = [];
+      if (changeRequest.type === 'RESCHEDULE') {
+        const conflicts = await findSessionConflicts(fastify.prisma, {
+          teacherId: changeRequest.session.teacherId,
+          studentId: changeRequest.session.studentId,
+          startAtUtc: changeRequest.proposedStartAtUtc!,
+          endAtUtc: changeRequest.proposedEndAtUtc!,
+          excludeSessionIds: [changeRequest.sessionId],
+        });
+
+        if (conflicts.length > 0 && !parsedBody.data.overrideConflicts) {
+          return reply
+            .code(409)
+            .send({ message: conflictMessage(conflicts), conflictSessionId: conflicts[0]?.sessionId, conflicts });
+        }
+        overriddenConflicts = conflicts;
+      }
+      const overrideMeta = overriddenConflicts.length > 0 ? { overrideConflicts: true, overriddenConflicts } : {};
+
+      // Only student cancellations are subject to the org policy; lateness is judged by when the request was filed.
+      const policy = await getCancellationPolicy(fastify.prisma, actor.orgId);
+      const lateCancel =
+        changeRequest.type === 'CANCEL' &&
+        changeRequest.requestedByUser.role === UserRole.STUDENT &&
+        isPastCutoff(changeRequest.session.startAtUtc, cancellationCutoffMs(policy), changeRequest.createdAt)
+          ? {
+              charge: policy.lateCancelCharge,
+              chargedUnits: chargedUnits(policy.lateCancelCharge, changeRequest.session.consumesUnits),
+              teacherPaid: policy.lateCancelTeacherPaid,
+            }
+          : null;
+      const lateCancelMeta = lateCancel ? { lateCancel: { ...lateCancel, cutoffHours: policy.cutoffHours } } : {};
+
+      const { session: sessionBefore } = changeRequest;
+
+      const updated = await fastify.prisma.$transaction(async (tx) => {
+        const updatedChangeRequest = await tx.changeRequest.update({
+          where: { id: changeRequest.id },
+          data: {
+            status: ChangeRequestStatus.APPROVED,
+            decidedByAdminId: actor.id,
+          },
+        });
+
+        const updatedSession =
+          changeRequest.type === 'CANCEL'
+            ? await tx.session.update({
+                where: { id: changeRequest.sessionId },
+                data: {
+                  status: SessionStatus.CANCELLED,
+                  ...(lateCancel
+                    ? { lateCancelCharge: lateCancel.charge, teacherPaidOnCancel: lateCancel.teacherPaid }
+                    : {}),
+                },
+                select: { id: true, status: true, startAtUtc: true, endAtUtc: true, classTimeZone: true },
+              })
+            : await tx.session.update({
+                where: { id: changeRequest.sessionId },
+                data: {
+                  startAtUtc: changeRequest.proposedStartAtUtc!,
+                  endAtUtc: changeRequest.proposedEndAtUtc!,
+                  classTimeZone: changeRequest.proposedTimeZone!,
+                },
+                select: { id: true, status: true, startAtUtc: true, endAtUtc: true, classTimeZone: true },
+              });
+
+        if (lateCancel?.teacherPaid) {
+          await recordPayrollAdjustments(
+            tx,
+            [changeRequest.sessionId],
+            'Late cancellation approved after the payroll period was closed',
+          );
+        }
+
+        if (lateCancel && lateCancel.chargedUnits > 0) {
+          const entry = await tx.hourLedgerEntry.create({
+            data: {
+              studentId: sessionBefore.studentId,
+              teacherId: sessionBefore.teacherId,
+              deltaUnits: -lateCancel.chargedUnits,
+              reason: HourLedgerReason.LATE_CANCEL,
+              sessionId: sessionBefore.id,
+            },
+            select: { id: true },
+          });
+          await consumeHourLots(tx, entry.id);
+        }
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_APPROVE_CHANGE_REQUEST',
+            entityType: 'ChangeRequest',
+            entityId: updatedChangeRequest.id,
+            meta: {
+              type: updatedChangeRequest.type,
+              sessionId: updatedChangeRequest.sessionId,
+              requestedByUserId: updatedChangeRequest.requestedByUserId,
+              ...overrideMeta,
+              ...lateCancelMeta,
+            },
+          },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: changeRequest.type === 'CANCEL' ? 'ADMIN_CANCEL_SESSION' : 'ADMIN_RESCHEDULE_SESSION',
+            entityType: 'Session',
+            entityId: updatedSession.id,
+            meta: {
+              changeRequestId: updatedChangeRequest.id,
+              before: {
+                status: sessionBefore.status,
+                startAtUtc: sessionBefore.startAtUtc.toISOString(),
+                endAtUtc: sessionBefore.endAtUtc.toISOString(),
+                classTimeZone: sessionBefore.classTimeZone,
+              },
+              after: {
+                status: updatedSession.status,
+                startAtUtc: updatedSession.startAtUtc.toISOString(),
+                endAtUtc: updatedSession.endAtUtc.toISOString(),
+                classTimeZone: updatedSession.classTimeZone,
+              },
+              ...overrideMeta,
+              ...lateCancelMeta,
+            },
+          },
+        });
+
+        return { updatedChangeRequest, updatedSession };
+      });
+
+      return reply.send({
+        id: updated.updatedChangeRequest.id,
+        status: updated.updatedChangeRequest.status,
+        session: {
+          id: updated.updatedSession.id,
+          status: updated.updatedSession.status,
+          startAtUtc: updated.updatedSession.startAtUtc.toISOString(),
+          endAtUtc: updated.updatedSession.endAtUtc.toISOString(),
+          classTimeZone: updated.updatedSession.classTimeZone,
+        },
+        lateCancel,
+      });
+    },
+  );
+
+  fastify.post(
+    '/change-requests/:id/reject',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = changeRequestParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const changeRequest = await fastify.prisma.changeRequest.findUnique({
+        where: { id: parsedParams.data.id },
+        select: {
+          id: true,
+          status: true,
+          sessionId: true,
+          requestedByUserId: true,
+          session: { select: { student: { select: { orgId: true } } } },
+        },
+      });
+
+      if (!changeRequest || changeRequest.session.student.orgId !== actor.orgId) {
+        return reply.code(404).send({ message: 'Change request not found' });
+      }
+
+      if (changeRequest.status !== ChangeRequestStatus.PENDING) {
+        return reply.code(409).send({ message: 'Change request is not pending' });
+      }
+
+      const updated = await fastify.prisma.$transaction(async (tx) => {
+        const updatedChangeRequest = await tx.changeRequest.update({
+          where: { id: changeRequest.id },
+          data: { status: ChangeRequestStatus.REJECTED, decidedByAdminId: actor.id },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_REJECT_CHANGE_REQUEST',
+            entityType: 'ChangeRequest',
+            entityId: updatedChangeRequest.id,
+            meta: {
+              sessionId: updatedChangeRequest.sessionId,
+              requestedByUserId: updatedChangeRequest.requestedByUserId,
+            },
+          },
+        });
+
+        return updatedChangeRequest;
+      });
+
+      return reply.send({ id: updated.id, status: updated.status });
+    },
+  );
+
+  const listInvoicesQuerySchema = z.object({
+    studentId: z.string().min(1).optional(),
+    status: z.nativeEnum(InvoiceStatus).optional(),
+  });
+
+  const invoiceParamsSchema = z.object({ id: z.string().min(1) });
+
+  fastify.get('/invoices', { preHandler: fastify.requireRole([UserRole.ADMIN]) }, async (request, reply) => {
+    const parsedQuery = listInvoicesQuerySchema.safeParse(request.query);
+    if (!parsedQuery.success) return zodBadRequest(reply, parsedQuery.error);
+
+    const actor = await fastify.prisma.user.findUnique({
+      where: { id: request.user.userId },
+      select: { id: true, orgId: true },
+    });
+    if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+    const invoices = await fastify.prisma.invoice.findMany({
+      where: {
+        orgId: actor.orgId,
+        ...(parsedQuery.data.studentId ? { studentId: parsedQuery.data.studentId } : {}),
+        ...(parsedQuery.data.status ? { status: parsedQuery.data.status } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+      select: invoiceSelect,
+    });
+
+    return invoices.map(serializeInvoice);
+  });
+
+  fastify.post(
+    '/invoices/generate',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedBody = generateInvoicesBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const student = await fastify.prisma.user.findFirst({
+        where: { id: parsedBody.data.studentId, orgId: actor.orgId, role: UserRole.STUDENT },
+        select: { id: true, studentProfile: { select: { timeZone: true, billingMode: true } } },
+      });
+      if (!student?.studentProfile) return reply.code(404).send({ message: 'Student not found' });
+
+      const profile = student.studentProfile;
+      const { periodStart, periodEnd } = parsedBody.data;
+
+      const invoiceIds = await fastify.prisma.$transaction(async (tx) => {
+        const linesByCurrency = await collectInvoiceLines(tx, {
+          studentId: student.id,
+          billingMode: profile.billingMode,
+          timeZone: profile.timeZone,
+          periodStartLocal: periodStart,
+          periodEndLocal: periodEnd,
+        });
+
+        const currencies = Array.from(linesByCurrency.keys()).sort((a, b) => a.localeCompare(b));
+        const ids: string[] = [];
+
+        for (const currency of currencies) {
+          const lines = linesByCurrency.get(currency) ?? [];
+          const invoice = await tx.invoice.create({
+            data: {
+              orgId: actor.orgId,
+              studentId: student.id,
+              currency,
+              billingMode: profile.billingMode,
+              periodStartLocal: periodStart,
+              periodEndLocal: periodEnd,
+              totalCents: lines.reduce((sum, line) => sum + line.amountCents, 0),
+              createdByAdminId: actor.id,
+              lines: { create: lines },
+            },
+            select: { id: true, totalCents: true },
+          });
+
+          await tx.auditLog.create({
+            data: {
+              orgId: actor.orgId,
+              actorUserId: actor.id,
+              action: 'ADMIN_CREATE_INVOICE',
+              entityType: 'Invoice',
+              entityId: invoice.id,
+              meta: {
+                studentId: student.id,
+                currency,
+                billingMode: profile.billingMode,
+                periodStartLocal: periodStart,
+                periodEndLocal: periodEnd,
+                totalCents: invoice.totalCents,
+                linesCount: lines.length,
+              },
+            },
+          });
+
+          ids.push(invoice.id);
+        }
+
+        return ids;
+      });
+
+      if (invoiceIds.length === 0) return reply.code(409).send({ message: 'Nothing to invoice for this period' });
+
+      const invoices = await fastify.prisma.invoice.findMany({
+        where: { id: { in: invoiceIds } },
+        orderBy: { currency: 'asc' },
+        select: invoiceSelect,
+      });
+
+      return reply.code(201).send(invoices.map(serializeInvoice));
+    },
+  );
+
+  fastify.get('/invoices/:id', { preHandler: fastify.requireRole([UserRole.ADMIN]) }, async (request, reply) => {
+    const parsedParams = invoiceParamsSchema.safeParse(request.params);
+    if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+    const actor = await fastify.prisma.user.findUnique({
+      where: { id: request.user.userId },
+      select: { id: true, orgId: true },
+    });
+    if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+    const invoice = await fastify.prisma.invoice.findFirst({
+      where: { id: parsedParams.data.id, orgId: actor.orgId },
+      select: invoiceSelect,
+    });
+    if (!invoice) return reply.code(404).send({ message: 'Invoice not found' });
+
+    return serializeInvoice(invoice);
+  });
+
+  fastify.post(
+    '/invoices/:id/issue',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = invoiceParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const invoice = await fastify.prisma.invoice.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId },
+        select: { id: true, status: true },
+      });
+      if (!invoice) return reply.code(404).send({ message: 'Invoice not found' });
+      if (invoice.status !== InvoiceStatus.DRAFT) {
+        return reply.code(409).send({ message: 'Only draft invoices can be issued' });
+      }
+
+      const issued = await fastify.prisma.$transaction(async (tx) => {
+        const updated = await tx.invoice.updateMany({
+          where: { id: invoice.id, status: InvoiceStatus.DRAFT },
+          data: { status: InvoiceStatus.ISSUED, issuedAt: new Date() },
+        });
+        if (updated.count === 0) return null;
+
+        // Numbers are only taken at issue time so voided drafts never leave gaps in the sequence.
+        const org = await tx.organization.update({
+          where: { id: actor.orgId },
+          data: { nextInvoiceNumber: { increment: 1 } },
+          select: { nextInvoiceNumber: true },
+        });
+        const number = formatInvoiceNumber(org.nextInvoiceNumber - 1);
+        await tx.invoice.update({ where: { id: invoice.id }, data: { number } });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_ISSUE_INVOICE',
+            entityType: 'Invoice',
+            entityId: invoice.id,
+            meta: { number },
+          },
+        });
+
+        return tx.invoice.findUniqueOrThrow({ where: { id: invoice.id }, select: invoiceSelect });
+      });
+      if (!issued) return reply.code(409).send({ message: 'Only draft invoices can be issued' });
+
+      return reply.send(serializeInvoice(issued));
+    },
+  );
+
+  fastify.post(
+    '/invoices/:id/mark-paid',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = invoiceParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const invoice = await fastify.prisma.invoice.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId },
+        select: { id: true, number: true },
+      });
+      if (!invoice) return reply.code(404).send({ message: 'Invoice not found' });
+
+      const paid = await fastify.prisma.$transaction(async (tx) => {
+        const updated = await tx.invoice.updateMany({
+          where: { id: invoice.id, status: InvoiceStatus.ISSUED },
+          data: { status: InvoiceStatus.PAID, paidAt: new Date() },
+        });
+        if (updated.count === 0) return null;
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_MARK_INVOICE_PAID',
+            entityType: 'Invoice',
+            entityId: invoice.id,
+            meta: { number: invoice.number },
+          },
+        });
+
+        return tx.invoice.findUniqueOrThrow({ where: { id: invoice.id }, select: invoiceSelect });
+      });
+      if (!paid) return reply.code(409).send({ message: 'Only issued invoices can be marked paid' });
+
+      return reply.send(serializeInvoice(paid));
+    },
+  );
+
+  fastify.post(
+    '/invoices/:id/void',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = invoiceParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const invoice = await fastify.prisma.invoice.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId },
+        select: { id: true, number: true, status: true },
+      });
+      if (!invoice) return reply.code(404).send({ message: 'Invoice not found' });
+
+      const voided = await fastify.prisma.$transaction(async (tx) => {
+        // Paid invoices stay on record; voiding releases the lines so they can be billed again.
+        const updated = await tx.invoice.updateMany({
+          where: { id: invoice.id, status: { in: [InvoiceStatus.DRAFT, InvoiceStatus.ISSUED] } },
+          data: { status: InvoiceStatus.VOID, voidedAt: new Date() },
+        });
+        if (updated.count === 0) return null;
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_VOID_INVOICE',
+            entityType: 'Invoice',
+            entityId: invoice.id,
+            meta: { number: invoice.number, previousStatus: invoice.status },
+          },
+        });
+
+        return tx.invoice.findUniqueOrThrow({ where: { id: invoice.id }, select: invoiceSelect });
+      });
+      if (!voided) return reply.code(409).send({ message: 'Only draft or issued invoices can be voided' });
+
+      return reply.send(serializeInvoice(voided));
+    },
+  );
+
+  const listPaymentsQuerySchema = z.object({
+    studentId: z.string().min(1).optional(),
+    invoiceId: z.string().min(1).optional(),
+  });
+
+  fastify.get(
+    '/payments',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedQuery = listPaymentsQuerySchema.safeParse(request.query);
+      if (!parsedQuery.success) return zodBadRequest(reply, parsedQuery.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const payments = await fastify.prisma.payment.findMany({
+        where: {
+          orgId: actor.orgId,
+          ...(parsedQuery.data.studentId ? { studentId: parsedQuery.data.studentId } : {}),
+          ...(parsedQuery.data.invoiceId ? { invoiceId: parsedQuery.data.invoiceId } : {}),
+        },
+        orderBy: [{ receivedDate: 'desc' }, { createdAt: 'desc' }],
+        take: 200,
+        select: paymentSelect,
+      });
+
+      return payments.map(serializePayment);
+    },
+  );
+
+  fastify.post(
+    '/payments',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedBody = recordPaymentBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const body = parsedBody.data;
+
+      const student = await fastify.prisma.user.findFirst({
+        where: { id: body.studentId, orgId: actor.orgId, role: UserRole.STUDENT },
+        select: { id: true },
+      });
+      if (!student) return reply.code(404).send({ message: 'Student not found' });
+
+      let invoiceNumber: string | null = null;
+      if (body.invoiceId) {
+        const invoice = await fastify.prisma.invoice.findFirst({
+          where: { id: body.invoiceId, orgId: actor.orgId, studentId: student.id },
+          select: { number: true, currency: true, status: true },
+        });
+        if (!invoice) return reply.code(404).send({ message: 'Invoice not found' });
+        if (!PAYABLE_INVOICE_STATUSES.includes(invoice.status)) {
+          return reply.code(409).send({ message: 'Only issued or paid invoices can take payments' });
+        }
+        if (invoice.currency !== body.currency) {
+          return reply.code(400).send({ message: 'Payment currency must match the invoice currency' });
+        }
+        invoiceNumber = invoice.number;
+      }
+
+      if (body.ledgerEntryId) {
+        const purchase = await fastify.prisma.hourLedgerEntry.findFirst({
+          where: { id: body.ledgerEntryId, studentId: student.id, reason: HourLedgerReason.PURCHASE },
+          select: { currency: true },
+        });
+        if (!purchase) return reply.code(404).send({ message: 'Purchase not found' });
+        if (purchase.currency !== body.currency) {
+          return reply.code(400).send({ message: 'Payment currency must match the purchase currency' });
+        }
+      }
+
+      const payment = await fastify.prisma.$transaction(async (tx) => {
+        const created = await tx.payment.create({
+          data: {
+            orgId: actor.orgId,
+            studentId: student.id,
+            amountCents: body.amountCents,
+            currency: body.currency,
+            method: body.method,
+            reference: body.reference ?? null,
+            receivedDate: body.receivedDate,
+            note: body.note ?? null,
+            invoiceId: body.invoiceId ?? null,
+            ledgerEntryId: body.ledgerEntryId ?? null,
+            recordedByUserId: actor.id,
+          },
+          select: paymentSelect,
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_RECORD_PAYMENT',
+            entityType: 'Payment',
+            entityId: created.id,
+            meta: serializePayment(created),
+          },
+        });
+
+        if (created.invoiceId && (await settleInvoiceIfPaid(tx, created.invoiceId, new Date()))) {
+          await tx.auditLog.create({
+            data: {
+              orgId: actor.orgId,
+              actorUserId: actor.id,
+              action: 'ADMIN_MARK_INVOICE_PAID',
+              entityType: 'Invoice',
+              entityId: created.invoiceId,
+              meta: { number: invoiceNumber, paymentId: created.id },
+            },
+          });
+        }
+
+        return created;
+      });
+
+      return reply.code(201).send(serializePayment(payment));
+    },
+  );
+
+  const importPaymentsBodySchema = z.object({
+    csv: z.string().min(1).max(1_000_000),
+  });
+
+  fastify.post(
+    '/payments/import',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedBody = importPaymentsBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const parsed = parseBankStatementCsv(parsedBody.data.csv);
+      if (parsed.errors.length > 0) {
+        return reply.code(400).send({ message: 'Invalid bank statement CSV', errors: parsed.errors });
+      }
+      if (parsed.rows.length === 0) return reply.code(400).send({ message: 'CSV has no incoming payments' });
+
+      const result = await fastify.prisma.$transaction(async (tx) => {
+        const imported = await importBankStatement(tx, {
+          orgId: actor.orgId,
+          recordedByUserId: actor.id,
+          rows: parsed.rows,
+          now: new Date(),
+        });
+
+        for (const match of imported.matched.filter((item) => item.settled)) {
+          await tx.auditLog.create({
+            data: {
+              orgId: actor.orgId,
+              actorUserId: actor.id,
+              action: 'ADMIN_MARK_INVOICE_PAID',
+              entityType: 'Invoice',
+              entityId: match.invoiceId,
+              meta: { number: match.invoiceNumber, paymentId: match.paymentId },
+            },
+          });
+        }
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_IMPORT_PAYMENTS',
+            entityType: 'Payment',
+            entityId: actor.orgId,
+            meta: {
+              rows: parsed.rows.length,
+              matched: imported.matched.length,
+              duplicates: imported.duplicates.length,
+              unmatched: imported.unmatched.length,
+            },
+          },
+        });
+
+        return imported;
+      });
+
+      return reply.send(result);
+    },
+  );
+
+  fastify.get(
+    '/payments/reconciliation',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedQuery = reconciliationQuerySchema.safeParse(request.query);
+      if (!parsedQuery.success) return zodBadRequest(reply, parsedQuery.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      return loadReconciliation(fastify.prisma, actor.orgId, parsedQuery.data.studentId);
+    },
+  );
+
+  const payrollRunParamsSchema = z.object({ id: z.string().min(1) });
+
+  fastify.get(
+    '/payroll-runs',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const runs = await fastify.prisma.payrollRun.findMany({
+        where: { orgId: actor.orgId },
+        orderBy: { periodStartUtc: 'desc' },
+        take: 200,
+        select: payrollRunSelect,
+      });
+
+      return runs.map(serializePayrollRun);
+    },
+  );
+
+  fastify.post(
+    '/payroll-runs',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedBody = payrollPeriodQuerySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const settings = await getPayrollSettings(fastify.prisma, actor.orgId);
+      const period = resolvePayrollPeriod(settings, parsedBody.data);
+      if (!period) return reply.code(400).send({ message: INVALID_PERIOD_START_MESSAGE });
+      if (period.periodEndUtc > new Date()) {
+        return reply.code(409).send({ message: 'Payroll period has not ended yet' });
+      }
+
+      const result = await fastify.prisma.$transaction(async (tx) => {
+        // Never pay a day twice, even when the periods do not line up.
+        const overlapping = await findOverlappingPayrollRun(tx, { orgId: actor.orgId, period });
+        if (overlapping) return { overlapping };
+
+        const runId = await closePayrollRun(tx, { orgId: actor.orgId, adminId: actor.id, period });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_CLOSE_PAYROLL_RUN',
+            entityType: 'PayrollRun',
+            entityId: runId,
+            meta: { periodStartLocal: period.periodStartLocal, periodEndLocal: period.periodEndLocal },
+          },
+        });
+
+        return { run: await tx.payrollRun.findUniqueOrThrow({ where: { id: runId }, select: payrollRunSelect }) };
+      });
+
+      if ('overlapping' in result) {
+        return reply.code(409).send({
+          message:
+            result.overlapping.periodStartLocal === period.periodStartLocal
+              ? 'Payroll period is already closed'
+              : 'Payroll period overlaps a closed period',
+        });
+      }
+
+      return reply.code(201).send(serializePayrollRun(result.run));
+    },
+  );
+
+  fastify.get(
+    '/payroll-runs/:id',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = payrollRunParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const run = await fastify.prisma.payrollRun.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId },
+        select: payrollRunSelect,
+      });
+      if (!run) return reply.code(404).send({ message: 'Payroll run not found' });
+
+      return serializePayrollRun(run);
+    },
+  );
+
+  fastify.post(
+    '/payroll-runs/:id/approve',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = payrollRunParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const run = await fastify.prisma.payrollRun.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId },
+        select: { id: true, periodStartLocal: true },
+      });
+      if (!run) return reply.code(404).send({ message: 'Payroll run not found' });
+
+      const approved = await fastify.prisma.$transaction(async (tx) => {
+        const updated = await tx.payrollRun.updateMany({
+          where: { id: run.id, status: PayrollRunStatus.CLOSED },
+          data: { status: PayrollRunStatus.APPROVED, approvedAt: new Date(), approvedByAdminId: actor.id },
+        });
+        if (updated.count === 0) return null;
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_APPROVE_PAYROLL_RUN',
+            entityType: 'PayrollRun',
+            entityId: run.id,
+            meta: { periodStartLocal: run.periodStartLocal },
+          },
+        });
+
+        return tx.payrollRun.findUniqueOrThrow({ where: { id: run.id }, select: payrollRunSelect });
+      });
+      if (!approved) return reply.code(409).send({ message: 'Only closed payroll runs can be approved' });
+
+      return reply.send(serializePayrollRun(approved));
+    },
+  );
+
+  fastify.post(
+    '/payroll-runs/:id/mark-paid',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = payrollRunParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const run = await fastify.prisma.payrollRun.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId },
+        select: { id: true, status: true, periodStartLocal: true },
+      });
+      if (!run) return reply.code(404).send({ message: 'Payroll run not found' });
+      if (run.status === PayrollRunStatus.CLOSED) {
+        return reply.code(409).send({ message: 'Payroll run must be approved before it is paid' });
+      }
+
+      const paid = await fastify.prisma.$transaction(async (tx) => {
+        const now = new Date();
+        if (run.status === PayrollRunStatus.APPROVED) {
+          const updated = await tx.payrollRun.updateMany({
+            where: { id: run.id, status: PayrollRunStatus.APPROVED },
+            data: { status: PayrollRunStatus.PAID, paidAt: now, paidByAdminId: actor.id },
+          });
+          if (updated.count === 0) return null;
+        }
+
+        // Adjustments recorded after a run was paid stay unpaid until the run is marked paid again.
+        const settled = await tx.payrollLine.updateMany({
+          where: { runId: run.id, paidAt: null },
+          data: { paidAt: now },
+        });
+        if (run.status === PayrollRunStatus.PAID && settled.count === 0) return null;
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_MARK_PAYROLL_RUN_PAID',
+            entityType: 'PayrollRun',
+            entityId: run.id,
+            meta: { periodStartLocal: run.periodStartLocal, previousStatus: run.status, settledLines: settled.count },
+          },
+        });
+
+        return tx.payrollRun.findUniqueOrThrow({ where: { id: run.id }, select: payrollRunSelect });
+      });
+      if (!paid) return reply.code(409).send({ message: 'Payroll run has nothing left to pay' });
+
+      return reply.send(serializePayrollRun(paid));
+    },
+  );
+
+  fastify.get(
+    '/payroll',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedQuery = payrollPeriodQuerySchema.safeParse(request.query);
+      if (!parsedQuery.success) return zodBadRequest(reply, parsedQuery.error);
+
+      const parsedCurrency = reportingCurrencyQuerySchema.safeParse(request.query);
+      if (!parsedCurrency.success) return zodBadRequest(reply, parsedCurrency.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const settings = await getPayrollSettings(fastify.prisma, actor.orgId);
+      const period = resolvePayrollPeriod(settings, parsedQuery.data);
+      if (!period) return reply.code(400).send({ message: INVALID_PERIOD_START_MESSAGE });
+
+      const { reportingCurrency } = parsedCurrency.data;
+      const fx = reportingCurrency
+        ? await loadFxConverter(fastify.prisma, {
+            orgId: actor.orgId,
+            currency: reportingCurrency,
+            timeZone: settings.timeZone,
+          })
+        : undefined;
+
+      const payroll = await computeOrgPayroll(fastify.prisma, { orgId: actor.orgId, period, fx });
+      const missingRates = fx?.missingRates() ?? [];
+      if (missingRates.length > 0) return reply.code(409).send({ message: missingRatesMessage(missingRates) });
+
+      return { ...payroll, cadence: settings.cadence };
+    },
+  );
+
+  const payrollSessionsQuerySchema = z.object({
+    teacherId: z.string().min(1).optional(),
   });
 
   fastify.get(
-    '/change-requests',
+    '/payroll/sessions',
     { preHandler: fastify.requireRole([UserRole.ADMIN]) },
     async (request, reply) => {
-      const parsedQuery = listChangeRequestsQuerySchema.safeParse(request.query);
+      const parsedPeriod = payrollPeriodQuerySchema.safeParse(request.query);
+      if (!parsedPeriod.success) return zodBadRequest(reply, parsedPeriod.error);
+
+      const parsedQuery = payrollSessionsQuerySchema.safeParse(request.query);
+      if (!parsedQuery.success) return zodBadRequest(reply, parsedQuery.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const settings = await getPayrollSettings(fastify.prisma, actor.orgId);
+      const period = resolvePayrollPeriod(settings, parsedPeriod.data);
+      if (!period) return reply.code(400).send({ message: INVALID_PERIOD_START_MESSAGE });
+
+      const { run, sessions } = await listPayrollSessions(fastify.prisma, {
+        orgId: actor.orgId,
+        period,
+        ...parsedQuery.data,
+      });
+
+      return {
+        periodStartLocal: period.periodStartLocal,
+        periodEndLocal: period.periodEndLocal,
+        timeZone: period.timeZone,
+        run,
+        sessions: sessions.map(serializePayrollSessionLine),
+      };
+    },
+  );
+
+  fastify.get(
+    '/payroll.csv',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedPeriod = payrollPeriodQuerySchema.safeParse(request.query);
+      if (!parsedPeriod.success) return zodBadRequest(reply, parsedPeriod.error);
+
+      const parsedQuery = payrollSessionsQuerySchema.safeParse(request.query);
+      if (!parsedQuery.success) return zodBadRequest(reply, parsedQuery.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const settings = await getPayrollSettings(fastify.prisma, actor.orgId);
+      const period = resolvePayrollPeriod(settings, parsedPeriod.data);
+      if (!period) return reply.code(400).send({ message: INVALID_PERIOD_START_MESSAGE });
+
+      const { sessions } = await listPayrollSessions(fastify.prisma, {
+        orgId: actor.orgId,
+        period,
+        ...parsedQuery.data,
+      });
+
+      return reply
+        .type('text/csv; charset=utf-8')
+        .header('content-disposition', `attachment; filename="payroll-${period.periodStartLocal}.csv"`)
+        .send(renderPayrollCsv(period, sessions));
+    },
+  );
+
+  fastify.get(
+    '/reports',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedQuery = reportQuerySchema.safeParse(request.query);
       if (!parsedQuery.success) return zodBadRequest(reply, parsedQuery.error);
 
       const actor = await fastify.prisma.user.findUnique({
@@ -1065,208 +4444,306 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
       });
       if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
 
-      const status = parsedQuery.data.status ?? ChangeRequestStatus.PENDING;
+      const { reportingCurrency } = parsedQuery.data;
+      const fx = reportingCurrency
+        ? await loadFxConverter(fastify.prisma, {
+            orgId: actor.orgId,
+            currency: reportingCurrency,
+            timeZone: (await getPayrollSettings(fastify.prisma, actor.orgId)).timeZone,
+          })
+        : undefined;
+
+      const report = await computeRevenueReport(fastify.prisma, { orgId: actor.orgId, ...parsedQuery.data, fx });
+      const missingRates = fx?.missingRates() ?? [];
+      if (missingRates.length > 0) return reply.code(409).send({ message: missingRatesMessage(missingRates) });
+
+      return report;
+    },
+  );
+
+  fastify.get('/packages', { preHandler: fastify.requireRole([UserRole.ADMIN]) }, async (request, reply) => {
+    const actor = await fastify.prisma.user.findUnique({
+      where: { id: request.user.userId },
+      select: { id: true, orgId: true },
+    });
+    if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+    const packages = await fastify.prisma.hourPackage.findMany({
+      where: { orgId: actor.orgId },
+      orderBy: [{ active: 'desc' }, { name: 'asc' }],
+      select: hourPackageSelect,
+    });
+
+    return packages.map(serializeHourPackage);
+  });
+
+  fastify.post('/packages', { preHandler: fastify.requireRole([UserRole.ADMIN]) }, async (request, reply) => {
+    const parsedBody = createHourPackageBodySchema.safeParse(request.body);
+    if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+    const actor = await fastify.prisma.user.findUnique({
+      where: { id: request.user.userId },
+      select: { id: true, orgId: true },
+    });
+    if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+    const created = await fastify.prisma.$transaction(async (tx) => {
+      const hourPackage = await tx.hourPackage.create({
+        data: {
+          orgId: actor.orgId,
+          name: parsedBody.data.name,
+          subject: parsedBody.data.subject ?? null,
+          units: parsedBody.data.units,
+          priceCents: parsedBody.data.priceCents,
+          currency: parsedBody.data.currency,
+          validityMonths: parsedBody.data.validityMonths ?? null,
+        },
+        select: hourPackageSelect,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          orgId: actor.orgId,
+          actorUserId: actor.id,
+          action: 'ADMIN_CREATE_HOUR_PACKAGE',
+          entityType: 'HourPackage',
+          entityId: hourPackage.id,
+          meta: serializeHourPackage(hourPackage),
+        },
+      });
+
+      return hourPackage;
+    });
+
+    return reply.code(201).send(serializeHourPackage(created));
+  });
+
+  const hourPackageParamsSchema = z.object({ id: z.string().min(1) });
+
+  fastify.put(
+    '/packages/:id',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedParams = hourPackageParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const parsedBody = updateHourPackageBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const existing = await fastify.prisma.hourPackage.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId },
+        select: hourPackageSelect,
+      });
+      if (!existing) return reply.code(404).send({ message: 'Package not found' });
 
-      const changeRequests = await fastify.prisma.changeRequest.findMany({
-        where: {
-          status,
-          session: { student: { orgId: actor.orgId } },
-        },
-        orderBy: { createdAt: 'asc' },
-        select: {
-          id: true,
-          sessionId: true,
-          type: true,
-          status: true,
-          proposedStartAtUtc: true,
-          proposedEndAtUtc: true,
-          proposedTimeZone: true,
-          requestedByUserId: true,
-          decidedByAdminId: true,
-          createdAt: true,
-          updatedAt: true,
-          session: {
-            select: {
-              startAtUtc: true,
-              endAtUtc: true,
-              classTimeZone: true,
-              student: { select: { studentProfile: { select: { displayName: true } } } },
-              teacher: { select: { teacherProfile: { select: { displayName: true } } } },
-            },
+      const { name, subject, units, priceCents, currency, validityMonths, active } = parsedBody.data;
+
+      // Lots already sold keep the terms they were sold with; only future sales see these changes.
+      const updated = await fastify.prisma.$transaction(async (tx) => {
+        const hourPackage = await tx.hourPackage.update({
+          where: { id: existing.id },
+          data: {
+            ...(name !== undefined ? { name } : {}),
+            ...(subject !== undefined ? { subject } : {}),
+            ...(units !== undefined ? { units } : {}),
+            ...(priceCents !== undefined ? { priceCents } : {}),
+            ...(currency !== undefined ? { currency } : {}),
+            ...(validityMonths !== undefined ? { validityMonths } : {}),
+            ...(active !== undefined ? { active } : {}),
           },
-        },
+          select: hourPackageSelect,
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_UPDATE_HOUR_PACKAGE',
+            entityType: 'HourPackage',
+            entityId: hourPackage.id,
+            meta: { before: serializeHourPackage(existing), after: serializeHourPackage(hourPackage) },
+          },
+        });
+
+        return hourPackage;
       });
 
-      return changeRequests.map((cr) => ({
-        id: cr.id,
-        sessionId: cr.sessionId,
-        type: cr.type,
-        status: cr.status,
-        proposedStartAtUtc: cr.proposedStartAtUtc?.toISOString() ?? null,
-        proposedEndAtUtc: cr.proposedEndAtUtc?.toISOString() ?? null,
-        proposedTimeZone: cr.proposedTimeZone ?? null,
-        requestedByUserId: cr.requestedByUserId,
-        decidedByAdminId: cr.decidedByAdminId ?? null,
-        createdAt: cr.createdAt.toISOString(),
-        updatedAt: cr.updatedAt.toISOString(),
-        session: {
-          startAtUtc: cr.session.startAtUtc.toISOString(),
-          endAtUtc: cr.session.endAtUtc.toISOString(),
-          classTimeZone: cr.session.classTimeZone,
-          studentName: cr.session.student.studentProfile?.displayName ?? null,
-          teacherName: cr.session.teacher.teacherProfile?.displayName ?? null,
-        },
-      }));
+      return reply.send(serializeHourPackage(updated));
     },
   );
 
-  const changeRequestParamsSchema = z.object({ id: z.string().min(1) });
+  fastify.get(
+    '/exchange-rates',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
 
-  fastify.post(
-    '/change-requests/:id/approve',
+      const [baseCurrency, rates] = await Promise.all([
+        getBaseCurrency(fastify.prisma, actor.orgId),
+        fastify.prisma.exchangeRate.findMany({
+          where: { orgId: actor.orgId },
+          orderBy: [{ effectiveDate: 'desc' }, { fromCurrency: 'asc' }, { toCurrency: 'asc' }],
+          take: 500,
+          select: exchangeRateSelect,
+        }),
+      ]);
+
+      return { baseCurrency, rates: rates.map(serializeExchangeRate) };
+    },
+  );
+
+  const updateBaseCurrencyBodySchema = z.object({
+    baseCurrency: z.nativeEnum(Currency),
+  });
+
+  fastify.put(
+    '/exchange-rates/base-currency',
     { preHandler: fastify.requireRole([UserRole.ADMIN]) },
     async (request, reply) => {
-      const parsedParams = changeRequestParamsSchema.safeParse(request.params);
-      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+      const parsedBody = updateBaseCurrencyBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
 
       const actor = await fastify.prisma.user.findUnique({
         where: { id: request.user.userId },
-        select: { id: true, orgId: true },
+        select: { id: true, orgId: true, organization: { select: { baseCurrency: true } } },
       });
       if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
 
-      const changeRequest = await fastify.prisma.changeRequest.findUnique({
-        where: { id: parsedParams.data.id },
-        select: {
-          id: true,
-          type: true,
-          status: true,
-          sessionId: true,
-          proposedStartAtUtc: true,
-          proposedEndAtUtc: true,
-          proposedTimeZone: true,
-          requestedByUserId: true,
-          session: {
-            select: {
-              id: true,
-              status: true,
-              startAtUtc: true,
-              endAtUtc: true,
-              classTimeZone: true,
-              student: { select: { orgId: true } },
-            },
+      const baseCurrency = await fastify.prisma.$transaction(async (tx) => {
+        const org = await tx.organization.update({
+          where: { id: actor.orgId },
+          data: { baseCurrency: parsedBody.data.baseCurrency },
+          select: { baseCurrency: true },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'ADMIN_UPDATE_BASE_CURRENCY',
+            entityType: 'Organization',
+            entityId: actor.orgId,
+            meta: { before: actor.organization.baseCurrency, after: org.baseCurrency },
           },
-        },
-      });
+        });
 
-      if (!changeRequest || changeRequest.session.student.orgId !== actor.orgId) {
-        return reply.code(404).send({ message: 'Change request not found' });
-      }
+        return org.baseCurrency;
+      });
 
-      if (changeRequest.status !== ChangeRequestStatus.PENDING) {
-        return reply.code(409).send({ message: 'Change request is not pending' });
-      }
+      return reply.send({ baseCurrency });
+    },
+  );
 
-      if (changeRequest.session.status !== SessionStatus.SCHEDULED) {
-        return reply.code(409).send({ message: 'Session is not schedulable' });
-      }
+  fastify.put(
+    '/exchange-rates',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedBody = upsertExchangeRateBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
 
-      if (changeRequest.type === 'RESCHEDULE') {
-        if (!changeRequest.proposedStartAtUtc || !changeRequest.proposedEndAtUtc || !changeRequest.proposedTimeZone) {
-          return reply.code(400).send({ message: 'Missing proposed time fields' });
-        }
-      }
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
 
-      const { session: sessionBefore } = changeRequest;
+      const { fromCurrency, toCurrency, effectiveDate, rate } = parsedBody.data;
 
-      const updated = await fastify.prisma.$transaction(async (tx) => {
-        const updatedChangeRequest = await tx.changeRequest.update({
-          where: { id: changeRequest.id },
-          data: {
-            status: ChangeRequestStatus.APPROVED,
-            decidedByAdminId: actor.id,
+      const saved = await fastify.prisma.$transaction(async (tx) => {
+        const row = await tx.exchangeRate.upsert({
+          where: {
+            orgId_fromCurrency_toCurrency_effectiveDate: { orgId: actor.orgId, fromCurrency, toCurrency, effectiveDate },
           },
+          create: { orgId: actor.orgId, fromCurrency, toCurrency, effectiveDate, rate },
+          update: { rate },
+          select: exchangeRateSelect,
         });
 
-        const updatedSession =
-          changeRequest.type === 'CANCEL'
-            ? await tx.session.update({
-                where: { id: changeRequest.sessionId },
-                data: { status: SessionStatus.CANCELLED },
-                select: { id: true, status: true, startAtUtc: true, endAtUtc: true, classTimeZone: true },
-              })
-            : await tx.session.update({
-                where: { id: changeRequest.sessionId },
-                data: {
-                  startAtUtc: changeRequest.proposedStartAtUtc!,
-                  endAtUtc: changeRequest.proposedEndAtUtc!,
-                  classTimeZone: changeRequest.proposedTimeZone!,
-                },
-                select: { id: true, status: true, startAtUtc: true, endAtUtc: true, classTimeZone: true },
-              });
-
         await tx.auditLog.create({
           data: {
             orgId: actor.orgId,
             actorUserId: actor.id,
-            action: 'ADMIN_APPROVE_CHANGE_REQUEST',
-            entityType: 'ChangeRequest',
-            entityId: updatedChangeRequest.id,
-            meta: {
-              type: updatedChangeRequest.type,
-              sessionId: updatedChangeRequest.sessionId,
-              requestedByUserId: updatedChangeRequest.requestedByUserId,
-            },
+            action: 'ADMIN_UPSERT_EXCHANGE_RATE',
+            entityType: 'ExchangeRate',
+            entityId: row.id,
+            meta: { fromCurrency, toCurrency, effectiveDate, rate },
           },
         });
 
+        return row;
+      });
+
+      return reply.send(serializeExchangeRate(saved));
+    },
+  );
+
+  const importExchangeRatesBodySchema = z.object({
+    csv: z.string().min(1).max(1_000_000),
+  });
+
+  fastify.post(
+    '/exchange-rates/import',
+    { preHandler: fastify.requireRole([UserRole.ADMIN]) },
+    async (request, reply) => {
+      const parsedBody = importExchangeRatesBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const parsed = parseExchangeRateCsv(parsedBody.data.csv);
+      if (parsed.errors.length > 0) {
+        return reply.code(400).send({ message: 'Invalid exchange rate CSV', errors: parsed.errors });
+      }
+      if (parsed.rates.length === 0) return reply.code(400).send({ message: 'CSV has no exchange rates' });
+
+      await fastify.prisma.$transaction(async (tx) => {
+        for (const { fromCurrency, toCurrency, effectiveDate, rate } of parsed.rates) {
+          await tx.exchangeRate.upsert({
+            where: {
+              orgId_fromCurrency_toCurrency_effectiveDate: { orgId: actor.orgId, fromCurrency, toCurrency, effectiveDate },
+            },
+            create: { orgId: actor.orgId, fromCurrency, toCurrency, effectiveDate, rate },
+            update: { rate },
+          });
+        }
+
         await tx.auditLog.create({
           data: {
             orgId: actor.orgId,
             actorUserId: actor.id,
-            action: changeRequest.type === 'CANCEL' ? 'ADMIN_CANCEL_SESSION' : 'ADMIN_RESCHEDULE_SESSION',
-            entityType: 'Session',
-            entityId: updatedSession.id,
-            meta: {
-              changeRequestId: updatedChangeRequest.id,
-              before: {
-                status: sessionBefore.status,
-                startAtUtc: sessionBefore.startAtUtc.toISOString(),
-                endAtUtc: sessionBefore.endAtUtc.toISOString(),
-                classTimeZone: sessionBefore.classTimeZone,
-              },
-              after: {
-                status: updatedSession.status,
-                startAtUtc: updatedSession.startAtUtc.toISOString(),
-                endAtUtc: updatedSession.endAtUtc.toISOString(),
-                classTimeZone: updatedSession.classTimeZone,
-              },
-            },
+            action: 'ADMIN_IMPORT_EXCHANGE_RATES',
+            entityType: 'ExchangeRate',
+            entityId: actor.orgId,
+            meta: { count: parsed.rates.length },
           },
         });
-
-        return { updatedChangeRequest, updatedSession };
       });
 
-      return reply.send({
-        id: updated.updatedChangeRequest.id,
-        status: updated.updatedChangeRequest.status,
-        session: {
-          id: updated.updatedSession.id,
-          status: updated.updatedSession.status,
-          startAtUtc: updated.updatedSession.startAtUtc.toISOString(),
-          endAtUtc: updated.updatedSession.endAtUtc.toISOString(),
-          classTimeZone: updated.updatedSession.classTimeZone,
-        },
-      });
+      return reply.send({ imported: parsed.rates.length });
     },
   );
 
-  fastify.post(
-    '/change-requests/:id/reject',
+  const exchangeRateParamsSchema = z.object({ id: z.string().min(1) });
+
+  fastify.delete(
+    '/exchange-rates/:id',
     { preHandler: fastify.requireRole([UserRole.ADMIN]) },
     async (request, reply) => {
-      const parsedParams = changeRequestParamsSchema.safeParse(request.params);
+      const parsedParams = exchangeRateParamsSchema.safeParse(request.params);
       if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
 
       const actor = await fastify.prisma.user.findUnique({
@@ -1275,49 +4752,28 @@ const adminRoutes: FastifyPluginAsync = async (fastify) => {
       });
       if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
 
-      const changeRequest = await fastify.prisma.changeRequest.findUnique({
-        where: { id: parsedParams.data.id },
-        select: {
-          id: true,
-          status: true,
-          sessionId: true,
-          requestedByUserId: true,
-          session: { select: { student: { select: { orgId: true } } } },
-        },
+      const existing = await fastify.prisma.exchangeRate.findFirst({
+        where: { id: parsedParams.data.id, orgId: actor.orgId },
+        select: exchangeRateSelect,
       });
+      if (!existing) return reply.code(404).send({ message: 'Exchange rate not found' });
 
-      if (!changeRequest || changeRequest.session.student.orgId !== actor.orgId) {
-        return reply.code(404).send({ message: 'Change request not found' });
-      }
-
-      if (changeRequest.status !== ChangeRequestStatus.PENDING) {
-        return reply.code(409).send({ message: 'Change request is not pending' });
-      }
-
-      const updated = await fastify.prisma.$transaction(async (tx) => {
-        const updatedChangeRequest = await tx.changeRequest.update({
-          where: { id: changeRequest.id },
-          data: { status: ChangeRequestStatus.REJECTED, decidedByAdminId: actor.id },
-        });
+      await fastify.prisma.$transaction(async (tx) => {
+        await tx.exchangeRate.delete({ where: { id: existing.id } });
 
         await tx.auditLog.create({
           data: {
             orgId: actor.orgId,
             actorUserId: actor.id,
-            action: 'ADMIN_REJECT_CHANGE_REQUEST',
-            entityType: 'ChangeRequest',
-            entityId: updatedChangeRequest.id,
-            meta: {
-              sessionId: updatedChangeRequest.sessionId,
-              requestedByUserId: updatedChangeRequest.requestedByUserId,
-            },
+            action: 'ADMIN_DELETE_EXCHANGE_RATE',
+            entityType: 'ExchangeRate',
+            entityId: existing.id,
+            meta: serializeExchangeRate(existing),
           },
         });
-
-        return updatedChangeRequest;
       });
 
-      return reply.send({ id: updated.id, status: updated.status });
+      return reply.send({ ok: true });
     },
   );
 };
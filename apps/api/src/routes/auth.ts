@@ -1,13 +1,115 @@
-import type { FastifyPluginAsync } from 'fastify';
-import type { UserRole } from '@prisma/client';
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import {
+  AccountTokenPurpose,
+  AuthSessionRevokeReason,
+  LoginAttemptOutcome,
+  LoginCodeChannel,
+  LoginMethod,
+  UserStatus,
+  type Prisma,
+  type UserRole,
+} from '@prisma/client';
 
-import { verifyPassword } from '../lib/password.js';
+import {
+  appLink,
+  consumeAccountToken,
+  issueAccountToken,
+  PASSWORD_MIN_LENGTH,
+  passwordResetMail,
+} from '../lib/accountTokens.js';
+import {
+  createAuthSession,
+  findSessionIdByRefreshToken,
+  revokeAuthSessions,
+  rotateRefreshToken,
+  sessionClient,
+} from '../lib/authSessions.js';
+import {
+  lockoutRemainingSeconds,
+  loginClient,
+  recordFailedLoginAttempt,
+  recordLoginAttempt,
+  resetLoginFailures,
+} from '../lib/loginAttempts.js';
+import { issueLoginCode, LOGIN_CODE_LENGTH, loginCodeMail, loginCodeSms, verifyLoginCode } from '../lib/loginCodes.js';
+import { hashPassword, verifyPassword } from '../lib/password.js';
+import { normalizePhone } from '../lib/phone.js';
+import { isTwoFactorRequired } from '../lib/securityPolicy.js';
+import { TOTP_DIGITS } from '../lib/totp.js';
+import {
+  confirmTwoFactorEnrollment,
+  startTwoFactorEnrollment,
+  twoFactorSetupDetails,
+  useRecoveryCode,
+  verifyTotpCode,
+} from '../lib/twoFactor.js';
 
-type LoginBody = {
+/** Who is signing in: exactly one of `email` and `phone`. */
+type LoginIdentifier = {
+  email?: string;
+  phone?: string;
+};
+
+type LoginBody = LoginIdentifier & {
+  password: string;
+};
+
+type LoginCodeRequestBody = LoginIdentifier;
+
+type LoginCodeVerifyBody = LoginIdentifier & {
+  code: string;
+};
+
+/** What the attempt record says was tried: the email address or phone number typed in, and how. */
+type LoginAttemptInfo = {
+  identifier: string;
+  method: LoginMethod;
+};
+
+type TwoFactorChallengeBody = {
+  challengeToken: string;
+};
+
+/** Exactly one of an authenticator app `code` and a `recoveryCode`. */
+type TwoFactorVerifyBody = TwoFactorChallengeBody & {
+  code?: string;
+  recoveryCode?: string;
+};
+
+type TwoFactorSetupConfirmBody = TwoFactorChallengeBody & {
+  code: string;
+};
+
+type ForgotPasswordBody = {
   email: string;
+};
+
+type SetPasswordBody = {
+  token: string;
   password: string;
 };
 
+const loginIdentifierProperties = {
+  email: { type: 'string', minLength: 3 },
+  phone: { type: 'string', minLength: 5, maxLength: 32 },
+} as const;
+
+const loginIdentifierOneOf = [{ required: ['email'] }, { required: ['phone'] }];
+
+const challengeTokenProperty = { type: 'string', minLength: 1, maxLength: 2000 } as const;
+
+const totpCodeProperty = { type: 'string', pattern: `^\\d{${TOTP_DIGITS}}$` } as const;
+
+const setPasswordBodySchema = {
+  type: 'object',
+  required: ['token', 'password'],
+  additionalProperties: false,
+  properties: {
+    token: { type: 'string', minLength: 1, maxLength: 200 },
+    password: { type: 'string', minLength: PASSWORD_MIN_LENGTH, maxLength: 200 },
+  },
+} as const;
+
 function readIntEnv(varName: string, fallback: number): number {
   const raw = process.env[varName];
   if (!raw) return fallback;
@@ -18,6 +120,196 @@ function readIntEnv(varName: string, fallback: number): number {
 const authRoutes: FastifyPluginAsync = async (fastify) => {
   const loginRateLimitMax = readIntEnv('AUTH_LOGIN_RATE_LIMIT_MAX', 10);
   const loginRateLimitWindowMs = readIntEnv('AUTH_LOGIN_RATE_LIMIT_WINDOW_MS', 60_000);
+  const twoFactorChallengeTtlSeconds = readIntEnv('TWO_FACTOR_CHALLENGE_TTL_SECONDS', 5 * 60);
+
+  const signAccessToken = (user: { id: string; role: UserRole }, sessionId: string) =>
+    fastify.jwt.sign(
+      { tokenType: 'access', userId: user.id, role: user.role, sessionId },
+      { expiresIn: fastify.auth.accessTokenTtlSeconds },
+    );
+
+  const recordAttempt = (
+    request: FastifyRequest,
+    user: { id: string; orgId: string } | null,
+    attempt: LoginAttemptInfo & { outcome: LoginAttemptOutcome },
+  ) => recordLoginAttempt(fastify.prisma, { ...attempt, user, client: loginClient(request), now: new Date() });
+
+  /**
+   * Starts a session for the device behind the request: sets its refresh cookie and returns an access token. The
+   * account's failed attempts start counting from zero again.
+   */
+  const signIn = async (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    user: { id: string; orgId: string; role: UserRole },
+    attempt: LoginAttemptInfo,
+  ) => {
+    await resetLoginFailures(fastify.prisma, user.id);
+    await recordAttempt(request, user, { ...attempt, outcome: LoginAttemptOutcome.SUCCESS });
+
+    const { sessionId, refreshToken } = await createAuthSession(fastify.prisma, {
+      userId: user.id,
+      client: sessionClient(request),
+      ttlSeconds: fastify.auth.refreshTokenTtlSeconds,
+      now: new Date(),
+    });
+
+    reply.setCookie(fastify.auth.refreshCookieName, refreshToken, fastify.auth.refreshCookieOptions);
+    return signAccessToken(user, sessionId);
+  };
+
+  /** The active user an email address or phone number belongs to; phone numbers may be typed in any common form. */
+  const findLoginUser = async (identifier: LoginIdentifier) => {
+    let where: { email: string } | { phone: string };
+    if (identifier.email !== undefined) {
+      where = { email: identifier.email };
+    } else {
+      const phone = identifier.phone === undefined ? null : normalizePhone(identifier.phone);
+      if (!phone) return null;
+      where = { phone };
+    }
+
+    const user = await fastify.prisma.user.findUnique({
+      where,
+      select: {
+        id: true,
+        orgId: true,
+        email: true,
+        phone: true,
+        role: true,
+        status: true,
+        passwordHash: true,
+        lockedUntil: true,
+        organization: { select: { name: true } },
+      },
+    });
+    return user?.status === UserStatus.ACTIVE ? user : null;
+  };
+
+  /**
+   * Seconds until a locked account may try again, with the attempt recorded as LOCKED; 0 when it is not locked.
+   * Callers turn a locked account away before its password or code is even checked, so guessing cannot go on while
+   * it is locked.
+   */
+  const lockedAttemptSeconds = async (
+    request: FastifyRequest,
+    user: { id: string; orgId: string; lockedUntil: Date | null },
+    attempt: LoginAttemptInfo,
+  ): Promise<number> => {
+    const retryAfterSeconds = lockoutRemainingSeconds(user, new Date());
+    if (retryAfterSeconds > 0) {
+      await recordAttempt(request, user, { ...attempt, outcome: LoginAttemptOutcome.LOCKED });
+    }
+    return retryAfterSeconds;
+  };
+
+  /** Second steps have already proven the password, so a locked account is told when to try again. */
+  const sendLocked = (reply: FastifyReply, retryAfterSeconds: number) =>
+    reply
+      .code(429)
+      .header('retry-after', String(retryAfterSeconds))
+      .send({ message: 'Too many failed attempts, try again later', retryAfterSeconds });
+
+  /** Records a wrong password or code and counts it towards locking the account. */
+  const recordFailure = async (
+    request: FastifyRequest,
+    user: { id: string; orgId: string },
+    attempt: LoginAttemptInfo & { outcome: LoginAttemptOutcome },
+  ) => {
+    const { failedLoginCount, lockedUntil } = await recordFailedLoginAttempt(fastify.prisma, {
+      ...attempt,
+      user,
+      client: loginClient(request),
+      now: new Date(),
+    });
+    if (!lockedUntil) return;
+
+    request.log.warn({ userId: user.id, failedLoginCount }, 'account locked after failed sign-ins');
+    await fastify.prisma.auditLog.create({
+      data: {
+        orgId: user.orgId,
+        actorUserId: user.id,
+        action: 'USER_LOCKED_OUT',
+        entityType: 'User',
+        entityId: user.id,
+        meta: { method: attempt.method, failedLoginCount, lockedUntil: lockedUntil.toISOString() },
+      },
+    });
+  };
+
+  /**
+   * What a correct password or login code gets the user: an access token, unless the account has two-factor
+   * authentication on or the org's policy says it must be set up first. Then it is a short-lived challenge token to
+   * finish signing in with at `/auth/2fa/verify` or `/auth/2fa/setup`.
+   */
+  const passFirstFactor = async (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    user: { id: string; orgId: string; role: UserRole },
+    attempt: LoginAttemptInfo,
+  ) => {
+    const credential = await fastify.prisma.twoFactorCredential.findUnique({
+      where: { userId: user.id },
+      select: { confirmedAt: true },
+    });
+    let twoFactor: 'required' | 'setup' | null = null;
+    if (credential?.confirmedAt) twoFactor = 'required';
+    else if (await isTwoFactorRequired(fastify.prisma, user)) twoFactor = 'setup';
+
+    if (!twoFactor) return { accessToken: await signIn(request, reply, user, attempt) };
+
+    await recordAttempt(request, user, { ...attempt, outcome: LoginAttemptOutcome.TWO_FACTOR_CHALLENGE });
+    const challengeToken = fastify.jwt.sign(
+      { tokenType: 'two_factor', userId: user.id, role: user.role },
+      { expiresIn: twoFactorChallengeTtlSeconds },
+    );
+    return { twoFactor, challengeToken };
+  };
+
+  /** The active user a challenge token from `passFirstFactor` was issued to; null once it expired. */
+  const findChallengeUser = async (challengeToken: string) => {
+    let userId: string;
+    try {
+      const payload = fastify.jwt.verify<{ tokenType: string; userId: string }>(challengeToken);
+      if (payload.tokenType !== 'two_factor') return null;
+      userId = payload.userId;
+    } catch {
+      return null;
+    }
+
+    const user = await fastify.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        orgId: true,
+        email: true,
+        phone: true,
+        role: true,
+        status: true,
+        lockedUntil: true,
+        organization: { select: { name: true } },
+      },
+    });
+    return user?.status === UserStatus.ACTIVE ? user : null;
+  };
+
+  /** Second steps are recorded under the account's own address, as nothing was typed in to identify it. */
+  const twoFactorAttempt = (user: { id: string; email: string | null; phone: string | null }): LoginAttemptInfo => ({
+    identifier: user.email ?? user.phone ?? user.id,
+    method: LoginMethod.TWO_FACTOR,
+  });
+
+  const auditTwoFactor = (user: { id: string; orgId: string }, action: string, meta?: Prisma.InputJsonValue) =>
+    fastify.prisma.auditLog.create({
+      data: {
+        orgId: user.orgId,
+        actorUserId: user.id,
+        action,
+        entityType: 'User',
+        entityId: user.id,
+        ...(meta === undefined ? {} : { meta }),
+      },
+    });
 
   fastify.post<{ Body: LoginBody }>(
     '/login',
@@ -31,37 +323,289 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
       schema: {
         body: {
           type: 'object',
-          required: ['email', 'password'],
+          required: ['password'],
+          oneOf: loginIdentifierOneOf,
           additionalProperties: false,
           properties: {
-            email: { type: 'string', minLength: 3 },
+            ...loginIdentifierProperties,
             password: { type: 'string', minLength: 1 },
           },
         },
       },
     },
     async (request, reply) => {
-      const { email, password } = request.body;
+      const attempt = { identifier: request.body.email ?? request.body.phone ?? '', method: LoginMethod.PASSWORD };
+      const user = await findLoginUser(request.body);
+      if (!user) {
+        await recordAttempt(request, null, { ...attempt, outcome: LoginAttemptOutcome.UNKNOWN_ACCOUNT });
+        return reply.code(401).send({ message: 'Invalid credentials' });
+      }
 
-      const user = await fastify.prisma.user.findUnique({ where: { email } });
-      if (!user) return reply.code(401).send({ message: 'Invalid credentials' });
-      if (user.status !== 'ACTIVE') return reply.code(401).send({ message: 'Invalid credentials' });
+      // A locked account gets the same answer as a wrong password, so the lock does not give away that it exists.
+      if ((await lockedAttemptSeconds(request, user, attempt)) > 0) {
+        return reply.code(401).send({ message: 'Invalid credentials' });
+      }
+
+      const ok = verifyPassword(request.body.password, user.passwordHash);
+      if (!ok) {
+        await recordFailure(request, user, { ...attempt, outcome: LoginAttemptOutcome.INVALID_PASSWORD });
+        return reply.code(401).send({ message: 'Invalid credentials' });
+      }
+
+      return reply.send(await passFirstFactor(request, reply, user, attempt));
+    },
+  );
+
+  fastify.post<{ Body: LoginCodeRequestBody }>(
+    '/login-code',
+    {
+      config: {
+        rateLimit: {
+          max: loginRateLimitMax,
+          timeWindow: loginRateLimitWindowMs,
+        },
+      },
+      schema: {
+        body: {
+          type: 'object',
+          oneOf: loginIdentifierOneOf,
+          additionalProperties: false,
+          properties: loginIdentifierProperties,
+        },
+      },
+    },
+    async (request, reply) => {
+      const user = await findLoginUser(request.body);
+      const channel = request.body.phone !== undefined ? LoginCodeChannel.SMS : LoginCodeChannel.EMAIL;
+      const destination = channel === LoginCodeChannel.SMS ? user?.phone : user?.email;
 
-      const ok = verifyPassword(password, user.passwordHash);
-      if (!ok) return reply.code(401).send({ message: 'Invalid credentials' });
+      // The same answer whether or not the identifier has an account, so the endpoint cannot be used to probe for one.
+      if (!user || !destination) return reply.send({ ok: true });
 
-      const accessToken = fastify.jwt.sign(
-        { tokenType: 'access', userId: user.id, role: user.role },
-        { expiresIn: fastify.auth.accessTokenTtlSeconds },
+      const now = new Date();
+      const issued = await fastify.prisma.$transaction((tx) =>
+        issueLoginCode(tx, { userId: user.id, channel, destination, now }),
       );
+      if (issued.status === 'throttled') {
+        request.log.warn({ userId: user.id, channel }, 'login code throttled');
+        return reply.send({ ok: true });
+      }
+
+      const message = { to: destination, orgName: user.organization.name, code: issued.code, now };
+      try {
+        if (channel === LoginCodeChannel.SMS) {
+          await fastify.sms.send(loginCodeSms({ ...message, expiresAt: issued.expiresAt }));
+        } else {
+          await fastify.mailer.send(loginCodeMail({ ...message, expiresAt: issued.expiresAt }));
+        }
+      } catch (error) {
+        request.log.error({ err: error, channel }, 'login code delivery failed');
+      }
+
+      return reply.send({ ok: true });
+    },
+  );
 
-      const refreshToken = fastify.jwt.sign(
-        { tokenType: 'refresh', userId: user.id, role: user.role },
-        { expiresIn: fastify.auth.refreshTokenTtlSeconds },
+  fastify.post<{ Body: LoginCodeVerifyBody }>(
+    '/login-code/verify',
+    {
+      config: {
+        rateLimit: {
+          max: loginRateLimitMax,
+          timeWindow: loginRateLimitWindowMs,
+        },
+      },
+      schema: {
+        body: {
+          type: 'object',
+          required: ['code'],
+          oneOf: loginIdentifierOneOf,
+          additionalProperties: false,
+          properties: {
+            ...loginIdentifierProperties,
+            code: { type: 'string', pattern: `^\\d{${LOGIN_CODE_LENGTH}}$` },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const attempt = { identifier: request.body.email ?? request.body.phone ?? '', method: LoginMethod.LOGIN_CODE };
+      const user = await findLoginUser(request.body);
+      if (!user) {
+        await recordAttempt(request, null, { ...attempt, outcome: LoginAttemptOutcome.UNKNOWN_ACCOUNT });
+        return reply.code(401).send({ message: 'Invalid code' });
+      }
+
+      if ((await lockedAttemptSeconds(request, user, attempt)) > 0) {
+        return reply.code(401).send({ message: 'Invalid code' });
+      }
+
+      const channel = request.body.phone !== undefined ? LoginCodeChannel.SMS : LoginCodeChannel.EMAIL;
+      const ok = await fastify.prisma.$transaction((tx) =>
+        verifyLoginCode(tx, { userId: user.id, channel, code: request.body.code, now: new Date() }),
       );
+      if (!ok) {
+        await recordFailure(request, user, { ...attempt, outcome: LoginAttemptOutcome.INVALID_CODE });
+        return reply.code(401).send({ message: 'Invalid code' });
+      }
 
-      reply.setCookie(fastify.auth.refreshCookieName, refreshToken, fastify.auth.refreshCookieOptions);
-      return reply.send({ accessToken });
+      return reply.send(await passFirstFactor(request, reply, user, attempt));
+    },
+  );
+
+  fastify.post<{ Body: TwoFactorVerifyBody }>(
+    '/2fa/verify',
+    {
+      config: {
+        rateLimit: {
+          max: loginRateLimitMax,
+          timeWindow: loginRateLimitWindowMs,
+        },
+      },
+      schema: {
+        body: {
+          type: 'object',
+          required: ['challengeToken'],
+          oneOf: [{ required: ['code'] }, { required: ['recoveryCode'] }],
+          additionalProperties: false,
+          properties: {
+            challengeToken: challengeTokenProperty,
+            code: totpCodeProperty,
+            recoveryCode: { type: 'string', minLength: 1, maxLength: 40 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const user = await findChallengeUser(request.body.challengeToken);
+      if (!user) return reply.code(401).send({ message: 'Invalid or expired challenge' });
+
+      const attempt = twoFactorAttempt(user);
+      const retryAfterSeconds = await lockedAttemptSeconds(request, user, attempt);
+      if (retryAfterSeconds > 0) return sendLocked(reply, retryAfterSeconds);
+
+      const now = new Date();
+      const { code, recoveryCode } = request.body;
+      const method = code !== undefined ? 'totp' : 'recovery_code';
+      let ok = false;
+      if (code !== undefined) {
+        ok = await verifyTotpCode(fastify.prisma, { userId: user.id, code, now });
+      } else if (recoveryCode !== undefined) {
+        ok = await useRecoveryCode(fastify.prisma, { userId: user.id, code: recoveryCode, now });
+      }
+
+      if (!ok) {
+        await auditTwoFactor(user, 'USER_2FA_LOGIN_FAILED', { method });
+        await recordFailure(request, user, { ...attempt, outcome: LoginAttemptOutcome.INVALID_CODE });
+        return reply.code(401).send({ message: 'Invalid code' });
+      }
+
+      if (method === 'totp') {
+        await auditTwoFactor(user, 'USER_2FA_LOGIN', { method });
+        return reply.send({ accessToken: await signIn(request, reply, user, attempt) });
+      }
+
+      // A recovery code stands in for a lost phone, so the screen after it reminds the user how many are left.
+      const recoveryCodesRemaining = await fastify.prisma.recoveryCode.count({
+        where: { userId: user.id, usedAt: null },
+      });
+      await auditTwoFactor(user, 'USER_2FA_RECOVERY_CODE_USED', { remaining: recoveryCodesRemaining });
+      return reply.send({ accessToken: await signIn(request, reply, user, attempt), recoveryCodesRemaining });
+    },
+  );
+
+  /** For users the org's policy makes set up two-factor authentication before their first sign in with it. */
+  fastify.post<{ Body: TwoFactorChallengeBody }>(
+    '/2fa/setup',
+    {
+      config: {
+        rateLimit: {
+          max: loginRateLimitMax,
+          timeWindow: loginRateLimitWindowMs,
+        },
+      },
+      schema: {
+        body: {
+          type: 'object',
+          required: ['challengeToken'],
+          additionalProperties: false,
+          properties: { challengeToken: challengeTokenProperty },
+        },
+      },
+    },
+    async (request, reply) => {
+      const user = await findChallengeUser(request.body.challengeToken);
+      if (!user) return reply.code(401).send({ message: 'Invalid or expired challenge' });
+
+      const started = await fastify.prisma.$transaction((tx) => startTwoFactorEnrollment(tx, user.id));
+      if (!started) return reply.code(409).send({ message: 'Two-factor authentication is already enabled' });
+      await auditTwoFactor(user, 'USER_2FA_SETUP_STARTED');
+
+      return reply.send(
+        twoFactorSetupDetails({
+          secret: started.secret,
+          orgName: user.organization.name,
+          account: user.email ?? user.phone ?? user.id,
+        }),
+      );
+    },
+  );
+
+  fastify.post<{ Body: TwoFactorSetupConfirmBody }>(
+    '/2fa/setup/confirm',
+    {
+      config: {
+        rateLimit: {
+          max: loginRateLimitMax,
+          timeWindow: loginRateLimitWindowMs,
+        },
+      },
+      schema: {
+        body: {
+          type: 'object',
+          required: ['challengeToken', 'code'],
+          additionalProperties: false,
+          properties: {
+            challengeToken: challengeTokenProperty,
+            code: totpCodeProperty,
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const user = await findChallengeUser(request.body.challengeToken);
+      if (!user) return reply.code(401).send({ message: 'Invalid or expired challenge' });
+
+      const attempt = twoFactorAttempt(user);
+      const retryAfterSeconds = await lockedAttemptSeconds(request, user, attempt);
+      if (retryAfterSeconds > 0) return sendLocked(reply, retryAfterSeconds);
+
+      const recoveryCodes = await fastify.prisma.$transaction(async (tx) => {
+        const codes = await confirmTwoFactorEnrollment(tx, {
+          userId: user.id,
+          code: request.body.code,
+          now: new Date(),
+        });
+        if (!codes) return null;
+
+        await tx.auditLog.create({
+          data: {
+            orgId: user.orgId,
+            actorUserId: user.id,
+            action: 'USER_2FA_ENABLED',
+            entityType: 'User',
+            entityId: user.id,
+          },
+        });
+        return codes;
+      });
+      if (!recoveryCodes) {
+        await auditTwoFactor(user, 'USER_2FA_VERIFY_FAILED', { purpose: 'setup' });
+        await recordFailure(request, user, { ...attempt, outcome: LoginAttemptOutcome.INVALID_CODE });
+        return reply.code(400).send({ message: 'Invalid code' });
+      }
+
+      return reply.send({ accessToken: await signIn(request, reply, user, attempt), recoveryCodes });
     },
   );
 
@@ -69,35 +613,178 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
     const token = request.cookies[fastify.auth.refreshCookieName];
     if (!token) return reply.code(401).send({ message: 'Unauthorized' });
 
-    try {
-      const decoded = fastify.jwt.verify(token);
-      if (!decoded || typeof decoded !== 'object') return reply.code(401).send({ message: 'Unauthorized' });
+    const result = await rotateRefreshToken(fastify.prisma, {
+      token,
+      client: sessionClient(request),
+      ttlSeconds: fastify.auth.refreshTokenTtlSeconds,
+      now: new Date(),
+    });
 
-      const payload = decoded as { tokenType: string; userId: string; role: UserRole };
-      if (payload.tokenType !== 'refresh') return reply.code(401).send({ message: 'Unauthorized' });
-
-      const user = await fastify.prisma.user.findUnique({ where: { id: payload.userId } });
-      if (!user) return reply.code(401).send({ message: 'Unauthorized' });
-      if (user.status !== 'ACTIVE') return reply.code(401).send({ message: 'Unauthorized' });
+    if (result.status === 'invalid') {
+      reply.clearCookie(fastify.auth.refreshCookieName, fastify.auth.refreshCookieClearOptions);
+      return reply.code(401).send({ message: 'Unauthorized' });
+    }
 
-      const accessToken = fastify.jwt.sign(
-        { tokenType: 'access', userId: user.id, role: user.role },
-        { expiresIn: fastify.auth.accessTokenTtlSeconds },
-      );
+    const user = await fastify.prisma.user.findUnique({
+      where: { id: result.userId },
+      select: { id: true, orgId: true, role: true, status: true },
+    });
+    if (!user) return reply.code(401).send({ message: 'Unauthorized' });
 
-      const refreshToken = fastify.jwt.sign(
-        { tokenType: 'refresh', userId: user.id, role: user.role },
-        { expiresIn: fastify.auth.refreshTokenTtlSeconds },
-      );
+    if (result.status === 'reused') {
+      request.log.warn({ userId: user.id, sessionId: result.sessionId }, 'refresh token reuse, session revoked');
+      await fastify.prisma.auditLog.create({
+        data: {
+          orgId: user.orgId,
+          actorUserId: user.id,
+          action: 'USER_REFRESH_TOKEN_REUSED',
+          entityType: 'AuthSession',
+          entityId: result.sessionId,
+        },
+      });
+      reply.clearCookie(fastify.auth.refreshCookieName, fastify.auth.refreshCookieClearOptions);
+      return reply.code(401).send({ message: 'Unauthorized' });
+    }
 
-      reply.setCookie(fastify.auth.refreshCookieName, refreshToken, fastify.auth.refreshCookieOptions);
-      return reply.send({ accessToken });
-    } catch {
+    if (user.status !== UserStatus.ACTIVE) {
+      reply.clearCookie(fastify.auth.refreshCookieName, fastify.auth.refreshCookieClearOptions);
       return reply.code(401).send({ message: 'Unauthorized' });
     }
+
+    if (result.status === 'rotated') {
+      reply.setCookie(fastify.auth.refreshCookieName, result.refreshToken, fastify.auth.refreshCookieOptions);
+    }
+    return reply.send({ accessToken: signAccessToken(user, result.sessionId) });
   });
 
-  fastify.post('/logout', async (_request, reply) => {
+  /**
+   * Sets a new password for the user a single-use token was mailed to. Any other unused tokens of theirs are dropped,
+   * so an older reset link cannot undo the change, and every device they are signed in on is signed out.
+   */
+  const setPasswordWithToken = async (
+    body: SetPasswordBody,
+    purpose: AccountTokenPurpose,
+    action: string,
+  ): Promise<boolean> => {
+    const now = new Date();
+    return fastify.prisma.$transaction(async (tx) => {
+      const userId = await consumeAccountToken(tx, { token: body.token, purpose, now });
+      if (!userId) return false;
+
+      const user = await tx.user.findUnique({ where: { id: userId }, select: { id: true, orgId: true, status: true } });
+      if (!user || user.status !== UserStatus.ACTIVE) return false;
+
+      // A new password also lifts a lockout: whoever was guessing the old one has nothing left to guess.
+      await tx.user.update({
+        where: { id: user.id },
+        data: { passwordHash: hashPassword(body.password), failedLoginCount: 0, lockedUntil: null },
+      });
+      await tx.accountToken.deleteMany({ where: { userId: user.id, usedAt: null } });
+      await revokeAuthSessions(tx, {
+        where: { userId: user.id },
+        reason: AuthSessionRevokeReason.PASSWORD_CHANGED,
+        now,
+      });
+
+      await tx.auditLog.create({
+        data: { orgId: user.orgId, actorUserId: user.id, action, entityType: 'User', entityId: user.id },
+      });
+      return true;
+    });
+  };
+
+  fastify.post<{ Body: ForgotPasswordBody }>(
+    '/forgot-password',
+    {
+      config: {
+        rateLimit: {
+          max: loginRateLimitMax,
+          timeWindow: loginRateLimitWindowMs,
+        },
+      },
+      schema: {
+        body: {
+          type: 'object',
+          required: ['email'],
+          additionalProperties: false,
+          properties: {
+            email: { type: 'string', minLength: 3 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const user = await fastify.prisma.user.findUnique({
+        where: { email: request.body.email },
+        select: { id: true, email: true, role: true, status: true },
+      });
+
+      // The same answer whether or not the address has an account, so the endpoint cannot be used to probe for one.
+      if (!user?.email || user.status !== UserStatus.ACTIVE) return reply.send({ ok: true });
+
+      const { token, expiresAt } = await fastify.prisma.$transaction((tx) =>
+        issueAccountToken(tx, { userId: user.id, purpose: AccountTokenPurpose.PASSWORD_RESET, now: new Date() }),
+      );
+
+      try {
+        await fastify.mailer.send(
+          passwordResetMail({ to: user.email, link: appLink(user.role, '/reset-password', token), expiresAt }),
+        );
+      } catch (error) {
+        request.log.error({ err: error }, 'password reset mail failed');
+      }
+
+      return reply.send({ ok: true });
+    },
+  );
+
+  fastify.post<{ Body: SetPasswordBody }>(
+    '/reset-password',
+    {
+      config: {
+        rateLimit: {
+          max: loginRateLimitMax,
+          timeWindow: loginRateLimitWindowMs,
+        },
+      },
+      schema: { body: setPasswordBodySchema },
+    },
+    async (request, reply) => {
+      const ok = await setPasswordWithToken(request.body, AccountTokenPurpose.PASSWORD_RESET, 'USER_RESET_PASSWORD');
+      if (!ok) return reply.code(400).send({ message: 'Invalid or expired token' });
+      return reply.send({ ok: true });
+    },
+  );
+
+  fastify.post<{ Body: SetPasswordBody }>(
+    '/accept-invitation',
+    {
+      config: {
+        rateLimit: {
+          max: loginRateLimitMax,
+          timeWindow: loginRateLimitWindowMs,
+        },
+      },
+      schema: { body: setPasswordBodySchema },
+    },
+    async (request, reply) => {
+      const ok = await setPasswordWithToken(request.body, AccountTokenPurpose.INVITATION, 'USER_ACCEPT_INVITATION');
+      if (!ok) return reply.code(400).send({ message: 'Invalid or expired token' });
+      return reply.send({ ok: true });
+    },
+  );
+
+  fastify.post('/logout', async (request, reply) => {
+    const token = request.cookies[fastify.auth.refreshCookieName];
+    const sessionId = token ? await findSessionIdByRefreshToken(fastify.prisma, token) : null;
+    if (sessionId) {
+      await revokeAuthSessions(fastify.prisma, {
+        where: { id: sessionId },
+        reason: AuthSessionRevokeReason.LOGOUT,
+        now: new Date(),
+      });
+    }
+
     reply.clearCookie(fastify.auth.refreshCookieName, fastify.auth.refreshCookieClearOptions);
     return reply.send({ ok: true });
   });
@@ -1,6 +1,133 @@
-import type { FastifyPluginAsync } from 'fastify';
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import {
+  AccountTokenPurpose,
+  AuthSessionRevokeReason,
+  LoginAttemptOutcome,
+  LoginMethod,
+  type Prisma,
+} from '@prisma/client';
+
+import { PASSWORD_MIN_LENGTH } from '../lib/accountTokens.js';
+import { activeAuthSessionWhere, revokeAuthSessions } from '../lib/authSessions.js';
+import { lockoutRemainingSeconds, loginClient, recordFailedLoginAttempt } from '../lib/loginAttempts.js';
+import { hashPassword, verifyPassword } from '../lib/password.js';
+import { isTwoFactorRequired } from '../lib/securityPolicy.js';
+import { TOTP_DIGITS } from '../lib/totp.js';
+import {
+  confirmTwoFactorEnrollment,
+  getTwoFactorStatus,
+  removeTwoFactor,
+  replaceRecoveryCodes,
+  startTwoFactorEnrollment,
+  twoFactorSetupDetails,
+  verifyTotpCode,
+} from '../lib/twoFactor.js';
+
+type ChangePasswordBody = {
+  currentPassword: string;
+  newPassword: string;
+};
+
+type SessionParams = {
+  id: string;
+};
+
+type TwoFactorCodeBody = {
+  code: string;
+};
+
+type DisableTwoFactorBody = {
+  password: string;
+  code: string;
+};
+
+/** A signed-in user whose password or two-factor code is being checked. */
+type CheckedUser = {
+  id: string;
+  orgId: string;
+  email: string | null;
+  phone: string | null;
+  lockedUntil: Date | null;
+};
+
+const checkedUserSelect = { id: true, orgId: true, email: true, phone: true, lockedUntil: true } as const;
+
+const twoFactorCodeBodySchema = {
+  type: 'object',
+  required: ['code'],
+  additionalProperties: false,
+  properties: {
+    code: { type: 'string', pattern: `^\\d{${TOTP_DIGITS}}$` },
+  },
+} as const;
+
+function readIntEnv(varName: string, fallback: number): number {
+  const raw = process.env[varName];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : fallback;
+}
 
 const meRoutes: FastifyPluginAsync = async (fastify) => {
+  // Code checks made with an access token get the same limits as signing in, so a stolen token cannot be used to
+  // guess the code either.
+  const codeCheckRateLimit = {
+    rateLimit: {
+      max: readIntEnv('AUTH_LOGIN_RATE_LIMIT_MAX', 10),
+      timeWindow: readIntEnv('AUTH_LOGIN_RATE_LIMIT_WINDOW_MS', 60_000),
+    },
+  };
+
+  const auditTwoFactor = (user: { id: string; orgId: string }, action: string, meta?: Prisma.InputJsonValue) =>
+    fastify.prisma.auditLog.create({
+      data: {
+        orgId: user.orgId,
+        actorUserId: user.id,
+        action,
+        entityType: 'User',
+        entityId: user.id,
+        ...(meta === undefined ? {} : { meta }),
+      },
+    });
+
+  /** Turns a locked account away before anything is checked. Returns the sent reply, or null when it is not locked. */
+  const rejectIfLocked = (reply: FastifyReply, user: CheckedUser) => {
+    const retryAfterSeconds = lockoutRemainingSeconds(user, new Date());
+    if (retryAfterSeconds === 0) return null;
+
+    return reply
+      .code(429)
+      .header('retry-after', String(retryAfterSeconds))
+      .send({ message: 'Too many failed attempts, try again later', retryAfterSeconds });
+  };
+
+  /** Audits a failed check and counts it towards locking the account, as a failed sign in would be. */
+  const recordCheckFailure = async (
+    request: FastifyRequest,
+    user: CheckedUser,
+    check: { purpose: 'setup' | 'recovery_codes' | 'disable'; factor: 'password' | 'totp' },
+  ) => {
+    await auditTwoFactor(user, 'USER_2FA_VERIFY_FAILED', check);
+
+    const now = new Date();
+    const { failedLoginCount, lockedUntil } = await recordFailedLoginAttempt(fastify.prisma, {
+      user,
+      identifier: user.email ?? user.phone ?? user.id,
+      method: check.factor === 'password' ? LoginMethod.PASSWORD : LoginMethod.TWO_FACTOR,
+      outcome: check.factor === 'password' ? LoginAttemptOutcome.INVALID_PASSWORD : LoginAttemptOutcome.INVALID_CODE,
+      client: loginClient(request),
+      now,
+    });
+    if (!lockedUntil) return;
+
+    request.log.warn({ userId: user.id, failedLoginCount }, 'account locked after failed two-factor checks');
+    await auditTwoFactor(user, 'USER_LOCKED_OUT', {
+      method: LoginMethod.TWO_FACTOR,
+      failedLoginCount,
+      lockedUntil: lockedUntil.toISOString(),
+    });
+  };
+
   fastify.get(
     '/me',
     {
@@ -28,6 +155,347 @@ const meRoutes: FastifyPluginAsync = async (fastify) => {
       };
     },
   );
+
+  fastify.post<{ Body: ChangePasswordBody }>(
+    '/me/password',
+    {
+      preHandler: fastify.authenticate,
+      schema: {
+        body: {
+          type: 'object',
+          required: ['currentPassword', 'newPassword'],
+          additionalProperties: false,
+          properties: {
+            currentPassword: { type: 'string', minLength: 1 },
+            newPassword: { type: 'string', minLength: PASSWORD_MIN_LENGTH, maxLength: 200 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const user = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true, passwordHash: true },
+      });
+      if (!user) return reply.code(401).send({ message: 'Unauthorized' });
+
+      if (!verifyPassword(request.body.currentPassword, user.passwordHash)) {
+        return reply.code(400).send({ message: 'Current password is incorrect' });
+      }
+
+      await fastify.prisma.$transaction(async (tx) => {
+        await tx.user.update({
+          where: { id: user.id },
+          data: { passwordHash: hashPassword(request.body.newPassword) },
+        });
+        // A reset link requested before the change would otherwise still work afterwards.
+        await tx.accountToken.deleteMany({
+          where: { userId: user.id, purpose: AccountTokenPurpose.PASSWORD_RESET, usedAt: null },
+        });
+        // Other devices signed in with the old password; this one just proved it knows the new one.
+        await revokeAuthSessions(tx, {
+          where: { userId: user.id, ...(request.user.sessionId ? { id: { not: request.user.sessionId } } : {}) },
+          reason: AuthSessionRevokeReason.PASSWORD_CHANGED,
+          now: new Date(),
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: user.orgId,
+            actorUserId: user.id,
+            action: 'USER_CHANGE_PASSWORD',
+            entityType: 'User',
+            entityId: user.id,
+          },
+        });
+      });
+
+      return reply.send({ ok: true });
+    },
+  );
+
+  fastify.get(
+    '/me/sessions',
+    {
+      preHandler: fastify.authenticate,
+    },
+    async (request) => {
+      const sessions = await fastify.prisma.authSession.findMany({
+        where: { userId: request.user.userId, ...activeAuthSessionWhere(new Date()) },
+        select: { id: true, userAgent: true, ipAddress: true, createdAt: true, lastUsedAt: true },
+        orderBy: { lastUsedAt: 'desc' },
+      });
+
+      return sessions.map((session) => ({ ...session, current: session.id === request.user.sessionId }));
+    },
+  );
+
+  fastify.delete<{ Params: SessionParams }>(
+    '/me/sessions/:id',
+    {
+      preHandler: fastify.authenticate,
+    },
+    async (request, reply) => {
+      const user = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!user) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const revoked = await revokeAuthSessions(fastify.prisma, {
+        where: { id: request.params.id, userId: user.id },
+        reason: AuthSessionRevokeReason.USER_REVOKED,
+        now: new Date(),
+      });
+      if (revoked === 0) return reply.code(404).send({ message: 'Session not found' });
+
+      await fastify.prisma.auditLog.create({
+        data: {
+          orgId: user.orgId,
+          actorUserId: user.id,
+          action: 'USER_REVOKE_SESSION',
+          entityType: 'AuthSession',
+          entityId: request.params.id,
+        },
+      });
+
+      if (request.params.id === request.user.sessionId) {
+        reply.clearCookie(fastify.auth.refreshCookieName, fastify.auth.refreshCookieClearOptions);
+      }
+      return reply.send({ ok: true });
+    },
+  );
+
+  /** Signs out everywhere, this device included. */
+  fastify.post(
+    '/me/sessions/revoke-all',
+    {
+      preHandler: fastify.authenticate,
+    },
+    async (request, reply) => {
+      const user = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!user) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const revoked = await revokeAuthSessions(fastify.prisma, {
+        where: { userId: user.id },
+        reason: AuthSessionRevokeReason.SIGNED_OUT_EVERYWHERE,
+        now: new Date(),
+      });
+
+      await fastify.prisma.auditLog.create({
+        data: {
+          orgId: user.orgId,
+          actorUserId: user.id,
+          action: 'USER_SIGN_OUT_EVERYWHERE',
+          entityType: 'User',
+          entityId: user.id,
+          meta: { revoked },
+        },
+      });
+
+      reply.clearCookie(fastify.auth.refreshCookieName, fastify.auth.refreshCookieClearOptions);
+      return reply.send({ revoked });
+    },
+  );
+
+  fastify.get(
+    '/me/2fa',
+    {
+      preHandler: fastify.authenticate,
+    },
+    async (request, reply) => {
+      const user = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true, role: true },
+      });
+      if (!user) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const [status, required] = await Promise.all([
+        getTwoFactorStatus(fastify.prisma, user.id),
+        isTwoFactorRequired(fastify.prisma, user),
+      ]);
+      return { ...status, required };
+    },
+  );
+
+  /** Starts over with a new secret if an earlier set up was never confirmed. */
+  fastify.post(
+    '/me/2fa/setup',
+    {
+      preHandler: fastify.authenticate,
+    },
+    async (request, reply) => {
+      const user = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true, email: true, phone: true, organization: { select: { name: true } } },
+      });
+      if (!user) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const started = await fastify.prisma.$transaction((tx) => startTwoFactorEnrollment(tx, user.id));
+      if (!started) return reply.code(409).send({ message: 'Two-factor authentication is already enabled' });
+      await auditTwoFactor(user, 'USER_2FA_SETUP_STARTED');
+
+      return reply.send(
+        twoFactorSetupDetails({
+          secret: started.secret,
+          orgName: user.organization.name,
+          account: user.email ?? user.phone ?? user.id,
+        }),
+      );
+    },
+  );
+
+  fastify.post<{ Body: TwoFactorCodeBody }>(
+    '/me/2fa/confirm',
+    {
+      preHandler: fastify.authenticate,
+      config: codeCheckRateLimit,
+      schema: { body: twoFactorCodeBodySchema },
+    },
+    async (request, reply) => {
+      const user = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: checkedUserSelect,
+      });
+      if (!user) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const locked = rejectIfLocked(reply, user);
+      if (locked) return locked;
+
+      const recoveryCodes = await fastify.prisma.$transaction(async (tx) => {
+        const codes = await confirmTwoFactorEnrollment(tx, {
+          userId: user.id,
+          code: request.body.code,
+          now: new Date(),
+        });
+        if (!codes) return null;
+
+        await tx.auditLog.create({
+          data: {
+            orgId: user.orgId,
+            actorUserId: user.id,
+            action: 'USER_2FA_ENABLED',
+            entityType: 'User',
+            entityId: user.id,
+          },
+        });
+        return codes;
+      });
+      if (!recoveryCodes) {
+        await recordCheckFailure(request, user, { purpose: 'setup', factor: 'totp' });
+        return reply.code(400).send({ message: 'Invalid code' });
+      }
+
+      return reply.send({ recoveryCodes });
+    },
+  );
+
+  /** New recovery codes for when the old ones ran low or were lost; the old ones stop working. */
+  fastify.post<{ Body: TwoFactorCodeBody }>(
+    '/me/2fa/recovery-codes',
+    {
+      preHandler: fastify.authenticate,
+      config: codeCheckRateLimit,
+      schema: { body: twoFactorCodeBodySchema },
+    },
+    async (request, reply) => {
+      const user = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: checkedUserSelect,
+      });
+      if (!user) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const locked = rejectIfLocked(reply, user);
+      if (locked) return locked;
+
+      const recoveryCodes = await fastify.prisma.$transaction(async (tx) => {
+        const ok = await verifyTotpCode(tx, { userId: user.id, code: request.body.code, now: new Date() });
+        if (!ok) return null;
+
+        const codes = await replaceRecoveryCodes(tx, user.id);
+        await tx.auditLog.create({
+          data: {
+            orgId: user.orgId,
+            actorUserId: user.id,
+            action: 'USER_2FA_RECOVERY_CODES_REGENERATED',
+            entityType: 'User',
+            entityId: user.id,
+          },
+        });
+        return codes;
+      });
+      if (!recoveryCodes) {
+        await recordCheckFailure(request, user, { purpose: 'recovery_codes', factor: 'totp' });
+        return reply.code(400).send({ message: 'Invalid code' });
+      }
+
+      return reply.send({ recoveryCodes });
+    },
+  );
+
+  fastify.post<{ Body: DisableTwoFactorBody }>(
+    '/me/2fa/disable',
+    {
+      preHandler: fastify.authenticate,
+      config: codeCheckRateLimit,
+      schema: {
+        body: {
+          type: 'object',
+          required: ['password', 'code'],
+          additionalProperties: false,
+          properties: {
+            password: { type: 'string', minLength: 1 },
+            ...twoFactorCodeBodySchema.properties,
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const user = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { ...checkedUserSelect, role: true, passwordHash: true },
+      });
+      if (!user) return reply.code(401).send({ message: 'Unauthorized' });
+
+      if (await isTwoFactorRequired(fastify.prisma, user)) {
+        return reply.code(409).send({ message: 'Two-factor authentication is required by your organization' });
+      }
+
+      const locked = rejectIfLocked(reply, user);
+      if (locked) return locked;
+
+      if (!verifyPassword(request.body.password, user.passwordHash)) {
+        await recordCheckFailure(request, user, { purpose: 'disable', factor: 'password' });
+        return reply.code(400).send({ message: 'Current password is incorrect' });
+      }
+
+      const disabled = await fastify.prisma.$transaction(async (tx) => {
+        const ok = await verifyTotpCode(tx, { userId: user.id, code: request.body.code, now: new Date() });
+        if (!ok) return false;
+
+        await removeTwoFactor(tx, user.id);
+        await tx.auditLog.create({
+          data: {
+            orgId: user.orgId,
+            actorUserId: user.id,
+            action: 'USER_2FA_DISABLED',
+            entityType: 'User',
+            entityId: user.id,
+          },
+        });
+        return true;
+      });
+      if (!disabled) {
+        await recordCheckFailure(request, user, { purpose: 'disable', factor: 'totp' });
+        return reply.code(400).send({ message: 'Invalid code' });
+      }
+
+      return reply.send({ ok: true });
+    },
+  );
 };
 
 export default meRoutes;
@@ -1,7 +1,16 @@
 import type { FastifyPluginAsync, FastifyReply } from 'fastify';
-import { ChangeRequestStatus, SessionStatus, UserRole } from '@prisma/client';
+import { ChangeRequestStatus, InvoiceStatus, SessionStatus, UserRole } from '@prisma/client';
 import { z } from 'zod';
 
+import { getBalancePolicy, loadStudentBalance } from '../lib/balancePolicy.js';
+import { getDocumentBranding } from '../lib/branding.js';
+import { cancellationCutoffMs, getCancellationPolicy } from '../lib/cancellationPolicy.js';
+import { createChangeRequestBodySchema, isPastCutoff } from '../lib/changeRequests.js';
+import { loadStudentStatement, renderStudentStatementPdf, statementQuerySchema } from '../lib/documents.js';
+import { listStudentHourLots } from '../lib/hourPackages.js';
+import { invoiceSelect, serializeInvoice } from '../lib/invoices.js';
+import { homeworkItemSelect, loadSessionNotes, serializeHomeworkItem } from '../lib/sessionNotes.js';
+
 function zodBadRequest(reply: FastifyReply, error: z.ZodError) {
   return reply.code(400).send({
     message: 'Bad Request',
@@ -60,26 +69,6 @@ const studentRoutes: FastifyPluginAsync = async (fastify) => {
   });
 
   const createChangeRequestParamsSchema = z.object({ id: z.string().min(1) });
-  const createChangeRequestBodySchema = z
-    .union([
-      z.object({ type: z.literal('CANCEL') }),
-      z.object({
-        type: z.literal('RESCHEDULE'),
-        proposedStartAtUtc: z.coerce.date(),
-        proposedEndAtUtc: z.coerce.date(),
-        proposedTimeZone: z.string().min(1),
-      }),
-    ])
-    .superRefine((data, ctx) => {
-      if (data.type !== 'RESCHEDULE') return;
-      if (data.proposedEndAtUtc <= data.proposedStartAtUtc) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          path: ['proposedEndAtUtc'],
-          message: '`proposedEndAtUtc` must be after `proposedStartAtUtc`',
-        });
-      }
-    });
 
   fastify.post(
     '/sessions/:id/change-requests',
@@ -106,9 +95,9 @@ const studentRoutes: FastifyPluginAsync = async (fastify) => {
         return reply.code(409).send({ message: 'Session is not schedulable' });
       }
 
-      const nowUtc = new Date();
-      const cutoffUtc = new Date(session.startAtUtc.getTime() - 24 * 60 * 60 * 1000);
-      if (nowUtc > cutoffUtc) {
+      const policy = await getCancellationPolicy(fastify.prisma, actor.orgId);
+      const lateCancellation = isPastCutoff(session.startAtUtc, cancellationCutoffMs(policy), new Date());
+      if (lateCancellation && !(parsedBody.data.type === 'CANCEL' && policy.allowLateCancellation)) {
         return reply.code(403).send({ message: 'Forbidden' });
       }
 
@@ -145,6 +134,7 @@ const studentRoutes: FastifyPluginAsync = async (fastify) => {
               proposedStartAtUtc: created.proposedStartAtUtc?.toISOString() ?? null,
               proposedEndAtUtc: created.proposedEndAtUtc?.toISOString() ?? null,
               proposedTimeZone: created.proposedTimeZone ?? null,
+              lateCancellation,
             },
           },
         });
@@ -160,6 +150,7 @@ const studentRoutes: FastifyPluginAsync = async (fastify) => {
         proposedStartAtUtc: changeRequest.proposedStartAtUtc?.toISOString() ?? null,
         proposedEndAtUtc: changeRequest.proposedEndAtUtc?.toISOString() ?? null,
         proposedTimeZone: changeRequest.proposedTimeZone ?? null,
+        lateCancellation,
       });
     },
   );
@@ -196,6 +187,95 @@ const studentRoutes: FastifyPluginAsync = async (fastify) => {
     }));
   });
 
+  const sessionNotesParamsSchema = z.object({ id: z.string().min(1) });
+
+  fastify.get(
+    '/sessions/:id/notes',
+    { preHandler: fastify.requireRole([UserRole.STUDENT]) },
+    async (request, reply) => {
+      const parsedParams = sessionNotesParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const session = await fastify.prisma.session.findFirst({
+        where: { id: parsedParams.data.id, studentId: request.user.userId },
+        select: { id: true },
+      });
+      if (!session) return reply.code(404).send({ message: 'Session not found' });
+
+      return loadSessionNotes(fastify.prisma, session.id, { includePrivateNote: false });
+    },
+  );
+
+  const homeworkParamsSchema = z.object({ id: z.string().min(1) });
+  const updateHomeworkBodySchema = z.object({ completed: z.boolean() });
+
+  fastify.patch(
+    '/homework/:id',
+    { preHandler: fastify.requireRole([UserRole.STUDENT]) },
+    async (request, reply) => {
+      const parsedParams = homeworkParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const parsedBody = updateHomeworkBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const existing = await fastify.prisma.homeworkItem.findFirst({
+        where: { id: parsedParams.data.id, session: { studentId: actor.id } },
+        select: homeworkItemSelect,
+      });
+      if (!existing) return reply.code(404).send({ message: 'Homework not found' });
+
+      const { completed } = parsedBody.data;
+
+      const item = await fastify.prisma.$transaction(async (tx) => {
+        const updated = await tx.homeworkItem.update({
+          where: { id: existing.id },
+          data: { completedAt: completed ? (existing.completedAt ?? new Date()) : null },
+          select: homeworkItemSelect,
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'STUDENT_UPDATE_HOMEWORK',
+            entityType: 'HomeworkItem',
+            entityId: existing.id,
+            meta: {
+              sessionId: existing.sessionId,
+              before: { completed: existing.completedAt !== null },
+              after: { completed },
+            },
+          },
+        });
+
+        return updated;
+      });
+
+      return reply.send(serializeHomeworkItem(item));
+    },
+  );
+
+  fastify.get(
+    '/cancellation-policy',
+    { preHandler: fastify.requireRole([UserRole.STUDENT]) },
+    async (request, reply) => {
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      return getCancellationPolicy(fastify.prisma, actor.orgId);
+    },
+  );
+
   fastify.get('/hours', { preHandler: fastify.requireRole([UserRole.STUDENT]) }, async (request) => {
     const summary = await fastify.prisma.hourLedgerEntry.aggregate({
       where: { studentId: request.user.userId },
@@ -205,6 +285,23 @@ const studentRoutes: FastifyPluginAsync = async (fastify) => {
     return { remainingUnits: summary._sum.deltaUnits ?? 0 };
   });
 
+  fastify.get(
+    '/hours/balance',
+    { preHandler: fastify.requireRole([UserRole.STUDENT]) },
+    async (request, reply) => {
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const policy = await getBalancePolicy(fastify.prisma, actor.orgId);
+      const balance = await loadStudentBalance(fastify.prisma, { studentId: actor.id, policy });
+
+      return reply.send({ ...balance, policy });
+    },
+  );
+
   fastify.get(
     '/hours/by-teacher',
     { preHandler: fastify.requireRole([UserRole.STUDENT]) },
@@ -255,6 +352,60 @@ const studentRoutes: FastifyPluginAsync = async (fastify) => {
       return reply.send({ totalRemainingUnits, unassignedUnits, byTeacher });
     },
   );
+
+  fastify.get('/packages', { preHandler: fastify.requireRole([UserRole.STUDENT]) }, async (request) => {
+    return { lots: await listStudentHourLots(fastify.prisma, request.user.userId) };
+  });
+
+  fastify.get('/invoices', { preHandler: fastify.requireRole([UserRole.STUDENT]) }, async (request) => {
+    // Drafts are still being prepared by the admin and are not shown to students.
+    const invoices = await fastify.prisma.invoice.findMany({
+      where: { studentId: request.user.userId, status: { not: InvoiceStatus.DRAFT } },
+      orderBy: { issuedAt: 'desc' },
+      select: invoiceSelect,
+    });
+
+    return invoices.map(serializeInvoice);
+  });
+
+  fastify.get('/statement.pdf', { preHandler: fastify.requireRole([UserRole.STUDENT]) }, async (request, reply) => {
+    const parsedQuery = statementQuerySchema.safeParse(request.query);
+    if (!parsedQuery.success) return zodBadRequest(reply, parsedQuery.error);
+
+    const student = await fastify.prisma.user.findUnique({
+      where: { id: request.user.userId },
+      select: {
+        id: true,
+        orgId: true,
+        email: true,
+        organization: { select: { name: true } },
+        studentProfile: { select: { displayName: true, timeZone: true } },
+      },
+    });
+    if (!student?.studentProfile) return reply.code(401).send({ message: 'Unauthorized' });
+
+    const [statement, branding] = await Promise.all([
+      loadStudentStatement(fastify.prisma, {
+        studentId: student.id,
+        timeZone: student.studentProfile.timeZone,
+        fromLocal: parsedQuery.data.from,
+        toLocal: parsedQuery.data.to,
+      }),
+      getDocumentBranding(fastify.prisma, student.orgId),
+    ]);
+
+    const pdf = renderStudentStatementPdf({
+      orgName: student.organization.name,
+      branding,
+      studentName: student.studentProfile.displayName,
+      statement,
+    });
+
+    return reply
+      .type('application/pdf')
+      .header('content-disposition', `attachment; filename="statement-${statement.fromLocal}-${statement.toLocal}.pdf"`)
+      .send(pdf);
+  });
 };
 
 export default studentRoutes;
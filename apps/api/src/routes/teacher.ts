@@ -1,8 +1,33 @@
 import type { FastifyPluginAsync, FastifyReply } from 'fastify';
-import { SessionStatus, UserRole, type Currency } from '@prisma/client';
+import { AttendanceOutcome, ChangeRequestStatus, SessionStatus, UserRole } from '@prisma/client';
 import { z } from 'zod';
 
-import { isoDateAddDays, parseIsoDate, zonedTimeToUtc } from '../lib/timezone.js';
+import {
+  finalizableSessionSelect,
+  finalizeSession,
+  getAttendancePolicy,
+  OPEN_SESSION_STATUSES,
+} from '../lib/attendance.js';
+import {
+  dueDateLocalSchema,
+  homeworkItemSelect,
+  loadSessionNotes,
+  NOTE_MAX_LENGTH,
+  serializeHomeworkItem,
+} from '../lib/sessionNotes.js';
+import { getDocumentBranding } from '../lib/branding.js';
+import { createChangeRequestBodySchema, isPastCutoff, TEACHER_CHANGE_REQUEST_CUTOFF_MS } from '../lib/changeRequests.js';
+import { renderPayslipPdf } from '../lib/documents.js';
+import { loadFxConverter, missingRatesMessage, reportingCurrencyQuerySchema } from '../lib/fx.js';
+import { findOverlappingWindow, isValidWindowTime, loadTeacherAvailability, parseWindowMinutes } from '../lib/availability.js';
+import { computeTeacherPayroll } from '../lib/payroll.js';
+import {
+  getPayrollSettings,
+  INVALID_PERIOD_START_MESSAGE,
+  payrollPeriodQuerySchema,
+  resolvePayrollPeriod,
+} from '../lib/payrollSettings.js';
+import { parseIsoDate } from '../lib/timezone.js';
 
 function zodBadRequest(reply: FastifyReply, error: z.ZodError) {
   return reply.code(400).send({
@@ -24,40 +49,6 @@ const listSessionsQuerySchema = z
     message: '`to` must be after `from`',
   });
 
-const payrollQuerySchema = z
-  .object({
-    weekStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
-  })
-  .superRefine((data, ctx) => {
-    try {
-      const parts = parseIsoDate(data.weekStart);
-      const utc = new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
-      if (utc.getUTCDay() !== 1) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          path: ['weekStart'],
-          message: '`weekStart` must be a Monday (YYYY-MM-DD)',
-        });
-      }
-    } catch {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        path: ['weekStart'],
-        message: '`weekStart` must be a valid date (YYYY-MM-DD)',
-      });
-    }
-  });
-
-const PAYROLL_TIME_ZONE = 'Australia/Sydney';
-const MS_PER_HOUR = 60 * 60 * 1000;
-
-function prorateCents(durationMs: number, hourlyRateCents: number): number {
-  if (durationMs <= 0) return 0;
-  const numerator = BigInt(durationMs) * BigInt(hourlyRateCents);
-  const denominator = BigInt(MS_PER_HOUR);
-  return Number((numerator + denominator / 2n) / denominator);
-}
-
 const teacherRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get('/sessions', { preHandler: fastify.requireRole([UserRole.TEACHER]) }, async (request, reply) => {
     const parsedQuery = listSessionsQuerySchema.safeParse(request.query);
@@ -79,6 +70,8 @@ const teacherRoutes: FastifyPluginAsync = async (fastify) => {
         endAtUtc: true,
         classTimeZone: true,
         status: true,
+        attendance: true,
+        attendedMinutes: true,
         student: { select: { studentProfile: { select: { displayName: true } } } },
         teacher: { select: { teacherProfile: { select: { displayName: true } } } },
       },
@@ -90,125 +83,755 @@ const teacherRoutes: FastifyPluginAsync = async (fastify) => {
       endAtUtc: session.endAtUtc.toISOString(),
       classTimeZone: session.classTimeZone,
       status: session.status,
+      attendance: session.attendance ?? null,
+      attendedMinutes: session.attendedMinutes ?? null,
       studentName: session.student.studentProfile?.displayName ?? null,
       teacherName: session.teacher.teacherProfile?.displayName ?? null,
     }));
   });
 
+  const createChangeRequestParamsSchema = z.object({ id: z.string().min(1) });
+
+  const attendanceParamsSchema = z.object({ id: z.string().min(1) });
+
+  const recordAttendanceBodySchema = z
+    .object({
+      outcome: z.nativeEnum(AttendanceOutcome),
+      attendedMinutes: z.number().int().positive().optional(),
+    })
+    .refine((data) => data.outcome !== AttendanceOutcome.PARTIAL || data.attendedMinutes !== undefined, {
+      path: ['attendedMinutes'],
+      message: '`attendedMinutes` is required for PARTIAL attendance',
+    });
+
+  fastify.post(
+    '/sessions/:id/attendance',
+    { preHandler: fastify.requireRole([UserRole.TEACHER]) },
+    async (request, reply) => {
+      const parsedParams = attendanceParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const parsedBody = recordAttendanceBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const session = await fastify.prisma.session.findFirst({
+        where: { id: parsedParams.data.id, teacherId: actor.id },
+        select: finalizableSessionSelect,
+      });
+      if (!session) return reply.code(404).send({ message: 'Session not found' });
+
+      if (!OPEN_SESSION_STATUSES.includes(session.status)) {
+        return reply.code(409).send({ message: 'Attendance can no longer be changed' });
+      }
+
+      const now = new Date();
+      if (session.startAtUtc > now) {
+        return reply.code(409).send({ message: 'Session has not started yet' });
+      }
+
+      const { outcome } = parsedBody.data;
+      const scheduledMinutes = Math.round((session.endAtUtc.getTime() - session.startAtUtc.getTime()) / 60_000);
+      const attendedMinutes = outcome === AttendanceOutcome.PARTIAL ? parsedBody.data.attendedMinutes! : null;
+      if (attendedMinutes !== null && attendedMinutes >= scheduledMinutes) {
+        return reply.code(400).send({ message: '`attendedMinutes` must be less than the scheduled duration' });
+      }
+
+      const policy = await getAttendancePolicy(fastify.prisma, actor.orgId);
+
+      const result = await fastify.prisma.$transaction(async (tx) => {
+        const recorded = await tx.session.updateMany({
+          where: { id: session.id, status: session.status },
+          data: {
+            attendance: outcome,
+            attendedMinutes,
+            attendanceRecordedAt: now,
+            attendanceRecordedByUserId: actor.id,
+          },
+        });
+        if (recorded.count === 0) return null;
+
+        // Once the session is over there is nothing left to wait for, so it is completed straight away.
+        const completed =
+          session.endAtUtc <= now
+            ? await finalizeSession(tx, { ...session, attendance: outcome, attendedMinutes }, policy)
+            : false;
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'TEACHER_RECORD_ATTENDANCE',
+            entityType: 'Session',
+            entityId: session.id,
+            meta: {
+              outcome,
+              attendedMinutes,
+              before: { status: session.status, attendance: session.attendance, attendedMinutes: session.attendedMinutes },
+              completed,
+            },
+          },
+        });
+
+        return { completed };
+      });
+
+      if (!result) return reply.code(409).send({ message: 'Attendance can no longer be changed' });
+
+      return reply.send({
+        id: session.id,
+        status: result.completed ? SessionStatus.COMPLETED : session.status,
+        attendance: outcome,
+        attendedMinutes,
+      });
+    },
+  );
+
+  fastify.post(
+    '/sessions/:id/change-requests',
+    { preHandler: fastify.requireRole([UserRole.TEACHER]) },
+    async (request, reply) => {
+      const parsedParams = createChangeRequestParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const parsedBody = createChangeRequestBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const session = await fastify.prisma.session.findFirst({
+        where: { id: parsedParams.data.id, teacherId: request.user.userId },
+        select: { id: true, startAtUtc: true, status: true },
+      });
+      if (!session) return reply.code(404).send({ message: 'Session not found' });
+      if (session.status !== SessionStatus.SCHEDULED) {
+        return reply.code(409).send({ message: 'Session is not schedulable' });
+      }
+
+      if (isPastCutoff(session.startAtUtc, TEACHER_CHANGE_REQUEST_CUTOFF_MS, new Date())) {
+        return reply.code(403).send({ message: 'Forbidden' });
+      }
+
+      const existingPending = await fastify.prisma.changeRequest.findFirst({
+        where: { sessionId: session.id, status: ChangeRequestStatus.PENDING },
+        select: { id: true },
+      });
+      if (existingPending) {
+        return reply.code(409).send({ message: 'Pending change request already exists' });
+      }
+
+      const changeRequest = await fastify.prisma.$transaction(async (tx) => {
+        const created = await tx.changeRequest.create({
+          data: {
+            sessionId: session.id,
+            type: parsedBody.data.type,
+            proposedStartAtUtc: parsedBody.data.type === 'RESCHEDULE' ? parsedBody.data.proposedStartAtUtc : null,
+            proposedEndAtUtc: parsedBody.data.type === 'RESCHEDULE' ? parsedBody.data.proposedEndAtUtc : null,
+            proposedTimeZone: parsedBody.data.type === 'RESCHEDULE' ? parsedBody.data.proposedTimeZone : null,
+            requestedByUserId: request.user.userId,
+          },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'TEACHER_CREATE_CHANGE_REQUEST',
+            entityType: 'ChangeRequest',
+            entityId: created.id,
+            meta: {
+              sessionId: session.id,
+              type: created.type,
+              proposedStartAtUtc: created.proposedStartAtUtc?.toISOString() ?? null,
+              proposedEndAtUtc: created.proposedEndAtUtc?.toISOString() ?? null,
+              proposedTimeZone: created.proposedTimeZone ?? null,
+            },
+          },
+        });
+
+        return created;
+      });
+
+      return reply.code(201).send({
+        id: changeRequest.id,
+        sessionId: changeRequest.sessionId,
+        type: changeRequest.type,
+        status: changeRequest.status,
+        proposedStartAtUtc: changeRequest.proposedStartAtUtc?.toISOString() ?? null,
+        proposedEndAtUtc: changeRequest.proposedEndAtUtc?.toISOString() ?? null,
+        proposedTimeZone: changeRequest.proposedTimeZone ?? null,
+      });
+    },
+  );
+
+  const sessionNotesParamsSchema = z.object({ id: z.string().min(1) });
+
+  const updateSessionNotesBodySchema = z
+    .object({
+      privateNote: z.string().max(NOTE_MAX_LENGTH).nullable().optional(),
+      sharedSummary: z.string().max(NOTE_MAX_LENGTH).nullable().optional(),
+    })
+    .refine((data) => data.privateNote !== undefined || data.sharedSummary !== undefined, {
+      message: 'Nothing to update',
+    });
+
+  fastify.get(
+    '/sessions/:id/notes',
+    { preHandler: fastify.requireRole([UserRole.TEACHER]) },
+    async (request, reply) => {
+      const parsedParams = sessionNotesParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const session = await fastify.prisma.session.findFirst({
+        where: { id: parsedParams.data.id, teacherId: request.user.userId },
+        select: { id: true },
+      });
+      if (!session) return reply.code(404).send({ message: 'Session not found' });
+
+      return loadSessionNotes(fastify.prisma, session.id, { includePrivateNote: true });
+    },
+  );
+
+  fastify.put(
+    '/sessions/:id/notes',
+    { preHandler: fastify.requireRole([UserRole.TEACHER]) },
+    async (request, reply) => {
+      const parsedParams = sessionNotesParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const parsedBody = updateSessionNotesBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const session = await fastify.prisma.session.findFirst({
+        where: { id: parsedParams.data.id, teacherId: actor.id },
+        select: { id: true, note: { select: { privateNote: true, sharedSummary: true } } },
+      });
+      if (!session) return reply.code(404).send({ message: 'Session not found' });
+
+      const changes = {
+        ...(parsedBody.data.privateNote !== undefined ? { privateNote: parsedBody.data.privateNote || null } : {}),
+        ...(parsedBody.data.sharedSummary !== undefined ? { sharedSummary: parsedBody.data.sharedSummary || null } : {}),
+      };
+
+      await fastify.prisma.$transaction(async (tx) => {
+        await tx.sessionNote.upsert({
+          where: { sessionId: session.id },
+          create: { sessionId: session.id, ...changes, updatedByUserId: actor.id },
+          update: { ...changes, updatedByUserId: actor.id },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'TEACHER_UPDATE_SESSION_NOTES',
+            entityType: 'SessionNote',
+            entityId: session.id,
+            meta: {
+              before: {
+                privateNote: session.note?.privateNote ?? null,
+                sharedSummary: session.note?.sharedSummary ?? null,
+              },
+              after: changes,
+            },
+          },
+        });
+      });
+
+      return loadSessionNotes(fastify.prisma, session.id, { includePrivateNote: true });
+    },
+  );
+
+  const createHomeworkBodySchema = z.object({
+    title: z.string().trim().min(1).max(200),
+    description: z.string().trim().max(NOTE_MAX_LENGTH).optional(),
+    dueDateLocal: dueDateLocalSchema.optional(),
+  });
+
+  fastify.post(
+    '/sessions/:id/homework',
+    { preHandler: fastify.requireRole([UserRole.TEACHER]) },
+    async (request, reply) => {
+      const parsedParams = sessionNotesParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const parsedBody = createHomeworkBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const session = await fastify.prisma.session.findFirst({
+        where: { id: parsedParams.data.id, teacherId: actor.id },
+        select: { id: true },
+      });
+      if (!session) return reply.code(404).send({ message: 'Session not found' });
+
+      const item = await fastify.prisma.$transaction(async (tx) => {
+        const created = await tx.homeworkItem.create({
+          data: {
+            sessionId: session.id,
+            title: parsedBody.data.title,
+            description: parsedBody.data.description || null,
+            dueDateLocal: parsedBody.data.dueDateLocal ?? null,
+          },
+          select: homeworkItemSelect,
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'TEACHER_CREATE_HOMEWORK',
+            entityType: 'HomeworkItem',
+            entityId: created.id,
+            meta: {
+              sessionId: session.id,
+              title: created.title,
+              description: created.description,
+              dueDateLocal: created.dueDateLocal,
+            },
+          },
+        });
+
+        return created;
+      });
+
+      return reply.code(201).send(serializeHomeworkItem(item));
+    },
+  );
+
+  const homeworkParamsSchema = z.object({ id: z.string().min(1) });
+
+  const updateHomeworkBodySchema = z
+    .object({
+      title: z.string().trim().min(1).max(200).optional(),
+      description: z.string().trim().max(NOTE_MAX_LENGTH).nullable().optional(),
+      dueDateLocal: dueDateLocalSchema.nullable().optional(),
+      completed: z.boolean().optional(),
+    })
+    .refine((data) => Object.values(data).some((value) => value !== undefined), { message: 'Nothing to update' });
+
+  fastify.patch(
+    '/homework/:id',
+    { preHandler: fastify.requireRole([UserRole.TEACHER]) },
+    async (request, reply) => {
+      const parsedParams = homeworkParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const parsedBody = updateHomeworkBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const existing = await fastify.prisma.homeworkItem.findFirst({
+        where: { id: parsedParams.data.id, session: { teacherId: actor.id } },
+        select: homeworkItemSelect,
+      });
+      if (!existing) return reply.code(404).send({ message: 'Homework not found' });
+
+      const { title, description, dueDateLocal, completed } = parsedBody.data;
+      const changes = {
+        ...(title !== undefined ? { title } : {}),
+        ...(description !== undefined ? { description: description || null } : {}),
+        ...(dueDateLocal !== undefined ? { dueDateLocal } : {}),
+        ...(completed !== undefined ? { completedAt: completed ? (existing.completedAt ?? new Date()) : null } : {}),
+      };
+
+      const item = await fastify.prisma.$transaction(async (tx) => {
+        const updated = await tx.homeworkItem.update({
+          where: { id: existing.id },
+          data: changes,
+          select: homeworkItemSelect,
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'TEACHER_UPDATE_HOMEWORK',
+            entityType: 'HomeworkItem',
+            entityId: existing.id,
+            meta: {
+              sessionId: existing.sessionId,
+              before: {
+                title: existing.title,
+                description: existing.description,
+                dueDateLocal: existing.dueDateLocal,
+                completed: existing.completedAt !== null,
+              },
+              after: {
+                title: updated.title,
+                description: updated.description,
+                dueDateLocal: updated.dueDateLocal,
+                completed: updated.completedAt !== null,
+              },
+            },
+          },
+        });
+
+        return updated;
+      });
+
+      return reply.send(serializeHomeworkItem(item));
+    },
+  );
+
+  fastify.delete(
+    '/homework/:id',
+    { preHandler: fastify.requireRole([UserRole.TEACHER]) },
+    async (request, reply) => {
+      const parsedParams = homeworkParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const existing = await fastify.prisma.homeworkItem.findFirst({
+        where: { id: parsedParams.data.id, session: { teacherId: actor.id } },
+        select: { id: true, sessionId: true, title: true },
+      });
+      if (!existing) return reply.code(404).send({ message: 'Homework not found' });
+
+      await fastify.prisma.$transaction(async (tx) => {
+        await tx.homeworkItem.delete({ where: { id: existing.id } });
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'TEACHER_DELETE_HOMEWORK',
+            entityType: 'HomeworkItem',
+            entityId: existing.id,
+            meta: { sessionId: existing.sessionId, title: existing.title },
+          },
+        });
+      });
+
+      return reply.send({ ok: true });
+    },
+  );
+
+  fastify.get('/change-requests', { preHandler: fastify.requireRole([UserRole.TEACHER]) }, async (request) => {
+    const changeRequests = await fastify.prisma.changeRequest.findMany({
+      where: { requestedByUserId: request.user.userId },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        sessionId: true,
+        type: true,
+        status: true,
+        proposedStartAtUtc: true,
+        proposedEndAtUtc: true,
+        proposedTimeZone: true,
+        decidedByAdminId: true,
+        createdAt: true,
+        updatedAt: true,
+        session: {
+          select: {
+            startAtUtc: true,
+            endAtUtc: true,
+            classTimeZone: true,
+            student: { select: { studentProfile: { select: { displayName: true } } } },
+          },
+        },
+      },
+    });
+
+    return changeRequests.map((cr) => ({
+      id: cr.id,
+      sessionId: cr.sessionId,
+      type: cr.type,
+      status: cr.status,
+      proposedStartAtUtc: cr.proposedStartAtUtc?.toISOString() ?? null,
+      proposedEndAtUtc: cr.proposedEndAtUtc?.toISOString() ?? null,
+      proposedTimeZone: cr.proposedTimeZone ?? null,
+      decidedByAdminId: cr.decidedByAdminId ?? null,
+      createdAt: cr.createdAt.toISOString(),
+      updatedAt: cr.updatedAt.toISOString(),
+      session: {
+        startAtUtc: cr.session.startAtUtc.toISOString(),
+        endAtUtc: cr.session.endAtUtc.toISOString(),
+        classTimeZone: cr.session.classTimeZone,
+        studentName: cr.session.student.studentProfile?.displayName ?? null,
+      },
+    }));
+  });
+
   fastify.get('/payroll', { preHandler: fastify.requireRole([UserRole.TEACHER]) }, async (request, reply) => {
-    const parsedQuery = payrollQuerySchema.safeParse(request.query);
+    const parsedQuery = payrollPeriodQuerySchema.safeParse(request.query);
     if (!parsedQuery.success) return zodBadRequest(reply, parsedQuery.error);
 
-    const weekStartLocal = parsedQuery.data.weekStart;
-    const weekEndLocal = isoDateAddDays(weekStartLocal, 6);
-    const nextWeekStartLocal = isoDateAddDays(weekStartLocal, 7);
+    const parsedCurrency = reportingCurrencyQuerySchema.safeParse(request.query);
+    if (!parsedCurrency.success) return zodBadRequest(reply, parsedCurrency.error);
 
-    const weekStartParts = parseIsoDate(weekStartLocal);
-    const nextWeekStartParts = parseIsoDate(nextWeekStartLocal);
+    const actor = await fastify.prisma.user.findUnique({
+      where: { id: request.user.userId },
+      select: { id: true, orgId: true },
+    });
+    if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
 
-    const rangeStartUtc = zonedTimeToUtc(
-      { year: weekStartParts.year, month: weekStartParts.month, day: weekStartParts.day, hour: 0, minute: 0, second: 0 },
-      PAYROLL_TIME_ZONE,
-    );
-    const rangeEndUtcExclusive = zonedTimeToUtc(
-      {
-        year: nextWeekStartParts.year,
-        month: nextWeekStartParts.month,
-        day: nextWeekStartParts.day,
-        hour: 0,
-        minute: 0,
-        second: 0,
-      },
-      PAYROLL_TIME_ZONE,
+    const settings = await getPayrollSettings(fastify.prisma, actor.orgId);
+    const period = resolvePayrollPeriod(settings, parsedQuery.data);
+    if (!period) return reply.code(400).send({ message: INVALID_PERIOD_START_MESSAGE });
+
+    const { reportingCurrency } = parsedCurrency.data;
+    const fx = reportingCurrency
+      ? await loadFxConverter(fastify.prisma, {
+          orgId: actor.orgId,
+          currency: reportingCurrency,
+          timeZone: settings.timeZone,
+        })
+      : undefined;
+
+    const payroll = await computeTeacherPayroll(fastify.prisma, {
+      orgId: actor.orgId,
+      teacherId: actor.id,
+      period,
+      fx,
+    });
+    const missingRates = fx?.missingRates() ?? [];
+    if (missingRates.length > 0) return reply.code(409).send({ message: missingRatesMessage(missingRates) });
+
+    return { ...payroll, cadence: settings.cadence };
+  });
+
+  fastify.get(
+    '/payroll/payslip.pdf',
+    { preHandler: fastify.requireRole([UserRole.TEACHER]) },
+    async (request, reply) => {
+      const parsedQuery = payrollPeriodQuerySchema.safeParse(request.query);
+      if (!parsedQuery.success) return zodBadRequest(reply, parsedQuery.error);
+
+      const teacher = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: {
+          id: true,
+          orgId: true,
+          email: true,
+          organization: { select: { name: true } },
+          teacherProfile: { select: { displayName: true } },
+        },
+      });
+      if (!teacher) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const settings = await getPayrollSettings(fastify.prisma, teacher.orgId);
+      const period = resolvePayrollPeriod(settings, parsedQuery.data);
+      if (!period) return reply.code(400).send({ message: INVALID_PERIOD_START_MESSAGE });
+
+      const [payroll, branding] = await Promise.all([
+        computeTeacherPayroll(fastify.prisma, { orgId: teacher.orgId, teacherId: teacher.id, period }),
+        getDocumentBranding(fastify.prisma, teacher.orgId),
+      ]);
+
+      const pdf = renderPayslipPdf({
+        orgName: teacher.organization.name,
+        branding,
+        teacherName: teacher.teacherProfile?.displayName ?? teacher.email ?? teacher.id,
+        payroll,
+      });
+
+      return reply
+        .type('application/pdf')
+        .header('content-disposition', `attachment; filename="payslip-${payroll.periodStartLocal}.pdf"`)
+        .send(pdf);
+    },
+  );
+
+  fastify.get('/availability', { preHandler: fastify.requireRole([UserRole.TEACHER]) }, async (request) => {
+    return loadTeacherAvailability(fastify.prisma, request.user.userId);
+  });
+
+  const availabilityWindowSchema = z
+    .object({
+      weekday: z.number().int().min(1).max(7),
+      startTimeLocal: z.string().refine(isValidWindowTime, { message: 'Expected HH:MM' }),
+      endTimeLocal: z.string().refine(isValidWindowTime, { message: 'Expected HH:MM' }),
+    })
+    .refine(
+      (data) =>
+        !isValidWindowTime(data.startTimeLocal) ||
+        !isValidWindowTime(data.endTimeLocal) ||
+        parseWindowMinutes(data.endTimeLocal) > parseWindowMinutes(data.startTimeLocal),
+      { path: ['endTimeLocal'], message: '`endTimeLocal` must be after `startTimeLocal`' },
     );
 
-    const sessions = await fastify.prisma.session.findMany({
-      where: {
-        teacherId: request.user.userId,
-        status: SessionStatus.COMPLETED,
-        endAtUtc: { gte: rangeStartUtc, lt: rangeEndUtcExclusive },
-      },
-      select: {
-        studentId: true,
-        startAtUtc: true,
-        endAtUtc: true,
-        teacherHourlyWageCentsSnapshot: true,
-        currencySnapshot: true,
-        student: { select: { studentProfile: { select: { displayName: true } } } },
-      },
+  const replaceAvailabilityWindowsBodySchema = z
+    .object({ windows: z.array(availabilityWindowSchema).max(100) })
+    .superRefine((data, ctx) => {
+      if (!data.windows.every((w) => isValidWindowTime(w.startTimeLocal) && isValidWindowTime(w.endTimeLocal))) return;
+
+      const overlapping = findOverlappingWindow(data.windows);
+      if (overlapping >= 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['windows', overlapping],
+          message: 'Windows on the same weekday must not overlap',
+        });
+      }
     });
 
-	    const totalsByCurrency = new Map<
-	      Currency,
-	      { currency: Currency; totalCents: number; totalHours: number; sessionsCount: number }
-	    >();
-
-	    const totalsByStudent = new Map<
-	      string,
-	      {
-	        studentId: string;
-	        studentName: string | null;
-	        totalsByCurrency: Map<Currency, { currency: Currency; totalCents: number; totalHours: number; sessionsCount: number }>;
-	      }
-	    >();
-
-	    for (const session of sessions) {
-	      const durationMs = session.endAtUtc.getTime() - session.startAtUtc.getTime();
-	      if (durationMs <= 0) continue;
-
-	      const currency = session.currencySnapshot;
-	      const studentId = session.studentId;
-	      const existing = totalsByCurrency.get(currency) ?? {
-	        currency,
-	        totalCents: 0,
-	        totalHours: 0,
-	        sessionsCount: 0,
-	      };
-
-      const sessionCents = prorateCents(durationMs, session.teacherHourlyWageCentsSnapshot);
-	      existing.totalCents += sessionCents;
-	      existing.totalHours += durationMs / MS_PER_HOUR;
-	      existing.sessionsCount += 1;
-
-	      totalsByCurrency.set(currency, existing);
-
-	      const studentEntry = totalsByStudent.get(studentId) ?? {
-	        studentId,
-	        studentName: session.student.studentProfile?.displayName ?? null,
-	        totalsByCurrency: new Map(),
-	      };
-
-	      const studentCurrencyTotal = studentEntry.totalsByCurrency.get(currency) ?? {
-	        currency,
-	        totalCents: 0,
-	        totalHours: 0,
-	        sessionsCount: 0,
-	      };
-
-	      studentCurrencyTotal.totalCents += sessionCents;
-	      studentCurrencyTotal.totalHours += durationMs / MS_PER_HOUR;
-	      studentCurrencyTotal.sessionsCount += 1;
-
-	      studentEntry.totalsByCurrency.set(currency, studentCurrencyTotal);
-	      totalsByStudent.set(studentId, studentEntry);
-	    }
-
-	    const totals = Array.from(totalsByCurrency.values()).sort((a, b) => a.currency.localeCompare(b.currency));
-	    const byStudent = Array.from(totalsByStudent.values())
-	      .map((entry) => ({
-	        studentId: entry.studentId,
-	        studentName: entry.studentName,
-	        totals: Array.from(entry.totalsByCurrency.values()).sort((a, b) => a.currency.localeCompare(b.currency)),
-	      }))
-	      .sort((a, b) => (a.studentName ?? a.studentId).localeCompare(b.studentName ?? b.studentId));
-
-	    return {
-	      weekStartLocal,
-	      weekEndLocal,
-	      totals,
-	      byStudent,
-	    };
-	  });
+  fastify.put(
+    '/availability/windows',
+    { preHandler: fastify.requireRole([UserRole.TEACHER]) },
+    async (request, reply) => {
+      const parsedBody = replaceAvailabilityWindowsBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      await fastify.prisma.$transaction(async (tx) => {
+        await tx.teacherAvailabilityWindow.deleteMany({ where: { teacherId: actor.id } });
+        await tx.teacherAvailabilityWindow.createMany({
+          data: parsedBody.data.windows.map((window) => ({ teacherId: actor.id, ...window })),
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'TEACHER_UPDATE_AVAILABILITY',
+            entityType: 'User',
+            entityId: actor.id,
+            meta: { windows: parsedBody.data.windows },
+          },
+        });
+      });
+
+      return loadTeacherAvailability(fastify.prisma, actor.id);
+    },
+  );
+
+  const createBlackoutDateBodySchema = z.object({
+    dateLocal: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .refine(
+        (value) => {
+          try {
+            parseIsoDate(value);
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        { message: 'Invalid date' },
+      ),
+    reason: z.string().trim().max(200).optional(),
+  });
+
+  fastify.post(
+    '/availability/blackout-dates',
+    { preHandler: fastify.requireRole([UserRole.TEACHER]) },
+    async (request, reply) => {
+      const parsedBody = createBlackoutDateBodySchema.safeParse(request.body);
+      if (!parsedBody.success) return zodBadRequest(reply, parsedBody.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const existing = await fastify.prisma.teacherBlackoutDate.findUnique({
+        where: { teacherId_dateLocal: { teacherId: actor.id, dateLocal: parsedBody.data.dateLocal } },
+        select: { id: true },
+      });
+      if (existing) return reply.code(409).send({ message: 'Blackout date already exists' });
+
+      const blackout = await fastify.prisma.$transaction(async (tx) => {
+        const created = await tx.teacherBlackoutDate.create({
+          data: {
+            teacherId: actor.id,
+            dateLocal: parsedBody.data.dateLocal,
+            reason: parsedBody.data.reason || null,
+          },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'TEACHER_ADD_BLACKOUT_DATE',
+            entityType: 'TeacherBlackoutDate',
+            entityId: created.id,
+            meta: { dateLocal: created.dateLocal, reason: created.reason },
+          },
+        });
+
+        return created;
+      });
+
+      return reply.code(201).send({ id: blackout.id, dateLocal: blackout.dateLocal, reason: blackout.reason ?? null });
+    },
+  );
+
+  const blackoutDateParamsSchema = z.object({ id: z.string().min(1) });
+
+  fastify.delete(
+    '/availability/blackout-dates/:id',
+    { preHandler: fastify.requireRole([UserRole.TEACHER]) },
+    async (request, reply) => {
+      const parsedParams = blackoutDateParamsSchema.safeParse(request.params);
+      if (!parsedParams.success) return zodBadRequest(reply, parsedParams.error);
+
+      const actor = await fastify.prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { id: true, orgId: true },
+      });
+      if (!actor) return reply.code(401).send({ message: 'Unauthorized' });
+
+      const blackout = await fastify.prisma.teacherBlackoutDate.findFirst({
+        where: { id: parsedParams.data.id, teacherId: actor.id },
+        select: { id: true, dateLocal: true },
+      });
+      if (!blackout) return reply.code(404).send({ message: 'Blackout date not found' });
+
+      await fastify.prisma.$transaction(async (tx) => {
+        await tx.teacherBlackoutDate.delete({ where: { id: blackout.id } });
+        await tx.auditLog.create({
+          data: {
+            orgId: actor.orgId,
+            actorUserId: actor.id,
+            action: 'TEACHER_REMOVE_BLACKOUT_DATE',
+            entityType: 'TeacherBlackoutDate',
+            entityId: blackout.id,
+            meta: { dateLocal: blackout.dateLocal },
+          },
+        });
+      });
+
+      return reply.send({ ok: true });
+    },
+  );
 };
 
 export default teacherRoutes;
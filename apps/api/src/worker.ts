@@ -1,6 +1,7 @@
 import { PrismaClient } from '@prisma/client';
 
 import { completeEndedSessions } from './jobs/completeEndedSessions.js';
+import { expireHourLots } from './jobs/expireHourLots.js';
 
 function readIntEnv(varName: string, fallback: number): number {
   const raw = process.env[varName];
@@ -26,6 +27,13 @@ async function tick() {
   } catch (error) {
     // eslint-disable-next-line no-console
     console.error('[worker] completeEndedSessions failed', error);
+  }
+  try {
+    // After completion, so sessions that ended before a lot expired are still paid from it.
+    await expireHourLots(prisma, { batchSize });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error('[worker] expireHourLots failed', error);
   } finally {
     isTickRunning = false;
   }
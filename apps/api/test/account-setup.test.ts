@@ -0,0 +1,240 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { createMemoryMailTransport } from '../src/lib/mail.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+const mail = createMemoryMailTransport();
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const teacher = await prisma.user.create({
+    data: {
+      orgId: org.id,
+      email: 'teacher@example.com',
+      passwordHash,
+      role: UserRole.TEACHER,
+      teacherProfile: { create: { displayName: 'Test Teacher', timeZone: 'Australia/Sydney' } },
+    },
+  });
+
+  const student = await prisma.user.create({
+    data: {
+      orgId: org.id,
+      email: 'student@example.com',
+      passwordHash,
+      role: UserRole.STUDENT,
+      studentProfile: { create: { displayName: 'Test Student', timeZone: 'Asia/Shanghai' } },
+    },
+  });
+
+  return { org, admin, teacher, student };
+}
+
+/** The token from the link in the most recent mail to `to`. */
+function lastMailedToken(to: string): string {
+  const message = mail.messages.filter((item) => item.to === to).at(-1);
+  const token = message ? /[?&]token=([\w-]+)/.exec(message.text)?.[1] : undefined;
+  if (!token) throw new Error(`No token mailed to ${to}`);
+  return token;
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+
+  app = buildApp({ logger: false, mailTransport: mail });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+describe('account setup', () => {
+  beforeEach(async () => {
+    await resetDb();
+    mail.messages.length = 0;
+  });
+
+  it('invites a new student to set their own password', async () => {
+    await createOrgWithUsers();
+    const token = await loginAs('admin@example.com', 'password123');
+
+    const created = await request(app.server)
+      .post('/admin/students')
+      .set('authorization', `Bearer ${token}`)
+      .send({ email: 'new@example.com', displayName: 'New Student', timeZone: 'Asia/Shanghai' })
+      .expect(201);
+    expect(created.body).toMatchObject({ invitationSent: true });
+
+    expect(mail.messages).toHaveLength(1);
+    expect(mail.messages[0]?.text).toContain('http://localhost:3000/accept-invitation?token=');
+    const invitation = lastMailedToken('new@example.com');
+
+    const before = await request(app.server)
+      .get('/admin/students')
+      .set('authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(before.body.find((item: { id: string }) => item.id === created.body.id)).toMatchObject({
+      invitationPending: true,
+    });
+
+    await request(app.server)
+      .post('/auth/accept-invitation')
+      .send({ token: invitation, password: 'short' })
+      .expect(400);
+
+    await request(app.server)
+      .post('/auth/accept-invitation')
+      .send({ token: invitation, password: 'my-own-password' })
+      .expect(200);
+    await loginAs('new@example.com', 'my-own-password');
+
+    await request(app.server)
+      .post('/auth/accept-invitation')
+      .send({ token: invitation, password: 'another-password' })
+      .expect(400);
+
+    const after = await request(app.server)
+      .get('/admin/students')
+      .set('authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(after.body.find((item: { id: string }) => item.id === created.body.id)).toMatchObject({
+      invitationPending: false,
+    });
+
+    await request(app.server)
+      .post(`/admin/users/${created.body.id}/invitation`)
+      .set('authorization', `Bearer ${token}`)
+      .expect(409);
+
+    const audit = await app.prisma.auditLog.findFirst({ where: { action: 'USER_ACCEPT_INVITATION' } });
+    expect(audit?.entityId).toBe(created.body.id);
+  });
+
+  it('only honours the latest invitation', async () => {
+    const { teacher } = await createOrgWithUsers();
+    const token = await loginAs('admin@example.com', 'password123');
+
+    await request(app.server)
+      .post(`/admin/users/${teacher.id}/invitation`)
+      .set('authorization', `Bearer ${token}`)
+      .expect(200);
+    const first = lastMailedToken('teacher@example.com');
+    expect(mail.messages[0]?.text).toContain('http://localhost:3002/accept-invitation?token=');
+
+    await request(app.server)
+      .post(`/admin/users/${teacher.id}/invitation`)
+      .set('authorization', `Bearer ${token}`)
+      .expect(200);
+    const second = lastMailedToken('teacher@example.com');
+
+    await request(app.server)
+      .post('/auth/accept-invitation')
+      .send({ token: first, password: 'password456' })
+      .expect(400);
+    await request(app.server)
+      .post('/auth/accept-invitation')
+      .send({ token: second, password: 'password456' })
+      .expect(200);
+    await loginAs('teacher@example.com', 'password456');
+  });
+
+  it('resets a forgotten password with a single-use expiring token', async () => {
+    await createOrgWithUsers();
+
+    await request(app.server).post('/auth/forgot-password').send({ email: 'nobody@example.com' }).expect(200);
+    expect(mail.messages).toHaveLength(0);
+
+    await request(app.server).post('/auth/forgot-password').send({ email: 'student@example.com' }).expect(200);
+    const expired = lastMailedToken('student@example.com');
+    await app.prisma.accountToken.updateMany({ data: { expiresAt: new Date(Date.now() - 1000) } });
+    await request(app.server)
+      .post('/auth/reset-password')
+      .send({ token: expired, password: 'password456' })
+      .expect(400);
+
+    await request(app.server).post('/auth/forgot-password').send({ email: 'student@example.com' }).expect(200);
+    const reset = lastMailedToken('student@example.com');
+
+    await request(app.server)
+      .post('/auth/accept-invitation')
+      .send({ token: reset, password: 'password456' })
+      .expect(400);
+    await request(app.server).post('/auth/reset-password').send({ token: reset, password: 'password456' }).expect(200);
+    await request(app.server).post('/auth/reset-password').send({ token: reset, password: 'password789' }).expect(400);
+
+    await request(app.server)
+      .post('/auth/login')
+      .send({ email: 'student@example.com', password: 'password123' })
+      .expect(401);
+    await loginAs('student@example.com', 'password456');
+  });
+
+  it('changes the password of the signed-in user', async () => {
+    await createOrgWithUsers();
+    const token = await loginAs('teacher@example.com', 'password123');
+
+    await request(app.server).post('/auth/forgot-password').send({ email: 'teacher@example.com' }).expect(200);
+    const reset = lastMailedToken('teacher@example.com');
+
+    await request(app.server)
+      .post('/me/password')
+      .set('authorization', `Bearer ${token}`)
+      .send({ currentPassword: 'wrong-password', newPassword: 'password456' })
+      .expect(400);
+
+    await request(app.server)
+      .post('/me/password')
+      .set('authorization', `Bearer ${token}`)
+      .send({ currentPassword: 'password123', newPassword: 'password456' })
+      .expect(200);
+    await loginAs('teacher@example.com', 'password456');
+
+    // The reset link mailed before the change no longer works.
+    await request(app.server).post('/auth/reset-password').send({ token: reset, password: 'password789' }).expect(400);
+  });
+});
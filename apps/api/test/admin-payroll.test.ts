@@ -0,0 +1,332 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { Currency, PayrollLineKind, SessionStatus, UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const alice = await prisma.user.create({
+    data: { orgId: org.id, email: 'alice@example.com', passwordHash, role: UserRole.TEACHER },
+  });
+  await prisma.teacherProfile.create({
+    data: { userId: alice.id, displayName: 'Alice', timeZone: 'Australia/Sydney' },
+  });
+
+  const bob = await prisma.user.create({
+    data: { orgId: org.id, email: 'bob@example.com', passwordHash, role: UserRole.TEACHER },
+  });
+  await prisma.teacherProfile.create({
+    data: { userId: bob.id, displayName: 'Bob', timeZone: 'Australia/Sydney' },
+  });
+
+  const student = await prisma.user.create({
+    data: { orgId: org.id, email: 'student@example.com', passwordHash, role: UserRole.STUDENT },
+  });
+  await prisma.studentProfile.create({
+    data: { userId: student.id, displayName: 'Student, "Jr"', timeZone: 'Australia/Sydney' },
+  });
+
+  const otherOrg = await prisma.organization.create({ data: { name: 'Other Org' } });
+  const otherAdmin = await prisma.user.create({
+    data: { orgId: otherOrg.id, email: 'other-admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+  const otherTeacher = await prisma.user.create({
+    data: { orgId: otherOrg.id, email: 'other-teacher@example.com', passwordHash, role: UserRole.TEACHER },
+  });
+  const otherStudent = await prisma.user.create({
+    data: { orgId: otherOrg.id, email: 'other-student@example.com', passwordHash, role: UserRole.STUDENT },
+  });
+
+  return { org, admin, alice, bob, student, otherAdmin, otherTeacher, otherStudent };
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+
+  app = buildApp({ logger: false });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+describe('admin payroll overview', () => {
+  async function seedSessions() {
+    const users = await createOrgWithUsers();
+    const { admin, alice, bob, student, otherAdmin, otherTeacher, otherStudent } = users;
+
+    const base = {
+      studentId: student.id,
+      classTimeZone: 'Australia/Sydney',
+      status: SessionStatus.COMPLETED,
+      consumesUnits: 1,
+      studentHourlyRateCentsSnapshot: 10000,
+      currencySnapshot: Currency.AUD,
+      createdByAdminId: admin.id,
+    };
+
+    await app.prisma.session.createMany({
+      data: [
+        {
+          ...base,
+          teacherId: alice.id,
+          startAtUtc: new Date('2030-06-03T00:00:00.000Z'),
+          endAtUtc: new Date('2030-06-03T01:30:00.000Z'),
+          teacherHourlyWageCentsSnapshot: 6000,
+        },
+        {
+          ...base,
+          teacherId: bob.id,
+          startAtUtc: new Date('2030-06-04T00:00:00.000Z'),
+          endAtUtc: new Date('2030-06-04T01:00:00.000Z'),
+          teacherHourlyWageCentsSnapshot: 5000,
+        },
+        {
+          ...base,
+          teacherId: bob.id,
+          startAtUtc: new Date('2030-06-05T00:00:00.000Z'),
+          endAtUtc: new Date('2030-06-05T01:00:00.000Z'),
+          teacherHourlyWageCentsSnapshot: 8000,
+          currencySnapshot: Currency.USD,
+        },
+        {
+          ...base,
+          teacherId: bob.id,
+          startAtUtc: new Date('2030-06-06T00:00:00.000Z'),
+          endAtUtc: new Date('2030-06-06T01:00:00.000Z'),
+          teacherHourlyWageCentsSnapshot: 5000,
+          status: SessionStatus.SCHEDULED,
+        },
+        {
+          ...base,
+          teacherId: otherTeacher.id,
+          studentId: otherStudent.id,
+          createdByAdminId: otherAdmin.id,
+          startAtUtc: new Date('2030-06-04T00:00:00.000Z'),
+          endAtUtc: new Date('2030-06-04T01:00:00.000Z'),
+          teacherHourlyWageCentsSnapshot: 9000,
+        },
+      ],
+    });
+
+    return users;
+  }
+
+  it('returns every teacher in the org with totals by currency and by student', async () => {
+    const { alice, bob, student } = await seedSessions();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const res = await request(app.server)
+      .get('/admin/payroll?periodStart=2030-06-03')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(res.body).toEqual({
+      periodStartLocal: '2030-06-03',
+      periodEndLocal: '2030-06-09',
+      timeZone: 'Australia/Sydney',
+      cadence: 'WEEKLY',
+      run: null,
+      totals: [
+        { currency: 'AUD', totalCents: 14000, totalHours: 2.5, sessionsCount: 2 },
+        { currency: 'USD', totalCents: 8000, totalHours: 1, sessionsCount: 1 },
+      ],
+      teachers: [
+        {
+          teacherId: alice.id,
+          teacherName: 'Alice',
+          totals: [{ currency: 'AUD', totalCents: 9000, totalHours: 1.5, sessionsCount: 1 }],
+          byStudent: [
+            {
+              studentId: student.id,
+              studentName: 'Student, "Jr"',
+              totals: [{ currency: 'AUD', totalCents: 9000, totalHours: 1.5, sessionsCount: 1 }],
+            },
+          ],
+        },
+        {
+          teacherId: bob.id,
+          teacherName: 'Bob',
+          totals: [
+            { currency: 'AUD', totalCents: 5000, totalHours: 1, sessionsCount: 1 },
+            { currency: 'USD', totalCents: 8000, totalHours: 1, sessionsCount: 1 },
+          ],
+          byStudent: [
+            {
+              studentId: student.id,
+              studentName: 'Student, "Jr"',
+              totals: [
+                { currency: 'AUD', totalCents: 5000, totalHours: 1, sessionsCount: 1 },
+                { currency: 'USD', totalCents: 8000, totalHours: 1, sessionsCount: 1 },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('drills down to the sessions and their wage snapshots', async () => {
+    const { bob } = await seedSessions();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const res = await request(app.server)
+      .get(`/admin/payroll/sessions?periodStart=2030-06-03&teacherId=${bob.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(res.body.run).toBeNull();
+    expect(res.body.sessions).toEqual([
+      expect.objectContaining({
+        teacherName: 'Bob',
+        status: 'COMPLETED',
+        startAtUtc: '2030-06-04T00:00:00.000Z',
+        currency: 'AUD',
+        payableMinutes: 60,
+        teacherHourlyWageCentsSnapshot: 5000,
+        amountCents: 5000,
+      }),
+      expect.objectContaining({
+        teacherName: 'Bob',
+        currency: 'USD',
+        payableMinutes: 60,
+        teacherHourlyWageCentsSnapshot: 8000,
+        amountCents: 8000,
+      }),
+    ]);
+  });
+
+  it('reads a closed period from its payroll run', async () => {
+    const { org, admin, bob } = await seedSessions();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    // 2030 has not ended yet, so the run is written directly rather than closed through the API.
+    const run = await app.prisma.payrollRun.create({
+      data: {
+        orgId: org.id,
+        periodStartLocal: '2030-06-03',
+        periodEndLocal: '2030-06-09',
+        timeZone: 'Australia/Sydney',
+        periodStartUtc: new Date('2030-06-02T14:00:00.000Z'),
+        periodEndUtc: new Date('2030-06-09T14:00:00.000Z'),
+        closedByAdminId: admin.id,
+      },
+    });
+    const bobSession = await app.prisma.session.findFirstOrThrow({
+      where: { teacherId: bob.id, currencySnapshot: Currency.AUD, status: SessionStatus.COMPLETED },
+    });
+    await app.prisma.payrollLine.create({
+      data: {
+        runId: run.id,
+        teacherId: bob.id,
+        kind: PayrollLineKind.REGULAR,
+        currency: Currency.AUD,
+        sessionsCount: 1,
+        payableMinutes: 60,
+        amountCents: 4000,
+        items: {
+          create: [{ sessionId: bobSession.id, studentId: bobSession.studentId, payableMinutes: 60, amountCents: 4000 }],
+        },
+      },
+    });
+
+    const res = await request(app.server)
+      .get('/admin/payroll?date=2030-06-05')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(res.body.run).toEqual({ id: run.id, status: 'CLOSED' });
+    expect(res.body.totals).toEqual([{ currency: 'AUD', totalCents: 4000, totalHours: 1, sessionsCount: 1 }]);
+    expect(res.body.teachers.map((teacher: { teacherId: string }) => teacher.teacherId)).toEqual([bob.id]);
+  });
+
+  it('exports the sessions as CSV', async () => {
+    const { alice, student } = await seedSessions();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const res = await request(app.server)
+      .get('/admin/payroll.csv?periodStart=2030-06-03')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(res.headers['content-type']).toContain('text/csv');
+    expect(res.headers['content-disposition']).toBe('attachment; filename="payroll-2030-06-03.csv"');
+
+    const lines = res.text.replace(/^\uFEFF/, '').trimEnd().split('\r\n');
+    expect(lines).toHaveLength(4);
+    expect(lines[0]).toBe(
+      'teacher_id,teacher_name,student_id,student_name,session_id,status,start_local,end_local,currency,payable_minutes,hourly_wage,amount',
+    );
+    expect(lines[1]).toMatch(
+      new RegExp(
+        `^${alice.id},Alice,${student.id},"Student, ""Jr""",\\w+,COMPLETED,2030-06-03 10:00,2030-06-03 11:30,AUD,90,60.00,90.00$`,
+      ),
+    );
+  });
+
+  it('validates the period and is admin-only', async () => {
+    await seedSessions();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+    const teacherToken = await loginAs('alice@example.com', 'password123');
+
+    await request(app.server)
+      .get('/admin/payroll?periodStart=2030-06-04')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(400);
+
+    await request(app.server)
+      .get('/admin/payroll?periodStart=2030-06-03&date=2030-06-04')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(400);
+
+    await request(app.server)
+      .get('/admin/payroll?periodStart=2030-06-03')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .expect(403);
+  });
+});
@@ -13,8 +13,12 @@ async function resetDb() {
 
   await prisma.auditLog.deleteMany();
   await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
   await prisma.hourLedgerEntry.deleteMany();
   await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
   await prisma.teacherStudentRate.deleteMany();
   await prisma.studentProfile.deleteMany();
   await prisma.teacherProfile.deleteMany();
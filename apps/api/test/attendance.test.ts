@@ -0,0 +1,237 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { Currency, HourLedgerReason, SessionStatus, UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const teacher = await prisma.user.create({
+    data: { orgId: org.id, email: 'teacher@example.com', passwordHash, role: UserRole.TEACHER },
+  });
+  await prisma.teacherProfile.create({
+    data: { userId: teacher.id, displayName: 'Test Teacher', timeZone: 'Australia/Sydney' },
+  });
+
+  const student = await prisma.user.create({
+    data: { orgId: org.id, email: 'student@example.com', passwordHash, role: UserRole.STUDENT },
+  });
+  await prisma.studentProfile.create({
+    data: { userId: student.id, displayName: 'Test Student', timeZone: 'Asia/Shanghai' },
+  });
+
+  await prisma.teacherStudentRate.create({
+    data: {
+      teacherId: teacher.id,
+      studentId: student.id,
+      studentHourlyRateCents: 10000,
+      teacherHourlyWageCents: 10000,
+      currency: Currency.AUD,
+    },
+  });
+
+  return { org, admin, teacher, student };
+}
+
+async function createSession(params: {
+  teacherId: string;
+  studentId: string;
+  createdByAdminId: string;
+  startAtUtc: Date;
+  endAtUtc: Date;
+  classTimeZone?: string;
+}) {
+  return app.prisma.session.create({
+    data: {
+      teacherId: params.teacherId,
+      studentId: params.studentId,
+      startAtUtc: params.startAtUtc,
+      endAtUtc: params.endAtUtc,
+      classTimeZone: params.classTimeZone ?? 'Australia/Sydney',
+      status: SessionStatus.SCHEDULED,
+      consumesUnits: 1,
+      studentHourlyRateCentsSnapshot: 10000,
+      teacherHourlyWageCentsSnapshot: 10000,
+      currencySnapshot: Currency.AUD,
+      createdByAdminId: params.createdByAdminId,
+    },
+    select: { id: true },
+  });
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+
+  app = buildApp({ logger: false });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('session attendance', () => {
+  it('completes an ended session when the teacher records partial attendance', async () => {
+    const { teacher, student, admin } = await createOrgWithUsers();
+    const teacherToken = await loginAs('teacher@example.com', 'password123');
+
+    const startAtUtc = new Date(Date.now() - 2 * HOUR_MS);
+    const session = await createSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      createdByAdminId: admin.id,
+      startAtUtc,
+      endAtUtc: new Date(startAtUtc.getTime() + HOUR_MS),
+    });
+
+    await request(app.server)
+      .post(`/teacher/sessions/${session.id}/attendance`)
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .send({ outcome: 'PARTIAL' })
+      .expect(400);
+
+    await request(app.server)
+      .post(`/teacher/sessions/${session.id}/attendance`)
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .send({ outcome: 'PARTIAL', attendedMinutes: 60 })
+      .expect(400);
+
+    const recorded = await request(app.server)
+      .post(`/teacher/sessions/${session.id}/attendance`)
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .send({ outcome: 'PARTIAL', attendedMinutes: 45 })
+      .expect(200);
+    expect(recorded.body).toEqual({
+      id: session.id,
+      status: SessionStatus.COMPLETED,
+      attendance: 'PARTIAL',
+      attendedMinutes: 45,
+    });
+
+    const updated = await app.prisma.session.findUnique({
+      where: { id: session.id },
+      select: { status: true, payableMinutes: true, attendanceRecordedByUserId: true },
+    });
+    expect(updated).toEqual({
+      status: SessionStatus.COMPLETED,
+      payableMinutes: 45,
+      attendanceRecordedByUserId: teacher.id,
+    });
+
+    const ledger = await app.prisma.hourLedgerEntry.findMany({
+      where: { sessionId: session.id },
+      select: { deltaUnits: true, reason: true },
+    });
+    expect(ledger).toEqual([{ deltaUnits: -1, reason: HourLedgerReason.SESSION_CONSUME }]);
+
+    const audit = await app.prisma.auditLog.findFirst({
+      where: { action: 'TEACHER_RECORD_ATTENDANCE', entityId: session.id },
+    });
+    expect(audit).not.toBeNull();
+
+    await request(app.server)
+      .post(`/teacher/sessions/${session.id}/attendance`)
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .send({ outcome: 'ATTENDED' })
+      .expect(409);
+  });
+
+  it('does not charge or pay a teacher no-show', async () => {
+    const { teacher, student, admin } = await createOrgWithUsers();
+    const teacherToken = await loginAs('teacher@example.com', 'password123');
+
+    const startAtUtc = new Date(Date.now() - 2 * HOUR_MS);
+    const session = await createSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      createdByAdminId: admin.id,
+      startAtUtc,
+      endAtUtc: new Date(startAtUtc.getTime() + HOUR_MS),
+    });
+
+    await request(app.server)
+      .post(`/teacher/sessions/${session.id}/attendance`)
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .send({ outcome: 'TEACHER_NO_SHOW' })
+      .expect(200);
+
+    const updated = await app.prisma.session.findUnique({
+      where: { id: session.id },
+      select: { status: true, payableMinutes: true },
+    });
+    expect(updated).toEqual({ status: SessionStatus.COMPLETED, payableMinutes: 0 });
+    expect(await app.prisma.hourLedgerEntry.count({ where: { sessionId: session.id } })).toBe(0);
+  });
+
+  it('rejects attendance before the session starts or for other teachers', async () => {
+    const { teacher, student, admin } = await createOrgWithUsers();
+    const teacherToken = await loginAs('teacher@example.com', 'password123');
+    const studentToken = await loginAs('student@example.com', 'password123');
+
+    const startAtUtc = new Date(Date.now() + 2 * HOUR_MS);
+    const session = await createSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      createdByAdminId: admin.id,
+      startAtUtc,
+      endAtUtc: new Date(startAtUtc.getTime() + HOUR_MS),
+    });
+
+    await request(app.server)
+      .post(`/teacher/sessions/${session.id}/attendance`)
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .send({ outcome: 'ATTENDED' })
+      .expect(409);
+
+    await request(app.server)
+      .post(`/teacher/sessions/${session.id}/attendance`)
+      .set('Authorization', `Bearer ${studentToken}`)
+      .send({ outcome: 'ATTENDED' })
+      .expect(403);
+  });
+});
@@ -0,0 +1,265 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+/** Signs in like a separate device: its own access token and refresh cookie. */
+async function loginAs(email: string, password: string): Promise<{ accessToken: string; refreshCookie: string }> {
+  const login = await request(app.server)
+    .post('/auth/login')
+    .set('user-agent', `test-device-${Math.random()}`)
+    .send({ email, password })
+    .expect(200);
+  return { accessToken: login.body.accessToken as string, refreshCookie: refreshCookieFrom(login) };
+}
+
+function refreshCookieFrom(res: request.Response): string {
+  const setCookie: string[] = ([] as string[]).concat(res.headers['set-cookie'] ?? []);
+  const cookie = setCookie.find((value) => value.startsWith(`${app.auth.refreshCookieName}=`));
+  if (!cookie) throw new Error('No refresh cookie set');
+  return cookie.split(';')[0] as string;
+}
+
+function refresh(cookie: string) {
+  return request(app.server).post('/auth/refresh').set('cookie', cookie);
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const teacher = await prisma.user.create({
+    data: {
+      orgId: org.id,
+      email: 'teacher@example.com',
+      passwordHash,
+      role: UserRole.TEACHER,
+      teacherProfile: { create: { displayName: 'Test Teacher', timeZone: 'Australia/Sydney' } },
+    },
+  });
+
+  const student = await prisma.user.create({
+    data: {
+      orgId: org.id,
+      email: 'student@example.com',
+      passwordHash,
+      role: UserRole.STUDENT,
+      studentProfile: { create: { displayName: 'Test Student', timeZone: 'Asia/Shanghai' } },
+    },
+  });
+
+  return { org, admin, teacher, student };
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+  process.env['REFRESH_TOKEN_REUSE_GRACE_SECONDS'] = '0';
+
+  app = buildApp({ logger: false });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+describe('auth sessions', () => {
+  it('rotates the refresh token and revokes the whole session when an old one is replayed', async () => {
+    await createOrgWithUsers();
+    const device = await loginAs('teacher@example.com', 'password123');
+
+    const first = await refresh(device.refreshCookie).expect(200);
+    const rotatedCookie = refreshCookieFrom(first);
+    expect(rotatedCookie).not.toBe(device.refreshCookie);
+    await request(app.server).get('/me').set('authorization', `Bearer ${first.body.accessToken}`).expect(200);
+
+    const second = await refresh(rotatedCookie).expect(200);
+    const latestCookie = refreshCookieFrom(second);
+
+    // The first cookie was already rotated: someone copied it.
+    await refresh(device.refreshCookie).expect(401);
+
+    await refresh(latestCookie).expect(401);
+    await request(app.server).get('/me').set('authorization', `Bearer ${second.body.accessToken}`).expect(401);
+
+    const session = await app.prisma.authSession.findFirstOrThrow({});
+    expect(session.revokedReason).toBe('TOKEN_REUSE');
+    const audit = await app.prisma.auditLog.findFirst({ where: { action: 'USER_REFRESH_TOKEN_REUSED' } });
+    expect(audit?.entityId).toBe(session.id);
+  });
+
+  it('tolerates a token rotated moments ago, as when two tabs refresh at once', async () => {
+    await createOrgWithUsers();
+    const device = await loginAs('student@example.com', 'password123');
+
+    process.env['REFRESH_TOKEN_REUSE_GRACE_SECONDS'] = '30';
+    try {
+      const first = await refresh(device.refreshCookie).expect(200);
+      const late = await refresh(device.refreshCookie).expect(200);
+      expect(late.headers['set-cookie']).toBeUndefined();
+      await request(app.server).get('/me').set('authorization', `Bearer ${late.body.accessToken}`).expect(200);
+
+      await refresh(refreshCookieFrom(first)).expect(200);
+    } finally {
+      process.env['REFRESH_TOKEN_REUSE_GRACE_SECONDS'] = '0';
+    }
+  });
+
+  it('lists the signed-in devices and revokes one of them', async () => {
+    await createOrgWithUsers();
+    const laptop = await loginAs('student@example.com', 'password123');
+    const phone = await loginAs('student@example.com', 'password123');
+
+    const list = await request(app.server)
+      .get('/me/sessions')
+      .set('authorization', `Bearer ${laptop.accessToken}`)
+      .expect(200);
+    expect(list.body).toHaveLength(2);
+    const current = list.body.filter((session: { current: boolean }) => session.current);
+    expect(current).toHaveLength(1);
+    const phoneSession = list.body.find((session: { current: boolean }) => !session.current) as { id: string };
+
+    await request(app.server)
+      .delete(`/me/sessions/${phoneSession.id}`)
+      .set('authorization', `Bearer ${laptop.accessToken}`)
+      .expect(200);
+    await request(app.server)
+      .delete(`/me/sessions/${phoneSession.id}`)
+      .set('authorization', `Bearer ${laptop.accessToken}`)
+      .expect(404);
+
+    await request(app.server).get('/me').set('authorization', `Bearer ${phone.accessToken}`).expect(401);
+    await refresh(phone.refreshCookie).expect(401);
+    await request(app.server).get('/me').set('authorization', `Bearer ${laptop.accessToken}`).expect(200);
+
+    const teacher = await loginAs('teacher@example.com', 'password123');
+    await request(app.server)
+      .delete(`/me/sessions/${current[0].id}`)
+      .set('authorization', `Bearer ${teacher.accessToken}`)
+      .expect(404);
+  });
+
+  it('signs out everywhere', async () => {
+    await createOrgWithUsers();
+    const laptop = await loginAs('teacher@example.com', 'password123');
+    const phone = await loginAs('teacher@example.com', 'password123');
+
+    const res = await request(app.server)
+      .post('/me/sessions/revoke-all')
+      .set('authorization', `Bearer ${laptop.accessToken}`)
+      .expect(200);
+    expect(res.body).toEqual({ revoked: 2 });
+
+    for (const device of [laptop, phone]) {
+      await request(app.server).get('/me').set('authorization', `Bearer ${device.accessToken}`).expect(401);
+      await refresh(device.refreshCookie).expect(401);
+    }
+  });
+
+  it('logout revokes the session of the refresh cookie', async () => {
+    await createOrgWithUsers();
+    const device = await loginAs('student@example.com', 'password123');
+
+    await request(app.server).post('/auth/logout').set('cookie', device.refreshCookie).expect(200);
+
+    await refresh(device.refreshCookie).expect(401);
+    await request(app.server).get('/me').set('authorization', `Bearer ${device.accessToken}`).expect(401);
+  });
+
+  it('changing the password signs out the other devices only', async () => {
+    await createOrgWithUsers();
+    const laptop = await loginAs('student@example.com', 'password123');
+    const phone = await loginAs('student@example.com', 'password123');
+
+    await request(app.server)
+      .post('/me/password')
+      .set('authorization', `Bearer ${laptop.accessToken}`)
+      .send({ currentPassword: 'password123', newPassword: 'new-password-1' })
+      .expect(200);
+
+    await request(app.server).get('/me').set('authorization', `Bearer ${laptop.accessToken}`).expect(200);
+    await request(app.server).get('/me').set('authorization', `Bearer ${phone.accessToken}`).expect(401);
+    await refresh(phone.refreshCookie).expect(401);
+  });
+
+  it('lets admins revoke every session of a user', async () => {
+    const { student } = await createOrgWithUsers();
+    const admin = await loginAs('admin@example.com', 'password123');
+    const device = await loginAs('student@example.com', 'password123');
+
+    await request(app.server)
+      .post(`/admin/users/${student.id}/sessions/revoke`)
+      .set('authorization', `Bearer ${device.accessToken}`)
+      .expect(403);
+
+    const res = await request(app.server)
+      .post(`/admin/users/${student.id}/sessions/revoke`)
+      .set('authorization', `Bearer ${admin.accessToken}`)
+      .expect(200);
+    expect(res.body).toEqual({ revoked: 1 });
+
+    await request(app.server).get('/me').set('authorization', `Bearer ${device.accessToken}`).expect(401);
+    await refresh(device.refreshCookie).expect(401);
+
+    const audit = await app.prisma.auditLog.findFirst({ where: { action: 'ADMIN_REVOKE_SESSIONS' } });
+    expect(audit?.entityId).toBe(student.id);
+
+    await request(app.server)
+      .post('/admin/users/missing-user/sessions/revoke')
+      .set('authorization', `Bearer ${admin.accessToken}`)
+      .expect(404);
+  });
+
+  it('disabling a user rejects their access tokens right away', async () => {
+    const { student } = await createOrgWithUsers();
+    const admin = await loginAs('admin@example.com', 'password123');
+    const device = await loginAs('student@example.com', 'password123');
+
+    await request(app.server).get('/me').set('authorization', `Bearer ${device.accessToken}`).expect(200);
+
+    await request(app.server)
+      .delete(`/admin/students/${student.id}`)
+      .set('authorization', `Bearer ${admin.accessToken}`)
+      .expect(200);
+
+    await request(app.server).get('/me').set('authorization', `Bearer ${device.accessToken}`).expect(401);
+    await refresh(device.refreshCookie).expect(401);
+  });
+});
@@ -0,0 +1,230 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { BillingMode, Currency, HourLedgerReason, UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const teacher = await prisma.user.create({
+    data: { orgId: org.id, email: 'teacher@example.com', passwordHash, role: UserRole.TEACHER },
+  });
+  await prisma.teacherProfile.create({
+    data: { userId: teacher.id, displayName: 'Test Teacher', timeZone: 'Australia/Sydney' },
+  });
+
+  const student = await prisma.user.create({
+    data: { orgId: org.id, email: 'student@example.com', passwordHash, role: UserRole.STUDENT },
+  });
+  await prisma.studentProfile.create({
+    data: { userId: student.id, displayName: 'Test Student', timeZone: 'Asia/Shanghai' },
+  });
+
+  await prisma.teacherStudentRate.create({
+    data: {
+      teacherId: teacher.id,
+      studentId: student.id,
+      studentHourlyRateCents: 10000,
+      teacherHourlyWageCents: 10000,
+      currency: Currency.AUD,
+    },
+  });
+
+  return { org, admin, teacher, student };
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+
+  app = buildApp({ logger: false });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+const HOUR_MS = 60 * 60 * 1000;
+
+async function makePrepaid(studentId: string, units: number) {
+  await app.prisma.studentProfile.update({ where: { userId: studentId }, data: { billingMode: BillingMode.PREPAID } });
+  await app.prisma.hourLedgerEntry.create({
+    data: { studentId, deltaUnits: units, reason: HourLedgerReason.PURCHASE },
+  });
+}
+
+function bookSession(token: string, params: { teacherId: string; studentId: string; hoursFromNow: number }) {
+  const startAtUtc = new Date(Date.now() + params.hoursFromNow * HOUR_MS);
+  return request(app.server)
+    .post('/admin/sessions')
+    .set('Authorization', `Bearer ${token}`)
+    .send({
+      teacherId: params.teacherId,
+      studentId: params.studentId,
+      startAtUtc: startAtUtc.toISOString(),
+      endAtUtc: new Date(startAtUtc.getTime() + HOUR_MS).toISOString(),
+      classTimeZone: 'Australia/Sydney',
+    });
+}
+
+describe('balance policy', () => {
+  it('defaults to warning only and lets admins save a policy', async () => {
+    const { teacher, student, org } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const policy = await request(app.server)
+      .get('/admin/balance-policy')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(policy.body).toEqual({ lowBalanceUnits: 2, blockScheduling: false, overdraftLimitUnits: 0 });
+
+    await makePrepaid(student.id, 0);
+    await bookSession(adminToken, { teacherId: teacher.id, studentId: student.id, hoursFromNow: 24 }).expect(201);
+
+    await request(app.server)
+      .put('/admin/balance-policy')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ lowBalanceUnits: -1, blockScheduling: true, overdraftLimitUnits: 0 })
+      .expect(400);
+
+    const saved = await request(app.server)
+      .put('/admin/balance-policy')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ lowBalanceUnits: 3, blockScheduling: true, overdraftLimitUnits: 1 })
+      .expect(200);
+    expect(saved.body).toEqual({ lowBalanceUnits: 3, blockScheduling: true, overdraftLimitUnits: 1 });
+
+    const audit = await app.prisma.auditLog.findFirst({
+      where: { orgId: org.id, action: 'ADMIN_UPDATE_BALANCE_POLICY' },
+    });
+    expect(audit?.meta).toMatchObject({
+      before: { blockScheduling: false },
+      after: { lowBalanceUnits: 3, blockScheduling: true, overdraftLimitUnits: 1 },
+    });
+  });
+
+  it('blocks booking a prepaid student past zero or the overdraft limit', async () => {
+    const { teacher, student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    await request(app.server)
+      .put('/admin/balance-policy')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ lowBalanceUnits: 2, blockScheduling: true, overdraftLimitUnits: 0 })
+      .expect(200);
+
+    await makePrepaid(student.id, 1);
+    await bookSession(adminToken, { teacherId: teacher.id, studentId: student.id, hoursFromNow: 24 }).expect(201);
+
+    const blocked = await bookSession(adminToken, { teacherId: teacher.id, studentId: student.id, hoursFromNow: 48 });
+    expect(blocked.status).toBe(409);
+    expect(blocked.body).toMatchObject({
+      message: 'Insufficient hours: the student has no units left for this session',
+      balance: { balanceUnits: 1, scheduledUnits: 1, availableUnits: 0, status: 'EMPTY' },
+      overdraftLimitUnits: 0,
+    });
+
+    await request(app.server)
+      .put('/admin/balance-policy')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ lowBalanceUnits: 2, blockScheduling: true, overdraftLimitUnits: 1 })
+      .expect(200);
+
+    await bookSession(adminToken, { teacherId: teacher.id, studentId: student.id, hoursFromNow: 48 }).expect(201);
+
+    const overLimit = await bookSession(adminToken, { teacherId: teacher.id, studentId: student.id, hoursFromNow: 72 });
+    expect(overLimit.status).toBe(409);
+    expect(overLimit.body.message).toBe('Insufficient hours: booking would exceed the overdraft limit of 1 unit(s)');
+    expect(overLimit.body.balance).toMatchObject({ availableUnits: -1, status: 'OVERDRAWN' });
+  });
+
+  it('never blocks students billed per session', async () => {
+    const { teacher, student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    await request(app.server)
+      .put('/admin/balance-policy')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ lowBalanceUnits: 2, blockScheduling: true, overdraftLimitUnits: 0 })
+      .expect(200);
+
+    await bookSession(adminToken, { teacherId: teacher.id, studentId: student.id, hoursFromNow: 24 }).expect(201);
+    await bookSession(adminToken, { teacherId: teacher.id, studentId: student.id, hoursFromNow: 48 }).expect(201);
+
+    const students = await request(app.server)
+      .get('/admin/students')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(students.body[0].balance).toMatchObject({ availableUnits: -2, status: 'OK' });
+  });
+
+  it('flags low balances to admins and the student', async () => {
+    const { teacher, student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+    const studentToken = await loginAs('student@example.com', 'password123');
+
+    await makePrepaid(student.id, 3);
+    await bookSession(adminToken, { teacherId: teacher.id, studentId: student.id, hoursFromNow: 24 }).expect(201);
+
+    const students = await request(app.server)
+      .get('/admin/students')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(students.body[0].balance).toEqual({ balanceUnits: 3, scheduledUnits: 1, availableUnits: 2, status: 'LOW' });
+
+    const balance = await request(app.server)
+      .get('/student/hours/balance')
+      .set('Authorization', `Bearer ${studentToken}`)
+      .expect(200);
+    expect(balance.body).toEqual({
+      balanceUnits: 3,
+      scheduledUnits: 1,
+      availableUnits: 2,
+      status: 'LOW',
+      policy: { lowBalanceUnits: 2, blockScheduling: false, overdraftLimitUnits: 0 },
+    });
+  });
+});
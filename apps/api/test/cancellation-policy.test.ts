@@ -0,0 +1,275 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { Currency, HourLedgerReason, SessionCharge, SessionStatus, UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const teacher = await prisma.user.create({
+    data: { orgId: org.id, email: 'teacher@example.com', passwordHash, role: UserRole.TEACHER },
+  });
+  await prisma.teacherProfile.create({
+    data: { userId: teacher.id, displayName: 'Test Teacher', timeZone: 'Australia/Sydney' },
+  });
+
+  const student = await prisma.user.create({
+    data: { orgId: org.id, email: 'student@example.com', passwordHash, role: UserRole.STUDENT },
+  });
+  await prisma.studentProfile.create({
+    data: { userId: student.id, displayName: 'Test Student', timeZone: 'Asia/Shanghai' },
+  });
+
+  await prisma.teacherStudentRate.create({
+    data: {
+      teacherId: teacher.id,
+      studentId: student.id,
+      studentHourlyRateCents: 10000,
+      teacherHourlyWageCents: 10000,
+      currency: Currency.AUD,
+    },
+  });
+
+  return { org, admin, teacher, student };
+}
+
+async function createSession(params: {
+  teacherId: string;
+  studentId: string;
+  createdByAdminId: string;
+  startAtUtc: Date;
+  endAtUtc: Date;
+  classTimeZone?: string;
+  consumesUnits?: number;
+}) {
+  return app.prisma.session.create({
+    data: {
+      teacherId: params.teacherId,
+      studentId: params.studentId,
+      startAtUtc: params.startAtUtc,
+      endAtUtc: params.endAtUtc,
+      classTimeZone: params.classTimeZone ?? 'Australia/Sydney',
+      status: SessionStatus.SCHEDULED,
+      consumesUnits: params.consumesUnits ?? 1,
+      studentHourlyRateCentsSnapshot: 10000,
+      teacherHourlyWageCentsSnapshot: 10000,
+      currencySnapshot: Currency.AUD,
+      createdByAdminId: params.createdByAdminId,
+    },
+    select: { id: true },
+  });
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+
+  app = buildApp({ logger: false });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('cancellation policy', () => {
+  it('defaults to a 24h cutoff without late cancellations', async () => {
+    const { teacher, student, admin } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+    const studentToken = await loginAs('student@example.com', 'password123');
+
+    const policy = await request(app.server)
+      .get('/admin/cancellation-policy')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(policy.body).toEqual({
+      cutoffHours: 24,
+      allowLateCancellation: false,
+      lateCancelCharge: 'FULL',
+      lateCancelTeacherPaid: true,
+    });
+
+    const startAtUtc = new Date(Date.now() + 2 * HOUR_MS);
+    const session = await createSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      createdByAdminId: admin.id,
+      startAtUtc,
+      endAtUtc: new Date(startAtUtc.getTime() + HOUR_MS),
+    });
+
+    await request(app.server)
+      .post(`/student/sessions/${session.id}/change-requests`)
+      .set('Authorization', `Bearer ${studentToken}`)
+      .send({ type: 'CANCEL' })
+      .expect(403);
+  });
+
+  it('charges a late cancellation on approval and keeps the teacher payable', async () => {
+    const { teacher, student, admin, org } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+    const studentToken = await loginAs('student@example.com', 'password123');
+
+    await request(app.server)
+      .put('/admin/cancellation-policy')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ cutoffHours: 12, allowLateCancellation: true, lateCancelCharge: 'HALF', lateCancelTeacherPaid: true })
+      .expect(200);
+
+    const audit = await app.prisma.auditLog.findFirst({
+      where: { orgId: org.id, action: 'ADMIN_UPDATE_CANCELLATION_POLICY' },
+    });
+    expect(audit).not.toBeNull();
+
+    const studentPolicy = await request(app.server)
+      .get('/student/cancellation-policy')
+      .set('Authorization', `Bearer ${studentToken}`)
+      .expect(200);
+    expect(studentPolicy.body.cutoffHours).toBe(12);
+
+    const startAtUtc = new Date(Date.now() + 2 * HOUR_MS);
+    const session = await createSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      createdByAdminId: admin.id,
+      startAtUtc,
+      endAtUtc: new Date(startAtUtc.getTime() + HOUR_MS),
+      consumesUnits: 3,
+    });
+
+    await request(app.server)
+      .post(`/student/sessions/${session.id}/change-requests`)
+      .set('Authorization', `Bearer ${studentToken}`)
+      .send({
+        type: 'RESCHEDULE',
+        proposedStartAtUtc: new Date(startAtUtc.getTime() + 24 * HOUR_MS).toISOString(),
+        proposedEndAtUtc: new Date(startAtUtc.getTime() + 25 * HOUR_MS).toISOString(),
+        proposedTimeZone: 'Australia/Sydney',
+      })
+      .expect(403);
+
+    const created = await request(app.server)
+      .post(`/student/sessions/${session.id}/change-requests`)
+      .set('Authorization', `Bearer ${studentToken}`)
+      .send({ type: 'CANCEL' })
+      .expect(201);
+    expect(created.body.lateCancellation).toBe(true);
+
+    const approved = await request(app.server)
+      .post(`/admin/change-requests/${created.body.id}/approve`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({})
+      .expect(200);
+    expect(approved.body.lateCancel).toEqual({ charge: 'HALF', chargedUnits: 2, teacherPaid: true });
+
+    const entry = await app.prisma.hourLedgerEntry.findFirst({ where: { sessionId: session.id } });
+    expect(entry).toMatchObject({ deltaUnits: -2, reason: HourLedgerReason.LATE_CANCEL, teacherId: teacher.id });
+
+    const cancelled = await app.prisma.session.findUnique({ where: { id: session.id } });
+    expect(cancelled).toMatchObject({
+      status: SessionStatus.CANCELLED,
+      lateCancelCharge: SessionCharge.HALF,
+      teacherPaidOnCancel: true,
+    });
+  });
+
+  it('does not charge cancellations filed before the cutoff', async () => {
+    const { teacher, student, admin } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+    const studentToken = await loginAs('student@example.com', 'password123');
+
+    await request(app.server)
+      .put('/admin/cancellation-policy')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ cutoffHours: 12, allowLateCancellation: true, lateCancelCharge: 'FULL', lateCancelTeacherPaid: true })
+      .expect(200);
+
+    const startAtUtc = new Date(Date.now() + 48 * HOUR_MS);
+    const session = await createSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      createdByAdminId: admin.id,
+      startAtUtc,
+      endAtUtc: new Date(startAtUtc.getTime() + HOUR_MS),
+    });
+
+    const created = await request(app.server)
+      .post(`/student/sessions/${session.id}/change-requests`)
+      .set('Authorization', `Bearer ${studentToken}`)
+      .send({ type: 'CANCEL' })
+      .expect(201);
+    expect(created.body.lateCancellation).toBe(false);
+
+    const approved = await request(app.server)
+      .post(`/admin/change-requests/${created.body.id}/approve`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({})
+      .expect(200);
+    expect(approved.body.lateCancel).toBeNull();
+
+    expect(await app.prisma.hourLedgerEntry.count({ where: { sessionId: session.id } })).toBe(0);
+    const cancelled = await app.prisma.session.findUnique({ where: { id: session.id } });
+    expect(cancelled).toMatchObject({ lateCancelCharge: null, teacherPaidOnCancel: false });
+  });
+
+  it('validates policy updates', async () => {
+    await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    await request(app.server)
+      .put('/admin/cancellation-policy')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ cutoffHours: -1, allowLateCancellation: true, lateCancelCharge: 'FULL', lateCancelTeacherPaid: true })
+      .expect(400);
+
+    await request(app.server)
+      .put('/admin/cancellation-policy')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ cutoffHours: 6, allowLateCancellation: true, lateCancelCharge: 'SOME', lateCancelTeacherPaid: true })
+      .expect(400);
+  });
+});
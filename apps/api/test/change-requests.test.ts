@@ -13,8 +13,12 @@ async function resetDb() {
 
   await prisma.auditLog.deleteMany();
   await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
   await prisma.hourLedgerEntry.deleteMany();
   await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
   await prisma.teacherStudentRate.deleteMany();
   await prisma.studentProfile.deleteMany();
   await prisma.teacherProfile.deleteMany();
@@ -152,6 +156,95 @@ describe('change requests (step 8)', () => {
     }
   });
 
+  it('teacher can file change requests up to 2h before start and sees them listed', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const { teacher, student, admin } = await createOrgWithUsers();
+
+      const session1 = await createSession({
+        teacherId: teacher.id,
+        studentId: student.id,
+        createdByAdminId: admin.id,
+        startAtUtc: new Date('2030-01-02T02:00:00.000Z'),
+        endAtUtc: new Date('2030-01-02T03:00:00.000Z'),
+      });
+      const session2 = await createSession({
+        teacherId: teacher.id,
+        studentId: student.id,
+        createdByAdminId: admin.id,
+        startAtUtc: new Date('2030-01-02T02:00:00.000Z'),
+        endAtUtc: new Date('2030-01-02T03:00:00.000Z'),
+      });
+
+      vi.setSystemTime(new Date('2030-01-02T00:00:00.000Z'));
+      const teacherToken = await loginAs('teacher@example.com', 'password123');
+      const adminToken = await loginAs('admin@example.com', 'password123');
+
+      const created = await request(app.server)
+        .post(`/teacher/sessions/${session1.id}/change-requests`)
+        .set('Authorization', `Bearer ${teacherToken}`)
+        .send({ type: 'CANCEL' })
+        .expect(201);
+
+      vi.setSystemTime(new Date('2030-01-02T00:00:00.001Z'));
+
+      await request(app.server)
+        .post(`/teacher/sessions/${session2.id}/change-requests`)
+        .set('Authorization', `Bearer ${teacherToken}`)
+        .send({ type: 'CANCEL' })
+        .expect(403);
+
+      const own = await request(app.server)
+        .get('/teacher/change-requests')
+        .set('Authorization', `Bearer ${teacherToken}`)
+        .expect(200);
+      expect(own.body).toEqual([
+        expect.objectContaining({ id: created.body.id, sessionId: session1.id, type: 'CANCEL', status: 'PENDING' }),
+      ]);
+
+      const adminList = await request(app.server)
+        .get('/admin/change-requests')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(adminList.body[0]).toMatchObject({
+        id: created.body.id,
+        requestedByUserId: teacher.id,
+        requestedByRole: 'TEACHER',
+        requestedByName: 'Test Teacher',
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('teacher cannot file change requests for another teacher session', async () => {
+    const { org, student, admin } = await createOrgWithUsers();
+
+    const otherTeacher = await app.prisma.user.create({
+      data: {
+        orgId: org.id,
+        email: 'teacher2@example.com',
+        passwordHash: hashPassword('password123'),
+        role: UserRole.TEACHER,
+      },
+    });
+    const session = await createSession({
+      teacherId: otherTeacher.id,
+      studentId: student.id,
+      createdByAdminId: admin.id,
+      startAtUtc: new Date('2030-01-10T10:00:00.000Z'),
+      endAtUtc: new Date('2030-01-10T11:00:00.000Z'),
+    });
+
+    const teacherToken = await loginAs('teacher@example.com', 'password123');
+
+    await request(app.server)
+      .post(`/teacher/sessions/${session.id}/change-requests`)
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .send({ type: 'CANCEL' })
+      .expect(404);
+  });
+
   it('rejects a second change request when a PENDING one already exists', async () => {
     const { teacher, student, admin } = await createOrgWithUsers();
 
@@ -245,6 +338,64 @@ describe('change requests (step 8)', () => {
     expect(audit).toBeTruthy();
   });
 
+  it('admin approve of a RESCHEDULE into a student conflict needs an explicit override', async () => {
+    const { teacher, student, admin } = await createOrgWithUsers();
+
+    const session = await createSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      createdByAdminId: admin.id,
+      startAtUtc: new Date('2030-01-10T10:00:00.000Z'),
+      endAtUtc: new Date('2030-01-10T11:00:00.000Z'),
+    });
+    const blocking = await createSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      createdByAdminId: admin.id,
+      startAtUtc: new Date('2030-01-11T10:30:00.000Z'),
+      endAtUtc: new Date('2030-01-11T11:30:00.000Z'),
+    });
+
+    const studentToken = await loginAs('student@example.com', 'password123');
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const created = await request(app.server)
+      .post(`/student/sessions/${session.id}/change-requests`)
+      .set('Authorization', `Bearer ${studentToken}`)
+      .send({
+        type: 'RESCHEDULE',
+        proposedStartAtUtc: '2030-01-11T10:00:00.000Z',
+        proposedEndAtUtc: '2030-01-11T11:00:00.000Z',
+        proposedTimeZone: 'Australia/Sydney',
+      })
+      .expect(201);
+
+    const changeRequestId: string = created.body.id;
+
+    const rejected = await request(app.server)
+      .post(`/admin/change-requests/${changeRequestId}/approve`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(409);
+
+    expect(rejected.body).toMatchObject({
+      message: 'Teacher and student time conflict',
+      conflictSessionId: blocking.id,
+      conflicts: [{ sessionId: blocking.id, parties: ['TEACHER', 'STUDENT'] }],
+    });
+
+    await request(app.server)
+      .post(`/admin/change-requests/${changeRequestId}/approve`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ overrideConflicts: true })
+      .expect(200);
+
+    const audit = await app.prisma.auditLog.findFirst({
+      where: { action: 'ADMIN_APPROVE_CHANGE_REQUEST', entityId: changeRequestId },
+      select: { meta: true },
+    });
+    expect(audit?.meta).toMatchObject({ overrideConflicts: true });
+  });
+
   it('admin approve updates session status for CANCEL', async () => {
     const { teacher, student, admin } = await createOrgWithUsers();
 
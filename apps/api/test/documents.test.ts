@@ -0,0 +1,218 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { Currency, HourLedgerReason, SessionStatus, UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const teacher = await prisma.user.create({
+    data: { orgId: org.id, email: 'teacher@example.com', passwordHash, role: UserRole.TEACHER },
+  });
+  await prisma.teacherProfile.create({
+    data: { userId: teacher.id, displayName: 'Test Teacher', timeZone: 'Australia/Sydney' },
+  });
+
+  const student = await prisma.user.create({
+    data: { orgId: org.id, email: 'student@example.com', passwordHash, role: UserRole.STUDENT },
+  });
+  await prisma.studentProfile.create({
+    data: { userId: student.id, displayName: 'Test Student', timeZone: 'Asia/Shanghai' },
+  });
+
+  await prisma.teacherStudentRate.create({
+    data: {
+      teacherId: teacher.id,
+      studentId: student.id,
+      studentHourlyRateCents: 10000,
+      teacherHourlyWageCents: 10000,
+      currency: Currency.AUD,
+    },
+  });
+
+  return { org, admin, teacher, student };
+}
+// supertest leaves unknown binary bodies unread, so collect the PDF bytes ourselves.
+function binaryParser(res: request.Response, callback: (err: Error | null, body: Buffer) => void) {
+  const stream = res as unknown as NodeJS.ReadableStream;
+  const chunks: Buffer[] = [];
+  stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+  stream.on('end', () => callback(null, Buffer.concat(chunks)));
+}
+
+async function createCompletedSession(params: { teacherId: string; studentId: string; createdByAdminId: string }) {
+  const session = await app.prisma.session.create({
+    data: {
+      teacherId: params.teacherId,
+      studentId: params.studentId,
+      startAtUtc: new Date('2030-06-04T01:00:00.000Z'),
+      endAtUtc: new Date('2030-06-04T02:00:00.000Z'),
+      classTimeZone: 'Australia/Sydney',
+      status: SessionStatus.COMPLETED,
+      consumesUnits: 1,
+      studentHourlyRateCentsSnapshot: 10000,
+      teacherHourlyWageCentsSnapshot: 6000,
+      currencySnapshot: Currency.AUD,
+      createdByAdminId: params.createdByAdminId,
+    },
+    select: { id: true },
+  });
+  await app.prisma.hourLedgerEntry.create({
+    data: {
+      studentId: params.studentId,
+      teacherId: params.teacherId,
+      sessionId: session.id,
+      deltaUnits: -1,
+      reason: HourLedgerReason.SESSION_CONSUME,
+    },
+  });
+  return session;
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+
+  app = buildApp({ logger: false });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+describe('documents', () => {
+  it('serves payslips to the teacher and admin as PDF downloads', async () => {
+    const { teacher, student, admin } = await createOrgWithUsers();
+    await createCompletedSession({ teacherId: teacher.id, studentId: student.id, createdByAdminId: admin.id });
+    const teacherToken = await loginAs('teacher@example.com', 'password123');
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const own = await request(app.server)
+      .get('/teacher/payroll/payslip.pdf?weekStart=2030-06-03')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .buffer(true)
+      .parse(binaryParser)
+      .expect(200);
+    expect(own.headers['content-type']).toContain('application/pdf');
+    expect(own.headers['content-disposition']).toBe('attachment; filename="payslip-2030-06-03.pdf"');
+    expect((own.body as Buffer).subarray(0, 5).toString('latin1')).toBe('%PDF-');
+
+    const viaAdmin = await request(app.server)
+      .get(`/admin/teachers/${teacher.id}/payslip.pdf?weekStart=2030-06-03`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .buffer(true)
+      .parse(binaryParser)
+      .expect(200);
+    expect((viaAdmin.body as Buffer).subarray(0, 5).toString('latin1')).toBe('%PDF-');
+
+    await request(app.server)
+      .get('/teacher/payroll/payslip.pdf?weekStart=2030-06-04')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .expect(400);
+  });
+
+  it('serves statements to the student and admin as PDF downloads', async () => {
+    const { teacher, student, admin } = await createOrgWithUsers();
+    await createCompletedSession({ teacherId: teacher.id, studentId: student.id, createdByAdminId: admin.id });
+    const studentToken = await loginAs('student@example.com', 'password123');
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const own = await request(app.server)
+      .get('/student/statement.pdf?from=2020-01-01&to=2020-12-31')
+      .set('Authorization', `Bearer ${studentToken}`)
+      .buffer(true)
+      .parse(binaryParser)
+      .expect(200);
+    expect(own.headers['content-disposition']).toBe('attachment; filename="statement-2020-01-01-2020-12-31.pdf"');
+    expect((own.body as Buffer).subarray(0, 5).toString('latin1')).toBe('%PDF-');
+
+    await request(app.server)
+      .get(`/admin/students/${student.id}/statement.pdf?from=2020-01-01&to=2020-12-31`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .buffer(true)
+      .parse(binaryParser)
+      .expect(200);
+
+    await request(app.server)
+      .get('/student/statement.pdf?from=2020-12-31&to=2020-01-01')
+      .set('Authorization', `Bearer ${studentToken}`)
+      .expect(400);
+  });
+
+  it('stores document branding per org', async () => {
+    const { org } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const defaults = await request(app.server)
+      .get('/admin/document-branding')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(defaults.body).toEqual({ headerName: null, contactLine: null, accentColor: '#1F2937', footerNote: null });
+
+    const saved = await request(app.server)
+      .put('/admin/document-branding')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ headerName: '桂冠教育', contactLine: ' ', accentColor: '#0EA5E9', footerNote: 'Thank you' })
+      .expect(200);
+    expect(saved.body).toEqual({
+      headerName: '桂冠教育',
+      contactLine: null,
+      accentColor: '#0EA5E9',
+      footerNote: 'Thank you',
+    });
+
+    await request(app.server)
+      .put('/admin/document-branding')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ headerName: null, contactLine: null, accentColor: 'blue', footerNote: null })
+      .expect(400);
+
+    const audit = await app.prisma.auditLog.findFirst({
+      where: { orgId: org.id, action: 'ADMIN_UPDATE_DOCUMENT_BRANDING' },
+    });
+    expect(audit).not.toBeNull();
+  });
+});
@@ -0,0 +1,270 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { Currency, SessionStatus, UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const teacher = await prisma.user.create({
+    data: { orgId: org.id, email: 'teacher@example.com', passwordHash, role: UserRole.TEACHER },
+  });
+  await prisma.teacherProfile.create({
+    data: { userId: teacher.id, displayName: 'Test Teacher', timeZone: 'Australia/Sydney' },
+  });
+
+  const student = await prisma.user.create({
+    data: { orgId: org.id, email: 'student@example.com', passwordHash, role: UserRole.STUDENT },
+  });
+  await prisma.studentProfile.create({
+    data: { userId: student.id, displayName: 'Test Student', timeZone: 'Australia/Sydney' },
+  });
+
+  return { org, admin, teacher, student };
+}
+
+async function seedSessions() {
+  const users = await createOrgWithUsers();
+  const { admin, teacher, student } = users;
+
+  const base = {
+    teacherId: teacher.id,
+    studentId: student.id,
+    classTimeZone: 'Australia/Sydney',
+    status: SessionStatus.COMPLETED,
+    consumesUnits: 1,
+    createdByAdminId: admin.id,
+  };
+
+  await app.prisma.session.createMany({
+    data: [
+      {
+        ...base,
+        startAtUtc: new Date('2030-06-03T00:00:00.000Z'),
+        endAtUtc: new Date('2030-06-03T01:00:00.000Z'),
+        studentHourlyRateCentsSnapshot: 10000,
+        teacherHourlyWageCentsSnapshot: 6000,
+        currencySnapshot: Currency.AUD,
+      },
+      {
+        ...base,
+        startAtUtc: new Date('2030-06-04T00:00:00.000Z'),
+        endAtUtc: new Date('2030-06-04T01:00:00.000Z'),
+        studentHourlyRateCentsSnapshot: 9000,
+        teacherHourlyWageCentsSnapshot: 5000,
+        currencySnapshot: Currency.USD,
+      },
+      {
+        ...base,
+        startAtUtc: new Date('2030-06-05T00:00:00.000Z'),
+        endAtUtc: new Date('2030-06-05T01:00:00.000Z'),
+        studentHourlyRateCentsSnapshot: 30000,
+        teacherHourlyWageCentsSnapshot: 20000,
+        currencySnapshot: Currency.CNY,
+      },
+    ],
+  });
+
+  return users;
+}
+
+const RATES_CSV = [
+  'effective_date,from_currency,to_currency,rate',
+  '2030-06-01,USD,AUD,1.5',
+  '2030-06-05,USD,AUD,1.6',
+  '2030-06-01,AUD,CNY,5',
+].join('\n');
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+
+  app = buildApp({ logger: false });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+describe('exchange rates', () => {
+  it('lets admins enter, import, list and delete rates', async () => {
+    await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const imported = await request(app.server)
+      .post('/admin/exchange-rates/import')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ csv: RATES_CSV })
+      .expect(200);
+    expect(imported.body).toEqual({ imported: 3 });
+
+    const updated = await request(app.server)
+      .put('/admin/exchange-rates')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ fromCurrency: 'USD', toCurrency: 'AUD', effectiveDate: '2030-06-05', rate: '1.61' })
+      .expect(200);
+    expect(updated.body).toMatchObject({ fromCurrency: 'USD', toCurrency: 'AUD', rate: '1.61000000' });
+
+    const list = await request(app.server)
+      .get('/admin/exchange-rates')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(list.body.baseCurrency).toBe('AUD');
+    expect(
+      list.body.rates.map((rate: { effectiveDate: string; fromCurrency: string; toCurrency: string; rate: string }) =>
+        [rate.effectiveDate, rate.fromCurrency, rate.toCurrency, rate.rate].join(' '),
+      ),
+    ).toEqual(['2030-06-05 USD AUD 1.61000000', '2030-06-01 AUD CNY 5.00000000', '2030-06-01 USD AUD 1.50000000']);
+
+    await request(app.server)
+      .delete(`/admin/exchange-rates/${updated.body.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(await app.prisma.exchangeRate.count()).toBe(2);
+
+    const audit = await app.prisma.auditLog.findMany({ orderBy: { createdAt: 'asc' }, select: { action: true } });
+    expect(audit.map((entry) => entry.action)).toEqual([
+      'ADMIN_IMPORT_EXCHANGE_RATES',
+      'ADMIN_UPSERT_EXCHANGE_RATE',
+      'ADMIN_DELETE_EXCHANGE_RATE',
+    ]);
+  });
+
+  it('rejects the whole CSV when any row is invalid', async () => {
+    await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const res = await request(app.server)
+      .post('/admin/exchange-rates/import')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ csv: `${RATES_CSV}\n2030-06-31,USD,AUD,1.5\n2030-07-01,USD,USD,1\n2030-07-01,EUR,AUD,-1` })
+      .expect(400);
+
+    expect(res.body.errors).toHaveLength(3);
+    expect(res.body.errors[0]).toMatch(/^Line 5: /);
+    expect(await app.prisma.exchangeRate.count()).toBe(0);
+
+    await request(app.server)
+      .put('/admin/exchange-rates')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ fromCurrency: 'USD', toCurrency: 'AUD', effectiveDate: '2030-06-01', rate: '0' })
+      .expect(400);
+  });
+
+  it('converts report figures at each session date and keeps the original currencies', async () => {
+    await seedSessions();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    await request(app.server)
+      .post('/admin/exchange-rates/import')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ csv: RATES_CSV })
+      .expect(200);
+
+    const res = await request(app.server)
+      .get('/admin/reports?from=2030-06-01&to=2030-06-30&reportingCurrency=AUD')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(res.body.totals.map((figures: { currency: string }) => figures.currency)).toEqual(['AUD', 'CNY', 'USD']);
+    // USD at 1.5 (its 1.6 rate starts the day after), CNY through the inverse of AUD→CNY at 5.
+    expect(res.body.converted).toEqual({
+      currency: 'AUD',
+      sessionsCount: 3,
+      revenueCents: 10000 + 13500 + 6000,
+      wageCostCents: 6000 + 7500 + 4000,
+      marginCents: 4000 + 6000 + 2000,
+    });
+    expect(res.body.byPeriod[0].converted.revenueCents).toBe(29500);
+  });
+
+  it('converts payroll through the base currency when a pair has no rate of its own', async () => {
+    await seedSessions();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+    const teacherToken = await loginAs('teacher@example.com', 'password123');
+
+    await request(app.server)
+      .post('/admin/exchange-rates/import')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ csv: RATES_CSV })
+      .expect(200);
+
+    const payroll = await request(app.server)
+      .get('/teacher/payroll?periodStart=2030-06-03&reportingCurrency=USD')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .expect(200);
+
+    // AUD 60.00 / 1.5 + USD 50.00 + CNY 200.00 / 5 / 1.6 (USD→AUD from 2030-06-05).
+    expect(payroll.body.converted).toEqual({ currency: 'USD', totalCents: 4000 + 5000 + 2500 });
+    expect(payroll.body.totals).toHaveLength(3);
+    expect(payroll.body.byStudent[0].converted).toEqual({ currency: 'USD', totalCents: 11500 });
+
+    const orgPayroll = await request(app.server)
+      .get('/admin/payroll?periodStart=2030-06-03&reportingCurrency=USD')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(orgPayroll.body.converted).toEqual({ currency: 'USD', totalCents: 11500 });
+    expect(orgPayroll.body.teachers[0].converted).toEqual({ currency: 'USD', totalCents: 11500 });
+
+    const withoutCurrency = await request(app.server)
+      .get('/teacher/payroll?periodStart=2030-06-03')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .expect(200);
+    expect(withoutCurrency.body).not.toHaveProperty('converted');
+
+    await request(app.server)
+      .put('/admin/exchange-rates/base-currency')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ baseCurrency: 'USD' })
+      .expect(200);
+
+    const missing = await request(app.server)
+      .get('/teacher/payroll?periodStart=2030-06-03&reportingCurrency=USD')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .expect(409);
+    expect(missing.body.message).toBe('No exchange rate for CNY→USD on 2030-06-05');
+  });
+});
@@ -0,0 +1,325 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { Currency, HourLedgerReason, SessionStatus, Subject, UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { completeEndedSessions } from '../src/jobs/completeEndedSessions.js';
+import { expireHourLots } from '../src/jobs/expireHourLots.js';
+import { addMonthsUtc } from '../src/lib/hourPackages.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const teacher = await prisma.user.create({
+    data: {
+      orgId: org.id,
+      email: 'teacher@example.com',
+      passwordHash,
+      role: UserRole.TEACHER,
+      teacherProfile: { create: { displayName: 'Test Teacher', timeZone: 'Australia/Sydney' } },
+    },
+  });
+
+  const student = await prisma.user.create({
+    data: {
+      orgId: org.id,
+      email: 'student@example.com',
+      passwordHash,
+      role: UserRole.STUDENT,
+      studentProfile: { create: { displayName: 'Test Student', timeZone: 'Asia/Shanghai' } },
+    },
+  });
+
+  return { org, admin, teacher, student };
+}
+
+async function createEndedSession(params: {
+  teacherId: string;
+  studentId: string;
+  adminId: string;
+  subject: Subject;
+  endAtUtc: Date;
+  consumesUnits: number;
+}) {
+  return app.prisma.session.create({
+    data: {
+      teacherId: params.teacherId,
+      studentId: params.studentId,
+      subject: params.subject,
+      startAtUtc: new Date(params.endAtUtc.getTime() - params.consumesUnits * 60 * 60 * 1000),
+      endAtUtc: params.endAtUtc,
+      classTimeZone: 'Australia/Sydney',
+      status: SessionStatus.SCHEDULED,
+      consumesUnits: params.consumesUnits,
+      studentHourlyRateCentsSnapshot: 10000,
+      teacherHourlyWageCentsSnapshot: 5000,
+      currencySnapshot: Currency.AUD,
+      createdByAdminId: params.adminId,
+    },
+    select: { id: true },
+  });
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+
+  app = buildApp({ logger: false });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+describe('hour packages', () => {
+  it('manages the catalog and sells packages as priced lots', async () => {
+    const { org, student, teacher } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const created = await request(app.server)
+      .post('/admin/packages')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        name: '20h Maths',
+        subject: 'MATHEMATICS',
+        units: 20,
+        priceCents: 180000,
+        currency: 'AUD',
+        validityMonths: 6,
+      })
+      .expect(201);
+    expect(created.body).toMatchObject({ name: '20h Maths', subject: 'MATHEMATICS', units: 20, active: true });
+
+    await request(app.server)
+      .post('/admin/packages')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: 'Broken', units: 0, priceCents: 100, currency: 'AUD' })
+      .expect(400);
+
+    const sold = await request(app.server)
+      .post(`/admin/students/${student.id}/packages`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ packageId: created.body.id, teacherId: teacher.id, priceCents: 170000 })
+      .expect(201);
+    expect(sold.body).toMatchObject({
+      packageName: '20h Maths',
+      teacherId: teacher.id,
+      subject: 'MATHEMATICS',
+      units: 20,
+      remainingUnits: 20,
+      priceCents: 170000,
+      currency: 'AUD',
+      status: 'ACTIVE',
+    });
+    expect(sold.body.expiresAt).toBe(addMonthsUtc(new Date(sold.body.purchasedAt), 6).toISOString());
+
+    const purchase = await app.prisma.hourLedgerEntry.findFirstOrThrow({
+      where: { studentId: student.id },
+      select: { deltaUnits: true, reason: true, amountCents: true, currency: true, teacherId: true },
+    });
+    expect(purchase).toEqual({
+      deltaUnits: 20,
+      reason: HourLedgerReason.PURCHASE,
+      amountCents: 170000,
+      currency: Currency.AUD,
+      teacherId: teacher.id,
+    });
+
+    // Catalog edits only affect future sales.
+    await request(app.server)
+      .put(`/admin/packages/${created.body.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ units: 25, active: false })
+      .expect(200);
+
+    const lots = await request(app.server)
+      .get(`/admin/students/${student.id}/packages`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(lots.body.lots).toHaveLength(1);
+    expect(lots.body.lots[0]).toMatchObject({ units: 20, remainingUnits: 20 });
+
+    const retired = await request(app.server)
+      .post(`/admin/students/${student.id}/packages`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ packageId: created.body.id })
+      .expect(409);
+    expect(retired.body.message).toBe('Package is no longer on sale');
+
+    const audit = await app.prisma.auditLog.findMany({
+      where: { orgId: org.id },
+      orderBy: { createdAt: 'asc' },
+      select: { action: true },
+    });
+    expect(audit.map((entry) => entry.action)).toEqual([
+      'ADMIN_CREATE_HOUR_PACKAGE',
+      'ADMIN_SELL_HOUR_PACKAGE',
+      'ADMIN_UPDATE_HOUR_PACKAGE',
+    ]);
+  });
+
+  it('consumes completed sessions from the oldest valid lot first', async () => {
+    const { org, admin, teacher, student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const general = await app.prisma.hourPackage.create({
+      data: { orgId: org.id, name: '2h', units: 2, priceCents: 20000, currency: Currency.AUD },
+    });
+    const maths = await app.prisma.hourPackage.create({
+      data: {
+        orgId: org.id,
+        name: '5h Maths',
+        subject: Subject.MATHEMATICS,
+        units: 5,
+        priceCents: 45000,
+        currency: Currency.AUD,
+      },
+    });
+
+    const sell = async (packageId: string) => {
+      const res = await request(app.server)
+        .post(`/admin/students/${student.id}/packages`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ packageId })
+        .expect(201);
+      return res.body.id as string;
+    };
+
+    // Bought in this order: Maths first, then the general lot.
+    const mathsLotId = await sell(maths.id);
+    const generalLotId = await sell(general.id);
+    await app.prisma.hourLot.update({ where: { id: mathsLotId }, data: { purchasedAt: new Date(Date.now() - 2000) } });
+
+    const endAtUtc = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+    const english = await createEndedSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      adminId: admin.id,
+      subject: Subject.ENGLISH,
+      endAtUtc,
+      consumesUnits: 1,
+    });
+    const mathsSession = await createEndedSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      adminId: admin.id,
+      subject: Subject.MATHEMATICS,
+      endAtUtc: new Date(endAtUtc.getTime() + 60 * 60 * 1000),
+      consumesUnits: 6,
+    });
+
+    await completeEndedSessions(app.prisma);
+    await completeEndedSessions(app.prisma);
+
+    const allocations = await app.prisma.hourLotAllocation.findMany({
+      select: { lotId: true, units: true, ledgerEntry: { select: { sessionId: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    expect(allocations).toEqual([
+      // English cannot use the Maths-only lot.
+      { lotId: generalLotId, units: 1, ledgerEntry: { sessionId: english.id } },
+      // Maths drains the older Maths lot, then the rest of the general lot.
+      { lotId: mathsLotId, units: 5, ledgerEntry: { sessionId: mathsSession.id } },
+      { lotId: generalLotId, units: 1, ledgerEntry: { sessionId: mathsSession.id } },
+    ]);
+
+    const lots = await request(app.server)
+      .get(`/admin/students/${student.id}/packages`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(lots.body.lots).toEqual([
+      expect.objectContaining({ id: mathsLotId, remainingUnits: 0, status: 'USED_UP' }),
+      expect.objectContaining({ id: generalLotId, remainingUnits: 0, status: 'USED_UP' }),
+    ]);
+
+    const balance = await app.prisma.hourLedgerEntry.aggregate({
+      where: { studentId: student.id },
+      _sum: { deltaUnits: true },
+    });
+    expect(balance._sum.deltaUnits).toBe(0);
+  });
+
+  it('writes off unused units when a lot expires', async () => {
+    const { org, student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const hourPackage = await app.prisma.hourPackage.create({
+      data: { orgId: org.id, name: '10h', units: 10, priceCents: 90000, currency: Currency.AUD, validityMonths: 6 },
+    });
+    const sold = await request(app.server)
+      .post(`/admin/students/${student.id}/packages`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ packageId: hourPackage.id })
+      .expect(201);
+    await app.prisma.hourLot.update({ where: { id: sold.body.id }, data: { remainingUnits: 4 } });
+
+    const expiresAt = new Date(sold.body.expiresAt as string);
+    expect(await expireHourLots(app.prisma, { now: new Date(expiresAt.getTime() - 1000) })).toEqual({
+      processed: 0,
+      expiredUnits: 0,
+    });
+
+    const now = new Date(expiresAt.getTime() + 1000);
+    expect(await expireHourLots(app.prisma, { now })).toEqual({ processed: 1, expiredUnits: 4 });
+    expect(await expireHourLots(app.prisma, { now })).toEqual({ processed: 0, expiredUnits: 0 });
+
+    const expiry = await app.prisma.hourLedgerEntry.findMany({
+      where: { studentId: student.id, reason: HourLedgerReason.EXPIRY },
+      select: { deltaUnits: true, lotAllocations: { select: { lotId: true, units: true } } },
+    });
+    expect(expiry).toEqual([{ deltaUnits: -4, lotAllocations: [{ lotId: sold.body.id, units: 4 }] }]);
+
+    const lot = await app.prisma.hourLot.findUniqueOrThrow({ where: { id: sold.body.id } });
+    expect(lot.remainingUnits).toBe(0);
+    expect(lot.expiredAt?.toISOString()).toBe(now.toISOString());
+
+    const studentToken = await loginAs('student@example.com', 'password123');
+    const packages = await request(app.server)
+      .get('/student/packages')
+      .set('Authorization', `Bearer ${studentToken}`)
+      .expect(200);
+    expect(packages.body.lots).toEqual([expect.objectContaining({ id: sold.body.id, status: 'EXPIRED' })]);
+  });
+});
@@ -0,0 +1,200 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { HourLedgerReason, UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const [teacherA, teacherB] = await Promise.all(
+    ['Teacher A', 'Teacher B'].map((displayName, index) =>
+      prisma.user.create({
+        data: {
+          orgId: org.id,
+          email: `teacher${index}@example.com`,
+          passwordHash,
+          role: UserRole.TEACHER,
+          teacherProfile: { create: { displayName, timeZone: 'Australia/Sydney' } },
+        },
+      }),
+    ),
+  );
+
+  const [student, sibling] = await Promise.all(
+    ['Older Sibling', 'Younger Sibling'].map((displayName, index) =>
+      prisma.user.create({
+        data: {
+          orgId: org.id,
+          email: `student${index}@example.com`,
+          passwordHash,
+          role: UserRole.STUDENT,
+          studentProfile: { create: { displayName, timeZone: 'Asia/Shanghai' } },
+        },
+      }),
+    ),
+  );
+
+  return { org, admin, teacherA: teacherA!, teacherB: teacherB!, student: student!, sibling: sibling! };
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+
+  app = buildApp({ logger: false });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+describe('hour transfers', () => {
+  it('moves units between teacher buckets as one linked row', async () => {
+    const { org, teacherA, teacherB, student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    await app.prisma.hourLedgerEntry.create({
+      data: { studentId: student.id, teacherId: teacherA.id, deltaUnits: 10, reason: HourLedgerReason.PURCHASE },
+    });
+
+    const transfer = await request(app.server)
+      .post(`/admin/students/${student.id}/hours/transfers`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ fromTeacherId: teacherA.id, toTeacherId: teacherB.id, units: 4, note: 'Switched teacher' })
+      .expect(201);
+    expect(transfer.body).toMatchObject({
+      units: 4,
+      note: 'Switched teacher',
+      from: { studentId: student.id, teacherId: teacherA.id, teacherName: 'Teacher A' },
+      to: { studentId: student.id, teacherId: teacherB.id, teacherName: 'Teacher B' },
+    });
+
+    const entries = await app.prisma.hourLedgerEntry.findMany({
+      where: { transferId: transfer.body.id },
+      orderBy: { deltaUnits: 'asc' },
+    });
+    expect(entries.map((entry) => [entry.teacherId, entry.deltaUnits, entry.reason])).toEqual([
+      [teacherA.id, -4, HourLedgerReason.TRANSFER],
+      [teacherB.id, 4, HourLedgerReason.TRANSFER],
+    ]);
+
+    const detail = await request(app.server)
+      .get(`/admin/students/${student.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(detail.body.remainingUnits).toBe(10);
+    expect(detail.body.hoursByTeacher.byTeacher).toEqual([
+      { teacherId: teacherA.id, teacherName: 'Teacher A', remainingUnits: 6 },
+      { teacherId: teacherB.id, teacherName: 'Teacher B', remainingUnits: 4 },
+    ]);
+    const transferRows = detail.body.ledgerEntries.filter((entry: { reason: string }) => entry.reason === 'TRANSFER');
+    expect(transferRows).toHaveLength(1);
+    expect(transferRows[0]).toMatchObject({ deltaUnits: 0, transfer: { id: transfer.body.id } });
+
+    const audit = await app.prisma.auditLog.findMany({ where: { orgId: org.id, action: 'ADMIN_TRANSFER_HOURS' } });
+    expect(audit).toHaveLength(1);
+    expect(audit[0]?.entityId).toBe(transfer.body.id);
+  });
+
+  it('moves units to a sibling', async () => {
+    const { student, sibling } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    await app.prisma.hourLedgerEntry.create({
+      data: { studentId: student.id, deltaUnits: 5, reason: HourLedgerReason.PURCHASE },
+    });
+
+    await request(app.server)
+      .post(`/admin/students/${student.id}/hours/transfers`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ toStudentId: sibling.id, units: 3 })
+      .expect(201);
+
+    const [from, to] = await Promise.all(
+      [student.id, sibling.id].map((id) =>
+        request(app.server).get(`/admin/students/${id}`).set('Authorization', `Bearer ${adminToken}`).expect(200),
+      ),
+    );
+    expect(from!.body.remainingUnits).toBe(2);
+    expect(to!.body.remainingUnits).toBe(3);
+    expect(to!.body.ledgerEntries).toHaveLength(1);
+    expect(to!.body.ledgerEntries[0]).toMatchObject({
+      deltaUnits: 3,
+      reason: 'TRANSFER',
+      transfer: { from: { studentId: student.id, studentName: 'Older Sibling' }, to: { studentId: sibling.id } },
+    });
+  });
+
+  it('rejects transfers the source bucket cannot cover', async () => {
+    const { teacherA, student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    await app.prisma.hourLedgerEntry.create({
+      data: { studentId: student.id, teacherId: teacherA.id, deltaUnits: 2, reason: HourLedgerReason.PURCHASE },
+    });
+
+    const res = await request(app.server)
+      .post(`/admin/students/${student.id}/hours/transfers`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ toTeacherId: teacherA.id, units: 1 })
+      .expect(409);
+    expect(res.body).toMatchObject({ availableUnits: 0 });
+
+    await request(app.server)
+      .post(`/admin/students/${student.id}/hours/transfers`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ fromTeacherId: teacherA.id, toTeacherId: teacherA.id, units: 1 })
+      .expect(400);
+
+    await request(app.server)
+      .post(`/admin/students/${student.id}/hours/transfers`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ fromTeacherId: teacherA.id, toStudentId: teacherA.id, units: 1 })
+      .expect(404);
+
+    expect(await app.prisma.hourLedgerEntry.count({ where: { reason: HourLedgerReason.TRANSFER } })).toBe(0);
+  });
+});
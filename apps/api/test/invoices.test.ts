@@ -0,0 +1,375 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { AttendanceOutcome, Currency, HourLedgerReason, SessionStatus, UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const teacher = await prisma.user.create({
+    data: { orgId: org.id, email: 'teacher@example.com', passwordHash, role: UserRole.TEACHER },
+  });
+  await prisma.teacherProfile.create({
+    data: { userId: teacher.id, displayName: 'Test Teacher', timeZone: 'Australia/Sydney' },
+  });
+
+  const student = await prisma.user.create({
+    data: { orgId: org.id, email: 'student@example.com', passwordHash, role: UserRole.STUDENT },
+  });
+  await prisma.studentProfile.create({
+    data: { userId: student.id, displayName: 'Test Student', timeZone: 'Asia/Shanghai' },
+  });
+
+  await prisma.teacherStudentRate.create({
+    data: {
+      teacherId: teacher.id,
+      studentId: student.id,
+      studentHourlyRateCents: 10000,
+      teacherHourlyWageCents: 10000,
+      currency: Currency.AUD,
+    },
+  });
+
+  return { org, admin, teacher, student };
+}
+
+async function createSession(params: {
+  teacherId: string;
+  studentId: string;
+  createdByAdminId: string;
+  startAtUtc: Date;
+  endAtUtc: Date;
+  status?: SessionStatus;
+  attendance?: AttendanceOutcome;
+  consumesUnits?: number;
+  currency?: Currency;
+  studentHourlyRateCents?: number;
+}) {
+  return app.prisma.session.create({
+    data: {
+      teacherId: params.teacherId,
+      studentId: params.studentId,
+      startAtUtc: params.startAtUtc,
+      endAtUtc: params.endAtUtc,
+      classTimeZone: 'Asia/Shanghai',
+      status: params.status ?? SessionStatus.COMPLETED,
+      ...(params.attendance ? { attendance: params.attendance } : {}),
+      consumesUnits: params.consumesUnits ?? 1,
+      studentHourlyRateCentsSnapshot: params.studentHourlyRateCents ?? 10000,
+      teacherHourlyWageCentsSnapshot: 6000,
+      currencySnapshot: params.currency ?? Currency.AUD,
+      createdByAdminId: params.createdByAdminId,
+    },
+    select: { id: true },
+  });
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+
+  app = buildApp({ logger: false });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+describe('invoices', () => {
+  it('bills completed sessions per currency and numbers invoices when issued', async () => {
+    const { teacher, student, admin, org } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+    const studentToken = await loginAs('student@example.com', 'password123');
+
+    await createSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      createdByAdminId: admin.id,
+      startAtUtc: new Date('2026-03-02T02:00:00.000Z'),
+      endAtUtc: new Date('2026-03-02T03:30:00.000Z'),
+    });
+    await createSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      createdByAdminId: admin.id,
+      startAtUtc: new Date('2026-03-03T02:00:00.000Z'),
+      endAtUtc: new Date('2026-03-03T03:00:00.000Z'),
+      currency: Currency.CNY,
+      studentHourlyRateCents: 30000,
+    });
+    // Ends after local midnight on 31 March in Shanghai, so it falls outside the March period.
+    await createSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      createdByAdminId: admin.id,
+      startAtUtc: new Date('2026-03-31T15:30:00.000Z'),
+      endAtUtc: new Date('2026-03-31T16:30:00.000Z'),
+    });
+
+    const generated = await request(app.server)
+      .post('/admin/invoices/generate')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ studentId: student.id, periodStart: '2026-03-01', periodEnd: '2026-03-31' })
+      .expect(201);
+    expect(generated.body).toHaveLength(2);
+    expect(generated.body[0]).toMatchObject({
+      currency: 'AUD',
+      status: 'DRAFT',
+      number: null,
+      billingMode: 'PER_SESSION',
+      totalCents: 15000,
+    });
+    expect(generated.body[0].lines).toEqual([
+      expect.objectContaining({ kind: 'SESSION', quantity: 90, unitAmountCents: 10000, amountCents: 15000 }),
+    ]);
+    expect(generated.body[1]).toMatchObject({ currency: 'CNY', totalCents: 30000 });
+
+    await request(app.server)
+      .post('/admin/invoices/generate')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ studentId: student.id, periodStart: '2026-03-01', periodEnd: '2026-03-31' })
+      .expect(409);
+
+    const beforeIssue = await request(app.server)
+      .get('/student/invoices')
+      .set('Authorization', `Bearer ${studentToken}`)
+      .expect(200);
+    expect(beforeIssue.body).toEqual([]);
+
+    const first = await request(app.server)
+      .post(`/admin/invoices/${generated.body[0].id}/issue`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(first.body).toMatchObject({ status: 'ISSUED', number: 'INV-000001' });
+
+    const second = await request(app.server)
+      .post(`/admin/invoices/${generated.body[1].id}/issue`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(second.body.number).toBe('INV-000002');
+
+    await request(app.server)
+      .post(`/admin/invoices/${generated.body[0].id}/issue`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(409);
+
+    const paid = await request(app.server)
+      .post(`/admin/invoices/${generated.body[0].id}/mark-paid`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(paid.body.status).toBe('PAID');
+    expect(paid.body.paidAt).not.toBeNull();
+
+    await request(app.server)
+      .post(`/admin/invoices/${generated.body[0].id}/void`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(409);
+
+    const studentList = await request(app.server)
+      .get('/student/invoices')
+      .set('Authorization', `Bearer ${studentToken}`)
+      .expect(200);
+    expect(studentList.body.map((invoice: { number: string }) => invoice.number).sort()).toEqual([
+      'INV-000001',
+      'INV-000002',
+    ]);
+
+    const paidList = await request(app.server)
+      .get('/admin/invoices')
+      .query({ status: 'PAID' })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(paidList.body).toHaveLength(1);
+
+    const actions = await app.prisma.auditLog.findMany({
+      where: { orgId: org.id },
+      orderBy: { createdAt: 'asc' },
+      select: { action: true },
+    });
+    expect(actions.map((a) => a.action)).toEqual([
+      'ADMIN_CREATE_INVOICE',
+      'ADMIN_CREATE_INVOICE',
+      'ADMIN_ISSUE_INVOICE',
+      'ADMIN_ISSUE_INVOICE',
+      'ADMIN_MARK_INVOICE_PAID',
+    ]);
+  });
+
+  it('bills charged cancellations by the share deducted and skips teacher no-shows', async () => {
+    const { teacher, student, admin } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const lateCancelled = await createSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      createdByAdminId: admin.id,
+      startAtUtc: new Date('2026-03-02T02:00:00.000Z'),
+      endAtUtc: new Date('2026-03-02T03:00:00.000Z'),
+      status: SessionStatus.CANCELLED,
+      consumesUnits: 2,
+    });
+    await app.prisma.hourLedgerEntry.create({
+      data: {
+        studentId: student.id,
+        teacherId: teacher.id,
+        sessionId: lateCancelled.id,
+        deltaUnits: -1,
+        reason: HourLedgerReason.LATE_CANCEL,
+      },
+    });
+    await createSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      createdByAdminId: admin.id,
+      startAtUtc: new Date('2026-03-03T02:00:00.000Z'),
+      endAtUtc: new Date('2026-03-03T03:00:00.000Z'),
+      status: SessionStatus.CANCELLED,
+    });
+    await createSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      createdByAdminId: admin.id,
+      startAtUtc: new Date('2026-03-04T02:00:00.000Z'),
+      endAtUtc: new Date('2026-03-04T03:00:00.000Z'),
+      attendance: AttendanceOutcome.TEACHER_NO_SHOW,
+    });
+
+    const generated = await request(app.server)
+      .post('/admin/invoices/generate')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ studentId: student.id, periodStart: '2026-03-01', periodEnd: '2026-03-31' })
+      .expect(201);
+    expect(generated.body).toHaveLength(1);
+    expect(generated.body[0].totalCents).toBe(5000);
+    expect(generated.body[0].lines).toEqual([expect.objectContaining({ sessionId: lateCancelled.id })]);
+  });
+
+  it('bills priced purchases for prepaid students and releases them when voided', async () => {
+    const { student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    await request(app.server)
+      .put(`/admin/students/${student.id}/billing-mode`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ billingMode: 'PREPAID' })
+      .expect(200);
+
+    await request(app.server)
+      .post(`/admin/students/${student.id}/hours`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ deltaUnits: 10, reason: 'PURCHASE', amountCents: 95000, currency: 'AUD' })
+      .expect(201);
+    // Unpriced top-ups are not billable.
+    await request(app.server)
+      .post(`/admin/students/${student.id}/hours`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ deltaUnits: 2, reason: 'PURCHASE' })
+      .expect(201);
+
+    const dayMs = 24 * 60 * 60 * 1000;
+    const period = {
+      studentId: student.id,
+      periodStart: new Date(Date.now() - dayMs).toISOString().slice(0, 10),
+      periodEnd: new Date(Date.now() + dayMs).toISOString().slice(0, 10),
+    };
+
+    const generated = await request(app.server)
+      .post('/admin/invoices/generate')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send(period)
+      .expect(201);
+    expect(generated.body[0]).toMatchObject({ billingMode: 'PREPAID', currency: 'AUD', totalCents: 95000 });
+    expect(generated.body[0].lines).toEqual([
+      expect.objectContaining({ kind: 'PURCHASE', quantity: 10, unitAmountCents: 9500, amountCents: 95000 }),
+    ]);
+
+    await request(app.server)
+      .post(`/admin/invoices/${generated.body[0].id}/void`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    const regenerated = await request(app.server)
+      .post('/admin/invoices/generate')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send(period)
+      .expect(201);
+    expect(regenerated.body[0].totalCents).toBe(95000);
+
+    await request(app.server)
+      .post('/admin/invoices/generate')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ ...period, periodStart: '2020-01-01' })
+      .expect(400);
+  });
+
+  it('validates priced purchases and billing periods', async () => {
+    const { student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    await request(app.server)
+      .post(`/admin/students/${student.id}/hours`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ deltaUnits: 5, reason: 'PURCHASE', amountCents: 5000 })
+      .expect(400);
+    await request(app.server)
+      .post(`/admin/students/${student.id}/hours`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ deltaUnits: -1, reason: 'ADJUSTMENT', amountCents: 0, currency: 'AUD' })
+      .expect(400);
+
+    await request(app.server)
+      .post('/admin/invoices/generate')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ studentId: student.id, periodStart: '2026-03-31', periodEnd: '2026-03-01' })
+      .expect(400);
+
+    await request(app.server)
+      .post('/admin/invoices/generate')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ studentId: student.id, periodStart: '2026-03-01', periodEnd: '2026-03-31' })
+      .expect(409);
+  });
+});
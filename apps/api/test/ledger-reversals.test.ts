@@ -0,0 +1,349 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { Currency, HourLedgerReason, InvoiceStatus, SessionStatus, Subject, UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { completeEndedSessions } from '../src/jobs/completeEndedSessions.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const teacher = await prisma.user.create({
+    data: {
+      orgId: org.id,
+      email: 'teacher@example.com',
+      passwordHash,
+      role: UserRole.TEACHER,
+      teacherProfile: { create: { displayName: 'Test Teacher', timeZone: 'Australia/Sydney' } },
+    },
+  });
+
+  const student = await prisma.user.create({
+    data: {
+      orgId: org.id,
+      email: 'student@example.com',
+      passwordHash,
+      role: UserRole.STUDENT,
+      studentProfile: { create: { displayName: 'Test Student', timeZone: 'Asia/Shanghai' } },
+    },
+  });
+
+  return { org, admin, teacher, student };
+}
+
+async function createEndedSession(params: {
+  teacherId: string;
+  studentId: string;
+  adminId: string;
+  subject: Subject;
+  endAtUtc: Date;
+  consumesUnits: number;
+}) {
+  return app.prisma.session.create({
+    data: {
+      teacherId: params.teacherId,
+      studentId: params.studentId,
+      subject: params.subject,
+      startAtUtc: new Date(params.endAtUtc.getTime() - params.consumesUnits * 60 * 60 * 1000),
+      endAtUtc: params.endAtUtc,
+      classTimeZone: 'Australia/Sydney',
+      status: SessionStatus.SCHEDULED,
+      consumesUnits: params.consumesUnits,
+      studentHourlyRateCentsSnapshot: 10000,
+      teacherHourlyWageCentsSnapshot: 5000,
+      currencySnapshot: Currency.AUD,
+      createdByAdminId: params.adminId,
+    },
+    select: { id: true },
+  });
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+
+  app = buildApp({ logger: false });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+const HOUR_MS = 60 * 60 * 1000;
+
+async function completeSession(token: string, sessionId: string) {
+  await request(app.server)
+    .patch(`/admin/sessions/${sessionId}`)
+    .set('Authorization', `Bearer ${token}`)
+    .send({ status: 'COMPLETED' })
+    .expect(200);
+}
+
+async function remainingUnits(studentId: string): Promise<number> {
+  const summary = await app.prisma.hourLedgerEntry.aggregate({ where: { studentId }, _sum: { deltaUnits: true } });
+  return summary._sum.deltaUnits ?? 0;
+}
+
+describe('ledger reversals', () => {
+  it('reverses the charge of a reverted session and charges again on completion', async () => {
+    const { org, admin, teacher, student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    await app.prisma.hourLedgerEntry.create({
+      data: { studentId: student.id, deltaUnits: 10, reason: HourLedgerReason.PURCHASE },
+    });
+    const session = await createEndedSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      adminId: admin.id,
+      subject: Subject.GENERAL,
+      endAtUtc: new Date(Date.now() - HOUR_MS),
+      consumesUnits: 2,
+    });
+
+    await completeSession(adminToken, session.id);
+    expect(await remainingUnits(student.id)).toBe(8);
+
+    await request(app.server)
+      .post(`/admin/sessions/${session.id}/revert`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: 'SCHEDULED', note: 'Marked complete by mistake' })
+      .expect(400);
+
+    const startAtUtc = new Date(Date.now() + 24 * HOUR_MS);
+    const endAtUtc = new Date(startAtUtc.getTime() + 2 * HOUR_MS);
+    const reverted = await request(app.server)
+      .post(`/admin/sessions/${session.id}/revert`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: 'SCHEDULED', startAtUtc, endAtUtc, note: 'Marked complete by mistake' })
+      .expect(200);
+    expect(await remainingUnits(student.id)).toBe(10);
+
+    const charge = await app.prisma.hourLedgerEntry.findFirstOrThrow({
+      where: { sessionId: session.id, reason: HourLedgerReason.SESSION_CONSUME },
+      select: { id: true, deltaUnits: true },
+    });
+    expect(charge.deltaUnits).toBe(-2);
+    const reversal = await app.prisma.hourLedgerEntry.findUniqueOrThrow({
+      where: { id: reverted.body.reversalEntryId },
+      select: { deltaUnits: true, reason: true, sessionId: true, reversesEntryId: true },
+    });
+    expect(reversal).toEqual({
+      deltaUnits: 2,
+      reason: HourLedgerReason.REVERSAL,
+      sessionId: session.id,
+      reversesEntryId: charge.id,
+    });
+
+    const after = await app.prisma.session.findUniqueOrThrow({
+      where: { id: session.id },
+      select: { status: true, attendance: true, startAtUtc: true, endAtUtc: true },
+    });
+    expect(after).toEqual({ status: SessionStatus.SCHEDULED, attendance: null, startAtUtc, endAtUtc });
+
+    await completeEndedSessions(app.prisma);
+    expect(
+      await app.prisma.hourLedgerEntry.count({
+        where: { sessionId: session.id, reason: HourLedgerReason.SESSION_CONSUME },
+      }),
+    ).toBe(1);
+    expect(await remainingUnits(student.id)).toBe(10);
+
+    const audit = await app.prisma.auditLog.findFirst({ where: { orgId: org.id, action: 'ADMIN_REVERT_SESSION' } });
+    expect(audit?.meta).toMatchObject({ status: 'SCHEDULED', restoredUnits: 2, note: 'Marked complete by mistake' });
+
+    await request(app.server)
+      .post(`/admin/sessions/${session.id}/revert`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: 'CANCELLED' })
+      .expect(409);
+
+    await completeSession(adminToken, session.id);
+    expect(await remainingUnits(student.id)).toBe(8);
+    expect(await app.prisma.hourLedgerEntry.count({ where: { sessionId: session.id } })).toBe(3);
+  });
+
+  it('gives package units back to the lot they came from', async () => {
+    const { admin, teacher, student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const hourPackage = await request(app.server)
+      .post('/admin/packages')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: '10h', units: 10, priceCents: 90000, currency: 'AUD' })
+      .expect(201);
+    const lot = await request(app.server)
+      .post(`/admin/students/${student.id}/packages`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ packageId: hourPackage.body.id })
+      .expect(201);
+
+    const session = await createEndedSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      adminId: admin.id,
+      subject: Subject.GENERAL,
+      endAtUtc: new Date(Date.now() - HOUR_MS),
+      consumesUnits: 3,
+    });
+    await completeSession(adminToken, session.id);
+    expect((await app.prisma.hourLot.findUniqueOrThrow({ where: { id: lot.body.id } })).remainingUnits).toBe(7);
+
+    const reverted = await request(app.server)
+      .post(`/admin/sessions/${session.id}/revert`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: 'CANCELLED' })
+      .expect(200);
+
+    expect((await app.prisma.hourLot.findUniqueOrThrow({ where: { id: lot.body.id } })).remainingUnits).toBe(10);
+    const allocations = await app.prisma.hourLotAllocation.findMany({
+      where: { ledgerEntryId: reverted.body.reversalEntryId },
+      select: { lotId: true, units: true },
+    });
+    expect(allocations).toEqual([{ lotId: lot.body.id, units: -3 }]);
+  });
+
+  it('refuses to revert sessions billed on an issued invoice', async () => {
+    const { org, admin, teacher, student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const session = await createEndedSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      adminId: admin.id,
+      subject: Subject.GENERAL,
+      endAtUtc: new Date(Date.now() - HOUR_MS),
+      consumesUnits: 1,
+    });
+    await completeSession(adminToken, session.id);
+
+    await app.prisma.invoice.create({
+      data: {
+        orgId: org.id,
+        studentId: student.id,
+        number: 'INV-0001',
+        currency: Currency.AUD,
+        billingMode: 'PER_SESSION',
+        status: InvoiceStatus.ISSUED,
+        periodStartLocal: '2026-01-01',
+        periodEndLocal: '2026-01-31',
+        totalCents: 10000,
+        createdByAdminId: admin.id,
+        lines: {
+          create: {
+            kind: 'SESSION',
+            description: 'Lesson',
+            quantity: 1,
+            unitAmountCents: 10000,
+            amountCents: 10000,
+            sessionId: session.id,
+          },
+        },
+      },
+    });
+
+    const res = await request(app.server)
+      .post(`/admin/sessions/${session.id}/revert`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: 'CANCELLED' })
+      .expect(409);
+    expect(res.body.message).toContain('void the invoice');
+    expect(await remainingUnits(student.id)).toBe(-1);
+  });
+});
+
+describe('student ledger', () => {
+  it('pages through history with a running balance and filters', async () => {
+    const { teacher, student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const start = Date.now() - 10 * HOUR_MS;
+    const deltas = [10, -1, -2, 5, -1];
+    for (const [index, deltaUnits] of deltas.entries()) {
+      await app.prisma.hourLedgerEntry.create({
+        data: {
+          studentId: student.id,
+          teacherId: index === 3 ? teacher.id : null,
+          deltaUnits,
+          reason: deltaUnits > 0 ? HourLedgerReason.PURCHASE : HourLedgerReason.ADJUSTMENT,
+          createdAt: new Date(start + index * HOUR_MS),
+        },
+      });
+    }
+
+    const first = await request(app.server)
+      .get(`/admin/students/${student.id}/ledger?pageSize=2`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(first.body).toMatchObject({ page: 1, pageSize: 2, total: 5 });
+    expect(first.body.items.map((item: { deltaUnits: number; balanceUnits: number }) => item.balanceUnits)).toEqual([
+      11, 12,
+    ]);
+
+    const second = await request(app.server)
+      .get(`/admin/students/${student.id}/ledger?pageSize=2&page=2`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(second.body.items.map((item: { balanceUnits: number }) => item.balanceUnits)).toEqual([7, 9]);
+
+    const purchases = await request(app.server)
+      .get(`/admin/students/${student.id}/ledger?reason=PURCHASE`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(purchases.body.total).toBe(2);
+    expect(purchases.body.items.map((item: { balanceUnits: number }) => item.balanceUnits)).toEqual([12, 10]);
+
+    const bucket = await request(app.server)
+      .get(`/admin/students/${student.id}/ledger?teacherId=UNASSIGNED`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(bucket.body.items.map((item: { balanceUnits: number }) => item.balanceUnits)).toEqual([6, 7, 9, 10]);
+
+    await request(app.server)
+      .get(`/admin/students/${student.id}/ledger?pageSize=1000`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(400);
+  });
+});
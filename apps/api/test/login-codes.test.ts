@@ -0,0 +1,233 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { createMemoryMailTransport } from '../src/lib/mail.js';
+import { hashPassword } from '../src/lib/password.js';
+import { createMemorySmsTransport } from '../src/lib/sms.js';
+
+let app: ReturnType<typeof buildApp>;
+const mail = createMemoryMailTransport();
+const sms = createMemorySmsTransport();
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const teacher = await prisma.user.create({
+    data: {
+      orgId: org.id,
+      email: 'teacher@example.com',
+      passwordHash,
+      role: UserRole.TEACHER,
+      teacherProfile: { create: { displayName: 'Test Teacher', timeZone: 'Australia/Sydney' } },
+    },
+  });
+
+  const student = await prisma.user.create({
+    data: {
+      orgId: org.id,
+      email: 'student@example.com',
+      phone: '+8613800138000',
+      passwordHash,
+      role: UserRole.STUDENT,
+      studentProfile: { create: { displayName: 'Test Student', timeZone: 'Asia/Shanghai' } },
+    },
+  });
+
+  return { org, admin, teacher, student };
+}
+
+/** The code in the most recent text or mail to `to`. */
+function lastCode(messages: { to: string; text: string }[], to: string): string {
+  const code = /\d{6}/.exec(messages.filter((item) => item.to === to).at(-1)?.text ?? '')?.[0];
+  if (!code) throw new Error(`No code sent to ${to}`);
+  return code;
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+  process.env['LOGIN_CODE_MAX_ATTEMPTS'] = '3';
+
+  app = buildApp({ logger: false, mailTransport: mail, smsTransport: sms });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+describe('login codes', () => {
+  beforeEach(async () => {
+    await resetDb();
+    mail.messages.length = 0;
+    sms.messages.length = 0;
+  });
+
+  it('signs in by phone number and password, in any common number format', async () => {
+    await createOrgWithUsers();
+
+    for (const phone of ['+8613800138000', '138 0013 8000', '0086-138-0013-8000']) {
+      const res = await request(app.server).post('/auth/login').send({ phone, password: 'password123' }).expect(200);
+      expect(typeof res.body.accessToken).toBe('string');
+    }
+
+    await request(app.server).post('/auth/login').send({ phone: '13800138000', password: 'wrong' }).expect(401);
+    await request(app.server).post('/auth/login').send({ phone: '13900139000', password: 'password123' }).expect(401);
+    await request(app.server)
+      .post('/auth/login')
+      .send({ email: 'student@example.com', phone: '13800138000', password: 'password123' })
+      .expect(400);
+  });
+
+  it('texts a one-time code that signs the user in once', async () => {
+    await createOrgWithUsers();
+
+    await request(app.server).post('/auth/login-code').send({ phone: '13800138000' }).expect(200);
+    expect(sms.messages).toHaveLength(1);
+    expect(sms.messages[0]?.text).toContain('Test Org');
+    const code = lastCode(sms.messages, '+8613800138000');
+
+    const res = await request(app.server)
+      .post('/auth/login-code/verify')
+      .send({ phone: '13800138000', code })
+      .expect(200);
+    await request(app.server).get('/me').set('authorization', `Bearer ${res.body.accessToken}`).expect(200);
+
+    await request(app.server).post('/auth/login-code/verify').send({ phone: '13800138000', code }).expect(401);
+  });
+
+  it('mails a one-time code to email addresses', async () => {
+    await createOrgWithUsers();
+
+    await request(app.server).post('/auth/login-code').send({ email: 'teacher@example.com' }).expect(200);
+    const code = lastCode(mail.messages, 'teacher@example.com');
+    expect(sms.messages).toHaveLength(0);
+
+    await request(app.server)
+      .post('/auth/login-code/verify')
+      .send({ email: 'teacher@example.com', code })
+      .expect(200);
+  });
+
+  it('answers the same for unknown numbers without sending anything', async () => {
+    await createOrgWithUsers();
+
+    await request(app.server).post('/auth/login-code').send({ phone: '13900139000' }).expect(200);
+    await request(app.server).post('/auth/login-code').send({ email: 'nobody@example.com' }).expect(200);
+
+    expect(sms.messages).toHaveLength(0);
+    expect(mail.messages).toHaveLength(0);
+  });
+
+  it('stops accepting a code after too many wrong guesses', async () => {
+    await createOrgWithUsers();
+
+    await request(app.server).post('/auth/login-code').send({ phone: '13800138000' }).expect(200);
+    const code = lastCode(sms.messages, '+8613800138000');
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    for (let attempt = 0; attempt < 3; attempt += 1) {
+      await request(app.server)
+        .post('/auth/login-code/verify')
+        .send({ phone: '13800138000', code: wrong })
+        .expect(401);
+    }
+    await request(app.server).post('/auth/login-code/verify').send({ phone: '13800138000', code }).expect(401);
+  });
+
+  it('rejects expired codes and throttles resends', async () => {
+    await createOrgWithUsers();
+
+    await request(app.server).post('/auth/login-code').send({ phone: '13800138000' }).expect(200);
+    const code = lastCode(sms.messages, '+8613800138000');
+
+    await request(app.server).post('/auth/login-code').send({ phone: '13800138000' }).expect(200);
+    expect(sms.messages).toHaveLength(1);
+
+    await app.prisma.loginCode.updateMany({ data: { expiresAt: new Date(Date.now() - 1000) } });
+    await request(app.server).post('/auth/login-code/verify').send({ phone: '13800138000', code }).expect(401);
+  });
+
+  it('lets admins create phone-only students who sign in with texted codes', async () => {
+    await createOrgWithUsers();
+    const token = await loginAs('admin@example.com', 'password123');
+
+    await request(app.server)
+      .post('/admin/students')
+      .set('authorization', `Bearer ${token}`)
+      .send({ displayName: 'No Email', timeZone: 'Asia/Shanghai' })
+      .expect(400);
+    await request(app.server)
+      .post('/admin/students')
+      .set('authorization', `Bearer ${token}`)
+      .send({ phone: '12345', displayName: 'No Email', timeZone: 'Asia/Shanghai' })
+      .expect(400);
+
+    const created = await request(app.server)
+      .post('/admin/students')
+      .set('authorization', `Bearer ${token}`)
+      .send({ phone: '139 0013 9000', displayName: 'No Email', timeZone: 'Asia/Shanghai' })
+      .expect(201);
+    expect(created.body).toEqual({ id: expect.any(String) });
+    expect(mail.messages).toHaveLength(0);
+
+    const list = await request(app.server).get('/admin/students').set('authorization', `Bearer ${token}`).expect(200);
+    expect(list.body.find((item: { id: string }) => item.id === created.body.id)).toMatchObject({
+      email: null,
+      phone: '+8613900139000',
+    });
+
+    await request(app.server)
+      .put(`/admin/users/${created.body.id}/phone`)
+      .set('authorization', `Bearer ${token}`)
+      .send({ phone: null })
+      .expect(409);
+    await request(app.server)
+      .put(`/admin/users/${created.body.id}/phone`)
+      .set('authorization', `Bearer ${token}`)
+      .send({ phone: '13800138000' })
+      .expect(409);
+
+    await request(app.server).post('/auth/login-code').send({ phone: '13900139000' }).expect(200);
+    await request(app.server)
+      .post('/auth/login-code/verify')
+      .send({ phone: '13900139000', code: lastCode(sms.messages, '+8613900139000') })
+      .expect(200);
+  });
+});
@@ -0,0 +1,216 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { createMemoryMailTransport } from '../src/lib/mail.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+const mail = createMemoryMailTransport();
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.loginAttempt.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const teacher = await prisma.user.create({
+    data: {
+      orgId: org.id,
+      email: 'teacher@example.com',
+      passwordHash,
+      role: UserRole.TEACHER,
+      teacherProfile: { create: { displayName: 'Test Teacher', timeZone: 'Australia/Sydney' } },
+    },
+  });
+
+  const student = await prisma.user.create({
+    data: {
+      orgId: org.id,
+      email: 'student@example.com',
+      passwordHash,
+      role: UserRole.STUDENT,
+      studentProfile: { create: { displayName: 'Test Student', timeZone: 'Asia/Shanghai' } },
+    },
+  });
+
+  return { org, admin, teacher, student };
+}
+
+function attemptLogin(email: string, password: string, headers: Record<string, string> = {}) {
+  return request(app.server).post('/auth/login').set(headers).send({ email, password });
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+  process.env['LOGIN_LOCKOUT_THRESHOLD'] = '3';
+  process.env['LOGIN_LOCKOUT_BASE_SECONDS'] = '60';
+  process.env['LOGIN_LOCKOUT_MAX_SECONDS'] = '3600';
+
+  app = buildApp({ logger: false, mailTransport: mail });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+describe('login lockout', () => {
+  beforeEach(async () => {
+    await resetDb();
+  });
+
+  it('locks an account after repeated failures, even for the right password, until an admin unlocks it', async () => {
+    const { org, admin, teacher } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    for (let i = 0; i < 3; i += 1) {
+      await attemptLogin('teacher@example.com', 'wrong').expect(401);
+    }
+    // A lock looks just like a wrong password or an unknown account from outside.
+    const locked = await attemptLogin('teacher@example.com', 'password123').expect(401);
+    const unknown = await attemptLogin('nobody@example.com', 'password123').expect(401);
+    expect(locked.body).toEqual(unknown.body);
+    expect(locked.headers['retry-after']).toBeUndefined();
+
+    const lockout = await app.prisma.auditLog.findFirst({
+      where: { orgId: org.id, action: 'USER_LOCKED_OUT', entityId: teacher.id },
+    });
+    expect(lockout).not.toBeNull();
+
+    const history = await request(app.server)
+      .get(`/admin/users/${teacher.id}/login-attempts`)
+      .set('authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(history.body.failedLoginCount).toBe(3);
+    expect(history.body.attempts.map((attempt: { outcome: string }) => attempt.outcome)).toEqual([
+      'LOCKED',
+      'INVALID_PASSWORD',
+      'INVALID_PASSWORD',
+      'INVALID_PASSWORD',
+    ]);
+
+    await request(app.server)
+      .post(`/admin/users/${teacher.id}/unlock`)
+      .set('authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    await loginAs('teacher@example.com', 'password123');
+
+    const unlock = await app.prisma.auditLog.findFirst({
+      where: { orgId: org.id, action: 'ADMIN_UNLOCK_USER', entityId: teacher.id },
+      select: { actorUserId: true },
+    });
+    expect(unlock?.actorUserId).toBe(admin.id);
+  });
+
+  it('doubles the lock for each failure after it expires', async () => {
+    const { teacher } = await createOrgWithUsers();
+
+    for (let i = 0; i < 3; i += 1) {
+      await attemptLogin('teacher@example.com', 'wrong').expect(401);
+    }
+    await app.prisma.user.update({ where: { id: teacher.id }, data: { lockedUntil: new Date(Date.now() - 1000) } });
+
+    const before = Date.now();
+    await attemptLogin('teacher@example.com', 'wrong').expect(401);
+    const user = await app.prisma.user.findUniqueOrThrow({ where: { id: teacher.id } });
+    const lockSeconds = (user.lockedUntil!.getTime() - before) / 1000;
+    expect(lockSeconds).toBeGreaterThan(115);
+    expect(lockSeconds).toBeLessThan(125);
+  });
+
+  it('starts counting again after a successful sign in', async () => {
+    await createOrgWithUsers();
+
+    await attemptLogin('teacher@example.com', 'wrong').expect(401);
+    await attemptLogin('teacher@example.com', 'wrong').expect(401);
+    await loginAs('teacher@example.com', 'password123');
+    await attemptLogin('teacher@example.com', 'wrong').expect(401);
+    await attemptLogin('teacher@example.com', 'wrong').expect(401);
+
+    await loginAs('teacher@example.com', 'password123');
+  });
+
+  it('records attempts on unknown accounts without an org', async () => {
+    await createOrgWithUsers();
+
+    await attemptLogin('nobody@example.com', 'password123', { 'x-forwarded-for': '198.51.100.4' }).expect(401);
+
+    const attempt = await app.prisma.loginAttempt.findFirstOrThrow({ where: { identifier: 'nobody@example.com' } });
+    expect(attempt).toMatchObject({ orgId: null, userId: null, outcome: 'UNKNOWN_ACCOUNT', ipAddress: '198.51.100.4' });
+  });
+
+  it('shows failing addresses and sign-ins from new browsers and countries to admins', async () => {
+    await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const attacker = { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' };
+    await attemptLogin('teacher@example.com', 'guess1', attacker).expect(401);
+    await attemptLogin('teacher@example.com', 'guess2', attacker).expect(401);
+    await attemptLogin('student@example.com', 'guess1', attacker).expect(401);
+    await attemptLogin('student@example.com', 'guess2', attacker).expect(401);
+
+    const laptop = { 'user-agent': 'Laptop Browser', 'cf-ipcountry': 'AU' };
+    await attemptLogin('student@example.com', 'password123', laptop).expect(200);
+    await attemptLogin('student@example.com', 'password123', laptop).expect(200);
+    await attemptLogin('student@example.com', 'password123', { ...laptop, 'user-agent': 'Phone Browser' }).expect(200);
+    await attemptLogin('student@example.com', 'password123', { ...laptop, 'cf-ipcountry': 'CN' }).expect(200);
+
+    const res = await request(app.server)
+      .get('/admin/suspicious-activity?days=1')
+      .set('authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(res.body.lockedAccounts).toEqual([]);
+    expect(res.body.failingAccounts).toEqual([]);
+    expect(res.body.failingIps).toEqual([
+      expect.objectContaining({ ipAddress: '203.0.113.7', failures: 4, accounts: 2 }),
+    ]);
+    type NewSignIn = { userAgent: string; country: string; newDevice: boolean; newCountry: boolean };
+    expect(
+      res.body.newSignIns.map((item: NewSignIn) => [item.userAgent, item.country, item.newDevice, item.newCountry]),
+    ).toEqual([
+      ['Laptop Browser', 'CN', false, true],
+      ['Phone Browser', 'AU', true, false],
+    ]);
+
+    await request(app.server)
+      .get('/admin/suspicious-activity?days=0')
+      .set('authorization', `Bearer ${adminToken}`)
+      .expect(400);
+  });
+});
@@ -0,0 +1,337 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { BillingMode, Currency, HourLedgerReason, InvoiceStatus, UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const teacher = await prisma.user.create({
+    data: {
+      orgId: org.id,
+      email: 'teacher@example.com',
+      passwordHash,
+      role: UserRole.TEACHER,
+      teacherProfile: { create: { displayName: 'Test Teacher', timeZone: 'Australia/Sydney' } },
+    },
+  });
+
+  const student = await prisma.user.create({
+    data: {
+      orgId: org.id,
+      email: 'student@example.com',
+      passwordHash,
+      role: UserRole.STUDENT,
+      studentProfile: { create: { displayName: 'Test Student', timeZone: 'Asia/Shanghai' } },
+    },
+  });
+
+  return { org, admin, teacher, student };
+}
+
+async function createIssuedInvoice(params: {
+  orgId: string;
+  studentId: string;
+  adminId: string;
+  number: string;
+  totalCents: number;
+  status?: InvoiceStatus;
+}) {
+  return app.prisma.invoice.create({
+    data: {
+      orgId: params.orgId,
+      studentId: params.studentId,
+      number: params.number,
+      currency: Currency.AUD,
+      billingMode: BillingMode.PER_SESSION,
+      status: params.status ?? InvoiceStatus.ISSUED,
+      periodStartLocal: '2030-06-01',
+      periodEndLocal: '2030-06-30',
+      totalCents: params.totalCents,
+      createdByAdminId: params.adminId,
+      issuedAt: new Date('2030-07-01T00:00:00.000Z'),
+    },
+    select: { id: true },
+  });
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+
+  app = buildApp({ logger: false });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+describe('payments', () => {
+  beforeEach(async () => {
+    await resetDb();
+  });
+
+  it('records payments against an invoice and marks it paid once covered', async () => {
+    const { org, admin, student } = await createOrgWithUsers();
+    const invoice = await createIssuedInvoice({
+      orgId: org.id,
+      studentId: student.id,
+      adminId: admin.id,
+      number: 'INV-000001',
+      totalCents: 20000,
+    });
+
+    const token = await loginAs('admin@example.com', 'password123');
+
+    const first = await request(app.server)
+      .post('/admin/payments')
+      .set('authorization', `Bearer ${token}`)
+      .send({
+        studentId: student.id,
+        amountCents: 15000,
+        currency: 'AUD',
+        method: 'WECHAT',
+        reference: 'wx-1',
+        receivedDate: '2030-07-02',
+        invoiceId: invoice.id,
+      })
+      .expect(201);
+    expect(first.body).toMatchObject({ invoiceId: invoice.id, invoiceNumber: 'INV-000001', method: 'WECHAT' });
+
+    let stored = await app.prisma.invoice.findUniqueOrThrow({ where: { id: invoice.id } });
+    expect(stored.status).toBe(InvoiceStatus.ISSUED);
+
+    const partial = await request(app.server)
+      .get('/admin/payments/reconciliation')
+      .set('authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(partial.body.unpaidInvoices).toEqual([
+      expect.objectContaining({ invoiceId: invoice.id, paidCents: 15000, outstandingCents: 5000 }),
+    ]);
+
+    await request(app.server)
+      .post('/admin/payments')
+      .set('authorization', `Bearer ${token}`)
+      .send({
+        studentId: student.id,
+        amountCents: 10000,
+        currency: 'AUD',
+        method: 'CASH',
+        receivedDate: '2030-07-03',
+        invoiceId: invoice.id,
+      })
+      .expect(201);
+
+    stored = await app.prisma.invoice.findUniqueOrThrow({ where: { id: invoice.id } });
+    expect(stored.status).toBe(InvoiceStatus.PAID);
+    expect(stored.paidAt).not.toBeNull();
+
+    const settled = await request(app.server)
+      .get('/admin/payments/reconciliation')
+      .set('authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(settled.body.unpaidInvoices).toEqual([]);
+    expect(settled.body.overpayments).toEqual([
+      expect.objectContaining({ kind: 'INVOICE', id: invoice.id, dueCents: 20000, overpaidCents: 5000 }),
+    ]);
+
+    const audits = await app.prisma.auditLog.findMany({ where: { orgId: org.id }, orderBy: { createdAt: 'asc' } });
+    expect(audits.map((audit) => audit.action)).toEqual([
+      'ADMIN_RECORD_PAYMENT',
+      'ADMIN_RECORD_PAYMENT',
+      'ADMIN_MARK_INVOICE_PAID',
+    ]);
+  });
+
+  it('rejects payments that do not fit the invoice or purchase', async () => {
+    const { org, admin, student } = await createOrgWithUsers();
+    const draft = await createIssuedInvoice({
+      orgId: org.id,
+      studentId: student.id,
+      adminId: admin.id,
+      number: 'INV-000002',
+      totalCents: 20000,
+      status: InvoiceStatus.DRAFT,
+    });
+    const purchase = await app.prisma.hourLedgerEntry.create({
+      data: {
+        studentId: student.id,
+        deltaUnits: 10,
+        reason: HourLedgerReason.PURCHASE,
+        amountCents: 50000,
+        currency: Currency.AUD,
+      },
+    });
+
+    const token = await loginAs('admin@example.com', 'password123');
+    const payment = { studentId: student.id, amountCents: 100, method: 'CARD', receivedDate: '2030-07-02' };
+
+    await request(app.server)
+      .post('/admin/payments')
+      .set('authorization', `Bearer ${token}`)
+      .send({ ...payment, currency: 'AUD', invoiceId: draft.id })
+      .expect(409);
+
+    await request(app.server)
+      .post('/admin/payments')
+      .set('authorization', `Bearer ${token}`)
+      .send({ ...payment, currency: 'USD', ledgerEntryId: purchase.id })
+      .expect(400);
+
+    await request(app.server)
+      .post('/admin/payments')
+      .set('authorization', `Bearer ${token}`)
+      .send({ ...payment, currency: 'AUD', invoiceId: draft.id, ledgerEntryId: purchase.id })
+      .expect(400);
+
+    expect(await app.prisma.payment.count()).toBe(0);
+  });
+
+  it('lists unpaid purchases and unallocated payments', async () => {
+    const { student } = await createOrgWithUsers();
+    const purchase = await app.prisma.hourLedgerEntry.create({
+      data: {
+        studentId: student.id,
+        deltaUnits: 10,
+        reason: HourLedgerReason.PURCHASE,
+        amountCents: 50000,
+        currency: Currency.AUD,
+      },
+    });
+
+    const token = await loginAs('admin@example.com', 'password123');
+
+    const before = await request(app.server)
+      .get(`/admin/payments/reconciliation?studentId=${student.id}`)
+      .set('authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(before.body.unpaidPurchases).toEqual([
+      expect.objectContaining({ ledgerEntryId: purchase.id, amountCents: 50000, outstandingCents: 50000 }),
+    ]);
+
+    await request(app.server)
+      .post('/admin/payments')
+      .set('authorization', `Bearer ${token}`)
+      .send({
+        studentId: student.id,
+        amountCents: 50000,
+        currency: 'AUD',
+        method: 'ALIPAY',
+        receivedDate: '2030-07-02',
+        ledgerEntryId: purchase.id,
+      })
+      .expect(201);
+
+    await request(app.server)
+      .post('/admin/payments')
+      .set('authorization', `Bearer ${token}`)
+      .send({ studentId: student.id, amountCents: 3000, currency: 'AUD', method: 'CASH', receivedDate: '2030-07-04' })
+      .expect(201);
+
+    const after = await request(app.server)
+      .get('/admin/payments/reconciliation')
+      .set('authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(after.body.unpaidPurchases).toEqual([]);
+    expect(after.body.overpayments).toEqual([]);
+    expect(after.body.unallocatedPayments).toEqual([
+      expect.objectContaining({ amountCents: 3000, method: 'CASH', invoiceId: null, ledgerEntryId: null }),
+    ]);
+  });
+
+  it('imports a bank statement, matching rows to invoices by reference', async () => {
+    const { org, admin, student } = await createOrgWithUsers();
+    const invoice = await createIssuedInvoice({
+      orgId: org.id,
+      studentId: student.id,
+      adminId: admin.id,
+      number: 'INV-000007',
+      totalCents: 12345,
+    });
+
+    const token = await loginAs('admin@example.com', 'password123');
+    const csv = [
+      'Date,Description,Amount,Currency,Reference',
+      '2030-07-05,Tuition,123.45,aud,"Payment inv-000007, thanks"',
+      '2030-07-06,Unknown,50.00,AUD,SOMEONE ELSE',
+      '2030-07-06,Bank fee,-5.00,AUD,FEE',
+    ].join('\n');
+
+    const first = await request(app.server)
+      .post('/admin/payments/import')
+      .set('authorization', `Bearer ${token}`)
+      .send({ csv })
+      .expect(200);
+    expect(first.body.matched).toEqual([
+      expect.objectContaining({ line: 2, invoiceId: invoice.id, invoiceNumber: 'INV-000007', settled: true }),
+    ]);
+    expect(first.body.unmatched).toEqual([
+      expect.objectContaining({ line: 3, amountCents: 5000, reference: 'SOMEONE ELSE', reason: 'NO_INVOICE' }),
+    ]);
+    expect(first.body.duplicates).toEqual([]);
+
+    const stored = await app.prisma.invoice.findUniqueOrThrow({ where: { id: invoice.id } });
+    expect(stored.status).toBe(InvoiceStatus.PAID);
+    const payment = await app.prisma.payment.findFirstOrThrow({ where: { invoiceId: invoice.id } });
+    expect(payment).toMatchObject({ studentId: student.id, amountCents: 12345, method: 'BANK_TRANSFER' });
+
+    const again = await request(app.server)
+      .post('/admin/payments/import')
+      .set('authorization', `Bearer ${token}`)
+      .send({ csv })
+      .expect(200);
+    expect(again.body.matched).toEqual([]);
+    expect(again.body.duplicates).toEqual([{ line: 2, reference: 'Payment inv-000007, thanks' }]);
+    expect(await app.prisma.payment.count()).toBe(1);
+
+    const invalid = await request(app.server)
+      .post('/admin/payments/import')
+      .set('authorization', `Bearer ${token}`)
+      .send({ csv: 'date,amount,currency,reference\n2030-13-01,abc,AUD,x' })
+      .expect(400);
+    expect(invalid.body.errors).toEqual([expect.stringMatching(/^Line 2: Invalid amount/)]);
+  });
+});
@@ -0,0 +1,421 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { Currency, SessionStatus, UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const teacher = await prisma.user.create({
+    data: { orgId: org.id, email: 'teacher@example.com', passwordHash, role: UserRole.TEACHER },
+  });
+  await prisma.teacherProfile.create({
+    data: { userId: teacher.id, displayName: 'Test Teacher', timeZone: 'Australia/Sydney' },
+  });
+
+  const studentAud = await prisma.user.create({
+    data: { orgId: org.id, email: 'student-aud@example.com', passwordHash, role: UserRole.STUDENT },
+  });
+  await prisma.studentProfile.create({
+    data: { userId: studentAud.id, displayName: 'Student AUD', timeZone: 'Australia/Sydney' },
+  });
+
+  const studentUsd = await prisma.user.create({
+    data: { orgId: org.id, email: 'student-usd@example.com', passwordHash, role: UserRole.STUDENT },
+  });
+  await prisma.studentProfile.create({
+    data: { userId: studentUsd.id, displayName: 'Student USD', timeZone: 'Australia/Sydney' },
+  });
+
+  await prisma.teacherStudentRate.create({
+    data: {
+      teacherId: teacher.id,
+      studentId: studentAud.id,
+      studentHourlyRateCents: 10000,
+      teacherHourlyWageCents: 10000,
+      currency: Currency.AUD,
+    },
+  });
+  await prisma.teacherStudentRate.create({
+    data: {
+      teacherId: teacher.id,
+      studentId: studentUsd.id,
+      studentHourlyRateCents: 12000,
+      teacherHourlyWageCents: 12000,
+      currency: Currency.USD,
+    },
+  });
+
+  return { org, admin, teacher, studentAud, studentUsd };
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+
+  app = buildApp({ logger: false });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+describe('payroll runs', () => {
+  const weekStart = '2025-06-02';
+
+  function sessionData(
+    ids: { admin: { id: string }; teacher: { id: string }; student: { id: string } },
+    startAtUtc: string,
+    endAtUtc: string,
+    status: SessionStatus,
+    teacherHourlyWageCentsSnapshot = 10000,
+    currencySnapshot: Currency = Currency.AUD,
+  ) {
+    return {
+      teacherId: ids.teacher.id,
+      studentId: ids.student.id,
+      startAtUtc: new Date(startAtUtc),
+      endAtUtc: new Date(endAtUtc),
+      classTimeZone: 'Australia/Sydney',
+      status,
+      consumesUnits: 1,
+      studentHourlyRateCentsSnapshot: teacherHourlyWageCentsSnapshot,
+      teacherHourlyWageCentsSnapshot,
+      currencySnapshot,
+      createdByAdminId: ids.admin.id,
+    };
+  }
+
+  it('freezes per-teacher, per-currency lines when a period is closed', async () => {
+    const { admin, teacher, studentAud, studentUsd } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+    const teacherToken = await loginAs('teacher@example.com', 'password123');
+
+    await app.prisma.session.createMany({
+      data: [
+        sessionData(
+          { admin, teacher, student: studentAud },
+          '2025-06-03T00:00:00.000Z',
+          '2025-06-03T01:30:00.000Z',
+          SessionStatus.COMPLETED,
+        ),
+        sessionData(
+          { admin, teacher, student: studentAud },
+          '2025-06-04T00:00:00.000Z',
+          '2025-06-04T01:00:00.000Z',
+          SessionStatus.COMPLETED,
+        ),
+        sessionData(
+          { admin, teacher, student: studentUsd },
+          '2025-06-05T00:00:00.000Z',
+          '2025-06-05T01:00:00.000Z',
+          SessionStatus.COMPLETED,
+          12000,
+          Currency.USD,
+        ),
+        sessionData(
+          { admin, teacher, student: studentAud },
+          '2025-06-06T00:00:00.000Z',
+          '2025-06-06T01:00:00.000Z',
+          SessionStatus.SCHEDULED,
+        ),
+      ],
+    });
+
+    const closed = await request(app.server)
+      .post('/admin/payroll-runs')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ weekStart })
+      .expect(201);
+
+    expect(closed.body).toMatchObject({
+      periodStartLocal: weekStart,
+      periodEndLocal: '2025-06-08',
+      timeZone: 'Australia/Sydney',
+      status: 'CLOSED',
+      approvedAt: null,
+      paidAt: null,
+      totals: [
+        { currency: 'AUD', amountCents: 25000, unpaidCents: 25000 },
+        { currency: 'USD', amountCents: 12000, unpaidCents: 12000 },
+      ],
+    });
+    expect(closed.body.lines).toHaveLength(2);
+    expect(closed.body.lines).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          teacherId: teacher.id,
+          teacherName: 'Test Teacher',
+          kind: 'REGULAR',
+          currency: 'AUD',
+          sessionsCount: 2,
+          payableMinutes: 150,
+          amountCents: 25000,
+        }),
+        expect.objectContaining({ kind: 'REGULAR', currency: 'USD', sessionsCount: 1, amountCents: 12000 }),
+      ]),
+    );
+
+    const payroll = await request(app.server)
+      .get(`/teacher/payroll?weekStart=${weekStart}`)
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .expect(200);
+    expect(payroll.body.run).toEqual({ id: closed.body.id, status: 'CLOSED' });
+    expect(payroll.body.totals).toEqual([
+      { currency: 'AUD', totalCents: 25000, totalHours: 2.5, sessionsCount: 2 },
+      { currency: 'USD', totalCents: 12000, totalHours: 1, sessionsCount: 1 },
+    ]);
+
+    await request(app.server)
+      .post('/admin/payroll-runs')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ weekStart })
+      .expect(409);
+
+    await request(app.server)
+      .post('/admin/payroll-runs')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ weekStart: '2025-06-03' })
+      .expect(400);
+
+    await request(app.server)
+      .post('/admin/payroll-runs')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ weekStart: '2099-06-01' })
+      .expect(409);
+
+    const listed = await request(app.server)
+      .get('/admin/payroll-runs')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(listed.body.map((run: { id: string }) => run.id)).toEqual([closed.body.id]);
+  });
+
+  it('refuses to close a period sharing days with a closed one after the settings change', async () => {
+    const { admin, teacher, studentAud } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    await app.prisma.session.create({
+      data: sessionData(
+        { admin, teacher, student: studentAud },
+        '2025-06-04T00:00:00.000Z',
+        '2025-06-04T01:00:00.000Z',
+        SessionStatus.COMPLETED,
+      ),
+    });
+
+    await request(app.server)
+      .post('/admin/payroll-runs')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ weekStart })
+      .expect(201);
+
+    await request(app.server)
+      .put('/admin/payroll-settings')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ timeZone: 'Australia/Sydney', weekStartDay: 3, cadence: 'WEEKLY' })
+      .expect(200);
+
+    const overlapping = await request(app.server)
+      .post('/admin/payroll-runs')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ weekStart: '2025-06-04' })
+      .expect(409);
+    expect(overlapping.body.message).toBe('Payroll period overlaps a closed period');
+
+    expect(await app.prisma.payrollRun.count()).toBe(1);
+    expect(await app.prisma.payrollLineItem.count()).toBe(1);
+  });
+
+  it('records an adjustment line when a closed period changes later', async () => {
+    const { admin, teacher, studentAud } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+    const teacherToken = await loginAs('teacher@example.com', 'password123');
+
+    await app.prisma.session.create({
+      data: sessionData(
+        { admin, teacher, student: studentAud },
+        '2025-06-03T00:00:00.000Z',
+        '2025-06-03T01:00:00.000Z',
+        SessionStatus.COMPLETED,
+      ),
+    });
+    const late = await app.prisma.session.create({
+      data: sessionData(
+        { admin, teacher, student: studentAud },
+        '2025-06-04T00:00:00.000Z',
+        '2025-06-04T00:30:00.000Z',
+        SessionStatus.SCHEDULED,
+      ),
+    });
+
+    const closed = await request(app.server)
+      .post('/admin/payroll-runs')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ weekStart })
+      .expect(201);
+    expect(closed.body.totals).toEqual([{ currency: 'AUD', amountCents: 10000, unpaidCents: 10000 }]);
+
+    await request(app.server)
+      .patch(`/admin/sessions/${late.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: 'COMPLETED' })
+      .expect(200);
+
+    const detail = await request(app.server)
+      .get(`/admin/payroll-runs/${closed.body.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(detail.body.lines).toEqual([
+      expect.objectContaining({ kind: 'REGULAR', sessionsCount: 1, payableMinutes: 60, amountCents: 10000 }),
+      expect.objectContaining({
+        kind: 'ADJUSTMENT',
+        sessionsCount: 1,
+        payableMinutes: 30,
+        amountCents: 5000,
+        reason: 'Session completed after the payroll period was closed',
+        paidAt: null,
+      }),
+    ]);
+    expect(detail.body.totals).toEqual([{ currency: 'AUD', amountCents: 15000, unpaidCents: 15000 }]);
+
+    const payroll = await request(app.server)
+      .get(`/teacher/payroll?weekStart=${weekStart}`)
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .expect(200);
+    expect(payroll.body.totals).toEqual([{ currency: 'AUD', totalCents: 15000, totalHours: 1.5, sessionsCount: 2 }]);
+  });
+
+  it('approves runs, marks them paid and settles later adjustments separately', async () => {
+    const { admin, teacher, studentAud } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    await app.prisma.session.create({
+      data: sessionData(
+        { admin, teacher, student: studentAud },
+        '2025-06-03T00:00:00.000Z',
+        '2025-06-03T01:00:00.000Z',
+        SessionStatus.COMPLETED,
+      ),
+    });
+    const late = await app.prisma.session.create({
+      data: sessionData(
+        { admin, teacher, student: studentAud },
+        '2025-06-04T00:00:00.000Z',
+        '2025-06-04T01:00:00.000Z',
+        SessionStatus.SCHEDULED,
+      ),
+    });
+
+    const closed = await request(app.server)
+      .post('/admin/payroll-runs')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ weekStart })
+      .expect(201);
+    const runId = closed.body.id as string;
+
+    await request(app.server)
+      .post(`/admin/payroll-runs/${runId}/mark-paid`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(409);
+
+    const approved = await request(app.server)
+      .post(`/admin/payroll-runs/${runId}/approve`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(approved.body.status).toBe('APPROVED');
+    expect(approved.body.approvedAt).toEqual(expect.any(String));
+
+    await request(app.server)
+      .post(`/admin/payroll-runs/${runId}/approve`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(409);
+
+    const paid = await request(app.server)
+      .post(`/admin/payroll-runs/${runId}/mark-paid`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(paid.body.status).toBe('PAID');
+    expect(paid.body.totals).toEqual([{ currency: 'AUD', amountCents: 10000, unpaidCents: 0 }]);
+
+    await request(app.server)
+      .post(`/admin/payroll-runs/${runId}/mark-paid`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(409);
+
+    await request(app.server)
+      .patch(`/admin/sessions/${late.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: 'COMPLETED' })
+      .expect(200);
+
+    const adjusted = await request(app.server)
+      .get(`/admin/payroll-runs/${runId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(adjusted.body.status).toBe('PAID');
+    expect(adjusted.body.totals).toEqual([{ currency: 'AUD', amountCents: 20000, unpaidCents: 10000 }]);
+
+    const settled = await request(app.server)
+      .post(`/admin/payroll-runs/${runId}/mark-paid`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(settled.body.totals).toEqual([{ currency: 'AUD', amountCents: 20000, unpaidCents: 0 }]);
+    expect(settled.body.paidAt).toBe(paid.body.paidAt);
+
+    const actions = await app.prisma.auditLog.findMany({
+      where: { entityType: 'PayrollRun', entityId: runId },
+      orderBy: { createdAt: 'asc' },
+      select: { action: true },
+    });
+    expect(actions.map((log) => log.action)).toEqual([
+      'ADMIN_CLOSE_PAYROLL_RUN',
+      'ADMIN_APPROVE_PAYROLL_RUN',
+      'ADMIN_MARK_PAYROLL_RUN_PAID',
+      'ADMIN_MARK_PAYROLL_RUN_PAID',
+    ]);
+  });
+});
@@ -0,0 +1,285 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { AttendanceOutcome, Currency, HourLedgerReason, SessionStatus, Subject, UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const alice = await prisma.user.create({
+    data: { orgId: org.id, email: 'alice@example.com', passwordHash, role: UserRole.TEACHER },
+  });
+  await prisma.teacherProfile.create({
+    data: { userId: alice.id, displayName: 'Alice', timeZone: 'Australia/Sydney' },
+  });
+
+  const bob = await prisma.user.create({
+    data: { orgId: org.id, email: 'bob@example.com', passwordHash, role: UserRole.TEACHER },
+  });
+  await prisma.teacherProfile.create({
+    data: { userId: bob.id, displayName: 'Bob', timeZone: 'Australia/Sydney' },
+  });
+
+  const student = await prisma.user.create({
+    data: { orgId: org.id, email: 'student@example.com', passwordHash, role: UserRole.STUDENT },
+  });
+  await prisma.studentProfile.create({
+    data: { userId: student.id, displayName: 'Student, "Jr"', timeZone: 'Australia/Sydney' },
+  });
+
+  const otherOrg = await prisma.organization.create({ data: { name: 'Other Org' } });
+  const otherAdmin = await prisma.user.create({
+    data: { orgId: otherOrg.id, email: 'other-admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+  const otherTeacher = await prisma.user.create({
+    data: { orgId: otherOrg.id, email: 'other-teacher@example.com', passwordHash, role: UserRole.TEACHER },
+  });
+  const otherStudent = await prisma.user.create({
+    data: { orgId: otherOrg.id, email: 'other-student@example.com', passwordHash, role: UserRole.STUDENT },
+  });
+
+  return { org, admin, alice, bob, student, otherAdmin, otherTeacher, otherStudent };
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+
+  app = buildApp({ logger: false });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+describe('admin revenue reports', () => {
+  async function seedSessions() {
+    const users = await createOrgWithUsers();
+    const { admin, alice, bob, student, otherAdmin, otherTeacher, otherStudent } = users;
+    const prisma = app.prisma;
+
+    const base = {
+      studentId: student.id,
+      classTimeZone: 'Australia/Sydney',
+      status: SessionStatus.COMPLETED,
+      consumesUnits: 1,
+      createdByAdminId: admin.id,
+    };
+
+    await prisma.session.createMany({
+      data: [
+        {
+          ...base,
+          teacherId: alice.id,
+          subject: Subject.ENGLISH,
+          startAtUtc: new Date('2030-06-03T00:00:00.000Z'),
+          endAtUtc: new Date('2030-06-03T01:30:00.000Z'),
+          studentHourlyRateCentsSnapshot: 10000,
+          teacherHourlyWageCentsSnapshot: 6000,
+          currencySnapshot: Currency.AUD,
+        },
+        {
+          ...base,
+          teacherId: bob.id,
+          subject: Subject.MATHEMATICS,
+          startAtUtc: new Date('2030-07-10T00:00:00.000Z'),
+          endAtUtc: new Date('2030-07-10T00:50:00.000Z'),
+          studentHourlyRateCentsSnapshot: 3333,
+          teacherHourlyWageCentsSnapshot: 1001,
+          currencySnapshot: Currency.USD,
+        },
+        {
+          ...base,
+          teacherId: bob.id,
+          subject: Subject.MATHEMATICS,
+          startAtUtc: new Date('2030-06-21T00:00:00.000Z'),
+          endAtUtc: new Date('2030-06-21T01:00:00.000Z'),
+          studentHourlyRateCentsSnapshot: 10000,
+          teacherHourlyWageCentsSnapshot: 5000,
+          currencySnapshot: Currency.AUD,
+          attendance: AttendanceOutcome.TEACHER_NO_SHOW,
+          payableMinutes: 0,
+        },
+        {
+          ...base,
+          teacherId: alice.id,
+          startAtUtc: new Date('2030-08-01T00:00:00.000Z'),
+          endAtUtc: new Date('2030-08-01T01:00:00.000Z'),
+          studentHourlyRateCentsSnapshot: 10000,
+          teacherHourlyWageCentsSnapshot: 5000,
+          currencySnapshot: Currency.AUD,
+        },
+        {
+          ...base,
+          teacherId: otherTeacher.id,
+          studentId: otherStudent.id,
+          createdByAdminId: otherAdmin.id,
+          startAtUtc: new Date('2030-06-04T00:00:00.000Z'),
+          endAtUtc: new Date('2030-06-04T01:00:00.000Z'),
+          studentHourlyRateCentsSnapshot: 10000,
+          teacherHourlyWageCentsSnapshot: 9000,
+          currencySnapshot: Currency.AUD,
+        },
+      ],
+    });
+
+    const lateCancelled = await prisma.session.create({
+      data: {
+        ...base,
+        teacherId: bob.id,
+        subject: Subject.MATHEMATICS,
+        status: SessionStatus.CANCELLED,
+        lateCancelCharge: 'FULL',
+        teacherPaidOnCancel: true,
+        startAtUtc: new Date('2030-06-20T00:00:00.000Z'),
+        endAtUtc: new Date('2030-06-20T01:00:00.000Z'),
+        studentHourlyRateCentsSnapshot: 10000,
+        teacherHourlyWageCentsSnapshot: 5000,
+        currencySnapshot: Currency.AUD,
+      },
+    });
+    await prisma.hourLedgerEntry.create({
+      data: {
+        studentId: student.id,
+        teacherId: bob.id,
+        sessionId: lateCancelled.id,
+        deltaUnits: -1,
+        reason: HourLedgerReason.LATE_CANCEL,
+      },
+    });
+
+    return users;
+  }
+
+  it('reports revenue, wage cost and margin by period, teacher, student and subject', async () => {
+    const { alice, bob, student } = await seedSessions();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const res = await request(app.server)
+      .get('/admin/reports?from=2030-06-01&to=2030-07-31')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    const aud = (sessionsCount: number, revenueCents: number, wageCostCents: number) => ({
+      currency: 'AUD',
+      sessionsCount,
+      revenueCents,
+      wageCostCents,
+      marginCents: revenueCents - wageCostCents,
+    });
+    // 50 minutes at 33.33/h bills 27.775 -> 27.78 and pays 50 minutes at 10.01/h = 8.341… -> 8.34.
+    const usd = { currency: 'USD', sessionsCount: 1, revenueCents: 2778, wageCostCents: 834, marginCents: 1944 };
+
+    expect(res.body).toEqual({
+      from: '2030-06-01',
+      to: '2030-07-31',
+      timeZone: 'Australia/Sydney',
+      granularity: 'MONTH',
+      totals: [aud(2, 25000, 14000), usd],
+      byPeriod: [
+        { periodStartLocal: '2030-06-01', totals: [aud(2, 25000, 14000)] },
+        { periodStartLocal: '2030-07-01', totals: [usd] },
+      ],
+      byTeacher: [
+        { teacherId: alice.id, teacherName: 'Alice', totals: [aud(1, 15000, 9000)] },
+        { teacherId: bob.id, teacherName: 'Bob', totals: [aud(1, 10000, 5000), usd] },
+      ],
+      byStudent: [{ studentId: student.id, studentName: 'Student, "Jr"', totals: [aud(2, 25000, 14000), usd] }],
+      bySubject: [
+        { subject: 'ENGLISH', totals: [aud(1, 15000, 9000)] },
+        { subject: 'MATHEMATICS', totals: [aud(1, 10000, 5000), usd] },
+      ],
+    });
+  });
+
+  it('lists every week in the range, starting on the payroll week start day', async () => {
+    await seedSessions();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const res = await request(app.server)
+      .get('/admin/reports?from=2030-06-01&to=2030-06-30&granularity=WEEK')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(res.body.byPeriod.map((period: { periodStartLocal: string }) => period.periodStartLocal)).toEqual([
+      '2030-05-27',
+      '2030-06-03',
+      '2030-06-10',
+      '2030-06-17',
+      '2030-06-24',
+    ]);
+    expect(res.body.byPeriod[1].totals).toEqual([
+      { currency: 'AUD', sessionsCount: 1, revenueCents: 15000, wageCostCents: 9000, marginCents: 6000 },
+    ]);
+    expect(res.body.byPeriod[2].totals).toEqual([]);
+  });
+
+  it('validates the range and is admin-only', async () => {
+    await seedSessions();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+    const teacherToken = await loginAs('alice@example.com', 'password123');
+
+    await request(app.server)
+      .get('/admin/reports?from=2030-07-01&to=2030-06-01')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(400);
+
+    await request(app.server)
+      .get('/admin/reports?from=2030-01-01&to=2031-06-01')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(400);
+
+    await request(app.server)
+      .get('/admin/reports?from=2030-06-01&to=2030-06-30&granularity=YEAR')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(400);
+
+    await request(app.server)
+      .get('/admin/reports?from=2030-06-01&to=2030-06-30')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .expect(403);
+  });
+});
@@ -0,0 +1,195 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { Currency, SessionStatus, UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const teacher = await prisma.user.create({
+    data: { orgId: org.id, email: 'teacher@example.com', passwordHash, role: UserRole.TEACHER },
+  });
+  await prisma.teacherProfile.create({
+    data: { userId: teacher.id, displayName: 'Test Teacher', timeZone: 'Australia/Sydney' },
+  });
+
+  const student = await prisma.user.create({
+    data: { orgId: org.id, email: 'student@example.com', passwordHash, role: UserRole.STUDENT },
+  });
+  await prisma.studentProfile.create({
+    data: { userId: student.id, displayName: 'Test Student', timeZone: 'Asia/Shanghai' },
+  });
+
+  await prisma.teacherStudentRate.create({
+    data: {
+      teacherId: teacher.id,
+      studentId: student.id,
+      studentHourlyRateCents: 10000,
+      teacherHourlyWageCents: 10000,
+      currency: Currency.AUD,
+    },
+  });
+
+  return { org, admin, teacher, student };
+}
+
+async function createSession(params: {
+  teacherId: string;
+  studentId: string;
+  createdByAdminId: string;
+  startAtUtc: Date;
+  endAtUtc: Date;
+  classTimeZone?: string;
+}) {
+  return app.prisma.session.create({
+    data: {
+      teacherId: params.teacherId,
+      studentId: params.studentId,
+      startAtUtc: params.startAtUtc,
+      endAtUtc: params.endAtUtc,
+      classTimeZone: params.classTimeZone ?? 'Australia/Sydney',
+      status: SessionStatus.SCHEDULED,
+      consumesUnits: 1,
+      studentHourlyRateCentsSnapshot: 10000,
+      teacherHourlyWageCentsSnapshot: 10000,
+      currencySnapshot: Currency.AUD,
+      createdByAdminId: params.createdByAdminId,
+    },
+    select: { id: true },
+  });
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+
+  app = buildApp({ logger: false });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+describe('scheduling suggestions', () => {
+  it('ranks free slots inside availability and both parties local hours', async () => {
+    const { teacher, student, admin } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    // Mondays 10:00-15:00 Sydney time, i.e. 2030-01-06T23:00Z to 2030-01-07T04:00Z.
+    await app.prisma.teacherAvailabilityWindow.create({
+      data: { teacherId: teacher.id, weekday: 1, startTimeLocal: '10:00', endTimeLocal: '15:00' },
+    });
+    const busy = await createSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      createdByAdminId: admin.id,
+      startAtUtc: new Date('2030-01-07T01:00:00.000Z'),
+      endAtUtc: new Date('2030-01-07T02:00:00.000Z'),
+    });
+
+    const query = {
+      teacherId: teacher.id,
+      studentId: student.id,
+      durationMinutes: 60,
+      from: '2030-01-07T00:00:00.000Z',
+      to: '2030-01-07T12:00:00.000Z',
+    };
+
+    const res = await request(app.server)
+      .get('/admin/scheduling/suggestions')
+      .query(query)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(res.body.teacherTimeZone).toBe('Australia/Sydney');
+    expect(res.body.studentTimeZone).toBe('Asia/Shanghai');
+    expect(res.body.slots).toEqual([
+      {
+        startAtUtc: '2030-01-07T02:00:00.000Z',
+        endAtUtc: '2030-01-07T03:00:00.000Z',
+        teacherLocalStart: '2030-01-07 13:00',
+        studentLocalStart: '2030-01-07 10:00',
+        score: 110,
+      },
+      expect.objectContaining({
+        startAtUtc: '2030-01-07T00:00:00.000Z',
+        studentLocalStart: '2030-01-07 08:00',
+        score: 100,
+      }),
+      expect.objectContaining({ startAtUtc: '2030-01-07T02:30:00.000Z', score: 100 }),
+      expect.objectContaining({ startAtUtc: '2030-01-07T03:00:00.000Z', score: 100 }),
+    ]);
+
+    const excluding = await request(app.server)
+      .get('/admin/scheduling/suggestions')
+      .query({ ...query, excludeSessionId: busy.id, limit: 3 })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(excluding.body.slots.map((slot: { startAtUtc: string }) => slot.startAtUtc)).toEqual([
+      '2030-01-07T01:00:00.000Z',
+      '2030-01-07T01:30:00.000Z',
+      '2030-01-07T02:00:00.000Z',
+    ]);
+  });
+
+  it('validates the range', async () => {
+    const { teacher, student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    await request(app.server)
+      .get('/admin/scheduling/suggestions')
+      .query({
+        teacherId: teacher.id,
+        studentId: student.id,
+        durationMinutes: 60,
+        from: '2030-01-01T00:00:00.000Z',
+        to: '2030-03-01T00:00:00.000Z',
+      })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(400);
+  });
+});
@@ -14,8 +14,12 @@ async function resetDb() {
 
   await prisma.auditLog.deleteMany();
   await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
   await prisma.hourLedgerEntry.deleteMany();
   await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
   await prisma.teacherStudentRate.deleteMany();
   await prisma.studentProfile.deleteMany();
   await prisma.teacherProfile.deleteMany();
@@ -153,4 +157,130 @@ describe('session completion job (step 7)', () => {
     const after2 = await request(app.server).get('/student/hours').set('Authorization', `Bearer ${token}`).expect(200);
     expect(after2.body).toEqual({ remainingUnits: 9 });
   });
+
+  it('holds ended sessions for confirmation until the grace period runs out', async () => {
+    const { teacher, student, admin } = await createOrgWithUsers();
+
+    const session = await app.prisma.session.create({
+      data: {
+        teacherId: teacher.id,
+        studentId: student.id,
+        startAtUtc: new Date('2030-01-01T10:00:00.000Z'),
+        endAtUtc: new Date('2030-01-01T11:00:00.000Z'),
+        classTimeZone: 'Australia/Sydney',
+        status: SessionStatus.SCHEDULED,
+        consumesUnits: 1,
+        studentHourlyRateCentsSnapshot: 10000,
+        teacherHourlyWageCentsSnapshot: 10000,
+        currencySnapshot: Currency.AUD,
+        createdByAdminId: admin.id,
+      },
+      select: { id: true },
+    });
+
+    await completeEndedSessions(app.prisma, { now: new Date('2030-01-01T12:00:00.000Z') });
+
+    const pending = await app.prisma.session.findUnique({ where: { id: session.id }, select: { status: true } });
+    expect(pending?.status).toBe(SessionStatus.PENDING_CONFIRMATION);
+    expect(await app.prisma.hourLedgerEntry.count({ where: { sessionId: session.id } })).toBe(0);
+
+    await completeEndedSessions(app.prisma, { now: new Date('2030-01-01T23:00:00.000Z') });
+
+    const completed = await app.prisma.session.findUnique({
+      where: { id: session.id },
+      select: { status: true, attendance: true, payableMinutes: true },
+    });
+    expect(completed).toEqual({ status: SessionStatus.COMPLETED, attendance: 'ATTENDED', payableMinutes: 60 });
+    expect(await app.prisma.hourLedgerEntry.count({ where: { sessionId: session.id } })).toBe(1);
+  });
+
+  it('does not let sessions waiting in their grace period crowd out newly ended ones', async () => {
+    const { org, teacher, student, admin } = await createOrgWithUsers();
+
+    await app.prisma.attendancePolicy.create({ data: { orgId: org.id, confirmationGraceHours: 72 } });
+
+    const sessionData = {
+      teacherId: teacher.id,
+      studentId: student.id,
+      classTimeZone: 'Australia/Sydney',
+      consumesUnits: 1,
+      studentHourlyRateCentsSnapshot: 10000,
+      teacherHourlyWageCentsSnapshot: 10000,
+      currencySnapshot: Currency.AUD,
+      createdByAdminId: admin.id,
+    };
+
+    for (let day = 1; day <= 3; day += 1) {
+      await app.prisma.session.create({
+        data: {
+          ...sessionData,
+          startAtUtc: new Date(`2030-01-0${day}T10:00:00.000Z`),
+          endAtUtc: new Date(`2030-01-0${day}T11:00:00.000Z`),
+          status: SessionStatus.SCHEDULED,
+        },
+      });
+    }
+
+    const now = new Date('2030-01-04T00:00:00.000Z');
+    await completeEndedSessions(app.prisma, { now });
+    expect(await app.prisma.session.count({ where: { status: SessionStatus.PENDING_CONFIRMATION } })).toBe(3);
+
+    const confirmed = await app.prisma.session.create({
+      data: {
+        ...sessionData,
+        startAtUtc: new Date('2030-01-03T20:00:00.000Z'),
+        endAtUtc: new Date('2030-01-03T21:00:00.000Z'),
+        status: SessionStatus.SCHEDULED,
+        attendance: 'ATTENDED',
+      },
+      select: { id: true },
+    });
+
+    const result = await completeEndedSessions(app.prisma, { now, batchSize: 2 });
+    expect(result).toEqual({ processed: 1 });
+
+    const completed = await app.prisma.session.findUnique({ where: { id: confirmed.id }, select: { status: true } });
+    expect(completed?.status).toBe(SessionStatus.COMPLETED);
+    expect(await app.prisma.session.count({ where: { status: SessionStatus.PENDING_CONFIRMATION } })).toBe(3);
+  });
+
+  it('applies the no-show policy to sessions with recorded attendance', async () => {
+    const { org, teacher, student, admin } = await createOrgWithUsers();
+
+    await app.prisma.attendancePolicy.create({
+      data: { orgId: org.id, confirmationGraceHours: 48, studentNoShowCharge: 'HALF', studentNoShowTeacherPaid: false },
+    });
+
+    const session = await app.prisma.session.create({
+      data: {
+        teacherId: teacher.id,
+        studentId: student.id,
+        startAtUtc: new Date('2030-01-01T10:00:00.000Z'),
+        endAtUtc: new Date('2030-01-01T11:00:00.000Z'),
+        classTimeZone: 'Australia/Sydney',
+        status: SessionStatus.SCHEDULED,
+        consumesUnits: 2,
+        studentHourlyRateCentsSnapshot: 10000,
+        teacherHourlyWageCentsSnapshot: 10000,
+        currencySnapshot: Currency.AUD,
+        createdByAdminId: admin.id,
+        attendance: 'STUDENT_NO_SHOW',
+      },
+      select: { id: true },
+    });
+
+    await completeEndedSessions(app.prisma, { now: new Date('2030-01-01T12:00:00.000Z') });
+
+    const completed = await app.prisma.session.findUnique({
+      where: { id: session.id },
+      select: { status: true, payableMinutes: true },
+    });
+    expect(completed).toEqual({ status: SessionStatus.COMPLETED, payableMinutes: 0 });
+
+    const ledger = await app.prisma.hourLedgerEntry.findMany({
+      where: { sessionId: session.id },
+      select: { deltaUnits: true, reason: true },
+    });
+    expect(ledger).toEqual([{ deltaUnits: -1, reason: HourLedgerReason.NO_SHOW }]);
+  });
 });
@@ -0,0 +1,231 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { Currency, SessionStatus, UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const teacher = await prisma.user.create({
+    data: { orgId: org.id, email: 'teacher@example.com', passwordHash, role: UserRole.TEACHER },
+  });
+  await prisma.teacherProfile.create({
+    data: { userId: teacher.id, displayName: 'Test Teacher', timeZone: 'Australia/Sydney' },
+  });
+
+  const student = await prisma.user.create({
+    data: { orgId: org.id, email: 'student@example.com', passwordHash, role: UserRole.STUDENT },
+  });
+  await prisma.studentProfile.create({
+    data: { userId: student.id, displayName: 'Test Student', timeZone: 'Asia/Shanghai' },
+  });
+
+  await prisma.teacherStudentRate.create({
+    data: {
+      teacherId: teacher.id,
+      studentId: student.id,
+      studentHourlyRateCents: 10000,
+      teacherHourlyWageCents: 10000,
+      currency: Currency.AUD,
+    },
+  });
+
+  return { org, admin, teacher, student };
+}
+
+async function createSession(params: {
+  teacherId: string;
+  studentId: string;
+  createdByAdminId: string;
+  startAtUtc: Date;
+  endAtUtc: Date;
+  classTimeZone?: string;
+}) {
+  return app.prisma.session.create({
+    data: {
+      teacherId: params.teacherId,
+      studentId: params.studentId,
+      startAtUtc: params.startAtUtc,
+      endAtUtc: params.endAtUtc,
+      classTimeZone: params.classTimeZone ?? 'Australia/Sydney',
+      status: SessionStatus.SCHEDULED,
+      consumesUnits: 1,
+      studentHourlyRateCentsSnapshot: 10000,
+      teacherHourlyWageCentsSnapshot: 10000,
+      currencySnapshot: Currency.AUD,
+      createdByAdminId: params.createdByAdminId,
+    },
+    select: { id: true },
+  });
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+
+  app = buildApp({ logger: false });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+describe('session notes and homework', () => {
+  it('lets the teacher write notes and homework that the student sees without the private note', async () => {
+    const { teacher, student, admin, org } = await createOrgWithUsers();
+    const teacherToken = await loginAs('teacher@example.com', 'password123');
+    const studentToken = await loginAs('student@example.com', 'password123');
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const session = await createSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      createdByAdminId: admin.id,
+      startAtUtc: new Date('2030-01-01T10:00:00.000Z'),
+      endAtUtc: new Date('2030-01-01T11:00:00.000Z'),
+    });
+
+    const notes = await request(app.server)
+      .put(`/teacher/sessions/${session.id}/notes`)
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .send({ privateNote: 'Struggles with focus', sharedSummary: 'Covered quadratic equations' })
+      .expect(200);
+    expect(notes.body).toMatchObject({
+      privateNote: 'Struggles with focus',
+      sharedSummary: 'Covered quadratic equations',
+      homework: [],
+    });
+
+    const created = await request(app.server)
+      .post(`/teacher/sessions/${session.id}/homework`)
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .send({ title: 'Worksheet 3', dueDateLocal: '2030-01-08' })
+      .expect(201);
+    expect(created.body).toMatchObject({ title: 'Worksheet 3', dueDateLocal: '2030-01-08', completed: false });
+
+    await request(app.server)
+      .post(`/teacher/sessions/${session.id}/homework`)
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .send({ title: 'Bad date', dueDateLocal: '2030-02-30' })
+      .expect(400);
+
+    const studentView = await request(app.server)
+      .get(`/student/sessions/${session.id}/notes`)
+      .set('Authorization', `Bearer ${studentToken}`)
+      .expect(200);
+    expect(studentView.body).not.toHaveProperty('privateNote');
+    expect(studentView.body.sharedSummary).toBe('Covered quadratic equations');
+    expect(studentView.body.homework).toHaveLength(1);
+
+    const completed = await request(app.server)
+      .patch(`/student/homework/${created.body.id}`)
+      .set('Authorization', `Bearer ${studentToken}`)
+      .send({ completed: true })
+      .expect(200);
+    expect(completed.body.completed).toBe(true);
+    expect(completed.body.completedAt).not.toBeNull();
+
+    const adminView = await request(app.server)
+      .get(`/admin/sessions/${session.id}/notes`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(adminView.body.privateNote).toBe('Struggles with focus');
+    expect(adminView.body.homework[0].completed).toBe(true);
+
+    const actions = await app.prisma.auditLog.findMany({
+      where: { orgId: org.id },
+      orderBy: { createdAt: 'asc' },
+      select: { action: true },
+    });
+    expect(actions.map((a) => a.action)).toEqual([
+      'TEACHER_UPDATE_SESSION_NOTES',
+      'TEACHER_CREATE_HOMEWORK',
+      'STUDENT_UPDATE_HOMEWORK',
+    ]);
+  });
+
+  it('keeps notes scoped to the session participants', async () => {
+    const { teacher, student, admin, org } = await createOrgWithUsers();
+
+    const passwordHash = hashPassword('password123');
+    await app.prisma.user.create({
+      data: { orgId: org.id, email: 'other@example.com', passwordHash, role: UserRole.STUDENT },
+    });
+    const otherToken = await loginAs('other@example.com', 'password123');
+    const teacherToken = await loginAs('teacher@example.com', 'password123');
+
+    const session = await createSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      createdByAdminId: admin.id,
+      startAtUtc: new Date('2030-01-01T10:00:00.000Z'),
+      endAtUtc: new Date('2030-01-01T11:00:00.000Z'),
+    });
+
+    const created = await request(app.server)
+      .post(`/teacher/sessions/${session.id}/homework`)
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .send({ title: 'Essay draft' })
+      .expect(201);
+
+    await request(app.server)
+      .get(`/student/sessions/${session.id}/notes`)
+      .set('Authorization', `Bearer ${otherToken}`)
+      .expect(404);
+
+    await request(app.server)
+      .patch(`/student/homework/${created.body.id}`)
+      .set('Authorization', `Bearer ${otherToken}`)
+      .send({ completed: true })
+      .expect(404);
+
+    await request(app.server)
+      .delete(`/teacher/homework/${created.body.id}`)
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .expect(200);
+    expect(await app.prisma.homeworkItem.count({ where: { sessionId: session.id } })).toBe(0);
+  });
+});
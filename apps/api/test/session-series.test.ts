@@ -0,0 +1,356 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { Currency, SessionStatus, UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const teacher = await prisma.user.create({
+    data: { orgId: org.id, email: 'teacher@example.com', passwordHash, role: UserRole.TEACHER },
+  });
+  await prisma.teacherProfile.create({
+    data: { userId: teacher.id, displayName: 'Test Teacher', timeZone: 'Australia/Sydney' },
+  });
+
+  const student = await prisma.user.create({
+    data: { orgId: org.id, email: 'student@example.com', passwordHash, role: UserRole.STUDENT },
+  });
+  await prisma.studentProfile.create({
+    data: { userId: student.id, displayName: 'Test Student', timeZone: 'Asia/Shanghai' },
+  });
+
+  await prisma.teacherStudentRate.create({
+    data: {
+      teacherId: teacher.id,
+      studentId: student.id,
+      studentHourlyRateCents: 10000,
+      teacherHourlyWageCents: 10000,
+      currency: Currency.AUD,
+    },
+  });
+
+  return { org, admin, teacher, student };
+}
+
+async function createSession(params: {
+  teacherId: string;
+  studentId: string;
+  createdByAdminId: string;
+  startAtUtc: Date;
+  endAtUtc: Date;
+  classTimeZone?: string;
+}) {
+  return app.prisma.session.create({
+    data: {
+      teacherId: params.teacherId,
+      studentId: params.studentId,
+      startAtUtc: params.startAtUtc,
+      endAtUtc: params.endAtUtc,
+      classTimeZone: params.classTimeZone ?? 'Australia/Sydney',
+      status: SessionStatus.SCHEDULED,
+      consumesUnits: 1,
+      studentHourlyRateCentsSnapshot: 10000,
+      teacherHourlyWageCentsSnapshot: 10000,
+      currencySnapshot: Currency.AUD,
+      createdByAdminId: params.createdByAdminId,
+    },
+    select: { id: true },
+  });
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+
+  app = buildApp({ logger: false });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+describe('session series', () => {
+  it('creates weekly occurrences that keep local wall-clock time across DST', async () => {
+    const { teacher, student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const created = await request(app.server)
+      .post('/admin/session-series')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        teacherId: teacher.id,
+        studentId: student.id,
+        classTimeZone: 'Australia/Sydney',
+        frequency: 'WEEKLY',
+        startDateLocal: '2030-03-25',
+        startTimeLocal: '17:00',
+        durationMinutes: 60,
+        occurrenceCount: 3,
+      })
+      .expect(201);
+
+    expect(created.body.sessionIds).toHaveLength(3);
+
+    const sessions = await app.prisma.session.findMany({
+      where: { seriesId: created.body.id },
+      orderBy: { startAtUtc: 'asc' },
+      select: { startAtUtc: true, endAtUtc: true, seriesOccurrenceDate: true, status: true },
+    });
+
+    // Sydney leaves daylight saving on 2030-04-07, so 17:00 local moves from 06:00Z to 07:00Z.
+    expect(sessions.map((s) => [s.seriesOccurrenceDate, s.startAtUtc.toISOString(), s.endAtUtc.toISOString()])).toEqual([
+      ['2030-03-25', '2030-03-25T06:00:00.000Z', '2030-03-25T07:00:00.000Z'],
+      ['2030-04-01', '2030-04-01T06:00:00.000Z', '2030-04-01T07:00:00.000Z'],
+      ['2030-04-08', '2030-04-08T07:00:00.000Z', '2030-04-08T08:00:00.000Z'],
+    ]);
+    expect(sessions.every((s) => s.status === SessionStatus.SCHEDULED)).toBe(true);
+  });
+
+  it('skips exception dates and stops at the until date', async () => {
+    const { teacher, student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const created = await request(app.server)
+      .post('/admin/session-series')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        teacherId: teacher.id,
+        studentId: student.id,
+        classTimeZone: 'Australia/Sydney',
+        frequency: 'FORTNIGHTLY',
+        startDateLocal: '2030-03-25',
+        startTimeLocal: '17:00',
+        durationMinutes: 90,
+        untilDateLocal: '2030-05-06',
+        exceptionDates: ['2030-04-08'],
+      })
+      .expect(201);
+
+    const series = await request(app.server)
+      .get(`/admin/session-series/${created.body.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(series.body.sessions.map((s: { occurrenceDate: string }) => s.occurrenceDate)).toEqual([
+      '2030-03-25',
+      '2030-04-22',
+      '2030-05-06',
+    ]);
+  });
+
+  it('rejects the whole series with every conflict listed', async () => {
+    const { admin, teacher, student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const existing = await createSession({
+      teacherId: teacher.id,
+      studentId: student.id,
+      createdByAdminId: admin.id,
+      startAtUtc: new Date('2030-04-01T06:30:00.000Z'),
+      endAtUtc: new Date('2030-04-01T07:30:00.000Z'),
+    });
+
+    const res = await request(app.server)
+      .post('/admin/session-series')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        teacherId: teacher.id,
+        studentId: student.id,
+        classTimeZone: 'Australia/Sydney',
+        frequency: 'WEEKLY',
+        startDateLocal: '2030-03-25',
+        startTimeLocal: '17:00',
+        durationMinutes: 60,
+        occurrenceCount: 3,
+      })
+      .expect(409);
+
+    expect(res.body).toEqual({
+      message: 'Teacher and student time conflict',
+      conflicts: [
+        {
+          occurrenceDate: '2030-04-01',
+          startAtUtc: '2030-04-01T06:00:00.000Z',
+          conflictSessionId: existing.id,
+          parties: ['TEACHER', 'STUDENT'],
+        },
+      ],
+    });
+    expect(await app.prisma.sessionSeries.count()).toBe(0);
+  });
+
+  it('editing "this and following" splits the series and only moves later occurrences', async () => {
+    const { teacher, student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const created = await request(app.server)
+      .post('/admin/session-series')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        teacherId: teacher.id,
+        studentId: student.id,
+        classTimeZone: 'Asia/Shanghai',
+        frequency: 'WEEKLY',
+        startDateLocal: '2030-01-07',
+        startTimeLocal: '18:00',
+        durationMinutes: 60,
+        occurrenceCount: 4,
+      })
+      .expect(201);
+
+    const [, second, third, fourth] = created.body.sessionIds as [string, string, string, string];
+
+    const updated = await request(app.server)
+      .patch(`/admin/session-series/${created.body.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ scope: 'THIS_AND_FOLLOWING', sessionId: third, startTimeLocal: '19:30', durationMinutes: 45 })
+      .expect(200);
+
+    expect(updated.body.seriesId).not.toBe(created.body.id);
+    expect(updated.body.sessionIds).toEqual([third, fourth]);
+
+    const original = await app.prisma.sessionSeries.findUnique({ where: { id: created.body.id } });
+    expect(original).toEqual(
+      expect.objectContaining({ untilDateLocal: '2030-01-20', occurrenceCount: null, startTimeLocal: '18:00' }),
+    );
+
+    const following = await app.prisma.sessionSeries.findUnique({ where: { id: updated.body.seriesId } });
+    expect(following).toEqual(
+      expect.objectContaining({
+        startDateLocal: '2030-01-21',
+        occurrenceCount: 2,
+        startTimeLocal: '19:30',
+        durationMinutes: 45,
+      }),
+    );
+
+    const secondSession = await app.prisma.session.findUnique({ where: { id: second } });
+    expect(secondSession?.seriesId).toBe(created.body.id);
+    expect(secondSession?.startAtUtc.toISOString()).toBe('2030-01-14T10:00:00.000Z');
+
+    const thirdSession = await app.prisma.session.findUnique({ where: { id: third } });
+    expect(thirdSession?.seriesId).toBe(updated.body.seriesId);
+    expect(thirdSession?.startAtUtc.toISOString()).toBe('2030-01-21T11:30:00.000Z');
+    expect(thirdSession?.endAtUtc.toISOString()).toBe('2030-01-21T12:15:00.000Z');
+  });
+
+  it('cancels a single occurrence or the whole series', async () => {
+    const { teacher, student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const created = await request(app.server)
+      .post('/admin/session-series')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        teacherId: teacher.id,
+        studentId: student.id,
+        classTimeZone: 'Asia/Shanghai',
+        frequency: 'WEEKLY',
+        startDateLocal: '2030-01-07',
+        startTimeLocal: '18:00',
+        durationMinutes: 60,
+        occurrenceCount: 3,
+      })
+      .expect(201);
+
+    const [first] = created.body.sessionIds as [string, string, string];
+
+    await request(app.server)
+      .delete(`/admin/session-series/${created.body.id}`)
+      .query({ scope: 'THIS', sessionId: first })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    const afterSingle = await app.prisma.sessionSeries.findUnique({ where: { id: created.body.id } });
+    expect(afterSingle?.exceptionDates).toEqual(['2030-01-07']);
+    expect(await app.prisma.session.count({ where: { status: SessionStatus.CANCELLED } })).toBe(1);
+
+    const all = await request(app.server)
+      .delete(`/admin/session-series/${created.body.id}`)
+      .query({ scope: 'ALL' })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(all.body.cancelledSessionIds).toHaveLength(2);
+    expect(await app.prisma.session.count({ where: { status: SessionStatus.SCHEDULED } })).toBe(0);
+  });
+
+  it('treats cancelling "this and following" from the first occurrence as cancelling the whole series', async () => {
+    const { teacher, student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const created = await request(app.server)
+      .post('/admin/session-series')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        teacherId: teacher.id,
+        studentId: student.id,
+        classTimeZone: 'Asia/Shanghai',
+        frequency: 'WEEKLY',
+        startDateLocal: '2030-01-07',
+        startTimeLocal: '18:00',
+        durationMinutes: 60,
+        occurrenceCount: 3,
+      })
+      .expect(201);
+
+    const [first] = created.body.sessionIds as [string, string, string];
+
+    const cancelled = await request(app.server)
+      .delete(`/admin/session-series/${created.body.id}`)
+      .query({ scope: 'THIS_AND_FOLLOWING', sessionId: first })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(cancelled.body.cancelledSessionIds).toHaveLength(3);
+    const series = await app.prisma.sessionSeries.findUniqueOrThrow({ where: { id: created.body.id } });
+    expect(series).toMatchObject({ untilDateLocal: null, occurrenceCount: 3 });
+
+    const audit = await app.prisma.auditLog.findFirst({ where: { action: 'ADMIN_CANCEL_SESSION_SERIES' } });
+    expect(audit?.meta).toMatchObject({ scope: 'ALL' });
+  });
+});
@@ -13,8 +13,12 @@ async function resetDb() {
 
   await prisma.auditLog.deleteMany();
   await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
   await prisma.hourLedgerEntry.deleteMany();
   await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
   await prisma.teacherStudentRate.deleteMany();
   await prisma.studentProfile.deleteMany();
   await prisma.teacherProfile.deleteMany();
@@ -259,6 +263,90 @@ describe('sessions scheduling (step 5)', () => {
       .expect(409);
   });
 
+  it('student double-booking across teachers is rejected (409) unless the admin overrides it', async () => {
+    const { org, teacher, student } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const otherTeacher = await app.prisma.user.create({
+      data: {
+        orgId: org.id,
+        email: 'teacher2@example.com',
+        passwordHash: hashPassword('password123'),
+        role: UserRole.TEACHER,
+      },
+    });
+    await app.prisma.teacherProfile.create({
+      data: { userId: otherTeacher.id, displayName: 'Other Teacher', timeZone: 'Australia/Sydney' },
+    });
+    await app.prisma.teacherStudentRate.create({
+      data: {
+        teacherId: otherTeacher.id,
+        studentId: student.id,
+        studentHourlyRateCents: 10000,
+        teacherHourlyWageCents: 10000,
+        currency: Currency.AUD,
+      },
+    });
+
+    const existing = await request(app.server)
+      .post('/admin/sessions')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        teacherId: teacher.id,
+        studentId: student.id,
+        startAtUtc: '2030-01-01T10:00:00.000Z',
+        endAtUtc: '2030-01-01T11:00:00.000Z',
+        classTimeZone: 'Australia/Sydney',
+      })
+      .expect(201);
+
+    const overlapping = {
+      teacherId: otherTeacher.id,
+      studentId: student.id,
+      startAtUtc: '2030-01-01T10:30:00.000Z',
+      endAtUtc: '2030-01-01T11:30:00.000Z',
+      classTimeZone: 'Australia/Sydney',
+    };
+
+    const rejected = await request(app.server)
+      .post('/admin/sessions')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send(overlapping)
+      .expect(409);
+
+    expect(rejected.body).toEqual({
+      message: 'Student time conflict',
+      conflictSessionId: existing.body.id,
+      conflicts: [
+        {
+          sessionId: existing.body.id,
+          teacherId: teacher.id,
+          studentId: student.id,
+          startAtUtc: '2030-01-01T10:00:00.000Z',
+          endAtUtc: '2030-01-01T11:00:00.000Z',
+          parties: ['STUDENT'],
+        },
+      ],
+    });
+
+    const created = await request(app.server)
+      .post('/admin/sessions')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ ...overlapping, overrideConflicts: true })
+      .expect(201);
+
+    const audit = await app.prisma.auditLog.findFirst({
+      where: { action: 'ADMIN_CREATE_SESSION', entityId: created.body.id },
+      select: { meta: true },
+    });
+    expect(audit?.meta).toEqual(
+      expect.objectContaining({
+        overrideConflicts: true,
+        overriddenConflicts: [expect.objectContaining({ sessionId: existing.body.id, parties: ['STUDENT'] })],
+      }),
+    );
+  });
+
   it('teacher sessions can be filtered by from/to (UTC)', async () => {
     const { teacher, student } = await createOrgWithUsers();
 
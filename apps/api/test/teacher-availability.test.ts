@@ -0,0 +1,216 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { Currency, UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { hashPassword } from '../src/lib/password.js';
+
+let app: ReturnType<typeof buildApp>;
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const teacher = await prisma.user.create({
+    data: { orgId: org.id, email: 'teacher@example.com', passwordHash, role: UserRole.TEACHER },
+  });
+  await prisma.teacherProfile.create({
+    data: { userId: teacher.id, displayName: 'Test Teacher', timeZone: 'Australia/Sydney' },
+  });
+
+  const student = await prisma.user.create({
+    data: { orgId: org.id, email: 'student@example.com', passwordHash, role: UserRole.STUDENT },
+  });
+  await prisma.studentProfile.create({
+    data: { userId: student.id, displayName: 'Test Student', timeZone: 'Asia/Shanghai' },
+  });
+
+  await prisma.teacherStudentRate.create({
+    data: {
+      teacherId: teacher.id,
+      studentId: student.id,
+      studentHourlyRateCents: 10000,
+      teacherHourlyWageCents: 10000,
+      currency: Currency.AUD,
+    },
+  });
+
+  return { org, admin, teacher, student };
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+
+  app = buildApp({ logger: false });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+beforeEach(async () => {
+  await resetDb();
+});
+
+describe('teacher availability', () => {
+  it('teacher manages weekly windows and blackout dates, admin can read them', async () => {
+    const { teacher } = await createOrgWithUsers();
+    const teacherToken = await loginAs('teacher@example.com', 'password123');
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    await request(app.server)
+      .put('/teacher/availability/windows')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .send({
+        windows: [
+          { weekday: 1, startTimeLocal: '09:00', endTimeLocal: '12:00' },
+          { weekday: 1, startTimeLocal: '11:00', endTimeLocal: '13:00' },
+        ],
+      })
+      .expect(400);
+
+    await request(app.server)
+      .put('/teacher/availability/windows')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .send({
+        windows: [
+          { weekday: 3, startTimeLocal: '18:00', endTimeLocal: '24:00' },
+          { weekday: 1, startTimeLocal: '09:00', endTimeLocal: '12:00' },
+        ],
+      })
+      .expect(200);
+
+    const blackout = await request(app.server)
+      .post('/teacher/availability/blackout-dates')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .send({ dateLocal: '2030-01-14', reason: 'Holiday' })
+      .expect(201);
+
+    await request(app.server)
+      .post('/teacher/availability/blackout-dates')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .send({ dateLocal: '2030-01-14' })
+      .expect(409);
+
+    const availability = await request(app.server)
+      .get(`/admin/teachers/${teacher.id}/availability`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(availability.body).toEqual({
+      timeZone: 'Australia/Sydney',
+      windows: [
+        expect.objectContaining({ weekday: 1, startTimeLocal: '09:00', endTimeLocal: '12:00' }),
+        expect.objectContaining({ weekday: 3, startTimeLocal: '18:00', endTimeLocal: '24:00' }),
+      ],
+      blackoutDates: [{ id: blackout.body.id, dateLocal: '2030-01-14', reason: 'Holiday' }],
+    });
+
+    await request(app.server)
+      .delete(`/teacher/availability/blackout-dates/${blackout.body.id}`)
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .expect(200);
+
+    const afterDelete = await request(app.server)
+      .get('/teacher/availability')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .expect(200);
+    expect(afterDelete.body.blackoutDates).toEqual([]);
+  });
+
+  it('admin session creation is checked against availability in the teacher time zone', async () => {
+    const { teacher, student } = await createOrgWithUsers();
+    const teacherToken = await loginAs('teacher@example.com', 'password123');
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    // Mondays 09:00-12:00 in Australia/Sydney (UTC+11 in January).
+    await request(app.server)
+      .put('/teacher/availability/windows')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .send({ windows: [{ weekday: 1, startTimeLocal: '09:00', endTimeLocal: '12:00' }] })
+      .expect(200);
+    await request(app.server)
+      .post('/teacher/availability/blackout-dates')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .send({ dateLocal: '2030-01-14' })
+      .expect(201);
+
+    const baseBody = { teacherId: teacher.id, studentId: student.id, classTimeZone: 'Australia/Sydney' };
+
+    await request(app.server)
+      .post('/admin/sessions')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ ...baseBody, startAtUtc: '2030-01-06T23:00:00.000Z', endAtUtc: '2030-01-07T00:00:00.000Z' })
+      .expect(201);
+
+    const outside = await request(app.server)
+      .post('/admin/sessions')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ ...baseBody, startAtUtc: '2030-01-07T00:30:00.000Z', endAtUtc: '2030-01-07T01:30:00.000Z' })
+      .expect(409);
+    expect(outside.body).toEqual({
+      message: 'Outside teacher availability',
+      availabilityIssues: [{ kind: 'OUTSIDE_WINDOWS', dateLocal: '2030-01-07' }],
+    });
+
+    const blackedOut = await request(app.server)
+      .post('/admin/sessions')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ ...baseBody, startAtUtc: '2030-01-13T23:00:00.000Z', endAtUtc: '2030-01-14T00:00:00.000Z' })
+      .expect(409);
+    expect(blackedOut.body.availabilityIssues).toEqual([{ kind: 'BLACKOUT', dateLocal: '2030-01-14' }]);
+
+    const overridden = await request(app.server)
+      .post('/admin/sessions')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        ...baseBody,
+        startAtUtc: '2030-01-07T00:30:00.000Z',
+        endAtUtc: '2030-01-07T01:30:00.000Z',
+        overrideAvailability: true,
+      })
+      .expect(201);
+    expect(overridden.body.availabilityWarnings).toEqual([{ kind: 'OUTSIDE_WINDOWS', dateLocal: '2030-01-07' }]);
+
+    const audit = await app.prisma.auditLog.findFirst({
+      where: { action: 'ADMIN_CREATE_SESSION', entityId: overridden.body.id },
+      select: { meta: true },
+    });
+    expect(audit?.meta).toMatchObject({ overrideAvailability: true });
+  });
+});
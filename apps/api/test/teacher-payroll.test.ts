@@ -13,8 +13,12 @@ async function resetDb() {
 
   await prisma.auditLog.deleteMany();
   await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
   await prisma.hourLedgerEntry.deleteMany();
   await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
   await prisma.teacherStudentRate.deleteMany();
   await prisma.studentProfile.deleteMany();
   await prisma.teacherProfile.deleteMany();
@@ -183,8 +187,11 @@ describe('teacher payroll (step 9)', () => {
       .expect(200);
 
     expect(payroll.body).toEqual({
-      weekStartLocal: weekStart,
-      weekEndLocal: '2030-06-09',
+      periodStartLocal: weekStart,
+      periodEndLocal: '2030-06-09',
+      timeZone: 'Australia/Sydney',
+      cadence: 'WEEKLY',
+      run: null,
       totals: [
         { currency: 'AUD', totalCents: 25000, totalHours: 2.5, sessionsCount: 2 },
         { currency: 'USD', totalCents: 12000, totalHours: 1, sessionsCount: 1 },
@@ -204,6 +211,46 @@ describe('teacher payroll (step 9)', () => {
     });
   });
 
+  it('includes late-cancelled sessions that the policy keeps payable', async () => {
+    const { admin, teacher, studentAud } = await createOrgWithUsers();
+    const teacherToken = await loginAs('teacher@example.com', 'password123');
+
+    const base = {
+      teacherId: teacher.id,
+      studentId: studentAud.id,
+      classTimeZone: 'Australia/Sydney',
+      status: SessionStatus.CANCELLED,
+      consumesUnits: 1,
+      studentHourlyRateCentsSnapshot: 10000,
+      teacherHourlyWageCentsSnapshot: 10000,
+      currencySnapshot: Currency.AUD,
+      createdByAdminId: admin.id,
+    };
+
+    await app.prisma.session.createMany({
+      data: [
+        {
+          ...base,
+          startAtUtc: new Date('2030-06-04T00:00:00.000Z'),
+          endAtUtc: new Date('2030-06-04T01:00:00.000Z'),
+          teacherPaidOnCancel: true,
+        },
+        {
+          ...base,
+          startAtUtc: new Date('2030-06-05T00:00:00.000Z'),
+          endAtUtc: new Date('2030-06-05T01:00:00.000Z'),
+        },
+      ],
+    });
+
+    const payroll = await request(app.server)
+      .get('/teacher/payroll?weekStart=2030-06-03')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .expect(200);
+
+    expect(payroll.body.totals).toEqual([{ currency: 'AUD', totalCents: 10000, totalHours: 1, sessionsCount: 1 }]);
+  });
+
   it('rejects non-Monday weekStart', async () => {
     await createOrgWithUsers();
     const teacherToken = await loginAs('teacher@example.com', 'password123');
@@ -213,4 +260,121 @@ describe('teacher payroll (step 9)', () => {
       .set('Authorization', `Bearer ${teacherToken}`)
       .expect(400);
   });
+
+  it('follows the organization payroll time zone and cadence', async () => {
+    const { admin, teacher, studentAud } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+    const teacherToken = await loginAs('teacher@example.com', 'password123');
+
+    const base = {
+      teacherId: teacher.id,
+      studentId: studentAud.id,
+      classTimeZone: 'Asia/Shanghai',
+      status: SessionStatus.COMPLETED,
+      consumesUnits: 1,
+      studentHourlyRateCentsSnapshot: 10000,
+      teacherHourlyWageCentsSnapshot: 10000,
+      currencySnapshot: Currency.AUD,
+      createdByAdminId: admin.id,
+    };
+
+    await app.prisma.session.createMany({
+      data: [
+        // Ends 2030-05-31 23:00 in Shanghai: still May there, already June in Sydney.
+        { ...base, startAtUtc: new Date('2030-05-31T14:00:00.000Z'), endAtUtc: new Date('2030-05-31T15:00:00.000Z') },
+        { ...base, startAtUtc: new Date('2030-06-10T02:00:00.000Z'), endAtUtc: new Date('2030-06-10T03:00:00.000Z') },
+        { ...base, startAtUtc: new Date('2030-06-20T02:00:00.000Z'), endAtUtc: new Date('2030-06-20T03:00:00.000Z') },
+      ],
+    });
+
+    await request(app.server)
+      .put('/admin/payroll-settings')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ timeZone: 'Asia/Shanghai', weekStartDay: 7, cadence: 'MONTHLY' })
+      .expect(200);
+
+    const monthly = await request(app.server)
+      .get('/teacher/payroll?date=2030-06-18')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .expect(200);
+    expect(monthly.body).toMatchObject({
+      periodStartLocal: '2030-06-01',
+      periodEndLocal: '2030-06-30',
+      timeZone: 'Asia/Shanghai',
+      cadence: 'MONTHLY',
+      totals: [{ currency: 'AUD', totalCents: 20000, sessionsCount: 2 }],
+    });
+
+    await request(app.server)
+      .get('/teacher/payroll?periodStart=2030-06-02')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .expect(400);
+
+    await request(app.server)
+      .put('/admin/payroll-settings')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ timeZone: 'Asia/Shanghai', weekStartDay: 7, cadence: 'SEMI_MONTHLY' })
+      .expect(200);
+
+    const semiMonthly = await request(app.server)
+      .get('/teacher/payroll?periodStart=2030-06-01')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .expect(200);
+    expect(semiMonthly.body.periodEndLocal).toBe('2030-06-15');
+    expect(semiMonthly.body.totals).toEqual([{ currency: 'AUD', totalCents: 10000, totalHours: 1, sessionsCount: 1 }]);
+
+    // Fortnights run Sunday to Saturday from the anchor; 2030-06-02 is a Sunday.
+    await request(app.server)
+      .put('/admin/payroll-settings')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ timeZone: 'Asia/Shanghai', weekStartDay: 7, cadence: 'FORTNIGHTLY', anchorDateLocal: '2030-06-02' })
+      .expect(200);
+
+    const fortnightly = await request(app.server)
+      .get('/teacher/payroll?date=2030-06-20')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .expect(200);
+    expect(fortnightly.body).toMatchObject({ periodStartLocal: '2030-06-16', periodEndLocal: '2030-06-29' });
+    expect(fortnightly.body.totals).toEqual([{ currency: 'AUD', totalCents: 10000, totalHours: 1, sessionsCount: 1 }]);
+
+    const previous = await request(app.server)
+      .get('/teacher/payroll?periodStart=2030-06-02')
+      .set('Authorization', `Bearer ${teacherToken}`)
+      .expect(200);
+    expect(previous.body.periodEndLocal).toBe('2030-06-15');
+  });
+
+  it('validates payroll settings', async () => {
+    await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const defaults = await request(app.server)
+      .get('/admin/payroll-settings')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(defaults.body).toEqual({
+      timeZone: 'Australia/Sydney',
+      weekStartDay: 1,
+      cadence: 'WEEKLY',
+      anchorDateLocal: null,
+    });
+
+    await request(app.server)
+      .put('/admin/payroll-settings')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ timeZone: 'Mars/Olympus', weekStartDay: 1, cadence: 'WEEKLY' })
+      .expect(400);
+
+    await request(app.server)
+      .put('/admin/payroll-settings')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ timeZone: 'Asia/Shanghai', weekStartDay: 8, cadence: 'WEEKLY' })
+      .expect(400);
+
+    await request(app.server)
+      .put('/admin/payroll-settings')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ timeZone: 'Asia/Shanghai', weekStartDay: 1, cadence: 'FORTNIGHTLY', anchorDateLocal: '2030-06-02' })
+      .expect(400);
+  });
 });
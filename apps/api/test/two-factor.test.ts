@@ -0,0 +1,327 @@
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { UserRole } from '@prisma/client';
+
+import { buildApp } from '../src/app.js';
+import { createMemoryMailTransport } from '../src/lib/mail.js';
+import { hashPassword } from '../src/lib/password.js';
+import { totpCode, totpStep } from '../src/lib/totp.js';
+
+let app: ReturnType<typeof buildApp>;
+const mail = createMemoryMailTransport();
+
+async function resetDb() {
+  const prisma = app.prisma;
+
+  await prisma.auditLog.deleteMany();
+  await prisma.changeRequest.deleteMany();
+  await prisma.payrollRun.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.hourLedgerEntry.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.sessionSeries.deleteMany();
+  await prisma.teacherStudentRate.deleteMany();
+  await prisma.studentProfile.deleteMany();
+  await prisma.teacherProfile.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.organization.deleteMany();
+}
+
+async function loginAs(email: string, password: string): Promise<string> {
+  const login = await request(app.server).post('/auth/login').send({ email, password }).expect(200);
+  return login.body.accessToken as string;
+}
+
+async function createOrgWithUsers() {
+  const prisma = app.prisma;
+  const org = await prisma.organization.create({ data: { name: 'Test Org' } });
+
+  const passwordHash = hashPassword('password123');
+
+  const admin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const otherAdmin = await prisma.user.create({
+    data: { orgId: org.id, email: 'admin2@example.com', passwordHash, role: UserRole.ADMIN },
+  });
+
+  const teacher = await prisma.user.create({
+    data: {
+      orgId: org.id,
+      email: 'teacher@example.com',
+      passwordHash,
+      role: UserRole.TEACHER,
+      teacherProfile: { create: { displayName: 'Test Teacher', timeZone: 'Australia/Sydney' } },
+    },
+  });
+
+  const student = await prisma.user.create({
+    data: {
+      orgId: org.id,
+      email: 'student@example.com',
+      passwordHash,
+      role: UserRole.STUDENT,
+      studentProfile: { create: { displayName: 'Test Student', timeZone: 'Asia/Shanghai' } },
+    },
+  });
+
+  return { org, admin, otherAdmin, teacher, student };
+}
+
+/** The app code for `offsetSteps` time steps from now; each code is accepted only once, so tests use distinct steps. */
+function codeFor(secret: string, offsetSteps = 0): string {
+  return totpCode(secret, totpStep(new Date()) + offsetSteps);
+}
+
+/** Turns two-factor authentication on through the account page and returns the secret and recovery codes. */
+async function enableTwoFactor(token: string): Promise<{ secret: string; recoveryCodes: string[] }> {
+  const setup = await request(app.server).post('/me/2fa/setup').set('authorization', `Bearer ${token}`).expect(200);
+  const secret = setup.body.secret as string;
+
+  const confirm = await request(app.server)
+    .post('/me/2fa/confirm')
+    .set('authorization', `Bearer ${token}`)
+    .send({ code: codeFor(secret, -1) })
+    .expect(200);
+  return { secret, recoveryCodes: confirm.body.recoveryCodes as string[] };
+}
+
+beforeAll(async () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] ?? 'test_secret';
+  process.env['JWT_ACCESS_TTL_SECONDS'] = process.env['JWT_ACCESS_TTL_SECONDS'] ?? '900';
+  process.env['JWT_REFRESH_TTL_SECONDS'] = process.env['JWT_REFRESH_TTL_SECONDS'] ?? '2592000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_MAX'] = '1000';
+  process.env['AUTH_LOGIN_RATE_LIMIT_WINDOW_MS'] = '60000';
+
+  app = buildApp({ logger: false, mailTransport: mail });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+describe('two-factor authentication', () => {
+  beforeEach(async () => {
+    await resetDb();
+  });
+
+  it('asks for an app code after the password once enabled, and accepts each code once', async () => {
+    const { org, admin } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    const setup = await request(app.server)
+      .post('/me/2fa/setup')
+      .set('authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(setup.body.otpauthUrl).toContain(`secret=${setup.body.secret}`);
+    expect(setup.body.otpauthUrl).toContain('issuer=Test%20Org');
+
+    await request(app.server)
+      .post('/me/2fa/confirm')
+      .set('authorization', `Bearer ${adminToken}`)
+      .send({ code: codeFor(setup.body.secret, 5) })
+      .expect(400);
+    const confirm = await request(app.server)
+      .post('/me/2fa/confirm')
+      .set('authorization', `Bearer ${adminToken}`)
+      .send({ code: codeFor(setup.body.secret, -1) })
+      .expect(200);
+    expect(confirm.body.recoveryCodes).toHaveLength(10);
+
+    const status = await request(app.server).get('/me/2fa').set('authorization', `Bearer ${adminToken}`).expect(200);
+    expect(status.body).toEqual({ enabled: true, pending: false, recoveryCodesRemaining: 10, required: false });
+
+    const login = await request(app.server)
+      .post('/auth/login')
+      .send({ email: 'admin@example.com', password: 'password123' })
+      .expect(200);
+    expect(login.body).toEqual({ twoFactor: 'required', challengeToken: expect.any(String) });
+    await request(app.server)
+      .get('/me')
+      .set('authorization', `Bearer ${login.body.challengeToken}`)
+      .expect(401);
+
+    const code = codeFor(setup.body.secret);
+    const verified = await request(app.server)
+      .post('/auth/2fa/verify')
+      .send({ challengeToken: login.body.challengeToken, code })
+      .expect(200);
+    await request(app.server).get('/me').set('authorization', `Bearer ${verified.body.accessToken}`).expect(200);
+
+    await request(app.server)
+      .post('/auth/2fa/verify')
+      .send({ challengeToken: login.body.challengeToken, code })
+      .expect(401);
+    await request(app.server).post('/auth/2fa/verify').send({ challengeToken: adminToken, code }).expect(401);
+
+    const actions = await app.prisma.auditLog.findMany({
+      where: { orgId: org.id, entityId: admin.id, action: { startsWith: 'USER_2FA_' } },
+      select: { action: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    expect(actions.map((entry) => entry.action)).toEqual([
+      'USER_2FA_SETUP_STARTED',
+      'USER_2FA_VERIFY_FAILED',
+      'USER_2FA_ENABLED',
+      'USER_2FA_LOGIN',
+      'USER_2FA_LOGIN_FAILED',
+    ]);
+  });
+
+  it('lets each recovery code stand in for an app code once', async () => {
+    await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+    const { recoveryCodes } = await enableTwoFactor(adminToken);
+    const recoveryCode = recoveryCodes[0]!;
+
+    const login = await request(app.server)
+      .post('/auth/login')
+      .send({ email: 'admin@example.com', password: 'password123' })
+      .expect(200);
+    const verified = await request(app.server)
+      .post('/auth/2fa/verify')
+      .send({ challengeToken: login.body.challengeToken, recoveryCode: recoveryCode.toUpperCase() })
+      .expect(200);
+    expect(verified.body.recoveryCodesRemaining).toBe(9);
+
+    await request(app.server)
+      .post('/auth/2fa/verify')
+      .send({ challengeToken: login.body.challengeToken, recoveryCode })
+      .expect(401);
+  });
+
+  it('makes admins set it up at sign in when the org requires it', async () => {
+    await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+
+    await request(app.server)
+      .put('/admin/security-policy')
+      .set('authorization', `Bearer ${adminToken}`)
+      .send({ requireAdminTwoFactor: true })
+      .expect(200);
+
+    // Teachers and students are not covered by the policy.
+    await loginAs('teacher@example.com', 'password123');
+
+    const login = await request(app.server)
+      .post('/auth/login')
+      .send({ email: 'admin2@example.com', password: 'password123' })
+      .expect(200);
+    expect(login.body.twoFactor).toBe('setup');
+
+    const setup = await request(app.server)
+      .post('/auth/2fa/setup')
+      .send({ challengeToken: login.body.challengeToken })
+      .expect(200);
+    const confirmed = await request(app.server)
+      .post('/auth/2fa/setup/confirm')
+      .send({ challengeToken: login.body.challengeToken, code: codeFor(setup.body.secret, -1) })
+      .expect(200);
+    expect(confirmed.body.recoveryCodes).toHaveLength(10);
+    const otherToken = confirmed.body.accessToken as string;
+
+    await request(app.server)
+      .post('/auth/2fa/setup')
+      .send({ challengeToken: login.body.challengeToken })
+      .expect(409);
+    await request(app.server)
+      .post('/me/2fa/disable')
+      .set('authorization', `Bearer ${otherToken}`)
+      .send({ password: 'password123', code: codeFor(setup.body.secret) })
+      .expect(409);
+  });
+
+  it('lets another admin reset it, signing the user out everywhere', async () => {
+    const { org, admin, otherAdmin } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+    await enableTwoFactor(adminToken);
+    const otherToken = await loginAs('admin2@example.com', 'password123');
+
+    const admins = await request(app.server).get('/admin/admins').set('authorization', `Bearer ${otherToken}`);
+    expect(admins.status).toBe(200);
+    expect(admins.body).toEqual([
+      expect.objectContaining({ email: 'admin@example.com', twoFactorEnabled: true, isSelf: false }),
+      expect.objectContaining({ email: 'admin2@example.com', twoFactorEnabled: false, isSelf: true }),
+    ]);
+
+    await request(app.server)
+      .post(`/admin/users/${admin.id}/2fa/reset`)
+      .set('authorization', `Bearer ${adminToken}`)
+      .expect(409);
+    const reset = await request(app.server)
+      .post(`/admin/users/${admin.id}/2fa/reset`)
+      .set('authorization', `Bearer ${otherToken}`)
+      .expect(200);
+    expect(reset.body.revoked).toBe(1);
+    await request(app.server).get('/me').set('authorization', `Bearer ${adminToken}`).expect(401);
+
+    await request(app.server)
+      .post(`/admin/users/${admin.id}/2fa/reset`)
+      .set('authorization', `Bearer ${otherToken}`)
+      .expect(409);
+    await loginAs('admin@example.com', 'password123');
+
+    const audit = await app.prisma.auditLog.findFirst({
+      where: { orgId: org.id, action: 'ADMIN_RESET_2FA' },
+      select: { actorUserId: true, entityId: true },
+    });
+    expect(audit).toEqual({ actorUserId: otherAdmin.id, entityId: admin.id });
+  });
+
+  it('counts wrong codes from a signed-in account towards the lockout and audits them', async () => {
+    const { org, admin } = await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+    const { secret } = await enableTwoFactor(adminToken);
+
+    for (let attempt = 0; attempt < 5; attempt += 1) {
+      await request(app.server)
+        .post('/me/2fa/recovery-codes')
+        .set('authorization', `Bearer ${adminToken}`)
+        .send({ code: codeFor(secret, 10) })
+        .expect(400);
+    }
+
+    const locked = await request(app.server)
+      .post('/me/2fa/recovery-codes')
+      .set('authorization', `Bearer ${adminToken}`)
+      .send({ code: codeFor(secret) })
+      .expect(429);
+    expect(locked.headers['retry-after']).toBeDefined();
+
+    const actions = await app.prisma.auditLog.findMany({
+      where: { orgId: org.id, entityId: admin.id },
+      select: { action: true },
+    });
+    const counts = actions.reduce<Record<string, number>>(
+      (acc, { action }) => ({ ...acc, [action]: (acc[action] ?? 0) + 1 }),
+      {},
+    );
+    expect(counts).toMatchObject({ USER_2FA_SETUP_STARTED: 1, USER_2FA_VERIFY_FAILED: 5, USER_LOCKED_OUT: 1 });
+    expect(
+      await app.prisma.loginAttempt.count({ where: { userId: admin.id, outcome: 'INVALID_CODE', method: 'TWO_FACTOR' } }),
+    ).toBe(5);
+  });
+
+  it('turns off only with the password and an app code', async () => {
+    await createOrgWithUsers();
+    const adminToken = await loginAs('admin@example.com', 'password123');
+    const { secret } = await enableTwoFactor(adminToken);
+
+    await request(app.server)
+      .post('/me/2fa/disable')
+      .set('authorization', `Bearer ${adminToken}`)
+      .send({ password: 'wrong', code: codeFor(secret) })
+      .expect(400);
+    await request(app.server)
+      .post('/me/2fa/disable')
+      .set('authorization', `Bearer ${adminToken}`)
+      .send({ password: 'password123', code: codeFor(secret) })
+      .expect(200);
+
+    await loginAs('admin@example.com', 'password123');
+  });
+});
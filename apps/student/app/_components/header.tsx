@@ -50,6 +50,8 @@ export default function Header() {
           <div className="navGroup">
             <NavLink href="/calendar" label="课表" />
             <NavLink href="/hours" label="课时" />
+            <NavLink href="/invoices" label="账单" />
+            <NavLink href="/account" label="账号" />
           </div>
           <button
             className="btnSecondary btnSm"
@@ -0,0 +1,223 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+
+import { useApi } from '../_lib/api';
+import { useAuth, useRequireAuth } from '../_lib/auth';
+
+type AuthSessionItem = {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+};
+
+function formatDateTime(value: string): string {
+  return new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(value));
+}
+
+function SessionsCard() {
+  const router = useRouter();
+  const { logout } = useAuth();
+  const { apiFetchJson } = useApi();
+
+  const [sessions, setSessions] = useState<AuthSessionItem[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const data = await apiFetchJson<AuthSessionItem[]>('/me/sessions');
+    setSessions(data);
+  }, [apiFetchJson]);
+
+  useEffect(() => {
+    refresh().catch((err: unknown) => setError(err instanceof Error ? err.message : '加载失败'));
+  }, [refresh]);
+
+  const signOutHere = async () => {
+    await logout();
+    router.replace('/login');
+  };
+
+  return (
+    <div className="card stack" style={{ maxWidth: 640 }}>
+      <div className="row" style={{ justifyContent: 'space-between' }}>
+        <strong>登录设备</strong>
+        <button
+          className="btnDanger btnSm"
+          type="button"
+          disabled={busy}
+          data-testid="sessions-revoke-all"
+          onClick={async () => {
+            if (!window.confirm('确认退出所有设备吗？（包括当前设备）')) return;
+            setError(null);
+            setBusy(true);
+            try {
+              await apiFetchJson('/me/sessions/revoke-all', { method: 'POST' });
+              await signOutHere();
+            } catch (err) {
+              setError(err instanceof Error ? err.message : '操作失败');
+              setBusy(false);
+            }
+          }}
+        >
+          退出所有设备
+        </button>
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+
+      {sessions === null ? (
+        <div className="muted">加载中…</div>
+      ) : (
+        <div className="list" data-testid="session-list">
+          {sessions.map((session) => (
+            <div key={session.id} className="listItem">
+              <div className="listItemMain">
+                <div className="row" style={{ justifyContent: 'space-between' }}>
+                  <span className="listItemTitle">
+                    {session.userAgent ?? '未知设备'}
+                    {session.current ? (
+                      <span className="statusBadge statusBadgeScheduled" style={{ marginLeft: 8 }}>
+                        当前设备
+                      </span>
+                    ) : null}
+                  </span>
+                </div>
+                <div className="listItemMeta">
+                  IP {session.ipAddress ?? '—'} · 登录于 {formatDateTime(session.createdAt)} · 最近活动{' '}
+                  {formatDateTime(session.lastUsedAt)}
+                </div>
+              </div>
+
+              <button
+                className="btnSecondary btnSm"
+                type="button"
+                disabled={busy}
+                onClick={async () => {
+                  setError(null);
+                  setBusy(true);
+                  try {
+                    await apiFetchJson(`/me/sessions/${session.id}`, { method: 'DELETE' });
+                    if (session.current) {
+                      await signOutHere();
+                      return;
+                    }
+                    await refresh();
+                  } catch (err) {
+                    setError(err instanceof Error ? err.message : '操作失败');
+                  } finally {
+                    setBusy(false);
+                  }
+                }}
+              >
+                退出
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function AccountPage() {
+  const { hydrated, accessToken } = useRequireAuth();
+  const { apiFetchJson } = useApi();
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  if (!hydrated || !accessToken) return <main className="muted">加载中…</main>;
+
+  return (
+    <main className="stack">
+      <h1 style={{ margin: 0 }}>账号</h1>
+
+      <form
+        className="card stack"
+        style={{ maxWidth: 420 }}
+        onSubmit={async (event) => {
+          event.preventDefault();
+          setError(null);
+          setSuccess(null);
+          if (newPassword.length < 8) {
+            setError('新密码至少 8 位');
+            return;
+          }
+          if (newPassword !== confirmation) {
+            setError('两次输入的新密码不一致');
+            return;
+          }
+
+          setSaving(true);
+          try {
+            await apiFetchJson('/me/password', {
+              method: 'POST',
+              headers: { 'content-type': 'application/json' },
+              body: JSON.stringify({ currentPassword, newPassword }),
+            });
+            setCurrentPassword('');
+            setNewPassword('');
+            setConfirmation('');
+            setSuccess('密码已修改');
+          } catch (err) {
+            setError(err instanceof Error ? err.message : '修改失败');
+          } finally {
+            setSaving(false);
+          }
+        }}
+      >
+        <strong>修改密码</strong>
+
+        <label className="field">
+          <span className="muted">当前密码</span>
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+          />
+        </label>
+
+        <label className="field">
+          <span className="muted">新密码</span>
+          <input
+            data-testid="account-new-password"
+            type="password"
+            autoComplete="new-password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            placeholder="至少 8 位"
+          />
+        </label>
+
+        <label className="field">
+          <span className="muted">确认新密码</span>
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+          />
+        </label>
+
+        {error ? <div className="error">{error}</div> : null}
+        {success ? <div className="success">{success}</div> : null}
+
+        <button className="btn" type="submit" disabled={saving || !currentPassword} data-testid="account-save-password">
+          {saving ? '保存中…' : '保存'}
+        </button>
+      </form>
+
+      <SessionsCard />
+    </main>
+  );
+}
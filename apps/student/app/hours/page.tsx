@@ -11,12 +11,56 @@ type HoursByTeacherResponse = {
   byTeacher: { teacherId: string; teacherName: string | null; remainingUnits: number }[];
 };
 
+type HourLot = {
+  id: string;
+  packageName: string | null;
+  units: number;
+  remainingUnits: number;
+  purchasedAt: string;
+  expiresAt: string | null;
+  status: 'ACTIVE' | 'USED_UP' | 'EXPIRED';
+};
+
+type BalanceResponse = {
+  balanceUnits: number;
+  scheduledUnits: number;
+  availableUnits: number;
+  status: 'OK' | 'LOW' | 'EMPTY' | 'OVERDRAWN';
+  policy: { lowBalanceUnits: number; blockScheduling: boolean; overdraftLimitUnits: number };
+};
+
+function balanceBanner(balance: BalanceResponse): { className: string; text: string } | null {
+  const scheduled = balance.scheduledUnits > 0 ? `（已排课程将使用 ${balance.scheduledUnits} 课时）` : '';
+  const blocked = balance.policy.blockScheduling ? '，续费前将无法安排新的课程' : '';
+  if (balance.status === 'LOW') {
+    return { className: 'warning', text: `课时即将用完：可用 ${balance.availableUnits} 课时${scheduled}，请及时续费。` };
+  }
+  if (balance.status === 'EMPTY') {
+    return { className: 'error', text: `课时已用完${scheduled}${blocked}。` };
+  }
+  if (balance.status === 'OVERDRAWN') {
+    return { className: 'error', text: `课时已透支 ${-balance.availableUnits} 课时${scheduled}${blocked}。` };
+  }
+  return null;
+}
+
+const LOT_STATUS_LABELS: Record<HourLot['status'], string> = {
+  ACTIVE: '使用中',
+  USED_UP: '已用完',
+  EXPIRED: '已过期',
+};
+
 export default function HoursPage() {
   const { hydrated, accessToken } = useRequireAuth();
-  const { apiFetchJson } = useApi();
+  const { apiFetchJson, apiDownload } = useApi();
 
   const [summary, setSummary] = useState<HoursByTeacherResponse | null>(null);
+  const [lots, setLots] = useState<HourLot[] | null>(null);
+  const [balance, setBalance] = useState<BalanceResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [statementTo, setStatementTo] = useState(() => new Date().toISOString().slice(0, 10));
+  const [statementFrom, setStatementFrom] = useState(() => `${new Date().toISOString().slice(0, 7)}-01`);
+  const [downloading, setDownloading] = useState(false);
 
   useEffect(() => {
     if (!hydrated || !accessToken) return;
@@ -25,8 +69,15 @@ export default function HoursPage() {
     (async () => {
       try {
         setError(null);
-        const data = await apiFetchJson<HoursByTeacherResponse>('/student/hours/by-teacher');
-        if (!cancelled) setSummary(data);
+        const [data, packages, balanceData] = await Promise.all([
+          apiFetchJson<HoursByTeacherResponse>('/student/hours/by-teacher'),
+          apiFetchJson<{ lots: HourLot[] }>('/student/packages'),
+          apiFetchJson<BalanceResponse>('/student/hours/balance'),
+        ]);
+        if (cancelled) return;
+        setSummary(data);
+        setLots(packages.lots);
+        setBalance(balanceData);
       } catch (err) {
         if (!cancelled) setError(err instanceof Error ? err.message : '加载失败');
       }
@@ -37,11 +88,18 @@ export default function HoursPage() {
     };
   }, [accessToken, apiFetchJson, hydrated]);
 
+  const banner = balance ? balanceBanner(balance) : null;
+
   return (
     <main className="stack">
       <h1 style={{ margin: 0 }}>剩余课时</h1>
 
       {error ? <div className="error">{error}</div> : null}
+      {banner ? (
+        <div className={banner.className} data-testid="balance-banner">
+          {banner.text}
+        </div>
+      ) : null}
 
       <div className="card">
         <div className="muted" style={{ fontSize: 12 }}>
@@ -75,6 +133,65 @@ export default function HoursPage() {
           )}
         </div>
       ) : null}
+
+      {lots && lots.length > 0 ? (
+        <div className="card stack" data-testid="hour-packages">
+          <strong>课时包</strong>
+          <div className="muted" style={{ fontSize: 12 }}>
+            上课时优先使用最早购买的课时包；过期未用完的课时将自动失效。
+          </div>
+          {lots.map((lot) => (
+            <div key={lot.id} className="row" style={{ justifyContent: 'space-between' }}>
+              <span>
+                {lot.packageName ?? '课时包'}
+                <span className="muted" style={{ fontSize: 12 }}>
+                  {' '}
+                  · {lot.expiresAt ? `${lot.expiresAt.slice(0, 10)} 到期` : '长期有效'} · {LOT_STATUS_LABELS[lot.status]}
+                </span>
+              </span>
+              <strong>
+                {lot.remainingUnits}/{lot.units}
+              </strong>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      <div className="card stack" data-testid="statement">
+        <strong>对账单</strong>
+        <div className="row" style={{ gap: 8, alignItems: 'flex-end', flexWrap: 'wrap' }}>
+          <label className="field">
+            <span className="muted">开始日期</span>
+            <input type="date" value={statementFrom} onChange={(e) => setStatementFrom(e.target.value)} />
+          </label>
+          <label className="field">
+            <span className="muted">结束日期</span>
+            <input type="date" value={statementTo} onChange={(e) => setStatementTo(e.target.value)} />
+          </label>
+          <button
+            className="btnSecondary"
+            type="button"
+            disabled={downloading || !statementFrom || !statementTo}
+            data-testid="statement-download"
+            onClick={async () => {
+              setError(null);
+              setDownloading(true);
+              try {
+                await apiDownload(
+                  `/student/statement.pdf?from=${statementFrom}&to=${statementTo}`,
+                  `statement-${statementFrom}-${statementTo}.pdf`,
+                );
+              } catch (err) {
+                setError(err instanceof Error ? err.message : '下载失败');
+              } finally {
+                setDownloading(false);
+              }
+            }}
+          >
+            {downloading ? '生成中…' : '下载 PDF'}
+          </button>
+        </div>
+      </div>
     </main>
   );
 }
@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { useApi } from '../_lib/api';
+import { useRequireAuth } from '../_lib/auth';
+
+type InvoiceItem = {
+  id: string;
+  number: string | null;
+  currency: string;
+  status: 'ISSUED' | 'PAID' | 'VOID';
+  periodStartLocal: string;
+  periodEndLocal: string;
+  totalCents: number;
+  issuedAt: string | null;
+  paidAt: string | null;
+  lines: { id: string; description: string; amountCents: number }[];
+};
+
+const STATUS_LABELS: Record<InvoiceItem['status'], string> = {
+  ISSUED: '待付款',
+  PAID: '已付款',
+  VOID: '已作废',
+};
+
+function formatCurrencyFromCents(cents: number, currency: string): string {
+  const amount = cents / 100;
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+export default function InvoicesPage() {
+  const { hydrated, accessToken } = useRequireAuth();
+  const { apiFetchJson } = useApi();
+
+  const [invoices, setInvoices] = useState<InvoiceItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!hydrated || !accessToken) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        setError(null);
+        const data = await apiFetchJson<InvoiceItem[]>('/student/invoices');
+        if (!cancelled) setInvoices(data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : '加载失败');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken, apiFetchJson, hydrated]);
+
+  return (
+    <main className="stack">
+      <h1 style={{ margin: 0 }}>账单</h1>
+
+      {error ? <div className="error">{error}</div> : null}
+
+      {invoices === null ? (
+        <div className="card muted">加载中…</div>
+      ) : invoices.length === 0 ? (
+        <div className="card muted">暂无账单</div>
+      ) : (
+        <div className="stack" data-testid="invoice-list">
+          {invoices.map((invoice) => (
+            <div key={invoice.id} className="card stack">
+              <div className="row" style={{ justifyContent: 'space-between' }}>
+                <strong>{invoice.number ?? '—'}</strong>
+                <strong>{formatCurrencyFromCents(invoice.totalCents, invoice.currency)}</strong>
+              </div>
+
+              <div className="muted" style={{ fontSize: 13 }}>
+                {STATUS_LABELS[invoice.status]} · {invoice.periodStartLocal} ~ {invoice.periodEndLocal}
+                {invoice.issuedAt ? ` · 开具于 ${invoice.issuedAt.slice(0, 10)}` : ''}
+              </div>
+
+              <button
+                className="btnSecondary"
+                type="button"
+                onClick={() => setExpandedId(expandedId === invoice.id ? null : invoice.id)}
+              >
+                {expandedId === invoice.id ? '收起明细' : '查看明细'}
+              </button>
+
+              {expandedId === invoice.id ? (
+                <div className="stack" style={{ gap: 6 }}>
+                  {invoice.lines.map((line) => (
+                    <div key={line.id} className="row" style={{ justifyContent: 'space-between', fontSize: 13 }}>
+                      <span>{line.description}</span>
+                      <span>{formatCurrencyFromCents(line.amountCents, invoice.currency)}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      )}
+    </main>
+  );
+}
@@ -1,18 +1,38 @@
 'use client';
 
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 
 import { useAuth } from '../_lib/auth';
 
+const CODE_RESEND_SECONDS = 60;
+
+/** Email addresses contain `@`; anything else is taken as a phone number. */
+function identifierBody(identifier: string): { email: string } | { phone: string } {
+  const value = identifier.trim();
+  return value.includes('@') ? { email: value } : { phone: value };
+}
+
 export default function LoginPage() {
   const router = useRouter();
   const { hydrated, accessToken, setAccessToken } = useAuth();
 
-  const [email, setEmail] = useState('');
+  const [mode, setMode] = useState<'password' | 'code'>('password');
+  const [identifier, setIdentifier] = useState('');
   const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
   const [loading, setLoading] = useState(false);
+  const [sendingCode, setSendingCode] = useState(false);
+  const [resendIn, setResendIn] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = window.setTimeout(() => setResendIn((value) => value - 1), 1000);
+    return () => window.clearTimeout(timer);
+  }, [resendIn]);
 
   useEffect(() => {
     if (!hydrated) return;
@@ -23,23 +43,32 @@ export default function LoginPage() {
     <main>
       <h1 style={{ marginTop: 0 }}>登录</h1>
 
-      <div className="card" style={{ maxWidth: 420 }}>
+      <div className="card stack" style={{ maxWidth: 420 }}>
         <form
           className="stack"
           onSubmit={async (event) => {
             event.preventDefault();
             setError(null);
+            setNotice(null);
             setLoading(true);
 
             try {
-              const res = await fetch('/auth/login', {
+              const res = await fetch(mode === 'password' ? '/auth/login' : '/auth/login-code/verify', {
                 method: 'POST',
                 headers: { 'content-type': 'application/json' },
-                body: JSON.stringify({ email, password }),
+                body: JSON.stringify(
+                  mode === 'password'
+                    ? { ...identifierBody(identifier), password }
+                    : { ...identifierBody(identifier), code: code.trim() },
+                ),
               });
 
+              if (res.status === 429) {
+                setError('尝试次数过多，请稍后再试');
+                return;
+              }
               if (!res.ok) {
-                setError('邮箱或密码错误');
+                setError(mode === 'password' ? '账号或密码错误' : '验证码错误或已过期');
                 return;
               }
 
@@ -58,29 +87,101 @@ export default function LoginPage() {
             }
           }}
         >
+          <div className="row" style={{ gap: 8 }}>
+            {(
+              [
+                ['password', '密码登录'],
+                ['code', '验证码登录'],
+              ] as const
+            ).map(([value, label]) => (
+              <button
+                key={value}
+                className={mode === value ? 'btn btnSm' : 'btnSecondary btnSm'}
+                type="button"
+                aria-pressed={mode === value}
+                onClick={() => {
+                  setMode(value);
+                  setError(null);
+                  setNotice(null);
+                }}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
           <label className="field">
-            <span className="muted">邮箱</span>
+            <span className="muted">邮箱或手机号</span>
             <input
               data-testid="email"
-              type="email"
-              autoComplete="email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              placeholder="请输入邮箱"
+              type="text"
+              autoComplete="username"
+              value={identifier}
+              onChange={(e) => setIdentifier(e.target.value)}
+              placeholder="请输入邮箱或手机号"
             />
           </label>
 
-          <label className="field">
-            <span className="muted">密码</span>
-            <input
-              data-testid="password"
-              type="password"
-              autoComplete="current-password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              placeholder="••••••••"
-            />
-          </label>
+          {mode === 'password' ? (
+            <label className="field">
+              <span className="muted">密码</span>
+              <input
+                data-testid="password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="••••••••"
+              />
+            </label>
+          ) : (
+            <div className="row" style={{ gap: 8, alignItems: 'flex-end' }}>
+              <label className="field" style={{ flex: 1 }}>
+                <span className="muted">验证码</span>
+                <input
+                  data-testid="login-code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="6 位数字"
+                />
+              </label>
+              <button
+                className="btnSecondary"
+                type="button"
+                disabled={sendingCode || resendIn > 0 || !identifier.trim()}
+                data-testid="login-code-send"
+                onClick={async () => {
+                  setError(null);
+                  setNotice(null);
+                  setSendingCode(true);
+                  try {
+                    const res = await fetch('/auth/login-code', {
+                      method: 'POST',
+                      headers: { 'content-type': 'application/json' },
+                      body: JSON.stringify(identifierBody(identifier)),
+                    });
+                    if (!res.ok) {
+                      setError(res.status === 429 ? '请求过于频繁，请稍后再试' : '请输入正确的邮箱或手机号');
+                      return;
+                    }
+                    setResendIn(CODE_RESEND_SECONDS);
+                    setNotice('如果账号存在，验证码已发送');
+                  } catch (err) {
+                    setError(err instanceof Error ? err.message : '发送失败');
+                  } finally {
+                    setSendingCode(false);
+                  }
+                }}
+              >
+                {resendIn > 0 ? `${resendIn} 秒后重发` : '获取验证码'}
+              </button>
+            </div>
+          )}
+
+          {notice ? <div className="success">{notice}</div> : null}
 
           {error ? (
             <div className="error" data-testid="login-error">
@@ -92,6 +193,9 @@ export default function LoginPage() {
             {loading ? '登录中…' : '登录'}
           </button>
         </form>
+        <Link href="/forgot-password" className="muted" style={{ fontSize: 13 }}>
+          忘记密码？
+        </Link>
       </div>
     </main>
   );
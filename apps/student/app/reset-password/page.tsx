@@ -0,0 +1,5 @@
+import SetPasswordForm from '../_components/set-password-form';
+
+export default function ResetPasswordPage() {
+  return <SetPasswordForm endpoint="/auth/reset-password" title="重置密码" intro="请设置新密码。" />;
+}
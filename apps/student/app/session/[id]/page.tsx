@@ -23,12 +23,41 @@ type ChangeRequestResponse = {
   sessionId: string;
   type: string;
   status: string;
+  lateCancellation: boolean;
 };
 
-function canCreateChangeRequest(startAtUtcIso: string): boolean {
+type HomeworkItem = {
+  id: string;
+  title: string;
+  description: string | null;
+  dueDateLocal: string | null;
+  completed: boolean;
+};
+
+type SessionNotes = {
+  sessionId: string;
+  sharedSummary: string | null;
+  updatedAt: string | null;
+  homework: HomeworkItem[];
+};
+
+type CancellationPolicy = {
+  cutoffHours: number;
+  allowLateCancellation: boolean;
+  lateCancelCharge: 'FULL' | 'HALF' | 'NONE';
+  lateCancelTeacherPaid: boolean;
+};
+
+const LATE_CANCEL_CHARGE_LABELS: Record<CancellationPolicy['lateCancelCharge'], string> = {
+  FULL: '扣除全部课时',
+  HALF: '扣除一半课时',
+  NONE: '不扣课时',
+};
+
+function isBeforeCutoff(startAtUtcIso: string, cutoffHours: number): boolean {
   const startAtUtc = new Date(startAtUtcIso).getTime();
-  const cutoffUtc = startAtUtc - 24 * 60 * 60 * 1000;
-  return Date.now() < cutoffUtc;
+  const cutoffUtc = startAtUtc - cutoffHours * 60 * 60 * 1000;
+  return Date.now() <= cutoffUtc;
 }
 
 export default function SessionDetailPage({ params }: { params: { id: string } }) {
@@ -38,12 +67,20 @@ export default function SessionDetailPage({ params }: { params: { id: string } }
   const { timeZone } = useDisplayTimeZone();
 
   const [session, setSession] = useState<SessionListItem | null>(null);
+  const [policy, setPolicy] = useState<CancellationPolicy | null>(null);
+  const [notes, setNotes] = useState<SessionNotes | null>(null);
+  const [homeworkError, setHomeworkError] = useState<string | null>(null);
+  const [updatingHomeworkId, setUpdatingHomeworkId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
   const [success, setSuccess] = useState<string | null>(null);
 
-  const canRequest = useMemo(() => (session ? canCreateChangeRequest(session.startAtUtc) : false), [session]);
+  const beforeCutoff = useMemo(
+    () => (session && policy ? isBeforeCutoff(session.startAtUtc, policy.cutoffHours) : false),
+    [policy, session],
+  );
+  const canCancel = beforeCutoff || Boolean(policy?.allowLateCancellation);
 
   useEffect(() => {
     if (!hydrated || !accessToken) return;
@@ -52,9 +89,18 @@ export default function SessionDetailPage({ params }: { params: { id: string } }
     (async () => {
       try {
         setError(null);
-        const sessions = await apiFetchJson<SessionListItem[]>('/student/sessions');
+        const [sessions, cancellationPolicy] = await Promise.all([
+          apiFetchJson<SessionListItem[]>('/student/sessions'),
+          apiFetchJson<CancellationPolicy>('/student/cancellation-policy'),
+        ]);
         const found = sessions.find((s) => s.id === params.id) ?? null;
-        if (!cancelled) setSession(found);
+        if (cancelled) return;
+        setSession(found);
+        setPolicy(cancellationPolicy);
+        if (found) {
+          const sessionNotes = await apiFetchJson<SessionNotes>(`/student/sessions/${found.id}/notes`);
+          if (!cancelled) setNotes(sessionNotes);
+        }
       } catch (err) {
         if (!cancelled) setError(err instanceof Error ? err.message : '加载失败');
       }
@@ -65,6 +111,25 @@ export default function SessionDetailPage({ params }: { params: { id: string } }
     };
   }, [accessToken, apiFetchJson, hydrated, params.id]);
 
+  const toggleHomework = async (item: HomeworkItem, completed: boolean) => {
+    setHomeworkError(null);
+    setUpdatingHomeworkId(item.id);
+    try {
+      const updated = await apiFetchJson<HomeworkItem>(`/student/homework/${item.id}`, {
+        method: 'PATCH',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ completed }),
+      });
+      setNotes((prev) =>
+        prev ? { ...prev, homework: prev.homework.map((h) => (h.id === updated.id ? updated : h)) } : prev,
+      );
+    } catch (err) {
+      setHomeworkError(err instanceof Error ? err.message : '更新失败');
+    } finally {
+      setUpdatingHomeworkId(null);
+    }
+  };
+
   return (
     <main className="stack">
       <div className="row" style={{ justifyContent: 'space-between' }}>
@@ -95,7 +160,7 @@ export default function SessionDetailPage({ params }: { params: { id: string } }
             <button
               className="btnDanger"
               type="button"
-              disabled={!canRequest || submitting}
+              disabled={!canCancel || submitting}
               onClick={async () => {
                 setSubmitError(null);
                 setSuccess(null);
@@ -106,7 +171,11 @@ export default function SessionDetailPage({ params }: { params: { id: string } }
                     headers: { 'content-type': 'application/json' },
                     body: JSON.stringify({ type: 'CANCEL' }),
                   });
-                  setSuccess(`已提交申请（${data.type}/${data.status}）`);
+                  setSuccess(
+                    data.lateCancellation
+                      ? `已提交迟取消申请（${data.type}/${data.status}），审批通过后将按机构规则处理`
+                      : `已提交申请（${data.type}/${data.status}）`,
+                  );
                 } catch (err) {
                   setSubmitError(err instanceof Error ? err.message : '提交失败');
                 } finally {
@@ -117,16 +186,59 @@ export default function SessionDetailPage({ params }: { params: { id: string } }
               申请取消
             </button>
 
-            <Link className={`btnSecondary`} href="#" aria-disabled={!canRequest} onClick={(e) => e.preventDefault()}>
+            <Link className={`btnSecondary`} href="#" aria-disabled={!beforeCutoff} onClick={(e) => e.preventDefault()}>
               申请改期（后续完善）
             </Link>
           </div>
 
-          {!canRequest ? <div className="muted">距离开课不足 24 小时，无法发起改期/取消。</div> : null}
+          {policy && !beforeCutoff ? (
+            policy.allowLateCancellation ? (
+              <div className="muted">
+                距离开课不足 {policy.cutoffHours} 小时，仍可申请取消，但属于迟取消：
+                {LATE_CANCEL_CHARGE_LABELS[policy.lateCancelCharge]}。
+              </div>
+            ) : (
+              <div className="muted">距离开课不足 {policy.cutoffHours} 小时，无法发起改期/取消。</div>
+            )
+          ) : null}
           {submitError ? <div className="error">{submitError}</div> : null}
           {success ? <div>{success}</div> : null}
         </div>
       )}
+
+      {notes ? (
+        <div className="card stack" data-testid="session-notes">
+          <strong>课堂总结</strong>
+          {notes.sharedSummary ? (
+            <div style={{ whiteSpace: 'pre-wrap' }}>{notes.sharedSummary}</div>
+          ) : (
+            <div className="muted">老师暂未填写</div>
+          )}
+
+          <strong>作业</strong>
+          {notes.homework.length === 0 ? <div className="muted">暂无作业</div> : null}
+          {notes.homework.map((item) => (
+            <label key={item.id} className="row" style={{ gap: 8 }}>
+              <input
+                type="checkbox"
+                checked={item.completed}
+                disabled={updatingHomeworkId !== null}
+                onChange={(e) => void toggleHomework(item, e.target.checked)}
+              />
+              <span>
+                {item.title}
+                {item.dueDateLocal ? <span className="muted">（截止 {item.dueDateLocal}）</span> : null}
+                {item.description ? (
+                  <span className="muted" style={{ display: 'block', fontSize: 13 }}>
+                    {item.description}
+                  </span>
+                ) : null}
+              </span>
+            </label>
+          ))}
+          {homeworkError ? <div className="error">{homeworkError}</div> : null}
+        </div>
+      ) : null}
     </main>
   );
 }
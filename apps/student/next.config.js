@@ -8,6 +8,7 @@ const nextConfig = {
     return [
       { source: '/auth/:path*', destination: `${baseUrl}/auth/:path*` },
       { source: '/me', destination: `${baseUrl}/me` },
+      { source: '/me/:path*', destination: `${baseUrl}/me/:path*` },
       { source: '/student/:path*', destination: `${baseUrl}/student/:path*` },
     ];
   },
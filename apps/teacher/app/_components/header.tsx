@@ -49,7 +49,10 @@ export default function Header() {
           </label>
           <div className="navGroup">
             <NavLink href="/calendar" label="课表" />
+            <NavLink href="/change-requests" label="我的申请" />
+            <NavLink href="/availability" label="可上课时间" />
             <NavLink href="/payroll" label="工资" />
+            <NavLink href="/account" label="账号" />
           </div>
           <button
             className="btnSecondary btnSm"
@@ -0,0 +1,196 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { useApi } from '../_lib/api';
+
+type HomeworkItem = {
+  id: string;
+  title: string;
+  description: string | null;
+  dueDateLocal: string | null;
+  completed: boolean;
+};
+
+type SessionNotes = {
+  sessionId: string;
+  privateNote: string | null;
+  sharedSummary: string | null;
+  updatedAt: string | null;
+  homework: HomeworkItem[];
+};
+
+export default function SessionNotesEditor({ sessionId }: { sessionId: string }) {
+  const { apiFetchJson } = useApi();
+
+  const [notes, setNotes] = useState<SessionNotes | null>(null);
+  const [privateNote, setPrivateNote] = useState('');
+  const [sharedSummary, setSharedSummary] = useState('');
+  const [homeworkTitle, setHomeworkTitle] = useState('');
+  const [homeworkDueDate, setHomeworkDueDate] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const applyNotes = useCallback((data: SessionNotes) => {
+    setNotes(data);
+    setPrivateNote(data.privateNote ?? '');
+    setSharedSummary(data.sharedSummary ?? '');
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const data = await apiFetchJson<SessionNotes>(`/teacher/sessions/${sessionId}/notes`);
+        if (!cancelled) applyNotes(data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : '加载失败');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiFetchJson, applyNotes, sessionId]);
+
+  const run = async (action: () => Promise<void>, successMessage: string) => {
+    setError(null);
+    setSuccess(null);
+    setBusy(true);
+    try {
+      await action();
+      setSuccess(successMessage);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '保存失败');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const reloadHomework = async () => {
+    const data = await apiFetchJson<SessionNotes>(`/teacher/sessions/${sessionId}/notes`);
+    setNotes(data);
+  };
+
+  if (notes === null) {
+    return error ? <div className="error">{error}</div> : <div className="muted">笔记加载中…</div>;
+  }
+
+  return (
+    <div className="stack" data-testid="session-notes">
+      <strong>课堂笔记</strong>
+
+      <label className="field">
+        <span className="muted">课堂总结（学生可见）</span>
+        <textarea rows={4} value={sharedSummary} onChange={(e) => setSharedSummary(e.target.value)} />
+      </label>
+
+      <label className="field">
+        <span className="muted">内部备注（仅老师与管理员可见）</span>
+        <textarea rows={3} value={privateNote} onChange={(e) => setPrivateNote(e.target.value)} />
+      </label>
+
+      <div className="row">
+        <button
+          className="btn"
+          type="button"
+          disabled={busy}
+          onClick={() =>
+            void run(async () => {
+              const data = await apiFetchJson<SessionNotes>(`/teacher/sessions/${sessionId}/notes`, {
+                method: 'PUT',
+                headers: { 'content-type': 'application/json' },
+                body: JSON.stringify({ privateNote, sharedSummary }),
+              });
+              applyNotes(data);
+            }, '笔记已保存')
+          }
+        >
+          保存笔记
+        </button>
+      </div>
+
+      <strong>作业</strong>
+      {notes.homework.length === 0 ? <div className="muted">暂无作业</div> : null}
+      {notes.homework.map((item) => (
+        <div key={item.id} className="row" style={{ justifyContent: 'space-between', flexWrap: 'wrap' }}>
+          <label className="row" style={{ gap: 8 }}>
+            <input
+              type="checkbox"
+              checked={item.completed}
+              disabled={busy}
+              onChange={(e) =>
+                void run(async () => {
+                  await apiFetchJson(`/teacher/homework/${item.id}`, {
+                    method: 'PATCH',
+                    headers: { 'content-type': 'application/json' },
+                    body: JSON.stringify({ completed: e.target.checked }),
+                  });
+                  await reloadHomework();
+                }, '作业已更新')
+              }
+            />
+            <span>
+              {item.title}
+              {item.dueDateLocal ? <span className="muted">（截止 {item.dueDateLocal}）</span> : null}
+            </span>
+          </label>
+          <button
+            className="btnSecondary btnSm"
+            type="button"
+            disabled={busy}
+            onClick={() =>
+              void run(async () => {
+                await apiFetchJson(`/teacher/homework/${item.id}`, { method: 'DELETE' });
+                await reloadHomework();
+              }, '作业已删除')
+            }
+          >
+            删除
+          </button>
+        </div>
+      ))}
+
+      <form
+        className="row"
+        style={{ flexWrap: 'wrap' }}
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (!homeworkTitle.trim()) {
+            setError('请输入作业内容');
+            return;
+          }
+          void run(async () => {
+            await apiFetchJson(`/teacher/sessions/${sessionId}/homework`, {
+              method: 'POST',
+              headers: { 'content-type': 'application/json' },
+              body: JSON.stringify({
+                title: homeworkTitle.trim(),
+                ...(homeworkDueDate ? { dueDateLocal: homeworkDueDate } : {}),
+              }),
+            });
+            setHomeworkTitle('');
+            setHomeworkDueDate('');
+            await reloadHomework();
+          }, '作业已添加');
+        }}
+      >
+        <input
+          className="control"
+          placeholder="作业内容"
+          value={homeworkTitle}
+          onChange={(e) => setHomeworkTitle(e.target.value)}
+        />
+        <input className="control" type="date" value={homeworkDueDate} onChange={(e) => setHomeworkDueDate(e.target.value)} />
+        <button className="btnSecondary" type="submit" disabled={busy}>
+          添加作业
+        </button>
+      </form>
+
+      {error ? <div className="error">{error}</div> : null}
+      {success ? <div className="success">{success}</div> : null}
+    </div>
+  );
+}
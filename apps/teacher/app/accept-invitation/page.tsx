@@ -0,0 +1,7 @@
+import SetPasswordForm from '../_components/set-password-form';
+
+export default function AcceptInvitationPage() {
+  return (
+    <SetPasswordForm endpoint="/auth/accept-invitation" title="设置密码" intro="欢迎！请为你的账号设置登录密码。" />
+  );
+}
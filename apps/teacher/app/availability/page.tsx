@@ -0,0 +1,247 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { useApi } from '../_lib/api';
+import { useRequireAuth } from '../_lib/auth';
+
+type AvailabilityWindow = {
+  weekday: number;
+  startTimeLocal: string;
+  endTimeLocal: string;
+};
+
+type BlackoutDate = {
+  id: string;
+  dateLocal: string;
+  reason: string | null;
+};
+
+type AvailabilityResponse = {
+  timeZone: string | null;
+  windows: (AvailabilityWindow & { id: string })[];
+  blackoutDates: BlackoutDate[];
+};
+
+const WEEKDAY_OPTIONS: { value: number; label: string }[] = [
+  { value: 1, label: '周一' },
+  { value: 2, label: '周二' },
+  { value: 3, label: '周三' },
+  { value: 4, label: '周四' },
+  { value: 5, label: '周五' },
+  { value: 6, label: '周六' },
+  { value: 7, label: '周日' },
+];
+
+export default function AvailabilityPage() {
+  const { hydrated, accessToken } = useRequireAuth();
+  const { apiFetchJson } = useApi();
+
+  const [data, setData] = useState<AvailabilityResponse | null>(null);
+  const [windows, setWindows] = useState<AvailabilityWindow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [blackoutDate, setBlackoutDate] = useState('');
+  const [blackoutReason, setBlackoutReason] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const applyResponse = (res: AvailabilityResponse) => {
+    setData(res);
+    setWindows(
+      res.windows.map((window) => ({
+        weekday: window.weekday,
+        startTimeLocal: window.startTimeLocal,
+        endTimeLocal: window.endTimeLocal,
+      })),
+    );
+  };
+
+  const refresh = async () => {
+    applyResponse(await apiFetchJson<AvailabilityResponse>('/teacher/availability'));
+  };
+
+  useEffect(() => {
+    if (!hydrated || !accessToken) return;
+    void refresh().catch((err) => setError(err instanceof Error ? err.message : '加载失败'));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [accessToken, hydrated]);
+
+  const updateWindow = (index: number, patch: Partial<AvailabilityWindow>) => {
+    setWindows((prev) => prev.map((window, i) => (i === index ? { ...window, ...patch } : window)));
+  };
+
+  return (
+    <main className="stack">
+      <div className="row" style={{ justifyContent: 'space-between' }}>
+        <h1 style={{ margin: 0 }}>可上课时间</h1>
+        <span className="muted" style={{ fontSize: 12 }}>
+          ⓘ 按我的时区：{data?.timeZone ?? '—'}
+        </span>
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+      {success ? <div className="success">{success}</div> : null}
+
+      {data === null ? (
+        <div className="card muted">加载中…</div>
+      ) : (
+        <>
+          <div className="card stack">
+            <strong>每周固定时段</strong>
+            <div className="muted" style={{ fontSize: 12 }}>
+              未设置任何时段时，视为全天可排课；结束时间可填 24:00 表示到当天结束
+            </div>
+
+            {windows.length === 0 ? <div className="muted">暂无时段</div> : null}
+
+            {windows.map((window, index) => (
+              <div key={index} className="row" style={{ flexWrap: 'wrap' }} data-testid="availability-window">
+                <select
+                  className="control"
+                  value={window.weekday}
+                  onChange={(e) => updateWindow(index, { weekday: Number(e.target.value) })}
+                >
+                  {WEEKDAY_OPTIONS.map((opt) => (
+                    <option key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  className="control"
+                  value={window.startTimeLocal}
+                  placeholder="09:00"
+                  onChange={(e) => updateWindow(index, { startTimeLocal: e.target.value })}
+                />
+                <span className="muted">至</span>
+                <input
+                  className="control"
+                  value={window.endTimeLocal}
+                  placeholder="17:00"
+                  onChange={(e) => updateWindow(index, { endTimeLocal: e.target.value })}
+                />
+                <button
+                  className="btnSecondary btnSm"
+                  type="button"
+                  onClick={() => setWindows((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  移除
+                </button>
+              </div>
+            ))}
+
+            <div className="row" style={{ flexWrap: 'wrap' }}>
+              <button
+                className="btnSecondary"
+                type="button"
+                onClick={() => setWindows((prev) => [...prev, { weekday: 1, startTimeLocal: '09:00', endTimeLocal: '17:00' }])}
+              >
+                添加时段
+              </button>
+              <button
+                className="btn"
+                type="button"
+                disabled={saving}
+                data-testid="availability-save"
+                onClick={async () => {
+                  setError(null);
+                  setSuccess(null);
+                  setSaving(true);
+                  try {
+                    applyResponse(
+                      await apiFetchJson<AvailabilityResponse>('/teacher/availability/windows', {
+                        method: 'PUT',
+                        headers: { 'content-type': 'application/json' },
+                        body: JSON.stringify({ windows }),
+                      }),
+                    );
+                    setSuccess('已保存');
+                  } catch (err) {
+                    setError(err instanceof Error ? err.message : '保存失败');
+                  } finally {
+                    setSaving(false);
+                  }
+                }}
+              >
+                {saving ? '保存中…' : '保存时段'}
+              </button>
+            </div>
+          </div>
+
+          <div className="card stack">
+            <strong>停课日期</strong>
+
+            <form
+              className="row"
+              style={{ flexWrap: 'wrap', alignItems: 'flex-end' }}
+              onSubmit={async (event) => {
+                event.preventDefault();
+                if (!blackoutDate) return;
+                setError(null);
+                setSuccess(null);
+                try {
+                  await apiFetchJson('/teacher/availability/blackout-dates', {
+                    method: 'POST',
+                    headers: { 'content-type': 'application/json' },
+                    body: JSON.stringify({ dateLocal: blackoutDate, ...(blackoutReason ? { reason: blackoutReason } : {}) }),
+                  });
+                  setBlackoutDate('');
+                  setBlackoutReason('');
+                  await refresh();
+                } catch (err) {
+                  setError(err instanceof Error ? err.message : '添加失败');
+                }
+              }}
+            >
+              <label className="field">
+                <span className="muted">日期</span>
+                <input type="date" value={blackoutDate} onChange={(e) => setBlackoutDate(e.target.value)} />
+              </label>
+              <label className="field">
+                <span className="muted">原因（可选）</span>
+                <input value={blackoutReason} onChange={(e) => setBlackoutReason(e.target.value)} />
+              </label>
+              <button className="btn" type="submit" disabled={!blackoutDate}>
+                添加
+              </button>
+            </form>
+
+            {data.blackoutDates.length === 0 ? (
+              <div className="muted">暂无停课日期</div>
+            ) : (
+              data.blackoutDates.map((blackout) => (
+                <div key={blackout.id} className="row" style={{ justifyContent: 'space-between' }}>
+                  <span>
+                    {blackout.dateLocal}
+                    {blackout.reason ? <span className="muted">（{blackout.reason}）</span> : null}
+                  </span>
+                  <button
+                    className="btnDanger btnSm"
+                    type="button"
+                    disabled={busyId === blackout.id}
+                    onClick={async () => {
+                      setError(null);
+                      setBusyId(blackout.id);
+                      try {
+                        await apiFetchJson(`/teacher/availability/blackout-dates/${blackout.id}`, { method: 'DELETE' });
+                        await refresh();
+                      } catch (err) {
+                        setError(err instanceof Error ? err.message : '删除失败');
+                      } finally {
+                        setBusyId(null);
+                      }
+                    }}
+                  >
+                    删除
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </>
+      )}
+    </main>
+  );
+}
@@ -1,5 +1,6 @@
 'use client';
 
+import Link from 'next/link';
 import { useEffect, useMemo, useState } from 'react';
 
 import { formatDateTimeInTimeZone, useApi } from '../_lib/api';
@@ -250,7 +251,13 @@ export default function CalendarPage() {
       ) : (
         <div className="stack" data-testid="session-list">
           {filteredSessions.map((session) => (
-            <div key={session.id} className="card" data-testid="session-item">
+            <Link
+              key={session.id}
+              href={`/session/${session.id}`}
+              className="card cardInteractive"
+              data-testid="session-item"
+              style={{ display: 'block' }}
+            >
               <div className="row" style={{ justifyContent: 'space-between' }}>
                 <strong>{formatDateTimeInTimeZone(session.startAtUtc, timeZone)}</strong>
                 <span className="muted" style={{ fontSize: 12 }}>
@@ -265,7 +272,7 @@ export default function CalendarPage() {
               <div style={{ marginTop: 8, fontSize: 13 }}>
                 学生：{session.studentName ?? '—'}
               </div>
-            </div>
+            </Link>
           ))}
         </div>
       )}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { formatDateTimeInTimeZone, useApi } from '../_lib/api';
+import { useRequireAuth } from '../_lib/auth';
+import { useDisplayTimeZone } from '../_lib/display-timezone';
+
+type ChangeRequestItem = {
+  id: string;
+  sessionId: string;
+  type: 'CANCEL' | 'RESCHEDULE';
+  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  proposedStartAtUtc: string | null;
+  proposedEndAtUtc: string | null;
+  proposedTimeZone: string | null;
+  createdAt: string;
+  session: {
+    startAtUtc: string;
+    endAtUtc: string;
+    classTimeZone: string;
+    studentName: string | null;
+  };
+};
+
+const TYPE_LABELS: Record<ChangeRequestItem['type'], string> = { CANCEL: '取消', RESCHEDULE: '改期' };
+const STATUS_LABELS: Record<ChangeRequestItem['status'], string> = {
+  PENDING: '待审批',
+  APPROVED: '已通过',
+  REJECTED: '已驳回',
+};
+
+export default function ChangeRequestsPage() {
+  const { hydrated, accessToken } = useRequireAuth();
+  const { apiFetchJson } = useApi();
+  const { timeZone } = useDisplayTimeZone();
+
+  const [items, setItems] = useState<ChangeRequestItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!hydrated || !accessToken) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        setError(null);
+        const data = await apiFetchJson<ChangeRequestItem[]>('/teacher/change-requests');
+        if (!cancelled) setItems(data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : '加载失败');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken, apiFetchJson, hydrated]);
+
+  return (
+    <main className="stack">
+      <h1 style={{ margin: 0 }}>我的申请</h1>
+
+      {error ? <div className="error">{error}</div> : null}
+
+      {items === null ? (
+        <div className="card muted">加载中…</div>
+      ) : items.length === 0 ? (
+        <div className="card muted">暂无申请（可在课表中点开课程发起取消/改期）</div>
+      ) : (
+        <div className="stack" data-testid="change-request-list">
+          {items.map((item) => (
+            <div key={item.id} className="card stack">
+              <div className="row" style={{ justifyContent: 'space-between' }}>
+                <strong>
+                  {TYPE_LABELS[item.type]} · {STATUS_LABELS[item.status]}
+                </strong>
+                <span className="muted" style={{ fontSize: 12 }}>
+                  {formatDateTimeInTimeZone(item.createdAt, timeZone)}
+                </span>
+              </div>
+
+              <div style={{ fontSize: 13 }}>学生：{item.session.studentName ?? '—'}</div>
+
+              <div className="muted" style={{ fontSize: 13 }}>
+                原课程：{formatDateTimeInTimeZone(item.session.startAtUtc, timeZone)}（{item.session.classTimeZone}）
+              </div>
+
+              {item.type === 'RESCHEDULE' && item.proposedStartAtUtc ? (
+                <div className="muted" style={{ fontSize: 13 }}>
+                  申请改为：{formatDateTimeInTimeZone(item.proposedStartAtUtc, timeZone)}（{item.proposedTimeZone}）
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      )}
+    </main>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useState } from 'react';
 
 import { useApi } from '../_lib/api';
 import { useRequireAuth } from '../_lib/auth';
@@ -12,20 +12,45 @@ type PayrollTotal = {
   sessionsCount: number;
 };
 
+/** Present only when a reporting currency was picked; every session converted at its own date. */
+type ConvertedTotal = { currency: string; totalCents: number };
+
 type StudentPayroll = {
   studentId: string;
   studentName: string | null;
   totals: PayrollTotal[];
+  converted?: ConvertedTotal;
 };
 
+type PayrollRunStatus = 'CLOSED' | 'APPROVED' | 'PAID';
+
+type PayrollCadence = 'WEEKLY' | 'FORTNIGHTLY' | 'SEMI_MONTHLY' | 'MONTHLY';
+
 type PayrollResponse = {
-  weekStartLocal: string;
-  weekEndLocal: string;
+  periodStartLocal: string;
+  periodEndLocal: string;
+  timeZone: string;
+  cadence: PayrollCadence;
+  run: { id: string; status: PayrollRunStatus } | null;
   totals: PayrollTotal[];
+  converted?: ConvertedTotal;
   byStudent: StudentPayroll[];
 };
 
-const PAYROLL_TIME_ZONE = 'Australia/Sydney';
+const CURRENCIES = ['AUD', 'CNY', 'USD'];
+
+const CADENCE_LABELS: Record<PayrollCadence, string> = {
+  WEEKLY: '每周',
+  FORTNIGHTLY: '每两周',
+  SEMI_MONTHLY: '每半月',
+  MONTHLY: '每月',
+};
+
+const RUN_STATUS_LABELS: Record<PayrollRunStatus, string> = {
+  CLOSED: '已关账',
+  APPROVED: '已审批',
+  PAID: '已发放',
+};
 
 function parseIsoDate(value: string): { year: number; month: number; day: number } {
   const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
@@ -40,46 +65,9 @@ function addDaysIsoDate(isoDate: string, deltaDays: number): string {
   return date.toISOString().slice(0, 10);
 }
 
-function isoDateToUtcMidday(isoDate: string): Date {
-  const { year, month, day } = parseIsoDate(isoDate);
-  return new Date(Date.UTC(year, month - 1, day, 12, 0, 0));
-}
-
-function formatIsoDateInTimeZone(date: Date, timeZone: string): string {
-  const parts = new Intl.DateTimeFormat('en-US', {
-    timeZone,
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit',
-  }).formatToParts(date);
-
-  const year = parts.find((p) => p.type === 'year')?.value;
-  const month = parts.find((p) => p.type === 'month')?.value;
-  const day = parts.find((p) => p.type === 'day')?.value;
-
-  if (!year || !month || !day) throw new Error('Failed to format date');
-  return `${year}-${month}-${day}`;
-}
-
-function getSydneyWeekStart(date: Date): string {
-  const weekday = new Intl.DateTimeFormat('en-US', { timeZone: PAYROLL_TIME_ZONE, weekday: 'short' }).format(date);
-  const offset =
-    weekday === 'Mon'
-      ? 0
-      : weekday === 'Tue'
-        ? 1
-        : weekday === 'Wed'
-          ? 2
-          : weekday === 'Thu'
-            ? 3
-            : weekday === 'Fri'
-              ? 4
-              : weekday === 'Sat'
-                ? 5
-                : 6;
-
-  const todayLocal = formatIsoDateInTimeZone(date, PAYROLL_TIME_ZONE);
-  return addDaysIsoDate(todayLocal, -offset);
+function todayLocal(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
 }
 
 function formatCurrency(cents: number, currency: string): string {
@@ -93,14 +81,26 @@ function formatCurrency(cents: number, currency: string): string {
 
 export default function PayrollPage() {
   const { hydrated, accessToken } = useRequireAuth();
-  const { apiFetchJson } = useApi();
+  const { apiFetchJson, apiDownload } = useApi();
 
-  const defaultAnchorDate = useMemo(() => getSydneyWeekStart(new Date()), []);
-  const [anchorDate, setAnchorDate] = useState(defaultAnchorDate);
-  const weekStart = useMemo(() => getSydneyWeekStart(isoDateToUtcMidday(anchorDate)), [anchorDate]);
+  const [anchorDate, setAnchorDate] = useState(todayLocal);
+  const [reportingCurrency, setReportingCurrency] = useState('');
 
   const [data, setData] = useState<PayrollResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+
+  const downloadPayslip = async (periodStart: string) => {
+    setDownloading(true);
+    setError(null);
+    try {
+      await apiDownload(`/teacher/payroll/payslip.pdf?periodStart=${periodStart}`, `payslip-${periodStart}.pdf`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '下载失败');
+    } finally {
+      setDownloading(false);
+    }
+  };
 
   useEffect(() => {
     if (!hydrated || !accessToken) return;
@@ -109,7 +109,9 @@ export default function PayrollPage() {
     (async () => {
       try {
         setError(null);
-        const res = await apiFetchJson<PayrollResponse>(`/teacher/payroll?weekStart=${weekStart}`);
+        const params = new URLSearchParams({ date: anchorDate });
+        if (reportingCurrency) params.set('reportingCurrency', reportingCurrency);
+        const res = await apiFetchJson<PayrollResponse>(`/teacher/payroll?${params.toString()}`);
         if (!cancelled) setData(res);
       } catch (err) {
         if (!cancelled) setError(err instanceof Error ? err.message : '加载失败');
@@ -119,20 +121,22 @@ export default function PayrollPage() {
     return () => {
       cancelled = true;
     };
-  }, [accessToken, apiFetchJson, hydrated, weekStart]);
+  }, [accessToken, anchorDate, apiFetchJson, hydrated, reportingCurrency]);
 
   return (
     <main className="stack">
       <div className="row" style={{ justifyContent: 'space-between' }}>
-        <h1 style={{ margin: 0 }}>周工资</h1>
-        <span className="muted" style={{ fontSize: 12 }}>
-          ⓘ 统计口径：{PAYROLL_TIME_ZONE}（周一到周日）
-        </span>
+        <h1 style={{ margin: 0 }}>工资</h1>
+        {data ? (
+          <span className="muted" style={{ fontSize: 12 }}>
+            ⓘ 统计口径：{data.timeZone}（{CADENCE_LABELS[data.cadence]}结算）
+          </span>
+        ) : null}
       </div>
 
       <div className="card stack" style={{ maxWidth: 520 }}>
         <label className="field" style={{ maxWidth: 260 }}>
-          <span className="muted">选择日期（自动按周统计）</span>
+          <span className="muted">选择日期（自动对齐到所在工资周期）</span>
           <input
             data-testid="payroll-weekstart"
             type="date"
@@ -144,20 +148,53 @@ export default function PayrollPage() {
           />
         </label>
 
-        <div className="muted" style={{ fontSize: 12 }}>
-          按周统计（周一~周日），已自动对齐到周一：{weekStart}
-        </div>
+        <label className="field" style={{ maxWidth: 260 }}>
+          <span className="muted">折算币种</span>
+          <select
+            data-testid="payroll-reporting-currency"
+            value={reportingCurrency}
+            onChange={(e) => setReportingCurrency(e.target.value)}
+          >
+            <option value="">不折算</option>
+            {CURRENCIES.map((currency) => (
+              <option key={currency} value={currency}>
+                {currency}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {data ? (
+          <div className="muted" style={{ fontSize: 12 }}>
+            当前周期：{data.periodStartLocal} ~ {data.periodEndLocal}
+          </div>
+        ) : null}
 
         <div className="row" style={{ gap: 8 }}>
           <button
             className="btnSecondary"
             type="button"
-            onClick={() => setAnchorDate((prev) => addDaysIsoDate(prev, -7))}
+            disabled={data === null}
+            onClick={() => data && setAnchorDate(addDaysIsoDate(data.periodStartLocal, -1))}
           >
-            上一周
+            上一周期
           </button>
-          <button className="btnSecondary" type="button" onClick={() => setAnchorDate((prev) => addDaysIsoDate(prev, 7))}>
-            下一周
+          <button
+            className="btnSecondary"
+            type="button"
+            disabled={data === null}
+            onClick={() => data && setAnchorDate(addDaysIsoDate(data.periodEndLocal, 1))}
+          >
+            下一周期
+          </button>
+          <button
+            className="btn"
+            type="button"
+            data-testid="payroll-payslip-download"
+            disabled={downloading || data === null}
+            onClick={() => data && void downloadPayslip(data.periodStartLocal)}
+          >
+            {downloading ? '生成中…' : '下载工资单 PDF'}
           </button>
         </div>
       </div>
@@ -170,18 +207,21 @@ export default function PayrollPage() {
         <div className="stack">
           <div className="card" data-testid="payroll-week-range">
             <div className="muted" style={{ fontSize: 12 }}>
-              区间（Sydney）
+              区间（{data.timeZone}）
             </div>
-            <div style={{ marginTop: 8 }}>
+            <div className="row" style={{ marginTop: 8, flexWrap: 'wrap' }}>
               <strong>
-                {data.weekStartLocal} ~ {data.weekEndLocal}
+                {data.periodStartLocal} ~ {data.periodEndLocal}
               </strong>
+              <span className="muted" style={{ fontSize: 12 }} data-testid="payroll-run-status">
+                {data.run ? RUN_STATUS_LABELS[data.run.status] : '未关账（实时计算）'}
+              </span>
             </div>
           </div>
 
           {data.totals.length === 0 ? (
             <div className="card muted" data-testid="payroll-totals">
-              本周暂无已完成课程
+              本周期暂无已完成课程
             </div>
           ) : (
             <>
@@ -197,6 +237,17 @@ export default function PayrollPage() {
                     </div>
                   </div>
                 ))}
+                {data.converted ? (
+                  <div className="card" data-testid="payroll-converted-total">
+                    <div className="row" style={{ justifyContent: 'space-between' }}>
+                      <strong>折合 {data.converted.currency}</strong>
+                      <span>{formatCurrency(data.converted.totalCents, data.converted.currency)}</span>
+                    </div>
+                    <div className="muted" style={{ marginTop: 8, fontSize: 13 }}>
+                      按各课程结束日汇率折算，仅供参考
+                    </div>
+                  </div>
+                ) : null}
               </div>
 
               <div className="stack" data-testid="payroll-by-student">
@@ -221,6 +272,12 @@ export default function PayrollPage() {
                             <span>{formatCurrency(t.totalCents, t.currency)}</span>
                           </div>
                         ))}
+                        {student.converted ? (
+                          <div className="row" style={{ justifyContent: 'space-between' }}>
+                            <span className="muted">折合 {student.converted.currency}</span>
+                            <span>{formatCurrency(student.converted.totalCents, student.converted.currency)}</span>
+                          </div>
+                        ) : null}
 
                         <div className="muted" style={{ fontSize: 13 }}>
                           {student.totals.reduce((acc, t) => acc + t.totalHours, 0).toFixed(2)} 小时（各币种小时数汇总）
@@ -0,0 +1,330 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useEffect, useMemo, useState } from 'react';
+
+import SessionNotesEditor from '../../_components/session-notes';
+import { formatDateTimeInTimeZone, useApi } from '../../_lib/api';
+import { useRequireAuth } from '../../_lib/auth';
+import { useDisplayTimeZone } from '../../_lib/display-timezone';
+
+type SessionListItem = {
+  id: string;
+  startAtUtc: string;
+  endAtUtc: string;
+  classTimeZone: string;
+  status: string;
+  attendance: AttendanceOutcome | null;
+  attendedMinutes: number | null;
+  teacherName: string | null;
+  studentName: string | null;
+};
+
+type AttendanceOutcome = 'ATTENDED' | 'STUDENT_NO_SHOW' | 'TEACHER_NO_SHOW' | 'PARTIAL';
+
+type AttendanceResponse = {
+  id: string;
+  status: string;
+  attendance: AttendanceOutcome;
+  attendedMinutes: number | null;
+};
+
+const ATTENDANCE_OUTCOMES: AttendanceOutcome[] = ['ATTENDED', 'PARTIAL', 'STUDENT_NO_SHOW', 'TEACHER_NO_SHOW'];
+
+const ATTENDANCE_LABELS: Record<AttendanceOutcome, string> = {
+  ATTENDED: '正常上课',
+  PARTIAL: '部分出席',
+  STUDENT_NO_SHOW: '学生缺席',
+  TEACHER_NO_SHOW: '老师缺席',
+};
+
+type ChangeRequestResponse = {
+  id: string;
+  sessionId: string;
+  type: string;
+  status: string;
+};
+
+const CUTOFF_HOURS = 2;
+
+function canCreateChangeRequest(startAtUtcIso: string): boolean {
+  const startAtUtc = new Date(startAtUtcIso).getTime();
+  const cutoffUtc = startAtUtc - CUTOFF_HOURS * 60 * 60 * 1000;
+  return Date.now() <= cutoffUtc;
+}
+
+function toDateTimeLocalValue(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export default function SessionDetailPage({ params }: { params: { id: string } }) {
+  const router = useRouter();
+  const { hydrated, accessToken } = useRequireAuth();
+  const { apiFetchJson } = useApi();
+  const { timeZone } = useDisplayTimeZone();
+
+  const [session, setSession] = useState<SessionListItem | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [rescheduleOpen, setRescheduleOpen] = useState(false);
+  const [proposedStartLocal, setProposedStartLocal] = useState('');
+  const [proposedEndLocal, setProposedEndLocal] = useState('');
+
+  const [attendanceOutcome, setAttendanceOutcome] = useState<AttendanceOutcome>('ATTENDED');
+  const [attendedMinutes, setAttendedMinutes] = useState('');
+  const [attendanceError, setAttendanceError] = useState<string | null>(null);
+  const [attendanceSaving, setAttendanceSaving] = useState(false);
+
+  const canRequest = useMemo(
+    () => (session ? session.status === 'SCHEDULED' && canCreateChangeRequest(session.startAtUtc) : false),
+    [session],
+  );
+
+  const canRecordAttendance = useMemo(
+    () =>
+      session
+        ? (session.status === 'SCHEDULED' || session.status === 'PENDING_CONFIRMATION') &&
+          new Date(session.startAtUtc).getTime() <= Date.now()
+        : false,
+    [session],
+  );
+
+  useEffect(() => {
+    if (!hydrated || !accessToken) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        setError(null);
+        const sessions = await apiFetchJson<SessionListItem[]>('/teacher/sessions');
+        const found = sessions.find((s) => s.id === params.id) ?? null;
+        if (cancelled) return;
+        setSession(found);
+        if (found) {
+          setAttendanceOutcome(found.attendance ?? 'ATTENDED');
+          setAttendedMinutes(found.attendedMinutes ? String(found.attendedMinutes) : '');
+          setProposedStartLocal(toDateTimeLocalValue(new Date(found.startAtUtc)));
+          setProposedEndLocal(toDateTimeLocalValue(new Date(found.endAtUtc)));
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : '加载失败');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken, apiFetchJson, hydrated, params.id]);
+
+  const submit = async (body: Record<string, unknown>) => {
+    if (!session) return;
+    setSubmitError(null);
+    setSuccess(null);
+    setSubmitting(true);
+    try {
+      const data = await apiFetchJson<ChangeRequestResponse>(`/teacher/sessions/${session.id}/change-requests`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      setSuccess(`已提交申请（${data.type}/${data.status}），等待管理员审批`);
+      setRescheduleOpen(false);
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : '提交失败');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const recordAttendance = async () => {
+    if (!session) return;
+    setAttendanceError(null);
+    setSuccess(null);
+
+    let minutes: number | undefined;
+    if (attendanceOutcome === 'PARTIAL') {
+      minutes = Number(attendedMinutes);
+      if (!Number.isInteger(minutes) || minutes <= 0) {
+        setAttendanceError('请输入实际上课分钟数');
+        return;
+      }
+    }
+
+    setAttendanceSaving(true);
+    try {
+      const data = await apiFetchJson<AttendanceResponse>(`/teacher/sessions/${session.id}/attendance`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ outcome: attendanceOutcome, ...(minutes !== undefined ? { attendedMinutes: minutes } : {}) }),
+      });
+      setSession({ ...session, status: data.status, attendance: data.attendance, attendedMinutes: data.attendedMinutes });
+      setSuccess(`已记录出勤：${ATTENDANCE_LABELS[data.attendance]}`);
+    } catch (err) {
+      setAttendanceError(err instanceof Error ? err.message : '提交失败');
+    } finally {
+      setAttendanceSaving(false);
+    }
+  };
+
+  return (
+    <main className="stack">
+      <div className="row" style={{ justifyContent: 'space-between' }}>
+        <h1 style={{ margin: 0 }}>课程详情</h1>
+        <button className="btnSecondary" type="button" onClick={() => router.back()}>
+          返回
+        </button>
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+
+      {session === null ? (
+        <div className="card muted">未找到课程（可能已被取消或无权限）</div>
+      ) : (
+        <div className="card stack">
+          <div className="row" style={{ justifyContent: 'space-between' }}>
+            <strong>{formatDateTimeInTimeZone(session.startAtUtc, timeZone)}</strong>
+            <span className="muted" style={{ fontSize: 12 }}>
+              {session.status}
+            </span>
+          </div>
+
+          <div className="muted">展示时区：{timeZone}</div>
+          <div className="muted">课程时区：{session.classTimeZone}</div>
+          <div>学生：{session.studentName ?? '—'}</div>
+          {session.attendance ? (
+            <div>
+              出勤：{ATTENDANCE_LABELS[session.attendance]}
+              {session.attendance === 'PARTIAL' && session.attendedMinutes ? `（${session.attendedMinutes} 分钟）` : null}
+            </div>
+          ) : null}
+
+          {canRecordAttendance ? (
+            <div className="stack" data-testid="attendance-form">
+              <strong>记录出勤</strong>
+              {session.status === 'PENDING_CONFIRMATION' ? (
+                <div className="muted" style={{ fontSize: 12 }}>
+                  课程已结束，待确认出勤；超过确认期限未记录将按正常上课处理。
+                </div>
+              ) : null}
+              <div className="row" style={{ flexWrap: 'wrap' }}>
+                <label className="field">
+                  <span className="muted">出勤情况</span>
+                  <select
+                    className="control"
+                    value={attendanceOutcome}
+                    onChange={(e) => setAttendanceOutcome(e.target.value as AttendanceOutcome)}
+                  >
+                    {ATTENDANCE_OUTCOMES.map((outcome) => (
+                      <option key={outcome} value={outcome}>
+                        {ATTENDANCE_LABELS[outcome]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                {attendanceOutcome === 'PARTIAL' ? (
+                  <label className="field">
+                    <span className="muted">实际上课（分钟）</span>
+                    <input
+                      className="control"
+                      type="number"
+                      min={1}
+                      value={attendedMinutes}
+                      onChange={(e) => setAttendedMinutes(e.target.value)}
+                    />
+                  </label>
+                ) : null}
+              </div>
+              <div className="row">
+                <button className="btn" type="button" disabled={attendanceSaving} onClick={() => void recordAttendance()}>
+                  {attendanceSaving ? '提交中…' : '保存出勤'}
+                </button>
+              </div>
+              {attendanceError ? <div className="error">{attendanceError}</div> : null}
+            </div>
+          ) : null}
+
+          <div className="row" style={{ flexWrap: 'wrap' }}>
+            <button
+              className="btnDanger"
+              type="button"
+              disabled={!canRequest || submitting}
+              onClick={() => void submit({ type: 'CANCEL' })}
+            >
+              申请取消
+            </button>
+
+            <button
+              className="btnSecondary"
+              type="button"
+              disabled={!canRequest || submitting}
+              onClick={() => setRescheduleOpen((open) => !open)}
+            >
+              申请改期
+            </button>
+          </div>
+
+          {rescheduleOpen ? (
+            <form
+              className="stack"
+              onSubmit={(event) => {
+                event.preventDefault();
+                const proposedStartAtUtc = new Date(proposedStartLocal);
+                const proposedEndAtUtc = new Date(proposedEndLocal);
+                if (!Number.isFinite(proposedStartAtUtc.getTime()) || !Number.isFinite(proposedEndAtUtc.getTime())) {
+                  setSubmitError('请输入有效的开始/结束时间');
+                  return;
+                }
+                if (proposedEndAtUtc <= proposedStartAtUtc) {
+                  setSubmitError('结束时间必须晚于开始时间');
+                  return;
+                }
+                void submit({
+                  type: 'RESCHEDULE',
+                  proposedStartAtUtc: proposedStartAtUtc.toISOString(),
+                  proposedEndAtUtc: proposedEndAtUtc.toISOString(),
+                  proposedTimeZone: session.classTimeZone,
+                });
+              }}
+            >
+              <div className="row" style={{ flexWrap: 'wrap' }}>
+                <label className="field">
+                  <span className="muted">新开始时间（本地）</span>
+                  <input
+                    type="datetime-local"
+                    value={proposedStartLocal}
+                    onChange={(e) => setProposedStartLocal(e.target.value)}
+                  />
+                </label>
+                <label className="field">
+                  <span className="muted">新结束时间（本地）</span>
+                  <input type="datetime-local" value={proposedEndLocal} onChange={(e) => setProposedEndLocal(e.target.value)} />
+                </label>
+              </div>
+              <div className="row">
+                <button className="btn" type="submit" disabled={submitting}>
+                  {submitting ? '提交中…' : '提交改期申请'}
+                </button>
+              </div>
+            </form>
+          ) : null}
+
+          {!canRequest ? (
+            <div className="muted">距离开课不足 {CUTOFF_HOURS} 小时或课程已结束，无法发起改期/取消，请直接联系管理员。</div>
+          ) : null}
+          {submitError ? <div className="error">{submitError}</div> : null}
+          {success ? <div className="success">{success}</div> : null}
+        </div>
+      )}
+
+      {session ? (
+        <div className="card">
+          <SessionNotesEditor sessionId={session.id} />
+        </div>
+      ) : null}
+    </main>
+  );
+}